@@ -0,0 +1,113 @@
+import { Command } from 'commander';
+import fs from 'node:fs';
+import path from 'node:path';
+import { createRequire } from 'node:module';
+import { projectPaths } from '../utils/paths.js';
+import { logger } from '../utils/logger.js';
+import { detectProject } from '../template/detect.js';
+import { loadContract, mergeContracts } from '../contract/schema.js';
+import { generateContractTypes } from '../contract/generate.js';
+import { scanSwiftModules } from '../contract/swift.js';
+import { checkContract } from '../contract/check.js';
+
+/**
+ * Locate the contract shipped with @pwa-kit/sdk, resolved from `cwd`.
+ */
+function resolveSdkContract(cwd: string): string | null {
+  try {
+    const require = createRequire(path.join(cwd, 'package.json'));
+    return require.resolve('@pwa-kit/sdk/contract.json');
+  } catch {
+    return null;
+  }
+}
+
+const generateCommand = new Command('generate')
+  .description('Generate TypeScript types for bridge.call() from a contract')
+  .argument('<contract>', 'contract JSON file')
+  .option('-o, --output <file>', 'output file (default: stdout)')
+  .option('--augment <module>', 'module to augment with the contract', '@pwa-kit/sdk')
+  .option('--no-augment', 'emit an exported ModuleContract interface instead')
+  .action((contractPath: string, opts: { output?: string; augment: string | false }) => {
+    try {
+      const contract = loadContract(contractPath);
+      const output = generateContractTypes(contract, {
+        augment: opts.augment || undefined,
+        source: path.basename(contractPath),
+      });
+
+      if (!opts.output) {
+        process.stdout.write(output);
+        return;
+      }
+
+      fs.writeFileSync(opts.output, output);
+      logger.success(`Generated ${opts.output}`);
+    } catch (err) {
+      if (err instanceof Error) {
+        logger.error(err.message);
+      }
+      process.exit(1);
+    }
+  });
+
+const checkCommand = new Command('check')
+  .description('Check contracts against the Swift PWAModule declarations')
+  .option('-c, --contract <files...>', 'contract JSON files (default: the @pwa-kit/sdk contract)')
+  .option('-m, --modules <dir>', 'Swift modules directory (default: src/PWAKitCore/Modules)')
+  .action((opts: { contract?: string[]; modules?: string }) => {
+    let modulesDir = opts.modules;
+    if (!modulesDir) {
+      const projectRoot = detectProject(process.cwd());
+      if (!projectRoot) {
+        logger.error('PWAKitApp.xcodeproj not found. Run this from the project root or pass --modules.');
+        process.exit(1);
+      }
+      modulesDir = projectPaths(projectRoot).modules;
+    }
+
+    if (!fs.existsSync(modulesDir)) {
+      logger.error(`Modules directory not found: ${modulesDir}`);
+      process.exit(1);
+    }
+
+    let contractPaths = opts.contract;
+    if (!contractPaths) {
+      const sdkContract = resolveSdkContract(process.cwd());
+      if (!sdkContract) {
+        logger.error('@pwa-kit/sdk is not installed. Pass --contract explicitly.');
+        process.exit(1);
+      }
+      contractPaths = [sdkContract];
+    }
+
+    try {
+      const contract = mergeContracts(contractPaths.map(loadContract));
+      const declarations = scanSwiftModules(modulesDir);
+
+      logger.step(
+        `Checking ${Object.keys(contract.modules).length} contract modules against ${declarations.length} Swift modules...`,
+      );
+
+      const issues = checkContract(contract, declarations);
+      if (issues.length > 0) {
+        for (const issue of issues) {
+          logger.error(issue.message);
+        }
+        logger.error(`${issues.length} contract mismatch${issues.length === 1 ? '' : 'es'}`);
+        process.exit(1);
+      }
+
+      logger.success('Contract matches the Swift modules');
+    } catch (err) {
+      if (err instanceof Error) {
+        logger.error(err.message);
+      }
+      process.exit(1);
+    }
+  });
+
+export const contractCommand = new Command('contract')
+  .description('Generate and check the typed bridge module contract')
+  .addCommand(generateCommand)
+  .addCommand(checkCommand);
@@ -0,0 +1,117 @@
+import { Command } from 'commander';
+import fs from 'node:fs';
+import path from 'node:path';
+import { projectPaths } from '../utils/paths.js';
+import { logger } from '../utils/logger.js';
+import { detectProject } from '../template/detect.js';
+import { moduleNames, parseActions } from '../module/names.js';
+import { renderSwiftModule, renderTypeScriptModule } from '../module/templates.js';
+import { addFeatureFlag, enableFeature, registerModule } from '../module/register.js';
+import { addModuleToProject } from '../module/pbxproj.js';
+
+interface CreateOptions {
+  actions: string;
+  feature: boolean;
+  tsOut: string;
+  bridgeImport: string;
+  force?: boolean;
+}
+
+const createCommand = new Command('create')
+  .description('Scaffold a custom native module and its TypeScript wrapper')
+  .argument('<name>', 'module name (e.g. helloWorld)')
+  .requiredOption('-a, --actions <list>', 'comma-separated action names (e.g. greet,echo)')
+  .option('--no-feature', 'always register the module instead of adding a feature flag')
+  .option('--ts-out <dir>', 'directory for the TypeScript wrapper', '.')
+  .option('--bridge-import <specifier>', 'module the wrapper imports bridge from', '@pwa-kit/sdk')
+  .option('-f, --force', 'overwrite existing module files')
+  .action((name: string, opts: CreateOptions) => {
+    const projectRoot = detectProject(process.cwd());
+    if (!projectRoot) {
+      logger.error('PWAKitApp.xcodeproj not found. Run this from the project root.');
+      process.exit(1);
+    }
+
+    const paths = projectPaths(projectRoot);
+
+    try {
+      const names = moduleNames(name);
+      const actions = parseActions(opts.actions);
+      const feature = opts.feature ? names.moduleName : null;
+
+      logger.step(`Creating ${names.structName} (${actions.join(', ')})...`);
+
+      // Prepare every change up front so a failure leaves the project untouched
+      const swiftFile = path.join(paths.modules, names.typeName, `${names.structName}.swift`);
+      const tsFile = path.resolve(opts.tsOut, `${names.moduleName}.ts`);
+      for (const file of [swiftFile, tsFile]) {
+        if (fs.existsSync(file) && !opts.force) {
+          throw new Error(`${file} already exists (use --force to overwrite)`);
+        }
+      }
+
+      const writes: { file: string; contents: string; message: string }[] = [
+        {
+          file: swiftFile,
+          contents: renderSwiftModule(names, actions, { feature }),
+          message: `Created ${path.relative(process.cwd(), swiftFile)}`,
+        },
+        {
+          file: paths.moduleRegistration,
+          contents: registerModule(fs.readFileSync(paths.moduleRegistration, 'utf-8'), names, feature),
+          message: `Registered ${names.structName} in ModuleRegistration.swift`,
+        },
+      ];
+
+      if (feature) {
+        writes.push({
+          file: paths.featuresConfiguration,
+          contents: addFeatureFlag(
+            fs.readFileSync(paths.featuresConfiguration, 'utf-8'),
+            feature,
+            `Enable the custom ${names.moduleName} module.`,
+          ),
+          message: `Added features.${feature} to FeaturesConfiguration.swift`,
+        });
+
+        if (fs.existsSync(paths.configFile)) {
+          writes.push({
+            file: paths.configFile,
+            contents: enableFeature(fs.readFileSync(paths.configFile, 'utf-8'), feature),
+            message: `Enabled features.${feature} in pwa-config.json`,
+          });
+        } else {
+          logger.warn(`pwa-config.json not found; add "features.${feature}": true once created`);
+        }
+      }
+
+      if (fs.existsSync(paths.pbxproj)) {
+        writes.push({
+          file: paths.pbxproj,
+          contents: addModuleToProject(fs.readFileSync(paths.pbxproj, 'utf-8'), names),
+          message: `Added ${names.structName}.swift to PWAKitApp.xcodeproj`,
+        });
+      }
+
+      writes.push({
+        file: tsFile,
+        contents: renderTypeScriptModule(names, actions, { bridgeImport: opts.bridgeImport }),
+        message: `Created ${path.relative(process.cwd(), tsFile)}`,
+      });
+
+      for (const { file, contents, message } of writes) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, contents);
+        logger.success(message);
+      }
+    } catch (err) {
+      if (err instanceof Error) {
+        logger.error(err.message);
+      }
+      process.exit(1);
+    }
+  });
+
+export const moduleCommand = new Command('module')
+  .description('Manage custom native bridge modules')
+  .addCommand(createCommand);
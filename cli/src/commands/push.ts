@@ -0,0 +1,48 @@
+import { Command } from 'commander';
+import fs from 'node:fs';
+import { logger } from '../utils/logger.js';
+import { webPushToApns } from '../push/apns.js';
+
+interface ConvertOptions {
+  category?: string;
+  sound?: string;
+  output?: string;
+}
+
+const convertCommand = new Command('convert')
+  .description('Convert a Web Push notification JSON into an APNs payload')
+  .argument('[file]', 'Web Push message JSON file (default: stdin)')
+  .option('--category <id>', 'category registered with setCategories(), for action buttons')
+  .option('--sound <name>', 'sound to play unless the notification is silent', 'default')
+  .option('-o, --output <file>', 'output file (default: stdout)')
+  .action((file: string | undefined, opts: ConvertOptions) => {
+    try {
+      const raw = fs.readFileSync(file && file !== '-' ? file : 0, 'utf-8');
+      const { payload, warnings } = webPushToApns(JSON.parse(raw), {
+        category: opts.category,
+        sound: opts.sound,
+      });
+
+      for (const warning of warnings) {
+        logger.warn(warning);
+      }
+
+      const output = `${JSON.stringify(payload, null, 2)}\n`;
+      if (!opts.output) {
+        process.stdout.write(output);
+        return;
+      }
+
+      fs.writeFileSync(opts.output, output);
+      logger.success(`Wrote ${opts.output}`);
+    } catch (err) {
+      if (err instanceof Error) {
+        logger.error(err.message);
+      }
+      process.exit(1);
+    }
+  });
+
+export const pushCommand = new Command('push')
+  .description('Convert Web Push notifications for APNs')
+  .addCommand(convertCommand);
@@ -12,7 +12,8 @@ export interface PWAConfig {
     auth: string[];
     external: string[];
   };
-  features: Record<Feature, boolean>;
+  /** Built-in feature flags, plus any added by `pwa-kit module create` */
+  features: Record<Feature, boolean> & Record<string, boolean>;
   appearance: {
     displayMode: DisplayMode;
     pullToRefresh: boolean;
@@ -0,0 +1,77 @@
+import path from 'node:path';
+import type { BridgeContract } from './schema.js';
+import type { SwiftModuleDeclaration } from './swift.js';
+
+export interface ContractIssue {
+  module: string;
+  action?: string;
+  message: string;
+}
+
+/**
+ * Compare a contract against the Swift PWAModule declarations.
+ * Returns an empty list when every module and action matches.
+ */
+export function checkContract(
+  contract: BridgeContract,
+  declarations: SwiftModuleDeclaration[],
+): ContractIssue[] {
+  const issues: ContractIssue[] = [];
+  const declared = new Map<string, SwiftModuleDeclaration>();
+
+  for (const declaration of declarations) {
+    const existing = declared.get(declaration.moduleName);
+    if (existing) {
+      issues.push({
+        module: declaration.moduleName,
+        message: `Module '${declaration.moduleName}' is declared twice (${path.basename(existing.file)}, ${path.basename(declaration.file)})`,
+      });
+      continue;
+    }
+    declared.set(declaration.moduleName, declaration);
+  }
+
+  for (const [moduleName, declaration] of declared) {
+    const file = path.basename(declaration.file);
+    const mod = contract.modules[moduleName];
+
+    if (!mod) {
+      issues.push({
+        module: moduleName,
+        message: `Module '${moduleName}' is declared in ${file} but missing from the contract`,
+      });
+      continue;
+    }
+
+    for (const action of declaration.supportedActions) {
+      if (!(action in mod.actions)) {
+        issues.push({
+          module: moduleName,
+          action,
+          message: `Action '${moduleName}.${action}' is supported in ${file} but missing from the contract`,
+        });
+      }
+    }
+
+    for (const action of Object.keys(mod.actions)) {
+      if (!declaration.supportedActions.includes(action)) {
+        issues.push({
+          module: moduleName,
+          action,
+          message: `Action '${moduleName}.${action}' is in the contract but not in ${file} supportedActions`,
+        });
+      }
+    }
+  }
+
+  for (const moduleName of Object.keys(contract.modules)) {
+    if (!declared.has(moduleName)) {
+      issues.push({
+        module: moduleName,
+        message: `Module '${moduleName}' is in the contract but no PWAModule declares it`,
+      });
+    }
+  }
+
+  return issues;
+}
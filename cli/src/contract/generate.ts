@@ -0,0 +1,182 @@
+import type { BridgeContract, JsonSchema } from './schema.js';
+
+export interface GenerateOptions {
+  /**
+   * Module to augment with `declare module`. When omitted the contract is
+   * emitted as an exported `ModuleContract` interface (used by the SDK itself).
+   */
+  augment?: string;
+  /** Contract path shown in the header comment */
+  source?: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function literal(value: string | number | boolean | null): string {
+  return typeof value === 'string' ? `'${value.replace(/['\\]/g, '\\$&')}'` : String(value);
+}
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : literal(name);
+}
+
+function refName(ref: string): string {
+  const match = /^#\/definitions\/(.+)$/.exec(ref);
+  if (!match) {
+    throw new Error(`Unsupported $ref: ${ref} (only #/definitions/* is supported)`);
+  }
+  return match[1];
+}
+
+function docComment(description: string | undefined, indent: string): string[] {
+  return description ? [`${indent}/** ${description} */`] : [];
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  return unique.length === 0 ? 'never' : unique.join(' | ');
+}
+
+function renderObject(schema: JsonSchema, indent: string): string {
+  const properties = schema.properties ?? {};
+  const names = Object.keys(properties);
+
+  if (names.length === 0) {
+    if (typeof schema.additionalProperties === 'object') {
+      return `Record<string, ${renderType(schema.additionalProperties, indent)}>`;
+    }
+    return 'Record<string, unknown>';
+  }
+
+  const required = new Set(schema.required ?? []);
+  const inner = `${indent}  `;
+  const lines = ['{'];
+
+  for (const name of names) {
+    const property = properties[name];
+    const optional = required.has(name) ? '' : '?';
+    lines.push(...docComment(property.description, inner));
+    lines.push(`${inner}${propertyKey(name)}${optional}: ${renderType(property, inner)};`);
+  }
+
+  lines.push(`${indent}}`);
+  return lines.join('\n');
+}
+
+/**
+ * Render a JSON Schema (subset) as a TypeScript type expression.
+ */
+export function renderType(schema: JsonSchema, indent = ''): string {
+  if (schema.$ref) {
+    return refName(schema.$ref);
+  }
+  if (schema.const !== undefined) {
+    return literal(schema.const);
+  }
+  if (schema.enum) {
+    return union(schema.enum.map(literal));
+  }
+
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants) {
+    return union(variants.map((variant) => renderType(variant, indent)));
+  }
+
+  if (Array.isArray(schema.type)) {
+    return union(schema.type.map((type) => renderType({ ...schema, type }, indent)));
+  }
+
+  switch (schema.type) {
+    case 'object':
+      return renderObject(schema, indent);
+    case 'array': {
+      if (!schema.items) return 'unknown[]';
+      const item = renderType(schema.items, indent);
+      return item.includes('|') && !item.startsWith('{') ? `(${item})[]` : `${item}[]`;
+    }
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    default:
+      return schema.properties ? renderObject(schema, indent) : 'unknown';
+  }
+}
+
+function renderDefinition(name: string, schema: JsonSchema): string {
+  const lines = docComment(schema.description, '');
+  const type = renderType(schema);
+  const isInterface = schema.type === 'object' && type.startsWith('{');
+
+  lines.push(isInterface ? `interface ${name} ${type}` : `type ${name} = ${type};`);
+  return lines.join('\n');
+}
+
+function renderModules(contract: BridgeContract, indent: string): string[] {
+  const lines: string[] = [];
+  const actionIndent = `${indent}  `;
+  const fieldIndent = `${indent}    `;
+
+  for (const [moduleName, mod] of Object.entries(contract.modules)) {
+    lines.push(...docComment(mod.description, indent));
+    lines.push(`${indent}${propertyKey(moduleName)}: {`);
+
+    for (const [actionName, action] of Object.entries(mod.actions)) {
+      const payload = action.payload ? renderType(action.payload, fieldIndent) : 'undefined';
+      const result = action.result ? renderType(action.result, fieldIndent) : 'void';
+
+      lines.push(...docComment(action.description, actionIndent));
+      lines.push(`${actionIndent}${propertyKey(actionName)}: {`);
+      lines.push(`${fieldIndent}payload: ${payload};`);
+      lines.push(`${fieldIndent}result: ${result};`);
+      lines.push(`${actionIndent}};`);
+    }
+
+    lines.push(`${indent}};`);
+  }
+
+  return lines;
+}
+
+/**
+ * Generate TypeScript declarations for a bridge contract.
+ *
+ * The output maps every module action to its payload and result types, so
+ * `bridge.call('module', 'action', payload)` is checked at compile time.
+ */
+export function generateContractTypes(contract: BridgeContract, options: GenerateOptions = {}): string {
+  const source = options.source ?? 'contract.json';
+  const out: string[] = [
+    `// Generated by \`pwa-kit contract generate\` from ${source}. Do not edit.`,
+    '',
+  ];
+
+  for (const [name, schema] of Object.entries(contract.definitions ?? {})) {
+    out.push(renderDefinition(name, schema), '');
+  }
+
+  if (options.augment) {
+    out.push(`declare module '${options.augment}' {`);
+    out.push('  interface ModuleContract {');
+    out.push(...renderModules(contract, '    '));
+    out.push('  }');
+    out.push('}', '');
+    out.push('export {};');
+  } else {
+    out.push('/**');
+    out.push(' * Payload and result types for every native module action.');
+    out.push(' *');
+    out.push(' * Extend it with `declare module` to type custom modules.');
+    out.push(' */');
+    out.push('export interface ModuleContract {');
+    out.push(...renderModules(contract, '  '));
+    out.push('}');
+  }
+
+  return `${out.join('\n')}\n`;
+}
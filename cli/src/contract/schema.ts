@@ -0,0 +1,70 @@
+import fs from 'node:fs';
+
+/**
+ * The JSON Schema subset used to describe bridge payloads and results.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: (string | number | boolean | null)[];
+  const?: string | number | boolean | null;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  $ref?: string;
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface ContractAction {
+  description?: string;
+  payload?: JsonSchema;
+  result?: JsonSchema;
+}
+
+export interface ContractModule {
+  description?: string;
+  /** pwa-config.json feature flag that registers the module, if any */
+  feature?: string;
+  actions: Record<string, ContractAction>;
+}
+
+export interface BridgeContract {
+  version: number;
+  modules: Record<string, ContractModule>;
+  definitions?: Record<string, JsonSchema>;
+}
+
+export function loadContract(contractPath: string): BridgeContract {
+  const raw = fs.readFileSync(contractPath, 'utf-8');
+  const contract = JSON.parse(raw) as BridgeContract;
+
+  if (typeof contract.modules !== 'object' || contract.modules === null) {
+    throw new Error(`${contractPath}: missing "modules"`);
+  }
+  for (const [name, mod] of Object.entries(contract.modules)) {
+    if (typeof mod.actions !== 'object' || mod.actions === null) {
+      throw new Error(`${contractPath}: module "${name}" is missing "actions"`);
+    }
+  }
+
+  return contract;
+}
+
+/**
+ * Merge several contracts (e.g. the SDK's built-in contract and an app's
+ * custom modules) into one. Later contracts win on conflicting names.
+ */
+export function mergeContracts(contracts: BridgeContract[]): BridgeContract {
+  const merged: BridgeContract = { version: 1, modules: {}, definitions: {} };
+
+  for (const contract of contracts) {
+    Object.assign(merged.modules, contract.modules);
+    Object.assign(merged.definitions!, contract.definitions);
+  }
+
+  return merged;
+}
@@ -0,0 +1,60 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+export interface SwiftModuleDeclaration {
+  moduleName: string;
+  supportedActions: string[];
+  file: string;
+}
+
+const MODULE_NAME = /static\s+(?:let|var)\s+moduleName\s*(?::\s*String\s*)?(?:=|\{)\s*"([^"]+)"/g;
+const SUPPORTED_ACTIONS = /static\s+(?:let|var)\s+supportedActions\s*(?::\s*\[String\]\s*)?(?:=|\{)\s*\[([^\]]*)\]/g;
+
+function stripLineComments(source: string): string {
+  return source
+    .split('\n')
+    .map((line) => (line.trimStart().startsWith('//') ? '' : line))
+    .join('\n');
+}
+
+/**
+ * Extract PWAModule `moduleName` / `supportedActions` pairs from Swift source.
+ */
+export function parseSwiftModules(source: string, file = '<source>'): SwiftModuleDeclaration[] {
+  const code = stripLineComments(source);
+  const names = [...code.matchAll(MODULE_NAME)];
+  const actions = [...code.matchAll(SUPPORTED_ACTIONS)];
+  const declarations: SwiftModuleDeclaration[] = [];
+
+  names.forEach((match, i) => {
+    const list = actions[i];
+    if (!list) return;
+
+    declarations.push({
+      moduleName: match[1],
+      supportedActions: [...list[1].matchAll(/"([^"]+)"/g)].map((action) => action[1]),
+      file,
+    });
+  });
+
+  return declarations;
+}
+
+/**
+ * Scan a directory of Swift sources (recursively) for PWAModule declarations.
+ */
+export function scanSwiftModules(dir: string): SwiftModuleDeclaration[] {
+  const declarations: SwiftModuleDeclaration[] = [];
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      declarations.push(...scanSwiftModules(fullPath));
+    } else if (entry.name.endsWith('.swift')) {
+      declarations.push(...parseSwiftModules(fs.readFileSync(fullPath, 'utf-8'), fullPath));
+    }
+  }
+
+  return declarations;
+}
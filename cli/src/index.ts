@@ -1,6 +1,9 @@
 import { Command } from 'commander';
 import { initCommand } from './commands/init.js';
 import { syncCommand } from './commands/sync.js';
+import { contractCommand } from './commands/contract.js';
+import { moduleCommand } from './commands/module.js';
+import { pushCommand } from './commands/push.js';
 
 const program = new Command()
   .name('pwa-kit')
@@ -9,5 +12,8 @@ const program = new Command()
 
 program.addCommand(initCommand);
 program.addCommand(syncCommand);
+program.addCommand(contractCommand);
+program.addCommand(moduleCommand);
+program.addCommand(pushCommand);
 
 program.parse();
@@ -0,0 +1,54 @@
+export interface ModuleNames {
+  /** Bridge module name and feature flag (e.g. helloWorld) */
+  moduleName: string;
+  /** Swift type prefix and directory name (e.g. HelloWorld) */
+  typeName: string;
+  /** Swift struct name (e.g. HelloWorldModule) */
+  structName: string;
+}
+
+/**
+ * Derive the module, type and struct names from user input such as
+ * `helloWorld`, `hello-world`, `hello_world` or `HelloWorld`.
+ */
+export function moduleNames(input: string): ModuleNames {
+  const words = input
+    .replace(/Module$/, '')
+    .split(/[-_\s]+/)
+    .filter(Boolean);
+
+  if (words.length === 0 || !words.every((w) => /^[A-Za-z][A-Za-z0-9]*$/.test(w))) {
+    throw new Error(`Invalid module name: "${input}" (use letters and digits, e.g. helloWorld)`);
+  }
+
+  const typeName = words.map((w) => w[0].toUpperCase() + w.slice(1)).join('');
+  const moduleName = typeName[0].toLowerCase() + typeName.slice(1);
+
+  return { moduleName, typeName, structName: `${typeName}Module` };
+}
+
+/**
+ * Parse a comma-separated action list, validating each name.
+ */
+export function parseActions(list: string): string[] {
+  const actions = list
+    .split(',')
+    .map((a) => a.trim())
+    .filter(Boolean);
+
+  if (actions.length === 0) {
+    throw new Error('At least one action is required (e.g. --actions greet,echo)');
+  }
+
+  for (const action of actions) {
+    if (!/^[a-z][A-Za-z0-9]*$/.test(action)) {
+      throw new Error(`Invalid action name: "${action}" (use camelCase, e.g. getStatus)`);
+    }
+  }
+
+  return [...new Set(actions)];
+}
+
+export function capitalize(value: string): string {
+  return value[0].toUpperCase() + value.slice(1);
+}
@@ -0,0 +1,102 @@
+import crypto from 'node:crypto';
+import type { ModuleNames } from './names.js';
+
+export function randomObjectId(): string {
+  return crypto.randomBytes(12).toString('hex').toUpperCase();
+}
+
+function escape(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function insertBeforeLine(source: string, marker: string, line: string): string {
+  const index = source.indexOf(marker);
+  if (index === -1) {
+    throw new Error(`project.pbxproj: "${marker}" not found`);
+  }
+  return source.slice(0, index) + line + source.slice(index);
+}
+
+/**
+ * Insert a line at the end of the `children`/`files` list of the object
+ * whose list contains `member`.
+ */
+function appendToListContaining(source: string, member: string, line: string): string {
+  const memberIndex = source.indexOf(member);
+  if (memberIndex === -1) {
+    throw new Error(`project.pbxproj: "${member.trim()}" not found`);
+  }
+  const listEnd = source.indexOf('\t\t\t);', memberIndex);
+  return source.slice(0, listEnd) + line + source.slice(listEnd);
+}
+
+/**
+ * Add the module's Swift file to the Xcode project, in a new group next to
+ * ModuleRegistration.swift and in the same Sources build phase.
+ */
+export function addModuleToProject(
+  source: string,
+  names: ModuleNames,
+  generateId: () => string = randomObjectId,
+): string {
+  const { typeName, structName } = names;
+  const fileName = `${structName}.swift`;
+
+  if (source.includes(`/* ${fileName} */`)) {
+    return source;
+  }
+
+  const registrationRef = new RegExp(`(\\w+) /\\* ModuleRegistration\\.swift \\*/ = \\{isa = PBXFileReference`).exec(source);
+  const registrationBuild = new RegExp(
+    `(\\w+) /\\* ModuleRegistration\\.swift in Sources \\*/ = \\{isa = PBXBuildFile`,
+  ).exec(source);
+  if (!registrationRef || !registrationBuild) {
+    throw new Error('project.pbxproj: ModuleRegistration.swift not found');
+  }
+
+  const fileRefId = generateId();
+  const buildFileId = generateId();
+  const groupId = generateId();
+
+  let result = source;
+
+  result = insertBeforeLine(
+    result,
+    '/* End PBXBuildFile section */',
+    `\t\t${buildFileId} /* ${fileName} in Sources */ = {isa = PBXBuildFile; fileRef = ${fileRefId} /* ${fileName} */; };\n`,
+  );
+  result = insertBeforeLine(
+    result,
+    '/* End PBXFileReference section */',
+    `\t\t${fileRefId} /* ${fileName} */ = {isa = PBXFileReference; lastKnownFileType = sourcecode.swift; path = ${fileName}; sourceTree = "<group>"; };\n`,
+  );
+  result = insertBeforeLine(
+    result,
+    '/* End PBXGroup section */',
+    [
+      `\t\t${groupId} /* ${typeName} */ = {`,
+      '\t\t\tisa = PBXGroup;',
+      '\t\t\tchildren = (',
+      `\t\t\t\t${fileRefId} /* ${fileName} */,`,
+      '\t\t\t);',
+      `\t\t\tpath = ${typeName};`,
+      '\t\t\tsourceTree = "<group>";',
+      '\t\t};',
+      '',
+    ].join('\n'),
+  );
+
+  const groupMember = new RegExp(`\\t\\t\\t\\t${escape(registrationRef[1])} /\\* ModuleRegistration\\.swift \\*/,\\n`).exec(result);
+  if (!groupMember) {
+    throw new Error('project.pbxproj: Modules group not found');
+  }
+  result = appendToListContaining(result, groupMember[0], `\t\t\t\t${groupId} /* ${typeName} */,\n`);
+
+  result = appendToListContaining(
+    result,
+    `\t\t\t\t${registrationBuild[1]} /* ModuleRegistration.swift in Sources */,\n`,
+    `\t\t\t\t${buildFileId} /* ${fileName} in Sources */,\n`,
+  );
+
+  return result;
+}
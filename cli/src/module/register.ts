@@ -0,0 +1,130 @@
+import type { ModuleNames } from './names.js';
+
+function insertBefore(source: string, marker: RegExp, text: (match: RegExpExecArray) => string): string {
+  let result = '';
+  let last = 0;
+  const pattern = new RegExp(marker.source, marker.flags.includes('g') ? marker.flags : `${marker.flags}g`);
+
+  for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+    result += source.slice(last, match.index) + text(match);
+    last = match.index;
+  }
+
+  return result + source.slice(last);
+}
+
+function lastMatchEnd(source: string, pattern: RegExp, from = 0, to = source.length): number {
+  const scope = source.slice(from, to);
+  const matches = [...scope.matchAll(new RegExp(pattern.source, 'gm'))];
+  const last = matches.at(-1);
+  if (!last) {
+    throw new Error(`Could not find ${pattern} in source`);
+  }
+  return from + last.index + last[0].length;
+}
+
+function insertAt(source: string, index: number, text: string): string {
+  return source.slice(0, index) + text + source.slice(index);
+}
+
+/**
+ * Register a module in ModuleRegistration.swift: the doc comment, both
+ * feature-aware `registerDefaultModules` overloads and `moduleNames(for:)`.
+ */
+export function registerModule(source: string, names: ModuleNames, feature: string | null): string {
+  const { structName } = names;
+
+  if (source.includes(`${structName}()`)) {
+    throw new Error(`${structName} is already registered in ModuleRegistration.swift`);
+  }
+
+  const when = feature ? `Registered when \`features.${feature}\` is enabled` : 'Always registered (no feature flag)';
+  const comment = feature
+    ? `// ${structName} is registered conditionally based on feature flag`
+    : `// ${structName} is always registered (no feature flag)`;
+
+  // Doc comment list of registered modules
+  const docEnd = lastMatchEnd(source, /^\/\/\/ - `\w+Module`: .*\n/, 0, source.indexOf('public enum ModuleRegistration'));
+  let result = insertAt(source, docEnd, `/// - \`${structName}\`: ${when}\n`);
+
+  // registerDefaultModules(in:features:) for both dispatcher and registry
+  result = insertBefore(result, /^ {8}return count\n/m, (match) => {
+    const preceding = result.slice(0, match.index);
+    const receiver = preceding.lastIndexOf('in dispatcher:') > preceding.lastIndexOf('in registry:') ? 'dispatcher' : 'registry';
+    const register = `await ${receiver}.register(${structName}())`;
+
+    return feature
+      ? `        ${comment}\n        if features.${feature} {\n            ${register}\n            count += 1\n        }\n\n`
+      : `        ${comment}\n        ${register}\n        count += 1\n\n`;
+  });
+
+  // moduleNames(for:)
+  result = insertBefore(result, /^ {8}return names\n/m, () => {
+    const append = `names.append(${structName}.moduleName)`;
+    return feature
+      ? `        ${comment}\n        if features.${feature} {\n            ${append}\n        }\n\n`
+      : `        ${comment}\n        ${append}\n\n`;
+  });
+
+  return result;
+}
+
+/**
+ * Add a Bool feature flag (default `true`) to FeaturesConfiguration.swift:
+ * the stored property, memberwise init, CodingKeys and decoder.
+ */
+export function addFeatureFlag(source: string, feature: string, description: string): string {
+  if (new RegExp(`public let ${feature}: Bool`).test(source)) {
+    throw new Error(`Feature flag "${feature}" already exists in FeaturesConfiguration.swift`);
+  }
+
+  let result = source;
+
+  // Stored property
+  const initDoc = result.indexOf('/// Creates a new features configuration');
+  let at = lastMatchEnd(result, /^ {4}public let \w+: Bool\n/, 0, initDoc);
+  result = insertAt(result, at, `\n    /// ${description}\n    public let ${feature}: Bool\n`);
+
+  // Memberwise init parameter docs
+  const initStart = result.indexOf('    public init(\n');
+  at = lastMatchEnd(result, /^ {4}\/\/\/ {3}- \w+: .*\n/, 0, initStart);
+  result = insertAt(result, at, `    ///   - ${feature}: ${description.replace(/\.$/, '')}. Defaults to \`true\`.\n`);
+
+  // Memberwise init parameter
+  const paramsStart = result.indexOf('    public init(\n');
+  const paramsEnd = result.indexOf('    ) {\n', paramsStart);
+  at = lastMatchEnd(result, /^ {8}\w+: Bool = \w+/, paramsStart, paramsEnd);
+  result = insertAt(result, at, `,\n        ${feature}: Bool = true`);
+
+  // Memberwise init assignment
+  const bodyStart = result.indexOf('    ) {\n', paramsStart);
+  const bodyEnd = result.indexOf('\n    }\n', bodyStart);
+  at = lastMatchEnd(result, /^ {8}self\.\w+ = \w+\n/, bodyStart, bodyEnd + 1);
+  result = insertAt(result, at, `        self.${feature} = ${feature}\n`);
+
+  // CodingKeys
+  const keysStart = result.indexOf('private enum CodingKeys');
+  const keysEnd = result.indexOf('    }\n', keysStart);
+  at = lastMatchEnd(result, /^ {8}case \w+\n/, keysStart, keysEnd);
+  result = insertAt(result, at, `        case ${feature}\n`);
+
+  // Decoder
+  const decoderStart = result.indexOf('public init(from decoder: Decoder)');
+  at = lastMatchEnd(result, /^ {8}self\.\w+ = try container\.decodeIfPresent\(.*\n/, decoderStart);
+  result = insertAt(
+    result,
+    at,
+    `        self.${feature} = try container.decodeIfPresent(Bool.self, forKey: .${feature}) ?? true\n`,
+  );
+
+  return result;
+}
+
+/**
+ * Enable a feature flag in a pwa-config.json document.
+ */
+export function enableFeature(configJson: string, feature: string): string {
+  const config = JSON.parse(configJson) as { features?: Record<string, boolean> };
+  config.features = { ...config.features, [feature]: true };
+  return JSON.stringify(config, null, 2) + '\n';
+}
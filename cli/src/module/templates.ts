@@ -0,0 +1,162 @@
+import { capitalize, type ModuleNames } from './names.js';
+
+export interface SwiftTemplateOptions {
+  /** Feature flag that registers the module, or null when always registered */
+  feature: string | null;
+}
+
+/**
+ * Render a PWAModule implementation with one stub handler per action.
+ */
+export function renderSwiftModule(names: ModuleNames, actions: string[], opts: SwiftTemplateOptions): string {
+  const { moduleName, structName } = names;
+  const actionList = actions.map((a) => `"${a}"`).join(', ');
+  const registration = opts.feature
+    ? `/// Registered by \`ModuleRegistration\` when \`features.${opts.feature}\` is enabled.`
+    : '/// Always registered by `ModuleRegistration`.';
+
+  const docs = actions.map((a) => `/// - \`${a}\`: TODO: Describe the \`${a}\` action.`).join('\n');
+
+  const cases = actions
+    .map((a) => `        case "${a}":\n            return try await handle${capitalize(a)}(payload: payload, context: context)\n`)
+    .join('\n');
+
+  const handlers = actions
+    .map(
+      (a) => `    // MARK: - ${capitalize(a)} Action
+
+    /// Handles the \`${a}\` action.
+    ///
+    /// - Parameters:
+    ///   - payload: The action payload from JavaScript.
+    ///   - context: The module context.
+    /// - Returns: The response data for JavaScript.
+    private func handle${capitalize(a)}(
+        payload _: AnyCodable?,
+        context _: ModuleContext
+    ) async throws -> AnyCodable {
+        // TODO: Implement the \`${a}\` action.
+        AnyCodable([
+            "success": AnyCodable(true),
+        ])
+    }`,
+    )
+    .join('\n\n');
+
+  return `import Foundation
+
+// MARK: - ${structName}
+
+/// A custom module exposed to JavaScript as \`${moduleName}\`.
+///
+${registration}
+///
+/// ## Supported Actions
+///
+${docs}
+public struct ${structName}: PWAModule {
+    public static let moduleName = "${moduleName}"
+    public static let supportedActions = [${actionList}]
+
+    /// Creates a new ${moduleName} module instance.
+    public init() {}
+
+    public func handle(
+        action: String,
+        payload: AnyCodable?,
+        context: ModuleContext
+    ) async throws -> AnyCodable? {
+        try validateAction(action)
+
+        switch action {
+${cases}
+        default:
+            throw BridgeError.unknownAction(action)
+        }
+    }
+
+${handlers}
+}
+`;
+}
+
+export interface TypeScriptTemplateOptions {
+  /** Module specifier the wrapper imports `bridge` from */
+  bridgeImport: string;
+}
+
+/**
+ * Render a typed SDK wrapper in the style of the built-in SDK modules.
+ */
+export function renderTypeScriptModule(
+  names: ModuleNames,
+  actions: string[],
+  opts: TypeScriptTemplateOptions,
+): string {
+  const { moduleName, typeName } = names;
+
+  const types = actions
+    .map((a) => {
+      const prefix = `${typeName}${capitalize(a)}`;
+      return `/**
+ * Payload for the \`${a}\` action.
+ */
+export type ${prefix}Payload = Record<string, unknown>;
+
+/**
+ * Result from the \`${a}\` action.
+ */
+export interface ${prefix}Result {
+  /** Whether the action succeeded */
+  success: boolean;
+}`;
+    })
+    .join('\n\n');
+
+  const methods = actions
+    .map((a) => {
+      const prefix = `${typeName}${capitalize(a)}`;
+      return `  /**
+   * Calls the native \`${a}\` action.
+   *
+   * @param payload - Action payload
+   * @param callOptions - Optional call options (timeout, abort signal)
+   * @returns The action result
+   */
+  async ${a}(
+    payload: ${prefix}Payload = {},
+    callOptions?: BridgeCallOptions
+  ): Promise<${prefix}Result> {
+    return bridge.call<${prefix}Result>('${moduleName}', '${a}', payload, callOptions);
+  },`;
+    })
+    .join('\n\n');
+
+  return `/**
+ * ${typeName} Module API
+ *
+ * Typed wrapper for the custom \`${moduleName}\` native module.
+ *
+ * @module ${moduleName}
+ */
+
+import { bridge } from '${opts.bridgeImport}';
+import type { BridgeCallOptions } from '${opts.bridgeImport}';
+
+${types}
+
+/**
+ * ${typeName} module.
+ *
+ * @example
+ * \`\`\`typescript
+ * import { ${moduleName} } from './${moduleName}';
+ *
+ * const result = await ${moduleName}.${actions[0]}();
+ * \`\`\`
+ */
+export const ${moduleName} = {
+${methods}
+};
+`;
+}
@@ -0,0 +1,145 @@
+/**
+ * An action button of a Web Push notification.
+ */
+export interface WebPushAction {
+  action: string;
+  title: string;
+  icon?: string;
+}
+
+/**
+ * A Web Push notification: the title and `showNotification()` options a
+ * service worker displays.
+ */
+export interface WebPushNotification {
+  title: string;
+  body?: string;
+  icon?: string;
+  image?: string;
+  /** Monochrome image URL (not a count) */
+  badge?: string;
+  tag?: string;
+  data?: unknown;
+  actions?: WebPushAction[];
+  silent?: boolean;
+  requireInteraction?: boolean;
+  renotify?: boolean;
+  timestamp?: number;
+  lang?: string;
+  dir?: 'auto' | 'ltr' | 'rtl';
+  /** Declarative Web Push: the URL to open on click */
+  navigate?: string;
+}
+
+/**
+ * A Web Push message body: a notification, or a declarative Web Push
+ * message wrapping one.
+ */
+export type WebPushMessage =
+  | WebPushNotification
+  | { web_push?: number; notification: WebPushNotification; app_badge?: number };
+
+/**
+ * An APNs payload that carries the original Web Push message under
+ * `webpush`, where the SDK's `push.toMessage()` finds it.
+ */
+export interface ApnsPayload {
+  aps: {
+    alert: { title: string; body?: string };
+    sound?: string;
+    badge?: number;
+    'thread-id'?: string;
+    category?: string;
+  };
+  webpush: WebPushMessage;
+}
+
+export interface ApnsConversionOptions {
+  /** Notification category registered with `ios.notifications.setCategories()` */
+  category?: string;
+  /** Sound to play, unless the notification is silent (default: "default") */
+  sound?: string;
+}
+
+export interface ApnsConversion {
+  payload: ApnsPayload;
+  /** Parts of the message APNs can't express */
+  warnings: string[];
+}
+
+/** APNs rejects alert payloads larger than this many bytes */
+export const APNS_MAX_PAYLOAD_BYTES = 4096;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert a Web Push message into an APNs payload, keeping the message so
+ * the app receives the same data on both platforms.
+ *
+ * Throws for messages without a title and for payloads over the APNs size
+ * limit.
+ */
+export function webPushToApns(
+  message: unknown,
+  options: ApnsConversionOptions = {},
+): ApnsConversion {
+  if (!isObject(message)) {
+    throw new Error('Web Push message must be a JSON object');
+  }
+
+  const notification = isObject(message.notification) ? message.notification : message;
+  if (typeof notification.title !== 'string' || notification.title === '') {
+    throw new Error('Web Push notification is missing "title"');
+  }
+  if (notification.body !== undefined && typeof notification.body !== 'string') {
+    throw new Error('Web Push notification "body" must be a string');
+  }
+  if (
+    notification.actions !== undefined &&
+    (!Array.isArray(notification.actions) ||
+      !notification.actions.every(
+        (action) => isObject(action) && typeof action.action === 'string' && typeof action.title === 'string',
+      ))
+  ) {
+    throw new Error('Web Push notification "actions" must be a list of { action, title }');
+  }
+
+  const aps: ApnsPayload['aps'] = {
+    alert: { title: notification.title },
+  };
+  if (notification.body !== undefined) {
+    aps.alert.body = notification.body;
+  }
+  if (notification.silent !== true) {
+    aps.sound = options.sound ?? 'default';
+  }
+  if (typeof message.app_badge === 'number') {
+    aps.badge = message.app_badge;
+  }
+  if (typeof notification.tag === 'string') {
+    aps['thread-id'] = notification.tag;
+  }
+  if (options.category) {
+    aps.category = options.category;
+  }
+
+  const warnings: string[] = [];
+  if (Array.isArray(notification.actions) && notification.actions.length > 0 && !options.category) {
+    warnings.push(
+      'Actions are only shown on iOS for a category registered with setCategories(); pass --category',
+    );
+  }
+  if (typeof notification.image === 'string') {
+    warnings.push('"image" is not shown on iOS; it is kept in the message for the app');
+  }
+
+  const payload: ApnsPayload = { aps, webpush: message as WebPushMessage };
+  const size = Buffer.byteLength(JSON.stringify(payload));
+  if (size > APNS_MAX_PAYLOAD_BYTES) {
+    throw new Error(`APNs payload is ${size} bytes, over the ${APNS_MAX_PAYLOAD_BYTES}-byte limit`);
+  }
+
+  return { payload, warnings };
+}
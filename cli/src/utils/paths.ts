@@ -4,12 +4,17 @@ export function projectPaths(projectRoot: string) {
   const src = path.join(projectRoot, 'src', 'PWAKit');
   const resources = path.join(src, 'Resources');
   const assets = path.join(resources, 'Assets.xcassets');
+  const core = path.join(projectRoot, 'src', 'PWAKitCore');
+  const modules = path.join(core, 'Modules');
 
   return {
     projectRoot,
     configFile: path.join(resources, 'pwa-config.json'),
     configExample: path.join(resources, 'pwa-config.example.json'),
     infoPlist: path.join(src, 'Info.plist'),
+    modules,
+    moduleRegistration: path.join(modules, 'ModuleRegistration.swift'),
+    featuresConfiguration: path.join(core, 'Configuration', 'FeaturesConfiguration.swift'),
     pbxproj: path.join(projectRoot, 'PWAKitApp.xcodeproj', 'project.pbxproj'),
     iconSource: path.join(resources, 'AppIcon-source.png'),
     assets,
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import { checkContract } from '../../src/contract/check.js';
+import { loadContract } from '../../src/contract/schema.js';
+import { parseSwiftModules, scanSwiftModules } from '../../src/contract/swift.js';
+import type { BridgeContract } from '../../src/contract/schema.js';
+
+const ROOT = path.join(__dirname, '..', '..', '..');
+
+const HELLO_SWIFT = `
+/// Example:
+/// static let moduleName = "commented"
+public struct HelloWorldModule: PWAModule {
+    public static let moduleName = "helloWorld"
+    public static let supportedActions = [
+        "greet",
+        "echo",
+    ]
+}
+`;
+
+describe('parseSwiftModules', () => {
+  it('extracts moduleName and multi-line supportedActions', () => {
+    expect(parseSwiftModules(HELLO_SWIFT, 'HelloWorldModule.swift')).toEqual([
+      { moduleName: 'helloWorld', supportedActions: ['greet', 'echo'], file: 'HelloWorldModule.swift' },
+    ]);
+  });
+
+  it('ignores files without modules', () => {
+    expect(parseSwiftModules('struct Helper {}')).toEqual([]);
+  });
+});
+
+describe('checkContract', () => {
+  const contract: BridgeContract = {
+    version: 1,
+    modules: {
+      helloWorld: { actions: { greet: {}, add: {} } },
+      widgets: { actions: { list: {} } },
+    },
+  };
+
+  it('passes when the contract matches', () => {
+    const declarations = [{ moduleName: 'helloWorld', supportedActions: ['greet', 'add'], file: 'Hello.swift' }];
+    expect(checkContract({ version: 1, modules: { helloWorld: contract.modules.helloWorld } }, declarations)).toEqual([]);
+  });
+
+  it('reports missing and extra modules and actions', () => {
+    const declarations = [
+      ...parseSwiftModules(HELLO_SWIFT, '/src/HelloWorldModule.swift'),
+      { moduleName: 'gadgets', supportedActions: ['spin'], file: '/src/GadgetsModule.swift' },
+    ];
+
+    expect(checkContract(contract, declarations).map((issue) => issue.message)).toEqual([
+      "Action 'helloWorld.echo' is supported in HelloWorldModule.swift but missing from the contract",
+      "Action 'helloWorld.add' is in the contract but not in HelloWorldModule.swift supportedActions",
+      "Module 'gadgets' is declared in GadgetsModule.swift but missing from the contract",
+      "Module 'widgets' is in the contract but no PWAModule declares it",
+    ]);
+  });
+
+  it('reports duplicate module names', () => {
+    const declarations = [
+      { moduleName: 'widgets', supportedActions: ['list'], file: '/a/One.swift' },
+      { moduleName: 'widgets', supportedActions: ['list'], file: '/b/Two.swift' },
+    ];
+
+    const issues = checkContract({ version: 1, modules: { widgets: contract.modules.widgets } }, declarations);
+    expect(issues).toEqual([
+      { module: 'widgets', message: "Module 'widgets' is declared twice (One.swift, Two.swift)" },
+    ]);
+  });
+
+  it('matches the SDK contract against the kit modules', () => {
+    const sdkContract = loadContract(path.join(ROOT, 'sdk', 'contract.json'));
+    const declarations = scanSwiftModules(path.join(ROOT, 'kit', 'src', 'PWAKitCore', 'Modules'));
+
+    expect(declarations.length).toBeGreaterThan(0);
+    expect(checkContract(sdkContract, declarations)).toEqual([]);
+  });
+});
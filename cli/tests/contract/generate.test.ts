@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import { generateContractTypes, renderType } from '../../src/contract/generate.js';
+import { loadContract } from '../../src/contract/schema.js';
+import type { BridgeContract } from '../../src/contract/schema.js';
+
+const SDK = path.join(__dirname, '..', '..', '..', 'sdk');
+
+describe('renderType', () => {
+  it('renders primitives and nullable types', () => {
+    expect(renderType({ type: 'string' })).toBe('string');
+    expect(renderType({ type: 'integer' })).toBe('number');
+    expect(renderType({ type: ['string', 'null'] })).toBe('string | null');
+    expect(renderType({})).toBe('unknown');
+  });
+
+  it('renders enums and consts as literals', () => {
+    expect(renderType({ enum: ['light', 'heavy'] })).toBe("'light' | 'heavy'");
+    expect(renderType({ const: 'date' })).toBe("'date'");
+  });
+
+  it('renders arrays, refs and unions', () => {
+    expect(renderType({ type: 'array', items: { $ref: '#/definitions/Product' } })).toBe('Product[]');
+    expect(renderType({ type: 'array', items: { enum: ['a', 'b'] } })).toBe("('a' | 'b')[]");
+    expect(renderType({ oneOf: [{ type: 'string' }, { type: 'number' }] })).toBe('string | number');
+  });
+
+  it('renders objects with optional properties', () => {
+    const type = renderType({
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Who to greet' },
+        'x-count': { type: 'number' },
+      },
+      required: ['name'],
+    });
+
+    expect(type).toBe(
+      ['{', '  /** Who to greet */', '  name: string;', "  'x-count'?: number;", '}'].join('\n'),
+    );
+  });
+
+  it('renders free-form objects as records', () => {
+    expect(renderType({ type: 'object' })).toBe('Record<string, unknown>');
+    expect(renderType({ type: 'object', additionalProperties: { type: 'string' } })).toBe(
+      'Record<string, string>',
+    );
+  });
+
+  it('rejects external refs', () => {
+    expect(() => renderType({ $ref: 'other.json#/Foo' })).toThrow('Unsupported $ref');
+  });
+});
+
+describe('generateContractTypes', () => {
+  const contract: BridgeContract = {
+    version: 1,
+    modules: {
+      helloWorld: {
+        description: 'Hello world example',
+        actions: {
+          greet: {
+            payload: { type: 'object', properties: { name: { type: 'string' } } },
+            result: { $ref: '#/definitions/Greeting' },
+          },
+          ping: {},
+        },
+      },
+    },
+    definitions: {
+      Greeting: {
+        type: 'object',
+        properties: { message: { type: 'string' } },
+        required: ['message'],
+      },
+    },
+  };
+
+  it('augments @pwa-kit/sdk by default from the CLI', () => {
+    const output = generateContractTypes(contract, { augment: '@pwa-kit/sdk' });
+
+    expect(output).toContain('interface Greeting {');
+    expect(output).toContain("declare module '@pwa-kit/sdk' {");
+    expect(output).toContain('  interface ModuleContract {');
+    expect(output).toContain('    /** Hello world example */');
+    expect(output).toContain('        result: Greeting;');
+    expect(output).toContain('export {};');
+  });
+
+  it('emits undefined payloads and void results for bare actions', () => {
+    const output = generateContractTypes(contract);
+
+    expect(output).toContain('export interface ModuleContract {');
+    expect(output).toMatch(/ping: \{\n\s+payload: undefined;\n\s+result: void;/);
+  });
+
+  it('keeps the SDK generated contract in sync with contract.json', () => {
+    const sdkContract = loadContract(path.join(SDK, 'contract.json'));
+    const generated = fs.readFileSync(path.join(SDK, 'src', 'contract.generated.ts'), 'utf-8');
+
+    expect(generateContractTypes(sdkContract, { source: 'contract.json' })).toBe(generated);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import { moduleNames } from '../../src/module/names.js';
+import { addFeatureFlag, enableFeature, registerModule } from '../../src/module/register.js';
+import { addModuleToProject } from '../../src/module/pbxproj.js';
+
+const KIT = path.join(__dirname, '..', '..', '..', 'kit');
+const read = (...segments: string[]) => fs.readFileSync(path.join(KIT, ...segments), 'utf-8');
+
+const names = moduleNames('helloWorld');
+
+describe('registerModule', () => {
+  const source = read('src', 'PWAKitCore', 'Modules', 'ModuleRegistration.swift');
+
+  it('registers behind a feature flag in every feature-aware function', () => {
+    const result = registerModule(source, names, 'helloWorld');
+
+    expect(result).toContain('/// - `HelloWorldModule`: Registered when `features.helloWorld` is enabled\n');
+    expect(result).toContain(
+      '        if features.helloWorld {\n            await dispatcher.register(HelloWorldModule())\n            count += 1\n        }\n\n        return count\n',
+    );
+    expect(result).toContain('            await registry.register(HelloWorldModule())\n');
+    expect(result).toContain(
+      '        if features.helloWorld {\n            names.append(HelloWorldModule.moduleName)\n        }\n\n        return names\n',
+    );
+  });
+
+  it('registers unconditionally without a feature', () => {
+    const result = registerModule(source, names, null);
+
+    expect(result).toContain('/// - `HelloWorldModule`: Always registered (no feature flag)');
+    expect(result).toContain('        await dispatcher.register(HelloWorldModule())\n        count += 1\n\n        return count\n');
+    expect(result).not.toContain('features.helloWorld');
+  });
+
+  it('refuses to register a module twice', () => {
+    const once = registerModule(source, names, 'helloWorld');
+    expect(() => registerModule(once, names, 'helloWorld')).toThrow('already registered');
+  });
+});
+
+describe('addFeatureFlag', () => {
+  const source = read('src', 'PWAKitCore', 'Configuration', 'FeaturesConfiguration.swift');
+
+  it('adds the property, init parameter, coding key and decoder', () => {
+    const result = addFeatureFlag(source, 'helloWorld', 'Enable the custom helloWorld module.');
+
+    expect(result).toContain('    /// Enable the custom helloWorld module.\n    public let helloWorld: Bool\n');
+    expect(result).toContain('    ///   - helloWorld: Enable the custom helloWorld module. Defaults to `true`.\n');
+    expect(result).toContain('        locationPermission: Bool = true,\n        helloWorld: Bool = true\n    ) {');
+    expect(result).toContain('        self.helloWorld = helloWorld\n    }');
+    expect(result).toContain('        case helloWorld\n    }');
+    expect(result).toContain(
+      'self.helloWorld = try container.decodeIfPresent(Bool.self, forKey: .helloWorld) ?? true\n    }',
+    );
+  });
+
+  it('refuses duplicate flags', () => {
+    expect(() => addFeatureFlag(source, 'haptics', 'Haptics.')).toThrow('already exists');
+  });
+});
+
+describe('enableFeature', () => {
+  it('adds the flag to pwa-config.json features', () => {
+    const config = JSON.stringify({ version: 1, features: { haptics: true } });
+    expect(JSON.parse(enableFeature(config, 'helloWorld')).features).toEqual({
+      haptics: true,
+      helloWorld: true,
+    });
+  });
+});
+
+describe('addModuleToProject', () => {
+  const source = read('PWAKitApp.xcodeproj', 'project.pbxproj');
+  const ids = ['AAAA00000000000000000001', 'AAAA00000000000000000002', 'AAAA00000000000000000003'];
+
+  it('adds the file reference, build file, group and source phase entry', () => {
+    let next = 0;
+    const result = addModuleToProject(source, names, () => ids[next++]);
+
+    expect(result).toContain(
+      'AAAA00000000000000000002 /* HelloWorldModule.swift in Sources */ = {isa = PBXBuildFile; fileRef = AAAA00000000000000000001 /* HelloWorldModule.swift */; };',
+    );
+    expect(result).toContain('AAAA00000000000000000001 /* HelloWorldModule.swift */ = {isa = PBXFileReference;');
+    expect(result).toMatch(/AAAA00000000000000000003 \/\* HelloWorld \*\/ = \{\n\t\t\tisa = PBXGroup;/);
+    expect(result).toMatch(/E100001B \/\* Permissions \*\/,\n\t\t\t\tAAAA00000000000000000003 \/\* HelloWorld \*\/,\n\t\t\t\);\n\t\t\tpath = Modules;/);
+    expect(result).toMatch(/\t\t\t\tAAAA00000000000000000002 \/\* HelloWorldModule\.swift in Sources \*\/,\n\t\t\t\);/);
+  });
+
+  it('is a no-op when the file is already in the project', () => {
+    let next = 0;
+    const once = addModuleToProject(source, names, () => ids[next++]);
+    expect(addModuleToProject(once, names)).toBe(once);
+  });
+});
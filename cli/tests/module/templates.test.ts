@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { moduleNames, parseActions } from '../../src/module/names.js';
+import { renderSwiftModule, renderTypeScriptModule } from '../../src/module/templates.js';
+import { parseSwiftModules } from '../../src/contract/swift.js';
+
+describe('moduleNames', () => {
+  it('normalizes camel, kebab, snake and Pascal case', () => {
+    for (const input of ['helloWorld', 'hello-world', 'hello_world', 'HelloWorld', 'HelloWorldModule']) {
+      expect(moduleNames(input)).toEqual({
+        moduleName: 'helloWorld',
+        typeName: 'HelloWorld',
+        structName: 'HelloWorldModule',
+      });
+    }
+  });
+
+  it('rejects invalid names', () => {
+    expect(() => moduleNames('1up')).toThrow('Invalid module name');
+    expect(() => moduleNames('hello.world')).toThrow('Invalid module name');
+  });
+});
+
+describe('parseActions', () => {
+  it('splits, trims and de-duplicates', () => {
+    expect(parseActions('greet, echo,greet')).toEqual(['greet', 'echo']);
+  });
+
+  it('rejects empty and invalid lists', () => {
+    expect(() => parseActions(' , ')).toThrow('At least one action');
+    expect(() => parseActions('greet,Echo')).toThrow('Invalid action name: "Echo"');
+  });
+});
+
+describe('renderSwiftModule', () => {
+  const names = moduleNames('helloWorld');
+
+  it('declares the module name and supported actions', () => {
+    const swift = renderSwiftModule(names, ['greet', 'echo'], { feature: 'helloWorld' });
+
+    expect(parseSwiftModules(swift)).toEqual([
+      { moduleName: 'helloWorld', supportedActions: ['greet', 'echo'], file: '<source>' },
+    ]);
+    expect(swift).toContain('public struct HelloWorldModule: PWAModule {');
+    expect(swift).toContain('return try await handleEcho(payload: payload, context: context)');
+    expect(swift).toContain('private func handleGreet(');
+    expect(swift).toContain('when `features.helloWorld` is enabled');
+  });
+
+  it('documents unconditional registration', () => {
+    const swift = renderSwiftModule(names, ['greet'], { feature: null });
+    expect(swift).toContain('/// Always registered by `ModuleRegistration`.');
+  });
+});
+
+describe('renderTypeScriptModule', () => {
+  it('emits a typed wrapper method per action', () => {
+    const ts = renderTypeScriptModule(moduleNames('helloWorld'), ['greet', 'echo'], {
+      bridgeImport: '@pwa-kit/sdk',
+    });
+
+    expect(ts).toContain("import { bridge } from '@pwa-kit/sdk';");
+    expect(ts).toContain("import type { BridgeCallOptions } from '@pwa-kit/sdk';");
+    expect(ts).toContain('export interface HelloWorldGreetResult {');
+    expect(ts).toContain('export const helloWorld = {');
+    expect(ts).toContain('    callOptions?: BridgeCallOptions\n  ): Promise<HelloWorldEchoResult> {');
+    expect(ts).toContain(
+      "return bridge.call<HelloWorldEchoResult>('helloWorld', 'echo', payload, callOptions);",
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { APNS_MAX_PAYLOAD_BYTES, webPushToApns } from '../../src/push/apns.js';
+
+describe('webPushToApns', () => {
+  it('maps a notification to an APNs alert and keeps the message', () => {
+    const message = {
+      title: 'New message',
+      body: 'Hi there',
+      tag: 'conversation-42',
+      icon: '/icon.png',
+      data: { url: '/messages/42' },
+    };
+
+    expect(webPushToApns(message)).toEqual({
+      payload: {
+        aps: {
+          alert: { title: 'New message', body: 'Hi there' },
+          sound: 'default',
+          'thread-id': 'conversation-42',
+        },
+        webpush: message,
+      },
+      warnings: [],
+    });
+  });
+
+  it('reads declarative Web Push messages', () => {
+    const message = {
+      web_push: 8030,
+      notification: { title: 'Sale', navigate: 'https://shop.example.com/sale', silent: true },
+      app_badge: 3,
+    };
+
+    const { payload } = webPushToApns(message);
+
+    expect(payload.aps).toEqual({ alert: { title: 'Sale' }, badge: 3 });
+    expect(payload.webpush).toEqual(message);
+  });
+
+  it('sets the category and sound, and warns about actions without a category', () => {
+    const message = {
+      title: 'Reminder',
+      actions: [{ action: 'snooze', title: 'Snooze' }],
+    };
+
+    expect(webPushToApns(message).warnings).toEqual([
+      expect.stringContaining('setCategories()'),
+    ]);
+
+    const { payload, warnings } = webPushToApns(message, { category: 'reminder', sound: 'chime.caf' });
+    expect(payload.aps).toMatchObject({ category: 'reminder', sound: 'chime.caf' });
+    expect(warnings).toEqual([]);
+  });
+
+  it('rejects messages APNs cannot deliver', () => {
+    expect(() => webPushToApns([])).toThrow('must be a JSON object');
+    expect(() => webPushToApns({ body: 'No title' })).toThrow('missing "title"');
+    expect(() => webPushToApns({ title: 'x', actions: [{ title: 'No action' }] })).toThrow('"actions"');
+    expect(() =>
+      webPushToApns({ title: 'Large', data: 'x'.repeat(APNS_MAX_PAYLOAD_BYTES) }),
+    ).toThrow(/over the 4096-byte limit/);
+  });
+});
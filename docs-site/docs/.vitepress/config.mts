@@ -61,6 +61,8 @@ export default defineConfig({
             { text: 'iOS Modules', link: '/sdk/ios-modules' },
             { text: 'Custom Module Integration', link: '/sdk/custom-modules' },
             { text: 'Bridge API', link: '/sdk/bridge-api' },
+            { text: 'React Hooks', link: '/sdk/react' },
+            { text: 'Stores, Vue and Svelte', link: '/sdk/stores' },
             { text: 'Error Handling', link: '/sdk/errors' }
           ]
         }
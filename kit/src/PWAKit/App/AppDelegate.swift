@@ -1,3 +1,4 @@
+import StoreKit
 import UIKit
 import UserNotifications
 import WebKit
@@ -21,6 +22,7 @@ extension Notification.Name {
 /// - Handle foreground notification presentation
 /// - Handle user taps on notifications
 /// - Dispatch notification events to JavaScript
+/// - Dispatch lifecycle, network and StoreKit transaction events to JavaScript
 ///
 /// ## Configuration
 ///
@@ -80,6 +82,12 @@ final class AppDelegate: NSObject, UIApplicationDelegate, WebViewProvider {
     /// Event dispatcher for sending notification events to JavaScript.
     private lazy var eventDispatcher = NotificationEventDispatcher(webViewProvider: self)
 
+    /// Monitor that reports network changes to JavaScript.
+    private lazy var networkMonitor = NetworkEventMonitor()
+
+    /// StoreKit manager listening for transactions that happen outside the purchase flow.
+    private let transactionObserver = StoreKitManager()
+
     /// Cached orientation mask from pwa-config.json to avoid re-reading on every call.
     private var cachedOrientationMask: UIInterfaceOrientationMask?
 
@@ -104,7 +112,10 @@ final class AppDelegate: NSObject, UIApplicationDelegate, WebViewProvider {
         // Set ourselves as the notification center delegate
         UNUserNotificationCenter.current().delegate = self
 
-        // Flush queued notification events when the page finishes loading
+        // Deliver app-level bridge events through this delegate's WebView
+        BridgeEventDispatcher.shared.webViewProvider = self
+
+        // Flush queued notification and bridge events when the page finishes loading
         NotificationCenter.default.addObserver(
             forName: .webViewPageLoaded,
             object: nil,
@@ -112,9 +123,15 @@ final class AppDelegate: NSObject, UIApplicationDelegate, WebViewProvider {
         ) { [weak self] _ in
             Task { @MainActor in
                 await self?.eventDispatcher.handlePageLoaded()
+                await BridgeEventDispatcher.shared.handlePageLoaded()
             }
         }
 
+        networkMonitor.start()
+        Task {
+            await startTransactionObserverIfEnabled()
+        }
+
         #if DEBUG
             print("[AppDelegate] Application did finish launching")
             print("[AppDelegate] Set up notification center delegate")
@@ -149,6 +166,10 @@ final class AppDelegate: NSObject, UIApplicationDelegate, WebViewProvider {
         #if DEBUG
             print("[AppDelegate] Application did enter background")
         #endif
+
+        Task {
+            await BridgeEventDispatcher.shared.dispatch(.lifecycle(.background))
+        }
     }
 
     /// Called when the app is about to enter the foreground.
@@ -156,6 +177,24 @@ final class AppDelegate: NSObject, UIApplicationDelegate, WebViewProvider {
         #if DEBUG
             print("[AppDelegate] Application will enter foreground")
         #endif
+
+        Task {
+            await BridgeEventDispatcher.shared.dispatch(.lifecycle(.foreground))
+        }
+    }
+
+    // MARK: - Transaction Updates
+
+    /// Starts listening for StoreKit transaction updates when in-app purchases are enabled.
+    ///
+    /// Updates are reported to JavaScript as `transaction` events.
+    private func startTransactionObserverIfEnabled() async {
+        guard let config = try? await ConfigurationStore.shared.configuration, config.features.iap else {
+            return
+        }
+
+        await transactionObserver.setDelegate(self)
+        await transactionObserver.startTransactionListener()
     }
 
     // MARK: - Orientation
@@ -193,12 +232,13 @@ final class AppDelegate: NSObject, UIApplicationDelegate, WebViewProvider {
 
     // MARK: - Notification Event Flushing
 
-    /// Flushes any queued notification events to JavaScript.
+    /// Flushes any queued notification and bridge events to JavaScript.
     ///
     /// Call this when the WebView and page are ready to receive events,
     /// such as after the page finishes loading or the app returns to the foreground.
     func flushPendingNotificationEvents() async {
         await eventDispatcher.flushPendingEvents()
+        await BridgeEventDispatcher.shared.flushPendingEvents()
     }
 
     // MARK: - Remote Notifications
@@ -208,7 +248,8 @@ final class AppDelegate: NSObject, UIApplicationDelegate, WebViewProvider {
     /// The device token is:
     /// 1. Converted to a hex string format
     /// 2. Stored in UserDefaults for retrieval by `NotificationsModule`
-    /// 3. Logged for debugging purposes
+    /// 3. Sent to JavaScript as a `pushsubscriptionchange` event if it is new
+    /// 4. Logged for debugging purposes
     ///
     /// - Parameters:
     ///   - application: The singleton app object.
@@ -218,8 +259,20 @@ final class AppDelegate: NSObject, UIApplicationDelegate, WebViewProvider {
         didRegisterForRemoteNotificationsWithDeviceToken deviceToken: Data
     ) {
         let tokenString = deviceToken.hexEncodedString()
+        let oldToken = tokenStorage.getToken()
         tokenStorage.setToken(tokenString)
 
+        if tokenString != oldToken {
+            let event = BridgeEvent.pushSubscriptionChange(
+                token: tokenString,
+                oldToken: oldToken,
+                registration: .current(storage: tokenStorage)
+            )
+            Task {
+                await BridgeEventDispatcher.shared.dispatch(event)
+            }
+        }
+
         #if DEBUG
             print("[AppDelegate] Successfully registered for remote notifications")
             print("[AppDelegate] Device token: \(tokenString)")
@@ -340,6 +393,8 @@ extension AppDelegate: UNUserNotificationCenterDelegate {
         let badge = content.badge
         let identifier = response.notification.request.identifier
         let actionIdentifier = response.actionIdentifier
+        let categoryIdentifier = content.categoryIdentifier
+        let userText = (response as? UNTextInputNotificationResponse)?.userText
 
         let userInfoData: Data?
         do {
@@ -373,8 +428,33 @@ extension AppDelegate: UNUserNotificationCenterDelegate {
                 userInfo: userInfo,
                 badge: badge,
                 identifier: identifier,
-                actionIdentifier: actionIdentifier
+                actionIdentifier: actionIdentifier,
+                categoryIdentifier: categoryIdentifier,
+                userText: userText
             )
         }
     }
 }
+
+// MARK: StoreKitManagerDelegate
+
+extension AppDelegate: StoreKitManagerDelegate {
+    /// Called when a transaction is updated outside the purchase flow.
+    ///
+    /// Dispatches a `transaction` event to JavaScript.
+    ///
+    /// - Parameters:
+    ///   - manager: The StoreKit manager.
+    ///   - transaction: The updated transaction.
+    ///   - jwsRepresentation: The signed transaction.
+    nonisolated func storeKitManager(
+        _: StoreKitManager,
+        didUpdateTransaction transaction: Transaction,
+        jwsRepresentation: String
+    ) {
+        let update = TransactionUpdate(transaction, jwsRepresentation: jwsRepresentation)
+        Task { @MainActor in
+            await BridgeEventDispatcher.shared.dispatch(.transaction(update))
+        }
+    }
+}
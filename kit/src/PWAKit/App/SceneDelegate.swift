@@ -46,7 +46,8 @@ import UIKit
 ///    3D Touch / long press shortcuts.
 ///
 /// The pending URLs are stored in the respective handlers until the WebView is ready
-/// to navigate to them.
+/// to navigate to them. Each link and shortcut is also reported to JavaScript as a
+/// `deeplink` or `shortcut` event through `BridgeEventDispatcher`.
 @MainActor
 final class SceneDelegate: UIResponder, UIWindowSceneDelegate {
     // MARK: - Properties
@@ -197,10 +198,18 @@ final class SceneDelegate: UIResponder, UIWindowSceneDelegate {
             let config = try await ConfigurationStore.shared.configuration
 
             // Initialize universal link handler
-            universalLinkHandler = UniversalLinkHandler(origins: config.origins)
+            let universalLinkHandler = UniversalLinkHandler(origins: config.origins)
+            universalLinkHandler.onPendingLinkSet = { url in
+                Self.dispatch(.deepLink(url: url, source: .universalLink))
+            }
+            self.universalLinkHandler = universalLinkHandler
 
             // Initialize custom scheme handler
-            customSchemeHandler = CustomSchemeHandler(appConfig: config.app)
+            let customSchemeHandler = CustomSchemeHandler(appConfig: config.app)
+            customSchemeHandler.onPendingURLSet = { url in
+                Self.dispatch(.deepLink(url: url, source: .customScheme))
+            }
+            self.customSchemeHandler = customSchemeHandler
 
             // Initialize app shortcut handler
             // Note: Shortcut mappings can be configured here or via a separate config
@@ -268,6 +277,24 @@ final class SceneDelegate: UIResponder, UIWindowSceneDelegate {
     @discardableResult
     private func handleShortcut(_ shortcutItem: UIApplicationShortcutItem) -> Bool {
         guard let handler = appShortcutHandler else { return false }
-        return handler.handleShortcut(shortcutItem)
+
+        let handled = handler.handleShortcut(shortcutItem)
+        Self.dispatch(.shortcut(
+            type: shortcutItem.type,
+            title: shortcutItem.localizedTitle,
+            url: handled ? handler.peekPendingURL() : nil
+        ))
+        return handled
+    }
+
+    // MARK: - Bridge Events
+
+    /// Reports an event to JavaScript, queued until the page has loaded.
+    ///
+    /// - Parameter event: The event to dispatch.
+    private static func dispatch(_ event: BridgeEvent) {
+        Task {
+            await BridgeEventDispatcher.shared.dispatch(event)
+        }
     }
 }
@@ -0,0 +1,146 @@
+import Foundation
+import WebKit
+
+// MARK: - BinaryTransferSchemeHandler
+
+/// Receives binary uploads from JavaScript through a custom URL scheme.
+///
+/// Posting a file to `pwakit-binary://upload/<id>` hands its bytes to native
+/// in one request, without base64 encoding or passing through the script
+/// message handler. The SDK's `bridge.upload()` prefers this path when the
+/// handshake reports the scheme, and falls back to `BinaryChunkMessage`s if
+/// the fetch fails.
+///
+/// Uploaded bytes are kept in a `BinaryTransferStore` until the request
+/// referencing them claims them.
+///
+/// ## JavaScript Usage
+///
+/// ```javascript
+/// await fetch("pwakit-binary://upload/u1", { method: "POST", body: await file.arrayBuffer() });
+/// ```
+///
+/// ## Setup
+///
+/// `WebViewConfigurationFactory` registers the handler for `scheme` on
+/// configurations created with a message handler.
+@MainActor
+public final class BinaryTransferSchemeHandler: NSObject, WKURLSchemeHandler {
+    /// The URL scheme uploads are posted to.
+    public nonisolated static let scheme = "pwakit-binary"
+
+    /// The store receiving uploads.
+    private let store: BinaryTransferStore
+
+    /// Creates a new binary transfer scheme handler.
+    ///
+    /// - Parameter store: The store receiving uploads. Defaults to `.shared`.
+    public init(store: BinaryTransferStore = .shared) {
+        self.store = store
+        super.init()
+    }
+
+    // MARK: - WKURLSchemeHandler
+
+    public func webView(_: WKWebView, start urlSchemeTask: WKURLSchemeTask) {
+        let request = urlSchemeTask.request
+
+        // Answer CORS preflights for uploads from the page's origin
+        if request.httpMethod == "OPTIONS" {
+            respond(to: urlSchemeTask, statusCode: 204)
+            return
+        }
+
+        guard request.httpMethod == "POST",
+              let id = Self.uploadID(from: request.url),
+              let body = Self.body(of: request) else
+        {
+            respond(to: urlSchemeTask, statusCode: 400)
+            return
+        }
+
+        store.store(body, id: id)
+        respond(to: urlSchemeTask, statusCode: 204)
+    }
+
+    public func webView(_: WKWebView, stop _: WKURLSchemeTask) {
+        // Uploads complete synchronously in start, so there is nothing to stop
+    }
+
+    // MARK: - Request Parsing
+
+    /// Extracts the upload ID from an upload URL.
+    ///
+    /// - Parameter url: A URL of the form `pwakit-binary://upload/<id>`.
+    /// - Returns: The upload ID, or `nil` if the URL is not an upload URL.
+    static func uploadID(from url: URL?) -> String? {
+        guard let url,
+              url.scheme == scheme,
+              url.host == "upload" else
+        {
+            return nil
+        }
+
+        let id = url.lastPathComponent
+        return id.isEmpty || id == "/" ? nil : id
+    }
+
+    /// Reads the body of an upload request.
+    ///
+    /// WebKit delivers small bodies as `httpBody` and larger ones as a stream.
+    ///
+    /// - Parameter request: The upload request.
+    /// - Returns: The body, or `nil` if the request has none.
+    private static func body(of request: URLRequest) -> Data? {
+        if let body = request.httpBody {
+            return body
+        }
+
+        guard let stream = request.httpBodyStream else {
+            return nil
+        }
+
+        var data = Data()
+        let bufferSize = 64 * 1024
+        var buffer = [UInt8](repeating: 0, count: bufferSize)
+        stream.open()
+        defer { stream.close() }
+        while stream.hasBytesAvailable {
+            let count = stream.read(&buffer, maxLength: bufferSize)
+            guard count >= 0 else { return nil }
+            if count == 0 { break }
+            data.append(buffer, count: count)
+        }
+        return data
+    }
+
+    // MARK: - Responses
+
+    /// Completes a scheme task with an empty response.
+    ///
+    /// - Parameters:
+    ///   - urlSchemeTask: The task to complete.
+    ///   - statusCode: The HTTP status code.
+    private func respond(to urlSchemeTask: WKURLSchemeTask, statusCode: Int) {
+        let headers = [
+            "Access-Control-Allow-Origin": "*",
+            "Access-Control-Allow-Methods": "POST, OPTIONS",
+            "Access-Control-Allow-Headers": "Content-Type",
+        ]
+
+        guard let url = urlSchemeTask.request.url,
+              let response = HTTPURLResponse(
+                  url: url,
+                  statusCode: statusCode,
+                  httpVersion: "HTTP/1.1",
+                  headerFields: headers
+              ) else
+        {
+            urlSchemeTask.didFailWithError(URLError(.badURL))
+            return
+        }
+
+        urlSchemeTask.didReceive(response)
+        urlSchemeTask.didFinish()
+    }
+}
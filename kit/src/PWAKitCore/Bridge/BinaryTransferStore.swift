@@ -0,0 +1,158 @@
+import Foundation
+
+// MARK: - BinaryTransferStore
+
+/// Holds binary data uploaded by JavaScript until a module claims it.
+///
+/// `bridge.upload()` in the SDK sends files (photos, PDFs, exports) ahead
+/// of the request that uses them, either as `BinaryChunkMessage`s or in a
+/// single fetch handled by `BinaryTransferSchemeHandler`. The request then
+/// references the upload instead of embedding base64 data:
+///
+/// ```json
+/// { "name": "report.pdf", "type": "application/pdf", "data": { "$binary": "u1", "size": 48213 } }
+/// ```
+///
+/// Modules resolve file data with `data(from:)`, which also accepts plain
+/// base64 strings from older SDKs. An upload is removed once claimed, when
+/// its request is cancelled, or when it is left unclaimed for longer than
+/// `transferLifetime`.
+///
+/// ## Usage
+///
+/// ```swift
+/// let data = await BinaryTransferStore.shared.data(from: payload?["data"])
+/// ```
+@MainActor
+public final class BinaryTransferStore {
+    // MARK: - Shared Instance
+
+    /// The store used by the bridge message handler, scheme handler and modules.
+    public static let shared = BinaryTransferStore()
+
+    // MARK: - Properties
+
+    /// How long an unclaimed upload is kept, in seconds.
+    public static let transferLifetime: TimeInterval = 300
+
+    /// An upload, complete or still receiving chunks.
+    private struct Transfer {
+        /// The bytes received so far.
+        var data = Data()
+        /// The index of the next expected chunk.
+        var nextIndex = 0
+        /// Whether the final chunk has been received.
+        var isComplete = false
+        /// When the upload started.
+        let startedAt: Date
+    }
+
+    /// Uploads indexed by ID.
+    private var transfers: [String: Transfer] = [:]
+
+    /// Provides the current date (injectable for tests).
+    private let now: () -> Date
+
+    // MARK: - Initialization
+
+    /// Creates a new binary transfer store.
+    ///
+    /// - Parameter now: Provides the current date. Defaults to `Date.init`.
+    public init(now: @escaping () -> Date = Date.init) {
+        self.now = now
+    }
+
+    // MARK: - Receiving
+
+    /// Appends a chunk to its upload.
+    ///
+    /// Chunks must arrive in order. An out-of-order or malformed chunk
+    /// discards the upload, so the request referencing it fails instead of
+    /// receiving corrupt data.
+    ///
+    /// - Parameter chunk: The chunk to append.
+    /// - Returns: `true` if the chunk was appended.
+    @discardableResult
+    public func append(_ chunk: BinaryChunkMessage) -> Bool {
+        if chunk.index == 0 {
+            pruneExpired()
+            transfers[chunk.id] = Transfer(startedAt: now())
+        }
+
+        guard var transfer = transfers[chunk.id],
+              !transfer.isComplete,
+              transfer.nextIndex == chunk.index,
+              let bytes = Data(base64Encoded: chunk.data) else
+        {
+            transfers[chunk.id] = nil
+            return false
+        }
+
+        transfer.data.append(bytes)
+        transfer.nextIndex += 1
+        transfer.isComplete = chunk.final
+        transfers[chunk.id] = transfer
+        return true
+    }
+
+    /// Stores a complete upload received in one piece.
+    ///
+    /// - Parameters:
+    ///   - data: The uploaded bytes.
+    ///   - id: The ID of the upload.
+    public func store(_ data: Data, id: String) {
+        pruneExpired()
+        transfers[id] = Transfer(data: data, nextIndex: 1, isComplete: true, startedAt: now())
+    }
+
+    // MARK: - Claiming
+
+    /// Removes and returns a complete upload.
+    ///
+    /// - Parameter id: The ID of the upload.
+    /// - Returns: The uploaded bytes, or `nil` if the upload is unknown or incomplete.
+    public func take(_ id: String) -> Data? {
+        guard let transfer = transfers[id], transfer.isComplete else {
+            return nil
+        }
+        transfers[id] = nil
+        return transfer.data
+    }
+
+    /// Resolves file data in a request payload.
+    ///
+    /// - Parameter value: A base64 string, or an upload reference (`{ "$binary": "<id>" }`).
+    /// - Returns: The bytes, or `nil` if the value is neither or the upload is unknown.
+    public func data(from value: AnyCodable?) -> Data? {
+        if let base64 = value?.stringValue {
+            return Data(base64Encoded: base64)
+        }
+        if let id = value?["$binary"]?.stringValue {
+            return take(id)
+        }
+        return nil
+    }
+
+    /// Discards an upload, complete or not.
+    ///
+    /// - Parameter id: The ID of the upload.
+    public func discard(_ id: String) {
+        transfers[id] = nil
+    }
+
+    /// Whether an upload is held, complete or not.
+    ///
+    /// - Parameter id: The ID of the upload.
+    /// - Returns: `true` if the upload is held.
+    public func contains(_ id: String) -> Bool {
+        transfers[id] != nil
+    }
+
+    // MARK: - Private Methods
+
+    /// Drops uploads left unclaimed for longer than `transferLifetime`.
+    private func pruneExpired() {
+        let cutoff = now().addingTimeInterval(-Self.transferLifetime)
+        transfers = transfers.filter { $0.value.startedAt >= cutoff }
+    }
+}
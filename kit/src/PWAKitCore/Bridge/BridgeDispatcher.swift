@@ -32,9 +32,12 @@ import Foundation
 ///
 /// The dispatcher handles errors gracefully and always returns a valid JSON response:
 /// - Unknown modules return an error response with `unknownModule` message
+/// - Modules disabled by a feature flag return a `featureDisabled` error
 /// - Unknown actions return an error response with `unknownAction` message
 /// - Invalid JSON returns an error response with parsing details
 /// - Module errors are wrapped and returned as error responses
+///
+/// Every error response carries a stable `code` (see `BridgeErrorCode`).
 public actor BridgeDispatcher {
     /// The registry containing all registered modules.
     private let registry: ModuleRegistry
@@ -93,6 +96,16 @@ public actor BridgeDispatcher {
         await registry.register(module, if: condition, allowOverwrite: allowOverwrite)
     }
 
+    /// Records modules that are disabled by a feature flag.
+    ///
+    /// Calls to these modules fail with `featureDisabled` instead of
+    /// `unknownModule`.
+    ///
+    /// - Parameter names: The names of the disabled modules.
+    public func markDisabled(_ names: Set<String>) async {
+        await registry.markDisabled(names)
+    }
+
     /// Returns the names of all registered modules.
     public var registeredModuleNames: [String] {
         get async {
@@ -107,6 +120,13 @@ public actor BridgeDispatcher {
         }
     }
 
+    /// Returns the supported actions of every registered module, keyed by module name.
+    public var supportedActions: [String: [String]] {
+        get async {
+            await registry.supportedActions
+        }
+    }
+
     // MARK: - Message Dispatching
 
     /// Dispatches a JSON message string and returns a JSON response string.
@@ -142,7 +162,8 @@ public actor BridgeDispatcher {
             // Return an error response with a generated ID for parse failures
             return BridgeResponse.failure(
                 id: "parse-error",
-                error: "Invalid message format: \(error.localizedDescription)"
+                error: "Invalid message format: \(error.localizedDescription)",
+                code: .invalidPayload
             )
         }
 
@@ -161,18 +182,16 @@ public actor BridgeDispatcher {
     public func dispatch(message: BridgeMessage, context: ModuleContext) async -> BridgeResponse {
         // Look up the module
         guard let module = await registry.module(named: message.module) else {
+            let isDisabled = await registry.isDisabled(moduleNamed: message.module)
             return BridgeResponse.failure(
                 id: message.id,
-                error: BridgeError.unknownModule(message.module).localizedDescription
+                error: isDisabled ? .featureDisabled(message.module) : .unknownModule(message.module)
             )
         }
 
         // Validate the action is supported
         guard type(of: module).supports(action: message.action) else {
-            return BridgeResponse.failure(
-                id: message.id,
-                error: BridgeError.unknownAction(message.action).localizedDescription
-            )
+            return BridgeResponse.failure(id: message.id, error: .unknownAction(message.action))
         }
 
         // Invoke the module handler
@@ -184,10 +203,9 @@ public actor BridgeDispatcher {
             )
             return BridgeResponse.success(id: message.id, data: result)
         } catch let error as BridgeError {
-            return BridgeResponse.failure(id: message.id, error: error.localizedDescription)
+            return BridgeResponse.failure(id: message.id, error: error)
         } catch {
-            let bridgeError = BridgeError.moduleError(underlying: error)
-            return BridgeResponse.failure(id: message.id, error: bridgeError.localizedDescription)
+            return BridgeResponse.failure(id: message.id, error: .moduleError(underlying: error))
         }
     }
 
@@ -1,5 +1,53 @@
 import Foundation
 
+// MARK: - BridgeErrorCode
+
+/// Stable error codes sent to JavaScript with failed responses.
+///
+/// Unlike error messages, codes never change between releases, so the SDK
+/// maps them to typed errors (`CancelledError`, `PermissionDeniedError`, ...).
+public enum BridgeErrorCode: String, Codable, Sendable {
+    /// The user or the system cancelled the operation.
+    case cancelled = "E_CANCELLED"
+
+    /// The user denied (or has not granted) a required permission.
+    case permissionDenied = "E_PERMISSION_DENIED"
+
+    /// The feature is disabled in the app's configuration.
+    case featureDisabled = "E_FEATURE_DISABLED"
+
+    /// No module is registered with the requested name.
+    case unknownModule = "E_UNKNOWN_MODULE"
+
+    /// The module does not support the requested action.
+    case unknownAction = "E_UNKNOWN_ACTION"
+
+    /// The payload is missing fields or has the wrong shape.
+    case invalidPayload = "E_INVALID_PAYLOAD"
+
+    /// Any other failure.
+    case unknown = "E_UNKNOWN"
+}
+
+// MARK: - BridgeErrorCodeProviding
+
+/// An error that reports a stable bridge error code.
+///
+/// Module errors conforming to this protocol keep their code when wrapped
+/// in `BridgeError.moduleError(underlying:)`.
+///
+/// ```swift
+/// extension IAPError: BridgeErrorCodeProviding {
+///     public var bridgeErrorCode: BridgeErrorCode {
+///         self == .purchaseCancelled ? .cancelled : .unknown
+///     }
+/// }
+/// ```
+public protocol BridgeErrorCodeProviding: Error {
+    /// The code sent to JavaScript for this error.
+    var bridgeErrorCode: BridgeErrorCode { get }
+}
+
 // MARK: - BridgeError
 
 /// Errors that can occur during bridge message handling.
@@ -13,6 +61,8 @@ import Foundation
 /// - `unknownModule`: The requested module is not registered.
 /// - `unknownAction`: The action is not supported by the module.
 /// - `invalidPayload`: The payload could not be decoded.
+/// - `featureDisabled`: The module is disabled by a feature flag.
+/// - `permissionDenied`: A permission the action needs was denied.
 /// - `moduleError`: An error occurred within the module implementation.
 ///
 /// ## Example
@@ -20,10 +70,8 @@ import Foundation
 /// ```swift
 /// // Return an error response for an unknown module
 /// let error = BridgeError.unknownModule("widgets")
-/// let response = BridgeResponse.failure(
-///     id: message.id,
-///     error: error.localizedDescription
-/// )
+/// let response = BridgeResponse.failure(id: message.id, error: error)
+/// // {"id":"...","success":false,"error":"Unknown module: widgets","code":"E_UNKNOWN_MODULE"}
 /// ```
 public enum BridgeError: Error, Sendable, Equatable {
     /// The requested module is not registered.
@@ -41,6 +89,16 @@ public enum BridgeError: Error, Sendable, Equatable {
     /// - Parameter reason: A description of why decoding failed.
     case invalidPayload(String)
 
+    /// The module is disabled by a feature flag in the app's configuration.
+    ///
+    /// - Parameter name: The name of the disabled module.
+    case featureDisabled(String)
+
+    /// A permission the action needs was denied.
+    ///
+    /// - Parameter reason: A description of the missing permission.
+    case permissionDenied(String)
+
     /// An error occurred within the module implementation.
     ///
     /// - Parameter underlying: The underlying error from the module.
@@ -56,6 +114,10 @@ public enum BridgeError: Error, Sendable, Equatable {
             lhsName == rhsName
         case let (.invalidPayload(lhsReason), .invalidPayload(rhsReason)):
             lhsReason == rhsReason
+        case let (.featureDisabled(lhsName), .featureDisabled(rhsName)):
+            lhsName == rhsName
+        case let (.permissionDenied(lhsReason), .permissionDenied(rhsReason)):
+            lhsReason == rhsReason
         case let (.moduleError(lhsError), .moduleError(rhsError)):
             lhsError.localizedDescription == rhsError.localizedDescription
         default:
@@ -75,6 +137,10 @@ extension BridgeError: LocalizedError {
             "Unknown action: \(name)"
         case let .invalidPayload(reason):
             "Invalid payload: \(reason)"
+        case let .featureDisabled(name):
+            "Feature disabled: \(name)"
+        case let .permissionDenied(reason):
+            "Permission denied: \(reason)"
         case let .moduleError(underlying):
             "Module error: \(underlying.localizedDescription)"
         }
@@ -92,8 +158,43 @@ extension BridgeError: CustomStringConvertible {
             "BridgeError.unknownAction(\"\(name)\")"
         case let .invalidPayload(reason):
             "BridgeError.invalidPayload(\"\(reason)\")"
+        case let .featureDisabled(name):
+            "BridgeError.featureDisabled(\"\(name)\")"
+        case let .permissionDenied(reason):
+            "BridgeError.permissionDenied(\"\(reason)\")"
         case let .moduleError(underlying):
             "BridgeError.moduleError(\(underlying))"
         }
     }
 }
+
+// MARK: BridgeErrorCodeProviding
+
+extension BridgeError: BridgeErrorCodeProviding {
+    /// The stable code sent to JavaScript with this error.
+    ///
+    /// Module errors report their own code when they conform to
+    /// `BridgeErrorCodeProviding`; task cancellation maps to `.cancelled`.
+    public var bridgeErrorCode: BridgeErrorCode {
+        switch self {
+        case .unknownModule:
+            .unknownModule
+        case .unknownAction:
+            .unknownAction
+        case .invalidPayload:
+            .invalidPayload
+        case .featureDisabled:
+            .featureDisabled
+        case .permissionDenied:
+            .permissionDenied
+        case let .moduleError(underlying):
+            if let coded = underlying as? BridgeErrorCodeProviding {
+                coded.bridgeErrorCode
+            } else if underlying is CancellationError {
+                .cancelled
+            } else {
+                .unknown
+            }
+        }
+    }
+}
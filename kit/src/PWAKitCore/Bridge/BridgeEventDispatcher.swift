@@ -0,0 +1,292 @@
+import Foundation
+import WebKit
+
+// MARK: - BridgeEventDispatcher
+
+/// Dispatches app-level events to the JavaScript layer.
+///
+/// `BridgeEventDispatcher` delivers the events that are not tied to a single
+/// module: app lifecycle changes, deep links, app shortcuts, network changes
+/// and StoreKit transaction updates. Push notification events continue to be
+/// delivered by `NotificationEventDispatcher`.
+///
+/// ## Event Format
+///
+/// Events are dispatched using `window.pwakit._handleEvent()` and surface in
+/// the SDK through `bridge.on()`:
+///
+/// ```javascript
+/// bridge.on('lifecycle', ({ state }) => {
+///     console.log(state); // "foreground" or "background"
+/// });
+/// ```
+///
+/// ## Queueing
+///
+/// Events are queued until the page has loaded, because `evaluateJavaScript`
+/// silently fails on a page that hasn't finished loading. A deep link that
+/// launched the app is therefore delivered once the bridge is ready. The SDK
+/// then buffers events that arrive before any listener is attached.
+///
+/// ## Usage
+///
+/// ```swift
+/// BridgeEventDispatcher.shared.webViewProvider = self
+/// await BridgeEventDispatcher.shared.dispatch(.lifecycle(.foreground))
+/// ```
+@MainActor
+public final class BridgeEventDispatcher {
+    // MARK: - Shared Instance
+
+    /// The dispatcher used by the app delegate and scene delegate.
+    public static let shared = BridgeEventDispatcher()
+
+    // MARK: - Properties
+
+    /// Maximum number of events held while the page is loading.
+    ///
+    /// The oldest events are dropped once the limit is reached.
+    public static let maxPendingEvents = 50
+
+    /// Provider for the WKWebView instance.
+    public weak var webViewProvider: WebViewProvider?
+
+    /// Whether the page has loaded and the JS bridge is ready to receive events.
+    private var isReady = false
+
+    /// Queue of events that arrived before the page was ready.
+    private(set) var pendingEvents: [BridgeEvent] = []
+
+    // MARK: - Initialization
+
+    /// Creates a new bridge event dispatcher.
+    ///
+    /// - Parameter webViewProvider: Provider for the WKWebView instance.
+    ///   The provider is held weakly to prevent retain cycles.
+    public init(webViewProvider: WebViewProvider? = nil) {
+        self.webViewProvider = webViewProvider
+    }
+
+    // MARK: - Public Methods
+
+    /// Marks the JS bridge as ready and flushes any queued events.
+    ///
+    /// Call this when the page finishes loading (`.webViewPageLoaded`).
+    public func handlePageLoaded() async {
+        isReady = true
+        await flushPendingEvents()
+    }
+
+    /// Flushes any queued events.
+    ///
+    /// Only dispatches if the page has already loaded.
+    public func flushPendingEvents() async {
+        guard isReady, webViewProvider?.webView != nil, !pendingEvents.isEmpty else { return }
+
+        let events = pendingEvents
+        pendingEvents.removeAll()
+
+        #if DEBUG
+            print("[BridgeEventDispatcher] Flushing \(events.count) pending event(s)")
+        #endif
+
+        for event in events {
+            await dispatch(event)
+        }
+    }
+
+    /// Dispatches an event to JavaScript, queueing it if the page is not ready.
+    ///
+    /// - Parameter event: The event to dispatch.
+    public func dispatch(_ event: BridgeEvent) async {
+        guard isReady, let webView = webViewProvider?.webView else {
+            enqueue(event)
+            return
+        }
+
+        do {
+            try await webView.evaluateJavaScript(JavaScriptBridge.formatEvent(event))
+            #if DEBUG
+                print("[BridgeEventDispatcher] Dispatched \(event.type) event")
+            #endif
+        } catch {
+            #if DEBUG
+                print("[BridgeEventDispatcher] Failed to dispatch \(event.type) event: \(error.localizedDescription)")
+            #endif
+        }
+    }
+
+    // MARK: - Private Methods
+
+    /// Adds an event to the pending queue, dropping the oldest when full.
+    ///
+    /// - Parameter event: The event to queue.
+    private func enqueue(_ event: BridgeEvent) {
+        pendingEvents.append(event)
+        if pendingEvents.count > Self.maxPendingEvents {
+            pendingEvents.removeFirst(pendingEvents.count - Self.maxPendingEvents)
+        }
+    }
+}
+
+// MARK: - App Events
+
+extension BridgeEvent {
+    /// The app's lifecycle state.
+    public enum LifecycleState: String, Sendable {
+        /// The app entered the foreground.
+        case foreground
+        /// The app entered the background.
+        case background
+    }
+
+    /// How a deep link reached the app.
+    public enum DeepLinkSource: String, Sendable {
+        /// A universal link (`https` URL for an allowed origin).
+        case universalLink
+        /// A custom URL scheme, converted to an `https` URL.
+        case customScheme
+    }
+
+    /// Creates a `lifecycle` event.
+    ///
+    /// ```json
+    /// { "state": "foreground" }
+    /// ```
+    ///
+    /// - Parameter state: The new lifecycle state.
+    /// - Returns: The event.
+    public static func lifecycle(_ state: LifecycleState) -> BridgeEvent {
+        BridgeEvent(type: "lifecycle", data: AnyCodable(["state": AnyCodable(state.rawValue)]))
+    }
+
+    /// Creates a `deeplink` event.
+    ///
+    /// ```json
+    /// { "url": "https://app.example.com/orders/42", "source": "universalLink" }
+    /// ```
+    ///
+    /// - Parameters:
+    ///   - url: The URL the app should navigate to.
+    ///   - source: How the link reached the app.
+    /// - Returns: The event.
+    public static func deepLink(url: URL, source: DeepLinkSource) -> BridgeEvent {
+        BridgeEvent(type: "deeplink", data: AnyCodable([
+            "url": AnyCodable(url.absoluteString),
+            "source": AnyCodable(source.rawValue),
+        ]))
+    }
+
+    /// Creates a `shortcut` event.
+    ///
+    /// ```json
+    /// { "type": "com.example.compose", "title": "New Message", "url": "https://app.example.com/compose" }
+    /// ```
+    ///
+    /// - Parameters:
+    ///   - type: The shortcut type identifier.
+    ///   - title: The shortcut's localized title.
+    ///   - url: The URL the shortcut maps to, if any.
+    /// - Returns: The event.
+    public static func shortcut(type: String, title: String, url: URL?) -> BridgeEvent {
+        var data: [String: AnyCodable] = [
+            "type": AnyCodable(type),
+            "title": AnyCodable(title),
+        ]
+        if let url {
+            data["url"] = AnyCodable(url.absoluteString)
+        }
+        return BridgeEvent(type: "shortcut", data: AnyCodable(data))
+    }
+
+    /// Creates a `network` event.
+    ///
+    /// ```json
+    /// { "online": true, "connectionType": "wifi", "expensive": false, "constrained": false }
+    /// ```
+    ///
+    /// - Parameters:
+    ///   - online: Whether a network path is available.
+    ///   - connectionType: The connection type (`wifi`, `cellular`, `wired`, `other` or `none`).
+    ///   - expensive: Whether the path is considered expensive (e.g., cellular or hotspot).
+    ///   - constrained: Whether Low Data Mode is enabled for the path.
+    /// - Returns: The event.
+    public static func network(
+        online: Bool,
+        connectionType: String,
+        expensive: Bool,
+        constrained: Bool
+    ) -> BridgeEvent {
+        BridgeEvent(type: "network", data: AnyCodable([
+            "online": AnyCodable(online),
+            "connectionType": AnyCodable(connectionType),
+            "expensive": AnyCodable(expensive),
+            "constrained": AnyCodable(constrained),
+        ]))
+    }
+
+    /// Creates a `transaction` event for a StoreKit transaction update.
+    ///
+    /// ```json
+    /// { "transactionId": "1000000123456789", "productId": "com.example.monthly", "purchaseDate": 1704067200.0 }
+    /// ```
+    ///
+    /// Consumable transactions arrive with `finished: false` and must be
+    /// finished from JavaScript once the content is delivered.
+    ///
+    /// - Parameter update: The transaction update.
+    /// - Returns: The event.
+    public static func transaction(_ update: TransactionUpdate) -> BridgeEvent {
+        var data: [String: AnyCodable] = [
+            "transactionId": AnyCodable(update.transactionId),
+            "originalTransactionId": AnyCodable(update.originalTransactionId),
+            "productId": AnyCodable(update.productId),
+            "purchaseDate": AnyCodable(update.purchaseDate),
+            "isUpgraded": AnyCodable(update.isUpgraded),
+            "finished": AnyCodable(update.finished),
+        ]
+        if let expirationDate = update.expirationDate {
+            data["expirationDate"] = AnyCodable(expirationDate)
+        }
+        if let revocationDate = update.revocationDate {
+            data["revocationDate"] = AnyCodable(revocationDate)
+        }
+        if let appAccountToken = update.appAccountToken {
+            data["appAccountToken"] = AnyCodable(appAccountToken)
+        }
+        if let offerType = update.offerType {
+            data["offerType"] = AnyCodable(offerType)
+        }
+        if let offerId = update.offerId {
+            data["offerId"] = AnyCodable(offerId)
+        }
+        if let jwsRepresentation = update.jwsRepresentation {
+            data["jwsRepresentation"] = AnyCodable(jwsRepresentation)
+        }
+        return BridgeEvent(type: "transaction", data: AnyCodable(data))
+    }
+
+    /// Creates a `pushsubscriptionchange` event for a new or rotated device token.
+    ///
+    /// ```json
+    /// { "token": "a1b2...", "oldToken": "c3d4...", "environment": "production", "installationId": "6F1C..." }
+    /// ```
+    ///
+    /// - Parameters:
+    ///   - token: The new APNs device token.
+    ///   - oldToken: The token it replaces, if the device had one.
+    ///   - registration: The details a server needs alongside the token.
+    /// - Returns: The event.
+    public static func pushSubscriptionChange(
+        token: String,
+        oldToken: String?,
+        registration: PushRegistrationInfo
+    ) -> BridgeEvent {
+        var data = registration.fields
+        data["token"] = AnyCodable(token)
+        if let oldToken {
+            data["oldToken"] = AnyCodable(oldToken)
+        }
+        return BridgeEvent(type: "pushsubscriptionchange", data: AnyCodable(data))
+    }
+}
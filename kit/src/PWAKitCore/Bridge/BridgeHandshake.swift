@@ -0,0 +1,115 @@
+import Foundation
+
+// MARK: - BridgeHandshake
+
+/// The data native returns for the JavaScript SDK's handshake.
+///
+/// The SDK sends a `handshake` control message, carrying its own version
+/// and bridge protocol version, when the bridge initializes. Native answers
+/// with a success response carrying the control message's ID and this
+/// handshake as its data. The SDK uses it to:
+/// - Reject calls to modules disabled by a feature flag without a round trip
+/// - Warn about (or reject) calls to actions the installed shell does not support
+/// - Warn when the shell speaks a different bridge protocol version
+/// - Upload binary data with `BinaryChunkMessage`s or the custom scheme
+///
+/// ## JSON Format
+///
+/// ```json
+/// {
+///   "protocolVersion": 1,
+///   "shellVersion": "0.1.0",
+///   "appVersion": "1.2.0",
+///   "features": {
+///     "notifications": true,
+///     "haptics": true,
+///     "healthkit": false,
+///     "iap": false
+///   },
+///   "modules": {
+///     "platform": ["getInfo"],
+///     "haptics": ["impact", "notification", "selection"]
+///   },
+///   "binaryTransfer": { "scheme": "pwakit-binary" }
+/// }
+/// ```
+public struct BridgeHandshake: Codable, Sendable, Equatable {
+    /// The bridge protocol version spoken by this shell.
+    ///
+    /// Incremented when the message, response or event formats change in
+    /// a way older SDKs cannot handle.
+    public static let currentProtocolVersion = 1
+
+    /// How the shell accepts binary uploads.
+    public struct BinaryTransfer: Codable, Sendable, Equatable {
+        /// The custom URL scheme uploads can be posted to, if registered.
+        ///
+        /// Without a scheme, uploads are sent as `BinaryChunkMessage`s.
+        public let scheme: String?
+
+        /// Creates a new binary transfer description.
+        ///
+        /// - Parameter scheme: The custom URL scheme uploads can be posted to.
+        public init(scheme: String?) {
+            self.scheme = scheme
+        }
+    }
+
+    /// The bridge protocol version spoken by the shell.
+    public let protocolVersion: Int
+
+    /// The PWAKit version the shell was built with.
+    public let shellVersion: String
+
+    /// The app's version (`CFBundleShortVersionString`).
+    public let appVersion: String
+
+    /// The app's feature flags.
+    public let features: FeaturesConfiguration
+
+    /// The supported actions of every registered module, keyed by module name.
+    public let modules: [String: [String]]
+
+    /// How the shell accepts binary uploads.
+    public let binaryTransfer: BinaryTransfer
+
+    /// Creates a new handshake.
+    ///
+    /// - Parameters:
+    ///   - features: The app's feature flags.
+    ///   - modules: The supported actions of every registered module.
+    ///   - binaryTransfer: How the shell accepts binary uploads. Defaults to
+    ///     the `BinaryTransferSchemeHandler` scheme.
+    ///   - appVersion: The app's version. Defaults to the main bundle's version.
+    ///   - shellVersion: The PWAKit version. Defaults to `PWAKitCore.version`.
+    ///   - protocolVersion: The bridge protocol version. Defaults to `currentProtocolVersion`.
+    public init(
+        features: FeaturesConfiguration,
+        modules: [String: [String]] = [:],
+        binaryTransfer: BinaryTransfer = BinaryTransfer(scheme: BinaryTransferSchemeHandler.scheme),
+        appVersion: String = Bundle.main.object(forInfoDictionaryKey: "CFBundleShortVersionString") as? String
+            ?? "1.0.0",
+        shellVersion: String = PWAKitCore.version,
+        protocolVersion: Int = BridgeHandshake.currentProtocolVersion
+    ) {
+        self.protocolVersion = protocolVersion
+        self.shellVersion = shellVersion
+        self.appVersion = appVersion
+        self.features = features
+        self.modules = modules
+        self.binaryTransfer = binaryTransfer
+    }
+
+    /// Creates the response answering a handshake control message.
+    ///
+    /// - Parameter id: The ID of the handshake control message.
+    /// - Returns: A success response carrying the handshake.
+    public func response(id: String) -> BridgeResponse {
+        do {
+            let data = try JSONEncoder().encode(self)
+            return BridgeResponse.success(id: id, data: try JSONDecoder().decode(AnyCodable.self, from: data))
+        } catch {
+            return BridgeResponse.failure(id: id, error: "Failed to encode handshake: \(error.localizedDescription)")
+        }
+    }
+}
@@ -64,6 +64,12 @@ public struct BridgeMessage: Codable, Sendable, Equatable {
     /// ```
     public let payload: AnyCodable?
 
+    /// Whether the caller accepts partial responses.
+    ///
+    /// When `true`, modules may send `progress` and `chunk` responses
+    /// through `ModuleContext.stream` before returning the final result.
+    public let stream: Bool
+
     /// Creates a new bridge message.
     ///
     /// - Parameters:
@@ -71,16 +77,19 @@ public struct BridgeMessage: Codable, Sendable, Equatable {
     ///   - module: Target module name.
     ///   - action: Action to perform.
     ///   - payload: Optional action-specific data.
+    ///   - stream: Whether the caller accepts partial responses.
     public init(
         id: String,
         module: String,
         action: String,
-        payload: AnyCodable? = nil
+        payload: AnyCodable? = nil,
+        stream: Bool = false
     ) {
         self.id = id
         self.module = module
         self.action = action
         self.payload = payload
+        self.stream = stream
     }
 
     /// Creates a new bridge message with an auto-generated UUID.
@@ -98,6 +107,7 @@ public struct BridgeMessage: Codable, Sendable, Equatable {
         self.module = module
         self.action = action
         self.payload = payload
+        self.stream = false
     }
 
     // MARK: - Codable
@@ -107,6 +117,7 @@ public struct BridgeMessage: Codable, Sendable, Equatable {
         case module
         case action
         case payload
+        case stream
     }
 
     public init(from decoder: Decoder) throws {
@@ -115,6 +126,7 @@ public struct BridgeMessage: Codable, Sendable, Equatable {
         self.module = try container.decode(String.self, forKey: .module)
         self.action = try container.decode(String.self, forKey: .action)
         self.payload = try container.decodeIfPresent(AnyCodable.self, forKey: .payload)
+        self.stream = try container.decodeIfPresent(Bool.self, forKey: .stream) ?? false
     }
 
     public func encode(to encoder: Encoder) throws {
@@ -123,6 +135,9 @@ public struct BridgeMessage: Codable, Sendable, Equatable {
         try container.encode(module, forKey: .module)
         try container.encode(action, forKey: .action)
         try container.encodeIfPresent(payload, forKey: .payload)
+        if stream {
+            try container.encode(stream, forKey: .stream)
+        }
     }
 }
 
@@ -134,7 +149,161 @@ extension BridgeMessage: CustomStringConvertible {
         if let payload {
             parts.append(", payload: \(payload)")
         }
+        if stream {
+            parts.append(", stream: true")
+        }
         parts.append(")")
         return parts.joined()
     }
 }
+
+// MARK: - BridgeControlMessage
+
+/// A control message from JavaScript about the bridge itself rather than
+/// a module action.
+///
+/// Control messages share the message handler with `BridgeMessage` but
+/// carry a `type` instead of a module and action.
+///
+/// ## JSON Format
+///
+/// ```json
+/// { "type": "cancel", "id": "550e8400-e29b-41d4-a716-446655440000" }
+/// ```
+///
+/// Handshakes also carry the SDK's version and bridge protocol version:
+///
+/// ```json
+/// { "type": "handshake", "id": "a1", "sdkVersion": "0.1.0", "protocolVersion": 1 }
+/// ```
+public struct BridgeControlMessage: Codable, Sendable, Equatable {
+    /// The kind of control message.
+    public enum ControlType: String, Codable, Sendable {
+        /// Stop work on the request; JavaScript no longer awaits a response.
+        case cancel
+
+        /// Answer with a `BridgeHandshake` in a response carrying the ID.
+        case handshake
+    }
+
+    /// The control message type.
+    public let type: ControlType
+
+    /// The ID of the request the control message refers to, or of the
+    /// response it asks for.
+    public let id: String
+
+    /// The JavaScript SDK's version (handshakes only).
+    public let sdkVersion: String?
+
+    /// The bridge protocol version spoken by the SDK (handshakes only).
+    public let protocolVersion: Int?
+
+    /// Creates a new control message.
+    ///
+    /// - Parameters:
+    ///   - type: The control message type.
+    ///   - id: The ID of the request it refers to.
+    ///   - sdkVersion: The JavaScript SDK's version (handshakes only).
+    ///   - protocolVersion: The SDK's bridge protocol version (handshakes only).
+    public init(type: ControlType, id: String, sdkVersion: String? = nil, protocolVersion: Int? = nil) {
+        self.type = type
+        self.id = id
+        self.sdkVersion = sdkVersion
+        self.protocolVersion = protocolVersion
+    }
+}
+
+// MARK: - BridgeBatchMessage
+
+/// Several bridge requests delivered in a single `postMessage`.
+///
+/// Sent by `bridge.batch()` and by the SDK's coalescing mode. Each
+/// sub-request is dispatched concurrently and keeps its own ID, so it can
+/// be cancelled individually. Their responses are returned together in a
+/// single `evaluateJavaScript` call once every sub-request has completed.
+///
+/// ## JSON Format
+///
+/// ```json
+/// {
+///   "type": "batch",
+///   "messages": [
+///     { "id": "a1", "module": "platform", "action": "getInfo" },
+///     { "id": "a2", "module": "iap", "action": "getEntitlements" }
+///   ]
+/// }
+/// ```
+public struct BridgeBatchMessage: Codable, Sendable, Equatable {
+    /// The batch message type marker.
+    public enum BatchType: String, Codable, Sendable {
+        /// A batch of requests.
+        case batch
+    }
+
+    /// The message type, always `batch`.
+    public let type: BatchType
+
+    /// The batched requests, in the order they were made.
+    public let messages: [BridgeMessage]
+
+    /// Creates a new batch message.
+    ///
+    /// - Parameter messages: The batched requests.
+    public init(messages: [BridgeMessage]) {
+        self.type = .batch
+        self.messages = messages
+    }
+}
+
+// MARK: - BinaryChunkMessage
+
+/// One chunk of binary data uploaded with `bridge.upload()`.
+///
+/// The SDK splits files into chunks, base64-encodes each one and posts
+/// them in order before the request that references the upload, so no
+/// single message has to carry the whole file. `BinaryTransferStore`
+/// reassembles the chunks.
+///
+/// ## JSON Format
+///
+/// ```json
+/// { "type": "binary", "id": "u1", "index": 0, "data": "JVBERi0xLjcK...", "final": true }
+/// ```
+public struct BinaryChunkMessage: Codable, Sendable, Equatable {
+    /// The binary chunk message type marker.
+    public enum ChunkType: String, Codable, Sendable {
+        /// A chunk of a binary upload.
+        case binary
+    }
+
+    /// The message type, always `binary`.
+    public let type: ChunkType
+
+    /// The ID of the upload the chunk belongs to.
+    public let id: String
+
+    /// The chunk's position in the upload, starting at zero.
+    public let index: Int
+
+    /// The chunk's bytes, base64 encoded.
+    public let data: String
+
+    /// Whether this is the upload's last chunk.
+    public let final: Bool
+
+    /// Creates a new binary chunk message.
+    ///
+    /// - Parameters:
+    ///   - id: The ID of the upload.
+    ///   - index: The chunk's position in the upload.
+    ///   - data: The chunk's bytes, base64 encoded.
+    ///   - final: Whether this is the upload's last chunk.
+    public init(id: String, index: Int, data: String, final: Bool) {
+        self.type = .binary
+        self.id = id
+        self.index = index
+        self.data = data
+        self.final = final
+    }
+}
@@ -1,5 +1,23 @@
 import Foundation
 
+// MARK: - BridgeResponseKind
+
+/// The kind of a bridge response.
+///
+/// Streaming requests (messages sent with `"stream": true`) may receive any
+/// number of `progress` and `chunk` responses before the `final` one.
+/// Responses without a kind are final.
+public enum BridgeResponseKind: String, Codable, Sendable {
+    /// A progress update; the request remains open.
+    case progress
+
+    /// A partial result; the request remains open.
+    case chunk
+
+    /// The final response; the request is complete.
+    case final
+}
+
 // MARK: - BridgeResponse
 
 /// A response from the native bridge to JavaScript.
@@ -9,7 +27,7 @@ import Foundation
 /// - The request ID matching the original `BridgeMessage`
 /// - A success flag indicating whether the action succeeded
 /// - Optional data on success
-/// - Optional error message on failure
+/// - Optional error message and stable error code on failure
 ///
 /// ## JSON Format
 ///
@@ -27,7 +45,18 @@ import Foundation
 /// {
 ///   "id": "550e8400-e29b-41d4-a716-446655440000",
 ///   "success": false,
-///   "error": "Unknown action: invalid"
+///   "error": "Unknown action: invalid",
+///   "code": "E_UNKNOWN_ACTION"
+/// }
+/// ```
+///
+/// **Progress response (streaming requests only):**
+/// ```json
+/// {
+///   "id": "550e8400-e29b-41d4-a716-446655440000",
+///   "success": true,
+///   "kind": "progress",
+///   "data": { "fraction": 0.5 }
 /// }
 /// ```
 ///
@@ -43,7 +72,7 @@ import Foundation
 /// // Create an error response
 /// let errorResponse = BridgeResponse.failure(
 ///     id: "abc-123",
-///     error: "Module not found"
+///     error: BridgeError.unknownModule("widgets")
 /// )
 ///
 /// // Encode to JSON
@@ -76,6 +105,22 @@ public struct BridgeResponse: Codable, Sendable, Equatable {
     /// Contains a human-readable error description when `success` is `false`.
     public let error: String?
 
+    /// Optional stable error code on failure.
+    ///
+    /// JavaScript maps the code to a typed error. `nil` is treated as
+    /// `.unknown`.
+    public let code: BridgeErrorCode?
+
+    /// Optional response kind for streaming requests.
+    ///
+    /// `nil` is equivalent to `.final`, so one-shot responses are unchanged.
+    public let kind: BridgeResponseKind?
+
+    /// Whether this response completes the request.
+    public var isFinal: Bool {
+        kind == nil || kind == .final
+    }
+
     /// Creates a new bridge response.
     ///
     /// - Parameters:
@@ -83,16 +128,22 @@ public struct BridgeResponse: Codable, Sendable, Equatable {
     ///   - success: Whether the action completed successfully.
     ///   - data: Optional result data on success.
     ///   - error: Optional error message on failure.
+    ///   - code: Optional stable error code on failure.
+    ///   - kind: Optional response kind for streaming requests.
     public init(
         id: String,
         success: Bool,
         data: AnyCodable? = nil,
-        error: String? = nil
+        error: String? = nil,
+        code: BridgeErrorCode? = nil,
+        kind: BridgeResponseKind? = nil
     ) {
         self.id = id
         self.success = success
         self.data = data
         self.error = error
+        self.code = code
+        self.kind = kind
     }
 
     // MARK: - Factory Methods
@@ -112,9 +163,40 @@ public struct BridgeResponse: Codable, Sendable, Equatable {
     /// - Parameters:
     ///   - id: Request ID matching the original `BridgeMessage`.
     ///   - error: Error message describing what went wrong.
+    ///   - code: Optional stable error code.
     /// - Returns: A failure response.
-    public static func failure(id: String, error: String) -> BridgeResponse {
-        BridgeResponse(id: id, success: false, data: nil, error: error)
+    public static func failure(id: String, error: String, code: BridgeErrorCode? = nil) -> BridgeResponse {
+        BridgeResponse(id: id, success: false, data: nil, error: error, code: code)
+    }
+
+    /// Creates a failure response for a bridge error, including its code.
+    ///
+    /// - Parameters:
+    ///   - id: Request ID matching the original `BridgeMessage`.
+    ///   - error: The error that caused the failure.
+    /// - Returns: A failure response.
+    public static func failure(id: String, error: BridgeError) -> BridgeResponse {
+        failure(id: id, error: error.localizedDescription, code: error.bridgeErrorCode)
+    }
+
+    /// Creates a progress response for a streaming request.
+    ///
+    /// - Parameters:
+    ///   - id: Request ID matching the original `BridgeMessage`.
+    ///   - data: Optional progress data.
+    /// - Returns: A progress response.
+    public static func progress(id: String, data: AnyCodable? = nil) -> BridgeResponse {
+        BridgeResponse(id: id, success: true, data: data, error: nil, kind: .progress)
+    }
+
+    /// Creates a chunk response for a streaming request.
+    ///
+    /// - Parameters:
+    ///   - id: Request ID matching the original `BridgeMessage`.
+    ///   - data: The partial result.
+    /// - Returns: A chunk response.
+    public static func chunk(id: String, data: AnyCodable?) -> BridgeResponse {
+        BridgeResponse(id: id, success: true, data: data, error: nil, kind: .chunk)
     }
 
     // MARK: - Codable
@@ -124,6 +206,8 @@ public struct BridgeResponse: Codable, Sendable, Equatable {
         case success
         case data
         case error
+        case code
+        case kind
     }
 
     public init(from decoder: Decoder) throws {
@@ -132,6 +216,8 @@ public struct BridgeResponse: Codable, Sendable, Equatable {
         self.success = try container.decode(Bool.self, forKey: .success)
         self.data = try container.decodeIfPresent(AnyCodable.self, forKey: .data)
         self.error = try container.decodeIfPresent(String.self, forKey: .error)
+        self.code = try container.decodeIfPresent(BridgeErrorCode.self, forKey: .code)
+        self.kind = try container.decodeIfPresent(BridgeResponseKind.self, forKey: .kind)
     }
 
     public func encode(to encoder: Encoder) throws {
@@ -140,6 +226,8 @@ public struct BridgeResponse: Codable, Sendable, Equatable {
         try container.encode(success, forKey: .success)
         try container.encodeIfPresent(data, forKey: .data)
         try container.encodeIfPresent(error, forKey: .error)
+        try container.encodeIfPresent(code, forKey: .code)
+        try container.encodeIfPresent(kind, forKey: .kind)
     }
 }
 
@@ -154,6 +242,12 @@ extension BridgeResponse: CustomStringConvertible {
         if let error {
             parts.append(", error: \"\(error)\"")
         }
+        if let code {
+            parts.append(", code: \(code.rawValue)")
+        }
+        if let kind {
+            parts.append(", kind: \(kind.rawValue)")
+        }
         parts.append(")")
         return parts.joined()
     }
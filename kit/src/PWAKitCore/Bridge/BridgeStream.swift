@@ -0,0 +1,70 @@
+import Foundation
+
+// MARK: - BridgeStream
+
+/// Sends partial responses for a single streaming request.
+///
+/// When JavaScript calls `bridge.stream()`, the message arrives with
+/// `stream: true` and the module receives a `BridgeStream` through
+/// `ModuleContext.stream`. The module can report progress or deliver
+/// partial results before returning its final result as usual.
+///
+/// ## Example
+///
+/// ```swift
+/// func handle(
+///     action: String,
+///     payload: AnyCodable?,
+///     context: ModuleContext
+/// ) async throws -> AnyCodable? {
+///     for (index, batch) in batches.enumerated() {
+///         try Task.checkCancellation()
+///         await context.stream?.progress([
+///             "fraction": AnyCodable(Double(index + 1) / Double(batches.count)),
+///         ])
+///     }
+///     return AnyCodable(["success": AnyCodable(true)])
+/// }
+/// ```
+///
+/// ## Cancellation
+///
+/// When JavaScript cancels the stream, the request's task is cancelled.
+/// Modules should check `Task.isCancelled` (or call `Task.checkCancellation()`)
+/// between units of work. Partial responses are dropped once cancelled.
+public struct BridgeStream: Sendable {
+    /// The ID of the streaming request.
+    public let requestId: String
+
+    /// Delivers a response to JavaScript.
+    private let send: @Sendable (BridgeResponse) async -> Void
+
+    /// Creates a new stream for a request.
+    ///
+    /// - Parameters:
+    ///   - requestId: The ID of the streaming request.
+    ///   - send: Closure that delivers a response to JavaScript.
+    public init(
+        requestId: String,
+        send: @escaping @Sendable (BridgeResponse) async -> Void
+    ) {
+        self.requestId = requestId
+        self.send = send
+    }
+
+    /// Sends a progress update.
+    ///
+    /// - Parameter data: Optional progress data (e.g., `["fraction": 0.5]`).
+    public func progress(_ data: AnyCodable? = nil) async {
+        guard !Task.isCancelled else { return }
+        await send(.progress(id: requestId, data: data))
+    }
+
+    /// Sends a partial result.
+    ///
+    /// - Parameter data: The partial result.
+    public func chunk(_ data: AnyCodable?) async {
+        guard !Task.isCancelled else { return }
+        await send(.chunk(id: requestId, data: data))
+    }
+}
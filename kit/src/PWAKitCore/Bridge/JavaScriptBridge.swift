@@ -73,6 +73,17 @@ public enum JavaScriptBridge {
         "window.pwakit._handleResponse(\(jsonString));"
     }
 
+    /// Formats several bridge responses as a single script.
+    ///
+    /// Used to answer a batch of requests with one `evaluateJavaScript` call.
+    /// Each response is delivered to `window.pwakit._handleResponse()` in order.
+    ///
+    /// - Parameter responses: The bridge responses to format.
+    /// - Returns: JavaScript code string ready for evaluation.
+    public static func formatCallbacks(_ responses: [BridgeResponse]) -> String {
+        responses.map { formatCallback($0) }.joined()
+    }
+
     // MARK: - Event Dispatch Style
 
     /// Formats a bridge event as a JavaScript event dispatch.
@@ -205,6 +216,9 @@ public struct BridgeEvent: Codable, Sendable, Equatable {
     /// - `"push"`: Push notification received
     /// - `"lifecycle"`: App lifecycle change
     /// - `"deeplink"`: Deep link activated
+    /// - `"shortcut"`: App shortcut activated
+    /// - `"network"`: Network connectivity change
+    /// - `"transaction"`: StoreKit transaction update
     public let type: String
 
     /// The event payload data.
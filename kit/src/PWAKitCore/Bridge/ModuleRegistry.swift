@@ -53,6 +53,9 @@ public actor ModuleRegistry {
     /// Storage for registered modules, keyed by module name.
     private var modules: [String: any PWAModule] = [:]
 
+    /// Names of modules that are disabled by a feature flag.
+    private var disabledModuleNames: Set<String> = []
+
     /// Creates a new empty module registry.
     public init() {}
 
@@ -144,6 +147,23 @@ public actor ModuleRegistry {
         modules[name] != nil
     }
 
+    /// Records modules that are disabled by a feature flag.
+    ///
+    /// - Parameter names: The names of the disabled modules.
+    public func markDisabled(_ names: Set<String>) {
+        disabledModuleNames.formUnion(names)
+    }
+
+    /// Checks if a module is disabled by a feature flag.
+    ///
+    /// A module registered later is no longer considered disabled.
+    ///
+    /// - Parameter name: The name to check.
+    /// - Returns: `true` if the module is disabled and not registered.
+    public func isDisabled(moduleNamed name: String) -> Bool {
+        modules[name] == nil && disabledModuleNames.contains(name)
+    }
+
     // MARK: - Listing
 
     /// The names of all registered modules.
@@ -156,6 +176,11 @@ public actor ModuleRegistry {
         modules.count
     }
 
+    /// The supported actions of every registered module, keyed by module name.
+    public var supportedActions: [String: [String]] {
+        modules.mapValues { type(of: $0).supportedActions }
+    }
+
     /// All registered modules.
     ///
     /// The modules are returned in no particular order.
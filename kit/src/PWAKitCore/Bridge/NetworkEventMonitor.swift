@@ -0,0 +1,86 @@
+import Foundation
+import Network
+
+// MARK: - NetworkEventMonitor
+
+/// Reports network path changes to JavaScript as `network` events.
+///
+/// Wraps `NWPathMonitor` and dispatches an event through
+/// `BridgeEventDispatcher` whenever the connection status, type or cost
+/// changes. Unchanged path updates are ignored.
+///
+/// ## Usage
+///
+/// ```swift
+/// let monitor = NetworkEventMonitor()
+/// monitor.start()
+/// ```
+@MainActor
+public final class NetworkEventMonitor {
+    /// The underlying path monitor.
+    private let monitor = NWPathMonitor()
+
+    /// The dispatcher events are sent through.
+    private let dispatcher: BridgeEventDispatcher
+
+    /// The last reported event, used to skip duplicate updates.
+    private var lastEvent: BridgeEvent?
+
+    /// Creates a new network event monitor.
+    ///
+    /// - Parameter dispatcher: The dispatcher events are sent through.
+    public init(dispatcher: BridgeEventDispatcher = .shared) {
+        self.dispatcher = dispatcher
+    }
+
+    /// Starts monitoring network path changes.
+    public func start() {
+        monitor.pathUpdateHandler = { [weak self] path in
+            let event = Self.event(for: path)
+            Task { @MainActor in
+                await self?.report(event)
+            }
+        }
+        monitor.start(queue: DispatchQueue(label: "PWAKit.NetworkEventMonitor"))
+    }
+
+    /// Stops monitoring network path changes.
+    public func stop() {
+        monitor.cancel()
+    }
+
+    /// Dispatches an event unless it matches the last one reported.
+    ///
+    /// - Parameter event: The network event.
+    private func report(_ event: BridgeEvent) async {
+        guard event != lastEvent else { return }
+        lastEvent = event
+        await dispatcher.dispatch(event)
+    }
+
+    /// Creates a `network` event describing a path.
+    ///
+    /// - Parameter path: The network path.
+    /// - Returns: The event.
+    nonisolated static func event(for path: NWPath) -> BridgeEvent {
+        let online = path.status == .satisfied
+        let connectionType = if !online {
+            "none"
+        } else if path.usesInterfaceType(.wifi) {
+            "wifi"
+        } else if path.usesInterfaceType(.cellular) {
+            "cellular"
+        } else if path.usesInterfaceType(.wiredEthernet) {
+            "wired"
+        } else {
+            "other"
+        }
+
+        return .network(
+            online: online,
+            connectionType: connectionType,
+            expensive: path.isExpensive,
+            constrained: path.isConstrained
+        )
+    }
+}
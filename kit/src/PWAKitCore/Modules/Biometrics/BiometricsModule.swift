@@ -1,3 +1,4 @@
+import CryptoKit
 import Foundation
 import LocalAuthentication
 
@@ -12,8 +13,16 @@ import LocalAuthentication
 /// - `isAvailable`: Check if biometric authentication is available.
 ///   - Returns: `{ available: true/false, biometryType: "faceId"/"touchId"/"none" }`
 ///
-/// - `authenticate(reason)`: Prompt for biometric authentication.
+/// - `getEnrollmentState`: Get a hash identifying the enrolled faces or fingerprints.
+///   - Returns: `{ state: "..." | null, biometryType: "faceId"/"touchId"/"none" }`
+///   - The state changes whenever a face or fingerprint is enrolled or removed,
+///     and is `null` when biometrics are unavailable or not enrolled
+///
+/// - `authenticate(reason, allowPasscode, fallbackTitle, cancelTitle)`: Prompt for biometric authentication.
 ///   - `reason`: Optional string explaining why authentication is needed
+///   - `allowPasscode`: Whether the device passcode is accepted instead of biometrics (optional)
+///   - `fallbackTitle`: Title of the fallback button; an empty string hides it (optional)
+///   - `cancelTitle`: Title of the cancel button (optional)
 ///   - Returns: `{ success: true }` on success, or `{ success: false, error: "..." }` on failure
 ///
 /// ## Example
@@ -79,7 +88,7 @@ import LocalAuthentication
 /// - Requires `NSFaceIDUsageDescription` in Info.plist for Face ID devices
 public struct BiometricsModule: PWAModule {
     public static let moduleName = "biometrics"
-    public static let supportedActions = ["isAvailable", "authenticate"]
+    public static let supportedActions = ["isAvailable", "getEnrollmentState", "authenticate"]
 
     /// Creates a new biometrics module instance.
     public init() {}
@@ -95,6 +104,9 @@ public struct BiometricsModule: PWAModule {
         case "isAvailable":
             return handleIsAvailable()
 
+        case "getEnrollmentState":
+            return handleGetEnrollmentState()
+
         case "authenticate":
             return await handleAuthenticate(payload: payload)
 
@@ -156,6 +168,8 @@ public struct BiometricsModule: PWAModule {
         case appCancel
         /// Invalid context.
         case invalidContext
+        /// The enrolled biometry changed since a protected Keychain item was saved.
+        case biometryChanged
         /// Unknown error.
         case unknown
 
@@ -222,20 +236,67 @@ public struct BiometricsModule: PWAModule {
         ])
     }
 
+    // MARK: - getEnrollmentState Action
+
+    /// Handles the `getEnrollmentState` action to identify the enrolled biometry.
+    ///
+    /// - Returns: A dictionary with the enrollment `state` (or null) and `biometryType` string.
+    private func handleGetEnrollmentState() -> AnyCodable {
+        let context = LAContext()
+        var error: NSError?
+
+        // The domain state is only populated once the policy has been evaluated
+        let canEvaluate = context.canEvaluatePolicy(
+            .deviceOwnerAuthenticationWithBiometrics,
+            error: &error
+        )
+
+        let state: AnyCodable = if canEvaluate, let domainState = context.evaluatedPolicyDomainState {
+            AnyCodable(Self.enrollmentState(for: domainState))
+        } else {
+            .null
+        }
+
+        return AnyCodable([
+            "state": state,
+            "biometryType": AnyCodable(BiometryType.from(context.biometryType).rawValue),
+        ])
+    }
+
+    /// Hashes an `evaluatedPolicyDomainState` for JavaScript.
+    ///
+    /// The domain state is opaque, so only its SHA-256 hash is exposed. The
+    /// hash is stable until the enrolled faces or fingerprints change.
+    ///
+    /// - Parameter domainState: The policy domain state from `LAContext`.
+    /// - Returns: The lowercase hex-encoded hash.
+    static func enrollmentState(for domainState: Data) -> String {
+        SHA256.hash(data: domainState).map { String(format: "%02x", $0) }.joined()
+    }
+
     // MARK: - authenticate Action
 
     /// Handles the `authenticate` action to prompt for biometric authentication.
     ///
-    /// - Parameter payload: Dictionary optionally containing `reason` string.
+    /// With `allowPasscode`, the prompt falls back to the device passcode after failed
+    /// attempts or when biometrics are locked out or unavailable.
+    ///
+    /// - Parameter payload: Dictionary optionally containing `reason`, `allowPasscode`,
+    ///   `fallbackTitle` and `cancelTitle`.
     /// - Returns: A dictionary with `success` boolean and optionally `error` and `errorCode`.
     private func handleAuthenticate(payload: AnyCodable?) async -> AnyCodable {
         let reason = payload?["reason"]?.stringValue ?? "Authenticate to continue"
+        let policy: LAPolicy = payload?["allowPasscode"]?.boolValue == true
+            ? .deviceOwnerAuthentication
+            : .deviceOwnerAuthenticationWithBiometrics
 
         let context = LAContext()
+        context.localizedFallbackTitle = payload?["fallbackTitle"]?.stringValue
+        context.localizedCancelTitle = payload?["cancelTitle"]?.stringValue
         var error: NSError?
 
-        // First check if biometrics are available
-        guard context.canEvaluatePolicy(.deviceOwnerAuthenticationWithBiometrics, error: &error) else {
+        // First check if the policy can be evaluated
+        guard context.canEvaluatePolicy(policy, error: &error) else {
             let errorCode: BiometricErrorCode = if let laError = error as? LAError {
                 BiometricErrorCode.from(laError.code)
             } else {
@@ -249,12 +310,15 @@ public struct BiometricsModule: PWAModule {
             ])
         }
 
-        // Perform authentication
+        // Perform authentication, dismissing the prompt if JavaScript cancels the request.
+        // LAContext.invalidate() is thread-safe and makes evaluatePolicy fail with .appCancel.
+        nonisolated(unsafe) let promptContext = context
         do {
-            let success = try await context.evaluatePolicy(
-                .deviceOwnerAuthenticationWithBiometrics,
-                localizedReason: reason
-            )
+            let success = try await withTaskCancellationHandler {
+                try await context.evaluatePolicy(policy, localizedReason: reason)
+            } onCancel: {
+                promptContext.invalidate()
+            }
 
             if success {
                 return AnyCodable([
@@ -281,22 +281,20 @@ public actor HealthKitManager {
             options: .strictStartDate
         )
 
-        return try await withCheckedThrowingContinuation { continuation in
-            let query = HKStatisticsQuery(
+        return try await execute { complete in
+            HKStatisticsQuery(
                 quantityType: stepType,
                 quantitySamplePredicate: predicate,
                 options: .cumulativeSum
             ) { _, statistics, error in
                 if let error {
-                    continuation.resume(throwing: HealthKitError.unknown(error.localizedDescription))
+                    complete(.failure(HealthKitError.unknown(error.localizedDescription)))
                     return
                 }
 
                 let total = statistics?.sumQuantity()?.doubleValue(for: HKUnit.count()) ?? 0
-                continuation.resume(returning: total)
+                complete(.success(total))
             }
-
-            healthStore.execute(query)
         }
     }
 
@@ -343,20 +341,20 @@ public actor HealthKitManager {
             options: .strictStartDate
         )
 
-        return try await withCheckedThrowingContinuation { continuation in
-            let query = HKSampleQuery(
+        return try await execute { complete in
+            HKSampleQuery(
                 sampleType: HKWorkoutType.workoutType(),
                 predicate: predicate,
                 limit: HKObjectQueryNoLimit,
                 sortDescriptors: [NSSortDescriptor(key: HKSampleSortIdentifierStartDate, ascending: false)]
             ) { _, samples, error in
                 if let error {
-                    continuation.resume(throwing: HealthKitError.unknown(error.localizedDescription))
+                    complete(.failure(HealthKitError.unknown(error.localizedDescription)))
                     return
                 }
 
                 guard let workouts = samples as? [HKWorkout] else {
-                    continuation.resume(returning: [])
+                    complete(.success([]))
                     return
                 }
 
@@ -385,10 +383,8 @@ public actor HealthKitManager {
                     results.append(workoutData)
                 }
 
-                continuation.resume(returning: results)
+                complete(.success(results))
             }
-
-            healthStore.execute(query)
         }
     }
 
@@ -416,20 +412,20 @@ public actor HealthKitManager {
             options: .strictStartDate
         )
 
-        return try await withCheckedThrowingContinuation { continuation in
-            let query = HKSampleQuery(
+        return try await execute { complete in
+            HKSampleQuery(
                 sampleType: sleepType,
                 predicate: predicate,
                 limit: HKObjectQueryNoLimit,
                 sortDescriptors: [NSSortDescriptor(key: HKSampleSortIdentifierStartDate, ascending: true)]
             ) { _, samples, error in
                 if let error {
-                    continuation.resume(throwing: HealthKitError.unknown(error.localizedDescription))
+                    complete(.failure(HealthKitError.unknown(error.localizedDescription)))
                     return
                 }
 
                 guard let categorySamples = samples as? [HKCategorySample] else {
-                    continuation.resume(returning: [])
+                    complete(.success([]))
                     return
                 }
 
@@ -447,10 +443,8 @@ public actor HealthKitManager {
                     results.append(sleepSample)
                 }
 
-                continuation.resume(returning: results)
+                complete(.success(results))
             }
-
-            healthStore.execute(query)
         }
     }
 
@@ -497,6 +491,33 @@ public actor HealthKitManager {
 
     // MARK: - Private Helpers
 
+    /// Executes a query, stopping it if the calling task is cancelled.
+    ///
+    /// JavaScript cancels a bridge request by cancelling its task, so an
+    /// aborted query stops instead of running to completion unseen.
+    ///
+    /// - Parameter makeQuery: Creates the query, given the closure its results handler completes.
+    /// - Returns: The value the query completed with.
+    /// - Throws: `CancellationError` if the task was cancelled, or the query's error.
+    private func execute<T>(
+        _ makeQuery: (@escaping (Result<T, Error>) -> Void) -> HKQuery
+    ) async throws -> T {
+        let completion = QueryCompletion<T>()
+        let query = makeQuery { completion.resume(with: $0) }
+        let healthStore = healthStore
+
+        return try await withTaskCancellationHandler {
+            try await withCheckedThrowingContinuation { continuation in
+                if completion.start(continuation) {
+                    healthStore.execute(query)
+                }
+            }
+        } onCancel: {
+            healthStore.stop(query)
+            completion.resume(with: .failure(CancellationError()))
+        }
+    }
+
     /// Queries quantity samples for a specific type.
     private func queryQuantitySamples(
         type: HealthQuantityType,
@@ -518,20 +539,20 @@ public actor HealthKitManager {
             options: .strictStartDate
         )
 
-        return try await withCheckedThrowingContinuation { continuation in
-            let query = HKSampleQuery(
+        return try await execute { complete in
+            HKSampleQuery(
                 sampleType: quantityType,
                 predicate: predicate,
                 limit: HKObjectQueryNoLimit,
                 sortDescriptors: [NSSortDescriptor(key: HKSampleSortIdentifierStartDate, ascending: true)]
             ) { _, samples, error in
                 if let error {
-                    continuation.resume(throwing: HealthKitError.unknown(error.localizedDescription))
+                    complete(.failure(HealthKitError.unknown(error.localizedDescription)))
                     return
                 }
 
                 guard let quantitySamples = samples as? [HKQuantitySample] else {
-                    continuation.resume(returning: [])
+                    complete(.success([]))
                     return
                 }
 
@@ -545,10 +566,8 @@ public actor HealthKitManager {
                     )
                 }
 
-                continuation.resume(returning: results)
+                complete(.success(results))
             }
-
-            healthStore.execute(query)
         }
     }
 
@@ -696,3 +715,42 @@ public actor HealthKitManager {
         }
     }
 }
+
+// MARK: - QueryCompletion
+
+/// Resumes a query's continuation exactly once, whichever of the query's
+/// results handler and task cancellation finishes first.
+private final class QueryCompletion<T>: @unchecked Sendable {
+    private let lock = NSLock()
+    private var continuation: CheckedContinuation<T, Error>?
+    private var result: Result<T, Error>?
+
+    /// Attaches the continuation, resuming it at once if the query already finished.
+    ///
+    /// - Returns: `false` if the query finished (or was cancelled) before it started.
+    func start(_ continuation: CheckedContinuation<T, Error>) -> Bool {
+        lock.lock()
+        guard let result else {
+            self.continuation = continuation
+            lock.unlock()
+            return true
+        }
+        lock.unlock()
+        continuation.resume(with: result)
+        return false
+    }
+
+    /// Completes the query, ignoring every result after the first.
+    func resume(with result: Result<T, Error>) {
+        lock.lock()
+        guard self.result == nil else {
+            lock.unlock()
+            return
+        }
+        self.result = result
+        let continuation = continuation
+        self.continuation = nil
+        lock.unlock()
+        continuation?.resume(with: result)
+    }
+}
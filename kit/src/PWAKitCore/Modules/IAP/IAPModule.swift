@@ -1,23 +1,28 @@
 import Foundation
 import StoreKit
+import UIKit
 
 // MARK: - IAPModule
 
 /// A module that provides in-app purchase functionality to JavaScript.
 ///
 /// `IAPModule` exposes StoreKit 2 operations to web applications, allowing
-/// them to fetch products, make purchases, restore purchases, and check
-/// user entitlements.
+/// them to fetch products, make purchases, restore purchases, check
+/// user entitlements and subscription statuses, and finish consumables.
 ///
 /// ## Supported Actions
 ///
 /// - `getProducts`: Fetch product information from the App Store.
 ///   - `productIds`: Required array of product identifiers to fetch.
-///   - Returns `{ products: [...] }` with product details.
+///   - Returns `{ products: [...] }` with product details, including
+///     subscription periods and offers.
 ///
 /// - `purchase`: Initiate a purchase for a specific product.
 ///   - `productId`: Required product identifier to purchase.
-///   - Returns `PurchaseResult` with transaction ID on success.
+///   - `appAccountToken`: Optional UUID linking the purchase to a user account.
+///   - `promotionalOffer`: Optional signed promotional offer
+///     (`offerId`, `keyId`, `nonce`, `signature`, `timestamp`).
+///   - Returns `PurchaseResult` with the transaction on success.
 ///
 /// - `restore`: Restore previously purchased products.
 ///   - Returns `RestoreResult` with restored product IDs.
@@ -25,6 +30,21 @@ import StoreKit
 /// - `getEntitlements`: Get the user's currently owned products.
 ///   - Returns `EntitlementInfo` with owned product IDs.
 ///
+/// - `getSubscriptionStatus`: Get the statuses of a subscription group.
+///   - `productId`: Required identifier of any subscription in the group.
+///   - Returns `{ statuses: [...] }`.
+///
+/// - `getUnfinishedTransactions`: Get transactions awaiting `finish`.
+///   - Returns `{ transactions: [...] }`.
+///
+/// - `finish`: Finish a transaction once its content is delivered.
+///   - `transactionId`: Required transaction identifier.
+///   - Returns `{ success: true }`, even if it was already finished.
+///
+/// - `presentOfferCodeRedeemSheet`: Show the App Store sheet for redeeming
+///   offer codes. Redemptions arrive as `transaction` events.
+///   - Returns `{ success: true }` once the sheet is shown.
+///
 /// ## Example
 ///
 /// JavaScript request to fetch products:
@@ -85,7 +105,16 @@ import StoreKit
 @available(iOS 15.0, macOS 12.0, tvOS 15.0, watchOS 8.0, *)
 public struct IAPModule: PWAModule {
     public static let moduleName = "iap"
-    public static let supportedActions = ["getProducts", "purchase", "restore", "getEntitlements"]
+    public static let supportedActions = [
+        "getProducts",
+        "purchase",
+        "restore",
+        "getEntitlements",
+        "getSubscriptionStatus",
+        "getUnfinishedTransactions",
+        "finish",
+        "presentOfferCodeRedeemSheet",
+    ]
 
     /// The StoreKit manager used for IAP operations.
     private let storeKitManager: StoreKitManager
@@ -105,7 +134,7 @@ public struct IAPModule: PWAModule {
     public func handle(
         action: String,
         payload: AnyCodable?,
-        context _: ModuleContext
+        context: ModuleContext
     ) async throws -> AnyCodable? {
         try validateAction(action)
 
@@ -122,6 +151,18 @@ public struct IAPModule: PWAModule {
         case "getEntitlements":
             return await handleGetEntitlements()
 
+        case "getSubscriptionStatus":
+            return try await handleGetSubscriptionStatus(payload: payload)
+
+        case "getUnfinishedTransactions":
+            return await handleGetUnfinishedTransactions()
+
+        case "finish":
+            return try await handleFinish(payload: payload)
+
+        case "presentOfferCodeRedeemSheet":
+            return try await handlePresentOfferCodeRedeemSheet(context: context)
+
         default:
             throw BridgeError.unknownAction(action)
         }
@@ -160,21 +201,24 @@ public struct IAPModule: PWAModule {
 
     /// Handles the `purchase` action to initiate a product purchase.
     ///
-    /// - Parameter payload: Dictionary containing `productId`.
+    /// - Parameter payload: Dictionary containing `productId` and optional
+    ///   `appAccountToken` and `promotionalOffer`.
     /// - Returns: A `PurchaseResult` encoded as `AnyCodable`.
-    /// - Throws: `BridgeError.invalidPayload` if productId is missing.
+    /// - Throws: `BridgeError.invalidPayload` if productId is missing or an option is malformed.
     private func handlePurchase(payload: AnyCodable?) async throws -> AnyCodable {
         guard let productId = payload?["productId"]?.stringValue else {
             throw BridgeError.invalidPayload("Missing required 'productId' field")
         }
 
+        let options = try purchaseOptions(from: payload)
+
         do {
-            let result = try await storeKitManager.purchase(productId: productId)
+            let result = try await storeKitManager.purchase(productId: productId, options: options)
             return encodeResponse(result)
         } catch let error as IAPError {
             // Return a failure result rather than throwing for expected purchase failures
             let errorMessage = error.errorDescription ?? "Unknown error"
-            let result = PurchaseResult(error: errorMessage, productId: productId)
+            let result = PurchaseResult(error: errorMessage, productId: productId, code: error.bridgeErrorCode)
             return encodeResponse(result)
         } catch {
             let result = PurchaseResult(error: error.localizedDescription, productId: productId)
@@ -182,6 +226,41 @@ public struct IAPModule: PWAModule {
         }
     }
 
+    /// Parses the purchase options from a `purchase` payload.
+    private func purchaseOptions(from payload: AnyCodable?) throws -> Set<Product.PurchaseOption> {
+        var options: Set<Product.PurchaseOption> = []
+
+        if let token = payload?["appAccountToken"], !token.isNull {
+            guard let uuid = token.stringValue.flatMap(UUID.init(uuidString:)) else {
+                throw BridgeError.invalidPayload("'appAccountToken' must be a UUID string")
+            }
+            options.insert(.appAccountToken(uuid))
+        }
+
+        if let offer = payload?["promotionalOffer"], !offer.isNull {
+            guard let offerId = offer["offerId"]?.stringValue,
+                  let keyId = offer["keyId"]?.stringValue,
+                  let nonce = offer["nonce"]?.stringValue.flatMap(UUID.init(uuidString:)),
+                  let signature = offer["signature"]?.stringValue.flatMap({ Data(base64Encoded: $0) }),
+                  let timestamp = offer["timestamp"]?.intValue
+            else {
+                throw BridgeError.invalidPayload(
+                    "'promotionalOffer' requires 'offerId', 'keyId', a UUID 'nonce', "
+                        + "a base64 'signature' and a millisecond 'timestamp'"
+                )
+            }
+            options.insert(.promotionalOffer(
+                offerID: offerId,
+                keyID: keyId,
+                nonce: nonce,
+                signature: signature,
+                timestamp: timestamp
+            ))
+        }
+
+        return options
+    }
+
     // MARK: - Restore Action
 
     /// Handles the `restore` action to restore previous purchases.
@@ -211,6 +290,80 @@ public struct IAPModule: PWAModule {
         return encodeResponse(entitlements)
     }
 
+    // MARK: - Get Subscription Status Action
+
+    /// Handles the `getSubscriptionStatus` action to get a subscription group's statuses.
+    ///
+    /// - Parameter payload: Dictionary containing `productId`.
+    /// - Returns: A `SubscriptionStatusResponse` encoded as `AnyCodable`.
+    /// - Throws: `BridgeError.invalidPayload` if productId is missing.
+    private func handleGetSubscriptionStatus(payload: AnyCodable?) async throws -> AnyCodable {
+        guard let productId = payload?["productId"]?.stringValue else {
+            throw BridgeError.invalidPayload("Missing required 'productId' field")
+        }
+
+        do {
+            let statuses = try await storeKitManager.subscriptionStatuses(productId: productId)
+            return encodeResponse(SubscriptionStatusResponse(statuses: statuses))
+        } catch {
+            throw BridgeError.moduleError(underlying: error)
+        }
+    }
+
+    // MARK: - Finish Actions
+
+    /// Handles the `getUnfinishedTransactions` action.
+    ///
+    /// - Returns: A `TransactionsResponse` encoded as `AnyCodable`.
+    private func handleGetUnfinishedTransactions() async -> AnyCodable {
+        let transactions = await storeKitManager.unfinishedTransactions()
+        return encodeResponse(TransactionsResponse(transactions: transactions))
+    }
+
+    /// Handles the `finish` action to finish a delivered transaction.
+    ///
+    /// - Parameter payload: Dictionary containing `transactionId`.
+    /// - Returns: `{ success: true }`.
+    /// - Throws: `BridgeError.invalidPayload` if transactionId is missing.
+    private func handleFinish(payload: AnyCodable?) async throws -> AnyCodable {
+        guard let transactionId = payload?["transactionId"]?.stringValue else {
+            throw BridgeError.invalidPayload("Missing required 'transactionId' field")
+        }
+
+        await storeKitManager.finish(transactionId: transactionId)
+        return AnyCodable(["success": AnyCodable(true)])
+    }
+
+    // MARK: - Offer Code Action
+
+    /// Handles the `presentOfferCodeRedeemSheet` action.
+    ///
+    /// Redeemed codes are delivered through `Transaction.updates`, which the
+    /// app reports as `transaction` events.
+    ///
+    /// - Parameter context: The module context providing the view controller.
+    /// - Returns: `{ success: true }` once the sheet is shown.
+    /// - Throws: `BridgeError.moduleError` if there is no window to present in.
+    @MainActor
+    private func handlePresentOfferCodeRedeemSheet(context: ModuleContext) async throws -> AnyCodable {
+        if #available(iOS 16.0, *) {
+            guard let viewController = context.viewController as? UIViewController,
+                  let scene = viewController.view.window?.windowScene
+            else {
+                throw BridgeError.moduleError(underlying: IAPError.notAvailable)
+            }
+            do {
+                try await AppStore.presentOfferCodeRedeemSheet(in: scene)
+            } catch {
+                throw BridgeError.moduleError(underlying: IAPError.unknown(error.localizedDescription))
+            }
+        } else {
+            SKPaymentQueue.default().presentCodeRedemptionSheet()
+        }
+
+        return AnyCodable(["success": AnyCodable(true)])
+    }
+
     // MARK: - Helpers
 
     /// Encodes a Codable response to AnyCodable.
@@ -62,6 +62,9 @@ public struct ProductInfo: Codable, Sendable, Equatable {
     /// The localized description of the product.
     public let description: String?
 
+    /// Subscription details, for auto-renewable subscriptions.
+    public let subscription: ProductSubscriptionInfo?
+
     /// Creates a new product info.
     ///
     /// - Parameters:
@@ -70,18 +73,169 @@ public struct ProductInfo: Codable, Sendable, Equatable {
     ///   - displayPrice: The localized display price with currency.
     ///   - type: The type of product.
     ///   - description: The localized description.
+    ///   - subscription: Subscription details, for auto-renewable subscriptions.
     public init(
         id: String,
         displayName: String,
         displayPrice: String,
         type: ProductType,
-        description: String? = nil
+        description: String? = nil,
+        subscription: ProductSubscriptionInfo? = nil
     ) {
         self.id = id
         self.displayName = displayName
         self.displayPrice = displayPrice
         self.type = type
         self.description = description
+        self.subscription = subscription
+    }
+}
+
+// MARK: - SubscriptionPeriod
+
+/// The length of a subscription or offer period.
+///
+/// ## Example
+///
+/// ```json
+/// { "unit": "month", "value": 1 }
+/// ```
+public struct SubscriptionPeriod: Codable, Sendable, Equatable {
+    /// The unit: `day`, `week`, `month` or `year`.
+    public let unit: String
+
+    /// The number of units.
+    public let value: Int
+
+    /// Creates a subscription period.
+    ///
+    /// - Parameters:
+    ///   - unit: The unit: `day`, `week`, `month` or `year`.
+    ///   - value: The number of units.
+    public init(unit: String, value: Int) {
+        self.unit = unit
+        self.value = value
+    }
+}
+
+// MARK: - SubscriptionOffer
+
+/// An introductory or promotional offer for a subscription.
+///
+/// ## Example
+///
+/// ```json
+/// {
+///   "id": "winback_50",
+///   "type": "promotional",
+///   "displayPrice": "$2.49",
+///   "paymentMode": "payAsYouGo",
+///   "period": { "unit": "month", "value": 1 },
+///   "periodCount": 3
+/// }
+/// ```
+public struct SubscriptionOffer: Codable, Sendable, Equatable {
+    /// The offer identifier, for promotional offers.
+    public let id: String?
+
+    /// The offer type: `introductory` or `promotional`.
+    public let type: String
+
+    /// The localized price of each period, including currency symbol.
+    public let displayPrice: String
+
+    /// How the user pays: `freeTrial`, `payAsYouGo` or `payUpFront`.
+    public let paymentMode: String
+
+    /// The length of each period.
+    public let period: SubscriptionPeriod
+
+    /// The number of periods the offer lasts.
+    public let periodCount: Int
+
+    /// Creates a subscription offer.
+    ///
+    /// - Parameters:
+    ///   - id: The offer identifier, for promotional offers.
+    ///   - type: The offer type: `introductory` or `promotional`.
+    ///   - displayPrice: The localized price of each period.
+    ///   - paymentMode: How the user pays: `freeTrial`, `payAsYouGo` or `payUpFront`.
+    ///   - period: The length of each period.
+    ///   - periodCount: The number of periods the offer lasts.
+    public init(
+        id: String?,
+        type: String,
+        displayPrice: String,
+        paymentMode: String,
+        period: SubscriptionPeriod,
+        periodCount: Int
+    ) {
+        self.id = id
+        self.type = type
+        self.displayPrice = displayPrice
+        self.paymentMode = paymentMode
+        self.period = period
+        self.periodCount = periodCount
+    }
+}
+
+// MARK: - ProductSubscriptionInfo
+
+/// Subscription details of an auto-renewable subscription product.
+///
+/// ## Example
+///
+/// ```json
+/// {
+///   "groupId": "21345678",
+///   "period": { "unit": "month", "value": 1 },
+///   "introductoryOffer": {
+///     "type": "introductory",
+///     "displayPrice": "$0.00",
+///     "paymentMode": "freeTrial",
+///     "period": { "unit": "week", "value": 1 },
+///     "periodCount": 1
+///   },
+///   "promotionalOffers": [],
+///   "isEligibleForIntroOffer": true
+/// }
+/// ```
+public struct ProductSubscriptionInfo: Codable, Sendable, Equatable {
+    /// The identifier of the subscription group.
+    public let groupId: String
+
+    /// The renewal period.
+    public let period: SubscriptionPeriod
+
+    /// The introductory offer, if one is configured.
+    public let introductoryOffer: SubscriptionOffer?
+
+    /// The promotional offers configured in App Store Connect.
+    public let promotionalOffers: [SubscriptionOffer]
+
+    /// Whether the user can still redeem the introductory offer.
+    public let isEligibleForIntroOffer: Bool
+
+    /// Creates subscription details.
+    ///
+    /// - Parameters:
+    ///   - groupId: The identifier of the subscription group.
+    ///   - period: The renewal period.
+    ///   - introductoryOffer: The introductory offer, if one is configured.
+    ///   - promotionalOffers: The promotional offers.
+    ///   - isEligibleForIntroOffer: Whether the user can redeem the introductory offer.
+    public init(
+        groupId: String,
+        period: SubscriptionPeriod,
+        introductoryOffer: SubscriptionOffer? = nil,
+        promotionalOffers: [SubscriptionOffer] = [],
+        isEligibleForIntroOffer: Bool = false
+    ) {
+        self.groupId = groupId
+        self.period = period
+        self.introductoryOffer = introductoryOffer
+        self.promotionalOffers = promotionalOffers
+        self.isEligibleForIntroOffer = isEligibleForIntroOffer
     }
 }
 
@@ -99,7 +253,8 @@ public struct ProductInfo: Codable, Sendable, Equatable {
 /// {
 ///   "success": true,
 ///   "transactionId": "1000000123456789",
-///   "productId": "com.example.premium"
+///   "productId": "com.example.premium",
+///   "transaction": { "transactionId": "1000000123456789", "jwsRepresentation": "eyJhbGciOiJFUzI1NiIs..." }
 /// }
 /// ```
 ///
@@ -124,6 +279,12 @@ public struct PurchaseResult: Codable, Sendable, Equatable {
     /// Error message if the purchase failed.
     public let error: String?
 
+    /// Stable error code if the purchase failed (e.g. `E_CANCELLED`).
+    public let code: BridgeErrorCode?
+
+    /// The purchase transaction, present on success.
+    public let transaction: TransactionUpdate?
+
     /// Creates a successful purchase result.
     ///
     /// - Parameters:
@@ -134,6 +295,20 @@ public struct PurchaseResult: Codable, Sendable, Equatable {
         self.transactionId = transactionId
         self.productId = productId
         self.error = nil
+        self.code = nil
+        self.transaction = nil
+    }
+
+    /// Creates a successful purchase result from the purchase transaction.
+    ///
+    /// - Parameter transaction: The purchase transaction.
+    public init(transaction: TransactionUpdate) {
+        self.success = true
+        self.transactionId = transaction.transactionId
+        self.productId = transaction.productId
+        self.error = nil
+        self.code = nil
+        self.transaction = transaction
     }
 
     /// Creates a failed purchase result.
@@ -141,11 +316,14 @@ public struct PurchaseResult: Codable, Sendable, Equatable {
     /// - Parameters:
     ///   - error: A description of why the purchase failed.
     ///   - productId: The product identifier that was attempted.
-    public init(error: String, productId: String) {
+    ///   - code: The stable error code. Defaults to `.unknown`.
+    public init(error: String, productId: String, code: BridgeErrorCode = .unknown) {
         self.success = false
         self.transactionId = nil
         self.productId = productId
         self.error = error
+        self.code = code
+        self.transaction = nil
     }
 
     /// Creates a purchase result with all fields.
@@ -157,16 +335,22 @@ public struct PurchaseResult: Codable, Sendable, Equatable {
     ///   - transactionId: The transaction identifier, if available.
     ///   - productId: The product identifier.
     ///   - error: Error message, if any.
+    ///   - code: Stable error code, if any.
+    ///   - transaction: The purchase transaction, if any.
     public init(
         success: Bool,
         transactionId: String?,
         productId: String,
-        error: String?
+        error: String?,
+        code: BridgeErrorCode? = nil,
+        transaction: TransactionUpdate? = nil
     ) {
         self.success = success
         self.transactionId = transactionId
         self.productId = productId
         self.error = error
+        self.code = code
+        self.transaction = transaction
     }
 }
 
@@ -351,3 +535,234 @@ public struct RestoreResult: Codable, Sendable, Equatable {
         self.error = error
     }
 }
+
+// MARK: - TransactionUpdate
+
+/// A StoreKit transaction sent to JavaScript.
+///
+/// Updates arrive as `transaction` events from `Transaction.updates` for
+/// transactions that happen outside the purchase flow, such as subscription
+/// renewals, refunds, offer code redemptions and ask-to-buy approvals. The
+/// same shape is returned for purchases, subscription statuses and unfinished
+/// transactions. Dates are seconds since 1970.
+///
+/// ## Example
+///
+/// ```json
+/// {
+///   "transactionId": "1000000123456789",
+///   "originalTransactionId": "1000000100000000",
+///   "productId": "com.example.subscription.monthly",
+///   "purchaseDate": 1704067200.0,
+///   "expirationDate": 1706745600.0,
+///   "isUpgraded": false,
+///   "offerType": "introductory",
+///   "jwsRepresentation": "eyJhbGciOiJFUzI1NiIs...",
+///   "finished": true
+/// }
+/// ```
+public struct TransactionUpdate: Codable, Sendable, Equatable {
+    /// The transaction identifier.
+    public let transactionId: String
+
+    /// The identifier of the original purchase.
+    public let originalTransactionId: String
+
+    /// The product identifier.
+    public let productId: String
+
+    /// When the transaction occurred.
+    public let purchaseDate: Double
+
+    /// When the subscription expires, for subscriptions.
+    public let expirationDate: Double?
+
+    /// When the transaction was refunded or revoked, if it was.
+    public let revocationDate: Double?
+
+    /// Whether the user upgraded to a higher-level subscription.
+    public let isUpgraded: Bool
+
+    /// The app account token passed to the purchase, if any.
+    public let appAccountToken: String?
+
+    /// The offer redeemed: `introductory`, `promotional` or `code`.
+    public let offerType: String?
+
+    /// The identifier of the promotional offer or offer code redeemed.
+    public let offerId: String?
+
+    /// The signed transaction (JWS) for validation on a server.
+    public let jwsRepresentation: String?
+
+    /// Whether the transaction has been finished.
+    ///
+    /// Consumable transactions stay unfinished until JavaScript finishes them
+    /// after delivering the content.
+    public let finished: Bool
+
+    /// Creates a transaction update.
+    ///
+    /// - Parameters:
+    ///   - transactionId: The transaction identifier.
+    ///   - originalTransactionId: The identifier of the original purchase.
+    ///   - productId: The product identifier.
+    ///   - purchaseDate: When the transaction occurred.
+    ///   - expirationDate: When the subscription expires, if applicable.
+    ///   - revocationDate: When the transaction was revoked, if applicable.
+    ///   - isUpgraded: Whether the user upgraded to a higher-level subscription.
+    ///   - appAccountToken: The app account token passed to the purchase, if any.
+    ///   - offerType: The offer redeemed, if any.
+    ///   - offerId: The identifier of the offer redeemed, if any.
+    ///   - jwsRepresentation: The signed transaction, if available.
+    ///   - finished: Whether the transaction has been finished.
+    public init(
+        transactionId: String,
+        originalTransactionId: String,
+        productId: String,
+        purchaseDate: Double,
+        expirationDate: Double? = nil,
+        revocationDate: Double? = nil,
+        isUpgraded: Bool = false,
+        appAccountToken: String? = nil,
+        offerType: String? = nil,
+        offerId: String? = nil,
+        jwsRepresentation: String? = nil,
+        finished: Bool = true
+    ) {
+        self.transactionId = transactionId
+        self.originalTransactionId = originalTransactionId
+        self.productId = productId
+        self.purchaseDate = purchaseDate
+        self.expirationDate = expirationDate
+        self.revocationDate = revocationDate
+        self.isUpgraded = isUpgraded
+        self.appAccountToken = appAccountToken
+        self.offerType = offerType
+        self.offerId = offerId
+        self.jwsRepresentation = jwsRepresentation
+        self.finished = finished
+    }
+}
+
+// MARK: - SubscriptionStatusInfo
+
+/// The status of a subscription in a subscription group.
+///
+/// ## Example
+///
+/// ```json
+/// {
+///   "productId": "com.example.subscription.monthly",
+///   "state": "inGracePeriod",
+///   "willAutoRenew": true,
+///   "autoRenewProductId": "com.example.subscription.monthly",
+///   "expirationDate": 1706745600.0,
+///   "gracePeriodExpirationDate": 1707350400.0,
+///   "isInBillingRetry": true,
+///   "transaction": { "transactionId": "1000000123456789" },
+///   "renewalInfoJWS": "eyJhbGciOiJFUzI1NiIs..."
+/// }
+/// ```
+public struct SubscriptionStatusInfo: Codable, Sendable, Equatable {
+    /// The product identifier of the latest transaction.
+    public let productId: String
+
+    /// The renewal state: `subscribed`, `expired`, `inBillingRetryPeriod`,
+    /// `inGracePeriod` or `revoked`.
+    public let state: String
+
+    /// Whether the subscription renews at the end of the period.
+    public let willAutoRenew: Bool
+
+    /// The product the subscription renews to, if it renews.
+    public let autoRenewProductId: String?
+
+    /// When the current period ends.
+    public let expirationDate: Double?
+
+    /// When the billing grace period ends, while in it.
+    public let gracePeriodExpirationDate: Double?
+
+    /// Whether the App Store is retrying a failed renewal payment.
+    public let isInBillingRetry: Bool
+
+    /// Why the subscription expired: `autoRenewDisabled`, `billingError`,
+    /// `didNotConsentToPriceIncrease`, `productUnavailable` or `unknown`.
+    public let expirationReason: String?
+
+    /// The latest transaction of the subscription.
+    public let transaction: TransactionUpdate
+
+    /// The signed renewal info (JWS) for validation on a server.
+    public let renewalInfoJWS: String?
+
+    /// Creates a subscription status.
+    ///
+    /// - Parameters:
+    ///   - productId: The product identifier of the latest transaction.
+    ///   - state: The renewal state.
+    ///   - willAutoRenew: Whether the subscription renews.
+    ///   - autoRenewProductId: The product the subscription renews to.
+    ///   - expirationDate: When the current period ends.
+    ///   - gracePeriodExpirationDate: When the billing grace period ends.
+    ///   - isInBillingRetry: Whether a failed renewal payment is being retried.
+    ///   - expirationReason: Why the subscription expired.
+    ///   - transaction: The latest transaction.
+    ///   - renewalInfoJWS: The signed renewal info.
+    public init(
+        productId: String,
+        state: String,
+        willAutoRenew: Bool,
+        autoRenewProductId: String? = nil,
+        expirationDate: Double? = nil,
+        gracePeriodExpirationDate: Double? = nil,
+        isInBillingRetry: Bool = false,
+        expirationReason: String? = nil,
+        transaction: TransactionUpdate,
+        renewalInfoJWS: String? = nil
+    ) {
+        self.productId = productId
+        self.state = state
+        self.willAutoRenew = willAutoRenew
+        self.autoRenewProductId = autoRenewProductId
+        self.expirationDate = expirationDate
+        self.gracePeriodExpirationDate = gracePeriodExpirationDate
+        self.isInBillingRetry = isInBillingRetry
+        self.expirationReason = expirationReason
+        self.transaction = transaction
+        self.renewalInfoJWS = renewalInfoJWS
+    }
+}
+
+// MARK: - SubscriptionStatusResponse
+
+/// Response containing the statuses of a subscription group.
+///
+/// A group has one status per subscription the user holds in it, usually one.
+public struct SubscriptionStatusResponse: Codable, Sendable, Equatable {
+    /// The statuses, empty if the user never subscribed.
+    public let statuses: [SubscriptionStatusInfo]
+
+    /// Creates a subscription status response.
+    ///
+    /// - Parameter statuses: The statuses.
+    public init(statuses: [SubscriptionStatusInfo]) {
+        self.statuses = statuses
+    }
+}
+
+// MARK: - TransactionsResponse
+
+/// Response containing a list of transactions.
+public struct TransactionsResponse: Codable, Sendable, Equatable {
+    /// The transactions.
+    public let transactions: [TransactionUpdate]
+
+    /// Creates a transactions response.
+    ///
+    /// - Parameter transactions: The transactions.
+    public init(transactions: [TransactionUpdate]) {
+        self.transactions = transactions
+    }
+}
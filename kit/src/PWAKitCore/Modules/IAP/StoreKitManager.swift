@@ -54,16 +54,38 @@ public enum IAPError: Error, Sendable, Equatable, LocalizedError {
     }
 }
 
+// MARK: BridgeErrorCodeProviding
+
+extension IAPError: BridgeErrorCodeProviding {
+    /// The stable code sent to JavaScript for this error.
+    public var bridgeErrorCode: BridgeErrorCode {
+        switch self {
+        case .purchaseCancelled:
+            .cancelled
+        case .notAllowed:
+            .permissionDenied
+        case .noProductsFound,
+             .productNotFound,
+             .purchasePending,
+             .verificationFailed,
+             .notAvailable,
+             .unknown:
+            .unknown
+        }
+    }
+}
+
 // MARK: - StoreKitManager
 
 /// Manages StoreKit 2 in-app purchase operations.
 ///
 /// `StoreKitManager` provides an async/await interface for:
 /// - Fetching products from the App Store
-/// - Purchasing products
+/// - Purchasing products, with promotional offers and app account tokens
 /// - Restoring previous purchases
 /// - Monitoring transaction updates
-/// - Checking user entitlements
+/// - Checking user entitlements and subscription statuses
+/// - Finishing consumable transactions
 ///
 /// ## Usage
 ///
@@ -87,6 +109,12 @@ public enum IAPError: Error, Sendable, Equatable, LocalizedError {
 /// transactions that occur outside the app (e.g., subscription renewals,
 /// family sharing, ask-to-buy approvals).
 ///
+/// ## Finishing Transactions
+///
+/// Transactions are finished as soon as they are verified, except for
+/// consumables. Those stay unfinished, and StoreKit keeps delivering them,
+/// until `finish(transactionId:)` is called once the content is delivered.
+///
 /// ## Thread Safety
 ///
 /// `StoreKitManager` is implemented as an actor to ensure thread-safe
@@ -133,6 +161,13 @@ public actor StoreKitManager {
         }
     }
 
+    /// Sets the delegate notified of transaction updates.
+    ///
+    /// - Parameter delegate: The delegate, held weakly.
+    public func setDelegate(_ delegate: StoreKitManagerDelegate?) {
+        self.delegate = delegate
+    }
+
     /// Stops the transaction update listener.
     public func stopTransactionListener() {
         transactionListenerTask?.cancel()
@@ -147,11 +182,27 @@ public actor StoreKitManager {
             return
         }
 
-        // Always finish the transaction
-        await transaction.finish()
+        if Self.finishesAutomatically(transaction) {
+            await transaction.finish()
+        }
 
         // Notify delegate
-        delegate?.storeKitManager(self, didUpdateTransaction: transaction)
+        delegate?.storeKitManager(
+            self,
+            didUpdateTransaction: transaction,
+            jwsRepresentation: verificationResult.jwsRepresentation
+        )
+    }
+
+    /// Whether a verified transaction is finished without waiting for JavaScript.
+    ///
+    /// Consumables are left for `finish(transactionId:)`, so a purchase is not
+    /// lost if the app quits before the content is delivered.
+    ///
+    /// - Parameter transaction: The verified transaction.
+    /// - Returns: `true` unless the transaction is for a consumable.
+    public static func finishesAutomatically(_ transaction: Transaction) -> Bool {
+        transaction.productType != .consumable
     }
 
     /// Verifies a transaction result and returns the transaction if valid.
@@ -185,7 +236,11 @@ public actor StoreKitManager {
             cachedProducts[product.id] = product
         }
 
-        return products.map { productInfoFrom($0) }
+        var productInfos: [ProductInfo] = []
+        for product in products {
+            await productInfos.append(productInfoFrom(product))
+        }
+        return productInfos
     }
 
     /// Returns a cached product by ID, if available.
@@ -199,16 +254,41 @@ public actor StoreKitManager {
     }
 
     /// Converts a StoreKit Product to our ProductInfo type.
-    private func productInfoFrom(_ product: Product) -> ProductInfo {
-        ProductInfo(
+    private func productInfoFrom(_ product: Product) async -> ProductInfo {
+        var subscription: ProductSubscriptionInfo?
+        if let info = product.subscription {
+            subscription = await ProductSubscriptionInfo(
+                groupId: info.subscriptionGroupID,
+                period: SubscriptionPeriod(info.subscriptionPeriod),
+                introductoryOffer: info.introductoryOffer.map(SubscriptionOffer.init),
+                promotionalOffers: info.promotionalOffers.map(SubscriptionOffer.init),
+                isEligibleForIntroOffer: info.isEligibleForIntroOffer
+            )
+        }
+
+        return ProductInfo(
             id: product.id,
             displayName: product.displayName,
             displayPrice: product.displayPrice,
             type: productTypeFrom(product.type),
-            description: product.description
+            description: product.description,
+            subscription: subscription
         )
     }
 
+    /// Returns a product from the cache, fetching it if needed.
+    private func loadProduct(id: String) async throws -> Product {
+        if let product = cachedProducts[id] {
+            return product
+        }
+
+        guard let product = try await Product.products(for: [id]).first else {
+            throw IAPError.productNotFound(id)
+        }
+        cachedProducts[id] = product
+        return product
+    }
+
     /// Converts a StoreKit Product.ProductType to our ProductType enum.
     private func productTypeFrom(_ type: Product.ProductType) -> ProductType {
         switch type {
@@ -231,27 +311,33 @@ public actor StoreKitManager {
     ///
     /// The product must have been previously fetched via `fetchProducts(ids:)`.
     ///
-    /// - Parameter productId: The product identifier to purchase.
+    /// - Parameters:
+    ///   - productId: The product identifier to purchase.
+    ///   - options: Purchase options, such as a promotional offer or app account token.
     /// - Returns: The purchase result with transaction ID on success.
     /// - Throws: Various `StoreKitError` cases depending on failure reason.
-    public func purchase(productId: String) async throws -> PurchaseResult {
+    public func purchase(productId: String, options: Set<Product.PurchaseOption> = []) async throws -> PurchaseResult {
         guard let product = cachedProducts[productId] else {
             throw IAPError.productNotFound(productId)
         }
 
-        return try await purchase(product: product)
+        return try await purchase(product: product, options: options)
     }
 
     /// Purchases a product directly.
     ///
-    /// - Parameter product: The StoreKit product to purchase.
+    /// Consumable transactions are left unfinished; see `finish(transactionId:)`.
+    ///
+    /// - Parameters:
+    ///   - product: The StoreKit product to purchase.
+    ///   - options: Purchase options, such as a promotional offer or app account token.
     /// - Returns: The purchase result with transaction ID on success.
     /// - Throws: Various `StoreKitError` cases depending on failure reason.
-    public func purchase(product: Product) async throws -> PurchaseResult {
+    public func purchase(product: Product, options: Set<Product.PurchaseOption> = []) async throws -> PurchaseResult {
         let result: Product.PurchaseResult
 
         do {
-            result = try await product.purchase()
+            result = try await product.purchase(options: options)
         } catch {
             throw IAPError.unknown(error.localizedDescription)
         }
@@ -262,13 +348,16 @@ public actor StoreKitManager {
                 throw IAPError.verificationFailed
             }
 
-            // Finish the transaction
-            await transaction.finish()
+            let finished = Self.finishesAutomatically(transaction)
+            if finished {
+                await transaction.finish()
+            }
 
-            return PurchaseResult(
-                transactionId: String(transaction.id),
-                productId: product.id
-            )
+            return PurchaseResult(transaction: TransactionUpdate(
+                transaction,
+                jwsRepresentation: verificationResult.jwsRepresentation,
+                finished: finished
+            ))
 
         case .userCancelled:
             throw IAPError.purchaseCancelled
@@ -373,6 +462,131 @@ public actor StoreKitManager {
         return checkVerification(verificationResult)
     }
 
+    // MARK: - Subscription Status
+
+    /// Gets the statuses of the subscription group a product belongs to.
+    ///
+    /// - Parameter productId: The identifier of any subscription in the group.
+    /// - Returns: One status per subscription the user holds in the group,
+    ///   or none if the product is not a subscription or was never bought.
+    /// - Throws: `IAPError.productNotFound` if the product does not exist.
+    public func subscriptionStatuses(productId: String) async throws -> [SubscriptionStatusInfo] {
+        let product = try await loadProduct(id: productId)
+        guard let subscription = product.subscription else {
+            return []
+        }
+
+        let statuses: [Product.SubscriptionInfo.Status]
+        do {
+            statuses = try await subscription.status
+        } catch {
+            throw IAPError.unknown(error.localizedDescription)
+        }
+
+        return statuses.compactMap { status in
+            guard let transaction = checkVerification(status.transaction),
+                  let renewalInfo = checkVerification(status.renewalInfo)
+            else {
+                return nil
+            }
+
+            return SubscriptionStatusInfo(
+                productId: transaction.productID,
+                state: Self.renewalStateName(status.state),
+                willAutoRenew: renewalInfo.willAutoRenew,
+                autoRenewProductId: renewalInfo.autoRenewPreference,
+                expirationDate: transaction.expirationDate?.timeIntervalSince1970,
+                gracePeriodExpirationDate: renewalInfo.gracePeriodExpirationDate?.timeIntervalSince1970,
+                isInBillingRetry: renewalInfo.isInBillingRetry,
+                expirationReason: renewalInfo.expirationReason.map(Self.expirationReasonName),
+                transaction: TransactionUpdate(transaction, jwsRepresentation: status.transaction.jwsRepresentation),
+                renewalInfoJWS: status.renewalInfo.jwsRepresentation
+            )
+        }
+    }
+
+    /// Converts a renewal state to the name sent to JavaScript.
+    private static func renewalStateName(_ state: Product.SubscriptionInfo.RenewalState) -> String {
+        switch state {
+        case .subscribed:
+            "subscribed"
+        case .expired:
+            "expired"
+        case .inBillingRetryPeriod:
+            "inBillingRetryPeriod"
+        case .inGracePeriod:
+            "inGracePeriod"
+        case .revoked:
+            "revoked"
+        default:
+            "unknown"
+        }
+    }
+
+    /// Converts an expiration reason to the name sent to JavaScript.
+    private static func expirationReasonName(
+        _ reason: Product.SubscriptionInfo.RenewalInfo.ExpirationReason
+    ) -> String {
+        switch reason {
+        case .autoRenewDisabled:
+            "autoRenewDisabled"
+        case .billingError:
+            "billingError"
+        case .didNotConsentToPriceIncrease:
+            "didNotConsentToPriceIncrease"
+        case .productUnavailable:
+            "productUnavailable"
+        default:
+            "unknown"
+        }
+    }
+
+    // MARK: - Finishing Transactions
+
+    /// Gets the verified transactions that have not been finished.
+    ///
+    /// These are consumables awaiting `finish(transactionId:)`, plus any
+    /// transaction the app quit before finishing.
+    ///
+    /// - Returns: The unfinished transactions.
+    public func unfinishedTransactions() async -> [TransactionUpdate] {
+        var transactions: [TransactionUpdate] = []
+
+        for await verificationResult in Transaction.unfinished {
+            guard let transaction = checkVerification(verificationResult) else {
+                continue
+            }
+            transactions.append(TransactionUpdate(
+                transaction,
+                jwsRepresentation: verificationResult.jwsRepresentation,
+                finished: false
+            ))
+        }
+
+        return transactions
+    }
+
+    /// Finishes a transaction once its content has been delivered.
+    ///
+    /// StoreKit stops delivering the transaction, and a consumable can be
+    /// bought again.
+    ///
+    /// - Parameter transactionId: The transaction identifier.
+    /// - Returns: `false` if no unfinished transaction has the identifier,
+    ///   such as when it was already finished.
+    @discardableResult
+    public func finish(transactionId: String) async -> Bool {
+        for await verificationResult in Transaction.unfinished {
+            // Unverified transactions are finished too, so they stop being delivered
+            let transaction = verificationResult.unsafePayloadValue
+            if String(transaction.id) == transactionId {
+                await transaction.finish()
+                return true
+            }
+        }
+        return false
+    }
+
     // MARK: - App Store Availability
 
     /// Checks if the user can make purchases.
@@ -403,12 +617,18 @@ public protocol StoreKitManagerDelegate: AnyObject, Sendable {
     /// - Subscription renewals
     /// - Family sharing changes
     /// - Ask-to-buy approvals
+    /// - Offer code redemptions
     /// - Refunds
     ///
     /// - Parameters:
     ///   - manager: The StoreKit manager.
     ///   - transaction: The updated transaction.
-    func storeKitManager(_ manager: StoreKitManager, didUpdateTransaction transaction: Transaction)
+    ///   - jwsRepresentation: The signed transaction, for validation on a server.
+    func storeKitManager(
+        _ manager: StoreKitManager,
+        didUpdateTransaction transaction: Transaction,
+        jwsRepresentation: String
+    )
 
     /// Called when a transaction fails verification.
     ///
@@ -423,8 +643,102 @@ public protocol StoreKitManagerDelegate: AnyObject, Sendable {
 @available(iOS 15.0, macOS 12.0, tvOS 15.0, watchOS 8.0, *)
 extension StoreKitManagerDelegate {
     /// Default implementation does nothing.
-    public func storeKitManager(_: StoreKitManager, didUpdateTransaction _: Transaction) {}
+    public func storeKitManager(_: StoreKitManager, didUpdateTransaction _: Transaction, jwsRepresentation _: String) {}
 
     /// Default implementation does nothing.
     public func storeKitManager(_: StoreKitManager, didFailVerificationFor _: VerificationResult<Transaction>) {}
 }
+
+// MARK: - TransactionUpdate + Transaction
+
+@available(iOS 15.0, macOS 12.0, tvOS 15.0, watchOS 8.0, *)
+extension TransactionUpdate {
+    /// Creates a transaction update from a verified StoreKit transaction.
+    ///
+    /// - Parameters:
+    ///   - transaction: The verified transaction.
+    ///   - jwsRepresentation: The signed transaction, if available.
+    ///   - finished: Whether the transaction has been finished. Defaults to
+    ///     whether `StoreKitManager` finishes it automatically.
+    public init(_ transaction: Transaction, jwsRepresentation: String? = nil, finished: Bool? = nil) {
+        self.init(
+            transactionId: String(transaction.id),
+            originalTransactionId: String(transaction.originalID),
+            productId: transaction.productID,
+            purchaseDate: transaction.purchaseDate.timeIntervalSince1970,
+            expirationDate: transaction.expirationDate?.timeIntervalSince1970,
+            revocationDate: transaction.revocationDate?.timeIntervalSince1970,
+            isUpgraded: transaction.isUpgraded,
+            appAccountToken: transaction.appAccountToken?.uuidString,
+            offerType: Self.offerTypeName(transaction.offerType),
+            offerId: transaction.offerID,
+            jwsRepresentation: jwsRepresentation,
+            finished: finished ?? StoreKitManager.finishesAutomatically(transaction)
+        )
+    }
+
+    /// Converts an offer type to the name sent to JavaScript.
+    private static func offerTypeName(_ type: Transaction.OfferType?) -> String? {
+        switch type {
+        case .introductory?:
+            "introductory"
+        case .promotional?:
+            "promotional"
+        case .code?:
+            "code"
+        default:
+            nil
+        }
+    }
+}
+
+// MARK: - SubscriptionPeriod + Product.SubscriptionPeriod
+
+@available(iOS 15.0, macOS 12.0, tvOS 15.0, watchOS 8.0, *)
+extension SubscriptionPeriod {
+    /// Creates a subscription period from a StoreKit period.
+    ///
+    /// - Parameter period: The StoreKit period.
+    public init(_ period: Product.SubscriptionPeriod) {
+        let unit = switch period.unit {
+        case .day:
+            "day"
+        case .week:
+            "week"
+        case .month:
+            "month"
+        case .year:
+            "year"
+        @unknown default:
+            "day"
+        }
+        self.init(unit: unit, value: period.value)
+    }
+}
+
+// MARK: - SubscriptionOffer + Product.SubscriptionOffer
+
+@available(iOS 15.0, macOS 12.0, tvOS 15.0, watchOS 8.0, *)
+extension SubscriptionOffer {
+    /// Creates a subscription offer from a StoreKit offer.
+    ///
+    /// - Parameter offer: The StoreKit offer.
+    public init(_ offer: Product.SubscriptionOffer) {
+        let paymentMode = switch offer.paymentMode {
+        case .freeTrial:
+            "freeTrial"
+        case .payUpFront:
+            "payUpFront"
+        default:
+            "payAsYouGo"
+        }
+        self.init(
+            id: offer.id,
+            type: offer.type == .introductory ? "introductory" : "promotional",
+            displayPrice: offer.displayPrice,
+            paymentMode: paymentMode,
+            period: SubscriptionPeriod(offer.period),
+            periodCount: offer.periodCount
+        )
+    }
+}
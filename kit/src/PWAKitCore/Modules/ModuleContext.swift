@@ -77,6 +77,11 @@ public struct ModuleContext: Sendable {
     /// without additional async calls.
     public let configuration: PWAConfiguration
 
+    /// Stream for sending partial responses, if the request is streaming.
+    ///
+    /// `nil` unless JavaScript sent the request with `bridge.stream()`.
+    public let stream: BridgeStream?
+
     /// Creates a new module context.
     ///
     /// - Parameters:
@@ -88,15 +93,18 @@ public struct ModuleContext: Sendable {
     ///                     ensuring this is actually a `UIViewController`.
     ///   - configuration: The app configuration. Defaults to a minimal default
     ///                    configuration for testing purposes.
+    ///   - stream: Stream for partial responses, for streaming requests.
     @MainActor
     public init(
         webView: AnyObject? = nil,
         viewController: AnyObject? = nil,
-        configuration: PWAConfiguration = .default
+        configuration: PWAConfiguration = .default,
+        stream: BridgeStream? = nil
     ) {
         self._webView = WeakReference(webView)
         self._viewController = WeakReference(viewController)
         self.configuration = configuration
+        self.stream = stream
     }
 
     /// The WKWebView for JavaScript evaluation, if available.
@@ -40,6 +40,9 @@ import Foundation
 /// - `HealthKitModule`: Registered when `features.healthkit` is enabled
 /// - `CameraPermissionModule`: Registered when `features.cameraPermission` is enabled
 /// - `LocationPermissionModule`: Registered when `features.locationPermission` is enabled
+///
+/// Modules left out by the feature flags are recorded as disabled, so calls
+/// to them fail with an `E_FEATURE_DISABLED` code rather than `E_UNKNOWN_MODULE`.
 public enum ModuleRegistration {
     /// Registers all default modules with the given dispatcher.
     ///
@@ -162,6 +165,8 @@ public enum ModuleRegistration {
             count += 1
         }
 
+        await dispatcher.markDisabled(disabledModuleNames(for: features))
+
         return count
     }
 
@@ -282,6 +287,8 @@ public enum ModuleRegistration {
             count += 1
         }
 
+        await registry.markDisabled(disabledModuleNames(for: features))
+
         return count
     }
 
@@ -374,4 +381,15 @@ public enum ModuleRegistration {
 
         return names
     }
+
+    /// Returns the built-in module names that the given features disable.
+    ///
+    /// Calls to these modules fail with `BridgeError.featureDisabled`.
+    ///
+    /// - Parameter features: The features configuration to check against.
+    /// - Returns: The names of the disabled modules.
+    public static func disabledModuleNames(for features: FeaturesConfiguration) -> Set<String> {
+        let allFeatures = FeaturesConfiguration(healthkit: true, iap: true)
+        return Set(moduleNames(for: allFeatures)).subtracting(moduleNames(for: features))
+    }
 }
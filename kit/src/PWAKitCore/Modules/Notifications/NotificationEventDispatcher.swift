@@ -19,10 +19,12 @@ public protocol WebViewProvider: AnyObject, Sendable {
 /// Dispatches notification events to the JavaScript layer.
 ///
 /// `NotificationEventDispatcher` handles incoming push notifications and dispatches
-/// them to the web application as custom events. It supports two types of events:
+/// them to the web application as custom events. It supports three types of events:
 ///
 /// - **Foreground notifications**: When a notification arrives while the app is active
 /// - **Tapped notifications**: When the user taps on a notification
+/// - **Notification actions**: When the user chooses one of a category's actions,
+///   dispatched as a `notificationAction` event instead of `push`
 ///
 /// ## Event Format
 ///
@@ -199,6 +201,9 @@ public final class NotificationEventDispatcher {
     /// which allows it to be called safely across actor boundaries (UNNotificationResponse
     /// is not Sendable).
     ///
+    /// Responses to a category action are dispatched as an `action` event, carrying
+    /// the action identifier and any text the user entered.
+    ///
     /// - Parameters:
     ///   - title: The notification title.
     ///   - body: The notification body.
@@ -207,14 +212,18 @@ public final class NotificationEventDispatcher {
     ///   - badge: The badge number, if any.
     ///   - identifier: The notification request identifier.
     ///   - actionIdentifier: The action identifier from the user's response.
+    ///   - categoryIdentifier: The notification's category identifier.
+    ///   - userText: The text entered for a text input action.
     public func dispatchTappedNotificationData(
         title: String,
         body: String,
         subtitle: String,
         userInfo: [AnyHashable: Any],
         badge: NSNumber?,
-        identifier _: String,
-        actionIdentifier _: String
+        identifier: String,
+        actionIdentifier: String,
+        categoryIdentifier: String = "",
+        userText: String? = nil
     ) async {
         let payload = createPayloadFromData(
             title: title,
@@ -224,8 +233,25 @@ public final class NotificationEventDispatcher {
             badge: badge,
             eventType: .tapped
         )
-        // Note: actionIdentifier could be added to the payload if needed
-        await dispatchEvent(payload: payload)
+
+        guard actionIdentifier != UNNotificationDefaultActionIdentifier else {
+            await dispatchEvent(payload: payload)
+            return
+        }
+
+        await dispatchEvent(payload: NotificationPayload(
+            type: .action,
+            title: payload.title,
+            body: payload.body,
+            subtitle: payload.subtitle,
+            userInfo: payload.userInfo,
+            badge: payload.badge,
+            timestamp: payload.timestamp,
+            notificationId: identifier,
+            categoryId: categoryIdentifier.isEmpty ? nil : categoryIdentifier,
+            actionId: actionIdentifier,
+            userText: userText
+        ))
     }
 
     // MARK: - Private Methods
@@ -361,7 +387,8 @@ public final class NotificationEventDispatcher {
         let eventData = encodePayload(payload)
 
         // Create the JavaScript event
-        let jsCode = JavaScriptBridge.formatEvent(type: "push", data: eventData)
+        let eventType = payload.type == .action ? "notificationAction" : "push"
+        let jsCode = JavaScriptBridge.formatEvent(type: eventType, data: eventData)
 
         // Execute the JavaScript
         do {
@@ -382,10 +409,30 @@ public final class NotificationEventDispatcher {
     /// - Returns: An AnyCodable representation of the payload.
     private func encodePayload(_ payload: NotificationPayload) -> AnyCodable {
         var dict: [String: AnyCodable] = [
-            "type": AnyCodable(payload.type.rawValue),
             "timestamp": AnyCodable(payload.timestamp),
         ]
 
+        // Action events are told apart by their event type instead
+        if payload.type != .action {
+            dict["type"] = AnyCodable(payload.type.rawValue)
+        }
+
+        if let notificationId = payload.notificationId {
+            dict["notificationId"] = AnyCodable(notificationId)
+        }
+
+        if let categoryId = payload.categoryId {
+            dict["categoryId"] = AnyCodable(categoryId)
+        }
+
+        if let actionId = payload.actionId {
+            dict["actionId"] = AnyCodable(actionId)
+        }
+
+        if let userText = payload.userText {
+            dict["userText"] = AnyCodable(userText)
+        }
+
         if let title = payload.title {
             dict["title"] = AnyCodable(title)
         }
@@ -1,4 +1,5 @@
 import Foundation
+import UIKit
 
 // MARK: - NotificationPermissionState
 
@@ -56,6 +57,7 @@ public enum NotificationPermissionState: String, Codable, Sendable, Equatable, C
 /// {
 ///   "success": false,
 ///   "error": "User denied notification permission",
+///   "code": "E_PERMISSION_DENIED",
 ///   "permissionState": "denied"
 /// }
 /// ```
@@ -72,6 +74,9 @@ public struct NotificationSubscription: Codable, Sendable, Equatable {
     /// Error message if the subscription failed.
     public let error: String?
 
+    /// Stable error code if the subscription failed.
+    public let code: BridgeErrorCode?
+
     /// Creates a successful subscription result.
     ///
     /// - Parameters:
@@ -82,6 +87,7 @@ public struct NotificationSubscription: Codable, Sendable, Equatable {
         self.token = token
         self.permissionState = permissionState
         self.error = nil
+        self.code = nil
     }
 
     /// Creates a failed subscription result.
@@ -89,11 +95,17 @@ public struct NotificationSubscription: Codable, Sendable, Equatable {
     /// - Parameters:
     ///   - error: A description of why the subscription failed.
     ///   - permissionState: The current permission state.
-    public init(error: String, permissionState: NotificationPermissionState) {
+    ///   - code: The stable error code. Defaults to `.unknown`.
+    public init(
+        error: String,
+        permissionState: NotificationPermissionState,
+        code: BridgeErrorCode = .unknown
+    ) {
         self.success = false
         self.token = nil
         self.permissionState = permissionState
         self.error = error
+        self.code = code
     }
 
     /// Creates a subscription result with all fields.
@@ -105,16 +117,146 @@ public struct NotificationSubscription: Codable, Sendable, Equatable {
     ///   - token: The APNs device token, if available.
     ///   - permissionState: The current permission state.
     ///   - error: Error message, if any.
+    ///   - code: Stable error code, if any.
     public init(
         success: Bool,
         token: String?,
         permissionState: NotificationPermissionState,
-        error: String?
+        error: String?,
+        code: BridgeErrorCode? = nil
     ) {
         self.success = success
         self.token = token
         self.permissionState = permissionState
         self.error = error
+        self.code = code
+    }
+}
+
+// MARK: - APNsEnvironment
+
+/// The APNs environment the app's device tokens belong to.
+///
+/// A token from one environment is rejected by the other, so servers need
+/// to know which one to send to.
+public enum APNsEnvironment: String, Codable, Sendable, Equatable, CaseIterable {
+    /// The development environment (`api.sandbox.push.apple.com`).
+    case sandbox
+
+    /// The production environment (`api.push.apple.com`).
+    case production
+
+    /// The environment of the running app.
+    ///
+    /// Read from the `aps-environment` entitlement in the embedded provisioning
+    /// profile. App Store builds have no embedded profile and use production;
+    /// debug builds without one (such as on the Simulator) use the sandbox.
+    ///
+    /// - Parameter bundle: The app bundle. Defaults to the main bundle.
+    /// - Returns: The APNs environment.
+    public static func current(bundle: Bundle = .main) -> APNsEnvironment {
+        guard let url = bundle.url(forResource: "embedded", withExtension: "mobileprovision"),
+              let data = try? Data(contentsOf: url),
+              let environment = fromProvisioningProfile(data) else
+        {
+            #if DEBUG
+                return .sandbox
+            #else
+                return .production
+            #endif
+        }
+        return environment
+    }
+
+    /// Reads the environment from a provisioning profile's entitlements.
+    ///
+    /// The profile is a signed container whose property list is stored as
+    /// plain text, so the list is cut out without verifying the signature.
+    ///
+    /// - Parameter data: The contents of an `embedded.mobileprovision` file.
+    /// - Returns: The environment, or nil if the profile has no `aps-environment`.
+    static func fromProvisioningProfile(_ data: Data) -> APNsEnvironment? {
+        let contents = String(decoding: data, as: UTF8.self)
+        guard let start = contents.range(of: "<?xml"),
+              let end = contents.range(of: "</plist>", range: start.lowerBound ..< contents.endIndex),
+              let plist = try? PropertyListSerialization.propertyList(
+                  from: Data(contents[start.lowerBound ..< end.upperBound].utf8),
+                  format: nil
+              ) as? [String: Any],
+              let entitlements = plist["Entitlements"] as? [String: Any],
+              let value = entitlements["aps-environment"] as? String else
+        {
+            return nil
+        }
+        return value == "production" ? .production : .sandbox
+    }
+}
+
+// MARK: - PushRegistrationInfo
+
+/// Details a server needs alongside the device token to send pushes.
+///
+/// Included in `subscribe` and `getToken` results and in
+/// `pushsubscriptionchange` events.
+public struct PushRegistrationInfo: Sendable, Equatable {
+    /// The APNs environment of the device token.
+    public let environment: APNsEnvironment
+
+    /// The app's bundle identifier, used as the APNs topic.
+    public let bundleId: String?
+
+    /// The identifier for vendor, shared by the vendor's apps on the device.
+    public let deviceId: String?
+
+    /// An identifier created on first use, kept until the app is deleted.
+    public let installationId: String
+
+    /// Creates registration info.
+    ///
+    /// - Parameters:
+    ///   - environment: The APNs environment.
+    ///   - bundleId: The app's bundle identifier.
+    ///   - deviceId: The identifier for vendor.
+    ///   - installationId: The installation identifier.
+    public init(
+        environment: APNsEnvironment,
+        bundleId: String?,
+        deviceId: String?,
+        installationId: String
+    ) {
+        self.environment = environment
+        self.bundleId = bundleId
+        self.deviceId = deviceId
+        self.installationId = installationId
+    }
+
+    /// The registration info of the running app.
+    ///
+    /// - Parameter storage: The storage holding the installation identifier.
+    /// - Returns: The registration info.
+    @MainActor
+    public static func current(storage: TokenStorage) -> PushRegistrationInfo {
+        PushRegistrationInfo(
+            environment: .current(),
+            bundleId: Bundle.main.bundleIdentifier,
+            deviceId: UIDevice.current.identifierForVendor?.uuidString,
+            installationId: storage.getInstallationId()
+        )
+    }
+
+    /// The info as bridge fields, leaving out unknown values.
+    public var fields: [String: AnyCodable] {
+        var result: [String: AnyCodable] = [
+            "environment": AnyCodable(environment.rawValue),
+            "installationId": AnyCodable(installationId),
+        ]
+        if let bundleId {
+            result["bundleId"] = AnyCodable(bundleId)
+        }
+        if let deviceId {
+            result["deviceId"] = AnyCodable(deviceId)
+        }
+        return result
     }
 }
 
@@ -153,6 +295,11 @@ public struct NotificationPayload: Codable, Sendable, Equatable {
 
         /// User tapped on the notification.
         case tapped
+
+        /// User chose one of the notification's category actions.
+        ///
+        /// Dispatched as a `notificationAction` event rather than `push`.
+        case action
     }
 
     /// The type of notification event.
@@ -182,6 +329,18 @@ public struct NotificationPayload: Codable, Sendable, Equatable {
     /// The timestamp when the notification was received.
     public let timestamp: Double
 
+    /// The notification request identifier, set for `action` events.
+    public let notificationId: String?
+
+    /// The notification's category identifier, set for `action` events.
+    public let categoryId: String?
+
+    /// The identifier of the action the user chose, set for `action` events.
+    public let actionId: String?
+
+    /// The text the user entered, set for text input actions.
+    public let userText: String?
+
     /// Creates a new notification payload.
     ///
     /// - Parameters:
@@ -193,6 +352,10 @@ public struct NotificationPayload: Codable, Sendable, Equatable {
     ///   - badge: The badge count to display.
     ///   - sound: The sound to play.
     ///   - timestamp: The timestamp when received (defaults to current time).
+    ///   - notificationId: The notification request identifier.
+    ///   - categoryId: The notification's category identifier.
+    ///   - actionId: The identifier of the chosen action.
+    ///   - userText: The text entered for a text input action.
     public init(
         type: EventType,
         title: String? = nil,
@@ -201,7 +364,11 @@ public struct NotificationPayload: Codable, Sendable, Equatable {
         userInfo: [String: AnyCodable]? = nil,
         badge: Int? = nil,
         sound: String? = nil,
-        timestamp: Double = Date().timeIntervalSince1970
+        timestamp: Double = Date().timeIntervalSince1970,
+        notificationId: String? = nil,
+        categoryId: String? = nil,
+        actionId: String? = nil,
+        userText: String? = nil
     ) {
         self.type = type
         self.title = title
@@ -211,6 +378,10 @@ public struct NotificationPayload: Codable, Sendable, Equatable {
         self.badge = badge
         self.sound = sound
         self.timestamp = timestamp
+        self.notificationId = notificationId
+        self.categoryId = categoryId
+        self.actionId = actionId
+        self.userText = userText
     }
 }
 
@@ -413,6 +584,10 @@ public enum NotificationTrigger: Codable, Sendable, Equatable {
 ///   "body": "Don't forget your daily check-in!",
 ///   "badge": 1,
 ///   "sound": "default",
+///   "categoryId": "reminder",
+///   "threadId": "daily",
+///   "interruptionLevel": "timeSensitive",
+///   "attachments": [{ "url": "https://example.com/cover.jpg" }],
 ///   "trigger": { "type": "timeInterval", "seconds": 3600 }
 /// }
 /// ```
@@ -441,6 +616,18 @@ public struct ScheduleNotificationRequest: Codable, Sendable, Equatable {
     /// When to trigger the notification.
     public let trigger: NotificationTrigger
 
+    /// The identifier of a registered category whose actions to show.
+    public let categoryId: String?
+
+    /// The identifier used to group the notification with related ones.
+    public let threadId: String?
+
+    /// How urgently the notification is delivered.
+    public let interruptionLevel: NotificationInterruptionLevel?
+
+    /// Images, audio or video to show with the notification.
+    public let attachments: [NotificationAttachmentRequest]?
+
     /// Creates a schedule notification request.
     public init(
         id: String,
@@ -450,7 +637,11 @@ public struct ScheduleNotificationRequest: Codable, Sendable, Equatable {
         badge: Int? = nil,
         sound: String? = nil,
         data: [String: AnyCodable]? = nil,
-        trigger: NotificationTrigger
+        trigger: NotificationTrigger,
+        categoryId: String? = nil,
+        threadId: String? = nil,
+        interruptionLevel: NotificationInterruptionLevel? = nil,
+        attachments: [NotificationAttachmentRequest]? = nil
     ) {
         self.id = id
         self.title = title
@@ -460,6 +651,142 @@ public struct ScheduleNotificationRequest: Codable, Sendable, Equatable {
         self.sound = sound
         self.data = data
         self.trigger = trigger
+        self.categoryId = categoryId
+        self.threadId = threadId
+        self.interruptionLevel = interruptionLevel
+        self.attachments = attachments
+    }
+}
+
+// MARK: - NotificationInterruptionLevel
+
+/// How urgently a local notification is delivered.
+///
+/// `timeSensitive` breaks through Focus and scheduled summaries, and
+/// requires the Time Sensitive Notifications capability.
+public enum NotificationInterruptionLevel: String, Codable, Sendable, Equatable, CaseIterable {
+    /// Delivered quietly, without lighting up the screen or playing a sound.
+    case passive
+
+    /// Delivered immediately, the default.
+    case active
+
+    /// Delivered immediately, even during a Focus.
+    case timeSensitive
+}
+
+// MARK: - NotificationAttachmentRequest
+
+/// An image, audio or video file to attach to a local notification.
+///
+/// Remote files are downloaded when the notification is scheduled. The file
+/// type is taken from the URL's extension, or the response's file name.
+///
+/// ## Example
+///
+/// ```json
+/// { "id": "cover", "url": "https://example.com/cover.jpg" }
+/// ```
+public struct NotificationAttachmentRequest: Codable, Sendable, Equatable {
+    /// The attachment identifier. Defaults to a generated one.
+    public let id: String?
+
+    /// The `https`, `http` or `file` URL of the file.
+    public let url: URL
+
+    /// Creates a notification attachment request.
+    public init(id: String? = nil, url: URL) {
+        self.id = id
+        self.url = url
+    }
+}
+
+// MARK: - NotificationCategory
+
+/// A type of notification with action buttons.
+///
+/// Local notifications opt in by scheduling with the category's `id`, and
+/// remote notifications with `aps.category`.
+///
+/// ## Example
+///
+/// ```json
+/// {
+///   "id": "reminder",
+///   "actions": [
+///     { "id": "snooze", "title": "Snooze" },
+///     { "id": "done", "title": "Done", "destructive": true }
+///   ]
+/// }
+/// ```
+public struct NotificationCategory: Codable, Sendable, Equatable {
+    /// The category identifier.
+    public let id: String
+
+    /// The actions to show, in order.
+    public let actions: [NotificationCategoryAction]
+
+    /// Creates a notification category.
+    public init(id: String, actions: [NotificationCategoryAction]) {
+        self.id = id
+        self.actions = actions
+    }
+}
+
+// MARK: - NotificationCategoryAction
+
+/// An action button shown with notifications of a category.
+///
+/// Actions with `textInput` let the user type a reply, which is delivered
+/// as the `userText` of the `notificationAction` event.
+public struct NotificationCategoryAction: Codable, Sendable, Equatable {
+    /// Placeholder and button title for a text input action.
+    public struct TextInput: Codable, Sendable, Equatable {
+        /// The title of the send button.
+        public let buttonTitle: String
+
+        /// The placeholder shown in the text field.
+        public let placeholder: String
+
+        public init(buttonTitle: String = "Send", placeholder: String = "") {
+            self.buttonTitle = buttonTitle
+            self.placeholder = placeholder
+        }
+    }
+
+    /// The action identifier reported when the user chooses it.
+    public let id: String
+
+    /// The button title.
+    public let title: String
+
+    /// Whether the action is shown as destructive.
+    public let destructive: Bool
+
+    /// Whether choosing the action opens the app.
+    public let foreground: Bool
+
+    /// Whether the device must be unlocked to choose the action.
+    public let authenticationRequired: Bool
+
+    /// The text field to show, for actions that take a reply.
+    public let textInput: TextInput?
+
+    /// Creates a notification category action.
+    public init(
+        id: String,
+        title: String,
+        destructive: Bool = false,
+        foreground: Bool = false,
+        authenticationRequired: Bool = false,
+        textInput: TextInput? = nil
+    ) {
+        self.id = id
+        self.title = title
+        self.destructive = destructive
+        self.foreground = foreground
+        self.authenticationRequired = authenticationRequired
+        self.textInput = textInput
     }
 }
 
@@ -506,6 +833,12 @@ public struct PendingNotificationInfo: Codable, Sendable, Equatable {
     /// The next trigger date, if determinable.
     public let nextTriggerDate: String?
 
+    /// The notification's category identifier.
+    public let categoryId: String?
+
+    /// The notification's thread identifier.
+    public let threadId: String?
+
     /// Creates pending notification info.
     public init(
         id: String,
@@ -513,7 +846,9 @@ public struct PendingNotificationInfo: Codable, Sendable, Equatable {
         body: String? = nil,
         subtitle: String? = nil,
         repeats: Bool = false,
-        nextTriggerDate: String? = nil
+        nextTriggerDate: String? = nil,
+        categoryId: String? = nil,
+        threadId: String? = nil
     ) {
         self.id = id
         self.title = title
@@ -521,5 +856,59 @@ public struct PendingNotificationInfo: Codable, Sendable, Equatable {
         self.subtitle = subtitle
         self.repeats = repeats
         self.nextTriggerDate = nextTriggerDate
+        self.categoryId = categoryId
+        self.threadId = threadId
+    }
+}
+
+// MARK: - DeliveredNotificationInfo
+
+/// Information about a notification shown in Notification Center.
+///
+/// Returned when listing delivered notifications.
+public struct DeliveredNotificationInfo: Codable, Sendable, Equatable {
+    /// The notification identifier.
+    public let id: String
+
+    /// The notification title.
+    public let title: String
+
+    /// The notification body.
+    public let body: String?
+
+    /// The notification subtitle.
+    public let subtitle: String?
+
+    /// The notification's category identifier.
+    public let categoryId: String?
+
+    /// The notification's thread identifier.
+    public let threadId: String?
+
+    /// Custom data included with the notification.
+    public let data: [String: AnyCodable]?
+
+    /// When the notification was delivered (ISO 8601).
+    public let date: String
+
+    /// Creates delivered notification info.
+    public init(
+        id: String,
+        title: String,
+        body: String? = nil,
+        subtitle: String? = nil,
+        categoryId: String? = nil,
+        threadId: String? = nil,
+        data: [String: AnyCodable]? = nil,
+        date: String
+    ) {
+        self.id = id
+        self.title = title
+        self.body = body
+        self.subtitle = subtitle
+        self.categoryId = categoryId
+        self.threadId = threadId
+        self.data = data
+        self.date = date
     }
 }
@@ -15,6 +15,10 @@ import UserNotifications
 /// - `getToken`: Retrieve the stored device token.
 /// - `getPermissionState`: Query the current notification permission state.
 /// - `setBadge`: Set the app icon badge count.
+/// - `setCategories`: Register notification categories and their actions.
+/// - `updatePending`: Change a pending local notification.
+/// - `getDelivered`: List notifications shown in Notification Center.
+/// - `removeDelivered`: Remove notifications from Notification Center.
 ///
 /// ## Example
 ///
@@ -79,11 +83,18 @@ public struct NotificationsModule: PWAModule {
         "cancel",
         "cancelAll",
         "getPending",
+        "updatePending",
+        "setCategories",
+        "getDelivered",
+        "removeDelivered",
     ]
 
     /// The UserDefaults key used for storing the device token.
     public static let deviceTokenKey = "PWAKit.deviceToken"
 
+    /// The UserDefaults key used for storing the installation identifier.
+    public static let installationIdKey = "PWAKit.installationId"
+
     /// Storage provider for the device token.
     private let storage: TokenStorage
 
@@ -119,7 +130,7 @@ public struct NotificationsModule: PWAModule {
             return try await handleRequestPermission()
 
         case "getToken":
-            return handleGetToken()
+            return await handleGetToken()
 
         case "getPermissionState":
             return try await handleGetPermissionState()
@@ -139,6 +150,18 @@ public struct NotificationsModule: PWAModule {
         case "getPending":
             return try await handleGetPending()
 
+        case "updatePending":
+            return try await handleUpdatePending(payload: payload)
+
+        case "setCategories":
+            return try handleSetCategories(payload: payload)
+
+        case "getDelivered":
+            return await handleGetDelivered()
+
+        case "removeDelivered":
+            return try handleRemoveDelivered(payload: payload)
+
         default:
             throw BridgeError.unknownAction(action)
         }
@@ -151,7 +174,8 @@ public struct NotificationsModule: PWAModule {
     /// This method:
     /// 1. Requests notification permission from the user
     /// 2. If granted, triggers remote notification registration
-    /// 3. Returns the current permission state and any stored token
+    /// 3. Returns the current permission state and any stored token, with the
+    ///    details a server needs to send pushes (see `PushRegistrationInfo`)
     ///
     /// Note: The actual device token is received asynchronously via AppDelegate's
     /// `didRegisterForRemoteNotificationsWithDeviceToken` callback. This method
@@ -167,11 +191,12 @@ public struct NotificationsModule: PWAModule {
 
             // Get the current permission state
             let state = await getPermissionState()
+            let registration = await PushRegistrationInfo.current(storage: storage)
 
             // Return the stored token if available
             if let token = storage.getToken() {
                 let subscription = NotificationSubscription(token: token, permissionState: state)
-                return encodeSubscription(subscription)
+                return encodeSubscription(subscription, registration: registration)
             } else {
                 // Token not yet available, return success with pending state
                 let subscription = NotificationSubscription(
@@ -180,14 +205,15 @@ public struct NotificationsModule: PWAModule {
                     permissionState: state,
                     error: nil
                 )
-                return encodeSubscription(subscription)
+                return encodeSubscription(subscription, registration: registration)
             }
         } else {
             // Permission denied
             let state = await getPermissionState()
             let subscription = NotificationSubscription(
                 error: "User denied notification permission",
-                permissionState: state
+                permissionState: state,
+                code: .permissionDenied
             )
             return encodeSubscription(subscription)
         }
@@ -221,13 +247,15 @@ public struct NotificationsModule: PWAModule {
 
     /// Handles the `getToken` action to retrieve the stored device token.
     ///
-    /// - Returns: The stored device token, or null if not available.
-    private func handleGetToken() -> AnyCodable {
-        if let token = storage.getToken() {
-            AnyCodable(["token": AnyCodable(token)])
-        } else {
-            AnyCodable(["token": AnyCodable.null])
+    /// - Returns: The stored device token with its registration info, or a null
+    ///   token if not available.
+    private func handleGetToken() async -> AnyCodable {
+        guard let token = storage.getToken() else {
+            return AnyCodable(["token": AnyCodable.null])
         }
+        var result = await PushRegistrationInfo.current(storage: storage).fields
+        result["token"] = AnyCodable(token)
+        return AnyCodable(result)
     }
 
     // MARK: - Get Permission State
@@ -334,6 +362,18 @@ public struct NotificationsModule: PWAModule {
         if let data = request.data {
             content.userInfo = data.mapValues { $0.value as Any }
         }
+        if let categoryId = request.categoryId {
+            content.categoryIdentifier = categoryId
+        }
+        if let threadId = request.threadId {
+            content.threadIdentifier = threadId
+        }
+        if let interruptionLevel = request.interruptionLevel {
+            content.interruptionLevel = unInterruptionLevel(interruptionLevel)
+        }
+        if let attachments = request.attachments {
+            content.attachments = try await createAttachments(from: attachments)
+        }
 
         // Create the trigger
         let trigger = try createTrigger(from: request.trigger)
@@ -363,6 +403,8 @@ public struct NotificationsModule: PWAModule {
         }
 
         let trigger = try decodeTrigger(from: triggerDict)
+        let interruptionLevel = try decodeInterruptionLevel(dict["interruptionLevel"])
+        let attachments = try decodeAttachments(dict["attachments"])
 
         return ScheduleNotificationRequest(
             id: id,
@@ -372,10 +414,46 @@ public struct NotificationsModule: PWAModule {
             badge: dict["badge"]?.intValue,
             sound: dict["sound"]?.stringValue,
             data: dict["data"]?.dictionaryValue,
-            trigger: trigger
+            trigger: trigger,
+            categoryId: dict["categoryId"]?.stringValue,
+            threadId: dict["threadId"]?.stringValue,
+            interruptionLevel: interruptionLevel,
+            attachments: attachments
         )
     }
 
+    /// Decodes an optional interruption level.
+    private func decodeInterruptionLevel(_ value: AnyCodable?) throws -> NotificationInterruptionLevel? {
+        guard let value, !value.isNull else {
+            return nil
+        }
+        guard let level = value.stringValue.flatMap(NotificationInterruptionLevel.init(rawValue:)) else {
+            throw BridgeError.invalidPayload("Invalid 'interruptionLevel' field")
+        }
+        return level
+    }
+
+    /// Decodes an optional array of attachments.
+    private func decodeAttachments(_ value: AnyCodable?) throws -> [NotificationAttachmentRequest] {
+        guard let value, !value.isNull else {
+            return []
+        }
+        guard let items = value.arrayValue else {
+            throw BridgeError.invalidPayload("'attachments' must be an array")
+        }
+
+        return try items.map { item in
+            guard let urlString = item["url"]?.stringValue,
+                  let url = URL(string: urlString),
+                  let scheme = url.scheme?.lowercased(),
+                  ["https", "http", "file"].contains(scheme) else
+            {
+                throw BridgeError.invalidPayload("Attachment 'url' must be an https, http or file URL")
+            }
+            return NotificationAttachmentRequest(id: item["id"]?.stringValue, url: url)
+        }
+    }
+
     /// Decodes a trigger from a dictionary.
     private func decodeTrigger(from dict: [String: AnyCodable]) throws -> NotificationTrigger {
         guard let type = dict["type"]?.stringValue else {
@@ -431,8 +509,12 @@ public struct NotificationsModule: PWAModule {
             throw BridgeError.invalidPayload("Notification title cannot be empty")
         }
 
-        // Validate trigger-specific constraints
-        switch request.trigger {
+        try validateTrigger(request.trigger)
+    }
+
+    /// Validates trigger-specific constraints.
+    private func validateTrigger(_ trigger: NotificationTrigger) throws {
+        switch trigger {
         case let .timeInterval(seconds, repeats):
             if seconds <= 0 {
                 throw BridgeError.invalidPayload("Time interval must be positive")
@@ -495,6 +577,50 @@ public struct NotificationsModule: PWAModule {
         }
     }
 
+    /// Maps an interruption level to its UserNotifications value.
+    private func unInterruptionLevel(_ level: NotificationInterruptionLevel) -> UNNotificationInterruptionLevel {
+        switch level {
+        case .passive:
+            .passive
+        case .active:
+            .active
+        case .timeSensitive:
+            .timeSensitive
+        }
+    }
+
+    /// Creates notification attachments, downloading remote files first.
+    ///
+    /// The system moves each file into its own store, so downloads are
+    /// written to a temporary file named with the original extension, from
+    /// which it infers the file type.
+    private func createAttachments(
+        from requests: [NotificationAttachmentRequest]
+    ) async throws -> [UNNotificationAttachment] {
+        var attachments: [UNNotificationAttachment] = []
+
+        for request in requests {
+            var fileURL = request.url
+            if !request.url.isFileURL {
+                let (downloadURL, response) = try await URLSession.shared.download(from: request.url)
+                let pathExtension = request.url.pathExtension.isEmpty
+                    ? URL(fileURLWithPath: response.suggestedFilename ?? "").pathExtension
+                    : request.url.pathExtension
+                fileURL = FileManager.default.temporaryDirectory
+                    .appendingPathComponent(UUID().uuidString)
+                    .appendingPathExtension(pathExtension)
+                try FileManager.default.moveItem(at: downloadURL, to: fileURL)
+            }
+
+            try attachments.append(UNNotificationAttachment(
+                identifier: request.id ?? UUID().uuidString,
+                url: fileURL
+            ))
+        }
+
+        return attachments
+    }
+
     // MARK: - Cancel
 
     /// Handles the `cancel` action to cancel a scheduled notification.
@@ -558,20 +684,240 @@ public struct NotificationsModule: PWAModule {
             }
             info["repeats"] = AnyCodable(repeats)
 
+            if !request.content.categoryIdentifier.isEmpty {
+                info["categoryId"] = AnyCodable(request.content.categoryIdentifier)
+            }
+            if !request.content.threadIdentifier.isEmpty {
+                info["threadId"] = AnyCodable(request.content.threadIdentifier)
+            }
+
             return info
         }
 
         return AnyCodable(["notifications": AnyCodable(notifications.map { AnyCodable($0) })])
     }
 
+    // MARK: - Update Pending
+
+    /// Handles the `updatePending` action to change a pending notification.
+    ///
+    /// Fields present in the patch replace those of the pending notification,
+    /// which is then scheduled again under the same identifier. The trigger is
+    /// kept unless the patch has one.
+    ///
+    /// - Parameter payload: Dictionary containing the `id` and a `patch`.
+    /// - Returns: Success result with the notification ID.
+    /// - Throws: `BridgeError.invalidPayload` if no pending notification has the ID
+    ///   or the patch is invalid.
+    private func handleUpdatePending(payload: AnyCodable?) async throws -> AnyCodable {
+        guard let id = payload?["id"]?.stringValue else {
+            throw BridgeError.invalidPayload("Missing 'id' field")
+        }
+        guard let patch = payload?["patch"]?.dictionaryValue else {
+            throw BridgeError.invalidPayload("Missing 'patch' field")
+        }
+
+        let requests = await notificationCenter.pendingNotificationRequests()
+        guard let existing = requests.first(where: { $0.identifier == id }),
+              let content = existing.content.mutableCopy() as? UNMutableNotificationContent else
+        {
+            throw BridgeError.invalidPayload("No pending notification with id '\(id)'")
+        }
+
+        if let title = patch["title"]?.stringValue {
+            if title.isEmpty {
+                throw BridgeError.invalidPayload("Notification title cannot be empty")
+            }
+            content.title = title
+        }
+        if let body = patch["body"]?.stringValue {
+            content.body = body
+        }
+        if let subtitle = patch["subtitle"]?.stringValue {
+            content.subtitle = subtitle
+        }
+        if let badge = patch["badge"]?.intValue {
+            content.badge = NSNumber(value: badge)
+        }
+        if let sound = patch["sound"]?.stringValue {
+            content.sound = sound == "default" ? .default : UNNotificationSound(named: UNNotificationSoundName(sound))
+        }
+        if let data = patch["data"]?.dictionaryValue {
+            content.userInfo = data.mapValues { $0.value as Any }
+        }
+        if let categoryId = patch["categoryId"]?.stringValue {
+            content.categoryIdentifier = categoryId
+        }
+        if let threadId = patch["threadId"]?.stringValue {
+            content.threadIdentifier = threadId
+        }
+        if let interruptionLevel = try decodeInterruptionLevel(patch["interruptionLevel"]) {
+            content.interruptionLevel = unInterruptionLevel(interruptionLevel)
+        }
+        if patch["attachments"] != nil {
+            content.attachments = try await createAttachments(from: decodeAttachments(patch["attachments"]))
+        }
+
+        var trigger = existing.trigger
+        if let triggerDict = patch["trigger"]?.dictionaryValue {
+            let notificationTrigger = try decodeTrigger(from: triggerDict)
+            try validateTrigger(notificationTrigger)
+            trigger = try createTrigger(from: notificationTrigger)
+        }
+
+        // Adding a request with the same identifier replaces the pending one
+        try await notificationCenter.add(UNNotificationRequest(
+            identifier: id,
+            content: content,
+            trigger: trigger
+        ))
+
+        return AnyCodable(["success": AnyCodable(true), "id": AnyCodable(id)])
+    }
+
+    // MARK: - Set Categories
+
+    /// Handles the `setCategories` action to register notification categories.
+    ///
+    /// Replaces every previously registered category. Categories are not kept
+    /// between launches, so the web app registers them each time it starts.
+    ///
+    /// - Parameter payload: Dictionary containing a `categories` array.
+    /// - Returns: Success indicator.
+    /// - Throws: `BridgeError.invalidPayload` if a category or action is invalid.
+    private func handleSetCategories(payload: AnyCodable?) throws -> AnyCodable {
+        guard let items = payload?["categories"]?.arrayValue else {
+            throw BridgeError.invalidPayload("Missing 'categories' field")
+        }
+
+        let categories = try items.map(decodeCategory(from:))
+        notificationCenter.setNotificationCategories(Set(categories.map(createCategory(from:))))
+
+        return AnyCodable(["success": AnyCodable(true)])
+    }
+
+    /// Decodes a notification category from its payload.
+    private func decodeCategory(from item: AnyCodable) throws -> NotificationCategory {
+        guard let id = item["id"]?.stringValue, !id.isEmpty else {
+            throw BridgeError.invalidPayload("Category 'id' cannot be empty")
+        }
+
+        let actions = try (item["actions"]?.arrayValue ?? []).map { action in
+            guard let actionId = action["id"]?.stringValue, !actionId.isEmpty,
+                  let title = action["title"]?.stringValue, !title.isEmpty else
+            {
+                throw BridgeError.invalidPayload("Actions of category '\(id)' need an 'id' and a 'title'")
+            }
+
+            let textInput = action["textInput"].flatMap { input -> NotificationCategoryAction.TextInput? in
+                guard input.dictionaryValue != nil else { return nil }
+                return NotificationCategoryAction.TextInput(
+                    buttonTitle: input["buttonTitle"]?.stringValue ?? "Send",
+                    placeholder: input["placeholder"]?.stringValue ?? ""
+                )
+            }
+
+            return NotificationCategoryAction(
+                id: actionId,
+                title: title,
+                destructive: action["destructive"]?.boolValue ?? false,
+                foreground: action["foreground"]?.boolValue ?? false,
+                authenticationRequired: action["authenticationRequired"]?.boolValue ?? false,
+                textInput: textInput
+            )
+        }
+
+        return NotificationCategory(id: id, actions: actions)
+    }
+
+    /// Creates a UNNotificationCategory from a NotificationCategory.
+    private func createCategory(from category: NotificationCategory) -> UNNotificationCategory {
+        let actions = category.actions.map { action -> UNNotificationAction in
+            var options: UNNotificationActionOptions = []
+            if action.destructive {
+                options.insert(.destructive)
+            }
+            if action.foreground {
+                options.insert(.foreground)
+            }
+            if action.authenticationRequired {
+                options.insert(.authenticationRequired)
+            }
+
+            if let textInput = action.textInput {
+                return UNTextInputNotificationAction(
+                    identifier: action.id,
+                    title: action.title,
+                    options: options,
+                    textInputButtonTitle: textInput.buttonTitle,
+                    textInputPlaceholder: textInput.placeholder
+                )
+            }
+            return UNNotificationAction(identifier: action.id, title: action.title, options: options)
+        }
+
+        return UNNotificationCategory(
+            identifier: category.id,
+            actions: actions,
+            intentIdentifiers: [],
+            options: []
+        )
+    }
+
+    // MARK: - Get Delivered
+
+    /// Handles the `getDelivered` action to list notifications in Notification Center.
+    ///
+    /// - Returns: Array of delivered notification info, most recent first.
+    private func handleGetDelivered() async -> AnyCodable {
+        let delivered = await notificationCenter.deliveredNotifications()
+            .sorted { $0.date > $1.date }
+
+        let notifications = delivered.map { notification -> AnyCodable in
+            let content = notification.request.content
+            let info = DeliveredNotificationInfo(
+                id: notification.request.identifier,
+                title: content.title,
+                body: content.body.isEmpty ? nil : content.body,
+                subtitle: content.subtitle.isEmpty ? nil : content.subtitle,
+                categoryId: content.categoryIdentifier.isEmpty ? nil : content.categoryIdentifier,
+                threadId: content.threadIdentifier.isEmpty ? nil : content.threadIdentifier,
+                data: userInfoData(content.userInfo),
+                date: ISO8601DateFormatter().string(from: notification.date)
+            )
+            return encodeDelivered(info)
+        }
+
+        return AnyCodable(["notifications": AnyCodable(notifications)])
+    }
+
+    // MARK: - Remove Delivered
+
+    /// Handles the `removeDelivered` action to remove notifications from Notification Center.
+    ///
+    /// - Parameter payload: Dictionary containing an `ids` array.
+    /// - Returns: Success indicator.
+    /// - Throws: `BridgeError.invalidPayload` if the IDs are missing.
+    private func handleRemoveDelivered(payload: AnyCodable?) throws -> AnyCodable {
+        guard let ids = payload?["ids"]?.arrayValue?.compactMap(\.stringValue) else {
+            throw BridgeError.invalidPayload("Missing 'ids' field")
+        }
+
+        notificationCenter.removeDeliveredNotifications(withIdentifiers: ids)
+
+        return AnyCodable(["success": AnyCodable(true)])
+    }
+
     // MARK: - Helpers
 
     /// Encodes a subscription result to AnyCodable.
-    private func encodeSubscription(_ subscription: NotificationSubscription) -> AnyCodable {
-        var result: [String: AnyCodable] = [
-            "success": AnyCodable(subscription.success),
-            "permissionState": AnyCodable(subscription.permissionState.rawValue),
-        ]
+    private func encodeSubscription(
+        _ subscription: NotificationSubscription,
+        registration: PushRegistrationInfo? = nil
+    ) -> AnyCodable {
+        var result = registration?.fields ?? [:]
+        result["success"] = AnyCodable(subscription.success)
+        result["permissionState"] = AnyCodable(subscription.permissionState.rawValue)
 
         if let token = subscription.token {
             result["token"] = AnyCodable(token)
@@ -583,11 +929,52 @@ public struct NotificationsModule: PWAModule {
 
         return AnyCodable(result)
     }
+
+    /// Encodes delivered notification info to AnyCodable.
+    private func encodeDelivered(_ info: DeliveredNotificationInfo) -> AnyCodable {
+        var result: [String: AnyCodable] = [
+            "id": AnyCodable(info.id),
+            "title": AnyCodable(info.title),
+            "date": AnyCodable(info.date),
+        ]
+
+        if let body = info.body {
+            result["body"] = AnyCodable(body)
+        }
+        if let subtitle = info.subtitle {
+            result["subtitle"] = AnyCodable(subtitle)
+        }
+        if let categoryId = info.categoryId {
+            result["categoryId"] = AnyCodable(categoryId)
+        }
+        if let threadId = info.threadId {
+            result["threadId"] = AnyCodable(threadId)
+        }
+        if let data = info.data {
+            result["data"] = AnyCodable(data)
+        }
+
+        return AnyCodable(result)
+    }
+
+    /// Converts a notification's user info to JSON values, without `aps`.
+    private func userInfoData(_ userInfo: [AnyHashable: Any]) -> [String: AnyCodable]? {
+        var values = userInfo
+        values["aps"] = nil
+
+        guard !values.isEmpty,
+              JSONSerialization.isValidJSONObject(values),
+              let data = try? JSONSerialization.data(withJSONObject: values) else
+        {
+            return nil
+        }
+        return try? JSONDecoder().decode([String: AnyCodable].self, from: data)
+    }
 }
 
 // MARK: - TokenStorage
 
-/// Protocol for storing and retrieving the device token.
+/// Protocol for storing and retrieving the device token and installation identifier.
 public protocol TokenStorage: Sendable {
     /// Retrieves the stored device token.
     /// - Returns: The device token as a hex string, or nil if not stored.
@@ -599,6 +986,10 @@ public protocol TokenStorage: Sendable {
 
     /// Clears the stored device token.
     func clearToken()
+
+    /// Retrieves the installation identifier, creating and storing one on first use.
+    /// - Returns: A UUID string that stays the same until the app is deleted.
+    func getInstallationId() -> String
 }
 
 // MARK: - UserDefaultsTokenStorage
@@ -607,18 +998,23 @@ public protocol TokenStorage: Sendable {
 public final class UserDefaultsTokenStorage: TokenStorage, @unchecked Sendable {
     private let userDefaults: UserDefaults
     private let key: String
+    private let installationIdKey: String
 
     /// Creates a UserDefaults-based token storage.
     ///
     /// - Parameters:
     ///   - userDefaults: The UserDefaults instance to use. Defaults to standard.
     ///   - key: The key for storing the token. Defaults to `PWAKit.deviceToken`.
+    ///   - installationIdKey: The key for storing the installation identifier.
+    ///     Defaults to `PWAKit.installationId`.
     public init(
         userDefaults: UserDefaults = .standard,
-        key: String = NotificationsModule.deviceTokenKey
+        key: String = NotificationsModule.deviceTokenKey,
+        installationIdKey: String = NotificationsModule.installationIdKey
     ) {
         self.userDefaults = userDefaults
         self.key = key
+        self.installationIdKey = installationIdKey
     }
 
     public func getToken() -> String? {
@@ -632,6 +1028,15 @@ public final class UserDefaultsTokenStorage: TokenStorage, @unchecked Sendable {
     public func clearToken() {
         userDefaults.removeObject(forKey: key)
     }
+
+    public func getInstallationId() -> String {
+        if let installationId = userDefaults.string(forKey: installationIdKey) {
+            return installationId
+        }
+        let installationId = UUID().uuidString
+        userDefaults.set(installationId, forKey: installationIdKey)
+        return installationId
+    }
 }
 
 // MARK: - NotificationCenterProtocol
@@ -655,6 +1060,15 @@ public protocol NotificationCenterProtocol: Sendable {
 
     /// Returns all pending notification requests.
     func pendingNotificationRequests() async -> [UNNotificationRequest]
+
+    /// Registers the notification categories, replacing any registered before.
+    func setNotificationCategories(_ categories: Set<UNNotificationCategory>)
+
+    /// Returns the notifications shown in Notification Center.
+    func deliveredNotifications() async -> [UNNotification]
+
+    /// Removes notifications with the specified identifiers from Notification Center.
+    func removeDeliveredNotifications(withIdentifiers identifiers: [String])
 }
 
 // MARK: - UNUserNotificationCenterWrapper
@@ -686,6 +1100,18 @@ public struct UNUserNotificationCenterWrapper: NotificationCenterProtocol {
     public func pendingNotificationRequests() async -> [UNNotificationRequest] {
         await UNUserNotificationCenter.current().pendingNotificationRequests()
     }
+
+    public func setNotificationCategories(_ categories: Set<UNNotificationCategory>) {
+        UNUserNotificationCenter.current().setNotificationCategories(categories)
+    }
+
+    public func deliveredNotifications() async -> [UNNotification] {
+        await UNUserNotificationCenter.current().deliveredNotifications()
+    }
+
+    public func removeDeliveredNotifications(withIdentifiers identifiers: [String]) {
+        UNUserNotificationCenter.current().removeDeliveredNotifications(withIdentifiers: identifiers)
+    }
 }
 
 // MARK: - Device Token Helpers
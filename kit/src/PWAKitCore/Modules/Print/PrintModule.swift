@@ -7,12 +7,14 @@ import WebKit
 /// A module that provides native printing capabilities to JavaScript.
 ///
 /// `PrintModule` exposes iOS AirPrint functionality to web applications,
-/// allowing them to print the current webview content.
+/// allowing them to print the current webview content or a PDF or image.
 ///
 /// ## Supported Actions
 ///
 /// - `print`: Print the current webview content using AirPrint.
 ///   - `jobName`: Optional job name to display in the print queue.
+///   - `data`: Optional PDF or image to print instead of the webview (base64,
+///     or a `{ "$binary": "<id>" }` reference to an upload in `BinaryTransferStore`).
 ///
 /// - `canPrint`: Check if printing is available on this device.
 ///   - Returns `{ canPrint: true/false }`
@@ -31,6 +33,19 @@ import WebKit
 /// }
 /// ```
 ///
+/// JavaScript request to print an uploaded PDF:
+/// ```json
+/// {
+///   "id": "def-456",
+///   "module": "print",
+///   "action": "print",
+///   "payload": {
+///     "jobName": "Invoice",
+///     "data": { "$binary": "u1", "size": 48213 }
+///   }
+/// }
+/// ```
+///
 /// Response on success:
 /// ```json
 /// {
@@ -81,24 +96,42 @@ public struct PrintModule: PWAModule {
     /// - Parameters:
     ///   - payload: Optional dictionary containing print options.
     ///     - `jobName`: Optional string for the print job name.
+    ///     - `data`: Optional PDF or image to print instead of the webview.
     ///   - context: The module context containing webview reference.
     /// - Returns: A dictionary with `printed: true/false` and optionally `cancelled: true`.
-    /// - Throws: `BridgeError.invalidPayload` if webview is unavailable.
+    /// - Throws: `BridgeError.invalidPayload` if webview is unavailable or `data` cannot be resolved.
     private func handlePrint(payload: AnyCodable?, context: ModuleContext) async throws -> AnyCodable {
         let jobName = payload?["jobName"]?.stringValue
-        return try await presentPrintDialog(jobName: jobName, context: context)
+
+        var item: Data?
+        if let dataPayload = payload?["data"] {
+            guard let data = await BinaryTransferStore.shared.data(from: dataPayload) else {
+                throw BridgeError.invalidPayload("Print data is not valid base64 or a completed upload")
+            }
+            item = data
+        }
+
+        return try await presentPrintDialog(jobName: jobName, item: item, context: context)
     }
 
     /// Presents the UIPrintInteractionController and returns the result.
+    ///
+    /// Prints `item` when given, otherwise the webview content.
     @MainActor
     private func presentPrintDialog(
         jobName: String?,
+        item: Data?,
         context: ModuleContext
     ) async throws -> AnyCodable {
-        guard let webView = context.webView as? WKWebView else {
+        let webView = context.webView as? WKWebView
+        guard item != nil || webView != nil else {
             throw BridgeError.invalidPayload("No webview available for printing")
         }
 
+        if let item, !UIPrintInteractionController.canPrint(item) {
+            throw BridgeError.invalidPayload("Print data must be a PDF or an image")
+        }
+
         guard UIPrintInteractionController.isPrintingAvailable else {
             return AnyCodable([
                 "printed": AnyCodable(false),
@@ -118,26 +151,39 @@ public struct PrintModule: PWAModule {
         }
 
         printController.printInfo = printInfo
-        printController.printFormatter = webView.viewPrintFormatter()
-
-        return await withCheckedContinuation { continuation in
-            printController.present(animated: true) { _, completed, error in
-                if let error {
-                    continuation.resume(returning: AnyCodable([
-                        "printed": AnyCodable(false),
-                        "error": AnyCodable(error.localizedDescription),
-                    ]))
-                } else if completed {
-                    continuation.resume(returning: AnyCodable([
-                        "printed": AnyCodable(true),
-                    ]))
-                } else {
-                    continuation.resume(returning: AnyCodable([
-                        "printed": AnyCodable(false),
-                        "cancelled": AnyCodable(true),
-                    ]))
+        if let item {
+            printController.printFormatter = nil
+            printController.printingItem = item
+        } else if let webView {
+            printController.printingItem = nil
+            printController.printFormatter = webView.viewPrintFormatter()
+        }
+
+        // Dismissing the dialog if JavaScript cancels the request reports it as cancelled
+        return await withTaskCancellationHandler {
+            await withCheckedContinuation { continuation in
+                printController.present(animated: true) { _, completed, error in
+                    if let error {
+                        continuation.resume(returning: AnyCodable([
+                            "printed": AnyCodable(false),
+                            "error": AnyCodable(error.localizedDescription),
+                        ]))
+                    } else if completed {
+                        continuation.resume(returning: AnyCodable([
+                            "printed": AnyCodable(true),
+                        ]))
+                    } else {
+                        continuation.resume(returning: AnyCodable([
+                            "printed": AnyCodable(false),
+                            "cancelled": AnyCodable(true),
+                        ]))
+                    }
                 }
             }
+        } onCancel: {
+            Task { @MainActor in
+                UIPrintInteractionController.shared.dismiss(animated: true)
+            }
         }
     }
 
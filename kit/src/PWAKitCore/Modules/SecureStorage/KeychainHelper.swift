@@ -1,4 +1,5 @@
 import Foundation
+import LocalAuthentication
 import Security
 
 // MARK: - KeychainHelper
@@ -8,8 +9,11 @@ import Security
 /// `KeychainHelper` provides a simple interface for common Keychain operations:
 /// - Save string values
 /// - Retrieve string values
+/// - Check whether a value exists without reading it
 /// - Delete values
 /// - Update existing values
+/// - List and delete every value stored under the service
+/// - Save values that can only be read after Face ID or Touch ID authentication
 ///
 /// All operations use the `kSecClassGenericPassword` class for storage.
 ///
@@ -28,6 +32,15 @@ import Security
 ///
 /// // Delete a value
 /// try keychain.delete(forKey: "authToken")
+///
+/// // Scope values to a namespace, readable after the first unlock
+/// let checkout = keychain.scoped(namespace: "checkout", accessibility: .afterFirstUnlock)
+/// try checkout.save("card-token", forKey: "token")
+/// print(try checkout.allKeys()) // ["token"]
+///
+/// // Require Face ID or Touch ID to read a value
+/// try keychain.saveRequiringBiometrics("refresh-token", forKey: "refreshToken")
+/// let refreshToken = try keychain.retrieve(forKey: "refreshToken", reason: "Sign in to your account")
 /// ```
 ///
 /// ## Thread Safety
@@ -47,17 +60,51 @@ public struct KeychainHelper: Sendable {
     /// When `nil`, items are only accessible by this app.
     public let accessGroup: String?
 
+    /// When saved items can be read.
+    ///
+    /// When `nil`, items use the Keychain default (`whenUnlocked`).
+    public let accessibility: KeychainAccessibility?
+
     /// Creates a new KeychainHelper instance.
     ///
     /// - Parameters:
     ///   - service: The service identifier. Defaults to the app's bundle identifier.
     ///   - accessGroup: Optional access group for shared Keychain access.
+    ///   - accessibility: Optional accessibility for saved items.
     public init(
         service: String = Bundle.main.bundleIdentifier ?? "com.pwakit.securestorage",
-        accessGroup: String? = nil
+        accessGroup: String? = nil,
+        accessibility: KeychainAccessibility? = nil
     ) {
         self.service = service
         self.accessGroup = accessGroup
+        self.accessibility = accessibility
+    }
+
+    // MARK: - Scoping
+
+    /// Returns a helper for a namespace, access group or accessibility.
+    ///
+    /// A namespace appends to the service identifier (`<service>.<namespace>`),
+    /// so its items never collide with those of other namespaces and
+    /// `allKeys()` and `deleteAll()` only see its own items. Parameters left
+    /// `nil` keep this helper's values.
+    ///
+    /// - Parameters:
+    ///   - namespace: Optional namespace for the items.
+    ///   - accessGroup: Optional access group for shared Keychain access.
+    ///   - accessibility: Optional accessibility for saved items.
+    /// - Returns: The scoped helper.
+    public func scoped(
+        namespace: String? = nil,
+        accessGroup: String? = nil,
+        accessibility: KeychainAccessibility? = nil
+    ) -> KeychainHelper {
+        KeychainHelper(
+            service: namespace.map { "\(service).\($0)" } ?? service,
+            accessGroup: accessGroup ?? self.accessGroup,
+            accessibility: accessibility ?? self.accessibility
+        )
     }
 
     // MARK: - Save
@@ -75,6 +122,11 @@ public struct KeychainHelper: Sendable {
             throw KeychainError.encodingFailed
         }
 
+        // Protected items can't be updated without authenticating, so replace them
+        if try biometryRecord(forKey: key) != nil {
+            try delete(forKey: key)
+        }
+
         // First try to update existing item
         let updateStatus = try? update(data, forKey: key)
         if updateStatus == true {
@@ -84,6 +136,9 @@ public struct KeychainHelper: Sendable {
         // If no existing item, add new one
         var query = baseQuery(forKey: key)
         query[kSecValueData as String] = data
+        if let accessibility {
+            query[kSecAttrAccessible as String] = accessibility.attribute
+        }
 
         let status = SecItemAdd(query as CFDictionary, nil)
 
@@ -92,32 +147,166 @@ public struct KeychainHelper: Sendable {
         }
     }
 
+    /// Saves a string value that can only be read after Face ID or Touch ID authentication.
+    ///
+    /// The item is protected by Keychain access control (`.biometryCurrentSet`), so the
+    /// system shows the biometric prompt when it is read and the value is never returned
+    /// without it. Enrolling or removing a face or fingerprint invalidates the item, which
+    /// `retrieve(forKey:reason:)` reports as `.biometryChanged`.
+    ///
+    /// Protected items never leave this device: they use `accessibility` when it is a
+    /// `ThisDeviceOnly` value, and `whenPasscodeSetThisDeviceOnly` otherwise.
+    ///
+    /// - Parameters:
+    ///   - value: The string value to save.
+    ///   - key: The key to associate with the value.
+    ///   - reason: Optional default reason shown in the prompt when the value is read.
+    /// - Throws: `KeychainError.authentication` if biometrics are unavailable or not
+    ///   enrolled, or `KeychainError` if the save operation fails.
+    public func saveRequiringBiometrics(_ value: String, forKey key: String, reason: String? = nil) throws {
+        guard let data = value.data(using: .utf8) else {
+            throw KeychainError.encodingFailed
+        }
+
+        let context = LAContext()
+        var error: NSError?
+        guard context.canEvaluatePolicy(.deviceOwnerAuthenticationWithBiometrics, error: &error),
+              let domainState = context.evaluatedPolicyDomainState else
+        {
+            throw KeychainError.authentication(Self.biometricErrorCode(for: error))
+        }
+
+        guard let accessControl = SecAccessControlCreateWithFlags(
+            nil,
+            protectedAccessibility.attribute,
+            .biometryCurrentSet,
+            nil
+        ) else {
+            throw KeychainError.unexpectedError(errSecParam)
+        }
+
+        // Replace any existing item, which may have been saved without protection
+        try delete(forKey: key)
+
+        var query = baseQuery(forKey: key)
+        query[kSecValueData as String] = data
+        query[kSecAttrAccessControl as String] = accessControl
+
+        let status = SecItemAdd(query as CFDictionary, nil)
+
+        guard status == errSecSuccess else {
+            throw KeychainError.from(status: status)
+        }
+
+        try saveBiometryRecord(BiometryRecord(domainState: domainState, reason: reason), forKey: key)
+    }
+
     // MARK: - Retrieve
 
     /// Retrieves a string value from the Keychain.
     ///
-    /// - Parameter key: The key to look up.
+    /// Reading a value saved with `saveRequiringBiometrics(_:forKey:reason:)` shows the
+    /// Face ID or Touch ID prompt and blocks until the user responds.
+    ///
+    /// - Parameters:
+    ///   - key: The key to look up.
+    ///   - reason: Optional reason shown in the biometric prompt, overriding the one
+    ///     given when the value was saved.
     /// - Returns: The stored string value, or `nil` if not found.
-    /// - Throws: `KeychainError` if the retrieval fails for reasons other than "not found".
-    public func retrieve(forKey key: String) throws -> String? {
+    /// - Throws: `KeychainError.authentication` if a protected value could not be read
+    ///   (including `.biometryChanged` once the enrolled biometry changes, which deletes
+    ///   the value), or `KeychainError` if the retrieval fails for reasons other than "not found".
+    public func retrieve(forKey key: String, reason: String? = nil) throws -> String? {
         var query = baseQuery(forKey: key)
         query[kSecReturnData as String] = true
         query[kSecMatchLimit as String] = kSecMatchLimitOne
 
+        let record = try biometryRecord(forKey: key)
+        if let record {
+            query[kSecUseAuthenticationContext as String] = try authenticationContext(
+                for: record,
+                forKey: key,
+                reason: reason
+            )
+        }
+
         var result: AnyObject?
         let status = SecItemCopyMatching(query as CFDictionary, &result)
 
         switch status {
         case errSecSuccess:
-            guard let data = result as? Data,
-                  let string = String(data: data, encoding: .utf8) else
-            {
-                throw KeychainError.decodingFailed
+            return try string(from: result)
+
+        case errSecItemNotFound:
+            guard record != nil else {
+                return nil
             }
-            return string
+            // Keychain invalidated the item after a biometry change
+            try delete(forKey: key)
+            throw KeychainError.authentication(.biometryChanged)
+
+        case errSecUserCanceled where record != nil:
+            throw KeychainError.authentication(.userCancel)
+
+        case errSecAuthFailed where record != nil:
+            throw KeychainError.authentication(.authenticationFailed)
+
+        default:
+            throw KeychainError.from(status: status)
+        }
+    }
+
+    // MARK: - Exists
+
+    /// Checks whether a value is stored for a key, without reading it.
+    ///
+    /// The lookup never shows the Face ID or Touch ID prompt: it fails instead of
+    /// asking for authentication, which still tells a protected item exists.
+    ///
+    /// - Parameter key: The key to look up.
+    /// - Returns: `true` if a value is stored for the key.
+    /// - Throws: `KeychainError` if the lookup fails.
+    public func contains(key: String) throws -> Bool {
+        var query = baseQuery(forKey: key)
+        query[kSecMatchLimit as String] = kSecMatchLimitOne
+        query[kSecUseAuthenticationUI as String] = kSecUseAuthenticationUIFail
+
+        let status = SecItemCopyMatching(query as CFDictionary, nil)
+
+        switch status {
+        case errSecSuccess,
+             errSecInteractionNotAllowed:
+            return true
 
         case errSecItemNotFound:
-            return nil
+            return false
+
+        default:
+            throw KeychainError.from(status: status)
+        }
+    }
+
+    // MARK: - List
+
+    /// Lists the keys of every value stored under the service.
+    ///
+    /// - Returns: The keys, sorted.
+    /// - Throws: `KeychainError` if the lookup fails.
+    public func allKeys() throws -> [String] {
+        var query = serviceQuery()
+        query[kSecReturnAttributes as String] = true
+        query[kSecMatchLimit as String] = kSecMatchLimitAll
+
+        var result: AnyObject?
+        let status = SecItemCopyMatching(query as CFDictionary, &result)
+
+        switch status {
+        case errSecSuccess:
+            let items = result as? [[String: Any]] ?? []
+            return items.compactMap { $0[kSecAttrAccount as String] as? String }.sorted()
+
+        case errSecItemNotFound:
+            return []
 
         default:
             throw KeychainError.from(status: status)
@@ -132,11 +321,27 @@ public struct KeychainHelper: Sendable {
     /// - Throws: `KeychainError` if the deletion fails.
     ///           Does not throw if the key doesn't exist.
     public func delete(forKey key: String) throws {
-        let query = baseQuery(forKey: key)
-        let status = SecItemDelete(query as CFDictionary)
+        for query in [baseQuery(forKey: key), biometryRecordQuery(forKey: key)] {
+            let status = SecItemDelete(query as CFDictionary)
 
-        guard status == errSecSuccess || status == errSecItemNotFound else {
-            throw KeychainError.from(status: status)
+            guard status == errSecSuccess || status == errSecItemNotFound else {
+                throw KeychainError.from(status: status)
+            }
+        }
+    }
+
+    /// Deletes every value stored under the service.
+    ///
+    /// Items in other namespaces are left alone.
+    ///
+    /// - Throws: `KeychainError` if the deletion fails.
+    public func deleteAll() throws {
+        for query in [serviceQuery(), serviceQuery(service: biometryRecordService)] {
+            let status = SecItemDelete(query as CFDictionary)
+
+            guard status == errSecSuccess || status == errSecItemNotFound else {
+                throw KeychainError.from(status: status)
+            }
         }
     }
 
@@ -152,9 +357,12 @@ public struct KeychainHelper: Sendable {
     @discardableResult
     private func update(_ data: Data, forKey key: String) throws -> Bool {
         let query = baseQuery(forKey: key)
-        let attributes: [String: Any] = [
+        var attributes: [String: Any] = [
             kSecValueData as String: data,
         ]
+        if let accessibility {
+            attributes[kSecAttrAccessible as String] = accessibility.attribute
+        }
 
         let status = SecItemUpdate(query as CFDictionary, attributes as CFDictionary)
 
@@ -175,10 +383,19 @@ public struct KeychainHelper: Sendable {
     /// - Parameter key: The key (account) to include in the query.
     /// - Returns: A dictionary suitable for Keychain API calls.
     private func baseQuery(forKey key: String) -> [String: Any] {
+        var query = serviceQuery()
+        query[kSecAttrAccount as String] = key
+        return query
+    }
+
+    /// Creates a query matching every item stored under a service.
+    ///
+    /// - Parameter service: The service to match. Defaults to this helper's service.
+    /// - Returns: A dictionary suitable for Keychain API calls.
+    private func serviceQuery(service: String? = nil) -> [String: Any] {
         var query: [String: Any] = [
             kSecClass as String: kSecClassGenericPassword,
-            kSecAttrService as String: service,
-            kSecAttrAccount as String: key,
+            kSecAttrService as String: service ?? self.service,
         ]
 
         if let accessGroup {
@@ -187,6 +404,209 @@ public struct KeychainHelper: Sendable {
 
         return query
     }
+
+    /// Decodes the data returned by a Keychain lookup.
+    ///
+    /// - Parameter result: The lookup result.
+    /// - Returns: The string value.
+    /// - Throws: `KeychainError.decodingFailed` if the result is not UTF-8 data.
+    private func string(from result: AnyObject?) throws -> String {
+        guard let data = result as? Data,
+              let string = String(data: data, encoding: .utf8) else
+        {
+            throw KeychainError.decodingFailed
+        }
+        return string
+    }
+
+    // MARK: - Biometry Records
+
+    /// The biometry a protected item was saved with, and its default prompt reason.
+    ///
+    /// Records live under their own service, so they never appear in `allKeys()`.
+    private struct BiometryRecord: Codable {
+        /// The `evaluatedPolicyDomainState` when the item was saved.
+        let domainState: Data
+
+        /// The default reason shown in the prompt when the item is read.
+        let reason: String?
+    }
+
+    /// The service holding the biometry records of this helper's protected items.
+    ///
+    /// Namespaces append `.<namespace>` to the service, so this never collides with one.
+    private var biometryRecordService: String {
+        "\(service)#biometry"
+    }
+
+    /// The accessibility of protected items, which must stay on this device.
+    private var protectedAccessibility: KeychainAccessibility {
+        switch accessibility {
+        case let .some(value) where value.isThisDeviceOnly:
+            value
+        default:
+            .whenPasscodeSetThisDeviceOnly
+        }
+    }
+
+    /// Creates the query for a key's biometry record.
+    ///
+    /// - Parameter key: The key of the protected item.
+    /// - Returns: A dictionary suitable for Keychain API calls.
+    private func biometryRecordQuery(forKey key: String) -> [String: Any] {
+        var query = serviceQuery(service: biometryRecordService)
+        query[kSecAttrAccount as String] = key
+        return query
+    }
+
+    /// Looks up the biometry record of a protected item.
+    ///
+    /// - Parameter key: The key to look up.
+    /// - Returns: The record, or `nil` if the item is not protected.
+    /// - Throws: `KeychainError` if the lookup fails.
+    private func biometryRecord(forKey key: String) throws -> BiometryRecord? {
+        var query = biometryRecordQuery(forKey: key)
+        query[kSecReturnData as String] = true
+        query[kSecMatchLimit as String] = kSecMatchLimitOne
+
+        var result: AnyObject?
+        let status = SecItemCopyMatching(query as CFDictionary, &result)
+
+        switch status {
+        case errSecSuccess:
+            guard let data = result as? Data,
+                  let record = try? JSONDecoder().decode(BiometryRecord.self, from: data) else
+            {
+                throw KeychainError.decodingFailed
+            }
+            return record
+
+        case errSecItemNotFound:
+            return nil
+
+        default:
+            throw KeychainError.from(status: status)
+        }
+    }
+
+    /// Saves the biometry record of a protected item.
+    ///
+    /// - Parameters:
+    ///   - record: The record to save.
+    ///   - key: The key of the protected item.
+    /// - Throws: `KeychainError` if the save operation fails.
+    private func saveBiometryRecord(_ record: BiometryRecord, forKey key: String) throws {
+        guard let data = try? JSONEncoder().encode(record) else {
+            throw KeychainError.encodingFailed
+        }
+
+        var query = biometryRecordQuery(forKey: key)
+        query[kSecValueData as String] = data
+        query[kSecAttrAccessible as String] = kSecAttrAccessibleAfterFirstUnlockThisDeviceOnly
+
+        let status = SecItemAdd(query as CFDictionary, nil)
+
+        guard status == errSecSuccess else {
+            throw KeychainError.from(status: status)
+        }
+    }
+
+    /// Creates the authentication context for reading a protected item.
+    ///
+    /// Checks biometrics up front, so lockouts and biometry changes are reported
+    /// instead of surfacing as generic Keychain failures.
+    ///
+    /// - Parameters:
+    ///   - record: The item's biometry record.
+    ///   - key: The key of the protected item.
+    ///   - reason: Optional reason overriding the record's.
+    /// - Returns: The context to read the item with.
+    /// - Throws: `KeychainError.authentication` if biometrics can't be used, or
+    ///   `.biometryChanged` (deleting the item) if the enrolled biometry changed.
+    private func authenticationContext(
+        for record: BiometryRecord,
+        forKey key: String,
+        reason: String?
+    ) throws -> LAContext {
+        let context = LAContext()
+        var error: NSError?
+        guard context.canEvaluatePolicy(.deviceOwnerAuthenticationWithBiometrics, error: &error) else {
+            throw KeychainError.authentication(Self.biometricErrorCode(for: error))
+        }
+
+        guard context.evaluatedPolicyDomainState == record.domainState else {
+            // `.biometryCurrentSet` items can never be read again
+            try delete(forKey: key)
+            throw KeychainError.authentication(.biometryChanged)
+        }
+
+        context.localizedReason = reason ?? record.reason ?? "Authenticate to continue"
+        return context
+    }
+
+    /// Maps a `canEvaluatePolicy` failure to a biometric error code.
+    ///
+    /// - Parameter error: The error reported by LocalAuthentication.
+    /// - Returns: The matching code, or `.biometryNotAvailable`.
+    private static func biometricErrorCode(for error: NSError?) -> BiometricsModule.BiometricErrorCode {
+        if let laError = error as? LAError {
+            BiometricsModule.BiometricErrorCode.from(laError.code)
+        } else {
+            .biometryNotAvailable
+        }
+    }
+}
+
+// MARK: - KeychainAccessibility
+
+/// When a Keychain item can be read, mapping to the `kSecAttrAccessible` values.
+///
+/// The `ThisDeviceOnly` variants are excluded from backups, so they never
+/// migrate to another device.
+public enum KeychainAccessibility: String, Sendable, CaseIterable {
+    /// Readable while the device is unlocked (the Keychain default).
+    case whenUnlocked
+
+    /// Readable while the device is unlocked, on this device only.
+    case whenUnlockedThisDeviceOnly
+
+    /// Readable after the first unlock since restart, including in the background.
+    case afterFirstUnlock
+
+    /// Readable after the first unlock since restart, on this device only.
+    case afterFirstUnlockThisDeviceOnly
+
+    /// Readable while unlocked and only while a passcode is set, on this device only.
+    case whenPasscodeSetThisDeviceOnly
+
+    /// Whether items are excluded from backups and never leave this device.
+    var isThisDeviceOnly: Bool {
+        switch self {
+        case .whenUnlockedThisDeviceOnly,
+             .afterFirstUnlockThisDeviceOnly,
+             .whenPasscodeSetThisDeviceOnly:
+            true
+        case .whenUnlocked,
+             .afterFirstUnlock:
+            false
+        }
+    }
+
+    /// The matching `kSecAttrAccessible` value.
+    var attribute: CFString {
+        switch self {
+        case .whenUnlocked:
+            kSecAttrAccessibleWhenUnlocked
+        case .whenUnlockedThisDeviceOnly:
+            kSecAttrAccessibleWhenUnlockedThisDeviceOnly
+        case .afterFirstUnlock:
+            kSecAttrAccessibleAfterFirstUnlock
+        case .afterFirstUnlockThisDeviceOnly:
+            kSecAttrAccessibleAfterFirstUnlockThisDeviceOnly
+        case .whenPasscodeSetThisDeviceOnly:
+            kSecAttrAccessibleWhenPasscodeSetThisDeviceOnly
+        }
+    }
 }
 
 // MARK: - KeychainError
@@ -208,6 +628,11 @@ public enum KeychainError: Error, Sendable, Equatable {
     /// A duplicate item already exists.
     case duplicateItem
 
+    /// Face ID or Touch ID authentication for a protected item failed.
+    ///
+    /// - Parameter code: Why authentication failed.
+    case authentication(BiometricsModule.BiometricErrorCode)
+
     /// An unexpected error occurred.
     ///
     /// - Parameter status: The OSStatus code from the Keychain operation.
@@ -226,6 +651,8 @@ public enum KeychainError: Error, Sendable, Equatable {
             .accessDenied
         case errSecDuplicateItem:
             .duplicateItem
+        case errSecUserCanceled:
+            .authentication(.userCancel)
         default:
             .unexpectedError(status)
         }
@@ -247,6 +674,14 @@ extension KeychainError: LocalizedError {
             "Access to Keychain was denied"
         case .duplicateItem:
             "Item already exists in Keychain"
+        case .authentication(.userCancel):
+            "User cancelled authentication"
+        case .authentication(.biometryLockout):
+            "Biometry is locked out"
+        case .authentication(.biometryChanged):
+            "Enrolled biometry changed since the item was saved"
+        case let .authentication(code):
+            "Biometric authentication failed: \(code.rawValue)"
         case let .unexpectedError(status):
             "Keychain error: \(status)"
         }
@@ -268,8 +703,27 @@ extension KeychainError: CustomStringConvertible {
             "KeychainError.accessDenied"
         case .duplicateItem:
             "KeychainError.duplicateItem"
+        case let .authentication(code):
+            "KeychainError.authentication(.\(code.rawValue))"
         case let .unexpectedError(status):
             "KeychainError.unexpectedError(\(status))"
         }
     }
 }
+
+// MARK: BridgeErrorCodeProviding
+
+extension KeychainError: BridgeErrorCodeProviding {
+    /// Dismissed biometric prompts map to `.cancelled`; everything else to `.unknown`.
+    public var bridgeErrorCode: BridgeErrorCode {
+        switch self {
+        case .authentication(.userCancel),
+             .authentication(.userFallback),
+             .authentication(.systemCancel),
+             .authentication(.appCancel):
+            .cancelled
+        default:
+            .unknown
+        }
+    }
+}
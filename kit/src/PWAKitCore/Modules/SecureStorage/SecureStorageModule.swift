@@ -8,19 +8,51 @@ import Foundation
 ///
 /// ## Supported Actions
 ///
-/// - `set(key, value)`: Store a value in the Keychain.
+/// - `set(key, value, requireBiometrics, reason)`: Store a value in the Keychain.
 ///   - `key`: The storage key (required)
 ///   - `value`: The string value to store (required)
-///   - Returns: `{ success: true }` on success
+///   - `requireBiometrics`: Whether reading the value requires Face ID or Touch ID (optional)
+///   - `reason`: Default reason shown in the prompt when the value is read (optional)
+///   - Returns: `{ success: true }` on success, or
+///     `{ success: false, error: "...", errorCode: "..." }` if biometrics can't be used
 ///
-/// - `get(key)`: Retrieve a value from the Keychain.
+/// - `get(key, reason)`: Retrieve a value from the Keychain.
 ///   - `key`: The storage key (required)
-///   - Returns: `{ value: "..." }` or `{ value: null }` if not found
+///   - `reason`: Reason shown in the prompt for values requiring biometrics (optional)
+///   - Returns: `{ value: "..." }` or `{ value: null }` if not found, or
+///     `{ value: null, error: "...", errorCode: "..." }` if authentication failed
 ///
 /// - `delete(key)`: Remove a value from the Keychain.
 ///   - `key`: The storage key (required)
 ///   - Returns: `{ success: true }` on success
 ///
+/// - `has(key)`: Check whether a value is stored, without reading it or
+///   showing the biometric prompt.
+///   - `key`: The storage key (required)
+///   - Returns: `{ exists: true }` or `{ exists: false }`
+///
+/// - `keys()`: List the stored keys.
+///   - Returns: `{ keys: ["..."] }`, sorted
+///
+/// - `clear()`: Remove every stored value.
+///   - Returns: `{ success: true }` on success
+///
+/// - `getMany(keys)`: Retrieve several values.
+///   - `keys`: The storage keys (required)
+///   - Returns: `{ values: { "<key>": "..." | null } }`
+///
+/// - `setMany(entries)`: Store several values, stopping at the first failure.
+///   - `entries`: An object of keys to string values (required)
+///   - Returns: `{ success: true }` on success
+///
+/// Every action also accepts scope options:
+/// - `namespace`: Keeps values apart from other namespaces, such as those
+///   of other micro-frontends. `keys()` and `clear()` only see their own.
+/// - `accessGroup`: A Keychain access group to share values with other apps.
+/// - `accessibility`: When saved values can be read, one of `whenUnlocked`
+///   (the default), `whenUnlockedThisDeviceOnly`, `afterFirstUnlock`,
+///   `afterFirstUnlockThisDeviceOnly` or `whenPasscodeSetThisDeviceOnly`.
+///
 /// ## Example
 ///
 /// JavaScript request to store a value:
@@ -83,14 +115,38 @@ import Foundation
 /// }
 /// ```
 ///
+/// Response when a value requiring biometrics can't be read:
+/// ```json
+/// {
+///   "id": "jkl-012",
+///   "success": true,
+///   "data": {
+///     "value": null,
+///     "error": "Enrolled biometry changed since the item was saved",
+///     "errorCode": "biometryChanged"
+///   }
+/// }
+/// ```
+///
 /// ## Security Notes
 ///
 /// - Values are stored in the iOS Keychain, encrypted at rest
+/// - Values requiring biometrics are released only by the Keychain, after the
+///   system Face ID or Touch ID prompt, and never leave this device
 /// - Data persists across app reinstalls (unless backup is excluded)
 /// - Access is restricted to this app (unless access groups are configured)
 public struct SecureStorageModule: PWAModule {
     public static let moduleName = "secureStorage"
-    public static let supportedActions = ["set", "get", "delete"]
+    public static let supportedActions = [
+        "set",
+        "get",
+        "delete",
+        "has",
+        "keys",
+        "clear",
+        "getMany",
+        "setMany",
+    ]
 
     /// The keychain helper used for storage operations.
     private let keychain: KeychainHelper
@@ -119,6 +175,21 @@ public struct SecureStorageModule: PWAModule {
         case "delete":
             return try handleDelete(payload: payload)
 
+        case "has":
+            return try handleHas(payload: payload)
+
+        case "keys":
+            return try handleKeys(payload: payload)
+
+        case "clear":
+            return try handleClear(payload: payload)
+
+        case "getMany":
+            return try handleGetMany(payload: payload)
+
+        case "setMany":
+            return try handleSetMany(payload: payload)
+
         default:
             throw BridgeError.unknownAction(action)
         }
@@ -128,8 +199,10 @@ public struct SecureStorageModule: PWAModule {
 
     /// Handles the `set` action to store a value in the Keychain.
     ///
-    /// - Parameter payload: Dictionary containing `key` and `value` strings.
-    /// - Returns: A dictionary with `success: true`.
+    /// - Parameter payload: Dictionary containing `key` and `value` strings, and
+    ///   optionally `requireBiometrics` and a default prompt `reason`.
+    /// - Returns: A dictionary with `success: true`, or `success: false` with an
+    ///   `errorCode` if biometrics can't be used.
     /// - Throws: `BridgeError.invalidPayload` if key or value is missing.
     private func handleSet(payload: AnyCodable?) throws -> AnyCodable {
         guard let key = payload?["key"]?.stringValue, !key.isEmpty else {
@@ -140,11 +213,19 @@ public struct SecureStorageModule: PWAModule {
             throw BridgeError.invalidPayload("Missing 'value' parameter")
         }
 
+        let keychain = try scopedKeychain(payload: payload)
+
         do {
-            try keychain.save(value, forKey: key)
+            if payload?["requireBiometrics"]?.boolValue == true {
+                try keychain.saveRequiringBiometrics(value, forKey: key, reason: payload?["reason"]?.stringValue)
+            } else {
+                try keychain.save(value, forKey: key)
+            }
             return AnyCodable([
                 "success": AnyCodable(true),
             ])
+        } catch let KeychainError.authentication(code) {
+            return authenticationFailure(code, result: ["success": AnyCodable(false)])
         } catch let error as KeychainError {
             throw BridgeError.moduleError(underlying: error)
         }
@@ -154,16 +235,21 @@ public struct SecureStorageModule: PWAModule {
 
     /// Handles the `get` action to retrieve a value from the Keychain.
     ///
-    /// - Parameter payload: Dictionary containing `key` string.
-    /// - Returns: A dictionary with `value` (string or null if not found).
+    /// Values saved with `requireBiometrics` show the Face ID or Touch ID prompt.
+    ///
+    /// - Parameter payload: Dictionary containing `key` string and an optional prompt `reason`.
+    /// - Returns: A dictionary with `value` (string or null if not found), plus an
+    ///   `errorCode` if authentication failed.
     /// - Throws: `BridgeError.invalidPayload` if key is missing.
     private func handleGet(payload: AnyCodable?) throws -> AnyCodable {
         guard let key = payload?["key"]?.stringValue, !key.isEmpty else {
             throw BridgeError.invalidPayload("Missing or empty 'key' parameter")
         }
 
+        let keychain = try scopedKeychain(payload: payload)
+
         do {
-            let value = try keychain.retrieve(forKey: key)
+            let value = try keychain.retrieve(forKey: key, reason: payload?["reason"]?.stringValue)
             if let value {
                 return AnyCodable([
                     "value": AnyCodable(value),
@@ -173,6 +259,8 @@ public struct SecureStorageModule: PWAModule {
                     "value": AnyCodable.null,
                 ])
             }
+        } catch let KeychainError.authentication(code) {
+            return authenticationFailure(code, result: ["value": AnyCodable.null])
         } catch let error as KeychainError {
             throw BridgeError.moduleError(underlying: error)
         }
@@ -190,6 +278,8 @@ public struct SecureStorageModule: PWAModule {
             throw BridgeError.invalidPayload("Missing or empty 'key' parameter")
         }
 
+        let keychain = try scopedKeychain(payload: payload)
+
         do {
             try keychain.delete(forKey: key)
             return AnyCodable([
@@ -199,4 +289,190 @@ public struct SecureStorageModule: PWAModule {
             throw BridgeError.moduleError(underlying: error)
         }
     }
+
+    // MARK: - has Action
+
+    /// Handles the `has` action to check whether a value is stored.
+    ///
+    /// - Parameter payload: Dictionary containing `key` string.
+    /// - Returns: A dictionary with `exists`.
+    /// - Throws: `BridgeError.invalidPayload` if key is missing.
+    private func handleHas(payload: AnyCodable?) throws -> AnyCodable {
+        guard let key = payload?["key"]?.stringValue, !key.isEmpty else {
+            throw BridgeError.invalidPayload("Missing or empty 'key' parameter")
+        }
+
+        let keychain = try scopedKeychain(payload: payload)
+
+        do {
+            let exists = try keychain.contains(key: key)
+            return AnyCodable([
+                "exists": AnyCodable(exists),
+            ])
+        } catch let error as KeychainError {
+            throw BridgeError.moduleError(underlying: error)
+        }
+    }
+
+    // MARK: - keys Action
+
+    /// Handles the `keys` action to list the stored keys.
+    ///
+    /// - Parameter payload: Optional dictionary of scope options.
+    /// - Returns: A dictionary with the sorted `keys`.
+    /// - Throws: `BridgeError.invalidPayload` if a scope option is invalid.
+    private func handleKeys(payload: AnyCodable?) throws -> AnyCodable {
+        let keychain = try scopedKeychain(payload: payload)
+
+        do {
+            let keys = try keychain.allKeys()
+            return AnyCodable([
+                "keys": AnyCodable(keys.map { AnyCodable($0) }),
+            ])
+        } catch let error as KeychainError {
+            throw BridgeError.moduleError(underlying: error)
+        }
+    }
+
+    // MARK: - clear Action
+
+    /// Handles the `clear` action to remove every stored value.
+    ///
+    /// - Parameter payload: Optional dictionary of scope options.
+    /// - Returns: A dictionary with `success: true`.
+    /// - Throws: `BridgeError.invalidPayload` if a scope option is invalid.
+    private func handleClear(payload: AnyCodable?) throws -> AnyCodable {
+        let keychain = try scopedKeychain(payload: payload)
+
+        do {
+            try keychain.deleteAll()
+            return AnyCodable([
+                "success": AnyCodable(true),
+            ])
+        } catch let error as KeychainError {
+            throw BridgeError.moduleError(underlying: error)
+        }
+    }
+
+    // MARK: - getMany Action
+
+    /// Handles the `getMany` action to retrieve several values.
+    ///
+    /// - Parameter payload: Dictionary containing a `keys` array of strings.
+    /// - Returns: A dictionary with `values`, mapping each key to its value or null.
+    /// - Throws: `BridgeError.invalidPayload` if keys are missing or empty.
+    private func handleGetMany(payload: AnyCodable?) throws -> AnyCodable {
+        guard let items = payload?["keys"]?.arrayValue else {
+            throw BridgeError.invalidPayload("Missing 'keys' parameter")
+        }
+
+        let keys = items.compactMap(\.stringValue)
+        guard keys.count == items.count, !keys.contains(where: \.isEmpty) else {
+            throw BridgeError.invalidPayload("'keys' must contain non-empty strings")
+        }
+
+        let keychain = try scopedKeychain(payload: payload)
+
+        do {
+            var values: [String: AnyCodable] = [:]
+            for key in keys {
+                values[key] = try keychain.retrieve(forKey: key).map { AnyCodable($0) } ?? .null
+            }
+            return AnyCodable([
+                "values": AnyCodable(values),
+            ])
+        } catch let error as KeychainError {
+            throw BridgeError.moduleError(underlying: error)
+        }
+    }
+
+    // MARK: - setMany Action
+
+    /// Handles the `setMany` action to store several values.
+    ///
+    /// Values are stored in key order, stopping at the first failure.
+    ///
+    /// - Parameter payload: Dictionary containing an `entries` object of string values.
+    /// - Returns: A dictionary with `success: true`.
+    /// - Throws: `BridgeError.invalidPayload` if entries are missing or not strings.
+    private func handleSetMany(payload: AnyCodable?) throws -> AnyCodable {
+        guard let entries = payload?["entries"]?.dictionaryValue else {
+            throw BridgeError.invalidPayload("Missing 'entries' parameter")
+        }
+
+        var values: [(key: String, value: String)] = []
+        for key in entries.keys.sorted() {
+            guard !key.isEmpty else {
+                throw BridgeError.invalidPayload("'entries' must not contain an empty key")
+            }
+            guard let value = entries[key]?.stringValue else {
+                throw BridgeError.invalidPayload("Value for '\(key)' must be a string")
+            }
+            values.append((key, value))
+        }
+
+        let keychain = try scopedKeychain(payload: payload)
+
+        do {
+            for (key, value) in values {
+                try keychain.save(value, forKey: key)
+            }
+            return AnyCodable([
+                "success": AnyCodable(true),
+            ])
+        } catch let error as KeychainError {
+            throw BridgeError.moduleError(underlying: error)
+        }
+    }
+
+    // MARK: - Authentication Failures
+
+    /// Builds the result for a failed Face ID or Touch ID authentication.
+    ///
+    /// Failures are reported in the result, like the biometrics module's
+    /// `authenticate` action, so JavaScript receives the `errorCode`.
+    ///
+    /// - Parameters:
+    ///   - code: Why authentication failed.
+    ///   - result: The action's result fields.
+    /// - Returns: The result with `error` and `errorCode` added.
+    private func authenticationFailure(
+        _ code: BiometricsModule.BiometricErrorCode,
+        result: [String: AnyCodable]
+    ) -> AnyCodable {
+        var result = result
+        result["error"] = AnyCodable(KeychainError.authentication(code).localizedDescription)
+        result["errorCode"] = AnyCodable(code.rawValue)
+        return AnyCodable(result)
+    }
+
+    // MARK: - Scope Options
+
+    /// Returns the keychain helper for the scope options in a payload.
+    ///
+    /// - Parameter payload: Dictionary with optional `namespace`, `accessGroup`
+    ///   and `accessibility` strings.
+    /// - Returns: The module's keychain helper, scoped to the options.
+    /// - Throws: `BridgeError.invalidPayload` if an option is empty or unknown.
+    private func scopedKeychain(payload: AnyCodable?) throws -> KeychainHelper {
+        let namespace = payload?["namespace"]?.stringValue
+        if namespace?.isEmpty == true {
+            throw BridgeError.invalidPayload("'namespace' must not be empty")
+        }
+
+        let accessGroup = payload?["accessGroup"]?.stringValue
+        if accessGroup?.isEmpty == true {
+            throw BridgeError.invalidPayload("'accessGroup' must not be empty")
+        }
+
+        var accessibility: KeychainAccessibility?
+        if let rawValue = payload?["accessibility"]?.stringValue {
+            guard let value = KeychainAccessibility(rawValue: rawValue) else {
+                throw BridgeError.invalidPayload("Unknown 'accessibility' value '\(rawValue)'")
+            }
+            accessibility = value
+        }
+
+        return keychain.scoped(namespace: namespace, accessGroup: accessGroup, accessibility: accessibility)
+    }
 }
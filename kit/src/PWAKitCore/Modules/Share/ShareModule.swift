@@ -14,7 +14,8 @@ import UIKit
 ///   - `title`: Optional subject line (used in email, etc.)
 ///   - `text`: Optional text to share
 ///   - `url`: Optional URL to share
-///   - `files`: Optional array of file objects with `name`, `type`, and `data` (base64)
+///   - `files`: Optional array of file objects with `name`, `type`, and `data`
+///     (base64, or a `{ "$binary": "<id>" }` reference to an upload in `BinaryTransferStore`)
 ///
 /// - `canShare(data?)`: Check if sharing is possible for the given data types.
 ///   - Returns `{ available: true }` if sharing is available
@@ -46,7 +47,7 @@ import UIKit
 ///       {
 ///         "name": "document.pdf",
 ///         "type": "application/pdf",
-///         "data": "base64encodeddata..."
+///         "data": { "$binary": "u1", "size": 48213 }
 ///       }
 ///     ]
 ///   }
@@ -121,6 +122,23 @@ public struct ShareModule: PWAModule {
             }
             return ShareFile(name: name, type: type, data: data)
         }
+
+        /// Creates a ShareFile from a payload dictionary, resolving uploaded data.
+        ///
+        /// - Parameters:
+        ///   - payload: Dictionary containing `name`, `type`, and `data` (base64 or an upload reference).
+        ///   - transfers: The store holding uploads from `bridge.upload()`.
+        /// - Returns: A ShareFile if parsing succeeds, nil otherwise.
+        @MainActor
+        public static func from(payload: AnyCodable?, transfers: BinaryTransferStore) -> ShareFile? {
+            guard let name = payload?["name"]?.stringValue,
+                  let type = payload?["type"]?.stringValue,
+                  let data = transfers.data(from: payload?["data"]) else
+            {
+                return nil
+            }
+            return ShareFile(name: name, type: type, data: data)
+        }
     }
 
     /// Handles the `share` action to present the share sheet.
@@ -153,7 +171,7 @@ public struct ShareModule: PWAModule {
         var temporaryFileURLs: [URL] = []
         if let filesPayload {
             for filePayload in filesPayload {
-                if let file = ShareFile.from(payload: filePayload) {
+                if let file = await ShareFile.from(payload: filePayload, transfers: .shared) {
                     // Create temporary file
                     let tempURL = FileManager.default.temporaryDirectory
                         .appendingPathComponent(UUID().uuidString)
@@ -205,54 +223,67 @@ public struct ShareModule: PWAModule {
             throw BridgeError.invalidPayload("No view controller available to present share sheet")
         }
 
-        return await withCheckedContinuation { continuation in
-            let activityVC = UIActivityViewController(
-                activityItems: items,
-                applicationActivities: nil
-            )
+        let activityVC = UIActivityViewController(
+            activityItems: items,
+            applicationActivities: nil
+        )
 
-            // Set subject for email sharing
-            if let title {
-                activityVC.setValue(title, forKey: "subject")
-            }
+        // Set subject for email sharing
+        if let title {
+            activityVC.setValue(title, forKey: "subject")
+        }
 
-            // Configure for iPad - present from center of screen
-            if let popover = activityVC.popoverPresentationController {
-                popover.sourceView = viewController.view
-                popover.sourceRect = CGRect(
-                    x: viewController.view.bounds.midX,
-                    y: viewController.view.bounds.midY,
-                    width: 0,
-                    height: 0
-                )
-                popover.permittedArrowDirections = []
-            }
+        // Configure for iPad - present from center of screen
+        if let popover = activityVC.popoverPresentationController {
+            popover.sourceView = viewController.view
+            popover.sourceRect = CGRect(
+                x: viewController.view.bounds.midX,
+                y: viewController.view.bounds.midY,
+                width: 0,
+                height: 0
+            )
+            popover.permittedArrowDirections = []
+        }
+
+        // Dismiss the sheet if JavaScript cancels the request. Dismissing it in code
+        // doesn't call the completion handler, so the cancellation calls it instead.
+        nonisolated(unsafe) let sheet = activityVC
+        return await withTaskCancellationHandler {
+            await withCheckedContinuation { continuation in
+                activityVC.completionWithItemsHandler = { [weak activityVC] activityType, completed, _, error in
+                    // Only the first of the user and a cancellation reports the outcome
+                    activityVC?.completionWithItemsHandler = nil
 
-            // Handle completion
-            activityVC.completionWithItemsHandler = { [temporaryFileURLs] activityType, completed, _, error in
-                // Clean up temporary files
-                self.cleanupTemporaryFiles(temporaryFileURLs)
+                    // Clean up temporary files
+                    self.cleanupTemporaryFiles(temporaryFileURLs)
 
-                if let error {
-                    continuation.resume(returning: AnyCodable([
-                        "shared": AnyCodable(false),
-                        "error": AnyCodable(error.localizedDescription),
-                    ]))
-                } else if completed {
-                    var result: [String: AnyCodable] = ["shared": AnyCodable(true)]
-                    if let activityType {
-                        result["activityType"] = AnyCodable(activityType.rawValue)
+                    if let error {
+                        continuation.resume(returning: AnyCodable([
+                            "shared": AnyCodable(false),
+                            "error": AnyCodable(error.localizedDescription),
+                        ]))
+                    } else if completed {
+                        var result: [String: AnyCodable] = ["shared": AnyCodable(true)]
+                        if let activityType {
+                            result["activityType"] = AnyCodable(activityType.rawValue)
+                        }
+                        continuation.resume(returning: AnyCodable(result))
+                    } else {
+                        continuation.resume(returning: AnyCodable([
+                            "shared": AnyCodable(false),
+                            "cancelled": AnyCodable(true),
+                        ]))
                     }
-                    continuation.resume(returning: AnyCodable(result))
-                } else {
-                    continuation.resume(returning: AnyCodable([
-                        "shared": AnyCodable(false),
-                        "cancelled": AnyCodable(true),
-                    ]))
                 }
-            }
 
-            viewController.present(activityVC, animated: true)
+                viewController.present(activityVC, animated: true)
+            }
+        } onCancel: {
+            Task { @MainActor in
+                guard let completion = sheet.completionWithItemsHandler else { return }
+                sheet.dismiss(animated: true)
+                completion(nil, false, nil, nil)
+            }
         }
     }
 
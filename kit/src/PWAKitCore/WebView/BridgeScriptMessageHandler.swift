@@ -12,6 +12,11 @@ import WebKit
 /// - Parses incoming JSON messages
 /// - Routes them to the `BridgeDispatcher` for handling
 /// - Sends responses back to JavaScript via `evaluateJavaScript`
+/// - Cancels in-flight requests (and discards their uploads) on `cancel` control messages
+/// - Collects binary upload chunks in the `BinaryTransferStore`
+/// - Answers `handshake` control messages with the protocol version, shell
+///   version, enabled features and supported module actions
+/// - Answers batched requests with a single `evaluateJavaScript` call
 ///
 /// ## Setup
 ///
@@ -55,6 +60,9 @@ public final class BridgeScriptMessageHandler: NSObject, WKScriptMessageHandler
     /// The module context factory for creating contexts for each request.
     private let contextFactory: ModuleContextFactory
 
+    /// The store collecting binary uploads for modules.
+    private let binaryTransfers: BinaryTransferStore
+
     /// Weak reference to the web view for sending responses.
     ///
     /// This must be set after the WKWebView is created since the handler
@@ -67,18 +75,26 @@ public final class BridgeScriptMessageHandler: NSObject, WKScriptMessageHandler
     /// The app configuration for module context.
     public var configuration: PWAConfiguration
 
+    /// In-flight request tasks indexed by request ID, for cancellation.
+    ///
+    /// A task resolves to `nil` when its request was cancelled.
+    private var tasks: [String: Task<BridgeResponse?, Never>] = [:]
+
     /// Creates a new bridge script message handler.
     ///
     /// - Parameters:
     ///   - dispatcher: The bridge dispatcher to route messages to.
     ///   - configuration: The app configuration. Defaults to `.default`.
+    ///   - binaryTransfers: The store collecting binary uploads. Defaults to `.shared`.
     public init(
         dispatcher: BridgeDispatcher,
-        configuration: PWAConfiguration = .default
+        configuration: PWAConfiguration = .default,
+        binaryTransfers: BinaryTransferStore = .shared
     ) {
         self.dispatcher = dispatcher
         self.configuration = configuration
         self.contextFactory = ModuleContextFactory()
+        self.binaryTransfers = binaryTransfers
         super.init()
     }
 
@@ -90,14 +106,17 @@ public final class BridgeScriptMessageHandler: NSObject, WKScriptMessageHandler
     ///   - dispatcher: The bridge dispatcher to route messages to.
     ///   - configuration: The app configuration.
     ///   - contextFactory: Custom factory for creating module contexts.
+    ///   - binaryTransfers: The store collecting binary uploads.
     init(
         dispatcher: BridgeDispatcher,
         configuration: PWAConfiguration,
-        contextFactory: ModuleContextFactory
+        contextFactory: ModuleContextFactory,
+        binaryTransfers: BinaryTransferStore = .shared
     ) {
         self.dispatcher = dispatcher
         self.configuration = configuration
         self.contextFactory = contextFactory
+        self.binaryTransfers = binaryTransfers
         super.init()
     }
 
@@ -124,9 +143,50 @@ public final class BridgeScriptMessageHandler: NSObject, WKScriptMessageHandler
             return
         }
 
-        // Process the message asynchronously
+        let data = Data(jsonString.utf8)
+
+        // Upload chunks are stored synchronously, so they are complete
+        // before the request referencing them is dispatched
+        if let chunk = try? JSONDecoder().decode(BinaryChunkMessage.self, from: data) {
+            binaryTransfers.append(chunk)
+            return
+        }
+
+        // Control messages concern the bridge rather than a module
+        if let control = try? JSONDecoder().decode(BridgeControlMessage.self, from: data) {
+            handleControlMessage(control)
+            return
+        }
+
+        // Batches carry several requests answered together
+        if let batch = try? JSONDecoder().decode(BridgeBatchMessage.self, from: data) {
+            let requests = batch.messages.map { startRequest($0) }
+            Task { @MainActor in
+                var responses: [BridgeResponse] = []
+                for request in requests {
+                    if let response = await request.value {
+                        responses.append(response)
+                    }
+                }
+                sendResponses(responses)
+            }
+            return
+        }
+
+        // Let the dispatcher report malformed messages
+        guard let bridgeMessage = try? JSONDecoder().decode(BridgeMessage.self, from: data) else {
+            Task { @MainActor in
+                await processMessage(jsonString)
+            }
+            return
+        }
+
+        // Process the message asynchronously, tracking it for cancellation
+        let request = startRequest(bridgeMessage)
         Task { @MainActor in
-            await processMessage(jsonString)
+            if let response = await request.value {
+                sendResponse(JavaScriptBridge.encodeToJSON(response))
+            }
         }
     }
 
@@ -150,6 +210,81 @@ public final class BridgeScriptMessageHandler: NSObject, WKScriptMessageHandler
         sendResponse(responseJSON)
     }
 
+    /// Starts processing a parsed bridge message, tracking it for cancellation.
+    ///
+    /// - Parameter message: The bridge message.
+    /// - Returns: A task resolving to the response, or `nil` if the request was cancelled.
+    private func startRequest(_ message: BridgeMessage) -> Task<BridgeResponse?, Never> {
+        let id = message.id
+        let task = Task { @MainActor in
+            let response = await processMessage(message)
+            tasks[id] = nil
+            return response
+        }
+        tasks[id] = task
+        return task
+    }
+
+    /// Processes a parsed bridge message through the dispatcher.
+    ///
+    /// Streaming messages get a `BridgeStream` in their module context so
+    /// the module can send partial responses before the final one.
+    ///
+    /// - Parameter message: The bridge message.
+    /// - Returns: The response, or `nil` if the request was cancelled.
+    private func processMessage(_ message: BridgeMessage) async -> BridgeResponse? {
+        let stream = message.stream
+            ? BridgeStream(requestId: message.id) { [weak self] response in
+                await self?.sendResponse(JavaScriptBridge.encodeToJSON(response))
+            }
+            : nil
+
+        let context = contextFactory.makeContext(
+            webView: webView,
+            viewController: viewController,
+            configuration: configuration,
+            stream: stream
+        )
+
+        let response = await dispatcher.dispatch(message: message, context: context)
+
+        // JavaScript stopped waiting for a cancelled request
+        guard !Task.isCancelled else { return nil }
+
+        return response
+    }
+
+    /// Handles a control message from JavaScript.
+    ///
+    /// - Parameter control: The control message.
+    private func handleControlMessage(_ control: BridgeControlMessage) {
+        switch control.type {
+        case .cancel:
+            tasks[control.id]?.cancel()
+            tasks[control.id] = nil
+            binaryTransfers.discard(control.id)
+
+        case .handshake:
+            #if DEBUG
+                if let protocolVersion = control.protocolVersion,
+                   protocolVersion != BridgeHandshake.currentProtocolVersion
+                {
+                    print(
+                        "[BridgeScriptMessageHandler] SDK \(control.sdkVersion ?? "unknown") speaks bridge protocol "
+                            + "v\(protocolVersion); this shell speaks v\(BridgeHandshake.currentProtocolVersion)"
+                    )
+                }
+            #endif
+
+            let features = configuration.features
+            Task { @MainActor in
+                let modules = await dispatcher.supportedActions
+                let handshake = BridgeHandshake(features: features, modules: modules)
+                sendResponse(JavaScriptBridge.encodeToJSON(handshake.response(id: control.id)))
+            }
+        }
+    }
+
     // MARK: - Response Sending
 
     /// Sends a JSON response back to JavaScript.
@@ -172,13 +307,29 @@ public final class BridgeScriptMessageHandler: NSObject, WKScriptMessageHandler
         }
     }
 
+    /// Sends the responses to a batch back to JavaScript in one evaluation.
+    ///
+    /// - Parameter responses: The responses to send.
+    private func sendResponses(_ responses: [BridgeResponse]) {
+        guard let webView, !responses.isEmpty else { return }
+
+        let javascript = JavaScriptBridge.formatCallbacks(responses)
+        webView.evaluateJavaScript(javascript) { _, error in
+            if let error {
+                #if DEBUG
+                    print("[BridgeScriptMessageHandler] Error sending batch responses: \(error.localizedDescription)")
+                #endif
+            }
+        }
+    }
+
     /// Sends an error response back to JavaScript.
     ///
     /// - Parameters:
     ///   - id: The request ID (or a fallback ID for parse errors).
     ///   - error: The error message.
     private func sendErrorResponse(id: String, error: String) {
-        let response = BridgeResponse.failure(id: id, error: error)
+        let response = BridgeResponse.failure(id: id, error: error, code: .invalidPayload)
         let javascript = JavaScriptBridge.formatCallback(response)
 
         guard let webView else { return }
@@ -231,16 +382,19 @@ public final class ModuleContextFactory {
     ///   - webView: The web view for JavaScript evaluation.
     ///   - viewController: The view controller for UI presentation.
     ///   - configuration: The app configuration.
+    ///   - stream: Stream for partial responses, for streaming requests.
     /// - Returns: A configured module context.
     public func makeContext(
         webView: AnyObject?,
         viewController: AnyObject?,
-        configuration: PWAConfiguration
+        configuration: PWAConfiguration,
+        stream: BridgeStream? = nil
     ) -> ModuleContext {
         ModuleContext(
             webView: webView,
             viewController: viewController,
-            configuration: configuration
+            configuration: configuration,
+            stream: stream
         )
     }
 }
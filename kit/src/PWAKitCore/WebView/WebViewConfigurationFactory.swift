@@ -12,6 +12,7 @@ import WebKit
 /// - JavaScript window opening capabilities
 /// - Standalone display mode preferences
 /// - Bridge message handler registration
+/// - Binary upload scheme handler registration
 /// - Web inspector in DEBUG builds
 ///
 /// ## Example
@@ -53,6 +54,12 @@ public enum WebViewConfigurationFactory {
         contentController.add(messageHandler, name: bridgeHandlerName)
         configuration.userContentController = contentController
 
+        // Receive binary uploads from bridge.upload() without base64 encoding
+        configuration.setURLSchemeHandler(
+            BinaryTransferSchemeHandler(),
+            forURLScheme: BinaryTransferSchemeHandler.scheme
+        )
+
         // Configure preferences
         configurePreferences(configuration)
 
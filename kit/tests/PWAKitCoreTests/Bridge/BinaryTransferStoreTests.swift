@@ -0,0 +1,102 @@
+import Foundation
+@testable import PWAKitApp
+import Testing
+
+// MARK: - BinaryTransferStoreTests
+
+@Suite("BinaryTransferStore Tests")
+@MainActor
+struct BinaryTransferStoreTests {
+    /// Base64 encodes a string's UTF-8 bytes.
+    private func base64(_ string: String) -> String {
+        Data(string.utf8).base64EncodedString()
+    }
+
+    // MARK: - Chunk Tests
+
+    @Test("Reassembles chunks in order")
+    func reassemblesChunks() {
+        let store = BinaryTransferStore()
+
+        #expect(store.append(BinaryChunkMessage(id: "u1", index: 0, data: base64("Hello, "), final: false)))
+        #expect(store.append(BinaryChunkMessage(id: "u1", index: 1, data: base64("world"), final: true)))
+
+        #expect(store.take("u1") == Data("Hello, world".utf8))
+    }
+
+    @Test("Withholds incomplete uploads")
+    func withholdsIncompleteUploads() {
+        let store = BinaryTransferStore()
+
+        store.append(BinaryChunkMessage(id: "u1", index: 0, data: base64("Hello"), final: false))
+
+        #expect(store.take("u1") == nil)
+        #expect(store.contains("u1"))
+    }
+
+    @Test("Discards uploads with out-of-order chunks")
+    func discardsOutOfOrderChunks() {
+        let store = BinaryTransferStore()
+
+        store.append(BinaryChunkMessage(id: "u1", index: 0, data: base64("Hello"), final: false))
+        let appended = store.append(BinaryChunkMessage(id: "u1", index: 2, data: base64("!"), final: true))
+
+        #expect(!appended)
+        #expect(!store.contains("u1"))
+    }
+
+    @Test("Discards uploads with invalid base64")
+    func discardsInvalidBase64() {
+        let store = BinaryTransferStore()
+
+        let appended = store.append(BinaryChunkMessage(id: "u1", index: 0, data: "not base64!", final: true))
+
+        #expect(!appended)
+        #expect(!store.contains("u1"))
+    }
+
+    // MARK: - Claiming Tests
+
+    @Test("Removes uploads once taken")
+    func removesTakenUploads() {
+        let store = BinaryTransferStore()
+        store.store(Data([1, 2, 3]), id: "u1")
+
+        #expect(store.take("u1") == Data([1, 2, 3]))
+        #expect(store.take("u1") == nil)
+    }
+
+    @Test("Resolves upload references and base64 strings")
+    func resolvesPayloadData() {
+        let store = BinaryTransferStore()
+        store.store(Data([1, 2, 3]), id: "u1")
+
+        #expect(store.data(from: AnyCodable(["$binary": AnyCodable("u1")])) == Data([1, 2, 3]))
+        #expect(store.data(from: AnyCodable(base64("Hello"))) == Data("Hello".utf8))
+        #expect(store.data(from: AnyCodable(["$binary": AnyCodable("missing")])) == nil)
+        #expect(store.data(from: nil) == nil)
+    }
+
+    @Test("Drops uploads left unclaimed past their lifetime")
+    func dropsExpiredUploads() {
+        var now = Date(timeIntervalSince1970: 0)
+        let store = BinaryTransferStore(now: { now })
+        store.store(Data([1]), id: "old")
+
+        now = now.addingTimeInterval(BinaryTransferStore.transferLifetime + 1)
+        store.store(Data([2]), id: "new")
+
+        #expect(!store.contains("old"))
+        #expect(store.contains("new"))
+    }
+
+    // MARK: - Scheme Handler Tests
+
+    @Test("Parses upload IDs from scheme URLs")
+    func parsesUploadIDs() {
+        #expect(BinaryTransferSchemeHandler.uploadID(from: URL(string: "pwakit-binary://upload/u1")) == "u1")
+        #expect(BinaryTransferSchemeHandler.uploadID(from: URL(string: "pwakit-binary://other/u1")) == nil)
+        #expect(BinaryTransferSchemeHandler.uploadID(from: URL(string: "https://upload/u1")) == nil)
+        #expect(BinaryTransferSchemeHandler.uploadID(from: URL(string: "pwakit-binary://upload")) == nil)
+    }
+}
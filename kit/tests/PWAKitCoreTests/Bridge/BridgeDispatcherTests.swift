@@ -225,6 +225,71 @@ struct BridgeDispatcherTests {
         #expect(response.error?.contains("Unknown action") == true)
     }
 
+    // MARK: - Error Code Tests
+
+    @Test("Sets error codes on failure responses")
+    func setsErrorCodes() async {
+        let dispatcher = BridgeDispatcher()
+        await dispatcher.register(EchoModule())
+        await dispatcher.register(ErrorModule())
+        let context = await ModuleContext()
+
+        let unknownModule = await dispatcher.dispatch(
+            message: BridgeMessage(id: "1", module: "nonexistent", action: "anything"),
+            context: context
+        )
+        let unknownAction = await dispatcher.dispatch(
+            message: BridgeMessage(id: "2", module: "echo", action: "unknownAction"),
+            context: context
+        )
+        let invalidPayload = await dispatcher.dispatch(
+            message: BridgeMessage(id: "3", module: "error", action: "fail"),
+            context: context
+        )
+        let customError = await dispatcher.dispatch(
+            message: BridgeMessage(id: "4", module: "error", action: "customError"),
+            context: context
+        )
+
+        #expect(unknownModule.code == .unknownModule)
+        #expect(unknownAction.code == .unknownAction)
+        #expect(invalidPayload.code == .invalidPayload)
+        #expect(customError.code == .unknown)
+    }
+
+    @Test("Returns feature disabled error for disabled modules")
+    func returnsFeatureDisabledError() async {
+        let dispatcher = BridgeDispatcher()
+        await dispatcher.markDisabled(["haptics"])
+        let context = await ModuleContext()
+
+        let response = await dispatcher.dispatch(
+            message: BridgeMessage(id: "disabled", module: "haptics", action: "impact"),
+            context: context
+        )
+
+        #expect(response.success == false)
+        #expect(response.code == .featureDisabled)
+        #expect(response.error == "Feature disabled: haptics")
+    }
+
+    @Test("Records modules disabled by feature flags")
+    func recordsDisabledModules() async {
+        let dispatcher = BridgeDispatcher()
+        await ModuleRegistration.registerDefaultModules(
+            in: dispatcher,
+            features: FeaturesConfiguration(haptics: false)
+        )
+        let context = await ModuleContext()
+
+        let response = await dispatcher.dispatch(
+            message: BridgeMessage(id: "haptics", module: "haptics", action: "impact"),
+            context: context
+        )
+
+        #expect(response.code == .featureDisabled)
+    }
+
     // MARK: - Response Formatting Tests
 
     @Test("Formats success response as JSON string")
@@ -179,6 +179,31 @@ struct BridgeErrorTests {
         #expect(error.description.hasPrefix("BridgeError.moduleError("))
     }
 
+    // MARK: - Error Codes
+
+    @Test("Maps cases to stable error codes")
+    func mapsCasesToCodes() {
+        #expect(BridgeError.unknownModule("widgets").bridgeErrorCode == .unknownModule)
+        #expect(BridgeError.unknownAction("missing").bridgeErrorCode == .unknownAction)
+        #expect(BridgeError.invalidPayload("reason").bridgeErrorCode == .invalidPayload)
+        #expect(BridgeError.featureDisabled("iap").bridgeErrorCode == .featureDisabled)
+        #expect(BridgeError.permissionDenied("camera").bridgeErrorCode == .permissionDenied)
+    }
+
+    @Test("Module errors keep the underlying error's code")
+    func moduleErrorUsesUnderlyingCode() {
+        #expect(BridgeError.moduleError(underlying: IAPError.purchaseCancelled).bridgeErrorCode == .cancelled)
+        #expect(BridgeError.moduleError(underlying: CancellationError()).bridgeErrorCode == .cancelled)
+        #expect(BridgeError.moduleError(underlying: URLError(.badURL)).bridgeErrorCode == .unknown)
+    }
+
+    @Test("Error codes encode as E_ strings")
+    func codesEncodeAsStrings() throws {
+        let data = try JSONEncoder().encode(BridgeErrorCode.permissionDenied)
+
+        #expect(String(data: data, encoding: .utf8) == "\"E_PERMISSION_DENIED\"")
+    }
+
     // MARK: - Error Protocol Conformance
 
     @Test("Conforms to Error protocol")
@@ -0,0 +1,141 @@
+import Foundation
+@testable import PWAKitApp
+import Testing
+
+// MARK: - BridgeEventDispatcherTests
+
+@Suite("BridgeEventDispatcher Tests")
+struct BridgeEventDispatcherTests {
+    // MARK: - Queueing Tests
+
+    @Suite("Queueing")
+    struct QueueingTests {
+        @Test("Queues events until the page has loaded")
+        @MainActor
+        func queuesUntilPageLoaded() async {
+            let dispatcher = BridgeEventDispatcher(webViewProvider: MockWebViewProvider(webView: nil))
+
+            await dispatcher.dispatch(.lifecycle(.foreground))
+            await dispatcher.dispatch(.lifecycle(.background))
+
+            #expect(dispatcher.pendingEvents == [.lifecycle(.foreground), .lifecycle(.background)])
+        }
+
+        @Test("Keeps queued events when the WebView is unavailable")
+        @MainActor
+        func keepsEventsWithoutWebView() async {
+            let dispatcher = BridgeEventDispatcher(webViewProvider: MockWebViewProvider(webView: nil))
+
+            await dispatcher.dispatch(.lifecycle(.foreground))
+            await dispatcher.handlePageLoaded()
+
+            #expect(dispatcher.pendingEvents.count == 1)
+        }
+
+        @Test("Drops the oldest events once the queue is full")
+        @MainActor
+        func dropsOldestEvents() async {
+            let dispatcher = BridgeEventDispatcher()
+
+            for index in 0 ... BridgeEventDispatcher.maxPendingEvents {
+                await dispatcher.dispatch(BridgeEvent(type: "test", data: AnyCodable(index)))
+            }
+
+            #expect(dispatcher.pendingEvents.count == BridgeEventDispatcher.maxPendingEvents)
+            #expect(dispatcher.pendingEvents.first?.data?.intValue == 1)
+        }
+    }
+
+    // MARK: - Event Factory Tests
+
+    @Suite("Event Factories")
+    struct EventFactoryTests {
+        @Test("Creates lifecycle event")
+        func createsLifecycleEvent() {
+            let event = BridgeEvent.lifecycle(.background)
+
+            #expect(event.type == "lifecycle")
+            #expect(event.data?["state"]?.stringValue == "background")
+        }
+
+        @Test("Creates deep link event")
+        func createsDeepLinkEvent() throws {
+            let url = try #require(URL(string: "https://app.example.com/orders/42"))
+            let event = BridgeEvent.deepLink(url: url, source: .customScheme)
+
+            #expect(event.type == "deeplink")
+            #expect(event.data?["url"]?.stringValue == "https://app.example.com/orders/42")
+            #expect(event.data?["source"]?.stringValue == "customScheme")
+        }
+
+        @Test("Creates shortcut event without URL")
+        func createsShortcutEvent() {
+            let event = BridgeEvent.shortcut(type: "com.example.compose", title: "Compose", url: nil)
+
+            #expect(event.type == "shortcut")
+            #expect(event.data?["type"]?.stringValue == "com.example.compose")
+            #expect(event.data?["title"]?.stringValue == "Compose")
+            #expect(event.data?["url"] == nil)
+        }
+
+        @Test("Creates network event")
+        func createsNetworkEvent() {
+            let event = BridgeEvent.network(online: true, connectionType: "cellular", expensive: true, constrained: false)
+
+            #expect(event.type == "network")
+            #expect(event.data?["online"]?.boolValue == true)
+            #expect(event.data?["connectionType"]?.stringValue == "cellular")
+            #expect(event.data?["expensive"]?.boolValue == true)
+            #expect(event.data?["constrained"]?.boolValue == false)
+        }
+
+        @Test("Creates transaction event")
+        func createsTransactionEvent() {
+            let update = TransactionUpdate(
+                transactionId: "2000",
+                originalTransactionId: "1000",
+                productId: "com.example.monthly",
+                purchaseDate: 1_704_067_200.0,
+                expirationDate: 1_706_745_600.0,
+                offerType: "introductory",
+                jwsRepresentation: "eyJhbGciOiJFUzI1NiJ9.e30.c2ln"
+            )
+            let event = BridgeEvent.transaction(update)
+
+            #expect(event.type == "transaction")
+            #expect(event.data?["transactionId"]?.stringValue == "2000")
+            #expect(event.data?["originalTransactionId"]?.stringValue == "1000")
+            #expect(event.data?["productId"]?.stringValue == "com.example.monthly")
+            #expect(event.data?["expirationDate"]?.doubleValue == 1_706_745_600.0)
+            #expect(event.data?["revocationDate"] == nil)
+            #expect(event.data?["isUpgraded"]?.boolValue == false)
+            #expect(event.data?["offerType"]?.stringValue == "introductory")
+            #expect(event.data?["offerId"] == nil)
+            #expect(event.data?["jwsRepresentation"]?.stringValue == "eyJhbGciOiJFUzI1NiJ9.e30.c2ln")
+            #expect(event.data?["finished"]?.boolValue == true)
+        }
+
+        @Test("Creates push subscription change event")
+        func createsPushSubscriptionChangeEvent() {
+            let registration = PushRegistrationInfo(
+                environment: .sandbox,
+                bundleId: "com.example.app",
+                deviceId: nil,
+                installationId: "6F1C2B9E"
+            )
+            let event = BridgeEvent.pushSubscriptionChange(
+                token: "new-token",
+                oldToken: "old-token",
+                registration: registration
+            )
+
+            #expect(event.type == "pushsubscriptionchange")
+            #expect(event.data?["token"]?.stringValue == "new-token")
+            #expect(event.data?["oldToken"]?.stringValue == "old-token")
+            #expect(event.data?["environment"]?.stringValue == "sandbox")
+            #expect(event.data?["bundleId"]?.stringValue == "com.example.app")
+            #expect(event.data?["deviceId"] == nil)
+            #expect(event.data?["installationId"]?.stringValue == "6F1C2B9E")
+        }
+    }
+}
@@ -305,6 +305,167 @@ struct BridgeMessageTests {
             _ = try JSONDecoder().decode(BridgeMessage.self, from: data)
         }
     }
+
+    // MARK: - Streaming
+
+    @Test("Decodes stream flag")
+    func decodesStreamFlag() throws {
+        let json = """
+        {
+          "id": "stream-1",
+          "module": "healthkit",
+          "action": "querySamples",
+          "stream": true
+        }
+        """
+
+        let message = try JSONDecoder().decode(BridgeMessage.self, from: Data(json.utf8))
+
+        #expect(message.stream == true)
+    }
+
+    @Test("Defaults stream flag to false")
+    func defaultsStreamFlag() throws {
+        let message = BridgeMessage(id: "test", module: "platform", action: "getInfo")
+
+        let data = try JSONEncoder().encode(message)
+        let json = try #require(String(data: data, encoding: .utf8))
+
+        #expect(message.stream == false)
+        #expect(!json.contains("stream"))
+    }
+
+    @Test("Decodes cancel control message")
+    func decodesCancelControlMessage() throws {
+        let json = """
+        { "type": "cancel", "id": "stream-1" }
+        """
+
+        let control = try JSONDecoder().decode(BridgeControlMessage.self, from: Data(json.utf8))
+
+        #expect(control == BridgeControlMessage(type: .cancel, id: "stream-1"))
+    }
+
+    @Test("Decodes handshake control message")
+    func decodesHandshakeControlMessage() throws {
+        let json = """
+        { "type": "handshake", "id": "handshake-1", "sdkVersion": "0.1.0", "protocolVersion": 1 }
+        """
+
+        let control = try JSONDecoder().decode(BridgeControlMessage.self, from: Data(json.utf8))
+
+        #expect(control == BridgeControlMessage(
+            type: .handshake,
+            id: "handshake-1",
+            sdkVersion: "0.1.0",
+            protocolVersion: 1
+        ))
+    }
+
+    @Test("Decodes handshake control message without versions")
+    func decodesHandshakeWithoutVersions() throws {
+        let json = """
+        { "type": "handshake", "id": "handshake-1" }
+        """
+
+        let control = try JSONDecoder().decode(BridgeControlMessage.self, from: Data(json.utf8))
+
+        #expect(control.sdkVersion == nil)
+        #expect(control.protocolVersion == nil)
+    }
+
+    @Test("Handshake response carries the feature flags")
+    func handshakeResponseCarriesFeatures() throws {
+        let handshake = BridgeHandshake(features: FeaturesConfiguration(healthkit: false, iap: true))
+
+        let response = handshake.response(id: "handshake-1")
+        let features = try #require(response.data?.dictionaryValue?["features"]?.dictionaryValue)
+
+        #expect(response.id == "handshake-1")
+        #expect(response.success)
+        #expect(features["iap"]?.boolValue == true)
+        #expect(features["healthkit"]?.boolValue == false)
+        #expect(features["haptics"]?.boolValue == true)
+    }
+
+    @Test("Handshake response carries versions and supported actions")
+    func handshakeResponseCarriesVersions() throws {
+        let handshake = BridgeHandshake(
+            features: FeaturesConfiguration(),
+            modules: ["platform": ["getInfo"]],
+            appVersion: "1.2.0"
+        )
+
+        let data = try #require(handshake.response(id: "handshake-1").data?.dictionaryValue)
+
+        #expect(data["protocolVersion"]?.intValue == BridgeHandshake.currentProtocolVersion)
+        #expect(data["shellVersion"]?.stringValue == PWAKitCore.version)
+        #expect(data["appVersion"]?.stringValue == "1.2.0")
+        #expect(data["modules"]?.dictionaryValue?["platform"]?.arrayValue?.first?.stringValue == "getInfo")
+        #expect(data["binaryTransfer"]?["scheme"]?.stringValue == BinaryTransferSchemeHandler.scheme)
+    }
+
+    @Test("Does not decode a bridge message as a control message")
+    func rejectsBridgeMessageAsControl() {
+        let json = """
+        { "id": "abc", "module": "platform", "action": "getInfo" }
+        """
+
+        #expect(throws: DecodingError.self) {
+            _ = try JSONDecoder().decode(BridgeControlMessage.self, from: Data(json.utf8))
+        }
+    }
+
+    @Test("Decodes batch message")
+    func decodesBatchMessage() throws {
+        let json = """
+        {
+            "type": "batch",
+            "messages": [
+                { "id": "a1", "module": "platform", "action": "getInfo" },
+                { "id": "a2", "module": "haptics", "action": "impact", "payload": { "style": "light" } }
+            ]
+        }
+        """
+
+        let batch = try JSONDecoder().decode(BridgeBatchMessage.self, from: Data(json.utf8))
+
+        #expect(batch.messages.map(\.id) == ["a1", "a2"])
+        #expect(batch.messages[1].payload?["style"]?.stringValue == "light")
+    }
+
+    @Test("Does not decode a control message as a batch")
+    func rejectsControlMessageAsBatch() {
+        let json = """
+        { "type": "cancel", "id": "a1" }
+        """
+
+        #expect(throws: DecodingError.self) {
+            _ = try JSONDecoder().decode(BridgeBatchMessage.self, from: Data(json.utf8))
+        }
+    }
+
+    @Test("Decodes binary chunk message")
+    func decodesBinaryChunkMessage() throws {
+        let json = """
+        { "type": "binary", "id": "u1", "index": 2, "data": "AQID", "final": true }
+        """
+
+        let chunk = try JSONDecoder().decode(BinaryChunkMessage.self, from: Data(json.utf8))
+
+        #expect(chunk == BinaryChunkMessage(id: "u1", index: 2, data: "AQID", final: true))
+    }
+
+    @Test("Does not decode a binary chunk as a control message")
+    func rejectsBinaryChunkAsControl() {
+        let json = """
+        { "type": "binary", "id": "u1", "index": 0, "data": "AQID", "final": true }
+        """
+
+        #expect(throws: DecodingError.self) {
+            _ = try JSONDecoder().decode(BridgeControlMessage.self, from: Data(json.utf8))
+        }
+    }
 }
 
 // MARK: - AnyCodableTests
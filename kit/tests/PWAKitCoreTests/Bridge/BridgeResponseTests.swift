@@ -73,6 +73,29 @@ struct BridgeResponseTests {
         #expect(json.contains("\"success\":false"))
         #expect(json.contains("\"error\":\"Unknown action: invalid\""))
         #expect(!json.contains("\"data\""))
+        #expect(!json.contains("\"code\""))
+    }
+
+    @Test("Encodes error code from bridge error")
+    func encodesErrorCode() throws {
+        let response = BridgeResponse.failure(id: "test-code", error: BridgeError.unknownAction("invalid"))
+
+        let data = try JSONEncoder().encode(response)
+        let json = try #require(String(data: data, encoding: .utf8))
+
+        #expect(response.error == "Unknown action: invalid")
+        #expect(json.contains("\"code\":\"E_UNKNOWN_ACTION\""))
+    }
+
+    @Test("Decodes error code")
+    func decodesErrorCode() throws {
+        let json = """
+        {"id": "test-code", "success": false, "error": "Cancelled", "code": "E_CANCELLED"}
+        """
+
+        let response = try JSONDecoder().decode(BridgeResponse.self, from: Data(json.utf8))
+
+        #expect(response.code == .cancelled)
     }
 
     @Test("Decodes error response")
@@ -389,4 +412,42 @@ struct BridgeResponseTests {
             _ = try JSONDecoder().decode(BridgeResponse.self, from: data)
         }
     }
+
+    // MARK: - Streaming Responses
+
+    @Test("Encodes progress response with kind")
+    func encodesProgressResponse() throws {
+        let response = BridgeResponse.progress(id: "stream-1", data: ["fraction": 0.5])
+
+        let data = try JSONEncoder().encode(response)
+        let json = try #require(String(data: data, encoding: .utf8))
+
+        #expect(json.contains("\"kind\":\"progress\""))
+        #expect(json.contains("\"success\":true"))
+        #expect(response.isFinal == false)
+    }
+
+    @Test("Omits kind for one-shot responses")
+    func omitsKindForOneShot() throws {
+        let response = BridgeResponse.success(id: "test-1")
+
+        let data = try JSONEncoder().encode(response)
+        let json = try #require(String(data: data, encoding: .utf8))
+
+        #expect(!json.contains("kind"))
+        #expect(response.isFinal == true)
+    }
+
+    @Test("Decodes chunk response")
+    func decodesChunkResponse() throws {
+        let json = """
+        { "id": "stream-1", "success": true, "kind": "chunk", "data": [1, 2, 3] }
+        """
+
+        let response = try JSONDecoder().decode(BridgeResponse.self, from: Data(json.utf8))
+
+        #expect(response.kind == .chunk)
+        #expect(response.data?.arrayValue?.count == 3)
+        #expect(response.isFinal == false)
+    }
 }
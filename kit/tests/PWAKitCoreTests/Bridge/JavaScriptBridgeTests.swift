@@ -46,6 +46,19 @@ struct JavaScriptBridgeTests {
         #expect(js == "window.pwakit._handleResponse({\"id\":\"json-test\",\"success\":true});")
     }
 
+    @Test("Generates callbacks for several responses")
+    func generatesCallbacksForBatch() {
+        let responses = [
+            BridgeResponse.success(id: "a1"),
+            BridgeResponse.failure(id: "a2", error: "Failed"),
+        ]
+
+        let js = JavaScriptBridge.formatCallbacks(responses)
+
+        #expect(js == responses.map { JavaScriptBridge.formatCallback($0) }.joined())
+        #expect(js.components(separatedBy: "window.pwakit._handleResponse(").count == 3)
+    }
+
     @Test("Generates callback with complex data")
     func generatesCallbackWithComplexData() {
         let response = BridgeResponse.success(
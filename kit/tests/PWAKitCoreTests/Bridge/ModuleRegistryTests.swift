@@ -97,6 +97,18 @@ struct ModuleRegistryTests {
         #expect(names == ["another", "mock"])
     }
 
+    @Test("Lists supported actions by module")
+    func listsSupportedActions() async {
+        let registry = ModuleRegistry()
+
+        await registry.register(MockModule())
+        await registry.register(AnotherMockModule())
+
+        let actions = await registry.supportedActions
+
+        #expect(actions == ["mock": ["test"], "another": ["action1", "action2"]])
+    }
+
     // MARK: - Retrieval Tests
 
     @Test("Retrieves registered module by name")
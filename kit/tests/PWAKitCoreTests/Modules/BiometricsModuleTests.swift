@@ -12,10 +12,11 @@ struct BiometricsModuleTests {
         #expect(BiometricsModule.moduleName == "biometrics")
     }
 
-    @Test("Supports isAvailable and authenticate actions")
+    @Test("Supports isAvailable, getEnrollmentState and authenticate actions")
     func supportsExpectedActions() {
-        #expect(BiometricsModule.supportedActions == ["isAvailable", "authenticate"])
+        #expect(BiometricsModule.supportedActions == ["isAvailable", "getEnrollmentState", "authenticate"])
         #expect(BiometricsModule.supports(action: "isAvailable"))
+        #expect(BiometricsModule.supports(action: "getEnrollmentState"))
         #expect(BiometricsModule.supports(action: "authenticate"))
     }
 
@@ -66,6 +67,7 @@ struct BiometricsModuleTests {
         #expect(BiometricsModule.BiometricErrorCode.biometryLockout.rawValue == "biometryLockout")
         #expect(BiometricsModule.BiometricErrorCode.appCancel.rawValue == "appCancel")
         #expect(BiometricsModule.BiometricErrorCode.invalidContext.rawValue == "invalidContext")
+        #expect(BiometricsModule.BiometricErrorCode.biometryChanged.rawValue == "biometryChanged")
         #expect(BiometricsModule.BiometricErrorCode.unknown.rawValue == "unknown")
     }
 
@@ -150,6 +152,34 @@ struct BiometricsModuleTests {
         #expect(resultWithPayload == resultWithoutPayload)
     }
 
+    // MARK: - getEnrollmentState Action
+
+    @Test("getEnrollmentState returns a state only when biometrics are available")
+    @MainActor
+    func getEnrollmentStateMatchesAvailability() async throws {
+        let module = BiometricsModule()
+        let context = ModuleContext()
+
+        let availability = try await module.handle(action: "isAvailable", payload: nil, context: context)
+        let result = try await module.handle(action: "getEnrollmentState", payload: nil, context: context)
+
+        let dict = result?.dictionaryValue
+        let available = availability?.dictionaryValue?["available"]?.boolValue ?? false
+        #expect(dict?["state"]?.isNull == !available)
+        #expect(dict?["biometryType"]?.stringValue == availability?.dictionaryValue?["biometryType"]?.stringValue)
+    }
+
+    @Test("Enrollment state is a stable hash of the domain state")
+    func enrollmentStateHashesDomainState() {
+        let domainState = Data([0x01, 0x02, 0x03])
+
+        let state = BiometricsModule.enrollmentState(for: domainState)
+
+        #expect(state == "039058c6f2c0cb492c533b0a4d14ef77cc0f78abccced5287d84a1a2011cfb81")
+        #expect(state == BiometricsModule.enrollmentState(for: domainState))
+        #expect(state != BiometricsModule.enrollmentState(for: Data([0x01, 0x02, 0x04])))
+    }
+
     // MARK: - authenticate Action Error Handling
 
     @Test("authenticate returns failure when biometrics not available")
@@ -221,6 +251,27 @@ struct BiometricsModuleTests {
         #expect(dict?["success"]?.boolValue != nil)
     }
 
+    @Test("authenticate accepts passcode fallback options")
+    @MainActor
+    func authenticateAcceptsPasscodeOptions() async throws {
+        let module = BiometricsModule()
+        let context = ModuleContext()
+
+        let result = try await module.handle(
+            action: "authenticate",
+            payload: AnyCodable([
+                "reason": AnyCodable("Confirm payment"),
+                "allowPasscode": AnyCodable(true),
+                "fallbackTitle": AnyCodable("Use Passcode"),
+                "cancelTitle": AnyCodable("Not Now"),
+            ]),
+            context: context
+        )
+
+        let dict = result?.dictionaryValue
+        #expect(dict?["success"]?.boolValue != nil)
+    }
+
     @Test("authenticate result has valid error code on failure")
     @MainActor
     func authenticateHasValidErrorCodeOnFailure() async throws {
@@ -329,6 +380,7 @@ struct BiometricsModuleTests {
         let module = BiometricsModule()
 
         try module.validateAction("isAvailable")
+        try module.validateAction("getEnrollmentState")
         try module.validateAction("authenticate")
         // Should not throw
     }
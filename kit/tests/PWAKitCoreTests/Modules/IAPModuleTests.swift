@@ -15,11 +15,22 @@ struct IAPModuleTests {
 
     @Test("Supports expected actions")
     func supportsExpectedActions() {
-        #expect(IAPModule.supportedActions == ["getProducts", "purchase", "restore", "getEntitlements"])
+        #expect(IAPModule.supportedActions == [
+            "getProducts",
+            "purchase",
+            "restore",
+            "getEntitlements",
+            "getSubscriptionStatus",
+            "getUnfinishedTransactions",
+            "finish",
+            "presentOfferCodeRedeemSheet",
+        ])
         #expect(IAPModule.supports(action: "getProducts"))
         #expect(IAPModule.supports(action: "purchase"))
         #expect(IAPModule.supports(action: "restore"))
         #expect(IAPModule.supports(action: "getEntitlements"))
+        #expect(IAPModule.supports(action: "getSubscriptionStatus"))
+        #expect(IAPModule.supports(action: "finish"))
     }
 
     @Test("Does not support unknown actions")
@@ -179,6 +190,115 @@ struct IAPModuleTests {
         #expect(dict?["error"]?.stringValue != nil)
     }
 
+    @Test("purchase throws for an appAccountToken that is not a UUID")
+    @MainActor
+    func purchaseThrowsForInvalidAppAccountToken() async throws {
+        let module = IAPModule()
+        let context = ModuleContext()
+
+        do {
+            _ = try await module.handle(
+                action: "purchase",
+                payload: AnyCodable([
+                    "productId": AnyCodable("com.example.premium"),
+                    "appAccountToken": AnyCodable("user-42"),
+                ]),
+                context: context
+            )
+            Issue.record("Expected error to be thrown")
+        } catch let error as BridgeError {
+            if case let .invalidPayload(reason) = error {
+                #expect(reason.contains("appAccountToken"))
+            } else {
+                Issue.record("Expected invalidPayload error, got \(error)")
+            }
+        } catch {
+            Issue.record("Expected BridgeError, got \(error)")
+        }
+    }
+
+    @Test("purchase throws for an incomplete promotional offer")
+    @MainActor
+    func purchaseThrowsForIncompletePromotionalOffer() async throws {
+        let module = IAPModule()
+        let context = ModuleContext()
+
+        do {
+            _ = try await module.handle(
+                action: "purchase",
+                payload: AnyCodable([
+                    "productId": AnyCodable("com.example.monthly"),
+                    "promotionalOffer": AnyCodable([
+                        "offerId": AnyCodable("winback_50"),
+                        "keyId": AnyCodable("ABC123"),
+                    ]),
+                ]),
+                context: context
+            )
+            Issue.record("Expected error to be thrown")
+        } catch let error as BridgeError {
+            if case let .invalidPayload(reason) = error {
+                #expect(reason.contains("promotionalOffer"))
+            } else {
+                Issue.record("Expected invalidPayload error, got \(error)")
+            }
+        } catch {
+            Issue.record("Expected BridgeError, got \(error)")
+        }
+    }
+
+    // MARK: - Subscription Status Action
+
+    @Test("getSubscriptionStatus throws for missing productId")
+    @MainActor
+    func getSubscriptionStatusThrowsForMissingProductId() async throws {
+        let module = IAPModule()
+        let context = ModuleContext()
+
+        do {
+            _ = try await module.handle(
+                action: "getSubscriptionStatus",
+                payload: nil,
+                context: context
+            )
+            Issue.record("Expected error to be thrown")
+        } catch let error as BridgeError {
+            if case let .invalidPayload(reason) = error {
+                #expect(reason.contains("productId"))
+            } else {
+                Issue.record("Expected invalidPayload error, got \(error)")
+            }
+        } catch {
+            Issue.record("Expected BridgeError, got \(error)")
+        }
+    }
+
+    // MARK: - Finish Action
+
+    @Test("finish throws for missing transactionId")
+    @MainActor
+    func finishThrowsForMissingTransactionId() async throws {
+        let module = IAPModule()
+        let context = ModuleContext()
+
+        do {
+            _ = try await module.handle(
+                action: "finish",
+                payload: AnyCodable(["transactionId": AnyCodable(1000)]),
+                context: context
+            )
+            Issue.record("Expected error to be thrown")
+        } catch let error as BridgeError {
+            if case let .invalidPayload(reason) = error {
+                #expect(reason.contains("transactionId"))
+            } else {
+                Issue.record("Expected invalidPayload error, got \(error)")
+            }
+        } catch {
+            Issue.record("Expected BridgeError, got \(error)")
+        }
+    }
+
     // MARK: - Restore Action
     // Note: Tests for restore and getEntitlements that call actual StoreKit APIs
     // are excluded to avoid test hangs. These operations include:
@@ -280,6 +400,10 @@ struct IAPModuleTests {
         try module.validateAction("purchase")
         try module.validateAction("restore")
         try module.validateAction("getEntitlements")
+        try module.validateAction("getSubscriptionStatus")
+        try module.validateAction("getUnfinishedTransactions")
+        try module.validateAction("finish")
+        try module.validateAction("presentOfferCodeRedeemSheet")
         // Should not throw
     }
 
@@ -747,4 +747,124 @@ struct IAPTypesTests {
             #expect(result.error == nil)
         }
     }
+
+    // MARK: - ProductSubscriptionInfo Tests
+
+    @Suite("ProductSubscriptionInfo")
+    struct ProductSubscriptionInfoTests {
+        @Test("Encodes a subscription product with offers")
+        func encodesWithOffers() throws {
+            let product = ProductInfo(
+                id: "com.example.monthly",
+                displayName: "Monthly",
+                displayPrice: "$4.99",
+                type: .autoRenewable,
+                subscription: ProductSubscriptionInfo(
+                    groupId: "21345678",
+                    period: SubscriptionPeriod(unit: "month", value: 1),
+                    introductoryOffer: SubscriptionOffer(
+                        id: nil,
+                        type: "introductory",
+                        displayPrice: "$0.00",
+                        paymentMode: "freeTrial",
+                        period: SubscriptionPeriod(unit: "week", value: 1),
+                        periodCount: 1
+                    ),
+                    isEligibleForIntroOffer: true
+                )
+            )
+
+            let encoder = JSONEncoder()
+            encoder.outputFormatting = .sortedKeys
+            let data = try encoder.encode(product)
+            let json = try #require(String(data: data, encoding: .utf8))
+
+            #expect(json.contains("\"groupId\":\"21345678\""))
+            #expect(json.contains("\"period\":{\"unit\":\"month\",\"value\":1}"))
+            #expect(json.contains("\"paymentMode\":\"freeTrial\""))
+            #expect(json.contains("\"promotionalOffers\":[]"))
+            #expect(json.contains("\"isEligibleForIntroOffer\":true"))
+        }
+
+        @Test("Products without a subscription omit it")
+        func omitsSubscription() throws {
+            let product = ProductInfo(
+                id: "com.example.coins",
+                displayName: "100 Coins",
+                displayPrice: "$0.99",
+                type: .consumable
+            )
+
+            let data = try JSONEncoder().encode(product)
+            let json = try #require(String(data: data, encoding: .utf8))
+
+            #expect(!json.contains("\"subscription\""))
+        }
+    }
+
+    // MARK: - TransactionUpdate Tests
+
+    @Suite("TransactionUpdate")
+    struct TransactionUpdateTests {
+        @Test("Defaults to a finished transaction without offers")
+        func defaults() {
+            let update = TransactionUpdate(
+                transactionId: "2000",
+                originalTransactionId: "1000",
+                productId: "com.example.monthly",
+                purchaseDate: 1_704_067_200.0
+            )
+
+            #expect(update.finished)
+            #expect(update.offerType == nil)
+            #expect(update.jwsRepresentation == nil)
+        }
+
+        @Test("Successful purchase result carries the transaction")
+        func purchaseResultCarriesTransaction() throws {
+            let transaction = TransactionUpdate(
+                transactionId: "3000",
+                originalTransactionId: "3000",
+                productId: "com.example.coins",
+                purchaseDate: 1_704_067_200.0,
+                jwsRepresentation: "eyJhbGciOiJFUzI1NiJ9.e30.c2ln",
+                finished: false
+            )
+            let result = PurchaseResult(transaction: transaction)
+
+            let decoded = try JSONDecoder().decode(PurchaseResult.self, from: JSONEncoder().encode(result))
+
+            #expect(decoded.success == true)
+            #expect(decoded.transactionId == "3000")
+            #expect(decoded.productId == "com.example.coins")
+            #expect(decoded.transaction?.finished == false)
+            #expect(decoded.transaction?.jwsRepresentation == "eyJhbGciOiJFUzI1NiJ9.e30.c2ln")
+        }
+
+        @Test("Subscription status round-trips through encoding and decoding")
+        func subscriptionStatusRoundTrips() throws {
+            let status = SubscriptionStatusInfo(
+                productId: "com.example.monthly",
+                state: "inGracePeriod",
+                willAutoRenew: true,
+                autoRenewProductId: "com.example.monthly",
+                expirationDate: 1_706_745_600.0,
+                gracePeriodExpirationDate: 1_707_350_400.0,
+                isInBillingRetry: true,
+                transaction: TransactionUpdate(
+                    transactionId: "2000",
+                    originalTransactionId: "1000",
+                    productId: "com.example.monthly",
+                    purchaseDate: 1_704_067_200.0
+                ),
+                renewalInfoJWS: "eyJhbGciOiJFUzI1NiJ9.e30.c2ln"
+            )
+
+            let response = SubscriptionStatusResponse(statuses: [status])
+            let data = try JSONEncoder().encode(response)
+            let decoded = try JSONDecoder().decode(SubscriptionStatusResponse.self, from: data)
+
+            #expect(decoded == response)
+        }
+    }
 }
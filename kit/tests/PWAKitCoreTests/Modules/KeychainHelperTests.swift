@@ -167,6 +167,23 @@ struct KeychainHelperTests {
         #expect(retrieved == value2)
     }
 
+    // MARK: - Contains Tests
+
+    @Test("Contains reports stored keys without reading them")
+    func containsStoredKey() throws {
+        let helper = makeHelper()
+        let testKey = "test-contains-\(UUID().uuidString)"
+        defer { cleanup(key: testKey, helper: helper) }
+
+        #expect(try helper.contains(key: testKey) == false)
+
+        try helper.save("value", forKey: testKey)
+        #expect(try helper.contains(key: testKey) == true)
+
+        try helper.delete(forKey: testKey)
+        #expect(try helper.contains(key: testKey) == false)
+    }
+
     // MARK: - Not Found Tests
 
     @Test("Retrieve returns nil for non-existent key")
@@ -254,9 +271,21 @@ struct KeychainHelperTests {
         #expect(KeychainError.from(status: errSecAuthFailed) == .accessDenied)
         #expect(KeychainError.from(status: errSecInteractionNotAllowed) == .accessDenied)
         #expect(KeychainError.from(status: errSecDuplicateItem) == .duplicateItem)
+        #expect(KeychainError.from(status: errSecUserCanceled) == .authentication(.userCancel))
         #expect(KeychainError.from(status: -99999) == .unexpectedError(-99999))
     }
 
+    @Test("Authentication errors describe the failure and map cancellations")
+    func authenticationErrors() {
+        #expect(KeychainError.authentication(.biometryChanged).localizedDescription.contains("changed"))
+        #expect(KeychainError.authentication(.biometryLockout).localizedDescription.contains("locked out"))
+        #expect(KeychainError.authentication(.userCancel).description == "KeychainError.authentication(.userCancel)")
+        #expect(KeychainError.authentication(.userCancel).bridgeErrorCode == .cancelled)
+        #expect(KeychainError.authentication(.systemCancel).bridgeErrorCode == .cancelled)
+        #expect(KeychainError.authentication(.biometryChanged).bridgeErrorCode == .unknown)
+        #expect(KeychainError.accessDenied.bridgeErrorCode == .unknown)
+    }
+
     @Test("KeychainError Equatable")
     func keychainErrorEquatable() {
         #expect(KeychainError.encodingFailed == KeychainError.encodingFailed)
@@ -298,6 +327,140 @@ struct KeychainHelperTests {
         #expect(helper.accessGroup == nil)
     }
 
+    // MARK: - Scoping Tests
+
+    @Test("Scoped helper appends the namespace to the service")
+    func scopedAppendsNamespace() {
+        let helper = KeychainHelper(service: testService, accessGroup: "group.test")
+        let scoped = helper.scoped(namespace: "checkout", accessibility: .afterFirstUnlock)
+
+        #expect(scoped.service == "\(testService).checkout")
+        #expect(scoped.accessGroup == "group.test")
+        #expect(scoped.accessibility == .afterFirstUnlock)
+        #expect(helper.scoped().service == testService)
+    }
+
+    @Test("Namespaces keep values apart")
+    func namespacesKeepValuesApart() throws {
+        let namespace = "test-namespace-\(UUID().uuidString)"
+        let helper = makeHelper()
+        let scoped = helper.scoped(namespace: namespace)
+        let testKey = "test-namespaced-\(UUID().uuidString)"
+        defer {
+            cleanup(key: testKey, helper: helper)
+            try? scoped.deleteAll()
+        }
+
+        try helper.save("outer", forKey: testKey)
+        try scoped.save("inner", forKey: testKey)
+
+        #expect(try helper.retrieve(forKey: testKey) == "outer")
+        #expect(try scoped.retrieve(forKey: testKey) == "inner")
+    }
+
+    @Test("Save applies the accessibility to new and existing items")
+    func saveAppliesAccessibility() throws {
+        let scoped = makeHelper().scoped(
+            namespace: "test-accessibility-\(UUID().uuidString)",
+            accessibility: .afterFirstUnlockThisDeviceOnly
+        )
+        defer { try? scoped.deleteAll() }
+
+        try scoped.save("first", forKey: "key")
+        try scoped.save("second", forKey: "key")
+
+        #expect(try scoped.retrieve(forKey: "key") == "second")
+    }
+
+    // MARK: - List and Delete All Tests
+
+    @Test("All keys lists the namespace's keys in order")
+    func allKeysListsKeys() throws {
+        let scoped = makeHelper().scoped(namespace: "test-list-\(UUID().uuidString)")
+        defer { try? scoped.deleteAll() }
+
+        #expect(try scoped.allKeys().isEmpty)
+
+        try scoped.save("2", forKey: "b")
+        try scoped.save("1", forKey: "a")
+
+        #expect(try scoped.allKeys() == ["a", "b"])
+    }
+
+    @Test("Delete all removes only the namespace's items")
+    func deleteAllRemovesNamespaceItems() throws {
+        let helper = makeHelper()
+        let scoped = helper.scoped(namespace: "test-clear-\(UUID().uuidString)")
+        let testKey = "test-clear-outer-\(UUID().uuidString)"
+        defer { cleanup(key: testKey, helper: helper) }
+
+        try helper.save("outer", forKey: testKey)
+        try scoped.save("1", forKey: "a")
+        try scoped.save("2", forKey: "b")
+
+        try scoped.deleteAll()
+
+        #expect(try scoped.allKeys().isEmpty)
+        #expect(try helper.retrieve(forKey: testKey) == "outer")
+    }
+
+    @Test("Delete all succeeds when empty")
+    func deleteAllSucceedsWhenEmpty() throws {
+        let scoped = makeHelper().scoped(namespace: "test-empty-\(UUID().uuidString)")
+
+        try scoped.deleteAll()
+    }
+
+    @Test("Accessibility raw values match the SDK")
+    func accessibilityRawValues() {
+        #expect(KeychainAccessibility.allCases.map(\.rawValue) == [
+            "whenUnlocked",
+            "whenUnlockedThisDeviceOnly",
+            "afterFirstUnlock",
+            "afterFirstUnlockThisDeviceOnly",
+            "whenPasscodeSetThisDeviceOnly",
+        ])
+    }
+
+    @Test("Only ThisDeviceOnly accessibilities stay on the device")
+    func accessibilityThisDeviceOnly() {
+        #expect(KeychainAccessibility.allCases.filter(\.isThisDeviceOnly) == [
+            .whenUnlockedThisDeviceOnly,
+            .afterFirstUnlockThisDeviceOnly,
+            .whenPasscodeSetThisDeviceOnly,
+        ])
+    }
+
+    // MARK: - Biometric Protection Tests
+
+    @Test("Saving with biometrics reports why biometrics can't be used")
+    func saveRequiringBiometricsWithoutEnrollment() throws {
+        // Simulators and CI hosts have no enrolled biometry
+        let helper = makeHelper()
+        let testKey = "test-biometric-\(UUID().uuidString)"
+        defer { try? helper.delete(forKey: testKey) }
+
+        do {
+            try helper.saveRequiringBiometrics("secret", forKey: testKey, reason: "Unlock")
+        } catch let KeychainError.authentication(code) {
+            #expect([.biometryNotAvailable, .biometryNotEnrolled, .passcodeNotSet].contains(code))
+            #expect(try helper.retrieve(forKey: testKey) == nil)
+        }
+    }
+
+    @Test("Saving a plain value replaces a protected one")
+    func saveReplacesProtectedValue() throws {
+        let helper = makeHelper()
+        let testKey = "test-biometric-\(UUID().uuidString)"
+        defer { try? helper.delete(forKey: testKey) }
+
+        try? helper.saveRequiringBiometrics("secret", forKey: testKey)
+        try helper.save("plain", forKey: testKey)
+
+        #expect(try helper.retrieve(forKey: testKey) == "plain")
+        #expect(try helper.allKeys().contains(testKey))
+    }
+
     // MARK: - Sendable Tests
 
     @Test("KeychainHelper is Sendable")
@@ -239,6 +239,45 @@ struct NotificationTypesTests {
         }
     }
 
+    // MARK: - APNsEnvironment Tests
+
+    @Suite("APNsEnvironment")
+    struct APNsEnvironmentTests {
+        /// A provisioning profile's signed container around its property list.
+        private func profile(apsEnvironment: String?) -> Data {
+            let entitlement = apsEnvironment.map { "<key>aps-environment</key><string>\($0)</string>" } ?? ""
+            let plist = """
+            <?xml version="1.0" encoding="UTF-8"?>
+            <plist version="1.0"><dict><key>Entitlements</key><dict>\(entitlement)</dict></dict></plist>
+            """
+            return Data([0x30, 0x82, 0xFF]) + Data(plist.utf8) + Data([0xA0, 0x00])
+        }
+
+        @Test("Reads the environment from a provisioning profile")
+        func readsEnvironment() {
+            #expect(APNsEnvironment.fromProvisioningProfile(profile(apsEnvironment: "development")) == .sandbox)
+            #expect(APNsEnvironment.fromProvisioningProfile(profile(apsEnvironment: "production")) == .production)
+        }
+
+        @Test("Returns nil without an aps-environment entitlement")
+        func returnsNilWithoutEntitlement() {
+            #expect(APNsEnvironment.fromProvisioningProfile(profile(apsEnvironment: nil)) == nil)
+            #expect(APNsEnvironment.fromProvisioningProfile(Data("not a profile".utf8)) == nil)
+        }
+
+        @Test("Omits unknown registration info")
+        func omitsUnknownRegistrationInfo() {
+            let registration = PushRegistrationInfo(
+                environment: .production,
+                bundleId: nil,
+                deviceId: nil,
+                installationId: "6F1C2B9E"
+            )
+
+            #expect(registration.fields.keys.sorted() == ["environment", "installationId"])
+        }
+    }
+
     // MARK: - NotificationPayload Tests
 
     @Suite("NotificationPayload")
@@ -417,6 +456,61 @@ struct NotificationTypesTests {
             #expect(payload.timestamp >= before)
             #expect(payload.timestamp <= after)
         }
+
+        @Test("Encodes action fields")
+        func encodesActionFields() throws {
+            let payload = NotificationPayload(
+                type: .action,
+                timestamp: 1_704_067_200.0,
+                notificationId: "reminder-1",
+                categoryId: "reminder",
+                actionId: "reply",
+                userText: "On my way"
+            )
+
+            let data = try JSONEncoder().encode(payload)
+            let json = try #require(String(data: data, encoding: .utf8))
+
+            #expect(json.contains("\"type\":\"action\""))
+            #expect(json.contains("\"notificationId\":\"reminder-1\""))
+            #expect(json.contains("\"categoryId\":\"reminder\""))
+            #expect(json.contains("\"actionId\":\"reply\""))
+            #expect(json.contains("\"userText\":\"On my way\""))
+        }
+    }
+
+    // MARK: - NotificationCategory Tests
+
+    @Suite("NotificationCategory")
+    struct CategoryTests {
+        @Test("Round-trips through JSON")
+        func roundTrips() throws {
+            let category = NotificationCategory(id: "reminder", actions: [
+                NotificationCategoryAction(id: "snooze", title: "Snooze"),
+                NotificationCategoryAction(id: "done", title: "Done", destructive: true),
+                NotificationCategoryAction(
+                    id: "reply",
+                    title: "Reply",
+                    foreground: true,
+                    textInput: .init(buttonTitle: "Send", placeholder: "Message")
+                ),
+            ])
+
+            let data = try JSONEncoder().encode(category)
+            let decoded = try JSONDecoder().decode(NotificationCategory.self, from: data)
+
+            #expect(decoded == category)
+            #expect(decoded.actions[2].textInput?.placeholder == "Message")
+        }
+
+        @Test("Interruption levels use the SDK names")
+        func interruptionLevelRawValues() {
+            #expect(NotificationInterruptionLevel.allCases.map(\.rawValue) == [
+                "passive",
+                "active",
+                "timeSensitive",
+            ])
+        }
     }
 
     // MARK: - SetBadgeRequest Tests
@@ -99,6 +99,20 @@ struct NotificationsModuleTests {
             let storedValue = userDefaults.string(forKey: NotificationsModule.deviceTokenKey)
             #expect(storedValue == "test-token")
         }
+
+        @Test("UserDefaultsTokenStorage keeps the installation ID")
+        func keepsInstallationId() throws {
+            let userDefaults = try #require(UserDefaults(suiteName: "test-installation-id"))
+            userDefaults.removePersistentDomain(forName: "test-installation-id")
+
+            let storage = UserDefaultsTokenStorage(userDefaults: userDefaults)
+            let installationId = storage.getInstallationId()
+
+            #expect(UUID(uuidString: installationId) != nil)
+            #expect(storage.getInstallationId() == installationId)
+            #expect(UserDefaultsTokenStorage(userDefaults: userDefaults).getInstallationId() == installationId)
+            #expect(userDefaults.string(forKey: NotificationsModule.installationIdKey) == installationId)
+        }
     }
 
     // MARK: - Get Token Tests
@@ -124,6 +138,25 @@ struct NotificationsModuleTests {
             #expect(result?["token"]?.stringValue == "stored-device-token")
         }
 
+        @Test("Returns registration info with the token")
+        @MainActor
+        func returnsRegistrationInfo() async throws {
+            let module = NotificationsModule(
+                storage: MockTokenStorage(token: "stored-device-token"),
+                notificationCenter: MockNotificationCenter()
+            )
+
+            let result = try await module.handle(
+                action: "getToken",
+                payload: nil,
+                context: ModuleContext()
+            )
+
+            let environment = try #require(result?["environment"]?.stringValue)
+            #expect(APNsEnvironment(rawValue: environment) != nil)
+            #expect(result?["installationId"]?.stringValue == MockTokenStorage.installationId)
+        }
+
         @Test("Returns null when no token stored")
         @MainActor
         func returnsNullWhenNoToken() async throws {
@@ -857,6 +890,194 @@ struct NotificationsModuleTests {
         }
     }
 
+    // MARK: - Update Pending Tests
+
+    @Suite("Update Pending Action")
+    struct UpdatePendingTests {
+        @Test("Replaces patched fields and keeps the trigger")
+        @MainActor
+        func replacesPatchedFields() async throws {
+            let notificationCenter = MockNotificationCenter()
+            let module = NotificationsModule(
+                storage: MockTokenStorage(),
+                notificationCenter: notificationCenter
+            )
+            let context = ModuleContext()
+
+            _ = try await module.handle(
+                action: "schedule",
+                payload: AnyCodable([
+                    "id": AnyCodable("water"),
+                    "title": AnyCodable("Drink water"),
+                    "body": AnyCodable("Stay hydrated"),
+                    "trigger": AnyCodable([
+                        "type": AnyCodable("timeInterval"),
+                        "seconds": AnyCodable(3600),
+                    ]),
+                ]),
+                context: context
+            )
+
+            let result = try await module.handle(
+                action: "updatePending",
+                payload: AnyCodable([
+                    "id": AnyCodable("water"),
+                    "patch": AnyCodable([
+                        "title": AnyCodable("Drink more water"),
+                        "categoryId": AnyCodable("reminder"),
+                        "interruptionLevel": AnyCodable("timeSensitive"),
+                    ]),
+                ]),
+                context: context
+            )
+
+            let request = try #require(notificationCenter.lastAddedRequest)
+            #expect(result?["success"]?.boolValue == true)
+            #expect(notificationCenter.addedRequestCount == 1)
+            #expect(request.content.title == "Drink more water")
+            #expect(request.content.body == "Stay hydrated")
+            #expect(request.content.categoryIdentifier == "reminder")
+            #expect(request.content.interruptionLevel == .timeSensitive)
+            #expect((request.trigger as? UNTimeIntervalNotificationTrigger)?.timeInterval == 3600)
+        }
+
+        @Test("Throws error for unknown id")
+        @MainActor
+        func throwsForUnknownId() async throws {
+            let module = NotificationsModule(
+                storage: MockTokenStorage(),
+                notificationCenter: MockNotificationCenter()
+            )
+            let payload = AnyCodable([
+                "id": AnyCodable("missing"),
+                "patch": AnyCodable(["title": AnyCodable("Title")]),
+            ])
+
+            await #expect(throws: BridgeError.invalidPayload("No pending notification with id 'missing'")) {
+                _ = try await module.handle(
+                    action: "updatePending",
+                    payload: payload,
+                    context: ModuleContext()
+                )
+            }
+        }
+    }
+
+    // MARK: - Categories Tests
+
+    @Suite("Set Categories Action")
+    struct SetCategoriesTests {
+        @Test("Registers categories with their actions")
+        @MainActor
+        func registersCategories() async throws {
+            let notificationCenter = MockNotificationCenter()
+            let module = NotificationsModule(
+                storage: MockTokenStorage(),
+                notificationCenter: notificationCenter
+            )
+            let payload = AnyCodable([
+                "categories": AnyCodable([
+                    AnyCodable([
+                        "id": AnyCodable("reminder"),
+                        "actions": AnyCodable([
+                            AnyCodable(["id": AnyCodable("snooze"), "title": AnyCodable("Snooze")]),
+                            AnyCodable([
+                                "id": AnyCodable("done"),
+                                "title": AnyCodable("Done"),
+                                "destructive": AnyCodable(true),
+                            ]),
+                            AnyCodable([
+                                "id": AnyCodable("reply"),
+                                "title": AnyCodable("Reply"),
+                                "textInput": AnyCodable(["placeholder": AnyCodable("Message")]),
+                            ]),
+                        ]),
+                    ]),
+                ]),
+            ])
+
+            let result = try await module.handle(
+                action: "setCategories",
+                payload: payload,
+                context: ModuleContext()
+            )
+
+            let category = try #require(notificationCenter.categories.first)
+            #expect(result?["success"]?.boolValue == true)
+            #expect(notificationCenter.categories.count == 1)
+            #expect(category.identifier == "reminder")
+            #expect(category.actions.map(\.identifier) == ["snooze", "done", "reply"])
+            #expect(category.actions[1].options.contains(.destructive))
+            #expect((category.actions[2] as? UNTextInputNotificationAction)?.textInputPlaceholder == "Message")
+        }
+
+        @Test("Throws error for an action without a title")
+        @MainActor
+        func throwsForActionWithoutTitle() async throws {
+            let module = NotificationsModule(
+                storage: MockTokenStorage(),
+                notificationCenter: MockNotificationCenter()
+            )
+            let payload = AnyCodable([
+                "categories": AnyCodable([
+                    AnyCodable([
+                        "id": AnyCodable("reminder"),
+                        "actions": AnyCodable([AnyCodable(["id": AnyCodable("snooze")])]),
+                    ]),
+                ]),
+            ])
+
+            await #expect(throws: BridgeError.self) {
+                _ = try await module.handle(
+                    action: "setCategories",
+                    payload: payload,
+                    context: ModuleContext()
+                )
+            }
+        }
+    }
+
+    // MARK: - Delivered Tests
+
+    @Suite("Delivered Notifications")
+    struct DeliveredTests {
+        @Test("Returns empty array when nothing is delivered")
+        @MainActor
+        func returnsEmptyArray() async throws {
+            let module = NotificationsModule(
+                storage: MockTokenStorage(),
+                notificationCenter: MockNotificationCenter()
+            )
+
+            let result = try await module.handle(
+                action: "getDelivered",
+                payload: nil,
+                context: ModuleContext()
+            )
+
+            #expect(result?["notifications"]?.arrayValue?.isEmpty == true)
+        }
+
+        @Test("Removes delivered notifications by id")
+        @MainActor
+        func removesDeliveredNotifications() async throws {
+            let notificationCenter = MockNotificationCenter()
+            let module = NotificationsModule(
+                storage: MockTokenStorage(),
+                notificationCenter: notificationCenter
+            )
+
+            let result = try await module.handle(
+                action: "removeDelivered",
+                payload: AnyCodable(["ids": AnyCodable([AnyCodable("a"), AnyCodable("b")])]),
+                context: ModuleContext()
+            )
+
+            #expect(result?["success"]?.boolValue == true)
+            #expect(notificationCenter.removedDeliveredIdentifiers == ["a", "b"])
+        }
+    }
+
     // MARK: - Module Configuration Tests
 
     @Suite("Module Configuration")
@@ -878,7 +1099,11 @@ struct NotificationsModuleTests {
             #expect(actions.contains("cancel"))
             #expect(actions.contains("cancelAll"))
             #expect(actions.contains("getPending"))
-            #expect(actions.count == 9)
+            #expect(actions.contains("updatePending"))
+            #expect(actions.contains("setCategories"))
+            #expect(actions.contains("getDelivered"))
+            #expect(actions.contains("removeDelivered"))
+            #expect(actions.count == 13)
         }
 
         @Test("Uses correct device token key")
@@ -952,6 +1177,12 @@ final class MockTokenStorage: TokenStorage, @unchecked Sendable {
     func clearToken() {
         token = nil
     }
+
+    static let installationId = "00000000-0000-0000-0000-000000000001"
+
+    func getInstallationId() -> String {
+        Self.installationId
+    }
 }
 
 // MARK: - MockNotificationCenter
@@ -963,6 +1194,8 @@ final class MockNotificationCenter: NotificationCenterProtocol, @unchecked Senda
     private var addedRequests: [UNNotificationRequest] = []
     private var removedIdentifiers: [String] = []
     private var allRemoved = false
+    private(set) var categories: Set<UNNotificationCategory> = []
+    private(set) var removedDeliveredIdentifiers: [String] = []
 
     init(
         authorizationStatus: UNAuthorizationStatus = .notDetermined,
@@ -981,6 +1214,7 @@ final class MockNotificationCenter: NotificationCenterProtocol, @unchecked Senda
     }
 
     func add(_ request: UNNotificationRequest) async throws {
+        addedRequests.removeAll { $0.identifier == request.identifier }
         addedRequests.append(request)
     }
 
@@ -998,6 +1232,18 @@ final class MockNotificationCenter: NotificationCenterProtocol, @unchecked Senda
         addedRequests
     }
 
+    func setNotificationCategories(_ categories: Set<UNNotificationCategory>) {
+        self.categories = categories
+    }
+
+    func deliveredNotifications() async -> [UNNotification] {
+        []
+    }
+
+    func removeDeliveredNotifications(withIdentifiers identifiers: [String]) {
+        removedDeliveredIdentifiers.append(contentsOf: identifiers)
+    }
+
     /// Test helpers
     var lastAddedRequest: UNNotificationRequest? {
         addedRequests.last
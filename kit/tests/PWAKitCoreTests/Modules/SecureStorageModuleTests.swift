@@ -30,12 +30,19 @@ struct SecureStorageModuleTests {
         #expect(SecureStorageModule.moduleName == "secureStorage")
     }
 
-    @Test("Supports set, get, and delete actions")
+    @Test("Supports storage, listing and bulk actions")
     func supportsExpectedActions() {
-        #expect(SecureStorageModule.supportedActions == ["set", "get", "delete"])
+        #expect(SecureStorageModule.supportedActions == [
+            "set", "get", "delete", "has", "keys", "clear", "getMany", "setMany",
+        ])
         #expect(SecureStorageModule.supports(action: "set"))
         #expect(SecureStorageModule.supports(action: "get"))
         #expect(SecureStorageModule.supports(action: "delete"))
+        #expect(SecureStorageModule.supports(action: "has"))
+        #expect(SecureStorageModule.supports(action: "keys"))
+        #expect(SecureStorageModule.supports(action: "clear"))
+        #expect(SecureStorageModule.supports(action: "getMany"))
+        #expect(SecureStorageModule.supports(action: "setMany"))
     }
 
     @Test("Does not support unknown actions")
@@ -401,6 +408,55 @@ struct SecureStorageModuleTests {
         }
     }
 
+    // MARK: - has Action
+
+    @Test("Has reports whether a value is stored")
+    @MainActor
+    func hasReportsStoredValue() async throws {
+        let module = makeModule()
+        let context = ModuleContext()
+        let testKey = "test-has-\(UUID().uuidString)"
+        defer { cleanup(key: testKey) }
+
+        let before = try await module.handle(
+            action: "has",
+            payload: AnyCodable(["key": AnyCodable(testKey)]),
+            context: context
+        )
+        #expect(before?.dictionaryValue?["exists"]?.boolValue == false)
+
+        _ = try await module.handle(
+            action: "set",
+            payload: AnyCodable([
+                "key": AnyCodable(testKey),
+                "value": AnyCodable("stored"),
+            ]),
+            context: context
+        )
+
+        let after = try await module.handle(
+            action: "has",
+            payload: AnyCodable(["key": AnyCodable(testKey)]),
+            context: context
+        )
+        #expect(after?.dictionaryValue?["exists"]?.boolValue == true)
+    }
+
+    @Test("Has throws error for missing key")
+    @MainActor
+    func hasThrowsForMissingKey() async {
+        let module = makeModule()
+        let context = ModuleContext()
+
+        await #expect(throws: BridgeError.self) {
+            _ = try await module.handle(
+                action: "has",
+                payload: AnyCodable([:]),
+                context: context
+            )
+        }
+    }
+
     // MARK: - Special Characters
 
     @Test("Handles special characters in value")
@@ -606,6 +662,202 @@ struct SecureStorageModuleTests {
         #expect(result2After?.dictionaryValue?["value"]?.stringValue == value2)
     }
 
+    // MARK: - Bulk and Listing Actions
+
+    @Test("SetMany and getMany store and retrieve several values")
+    @MainActor
+    func setManyAndGetMany() async throws {
+        let module = makeModule()
+        let context = ModuleContext()
+        let namespace = "test-bulk-\(UUID().uuidString)"
+        defer { try? makeKeychain().scoped(namespace: namespace).deleteAll() }
+
+        _ = try await module.handle(
+            action: "setMany",
+            payload: AnyCodable([
+                "namespace": AnyCodable(namespace),
+                "entries": AnyCodable([
+                    "a": AnyCodable("1"),
+                    "b": AnyCodable("2"),
+                ]),
+            ]),
+            context: context
+        )
+
+        let result = try await module.handle(
+            action: "getMany",
+            payload: AnyCodable([
+                "namespace": AnyCodable(namespace),
+                "keys": AnyCodable([AnyCodable("a"), AnyCodable("b"), AnyCodable("c")]),
+            ]),
+            context: context
+        )
+
+        let values = result?.dictionaryValue?["values"]?.dictionaryValue
+        #expect(values?["a"]?.stringValue == "1")
+        #expect(values?["b"]?.stringValue == "2")
+        #expect(values?["c"]?.isNull == true)
+    }
+
+    @Test("Keys and clear only see their namespace")
+    @MainActor
+    func keysAndClearAreScoped() async throws {
+        let module = makeModule()
+        let context = ModuleContext()
+        let namespace = "test-scope-\(UUID().uuidString)"
+        let testKey = "test-unscoped-\(UUID().uuidString)"
+        defer {
+            cleanup(key: testKey)
+            try? makeKeychain().scoped(namespace: namespace).deleteAll()
+        }
+
+        _ = try await module.handle(
+            action: "set",
+            payload: AnyCodable(["key": AnyCodable(testKey), "value": AnyCodable("outer")]),
+            context: context
+        )
+        _ = try await module.handle(
+            action: "set",
+            payload: AnyCodable([
+                "key": AnyCodable("token"),
+                "value": AnyCodable("inner"),
+                "namespace": AnyCodable(namespace),
+                "accessibility": AnyCodable("afterFirstUnlock"),
+            ]),
+            context: context
+        )
+
+        let keys = try await module.handle(
+            action: "keys",
+            payload: AnyCodable(["namespace": AnyCodable(namespace)]),
+            context: context
+        )
+        #expect(keys?.dictionaryValue?["keys"]?.arrayValue?.compactMap(\.stringValue) == ["token"])
+
+        _ = try await module.handle(
+            action: "clear",
+            payload: AnyCodable(["namespace": AnyCodable(namespace)]),
+            context: context
+        )
+
+        #expect(try makeKeychain().scoped(namespace: namespace).allKeys().isEmpty)
+        #expect(try makeKeychain().retrieve(forKey: testKey) == "outer")
+    }
+
+    @Test("GetMany throws error for non-string keys")
+    @MainActor
+    func getManyThrowsForInvalidKeys() async {
+        let module = makeModule()
+        let context = ModuleContext()
+
+        await #expect(throws: BridgeError.self) {
+            _ = try await module.handle(
+                action: "getMany",
+                payload: AnyCodable(["keys": AnyCodable([AnyCodable(1)])]),
+                context: context
+            )
+        }
+    }
+
+    @Test("SetMany throws error for non-string values")
+    @MainActor
+    func setManyThrowsForInvalidValues() async {
+        let module = makeModule()
+        let context = ModuleContext()
+
+        await #expect(throws: BridgeError.self) {
+            _ = try await module.handle(
+                action: "setMany",
+                payload: AnyCodable(["entries": AnyCodable(["a": AnyCodable(true)])]),
+                context: context
+            )
+        }
+    }
+
+    // MARK: - Biometric Protection
+
+    @Test("Set with requireBiometrics reports why biometrics can't be used")
+    @MainActor
+    func setRequiringBiometricsWithoutEnrollment() async throws {
+        // Simulators and CI hosts have no enrolled biometry
+        let module = makeModule()
+        let context = ModuleContext()
+        let testKey = "test-biometric-\(UUID().uuidString)"
+        defer { cleanup(key: testKey) }
+
+        let result = try await module.handle(
+            action: "set",
+            payload: AnyCodable([
+                "key": AnyCodable(testKey),
+                "value": AnyCodable("secret"),
+                "requireBiometrics": AnyCodable(true),
+                "reason": AnyCodable("Unlock your account"),
+            ]),
+            context: context
+        )
+
+        let dict = result?.dictionaryValue
+        if dict?["success"]?.boolValue == false {
+            #expect(dict?["error"]?.stringValue != nil)
+            #expect(["biometryNotAvailable", "biometryNotEnrolled", "passcodeNotSet"]
+                .contains(dict?["errorCode"]?.stringValue))
+        }
+    }
+
+    @Test("Get returns null without prompting for a missing protected key")
+    @MainActor
+    func getWithReasonReturnsNullForMissingKey() async throws {
+        let module = makeModule()
+        let context = ModuleContext()
+
+        let result = try await module.handle(
+            action: "get",
+            payload: AnyCodable([
+                "key": AnyCodable("missing-\(UUID().uuidString)"),
+                "reason": AnyCodable("Unlock your account"),
+            ]),
+            context: context
+        )
+
+        let dict = result?.dictionaryValue
+        #expect(dict?["value"]?.isNull == true)
+        #expect(dict?["errorCode"] == nil)
+    }
+
+    @Test("Throws error for unknown accessibility")
+    @MainActor
+    func throwsForUnknownAccessibility() async {
+        let module = makeModule()
+        let context = ModuleContext()
+
+        await #expect(throws: BridgeError.self) {
+            _ = try await module.handle(
+                action: "set",
+                payload: AnyCodable([
+                    "key": AnyCodable("key"),
+                    "value": AnyCodable("value"),
+                    "accessibility": AnyCodable("always"),
+                ]),
+                context: context
+            )
+        }
+    }
+
+    @Test("Throws error for empty namespace")
+    @MainActor
+    func throwsForEmptyNamespace() async {
+        let module = makeModule()
+        let context = ModuleContext()
+
+        await #expect(throws: BridgeError.self) {
+            _ = try await module.handle(
+                action: "keys",
+                payload: AnyCodable(["namespace": AnyCodable("")]),
+                context: context
+            )
+        }
+    }
+
     // MARK: - Default Initialization
 
     @Test("Default initialization uses default keychain")
@@ -207,7 +207,11 @@ final class MockStoreKitManagerDelegate: StoreKitManagerDelegate, @unchecked Sen
     var updatedTransactions: [Transaction] = []
     var failedVerifications: [VerificationResult<Transaction>] = []
 
-    func storeKitManager(_: StoreKitManager, didUpdateTransaction transaction: Transaction) {
+    func storeKitManager(
+        _: StoreKitManager,
+        didUpdateTransaction transaction: Transaction,
+        jwsRepresentation _: String
+    ) {
         updatedTransactions.append(transaction)
     }
 
@@ -0,0 +1,94 @@
+/**
+ * PWAKit Binary Data
+ *
+ * Helpers for moving Blob, File and ArrayBuffer data across the bridge,
+ * which only carries JSON.
+ *
+ * @module binary
+ */
+
+import type { BinaryData } from './types';
+
+/** Bytes per chunk of a chunked upload (base64 encoding adds a third) */
+export const BINARY_CHUNK_SIZE = 256 * 1024;
+
+/** Bytes converted to a string per `String.fromCharCode` call */
+const CHAR_CODE_BATCH = 0x8000;
+
+/**
+ * Checks whether a value is binary data accepted by `bridge.upload()`.
+ *
+ * @param value - The value to check
+ * @returns true for a Blob (including File), ArrayBuffer or typed array
+ */
+export function isBinaryData(value: unknown): value is BinaryData {
+  return (
+    (typeof Blob !== 'undefined' && value instanceof Blob) ||
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value)
+  );
+}
+
+/**
+ * Wraps binary data in a Blob, so it can be sliced without copying.
+ *
+ * @param data - The binary data
+ * @param type - MIME type for data that is not already a Blob
+ * @returns The data as a Blob
+ */
+export function toBlob(data: BinaryData, type = ''): Blob {
+  if (data instanceof Blob) {
+    return data;
+  }
+  return new Blob([data as BlobPart], { type });
+}
+
+/**
+ * Reads a Blob's bytes.
+ *
+ * Falls back to FileReader where `Blob.arrayBuffer()` is missing.
+ *
+ * @param blob - The Blob to read
+ * @returns The Blob's bytes
+ */
+export async function readBytes(blob: Blob): Promise<Uint8Array> {
+  if (typeof blob.arrayBuffer === 'function') {
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Base64-encodes bytes.
+ *
+ * @param bytes - The bytes to encode
+ * @returns The base64 string
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += CHAR_CODE_BATCH) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + CHAR_CODE_BATCH));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes a base64 string.
+ *
+ * @param base64 - The base64 string
+ * @returns The decoded bytes
+ */
+export function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -6,23 +6,99 @@
  */
 
 import type {
+  BatchRequest,
+  BinaryData,
+  BinaryPayload,
+  BinaryReference,
   BridgeMessage,
   BridgeResponse,
   BridgeEvent,
   BridgeCallOptions,
+  BridgeCompatibilityMode,
   BridgeConfig,
+  BridgeHandshake,
+  BridgeListenerOptions,
+  BridgeReadyInfo,
+  BridgeTransport,
+  EnabledFeatures,
+  FeatureName,
   PendingCallback,
 } from './types';
 
 import {
   BridgeError,
+  BridgeAbortError,
   BridgeTimeoutError,
   BridgeUnavailableError,
+  BridgeIncompatibleError,
+  FeatureDisabledError,
+  createBridgeError,
 } from './types';
 
+import type {
+  ActionArgs,
+  ActionName,
+  ActionResult,
+  BatchResults,
+  ModuleName,
+  UntypedModuleName,
+} from './contract';
+
+import type { BridgeEventMap } from './events';
+import type { BridgeCallContext, BridgeInterceptor, BridgeRetryDecision } from './interceptors';
+
+import { WebKitTransport } from './transport';
+import { BridgeStream } from './stream';
+import { BINARY_CHUNK_SIZE, encodeBase64, readBytes, toBlob } from './binary';
+import { PROTOCOL_VERSION, SDK_VERSION } from './version';
+
 /** Default timeout for bridge calls in milliseconds */
 const DEFAULT_TIMEOUT = 30000;
 
+/** Maximum number of events buffered while no listener is attached */
+const MAX_BUFFERED_EVENTS = 50;
+
+/** How long to wait for native to answer the handshake in milliseconds */
+const HANDSHAKE_TIMEOUT = 2000;
+
+/** How long queued calls wait for the bridge in milliseconds */
+const DEFAULT_MAX_QUEUE_WAIT = 10000;
+
+/** How often to check whether the bridge has become available in milliseconds */
+const AVAILABILITY_POLL_INTERVAL = 100;
+
+/** Every feature flag in `pwa-config.json` */
+const FEATURE_NAMES: readonly FeatureName[] = [
+  'notifications',
+  'haptics',
+  'biometrics',
+  'secureStorage',
+  'healthkit',
+  'iap',
+  'share',
+  'print',
+  'clipboard',
+  'cameraPermission',
+  'microphonePermission',
+  'locationPermission',
+];
+
+/** Modules gated by a feature flag (each feature flag names its module) */
+const FEATURE_MODULES: ReadonlySet<string> = new Set(FEATURE_NAMES);
+
+/** Modules built into the native shell */
+const BUILT_IN_MODULES: ReadonlySet<string> = new Set(['platform', 'app', ...FEATURE_NAMES]);
+
+/** Response ID native uses for messages it could not parse */
+const PARSE_ERROR_ID = 'parse-error';
+
+/**
+ * Builds a features map with every feature set to the same value.
+ */
+function allFeatures(enabled: boolean): EnabledFeatures {
+  return Object.fromEntries(FEATURE_NAMES.map((name) => [name, enabled])) as EnabledFeatures;
+}
+
 /**
  * Generates a UUID v4 string for request IDs.
  */
@@ -74,6 +150,57 @@ export class PWABridge {
   /** Whether the bridge has been initialized */
   private initialized = false;
 
+  /** Transport used to exchange messages with native */
+  private transport: BridgeTransport;
+
+  /** Number of `on()` listeners per event type that take buffered events */
+  private listenerCounts: Map<string, number> = new Map();
+
+  /** Events received while no `on()` listener was attached for their type */
+  private bufferedEvents: BridgeEvent[] = [];
+
+  /** Whether calls made in the same microtask are sent as one batch */
+  private coalesce: boolean;
+
+  /** Messages waiting for the next coalesced flush */
+  private outbox: BridgeMessage[] = [];
+
+  /** Interceptors run around every call and event */
+  private interceptors: BridgeInterceptor[];
+
+  /** Handshake made when the bridge initialized (null result: native did not answer) */
+  private handshake: Promise<BridgeHandshake | null> | null = null;
+
+  /** Whether messages to feature modules are held until native answers the handshake */
+  private handshakePending = false;
+
+  /** Request ID of the pending handshake */
+  private handshakeId: string | null = null;
+
+  /** Features reported by the handshake, once it has completed */
+  private features: EnabledFeatures | null = null;
+
+  /** The shell's handshake, once it has completed */
+  private shell: BridgeHandshake | null = null;
+
+  /** Reaction to calls the shell does not support */
+  private compatibility: BridgeCompatibilityMode;
+
+  /** Incompatibilities already warned about */
+  private warnedIncompatibilities: Set<string> = new Set();
+
+  /** Whether calls made while unavailable wait for the bridge */
+  private queueUntilAvailable: boolean;
+
+  /** How long queued calls wait for the bridge */
+  private maxQueueWait: number;
+
+  /** Callbacks waiting for the bridge to become available */
+  private availabilityWaiters: Set<() => void> = new Set();
+
+  /** Timer polling for the bridge while callbacks are waiting */
+  private availabilityTimer: ReturnType<typeof setInterval> | null = null;
+
   /**
    * Creates a new PWABridge instance.
    *
@@ -82,6 +209,12 @@ export class PWABridge {
   constructor(config: BridgeConfig = {}) {
     this.defaultTimeout = config.defaultTimeout ?? DEFAULT_TIMEOUT;
     this.debug = config.debug ?? false;
+    this.transport = config.transport ?? new WebKitTransport();
+    this.coalesce = config.coalesce ?? false;
+    this.interceptors = [...(config.interceptors ?? [])];
+    this.compatibility = config.compatibility ?? 'warn';
+    this.queueUntilAvailable = config.queueUntilAvailable ?? false;
+    this.maxQueueWait = config.maxQueueWait ?? DEFAULT_MAX_QUEUE_WAIT;
 
     // Auto-initialize if the bridge is available
     if (this.isAvailable()) {
@@ -93,92 +226,819 @@ export class PWABridge {
    * Checks if the native bridge is available.
    *
    * Returns true when running inside the PWAKit native app wrapper,
-   * false when running in a regular browser.
+   * false when running in a regular browser (unless a custom transport,
+   * such as the MockTransport, has been configured).
    *
    * @returns true if the bridge is available
    */
   public isAvailable(): boolean {
+    return this.transport.isAvailable();
+  }
+
+  /**
+   * Replaces the transport used to reach native.
+   *
+   * Useful for pointing the shared `bridge` singleton (and therefore every
+   * SDK module) at a MockTransport during development or in tests.
+   *
+   * Events buffered from the previous transport are discarded.
+   *
+   * @param transport - The transport to use for subsequent calls
+   *
+   * @example
+   * ```typescript
+   * import { bridge } from '@pwa-kit/sdk';
+   * import { MockTransport } from '@pwa-kit/sdk/mock';
+   *
+   * if (!bridge.isAvailable()) {
+   *   bridge.setTransport(new MockTransport());
+   * }
+   * ```
+   */
+  public setTransport(transport: BridgeTransport): void {
+    this.transport = transport;
+    this.initialized = false;
+    this.bufferedEvents = [];
+    this.handshake = null;
+    this.handshakePending = false;
+    this.handshakeId = null;
+    this.features = null;
+    this.shell = null;
+    this.warnedIncompatibilities.clear();
+
+    if (this.isAvailable()) {
+      this.initialize();
+    }
+  }
+
+  /**
+   * Initializes the bridge by connecting response and event handlers
+   * to the transport, then starts the handshake that exchanges versions
+   * and reports which features and actions the shell supports.
+   *
+   * This is called automatically when creating a PWABridge instance if the
+   * bridge is available. You can also call it manually if the bridge becomes
+   * available later (e.g., after async loading).
+   */
+  public initialize(): void {
+    if (this.initialized) {
+      return;
+    }
+
+    this.transport.connect({
+      handleResponse: (response: BridgeResponse) => {
+        this.handleResponse(response);
+      },
+      handleEvent: (event: BridgeEvent) => {
+        this.handleEvent(event);
+      },
+    });
+
+    this.initialized = true;
+    this.log('Bridge initialized');
+
+    this.handshake = this.startHandshake();
+    this.notifyAvailable();
+  }
+
+  /**
+   * Waits for the native bridge to become available.
+   *
+   * Resolves immediately inside the native app. Otherwise checks
+   * periodically, for example while the page loads before WebKit has
+   * injected the message handler, and initializes the bridge once it
+   * appears.
+   *
+   * @param options - Optional wait options (timeout defaults to the max queue wait)
+   * @returns A promise that resolves once the bridge is available
+   * @throws {BridgeUnavailableError} If the bridge is still unavailable after the timeout
+   * @throws {BridgeAbortError} If the wait is aborted via `options.signal`
+   *
+   * @example
+   * ```typescript
+   * await bridge.whenAvailable({ timeout: 5000 });
+   * const info = await bridge.call('platform', 'getInfo');
+   * ```
+   */
+  public whenAvailable(options?: BridgeCallOptions): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.isAvailable()) {
+        this.initialize();
+        resolve();
+        return;
+      }
+
+      const signal = options?.signal;
+      if (signal?.aborted) {
+        reject(new BridgeAbortError('Waiting for the PWAKit bridge was aborted', signal.reason));
+        return;
+      }
+
+      const timeout = options?.timeout ?? this.maxQueueWait;
+      const stopWaiting = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+        this.availabilityWaiters.delete(onAvailable);
+        if (this.availabilityWaiters.size === 0) {
+          this.stopPolling();
+        }
+      };
+      const onAvailable = () => {
+        stopWaiting();
+        resolve();
+      };
+      const onAbort = () => {
+        stopWaiting();
+        reject(new BridgeAbortError('Waiting for the PWAKit bridge was aborted', signal!.reason));
+      };
+      const timeoutId = setTimeout(() => {
+        stopWaiting();
+        reject(
+          new BridgeUnavailableError(
+            `PWAKit bridge did not become available within ${timeout}ms`
+          )
+        );
+      }, timeout);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.availabilityWaiters.add(onAvailable);
+      this.startPolling();
+    });
+  }
+
+  /**
+   * Enables or disables queueing.
+   *
+   * While enabled, calls made while the bridge is unavailable wait for it
+   * (up to the max queue wait) instead of rejecting with
+   * BridgeUnavailableError. Queued calls are sent individually once the
+   * bridge appears, and their own timeout starts then.
+   *
+   * @param enabled - Whether to queue calls
+   * @param maxWait - How long queued calls wait in milliseconds (default: unchanged)
+   */
+  public setQueueing(enabled: boolean, maxWait?: number): void {
+    this.queueUntilAvailable = enabled;
+    this.maxQueueWait = maxWait ?? this.maxQueueWait;
+  }
+
+  /**
+   * Starts polling for the bridge, unless already polling.
+   *
+   * @internal
+   */
+  private startPolling(): void {
+    if (this.availabilityTimer !== null) {
+      return;
+    }
+
+    this.availabilityTimer = setInterval(() => {
+      if (this.isAvailable()) {
+        this.initialize();
+        this.notifyAvailable();
+      }
+    }, AVAILABILITY_POLL_INTERVAL);
+  }
+
+  /**
+   * Stops polling for the bridge.
+   *
+   * @internal
+   */
+  private stopPolling(): void {
+    if (this.availabilityTimer !== null) {
+      clearInterval(this.availabilityTimer);
+      this.availabilityTimer = null;
+    }
+  }
+
+  /**
+   * Resolves every `whenAvailable()` waiter once the bridge is available.
+   *
+   * @internal
+   */
+  private notifyAvailable(): void {
+    if (this.availabilityWaiters.size === 0 || !this.isAvailable()) {
+      return;
+    }
+
+    this.log('Bridge available');
+    for (const onAvailable of [...this.availabilityWaiters]) {
+      onAvailable();
+    }
+  }
+
+  /**
+   * Exchanges versions with native and asks which features are enabled.
+   *
+   * Resolves with null when the transport has no handshake or native does
+   * not answer in time. Shells that predate the handshake can't parse it and
+   * answer with a parse error, which also resolves with null straight away.
+   *
+   * @internal
+   */
+  private startHandshake(): Promise<BridgeHandshake | null> {
+    const transport = this.transport;
+    if (!transport.handshake) {
+      return Promise.resolve(null);
+    }
+
+    this.handshakePending = true;
+    return new Promise<BridgeHandshake | null>((resolve) => {
+      const id = generateUUID();
+      this.handshakeId = id;
+      const timeoutId = setTimeout(() => {
+        this.callbacks.delete(id);
+        this.log('No handshake response; assuming every feature is enabled');
+        resolve(null);
+      }, HANDSHAKE_TIMEOUT);
+
+      this.callbacks.set(id, {
+        resolve: (data) => resolve(data as BridgeHandshake),
+        reject: () => resolve(null),
+        timeoutId,
+      });
+
+      try {
+        transport.handshake!({ id, sdkVersion: SDK_VERSION, protocolVersion: PROTOCOL_VERSION });
+      } catch {
+        clearTimeout(timeoutId);
+        this.callbacks.delete(id);
+        resolve(null);
+      }
+    }).then((handshake) => {
+      if (this.transport === transport) {
+        this.handshakePending = false;
+        this.handshakeId = null;
+      }
+
+      // Ignore handshakes from a transport that has since been replaced
+      if (handshake && this.transport === transport) {
+        this.features = { ...allFeatures(true), ...handshake.features };
+        this.shell = handshake;
+        if (handshake.protocolVersion !== PROTOCOL_VERSION) {
+          console.warn('[PWABridge]', this.protocolMismatch(handshake));
+        }
+      }
+      return handshake;
+    });
+  }
+
+  /**
+   * Resolves once the handshake with native has completed.
+   *
+   * The result describes both sides: the SDK and protocol versions, the
+   * native shell and app versions, the enabled features and the actions
+   * each native module supports. Shells that predate the handshake resolve
+   * with null shell fields.
+   *
+   * Rejects with BridgeUnavailableError outside the native app, and with
+   * BridgeIncompatibleError when `compatibility` is `'error'` and the shell
+   * speaks a different protocol version (otherwise a warning is logged).
+   *
+   * @example
+   * ```typescript
+   * const { shellVersion, modules } = await bridge.ready;
+   * if (modules?.notifications?.includes('getDelivered')) {
+   *   showDeliveredNotifications();
+   * }
+   * ```
+   */
+  public get ready(): Promise<BridgeReadyInfo> {
+    if (!this.isAvailable()) {
+      return Promise.reject(new BridgeUnavailableError());
+    }
+
+    if (!this.initialized) {
+      this.initialize();
+    }
+
+    return this.handshake!.then((handshake) => {
+      if (
+        handshake &&
+        handshake.protocolVersion !== PROTOCOL_VERSION &&
+        this.compatibility === 'error'
+      ) {
+        throw new BridgeIncompatibleError(this.protocolMismatch(handshake));
+      }
+
+      return {
+        sdkVersion: SDK_VERSION,
+        protocolVersion: PROTOCOL_VERSION,
+        shellVersion: handshake?.shellVersion ?? null,
+        shellProtocolVersion: handshake?.protocolVersion ?? null,
+        appVersion: handshake?.appVersion ?? null,
+        features: { ...allFeatures(true), ...handshake?.features },
+        modules: handshake?.modules ?? null,
+      };
+    });
+  }
+
+  /**
+   * Describes a protocol version mismatch between the SDK and the shell.
+   *
+   * @internal
+   */
+  private protocolMismatch(handshake: BridgeHandshake): string {
     return (
-      typeof window !== 'undefined' &&
-      typeof window.webkit?.messageHandlers?.pwakit?.postMessage === 'function'
+      `PWAKit shell ${handshake.shellVersion} speaks bridge protocol v${handshake.protocolVersion}, ` +
+      `but @pwa-kit/sdk ${SDK_VERSION} speaks v${PROTOCOL_VERSION}. ` +
+      'Update the SDK or rebuild the app with a matching PWAKit version.'
     );
   }
 
   /**
-   * Initializes the bridge by setting up response and event handlers.
+   * Returns which features are enabled in the running app.
+   *
+   * The result comes from the `features` map in `pwa-config.json`, as
+   * reported by native when the bridge initialized. Outside the native app
+   * every feature is reported as disabled. Shells that predate the handshake
+   * report every feature as enabled; calls to disabled modules still fail
+   * with FeatureDisabledError from native.
+   *
+   * @returns The enabled state of every feature
+   *
+   * @example
+   * ```typescript
+   * const features = await bridge.getEnabledFeatures();
+   * if (features.iap) {
+   *   showStore();
+   * }
+   * ```
+   */
+  public async getEnabledFeatures(): Promise<EnabledFeatures> {
+    if (!this.isAvailable()) {
+      return allFeatures(false);
+    }
+
+    if (!this.initialized) {
+      this.initialize();
+    }
+
+    await this.handshake;
+    return { ...(this.features ?? allFeatures(true)) };
+  }
+
+  /**
+   * Returns an error for calls to a module whose feature is known to be
+   * disabled, so they fail without a round trip to native.
+   *
+   * @internal
+   */
+  private featureDisabledError(module: string, action: string): FeatureDisabledError | null {
+    if (this.features?.[module as FeatureName] !== false) {
+      return null;
+    }
+    return new FeatureDisabledError(`Feature disabled: ${module}`, { module, action });
+  }
+
+  /**
+   * Checks a call to a built-in module against the actions the shell
+   * reported in the handshake. Custom modules are left to native.
+   *
+   * Returns an error when the shell does not support the call and
+   * `compatibility` is `'error'`; otherwise warns once and returns null.
+   *
+   * @internal
+   */
+  private incompatibleError(module: string, action: string): BridgeIncompatibleError | null {
+    const modules = this.shell?.modules;
+    const actions = modules?.[module];
+    if (!modules || !BUILT_IN_MODULES.has(module) || actions?.includes(action)) {
+      return null;
+    }
+
+    const shell = `the installed PWAKit shell (${this.shell!.shellVersion})`;
+    const message = actions
+      ? `${module}.${action} is not supported by ${shell}`
+      : `Module '${module}' is not registered in ${shell}`;
+
+    if (this.compatibility === 'error') {
+      return new BridgeIncompatibleError(message, { module, action });
+    }
+
+    const key = `${module}.${action}`;
+    if (!this.warnedIncompatibilities.has(key)) {
+      this.warnedIncompatibilities.add(key);
+      console.warn('[PWABridge]', message);
+    }
+    return null;
+  }
+
+  /**
+   * Calls a native module action with the given payload.
+   *
+   * Calls to modules described by the ModuleContract are fully typed: the
+   * action name, payload and result are all checked at compile time. Pass an
+   * explicit result type (`bridge.call<T>(...)`) to call any other module,
+   * or to opt out of the contract.
+   *
+   * @param module - The target module name (e.g., 'platform', 'haptics')
+   * @param action - The action to perform (e.g., 'getInfo', 'impact')
+   * @param payload - Action-specific payload data (optional when the action takes none)
+   * @param options - Optional call options (timeout, abort signal)
+   * @returns A promise that resolves with the response data
+   * @throws {BridgeUnavailableError} If the bridge is not available
+   * @throws {BridgeTimeoutError} If the call times out
+   * @throws {BridgeAbortError} If the call is aborted via `options.signal`
+   * @throws {BridgeError} If the native module returns an error
+   *
+   * @example
+   * ```typescript
+   * // Get platform info (typed as the contract's getInfo result)
+   * const info = await bridge.call('platform', 'getInfo');
+   *
+   * // Trigger haptic feedback with payload
+   * await bridge.call('haptics', 'impact', { style: 'heavy' });
+   *
+   * // Call with custom timeout
+   * const result = await bridge.call('secureStorage', 'get', { key: 'data' }, { timeout: 5000 });
+   *
+   * // Abandon a call (native is told to stop)
+   * const controller = new AbortController();
+   * const auth = bridge.call('biometrics', 'authenticate', { reason: 'Unlock' }, {
+   *   signal: controller.signal,
+   * });
+   * controller.abort();
+   * ```
+   */
+  public call<M extends ModuleName, A extends ActionName<M>>(
+    module: M,
+    action: A,
+    ...args: ActionArgs<M, A>
+  ): Promise<ActionResult<M, A>>;
+
+  /**
+   * Calls a native module action with the given payload.
+   *
+   * Untyped form for modules outside the ModuleContract.
+   *
+   * @typeParam T - The expected response data type
+   * @param module - The target module name
+   * @param action - The action to perform
+   * @param payload - Optional action-specific payload data
+   * @param options - Optional call options (timeout, abort signal)
+   * @returns A promise that resolves with the response data
+   *
+   * @example
+   * ```typescript
+   * const greeting = await bridge.call<{ message: string }>('helloWorld', 'greet', {
+   *   name: 'Developer',
+   * });
+   * ```
+   */
+  public call<T = unknown, M extends string = string>(
+    module: M & UntypedModuleName<M>,
+    action: string,
+    payload?: unknown,
+    options?: BridgeCallOptions
+  ): Promise<T>;
+
+  public call(
+    module: string,
+    action: string,
+    payload?: unknown,
+    options?: BridgeCallOptions
+  ): Promise<unknown> {
+    return this.request(module, action, payload, options);
+  }
+
+  /**
+   * Sends several calls to native in a single message.
+   *
+   * Native runs the calls concurrently and answers them together, so a
+   * batch costs one `postMessage` and one response evaluation instead of
+   * one of each per call. Each call still settles on its own: the returned
+   * array holds one promise per request, in order, and a failing call does
+   * not affect the others. Timeouts and abort signals apply per request.
+   *
+   * @param requests - The calls to make
+   * @returns One promise per request, typed by the ModuleContract where possible
+   *
+   * @example
+   * ```typescript
+   * const [info, camera, entitlements] = await Promise.all(
+   *   bridge.batch([
+   *     { module: 'platform', action: 'getInfo' },
+   *     { module: 'cameraPermission', action: 'checkPermission' },
+   *     { module: 'iap', action: 'getEntitlements' },
+   *   ])
+   * );
+   * ```
+   */
+  public batch<const R extends readonly BatchRequest[]>(requests: R): BatchResults<R> {
+    const outbox: BridgeMessage[] = [];
+    const results = requests.map(({ module, action, payload, options }) =>
+      this.request(module, action, payload, options, outbox)
+    );
+
+    this.postMessages(outbox);
+    return results as unknown as BatchResults<R>;
+  }
+
+  /**
+   * Enables or disables coalescing.
+   *
+   * While enabled, calls made in the same microtask (for example, several
+   * module calls started together at startup) are sent as one batch message.
+   * Responses still settle each call individually.
+   *
+   * @param enabled - Whether to coalesce calls
+   */
+  public setCoalescing(enabled: boolean): void {
+    this.coalesce = enabled;
+  }
+
+  /**
+   * Adds an interceptor that runs around every call and event.
+   *
+   * Interceptors run in the order they were added. Calls already in flight
+   * keep the interceptors they started with.
+   *
+   * @param interceptor - The interceptor to add
+   * @returns A function to remove the interceptor
+   *
+   * @example
+   * ```typescript
+   * import { bridge, createRedactionInterceptor, createTimingInterceptor } from '@pwa-kit/sdk';
+   *
+   * bridge.use(createRedactionInterceptor());
+   * const timing = createTimingInterceptor();
+   * bridge.use(timing);
+   * ```
+   */
+  public use(interceptor: BridgeInterceptor): () => void {
+    this.interceptors = [...this.interceptors, interceptor];
+
+    return () => {
+      this.interceptors = this.interceptors.filter((existing) => existing !== interceptor);
+    };
+  }
+
+  /**
+   * Uploads binary data to native ahead of the call that uses it.
+   *
+   * Returns a reference to put in the call's payload in place of base64
+   * data. The upload is posted in one request to the shell's custom scheme
+   * when the handshake reports one, and otherwise sent as base64 chunks of
+   * 256 KiB, yielding to the event loop between chunks so large files
+   * don't stall the page. Shells without binary uploads get the data as a
+   * base64 string.
+   *
+   * Native holds an upload until a call claims it, or for five minutes.
+   *
+   * @param data - The data to upload (Blob, File, ArrayBuffer or typed array)
+   * @param options - Optional abort signal
+   * @returns A reference to the upload, or base64 for older shells
+   * @throws {BridgeUnavailableError} If the bridge is not available
+   * @throws {BridgeAbortError} If the upload is aborted via `options.signal`
+   *
+   * @example
+   * ```typescript
+   * const pdf = await fetch('/invoice.pdf').then((response) => response.blob());
+   * await bridge.call('print', 'print', { jobName: 'Invoice', data: await bridge.upload(pdf) });
+   * ```
+   */
+  public async upload(
+    data: BinaryData,
+    options?: Pick<BridgeCallOptions, 'signal'>
+  ): Promise<BinaryPayload> {
+    if (!this.isAvailable()) {
+      throw new BridgeUnavailableError();
+    }
+    if (!this.initialized) {
+      this.initialize();
+    }
+
+    const blob = toBlob(data);
+    const signal = options?.signal;
+    const id = generateUUID();
+    const throwIfAborted = () => {
+      if (signal?.aborted) {
+        this.cancelRequest(id);
+        throw new BridgeAbortError('Binary upload was aborted', signal.reason, { requestId: id });
+      }
+    };
+
+    throwIfAborted();
+    const binaryTransfer = (await this.handshake)?.binaryTransfer;
+    if (!binaryTransfer || !this.transport.sendBinaryChunk) {
+      this.log('Shell does not support binary uploads, sending base64');
+      const base64 = encodeBase64(await readBytes(blob));
+      throwIfAborted();
+      return base64;
+    }
+
+    const reference: BinaryReference = { $binary: id, size: blob.size, type: blob.type };
+
+    // Prefer a single request to the custom scheme, then fall back to chunks
+    if (binaryTransfer.scheme && this.transport.uploadBinary) {
+      try {
+        const url = `${binaryTransfer.scheme}://upload/${id}`;
+        await this.transport.uploadBinary(url, await readBytes(blob), signal);
+        this.log(`Uploaded ${blob.size} bytes to ${url}`);
+        return reference;
+      } catch (error) {
+        throwIfAborted();
+        this.log('Custom scheme upload failed, sending chunks:', error);
+      }
+    }
+
+    for (let index = 0, offset = 0; ; index++) {
+      throwIfAborted();
+      const end = Math.min(offset + BINARY_CHUNK_SIZE, blob.size);
+      const bytes = await readBytes(blob.slice(offset, end));
+      throwIfAborted();
+
+      const final = end >= blob.size;
+      this.transport.sendBinaryChunk({ id, index, data: encodeBase64(bytes), final });
+      if (final) {
+        break;
+      }
+
+      offset = end;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    this.log(`Uploaded ${blob.size} bytes in chunks`);
+    return reference;
+  }
+
+  /**
+   * Runs a call through the interceptors, if any.
+   *
+   * @param module - The target module name
+   * @param action - The action to perform
+   * @param payload - Optional action-specific payload data
+   * @param options - Optional call options (timeout, abort signal)
+   * @param outbox - Collects the message instead of sending it (used by `batch()`)
+   * @returns A promise that resolves with the response data
+   * @internal
+   */
+  private request(
+    module: string,
+    action: string,
+    payload: unknown,
+    options: BridgeCallOptions | undefined,
+    outbox?: BridgeMessage[]
+  ): Promise<unknown> {
+    if (this.interceptors.length === 0) {
+      return this.dispatch(module, action, payload, options, payload, outbox);
+    }
+    return this.intercept(module, action, payload, options, outbox);
+  }
+
+  /**
+   * Sends a call through the interceptor hooks, retrying while an `onError`
+   * hook asks to.
    *
-   * This is called automatically when creating a PWABridge instance if the
-   * bridge is available. You can also call it manually if the bridge becomes
-   * available later (e.g., after async loading).
+   * The first attempt is dispatched synchronously so `batch()` and
+   * coalescing still collect its message. Retries are sent on their own.
+   *
+   * @internal
    */
-  public initialize(): void {
-    if (this.initialized) {
-      return;
-    }
+  private async intercept(
+    module: string,
+    action: string,
+    payload: unknown,
+    options: BridgeCallOptions | undefined,
+    outbox?: BridgeMessage[]
+  ): Promise<unknown> {
+    const interceptors = this.interceptors;
+    const context: Omit<BridgeCallContext, 'attempt'> & { attempt: number } = {
+      module,
+      action,
+      payload,
+      logPayload: payload,
+      options: options ?? {},
+      attempt: 0,
+    };
 
-    if (typeof window === 'undefined') {
-      return;
-    }
+    for (;;) {
+      context.attempt += 1;
+      context.logPayload = context.payload;
+      for (const interceptor of interceptors) {
+        interceptor.beforeSend?.(context);
+      }
 
-    // Create or extend the global pwakit object
-    window.pwakit = window.pwakit ?? {
-      postMessage: (message: string) => {
-        window.webkit?.messageHandlers?.pwakit?.postMessage(message);
-      },
-      _callbacks: {},
-      _handleResponse: () => {},
-      _handleEvent: () => {},
-    };
+      let result: unknown;
+      try {
+        result = await this.dispatch(
+          module,
+          action,
+          context.payload,
+          context.options,
+          context.logPayload,
+          context.attempt === 1 ? outbox : undefined
+        );
+      } catch (error) {
+        let decision: BridgeRetryDecision | undefined;
+        for (const interceptor of interceptors) {
+          const hookDecision = interceptor.onError?.(context, error as Error);
+          decision ??= hookDecision ?? undefined;
+        }
+        if (!decision) {
+          throw error;
+        }
 
-    // Set up the response handler
-    window.pwakit._handleResponse = (response: BridgeResponse) => {
-      this.handleResponse(response);
-    };
+        this.log(`Retrying ${module}.${action} in ${Math.round(decision.retryAfter)}ms`);
+        await this.wait(decision.retryAfter, context.options.signal, module, action);
+        continue;
+      }
 
-    // Set up the event handler
-    window.pwakit._handleEvent = (event: BridgeEvent) => {
-      this.handleEvent(event);
-    };
+      for (const interceptor of interceptors) {
+        interceptor.afterResponse?.(context, result);
+      }
+      return result;
+    }
+  }
 
-    this.initialized = true;
-    this.log('Bridge initialized');
+  /**
+   * Waits before a retry, rejecting early if the call is aborted.
+   *
+   * @internal
+   */
+  private wait(
+    delay: number,
+    signal: AbortSignal | undefined,
+    module: string,
+    action: string
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.abortError(signal, { module, action }));
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(this.abortError(signal!, { module, action }));
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
-   * Calls a native module action with the given payload.
+   * Creates the pending request for a call and sends, queues or collects
+   * its message.
    *
-   * @typeParam T - The expected response data type
-   * @param module - The target module name (e.g., 'platform', 'haptics')
-   * @param action - The action to perform (e.g., 'getInfo', 'impact')
+   * @param module - The target module name
+   * @param action - The action to perform
    * @param payload - Optional action-specific payload data
-   * @param options - Optional call options (timeout, etc.)
+   * @param options - Optional call options (timeout, abort signal)
+   * @param logPayload - The payload as shown in debug logs
+   * @param outbox - Collects the message instead of sending it (used by `batch()`)
    * @returns A promise that resolves with the response data
-   * @throws {BridgeUnavailableError} If the bridge is not available
-   * @throws {BridgeTimeoutError} If the call times out
-   * @throws {BridgeError} If the native module returns an error
-   *
-   * @example
-   * ```typescript
-   * // Get platform info
-   * const info = await bridge.call<PlatformInfo>('platform', 'getInfo');
-   *
-   * // Trigger haptic feedback with payload
-   * await bridge.call('haptics', 'impact', { style: 'heavy' });
-   *
-   * // Call with custom timeout
-   * const result = await bridge.call('storage', 'get', { key: 'data' }, { timeout: 5000 });
-   * ```
+   * @internal
    */
-  public call<T = unknown>(
+  private dispatch(
     module: string,
     action: string,
-    payload?: unknown,
-    options?: BridgeCallOptions
-  ): Promise<T> {
+    payload: unknown,
+    options: BridgeCallOptions | undefined,
+    logPayload: unknown,
+    outbox?: BridgeMessage[]
+  ): Promise<unknown> {
     return new Promise((resolve, reject) => {
-      // Check if bridge is available
+      // Check if bridge is available, or wait for it in queue mode
       if (!this.isAvailable()) {
-        reject(new BridgeUnavailableError());
+        if (!this.queueUntilAvailable) {
+          reject(new BridgeUnavailableError());
+          return;
+        }
+
+        this.log(`Queueing ${module}.${action} until the bridge is available`);
+        const signal = options?.signal;
+        this.whenAvailable({ timeout: this.maxQueueWait, signal }).then(
+          () => this.dispatch(module, action, payload, options, logPayload).then(resolve, reject),
+          (error: unknown) => {
+            reject(
+              error instanceof BridgeAbortError
+                ? this.abortError(signal!, { module, action })
+                : error
+            );
+          }
+        );
+        return;
+      }
+
+      // Don't send calls that were aborted before they started
+      const signal = options?.signal;
+      if (signal?.aborted) {
+        reject(this.abortError(signal, { module, action }));
+        return;
+      }
+
+      // Don't send calls to modules disabled in pwa-config.json, or that
+      // the shell does not support (when compatibility is 'error')
+      const unsupported =
+        this.featureDisabledError(module, action) ?? this.incompatibleError(module, action);
+      if (unsupported) {
+        reject(unsupported);
         return;
       }
 
@@ -198,11 +1058,22 @@ export class PWABridge {
         payload,
       };
 
+      // Abandon the request and tell native to stop working on it
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        this.callbacks.delete(id);
+        this.cancelRequest(id);
+        reject(this.abortError(signal!, { requestId: id, module, action }));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       // Set up timeout
       const timeout = options?.timeout ?? this.defaultTimeout;
       const timeoutId = setTimeout(() => {
-        // Clean up the callback
+        // Clean up the callback and tell native to stop
+        signal?.removeEventListener('abort', onAbort);
         this.callbacks.delete(id);
+        this.cancelRequest(id);
 
         // Reject with timeout error
         reject(
@@ -216,29 +1087,303 @@ export class PWABridge {
 
       // Store the callback
       this.callbacks.set(id, {
-        resolve: resolve as (value: unknown) => void,
-        reject,
+        resolve: (value) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
         timeoutId,
       });
 
       // Send the message
-      this.log(`Sending: ${module}.${action}`, payload);
+      this.log(`Sending: ${module}.${action}`, logPayload);
+      if (outbox) {
+        outbox.push(message);
+      } else if (this.coalesce) {
+        this.enqueue(message);
+      } else {
+        this.postMessages([message]);
+      }
+    });
+  }
+
+  /**
+   * Queues a message for the next coalesced flush.
+   *
+   * @param message - The message to queue
+   * @internal
+   */
+  private enqueue(message: BridgeMessage): void {
+    this.outbox.push(message);
+    if (this.outbox.length === 1) {
+      queueMicrotask(() => {
+        const messages = this.outbox;
+        this.outbox = [];
+        this.postMessages(messages);
+      });
+    }
+  }
+
+  /**
+   * Sends messages to native, as one batch when the transport supports it.
+   *
+   * Messages to feature modules are held until native answers the
+   * handshake, so calls made right after load to a disabled feature fail
+   * with FeatureDisabledError instead of reaching native. The wait counts
+   * towards each call's timeout and ends after HANDSHAKE_TIMEOUT for shells
+   * that don't answer. Other messages are sent straight away, unless they
+   * share a batch with a held one.
+   *
+   * Messages whose calls were aborted or timed out before sending are
+   * dropped. A send failure rejects the affected calls.
+   *
+   * @param messages - The messages to send
+   * @internal
+   */
+  private postMessages(messages: BridgeMessage[]): void {
+    if (
+      this.handshakePending &&
+      messages.some((message) => FEATURE_MODULES.has(message.module))
+    ) {
+      void this.handshake!.then(() => this.postMessages(messages));
+      return;
+    }
+
+    const pending = messages.filter(
+      (message) => this.callbacks.has(message.id) && !this.rejectUnsupported(message)
+    );
+    if (pending.length === 0) {
+      return;
+    }
+
+    if (pending.length > 1 && this.transport.sendBatch) {
+      this.log(`Sending batch of ${pending.length} messages`);
       try {
-        window.webkit?.messageHandlers?.pwakit?.postMessage(
-          JSON.stringify(message)
-        );
+        this.transport.sendBatch(pending);
       } catch (error) {
-        // Clean up on send error
-        clearTimeout(timeoutId);
-        this.callbacks.delete(id);
-        reject(
-          new BridgeError(
-            `Failed to send message: ${error instanceof Error ? error.message : String(error)}`,
+        pending.forEach((message) => this.failSend(message, error));
+      }
+      return;
+    }
+
+    for (const message of pending) {
+      try {
+        this.transport.send(message);
+      } catch (error) {
+        this.failSend(message, error);
+      }
+    }
+  }
+
+  /**
+   * Rejects a call to a module the handshake reported as disabled, or that
+   * the shell does not support, before its message is sent.
+   *
+   * @param message - The message about to be sent
+   * @returns Whether the call was rejected
+   * @internal
+   */
+  private rejectUnsupported(message: BridgeMessage): boolean {
+    const { id, module, action } = message;
+    const error =
+      this.featureDisabledError(module, action) ?? this.incompatibleError(module, action);
+    const callback = this.callbacks.get(id);
+    if (!error || !callback) {
+      return false;
+    }
+
+    clearTimeout(callback.timeoutId);
+    this.callbacks.delete(id);
+    callback.reject(error);
+    return true;
+  }
+
+  /**
+   * Rejects a call whose message could not be sent.
+   *
+   * @param message - The message that failed to send
+   * @param error - The error thrown by the transport
+   * @internal
+   */
+  private failSend(message: BridgeMessage, error: unknown): void {
+    const callback = this.callbacks.get(message.id);
+    if (!callback) {
+      return;
+    }
+
+    clearTimeout(callback.timeoutId);
+    this.callbacks.delete(message.id);
+    callback.reject(
+      new BridgeError(
+        `Failed to send message: ${error instanceof Error ? error.message : String(error)}`,
+        { requestId: message.id, module: message.module, action: message.action }
+      )
+    );
+  }
+
+  /**
+   * Calls a native module action that reports progress or streams partial
+   * results before completing.
+   *
+   * Native may send any number of `progress` and `chunk` responses for the
+   * request before the final one. The timeout applies to the gap between
+   * responses rather than to the whole stream. Cancelling the stream (or
+   * breaking out of a `for await` loop) notifies native via the transport,
+   * as does aborting `options.signal`, which fails the stream with a
+   * BridgeAbortError.
+   *
+   * @typeParam T - The final result data type
+   * @typeParam P - The progress/chunk data type
+   * @param module - The target module name
+   * @param action - The action to perform
+   * @param payload - Optional action-specific payload data
+   * @param options - Optional call options (timeout, abort signal)
+   * @returns An async iterator over the stream's updates
+   *
+   * @example
+   * ```typescript
+   * const download = bridge.stream<{ path: string }, { received: number; total: number }>(
+   *   'downloads',
+   *   'start',
+   *   { url }
+   * );
+   *
+   * for await (const update of download) {
+   *   if (update.kind === 'progress') {
+   *     console.log(`${update.data.received} / ${update.data.total}`);
+   *   }
+   * }
+   *
+   * // Or just wait for the result
+   * const { path } = await bridge.stream('downloads', 'start', { url }).result();
+   * ```
+   */
+  public stream<T = unknown, P = unknown>(
+    module: string,
+    action: string,
+    payload?: unknown,
+    options?: BridgeCallOptions
+  ): BridgeStream<T, P> {
+    const id = generateUUID();
+    const timeout = options?.timeout ?? this.defaultTimeout;
+
+    const signal = options?.signal;
+
+    // Stops native work on the request, whether cancelled or aborted
+    const abandon = () => {
+      const callback = this.callbacks.get(id);
+      if (callback?.timeoutId) {
+        clearTimeout(callback.timeoutId);
+      }
+      this.callbacks.delete(id);
+      signal?.removeEventListener('abort', onAbort);
+      this.cancelRequest(id);
+    };
+    const onAbort = () => {
+      abandon();
+      stream.fail(this.abortError(signal!, { requestId: id, module, action }));
+    };
+
+    const stream = new BridgeStream<T, P>(id, abandon);
+
+    if (!this.isAvailable()) {
+      stream.fail(new BridgeUnavailableError());
+      return stream;
+    }
+
+    if (signal?.aborted) {
+      stream.fail(this.abortError(signal, { module, action }));
+      return stream;
+    }
+
+    const unsupported =
+      this.featureDisabledError(module, action) ?? this.incompatibleError(module, action);
+    if (unsupported) {
+      stream.fail(unsupported);
+      return stream;
+    }
+
+    if (!this.initialized) {
+      this.initialize();
+    }
+
+    // Restarted on every response, so the timeout measures inactivity
+    const startTimeout = () =>
+      setTimeout(() => {
+        abandon();
+        stream.fail(
+          new BridgeTimeoutError(
+            `Bridge stream ${module}.${action} received no response for ${timeout}ms`,
+            timeout,
             { requestId: id, module, action }
           )
         );
-      }
-    });
+      }, timeout);
+
+    const callback: PendingCallback = {
+      resolve: (data) => {
+        signal?.removeEventListener('abort', onAbort);
+        stream.push({ kind: 'final', data: data as T });
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        stream.fail(error);
+      },
+      onPartial: (response) => {
+        clearTimeout(callback.timeoutId);
+        callback.timeoutId = startTimeout();
+        stream.push({
+          kind: response.kind === 'chunk' ? 'chunk' : 'progress',
+          data: response.data as P,
+        });
+      },
+      timeoutId: startTimeout(),
+    };
+    this.callbacks.set(id, callback);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const message: BridgeMessage = { id, module, action, payload, stream: true };
+
+    this.log(`Streaming: ${module}.${action}`, payload);
+    this.postMessages([message]);
+
+    return stream;
+  }
+
+  /**
+   * Tells native to stop working on an abandoned request.
+   *
+   * @param id - The request ID
+   * @internal
+   */
+  private cancelRequest(id: string): void {
+    this.log(`Cancelling request: ${id}`);
+    try {
+      this.transport.cancel?.(id);
+    } catch (error) {
+      this.log('Failed to send cancel:', error);
+    }
+  }
+
+  /**
+   * Creates the error used to reject an aborted call.
+   *
+   * @param signal - The aborted signal
+   * @param options - Request details for the error
+   * @internal
+   */
+  private abortError(
+    signal: AbortSignal,
+    options: { requestId?: string; module: string; action: string }
+  ): BridgeAbortError {
+    return new BridgeAbortError(
+      `Bridge call to ${options.module}.${options.action} was aborted`,
+      signal.reason,
+      options
+    );
   }
 
   /**
@@ -250,12 +1395,27 @@ export class PWABridge {
   private handleResponse(response: BridgeResponse): void {
     this.log('Received response:', response);
 
+    // Shells that predate the handshake answer it with a parse error
+    if (response.id === PARSE_ERROR_ID && this.handshakeId) {
+      response = { ...response, id: this.handshakeId };
+    }
+
     const callback = this.callbacks.get(response.id);
     if (!callback) {
       this.log(`No callback found for request ID: ${response.id}`);
       return;
     }
 
+    // Partial responses keep the request open
+    if (response.kind === 'progress' || response.kind === 'chunk') {
+      if (callback.onPartial) {
+        callback.onPartial(response);
+      } else {
+        this.log(`Ignoring ${response.kind} response for non-streaming request: ${response.id}`);
+      }
+      return;
+    }
+
     // Clean up
     if (callback.timeoutId) {
       clearTimeout(callback.timeoutId);
@@ -267,7 +1427,7 @@ export class PWABridge {
       callback.resolve(response.data);
     } else {
       callback.reject(
-        new BridgeError(response.error ?? 'Unknown error', {
+        createBridgeError(response.error ?? 'Unknown error', response.code, {
           requestId: response.id,
         })
       );
@@ -278,6 +1438,7 @@ export class PWABridge {
    * Handles an event from the native bridge.
    *
    * Dispatches a CustomEvent on the window with the event type prefixed by 'pwa:'.
+   * Events with no `on()` listener are also buffered for replay.
    *
    * @param event - The event from native
    * @internal
@@ -285,6 +1446,21 @@ export class PWABridge {
   private handleEvent(event: BridgeEvent): void {
     this.log('Received event:', event);
 
+    for (const interceptor of this.interceptors) {
+      try {
+        interceptor.onEvent?.(event);
+      } catch (error) {
+        this.log('Interceptor failed to handle event:', error);
+      }
+    }
+
+    if (!this.listenerCounts.get(event.type)) {
+      this.bufferedEvents.push(event);
+      if (this.bufferedEvents.length > MAX_BUFFERED_EVENTS) {
+        this.bufferedEvents.shift();
+      }
+    }
+
     // Dispatch as a CustomEvent on window
     if (typeof window !== 'undefined' && typeof CustomEvent !== 'undefined') {
       const customEvent = new CustomEvent(`pwa:${event.type}`, {
@@ -301,67 +1477,161 @@ export class PWABridge {
    *
    * This is a convenience wrapper around window.addEventListener for
    * PWAKit events. Event types are automatically prefixed with 'pwa:'.
+   * Events in {@link BridgeEventMap} get a typed payload.
    *
-   * @typeParam T - The expected event data type
+   * Events that arrived before any listener was attached for their type
+   * (such as the notification tap that launched the app) are replayed to
+   * the first listener, asynchronously and in order, unless it passes
+   * `replay: false`.
+   *
+   * @typeParam K - The event type
    * @param type - The event type (without 'pwa:' prefix)
    * @param listener - The event listener callback
+   * @param options - Optional listener options
    * @returns A function to remove the listener
    *
    * @example
    * ```typescript
    * // Listen for push notifications
-   * const unsubscribe = bridge.on<PushData>('push', (data) => {
-   *   console.log('Push received:', data.title);
+   * const unsubscribe = bridge.on('push', (data) => {
+   *   console.log(data.type, data.title);
    * });
    *
    * // Later: remove the listener
    * unsubscribe();
    * ```
    */
+  public on<K extends keyof BridgeEventMap>(
+    type: K,
+    listener: (data: BridgeEventMap[K]) => void,
+    options?: BridgeListenerOptions
+  ): () => void;
+
+  /**
+   * Registers a listener for a native event not in {@link BridgeEventMap}.
+   *
+   * @typeParam T - The expected event data type
+   * @param type - The event type (without 'pwa:' prefix)
+   * @param listener - The event listener callback
+   * @param options - Optional listener options
+   * @returns A function to remove the listener
+   */
   public on<T = unknown>(
     type: string,
-    listener: (data: T) => void
+    listener: (data: T) => void,
+    options?: BridgeListenerOptions
+  ): () => void;
+
+  public on(
+    type: string,
+    listener: (data: unknown) => void,
+    options: BridgeListenerOptions = {}
   ): () => void {
     const eventType = `pwa:${type}`;
     const handler = (event: Event) => {
-      listener((event as CustomEvent<T>).detail);
+      listener((event as CustomEvent<unknown>).detail);
     };
+    const replay = options.replay ?? true;
 
     window.addEventListener(eventType, handler);
 
+    let active = true;
+    if (replay) {
+      this.listenerCounts.set(type, (this.listenerCounts.get(type) ?? 0) + 1);
+      this.replayBufferedEvents(type, () => active, listener);
+    }
+
     // Return unsubscribe function
     return () => {
+      if (!active) {
+        return;
+      }
+      active = false;
       window.removeEventListener(eventType, handler);
+      if (replay) {
+        this.listenerCounts.set(type, (this.listenerCounts.get(type) ?? 1) - 1);
+      }
     };
   }
 
   /**
    * Registers a one-time listener for a native event.
    *
-   * The listener is automatically removed after being called once.
+   * The listener is automatically removed after being called once. A
+   * buffered event counts as the one call.
    *
-   * @typeParam T - The expected event data type
+   * @typeParam K - The event type
    * @param type - The event type (without 'pwa:' prefix)
    * @param listener - The event listener callback
    *
    * @example
    * ```typescript
-   * // Listen for a single push notification
-   * bridge.once<PushData>('push', (data) => {
-   *   console.log('Got first push:', data.title);
+   * // Handle the deep link that opened the app
+   * bridge.once('deeplink', ({ url }) => {
+   *   router.navigate(new URL(url).pathname);
    * });
    * ```
    */
-  public once<T = unknown>(
-    type: string,
-    listener: (data: T) => void
-  ): void {
-    const unsubscribe = this.on<T>(type, (data) => {
+  public once<K extends keyof BridgeEventMap>(
+    type: K,
+    listener: (data: BridgeEventMap[K]) => void
+  ): void;
+
+  /**
+   * Registers a one-time listener for a native event not in {@link BridgeEventMap}.
+   *
+   * @typeParam T - The expected event data type
+   * @param type - The event type (without 'pwa:' prefix)
+   * @param listener - The event listener callback
+   */
+  public once<T = unknown>(type: string, listener: (data: T) => void): void;
+
+  public once(type: string, listener: (data: unknown) => void): void {
+    const unsubscribe = this.on(type, (data: unknown) => {
       unsubscribe();
       listener(data);
     });
   }
 
+  /**
+   * Delivers buffered events of a type to a new listener.
+   *
+   * Delivery happens in a microtask so `on()` has returned (and `once()`
+   * has its unsubscribe function) before the listener runs. Events leave
+   * the buffer only as they are delivered, so the ones a listener doesn't
+   * get (it was removed first, or was a `once()` listener) stay buffered
+   * for the next one.
+   *
+   * @param type - The event type
+   * @param isActive - Whether the listener is still registered
+   * @param deliver - Receives each buffered payload in order
+   * @internal
+   */
+  private replayBufferedEvents(
+    type: string,
+    isActive: () => boolean,
+    deliver: (data: unknown) => void
+  ): void {
+    if (!this.bufferedEvents.some((event) => event.type === type)) {
+      return;
+    }
+
+    queueMicrotask(() => {
+      const replay = this.bufferedEvents.filter((event) => event.type === type);
+      if (replay.length > 0 && isActive()) {
+        this.log(`Replaying ${replay.length} buffered ${type} event(s)`);
+      }
+
+      for (const event of replay) {
+        if (!isActive()) {
+          return;
+        }
+        this.bufferedEvents = this.bufferedEvents.filter((buffered) => buffered !== event);
+        deliver(event.data);
+      }
+    });
+  }
+
   /**
    * Logs a debug message if debug mode is enabled.
    *
@@ -380,15 +1650,75 @@ export const bridge = new PWABridge();
 
 // Re-export types
 export type {
+  BatchRequest,
   BridgeMessage,
   BridgeResponse,
   BridgeEvent,
+  BridgeResponseKind,
   BridgeCallOptions,
+  BridgeListenerOptions,
   BridgeConfig,
+  BridgeTransport,
+  BridgeReceiver,
+  BridgeErrorCode,
+  BridgeErrorOptions,
+  BridgeHandshake,
+  BridgeHandshakeRequest,
+  BridgeReadyInfo,
+  BridgeCompatibilityMode,
+  BinaryData,
+  BinaryReference,
+  BinaryPayload,
+  BinaryChunk,
+  EnabledFeatures,
+  FeatureName,
 } from './types';
 
+export { SDK_VERSION, PROTOCOL_VERSION } from './version';
+
+export { BridgeStream } from './stream';
+export type { BridgeStreamUpdate } from './stream';
+
+export {
+  createRetryInterceptor,
+  createTimingInterceptor,
+  createRedactionInterceptor,
+} from './interceptors';
+export type {
+  BridgeCallContext,
+  BridgeInterceptor,
+  BridgeRetryDecision,
+  RetryInterceptorOptions,
+  TimingInterceptor,
+  TimingInterceptorOptions,
+  TimingMeasurement,
+  TimingStats,
+  RedactionInterceptorOptions,
+} from './interceptors';
+
+export type {
+  BridgeEventMap,
+  BridgeEventType,
+  PushEventData,
+  NotificationActionEventData,
+  LifecycleEventData,
+  DeepLinkEventData,
+  ShortcutEventData,
+  NetworkEventData,
+  TransactionEventData,
+  PushSubscriptionChangeEventData,
+} from './events';
+
 export {
   BridgeError,
+  BridgeAbortError,
   BridgeTimeoutError,
   BridgeUnavailableError,
+  BridgeIncompatibleError,
+  CancelledError,
+  PermissionDeniedError,
+  FeatureDisabledError,
+  UnknownActionError,
+  InvalidPayloadError,
+  createBridgeError,
 } from './types';
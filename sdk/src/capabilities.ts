@@ -0,0 +1,114 @@
+/**
+ * PWAKit Capability Detection
+ *
+ * Determines which backend serves each Web API-aligned module: the native
+ * bridge when running inside PWAKit, the browser's own Web API otherwise,
+ * or nothing at all when neither is present.
+ */
+
+import { bridge } from './bridge';
+
+/**
+ * The backend serving a module's calls.
+ *
+ * - `native`: the PWAKit bridge
+ * - `web`: the browser's Web API
+ * - `none`: neither is available (calls reject with BridgeUnavailableError)
+ */
+export type Backend = 'native' | 'web' | 'none';
+
+/**
+ * Web API-aligned modules that support a browser fallback.
+ */
+export type FallbackModule =
+  | 'clipboard'
+  | 'share'
+  | 'vibration'
+  | 'badging'
+  | 'permissions'
+  | 'push';
+
+/**
+ * Report of the backend serving each Web API-aligned module.
+ */
+export type CapabilityReport = Record<FallbackModule, Backend>;
+
+/**
+ * Web API methods that browsers support unevenly within one module.
+ */
+export type WebMethod = 'writeText' | 'readText';
+
+/**
+ * Checks whether the browser exposes the Web API a module falls back to.
+ *
+ * @param module - The module to check
+ * @param method - The method a call uses, where browsers differ (default: writeText)
+ * @returns true if the Web API is present
+ */
+export function hasWebAPI(module: FallbackModule, method?: WebMethod): boolean {
+  if (typeof navigator === 'undefined') {
+    return false;
+  }
+
+  switch (module) {
+    case 'clipboard':
+      return typeof navigator.clipboard?.[method ?? 'writeText'] === 'function';
+    case 'share':
+      return typeof navigator.share === 'function';
+    case 'vibration':
+      return typeof navigator.vibrate === 'function';
+    case 'badging':
+      return typeof navigator.setAppBadge === 'function';
+    case 'permissions':
+      return typeof navigator.permissions?.query === 'function';
+    case 'push':
+      return (
+        'serviceWorker' in navigator &&
+        typeof window !== 'undefined' &&
+        'PushManager' in window
+      );
+  }
+}
+
+/**
+ * Resolves the backend that will serve a module's next call.
+ *
+ * The native bridge always wins when available, so behaviour inside the
+ * PWAKit shell is unchanged.
+ *
+ * @param module - The module to resolve
+ * @param method - The method the call uses, where browsers differ
+ * @returns The serving backend
+ */
+export function backendFor(module: FallbackModule, method?: WebMethod): Backend {
+  if (bridge.isAvailable()) {
+    return 'native';
+  }
+  return hasWebAPI(module, method) ? 'web' : 'none';
+}
+
+/**
+ * Reports which backend serves each Web API-aligned module.
+ *
+ * @returns The backend for every fallback-capable module
+ *
+ * @example
+ * ```typescript
+ * import { capabilities } from '@pwa-kit/sdk';
+ *
+ * const report = capabilities();
+ * // Safari:        { clipboard: 'web', share: 'web', vibration: 'none', ... }
+ * // Android Chrome: { clipboard: 'web', share: 'web', vibration: 'web', ... }
+ * // PWAKit shell:  { clipboard: 'native', share: 'native', ... }
+ * ```
+ */
+export function capabilities(): CapabilityReport {
+  return {
+    clipboard: backendFor('clipboard'),
+    share: backendFor('share'),
+    vibration: backendFor('vibration'),
+    badging: backendFor('badging'),
+    permissions: backendFor('permissions'),
+    push: backendFor('push'),
+  };
+}
@@ -0,0 +1,700 @@
+// Generated by `pwa-kit contract generate` from contract.json. Do not edit.
+
+interface SuccessResult {
+  success: boolean;
+  error?: string;
+}
+
+type BridgeErrorCode = 'E_CANCELLED' | 'E_PERMISSION_DENIED' | 'E_FEATURE_DISABLED' | 'E_UNKNOWN_MODULE' | 'E_UNKNOWN_ACTION' | 'E_INVALID_PAYLOAD' | 'E_UNKNOWN';
+
+interface AuthenticationResult {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+}
+
+interface TriggeredResult {
+  triggered: boolean;
+}
+
+type KeychainAccessibility = 'whenUnlocked' | 'whenUnlockedThisDeviceOnly' | 'afterFirstUnlock' | 'afterFirstUnlockThisDeviceOnly' | 'whenPasscodeSetThisDeviceOnly';
+
+interface SecureStorageScope {
+  namespace?: string;
+  accessGroup?: string;
+  accessibility?: KeychainAccessibility;
+}
+
+interface SecureStorageKeyPayload {
+  key: string;
+  namespace?: string;
+  accessGroup?: string;
+  accessibility?: KeychainAccessibility;
+}
+
+interface PlatformInfo {
+  platform: string;
+  version: string;
+  isNative: boolean;
+  appVersion: string;
+  buildNumber: string;
+  deviceModel: string;
+  pwaKitVersion: string;
+}
+
+interface AppVersion {
+  version: string;
+  build: string;
+  pwaKitVersion: string;
+}
+
+type NotificationPermissionState = 'not_determined' | 'denied' | 'granted' | 'unavailable';
+
+type APNsEnvironment = 'sandbox' | 'production';
+
+interface NotificationOptions {
+  id: string;
+  title: string;
+  body?: string;
+  subtitle?: string;
+  badge?: number;
+  sound?: string;
+  data?: Record<string, unknown>;
+  trigger: {
+    type: 'timeInterval';
+    seconds: number;
+    repeats?: boolean;
+  } | {
+    type: 'date';
+    date: string;
+  } | {
+    type: 'calendar';
+    hour?: number;
+    minute?: number;
+    second?: number;
+    weekday?: number;
+    day?: number;
+    month?: number;
+    year?: number;
+    repeats?: boolean;
+  };
+  categoryId?: string;
+  threadId?: string;
+  interruptionLevel?: 'passive' | 'active' | 'timeSensitive';
+  attachments?: {
+    url: string;
+    id?: string;
+  }[];
+}
+
+interface PendingNotification {
+  id: string;
+  title: string;
+  body?: string;
+  subtitle?: string;
+  repeats: boolean;
+  nextTriggerDate?: string;
+  categoryId?: string;
+  threadId?: string;
+}
+
+interface DeliveredNotification {
+  id: string;
+  title: string;
+  body?: string;
+  subtitle?: string;
+  categoryId?: string;
+  threadId?: string;
+  data?: Record<string, unknown>;
+  date: string;
+}
+
+interface NotificationCategory {
+  id: string;
+  actions: {
+    id: string;
+    title: string;
+    destructive?: boolean;
+    foreground?: boolean;
+    authenticationRequired?: boolean;
+    textInput?: {
+      buttonTitle?: string;
+      placeholder?: string;
+    };
+  }[];
+}
+
+interface ShareOptions {
+  title?: string;
+  text?: string;
+  url?: string;
+  files?: {
+    name: string;
+    type: string;
+    data: BinaryPayload;
+  }[];
+}
+
+type BinaryPayload = string | {
+  $binary: string;
+  size: number;
+  type: string;
+};
+
+interface ProductInfo {
+  id: string;
+  displayName: string;
+  description: string;
+  displayPrice: string;
+  price: number;
+  currencyCode: string;
+  type: 'consumable' | 'nonConsumable' | 'autoRenewable' | 'nonRenewable';
+  subscription?: {
+    groupId: string;
+    period: SubscriptionPeriod;
+    introductoryOffer?: SubscriptionOffer;
+    promotionalOffers: SubscriptionOffer[];
+    isEligibleForIntroOffer: boolean;
+  };
+}
+
+interface SubscriptionPeriod {
+  unit: 'day' | 'week' | 'month' | 'year';
+  value: number;
+}
+
+interface SubscriptionOffer {
+  id?: string;
+  type: 'introductory' | 'promotional';
+  displayPrice: string;
+  paymentMode: 'freeTrial' | 'payAsYouGo' | 'payUpFront';
+  period: SubscriptionPeriod;
+  periodCount: number;
+}
+
+interface TransactionInfo {
+  transactionId: string;
+  originalTransactionId: string;
+  productId: string;
+  purchaseDate: number;
+  expirationDate?: number;
+  revocationDate?: number;
+  isUpgraded: boolean;
+  appAccountToken?: string;
+  offerType?: 'introductory' | 'promotional' | 'code';
+  offerId?: string;
+  jwsRepresentation?: string;
+  finished?: boolean;
+}
+
+interface SubscriptionStatus {
+  productId: string;
+  state: 'subscribed' | 'expired' | 'inBillingRetryPeriod' | 'inGracePeriod' | 'revoked';
+  willAutoRenew: boolean;
+  autoRenewProductId?: string;
+  expirationDate?: number;
+  gracePeriodExpirationDate?: number;
+  isInBillingRetry: boolean;
+  expirationReason?: 'autoRenewDisabled' | 'billingError' | 'didNotConsentToPriceIncrease' | 'productUnavailable' | 'unknown';
+  transaction: TransactionInfo;
+  renewalInfoJWS?: string;
+}
+
+type QuantityType = 'stepCount' | 'distanceWalkingRunning' | 'distanceCycling' | 'distanceSwimming' | 'flightsClimbed' | 'activeEnergyBurned' | 'basalEnergyBurned' | 'heartRate' | 'restingHeartRate' | 'walkingHeartRateAverage' | 'heartRateVariability' | 'bodyMass' | 'bodyMassIndex' | 'height' | 'bodyTemperature' | 'oxygenSaturation' | 'respiratoryRate' | 'bloodPressureSystolic' | 'bloodPressureDiastolic' | 'bloodGlucose' | 'dietaryWater' | 'dietaryCaffeine';
+
+type WorkoutActivityType = 'running' | 'walking' | 'cycling' | 'swimming' | 'hiking' | 'elliptical' | 'rowing' | 'stairClimbing' | 'crossTraining' | 'mixedCardio' | 'hiit' | 'yoga' | 'pilates' | 'dance' | 'coreTraining' | 'strengthTraining' | 'functionalStrengthTraining' | 'traditionalStrengthTraining' | 'other';
+
+interface QueryOptions {
+  startDate: string;
+  endDate: string;
+  limit?: number;
+}
+
+interface HealthSample {
+  value: number;
+  unit: string;
+  startDate: string;
+  endDate: string;
+  sourceName?: string;
+}
+
+interface SamplesResult {
+  samples: HealthSample[];
+}
+
+interface WorkoutData {
+  type: WorkoutActivityType;
+  duration: number;
+  calories?: number;
+  distance?: number;
+  startDate: string;
+  endDate: string;
+}
+
+interface SleepSample {
+  stage: 'inBed' | 'asleepUnspecified' | 'awake' | 'asleepCore' | 'asleepDeep' | 'asleepREM';
+  startDate: string;
+  endDate: string;
+}
+
+interface MediaPermissionResult {
+  state: 'notDetermined' | 'denied' | 'granted' | 'authorized' | 'restricted';
+}
+
+interface LocationPermissionResult {
+  state: 'notDetermined' | 'denied' | 'granted' | 'authorizedAlways' | 'authorizedWhenInUse' | 'restricted';
+}
+
+/**
+ * Payload and result types for every native module action.
+ *
+ * Extend it with `declare module` to type custom modules.
+ */
+export interface ModuleContract {
+  /** Platform and device information */
+  platform: {
+    getInfo: {
+      payload: undefined;
+      result: PlatformInfo;
+    };
+  };
+  /** App lifecycle and meta operations */
+  app: {
+    getVersion: {
+      payload: undefined;
+      result: AppVersion;
+    };
+    requestReview: {
+      payload: undefined;
+      result: {
+        presented: boolean;
+      };
+    };
+    openSettings: {
+      payload: undefined;
+      result: {
+        opened: boolean;
+      };
+    };
+  };
+  /** Haptic feedback */
+  haptics: {
+    impact: {
+      payload: {
+        style: 'light' | 'medium' | 'heavy' | 'soft' | 'rigid';
+      };
+      result: TriggeredResult;
+    };
+    notification: {
+      payload: {
+        type: 'success' | 'warning' | 'error';
+      };
+      result: TriggeredResult;
+    };
+    selection: {
+      payload: undefined;
+      result: TriggeredResult;
+    };
+  };
+  /** Push and local notifications */
+  notifications: {
+    subscribe: {
+      payload: undefined;
+      result: {
+        success: boolean;
+        token?: string;
+        environment?: APNsEnvironment;
+        bundleId?: string;
+        deviceId?: string;
+        installationId?: string;
+        error?: string;
+        code?: BridgeErrorCode;
+      };
+    };
+    requestPermission: {
+      payload: undefined;
+      result: {
+        granted: boolean;
+        state: NotificationPermissionState;
+      };
+    };
+    getToken: {
+      payload: undefined;
+      result: {
+        token: string | null;
+        environment?: APNsEnvironment;
+        bundleId?: string;
+        deviceId?: string;
+        installationId?: string;
+      };
+    };
+    getPermissionState: {
+      payload: undefined;
+      result: {
+        state: NotificationPermissionState;
+      };
+    };
+    setBadge: {
+      payload: {
+        count: number;
+      };
+      result: SuccessResult;
+    };
+    schedule: {
+      payload: NotificationOptions;
+      result: {
+        success: boolean;
+        id: string;
+      };
+    };
+    cancel: {
+      payload: {
+        id: string;
+      };
+      result: SuccessResult;
+    };
+    cancelAll: {
+      payload: undefined;
+      result: SuccessResult;
+    };
+    getPending: {
+      payload: undefined;
+      result: {
+        notifications: PendingNotification[];
+      };
+    };
+    updatePending: {
+      payload: {
+        id: string;
+        patch: Record<string, unknown>;
+      };
+      result: {
+        success: boolean;
+        id: string;
+      };
+    };
+    setCategories: {
+      payload: {
+        categories: NotificationCategory[];
+      };
+      result: SuccessResult;
+    };
+    getDelivered: {
+      payload: undefined;
+      result: {
+        notifications: DeliveredNotification[];
+      };
+    };
+    removeDelivered: {
+      payload: {
+        ids: string[];
+      };
+      result: SuccessResult;
+    };
+  };
+  /** Native share sheet */
+  share: {
+    share: {
+      payload: ShareOptions;
+      result: {
+        completed: boolean;
+        activityType?: string;
+      };
+    };
+    canShare: {
+      payload: undefined;
+      result: {
+        available: boolean;
+      };
+    };
+  };
+  /** Face ID and Touch ID authentication */
+  biometrics: {
+    isAvailable: {
+      payload: undefined;
+      result: {
+        available: boolean;
+        biometryType: 'none' | 'touchId' | 'faceId' | 'opticId';
+        error?: string;
+      };
+    };
+    getEnrollmentState: {
+      payload: undefined;
+      result: {
+        state: string | null;
+        biometryType: 'none' | 'touchId' | 'faceId' | 'opticId';
+      };
+    };
+    authenticate: {
+      payload: {
+        reason: string;
+        allowPasscode?: boolean;
+        fallbackTitle?: string;
+        cancelTitle?: string;
+      };
+      result: AuthenticationResult;
+    };
+  };
+  /** Keychain-backed secure storage */
+  secureStorage: {
+    set: {
+      payload: {
+        key: string;
+        value: string;
+        requireBiometrics?: boolean;
+        reason?: string;
+        namespace?: string;
+        accessGroup?: string;
+        accessibility?: KeychainAccessibility;
+      };
+      result: AuthenticationResult;
+    };
+    get: {
+      payload: {
+        key: string;
+        reason?: string;
+        namespace?: string;
+        accessGroup?: string;
+        accessibility?: KeychainAccessibility;
+      };
+      result: {
+        value: string | null;
+        error?: string;
+        errorCode?: string;
+      };
+    };
+    delete: {
+      payload: SecureStorageKeyPayload;
+      result: SuccessResult;
+    };
+    has: {
+      payload: SecureStorageKeyPayload;
+      result: {
+        exists: boolean;
+      };
+    };
+    keys: {
+      payload: SecureStorageScope;
+      result: {
+        keys: string[];
+      };
+    };
+    clear: {
+      payload: SecureStorageScope;
+      result: SuccessResult;
+    };
+    getMany: {
+      payload: {
+        keys: string[];
+        namespace?: string;
+        accessGroup?: string;
+        accessibility?: KeychainAccessibility;
+      };
+      result: {
+        values: Record<string, string | null>;
+      };
+    };
+    setMany: {
+      payload: {
+        entries: Record<string, string>;
+        namespace?: string;
+        accessGroup?: string;
+        accessibility?: KeychainAccessibility;
+      };
+      result: SuccessResult;
+    };
+  };
+  /** AirPrint */
+  print: {
+    print: {
+      payload: {
+        jobName?: string;
+        data?: BinaryPayload;
+      };
+      result: SuccessResult;
+    };
+    canPrint: {
+      payload: undefined;
+      result: {
+        canPrint: boolean;
+      };
+    };
+  };
+  /** Text clipboard access */
+  clipboard: {
+    write: {
+      payload: {
+        text: string;
+      };
+      result: {
+        copied: boolean;
+      };
+    };
+    read: {
+      payload: undefined;
+      result: {
+        text: string | null;
+      };
+    };
+  };
+  /** StoreKit 2 in-app purchases */
+  iap: {
+    getProducts: {
+      payload: {
+        productIds: string[];
+      };
+      result: {
+        products: ProductInfo[];
+      };
+    };
+    purchase: {
+      payload: {
+        productId: string;
+        appAccountToken?: string;
+        promotionalOffer?: {
+          offerId: string;
+          keyId: string;
+          nonce: string;
+          signature: string;
+          timestamp: number;
+        };
+      };
+      result: {
+        success: boolean;
+        transactionId?: string;
+        error?: string;
+        code?: BridgeErrorCode;
+        pending?: boolean;
+        cancelled?: boolean;
+        transaction?: TransactionInfo;
+      };
+    };
+    restore: {
+      payload: undefined;
+      result: SuccessResult;
+    };
+    getEntitlements: {
+      payload: undefined;
+      result: {
+        ownedProductIds: string[];
+      };
+    };
+    getSubscriptionStatus: {
+      payload: {
+        productId: string;
+      };
+      result: {
+        statuses: SubscriptionStatus[];
+      };
+    };
+    getUnfinishedTransactions: {
+      payload: undefined;
+      result: {
+        transactions: TransactionInfo[];
+      };
+    };
+    finish: {
+      payload: {
+        transactionId: string;
+      };
+      result: SuccessResult;
+    };
+    presentOfferCodeRedeemSheet: {
+      payload: undefined;
+      result: SuccessResult;
+    };
+  };
+  /** HealthKit reads and writes */
+  healthkit: {
+    isAvailable: {
+      payload: undefined;
+      result: {
+        available: boolean;
+      };
+    };
+    requestAuthorization: {
+      payload: {
+        read?: QuantityType[];
+        write?: QuantityType[];
+        readWorkouts?: boolean;
+        writeWorkouts?: boolean;
+        readSleep?: boolean;
+      };
+      result: SuccessResult;
+    };
+    querySteps: {
+      payload: QueryOptions;
+      result: SamplesResult;
+    };
+    queryStepCount: {
+      payload: QueryOptions;
+      result: {
+        totalSteps: number;
+      };
+    };
+    queryHeartRate: {
+      payload: QueryOptions;
+      result: SamplesResult;
+    };
+    queryWorkouts: {
+      payload: {
+        startDate: string;
+        endDate: string;
+        limit?: number;
+        type?: WorkoutActivityType;
+      };
+      result: {
+        workouts: WorkoutData[];
+      };
+    };
+    querySleep: {
+      payload: QueryOptions;
+      result: {
+        samples: SleepSample[];
+      };
+    };
+    saveWorkout: {
+      payload: {
+        workoutType: WorkoutActivityType;
+        startDate: string;
+        endDate: string;
+        calories?: number;
+        distance?: number;
+      };
+      result: SuccessResult;
+    };
+  };
+  /** Camera permission */
+  cameraPermission: {
+    checkPermission: {
+      payload: undefined;
+      result: MediaPermissionResult;
+    };
+    requestPermission: {
+      payload: undefined;
+      result: MediaPermissionResult;
+    };
+  };
+  /** Microphone permission */
+  microphonePermission: {
+    checkPermission: {
+      payload: undefined;
+      result: MediaPermissionResult;
+    };
+    requestPermission: {
+      payload: undefined;
+      result: MediaPermissionResult;
+    };
+  };
+  /** Location permission */
+  locationPermission: {
+    checkPermission: {
+      payload: undefined;
+      result: LocationPermissionResult;
+    };
+    requestPermission: {
+      payload: undefined;
+      result: LocationPermissionResult;
+    };
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * PWAKit Module Contract
+ *
+ * Type helpers derived from the generated ModuleContract, which describes
+ * the payload and result of every native module action. The contract is
+ * generated from `contract.json` with `pwa-kit contract generate`, and
+ * checked against the Swift modules with `pwa-kit contract check`.
+ *
+ * Custom native modules are typed by augmenting ModuleContract:
+ *
+ * @example
+ * ```typescript
+ * declare module '@pwa-kit/sdk' {
+ *   interface ModuleContract {
+ *     helloWorld: {
+ *       greet: { payload: { name?: string }; result: { message: string } };
+ *     };
+ *   }
+ * }
+ *
+ * const { message } = await bridge.call('helloWorld', 'greet', { name: 'Dev' });
+ * ```
+ */
+
+import type { ModuleContract } from './contract.generated';
+import type { BatchRequest, BridgeCallOptions } from './types';
+
+export type { ModuleContract } from './contract.generated';
+
+/**
+ * Name of a module described by the contract.
+ */
+export type ModuleName = keyof ModuleContract & string;
+
+/**
+ * Name of an action supported by a contract module.
+ */
+export type ActionName<M extends ModuleName> = keyof ModuleContract[M] & string;
+
+type ActionSpec<M extends ModuleName, A extends ActionName<M>> =
+  ModuleContract[M][A] extends { payload?: unknown; result?: unknown }
+    ? ModuleContract[M][A]
+    : never;
+
+/**
+ * Payload type of a contract action.
+ */
+export type ActionPayload<M extends ModuleName, A extends ActionName<M>> =
+  ActionSpec<M, A>['payload'];
+
+/**
+ * Result type of a contract action.
+ */
+export type ActionResult<M extends ModuleName, A extends ActionName<M>> =
+  ActionSpec<M, A>['result'];
+
+/**
+ * Remaining `bridge.call()` arguments for a contract action.
+ *
+ * The payload may be omitted when the action takes none, or when every
+ * payload field is optional.
+ */
+export type ActionArgs<M extends ModuleName, A extends ActionName<M>> =
+  undefined extends ActionPayload<M, A>
+    ? [payload?: ActionPayload<M, A>, options?: BridgeCallOptions]
+    : {} extends ActionPayload<M, A>
+      ? [payload?: ActionPayload<M, A>, options?: BridgeCallOptions]
+      : [payload: ActionPayload<M, A>, options?: BridgeCallOptions];
+
+/**
+ * Result type of a `bridge.batch()` request: the contract result for
+ * contract actions, `unknown` for anything else.
+ */
+export type BatchResult<R> = R extends { module: infer M; action: infer A }
+  ? M extends ModuleName
+    ? A extends ActionName<M>
+      ? ActionResult<M, A>
+      : unknown
+    : unknown
+  : unknown;
+
+/**
+ * Promises returned by `bridge.batch()`, one per request and in order.
+ */
+export type BatchResults<R extends readonly BatchRequest[]> = {
+  [K in keyof R]: Promise<BatchResult<R[K]>>;
+};
+
+/**
+ * Module name accepted by the untyped `bridge.call<T>()` overload.
+ *
+ * Contract modules resolve to `never` so that calls to them go through the
+ * typed overload, unless a result type is given explicitly.
+ */
+export type UntypedModuleName<M extends string> = M extends ModuleName ? never : M;
@@ -0,0 +1,209 @@
+/**
+ * PWAKit Bridge Events
+ *
+ * Payload types for the events native sends to JavaScript, keyed by
+ * event type for use with `bridge.on()` and `bridge.once()`.
+ *
+ * @module events
+ */
+
+/**
+ * Payload of a `push` event.
+ *
+ * Sent when a notification arrives while the app is in the foreground
+ * (`received`) or when the user taps a notification (`tapped`).
+ */
+export interface PushEventData {
+  /** Whether the notification was received in the foreground or tapped */
+  type: 'received' | 'tapped';
+  /** Notification title */
+  title?: string;
+  /** Notification body */
+  body?: string;
+  /** Notification subtitle */
+  subtitle?: string;
+  /** Custom data from the notification payload (excluding `aps`) */
+  userInfo?: Record<string, unknown>;
+  /** Badge number */
+  badge?: number;
+  /** Sound name */
+  sound?: string;
+  /** When the event was created, in seconds since 1970 */
+  timestamp: number;
+}
+
+/**
+ * Payload of a `notificationAction` event.
+ *
+ * Sent when the user chooses one of the actions of a notification's
+ * category (see `ios.notifications.setCategories()`). Tapping the
+ * notification itself sends a `push` event instead.
+ */
+export interface NotificationActionEventData {
+  /** The identifier of the notification */
+  notificationId: string;
+  /** The identifier of the chosen action */
+  actionId: string;
+  /** The notification's category identifier */
+  categoryId?: string;
+  /** The text the user entered, for actions with a text input */
+  userText?: string;
+  /** Notification title */
+  title?: string;
+  /** Notification body */
+  body?: string;
+  /** Notification subtitle */
+  subtitle?: string;
+  /** Custom data from the notification payload (excluding `aps`) */
+  userInfo?: Record<string, unknown>;
+  /** Badge number */
+  badge?: number;
+  /** When the event was created, in seconds since 1970 */
+  timestamp: number;
+}
+
+/**
+ * Payload of a `lifecycle` event.
+ */
+export interface LifecycleEventData {
+  /** The state the app moved to */
+  state: 'foreground' | 'background';
+}
+
+/**
+ * Payload of a `deeplink` event.
+ *
+ * Sent when a universal link or custom URL scheme opens the app.
+ */
+export interface DeepLinkEventData {
+  /** The `https` URL to navigate to (custom schemes are converted) */
+  url: string;
+  /** How the link reached the app */
+  source: 'universalLink' | 'customScheme';
+}
+
+/**
+ * Payload of a `shortcut` event.
+ *
+ * Sent when the user activates a home screen quick action.
+ */
+export interface ShortcutEventData {
+  /** The shortcut type identifier (e.g., 'com.example.compose') */
+  type: string;
+  /** The shortcut's title */
+  title: string;
+  /** The URL the shortcut maps to, if configured */
+  url?: string;
+}
+
+/**
+ * Payload of a `network` event.
+ */
+export interface NetworkEventData {
+  /** Whether a network connection is available */
+  online: boolean;
+  /** The connection type */
+  connectionType: 'wifi' | 'cellular' | 'wired' | 'other' | 'none';
+  /** Whether the connection is expensive (e.g., cellular or hotspot) */
+  expensive: boolean;
+  /** Whether Low Data Mode is enabled */
+  constrained: boolean;
+}
+
+/**
+ * Payload of a `transaction` event.
+ *
+ * Sent for StoreKit transactions that happen outside the purchase flow,
+ * such as subscription renewals, refunds, offer code redemptions and
+ * ask-to-buy approvals. Consumables arrive with `finished: false` and must
+ * be passed to `ios.storeKit.finish()` once the content is delivered.
+ */
+export interface TransactionEventData {
+  /** The transaction identifier */
+  transactionId: string;
+  /** The identifier of the original purchase */
+  originalTransactionId: string;
+  /** The product identifier */
+  productId: string;
+  /** When the transaction occurred, in seconds since 1970 */
+  purchaseDate: number;
+  /** When the subscription expires, in seconds since 1970 */
+  expirationDate?: number;
+  /** When the transaction was refunded or revoked, in seconds since 1970 */
+  revocationDate?: number;
+  /** Whether the user upgraded to a higher-level subscription */
+  isUpgraded: boolean;
+  /** The app account token passed to the purchase */
+  appAccountToken?: string;
+  /** The offer redeemed */
+  offerType?: 'introductory' | 'promotional' | 'code';
+  /** The identifier of the promotional offer or offer code redeemed */
+  offerId?: string;
+  /** The signed transaction (JWS) for validation on a server */
+  jwsRepresentation?: string;
+  /**
+   * Whether the transaction has been finished. Absent from older shells,
+   * which finish every transaction.
+   */
+  finished?: boolean;
+}
+
+/**
+ * Payload of a `pushsubscriptionchange` event.
+ *
+ * Sent when APNs gives the app a new device token, including the first one
+ * after subscribing. Servers should replace `oldToken` with `token`.
+ */
+export interface PushSubscriptionChangeEventData {
+  /** The new APNs device token (hex string) */
+  token: string;
+  /** The token it replaces, if the device had one */
+  oldToken?: string;
+  /** The APNs environment of the token */
+  environment: 'sandbox' | 'production';
+  /** The app's bundle identifier, used as the APNs topic */
+  bundleId?: string;
+  /** The identifier for vendor */
+  deviceId?: string;
+  /** An identifier for this installation of the app */
+  installationId: string;
+}
+
+/**
+ * Events native sends to JavaScript, keyed by event type.
+ *
+ * Passing one of these keys to `bridge.on()` types the listener's payload.
+ * Modules can add their own events with declaration merging:
+ *
+ * @example
+ * ```typescript
+ * declare module '@pwa-kit/sdk' {
+ *   interface BridgeEventMap {
+ *     upload: { fileId: string; fraction: number };
+ *   }
+ * }
+ * ```
+ */
+export interface BridgeEventMap {
+  /** Push notification received or tapped */
+  push: PushEventData;
+  /** Notification category action chosen */
+  notificationAction: NotificationActionEventData;
+  /** App moved to the foreground or background */
+  lifecycle: LifecycleEventData;
+  /** Universal link or custom URL scheme opened the app */
+  deeplink: DeepLinkEventData;
+  /** Home screen quick action activated */
+  shortcut: ShortcutEventData;
+  /** Network connectivity changed */
+  network: NetworkEventData;
+  /** StoreKit transaction updated outside the purchase flow */
+  transaction: TransactionEventData;
+  /** APNs device token issued or rotated */
+  pushsubscriptionchange: PushSubscriptionChangeEventData;
+}
+
+/**
+ * A known bridge event type.
+ */
+export type BridgeEventType = keyof BridgeEventMap;
@@ -0,0 +1,50 @@
+/**
+ * PWAKit Feature Flags
+ *
+ * Reports which features are enabled in the `features` map of the running
+ * app's `pwa-config.json`, so a web codebase shared between several wrapped
+ * apps can adapt to each app's feature set.
+ */
+
+import { bridge } from './bridge';
+import type { EnabledFeatures, FeatureName } from './types';
+
+/**
+ * Feature flag queries backed by the native handshake.
+ *
+ * Calls to a module whose feature is disabled reject with
+ * FeatureDisabledError without a round trip. Calls to feature modules made
+ * before the handshake has completed are held until it does.
+ *
+ * @example
+ * ```typescript
+ * import { features, ios } from '@pwa-kit/sdk';
+ *
+ * if (await features.isEnabled('iap')) {
+ *   const products = await ios.storeKit.getProducts(['premium']);
+ * }
+ * ```
+ */
+export const features = {
+  /**
+   * Checks whether a feature is enabled.
+   *
+   * Always false outside the native app.
+   *
+   * @param name - The feature to check
+   * @returns true if the feature is enabled
+   */
+  async isEnabled(name: FeatureName): Promise<boolean> {
+    const enabled = await bridge.getEnabledFeatures();
+    return enabled[name];
+  },
+
+  /**
+   * Returns the enabled state of every feature.
+   *
+   * @returns The enabled state of every feature
+   */
+  async getEnabled(): Promise<EnabledFeatures> {
+    return bridge.getEnabledFeatures();
+  },
+};
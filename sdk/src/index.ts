@@ -15,6 +15,10 @@
  * - `share` - Share content (Web Share API)
  * - `permissions` - Permission management (Permissions API)
  *
+ * Outside the native app these modules fall back to the browser's own
+ * Web API where one exists. Use `capabilities()` to see which backend
+ * serves each module.
+ *
  * ## Enhanced APIs
  *
  * - `haptics` - iOS haptic feedback (impact, notification, selection)
@@ -71,28 +75,114 @@
 
 export { PWABridge, bridge } from './bridge';
 export type {
+  BatchRequest,
   BridgeMessage,
   BridgeResponse,
   BridgeEvent,
+  BridgeResponseKind,
   BridgeCallOptions,
+  BridgeListenerOptions,
   BridgeConfig,
+  BridgeTransport,
+  BridgeReceiver,
+  BridgeStreamUpdate,
+  BridgeErrorCode,
+  BridgeErrorOptions,
+  BridgeHandshake,
+  BridgeHandshakeRequest,
+  BridgeReadyInfo,
+  BridgeCompatibilityMode,
+  BinaryData,
+  BinaryReference,
+  BinaryPayload,
+  BinaryChunk,
+} from './bridge';
+export { SDK_VERSION, PROTOCOL_VERSION } from './bridge';
+
+// Typed native events
+export type {
+  BridgeEventMap,
+  BridgeEventType,
+  PushEventData,
+  NotificationActionEventData,
+  LifecycleEventData,
+  DeepLinkEventData,
+  ShortcutEventData,
+  NetworkEventData,
+  TransactionEventData,
+  PushSubscriptionChangeEventData,
+} from './bridge';
+export { BridgeStream } from './bridge';
+
+// Interceptors
+export {
+  createRetryInterceptor,
+  createTimingInterceptor,
+  createRedactionInterceptor,
+} from './bridge';
+export type {
+  BridgeCallContext,
+  BridgeInterceptor,
+  BridgeRetryDecision,
+  RetryInterceptorOptions,
+  TimingInterceptor,
+  TimingInterceptorOptions,
+  TimingMeasurement,
+  TimingStats,
+  RedactionInterceptorOptions,
 } from './bridge';
 export {
   BridgeError,
+  BridgeAbortError,
   BridgeTimeoutError,
   BridgeUnavailableError,
+  BridgeIncompatibleError,
+  CancelledError,
+  PermissionDeniedError,
+  FeatureDisabledError,
+  UnknownActionError,
+  InvalidPayloadError,
+  createBridgeError,
 } from './types';
 
+// Typed module contract (generated from contract.json)
+export type {
+  ModuleContract,
+  ModuleName,
+  ActionName,
+  ActionPayload,
+  ActionResult,
+  ActionArgs,
+  BatchResult,
+  BatchResults,
+} from './contract';
+
+// =============================================================================
+// Transports
+// =============================================================================
+
+export { WebKitTransport } from './transport';
+
+// The in-memory MockTransport is published separately as `@pwa-kit/sdk/mock`
+
 // =============================================================================
 // Web API-Aligned Modules
 // =============================================================================
 
 // Push API (PushManager)
-export { push } from './modules/push';
+export { push, PushRegistrationError } from './modules/push';
 export type {
   PushSubscription,
+  PushSubscribeOptions,
   PushPermissionState,
   PushNotificationData,
+  APNsEnvironment,
+  PushRegistrationOptions,
+  PushRegistration,
+  PushMessage,
+  PushMessageData,
+  PushNotificationOptions,
+  PushNotificationAction,
 } from './modules/push';
 
 // Badging API
@@ -128,7 +218,7 @@ export type { ImpactStyle, NotificationType } from './modules/haptics';
 
 // Print (enhanced window.print)
 export { print } from './modules/print';
-export type { PrintResult } from './modules/print';
+export type { PrintResult, PrintFileOptions } from './modules/print';
 
 // Platform detection
 export { platform } from './modules/platform';
@@ -145,9 +235,20 @@ export type {
   BiometryType,
   BiometricAvailability,
   AuthenticationResult,
+  BiometricErrorCode,
+  BiometricEnrollmentState,
+  BiometricAuthenticateOptions,
 } from './ios/biometrics';
+export { BiometricAuthenticationError } from './ios/biometrics';
 
-export type { GetResult as SecureStorageGetResult } from './ios/secureStorage';
+export type {
+  GetResult as SecureStorageGetResult,
+  KeychainAccessibility,
+  SecureStorage,
+  SecureStorageOptions,
+  SecureStorageSetOptions,
+  SecureStorageGetOptions,
+} from './ios/secureStorage';
 
 export type {
   QuantityType,
@@ -168,6 +269,15 @@ export type {
   ProductInfo,
   PurchaseResult,
   EntitlementInfo,
+  SubscriptionPeriod,
+  SubscriptionOffer,
+  ProductSubscriptionInfo,
+  TransactionInfo,
+  PromotionalOffer,
+  PurchaseOptions,
+  SubscriptionRenewalState,
+  SubscriptionExpirationReason,
+  SubscriptionStatus,
 } from './ios/storeKit';
 
 export type { AppVersion, ReviewResult } from './ios/app';
@@ -178,13 +288,44 @@ export type {
   CalendarTrigger,
   NotificationTrigger,
   NotificationOptions,
+  NotificationPatch,
+  RecurringNotificationOptions,
+  RecurringSchedule,
+  NotificationInterruptionLevel,
+  NotificationAttachment,
+  NotificationCategory,
+  NotificationAction,
+  NotificationTextInput,
   PendingNotification,
+  DeliveredNotification,
 } from './ios/notifications';
+export { NotificationValidationError } from './ios/notifications';
+
+// =============================================================================
+// Observable Stores
+// =============================================================================
+
+export { stores } from './stores';
+export type {
+  ReadableStore,
+  ResourceState,
+  ResourceStore,
+  SecureStorageStore,
+  SecureStorageStoreOptions,
+  AppLifecycleState,
+  NetworkState,
+} from './stores';
 
 // =============================================================================
 // Detection Utilities
 // =============================================================================
 
+export { capabilities } from './capabilities';
+export type { Backend, FallbackModule, CapabilityReport } from './capabilities';
+
+export { features } from './features';
+export type { FeatureName, EnabledFeatures } from './bridge';
+
 export {
   isNative,
   platformInfo,
@@ -0,0 +1,354 @@
+/**
+ * PWAKit Bridge Interceptors
+ *
+ * Hooks that run around every `bridge.call()` and native event, plus
+ * built-in interceptors for retries, timing metrics and log redaction.
+ *
+ * @module interceptors
+ */
+
+import type { BridgeCallOptions, BridgeEvent } from './types';
+import { BridgeTimeoutError } from './types';
+
+/**
+ * The call an interceptor is running for.
+ *
+ * The same context is passed to every hook of every attempt of a call, so
+ * interceptors can use it as a key to correlate hooks.
+ */
+export interface BridgeCallContext {
+  /** The target module name */
+  readonly module: string;
+  /** The action to perform */
+  readonly action: string;
+  /** The payload sent to native; `beforeSend` may replace it */
+  payload: unknown;
+  /** The payload as it should appear in logs and analytics (defaults to `payload`) */
+  logPayload: unknown;
+  /** The call options; `beforeSend` may replace them */
+  options: BridgeCallOptions;
+  /** The current attempt, starting at 1 */
+  readonly attempt: number;
+}
+
+/**
+ * Returned from `onError` to send the call again.
+ */
+export interface BridgeRetryDecision {
+  /** Delay before the next attempt in milliseconds */
+  retryAfter: number;
+}
+
+/**
+ * Hooks that run around bridge calls and native events.
+ *
+ * Every hook is optional and synchronous. Hooks run in the order the
+ * interceptors were added. An error thrown from `beforeSend` rejects the
+ * call without sending it.
+ *
+ * @example
+ * ```typescript
+ * bridge.use({
+ *   afterResponse(context) {
+ *     analytics.track('bridge_call', { call: `${context.module}.${context.action}` });
+ *   },
+ *   onEvent(event) {
+ *     analytics.track('bridge_event', { type: event.type });
+ *   },
+ * });
+ * ```
+ */
+export interface BridgeInterceptor {
+  /** Runs before each attempt is sent */
+  beforeSend?(context: BridgeCallContext): void;
+  /** Runs after an attempt succeeds */
+  afterResponse?(context: BridgeCallContext, result: unknown): void;
+  /**
+   * Runs after an attempt fails. Return a retry decision to send the call
+   * again; the first decision returned wins.
+   */
+  onError?(context: BridgeCallContext, error: Error): BridgeRetryDecision | void;
+  /** Runs for every event received from native, before listeners */
+  onEvent?(event: BridgeEvent): void;
+}
+
+/**
+ * Returns a monotonic timestamp in milliseconds.
+ */
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+// =============================================================================
+// Retry
+// =============================================================================
+
+/**
+ * Options for {@link createRetryInterceptor}.
+ */
+export interface RetryInterceptorOptions {
+  /** Maximum number of retries after the first attempt (default: 2) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds (default: 200) */
+  baseDelay?: number;
+  /** Upper bound for any delay in milliseconds (default: 5000) */
+  maxDelay?: number;
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  factor?: number;
+  /** Randomize each delay between 0 and its computed value (default: true) */
+  jitter?: boolean;
+  /** Decides whether an error is transient (default: timeouts only) */
+  shouldRetry?: (error: Error, context: BridgeCallContext) => boolean;
+}
+
+/**
+ * Creates an interceptor that retries transient failures with exponential
+ * backoff.
+ *
+ * By default only timeouts are retried, since a native error usually means
+ * the action ran and failed (for example, the user cancelled a prompt).
+ * Only retry actions that are safe to repeat.
+ *
+ * @param options - Retry limits, backoff and the transient error check
+ * @returns The interceptor
+ *
+ * @example
+ * ```typescript
+ * bridge.use(
+ *   createRetryInterceptor({
+ *     retries: 3,
+ *     shouldRetry: (error, { module }) =>
+ *       error instanceof BridgeTimeoutError && module === 'healthkit',
+ *   })
+ * );
+ * ```
+ */
+export function createRetryInterceptor(options: RetryInterceptorOptions = {}): BridgeInterceptor {
+  const retries = options.retries ?? 2;
+  const baseDelay = options.baseDelay ?? 200;
+  const maxDelay = options.maxDelay ?? 5000;
+  const factor = options.factor ?? 2;
+  const jitter = options.jitter ?? true;
+  const shouldRetry =
+    options.shouldRetry ?? ((error: Error) => error instanceof BridgeTimeoutError);
+
+  return {
+    onError(context, error) {
+      if (context.attempt > retries || !shouldRetry(error, context)) {
+        return;
+      }
+
+      const delay = Math.min(maxDelay, baseDelay * factor ** (context.attempt - 1));
+      return { retryAfter: jitter ? Math.random() * delay : delay };
+    },
+  };
+}
+
+// =============================================================================
+// Timing
+// =============================================================================
+
+/**
+ * Latency of a single attempt.
+ */
+export interface TimingMeasurement {
+  /** The target module name */
+  module: string;
+  /** The action performed */
+  action: string;
+  /** The attempt, starting at 1 */
+  attempt: number;
+  /** Time from sending to settling in milliseconds */
+  duration: number;
+  /** Whether the attempt succeeded */
+  success: boolean;
+}
+
+/**
+ * Aggregated latency for a module action.
+ */
+export interface TimingStats {
+  /** The target module name */
+  module: string;
+  /** The action performed */
+  action: string;
+  /** Number of attempts measured */
+  count: number;
+  /** Number of failed attempts */
+  errors: number;
+  /** Shortest attempt in milliseconds */
+  min: number;
+  /** Longest attempt in milliseconds */
+  max: number;
+  /** Mean attempt duration in milliseconds */
+  average: number;
+}
+
+/**
+ * Options for {@link createTimingInterceptor}.
+ */
+export interface TimingInterceptorOptions {
+  /** Called with every measurement, e.g. to report it to analytics */
+  onMeasure?: (measurement: TimingMeasurement) => void;
+}
+
+/**
+ * Interceptor that measures call latency per module action.
+ */
+export interface TimingInterceptor extends BridgeInterceptor {
+  /** Returns the aggregated latency of every module action measured so far */
+  stats(): TimingStats[];
+  /** Discards the aggregated latency */
+  reset(): void;
+}
+
+/**
+ * Creates an interceptor that measures the latency of every attempt,
+ * aggregated per module action.
+ *
+ * @param options - Optional measurement callback
+ * @returns The interceptor
+ *
+ * @example
+ * ```typescript
+ * const timing = createTimingInterceptor({
+ *   onMeasure: ({ module, action, duration }) =>
+ *     analytics.timing(`bridge.${module}.${action}`, duration),
+ * });
+ * bridge.use(timing);
+ *
+ * console.table(timing.stats());
+ * ```
+ */
+export function createTimingInterceptor(
+  options: TimingInterceptorOptions = {}
+): TimingInterceptor {
+  const started = new WeakMap<BridgeCallContext, number>();
+  let totals = new Map<string, TimingStats & { total: number }>();
+
+  const record = (context: BridgeCallContext, success: boolean) => {
+    const start = started.get(context);
+    if (start === undefined) {
+      return;
+    }
+    started.delete(context);
+
+    const measurement: TimingMeasurement = {
+      module: context.module,
+      action: context.action,
+      attempt: context.attempt,
+      duration: now() - start,
+      success,
+    };
+
+    const key = `${context.module}.${context.action}`;
+    const entry = totals.get(key) ?? {
+      module: context.module,
+      action: context.action,
+      count: 0,
+      errors: 0,
+      min: Infinity,
+      max: 0,
+      average: 0,
+      total: 0,
+    };
+    entry.count += 1;
+    entry.errors += success ? 0 : 1;
+    entry.total += measurement.duration;
+    entry.min = Math.min(entry.min, measurement.duration);
+    entry.max = Math.max(entry.max, measurement.duration);
+    entry.average = entry.total / entry.count;
+    totals.set(key, entry);
+
+    options.onMeasure?.(measurement);
+  };
+
+  return {
+    beforeSend(context) {
+      started.set(context, now());
+    },
+    afterResponse(context) {
+      record(context, true);
+    },
+    onError(context) {
+      record(context, false);
+    },
+    stats() {
+      return [...totals.values()].map(({ total: _total, ...stats }) => stats);
+    },
+    reset() {
+      totals = new Map();
+    },
+  };
+}
+
+// =============================================================================
+// Redaction
+// =============================================================================
+
+/**
+ * Options for {@link createRedactionInterceptor}.
+ */
+export interface RedactionInterceptorOptions {
+  /**
+   * Payload fields to redact, keyed by `module.action`
+   * (default: `{ 'secureStorage.set': ['value'], 'secureStorage.setMany': ['entries'] }`).
+   */
+  fields?: Record<string, string[]>;
+  /** Replacement for redacted values (default: '[REDACTED]') */
+  replacement?: string;
+}
+
+/** Secure storage values, written singly or in a batch */
+const DEFAULT_REDACTED_FIELDS: Record<string, string[]> = {
+  'secureStorage.set': ['value'],
+  'secureStorage.setMany': ['entries'],
+};
+
+/**
+ * Creates an interceptor that hides secret payload fields from debug logs
+ * and from later interceptors' `logPayload`.
+ *
+ * The payload sent to native is not changed. Add this interceptor before
+ * any logging or analytics interceptor.
+ *
+ * @param options - Fields to redact and the replacement value
+ * @returns The interceptor
+ *
+ * @example
+ * ```typescript
+ * bridge.use(
+ *   createRedactionInterceptor({
+ *     fields: {
+ *       'secureStorage.set': ['value'],
+ *       'secureStorage.setMany': ['entries'],
+ *       'auth.login': ['password', 'otp'],
+ *     },
+ *   })
+ * );
+ * ```
+ */
+export function createRedactionInterceptor(
+  options: RedactionInterceptorOptions = {}
+): BridgeInterceptor {
+  const fields = options.fields ?? DEFAULT_REDACTED_FIELDS;
+  const replacement = options.replacement ?? '[REDACTED]';
+
+  return {
+    beforeSend(context) {
+      const redacted = fields[`${context.module}.${context.action}`];
+      const payload = context.logPayload;
+      if (!redacted || typeof payload !== 'object' || payload === null) {
+        return;
+      }
+
+      const copy: Record<string, unknown> = { ...(payload as Record<string, unknown>) };
+      for (const field of redacted) {
+        if (field in copy) {
+          copy[field] = replacement;
+        }
+      }
+      context.logPayload = copy;
+    },
+  };
+}
@@ -7,6 +7,7 @@
  */
 
 import { bridge } from '../bridge';
+import type { BridgeCallOptions } from '../types';
 
 /**
  * App version information.
@@ -50,10 +51,11 @@ export const app = {
   /**
    * Gets the app version and build number.
    *
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns App version information
    */
-  async getVersion(): Promise<AppVersion> {
-    return bridge.call<AppVersion>('app', 'getVersion');
+  async getVersion(callOptions?: BridgeCallOptions): Promise<AppVersion> {
+    return bridge.call('app', 'getVersion', undefined, callOptions);
   },
 
   /**
@@ -62,18 +64,21 @@ export const app = {
    * Uses SKStoreReviewController.requestReview() which may or may not
    * show the rating dialog depending on Apple's rate limiting.
    *
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Whether the review dialog was presented
    */
-  async requestReview(): Promise<ReviewResult> {
-    return bridge.call<ReviewResult>('app', 'requestReview');
+  async requestReview(callOptions?: BridgeCallOptions): Promise<ReviewResult> {
+    return bridge.call('app', 'requestReview', undefined, callOptions);
   },
 
   /**
    * Opens the app's settings page in the Settings app.
    *
    * Useful for directing users to enable permissions they previously denied.
+   *
+   * @param callOptions - Optional call options (timeout, abort signal)
    */
-  async openSettings(): Promise<void> {
-    await bridge.call('app', 'openSettings');
+  async openSettings(callOptions?: BridgeCallOptions): Promise<void> {
+    await bridge.call('app', 'openSettings', undefined, callOptions);
   },
 };
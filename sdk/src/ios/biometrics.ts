@@ -1,12 +1,15 @@
 /**
  * Biometrics Module API
  *
- * Provides Face ID and Touch ID authentication via LocalAuthentication framework.
+ * Provides Face ID and Touch ID authentication via LocalAuthentication framework,
+ * and detects changes to the enrolled faces or fingerprints.
  *
  * @module ios/biometrics
  */
 
 import { bridge } from '../bridge';
+import { BridgeError } from '../types';
+import type { BridgeCallOptions, BridgeErrorCode } from '../types';
 
 /**
  * Biometry types available on the device.
@@ -25,6 +28,59 @@ export interface BiometricAvailability {
   error?: string;
 }
 
+/**
+ * The enrolled biometry.
+ */
+export interface BiometricEnrollmentState {
+  /**
+   * A hash identifying the enrolled faces or fingerprints, or null when
+   * biometrics are unavailable or not enrolled. It changes whenever one is
+   * enrolled or removed, and reveals nothing about the biometry itself.
+   */
+  state: string | null;
+  /** The type of biometry available */
+  biometryType: BiometryType;
+}
+
+/**
+ * Options for biometric authentication.
+ */
+export interface BiometricAuthenticateOptions {
+  /**
+   * Accept the device passcode instead, after failed attempts or when
+   * biometrics are locked out or unavailable (default: false)
+   */
+  allowPasscode?: boolean;
+  /**
+   * Title of the fallback button shown after a failed attempt; an empty
+   * string hides it. Without `allowPasscode`, choosing it resolves with
+   * `errorCode: 'userFallback'` so the app can offer its own sign-in.
+   */
+  fallbackTitle?: string;
+  /** Title of the cancel button */
+  cancelTitle?: string;
+}
+
+/**
+ * LocalAuthentication failure reasons reported by native.
+ *
+ * `biometryChanged` is only reported for secure storage values requiring
+ * biometrics, once a face or fingerprint is enrolled or removed.
+ */
+export type BiometricErrorCode =
+  | 'authenticationFailed'
+  | 'userCancel'
+  | 'userFallback'
+  | 'systemCancel'
+  | 'passcodeNotSet'
+  | 'biometryNotAvailable'
+  | 'biometryNotEnrolled'
+  | 'biometryLockout'
+  | 'appCancel'
+  | 'invalidContext'
+  | 'biometryChanged'
+  | 'unknown';
+
 /**
  * Result from biometric authentication.
  */
@@ -33,6 +89,44 @@ export interface AuthenticationResult {
   success: boolean;
   /** Error message if authentication failed */
   error?: string;
+  /** Stable error code if authentication failed (`E_CANCELLED` when dismissed) */
+  code?: BridgeErrorCode;
+  /** The LocalAuthentication failure reason */
+  errorCode?: BiometricErrorCode;
+}
+
+/**
+ * Maps a LocalAuthentication failure reason to a bridge error code.
+ */
+function toBridgeErrorCode(errorCode: string | undefined): BridgeErrorCode {
+  switch (errorCode) {
+    case 'userCancel':
+    case 'userFallback':
+    case 'systemCancel':
+    case 'appCancel':
+      return 'E_CANCELLED';
+    default:
+      return 'E_UNKNOWN';
+  }
+}
+
+/**
+ * Error thrown when Face ID or Touch ID authentication guarding another
+ * operation fails, such as reading a secure storage value that requires
+ * biometrics.
+ *
+ * Like {@link AuthenticationResult}, `code` is `E_CANCELLED` when the prompt
+ * was dismissed and `errorCode` holds the LocalAuthentication reason.
+ */
+export class BiometricAuthenticationError extends BridgeError {
+  /** The LocalAuthentication failure reason */
+  public readonly errorCode: BiometricErrorCode;
+
+  constructor(message: string, errorCode: BiometricErrorCode) {
+    super(message, { code: toBridgeErrorCode(errorCode) });
+    this.name = 'BiometricAuthenticationError';
+    this.errorCode = errorCode;
+  }
 }
 
 /**
@@ -51,31 +145,99 @@ export interface AuthenticationResult {
  *   const result = await ios.biometrics.authenticate('Access your account');
  *   if (result.success) {
  *     console.log('Authentication successful');
- *   } else {
+ *   } else if (result.code !== 'E_CANCELLED') {
  *     console.log('Authentication failed:', result.error);
  *   }
  * }
+ *
+ * // Force a re-login if a face or fingerprint was enrolled since opt-in
+ * const { state } = await ios.biometrics.getEnrollmentState();
+ * localStorage.setItem('biometricState', JSON.stringify(state));
+ * // ...later
+ * const storedState = JSON.parse(localStorage.getItem('biometricState') ?? 'null');
+ * if (await ios.biometrics.hasEnrollmentChanged(storedState)) {
+ *   await signOut();
+ * }
  * ```
  */
 export const biometrics = {
   /**
    * Checks if biometric authentication is available.
    *
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Availability info including biometry type
    */
-  async isAvailable(): Promise<BiometricAvailability> {
-    return bridge.call<BiometricAvailability>('biometrics', 'isAvailable');
+  async isAvailable(callOptions?: BridgeCallOptions): Promise<BiometricAvailability> {
+    return bridge.call('biometrics', 'isAvailable', undefined, callOptions);
+  },
+
+  /**
+   * Gets a hash identifying the enrolled faces or fingerprints.
+   *
+   * Store it when the user opts in to biometric sign-in, then check it with
+   * {@link biometrics.hasEnrollmentChanged} to catch someone enrolling
+   * their own face or fingerprint since.
+   *
+   * @param callOptions - Optional call options (timeout, abort signal)
+   * @returns The enrollment state and biometry type
+   */
+  async getEnrollmentState(callOptions?: BridgeCallOptions): Promise<BiometricEnrollmentState> {
+    return bridge.call('biometrics', 'getEnrollmentState', undefined, callOptions);
+  },
+
+  /**
+   * Checks whether the enrolled faces or fingerprints changed since an
+   * earlier {@link biometrics.getEnrollmentState} call.
+   *
+   * Removing every enrollment, or losing biometrics altogether, also counts
+   * as a change. A null `previousState` (nothing was enrolled) only matches
+   * a null state.
+   *
+   * @param previousState - The `state` stored earlier, null included
+   * @param callOptions - Optional call options (timeout, abort signal)
+   * @returns Whether the enrollment differs from `previousState`
+   */
+  async hasEnrollmentChanged(
+    previousState: string | null,
+    callOptions?: BridgeCallOptions
+  ): Promise<boolean> {
+    const { state } = await biometrics.getEnrollmentState(callOptions);
+    return state !== previousState;
   },
 
   /**
    * Prompts the user for biometric authentication.
    *
+   * A failed attempt resolves with `success: false` and a `code`;
+   * dismissing the prompt (or choosing the fallback) sets
+   * `code: 'E_CANCELLED'`.
+   *
    * @param reason - Localized reason displayed to the user
+   * @param options - Optional passcode fallback and button titles
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Authentication result
    */
-  async authenticate(reason: string): Promise<AuthenticationResult> {
-    return bridge.call<AuthenticationResult>('biometrics', 'authenticate', {
-      reason,
-    });
+  async authenticate(
+    reason: string,
+    options: BiometricAuthenticateOptions = {},
+    callOptions?: BridgeCallOptions
+  ): Promise<AuthenticationResult> {
+    const { allowPasscode, fallbackTitle, cancelTitle } = options;
+    const result = await bridge.call(
+      'biometrics',
+      'authenticate',
+      { reason, allowPasscode, fallbackTitle, cancelTitle },
+      callOptions
+    );
+    if (result.success) {
+      return { success: true };
+    }
+
+    return {
+      success: false,
+      error: result.error,
+      code: toBridgeErrorCode(result.errorCode),
+      errorCode: result.errorCode as BiometricErrorCode | undefined,
+    };
   },
 };
@@ -7,6 +7,7 @@
  */
 
 import { bridge } from '../bridge';
+import type { BridgeCallOptions } from '../types';
 
 /**
  * Supported HealthKit quantity types.
@@ -236,25 +237,29 @@ export const healthKit = {
   /**
    * Checks if HealthKit is available on this device.
    *
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Availability result
    */
-  async isAvailable(): Promise<HealthKitAvailability> {
-    return bridge.call<HealthKitAvailability>('healthkit', 'isAvailable');
+  async isAvailable(callOptions?: BridgeCallOptions): Promise<HealthKitAvailability> {
+    return bridge.call('healthkit', 'isAvailable', undefined, callOptions);
   },
 
   /**
    * Requests HealthKit authorization for the specified data types.
    *
    * @param request - Authorization request specifying read/write types
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Authorization result
    */
   async requestAuthorization(
-    request: AuthorizationRequest
+    request: AuthorizationRequest,
+    callOptions?: BridgeCallOptions
   ): Promise<AuthorizationResult> {
-    return bridge.call<AuthorizationResult>(
+    return bridge.call(
       'healthkit',
       'requestAuthorization',
-      request
+      request,
+      callOptions
     );
   },
 
@@ -262,13 +267,18 @@ export const healthKit = {
    * Queries step count data.
    *
    * @param options - Query options with date range
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Array of step count samples
    */
-  async querySteps(options: QueryOptions): Promise<HealthSample[]> {
-    const result = await bridge.call<{ samples: HealthSample[] }>(
+  async querySteps(
+    options: QueryOptions,
+    callOptions?: BridgeCallOptions
+  ): Promise<HealthSample[]> {
+    const result = await bridge.call(
       'healthkit',
       'querySteps',
-      options
+      options,
+      callOptions
     );
     return result.samples;
   },
@@ -281,13 +291,18 @@ export const healthKit = {
    * to return the correct deduplicated total.
    *
    * @param options - Query options with date range
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Object with totalSteps
    */
-  async queryStepCount(options: QueryOptions): Promise<{ totalSteps: number }> {
-    return bridge.call<{ totalSteps: number }>(
+  async queryStepCount(
+    options: QueryOptions,
+    callOptions?: BridgeCallOptions
+  ): Promise<{ totalSteps: number }> {
+    return bridge.call(
       'healthkit',
       'queryStepCount',
-      options
+      options,
+      callOptions
     );
   },
 
@@ -295,13 +310,18 @@ export const healthKit = {
    * Queries heart rate data.
    *
    * @param options - Query options with date range
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Array of heart rate samples
    */
-  async queryHeartRate(options: QueryOptions): Promise<HealthSample[]> {
-    const result = await bridge.call<{ samples: HealthSample[] }>(
+  async queryHeartRate(
+    options: QueryOptions,
+    callOptions?: BridgeCallOptions
+  ): Promise<HealthSample[]> {
+    const result = await bridge.call(
       'healthkit',
       'queryHeartRate',
-      options
+      options,
+      callOptions
     );
     return result.samples;
   },
@@ -310,13 +330,18 @@ export const healthKit = {
    * Queries workout data.
    *
    * @param options - Query options with date range and optional activity type filter
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Array of workout data
    */
-  async queryWorkouts(options: WorkoutQueryOptions): Promise<WorkoutData[]> {
-    const result = await bridge.call<{ workouts: WorkoutData[] }>(
+  async queryWorkouts(
+    options: WorkoutQueryOptions,
+    callOptions?: BridgeCallOptions
+  ): Promise<WorkoutData[]> {
+    const result = await bridge.call(
       'healthkit',
       'queryWorkouts',
-      options
+      options,
+      callOptions
     );
     return result.workouts;
   },
@@ -325,13 +350,18 @@ export const healthKit = {
    * Queries sleep analysis data.
    *
    * @param options - Query options with date range
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Array of sleep samples
    */
-  async querySleep(options: QueryOptions): Promise<SleepSample[]> {
-    const result = await bridge.call<{ samples: SleepSample[] }>(
+  async querySleep(
+    options: QueryOptions,
+    callOptions?: BridgeCallOptions
+  ): Promise<SleepSample[]> {
+    const result = await bridge.call(
       'healthkit',
       'querySleep',
-      options
+      options,
+      callOptions
     );
     return result.samples;
   },
@@ -340,6 +370,7 @@ export const healthKit = {
    * Saves a workout to HealthKit.
    *
    * @param request - Workout save request
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Result with success status
    *
    * @example
@@ -354,8 +385,9 @@ export const healthKit = {
    * ```
    */
   async saveWorkout(
-    request: SaveWorkoutRequest
+    request: SaveWorkoutRequest,
+    callOptions?: BridgeCallOptions
   ): Promise<{ success: boolean; error?: string }> {
-    return bridge.call('healthkit', 'saveWorkout', request);
+    return bridge.call('healthkit', 'saveWorkout', request, callOptions);
   },
 };
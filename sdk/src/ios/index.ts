@@ -40,10 +40,21 @@ export type {
   BiometryType,
   BiometricAvailability,
   AuthenticationResult,
+  BiometricErrorCode,
+  BiometricEnrollmentState,
+  BiometricAuthenticateOptions,
 } from './biometrics';
+export { BiometricAuthenticationError } from './biometrics';
 
 export { secureStorage } from './secureStorage';
-export type { GetResult } from './secureStorage';
+export type {
+  GetResult,
+  KeychainAccessibility,
+  SecureStorage,
+  SecureStorageOptions,
+  SecureStorageSetOptions,
+  SecureStorageGetOptions,
+} from './secureStorage';
 
 export { healthKit } from './healthKit';
 export type {
@@ -66,6 +77,15 @@ export type {
   ProductInfo,
   PurchaseResult,
   EntitlementInfo,
+  SubscriptionPeriod,
+  SubscriptionOffer,
+  ProductSubscriptionInfo,
+  TransactionInfo,
+  PromotionalOffer,
+  PurchaseOptions,
+  SubscriptionRenewalState,
+  SubscriptionExpirationReason,
+  SubscriptionStatus,
 } from './storeKit';
 
 export { app } from './app';
@@ -78,5 +98,15 @@ export type {
   CalendarTrigger,
   NotificationTrigger,
   NotificationOptions,
+  NotificationPatch,
+  RecurringNotificationOptions,
+  RecurringSchedule,
+  NotificationInterruptionLevel,
+  NotificationAttachment,
+  NotificationCategory,
+  NotificationAction,
+  NotificationTextInput,
   PendingNotification,
+  DeliveredNotification,
 } from './notifications';
+export { NotificationValidationError } from './notifications';
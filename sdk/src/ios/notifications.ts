@@ -2,12 +2,15 @@
  * Notifications Module API
  *
  * Provides local notification scheduling capabilities.
- * Extends the push notification functionality with local notifications.
+ * Extends the push notification functionality with local notifications,
+ * interactive categories, recurring series and delivered-notification management.
  *
  * @module notifications
  */
 
 import { bridge } from '../bridge';
+import { InvalidPayloadError } from '../types';
+import type { BridgeCallOptions } from '../types';
 
 // =============================================================================
 // Trigger Types
@@ -64,10 +67,78 @@ export type NotificationTrigger =
   | DateTrigger
   | CalendarTrigger;
 
+// =============================================================================
+// Categories
+// =============================================================================
+
+/**
+ * A text field shown by a notification action, for typing a reply.
+ */
+export interface NotificationTextInput {
+  /** The title of the send button (default: 'Send'). */
+  buttonTitle?: string;
+  /** The placeholder shown in the text field. */
+  placeholder?: string;
+}
+
+/**
+ * An action button shown with notifications of a category.
+ */
+export interface NotificationAction {
+  /** The action identifier, reported as `actionId` in `notificationAction` events. */
+  id: string;
+  /** The button title. */
+  title: string;
+  /** Whether the action is shown as destructive. */
+  destructive?: boolean;
+  /** Whether choosing the action opens the app (default: false). */
+  foreground?: boolean;
+  /** Whether the device must be unlocked to choose the action. */
+  authenticationRequired?: boolean;
+  /** Shows a text field; the text is reported as `userText`. */
+  textInput?: NotificationTextInput;
+}
+
+/**
+ * A type of notification with action buttons.
+ *
+ * Local notifications opt in with `categoryId`, and remote notifications
+ * with `aps.category`.
+ */
+export interface NotificationCategory {
+  /** The category identifier. */
+  id: string;
+  /** The actions to show, in order. */
+  actions: NotificationAction[];
+}
+
 // =============================================================================
 // Notification Options
 // =============================================================================
 
+/**
+ * How urgently a notification is delivered.
+ *
+ * - `passive`: Delivered quietly, without lighting up the screen
+ * - `active`: Delivered immediately (the default)
+ * - `timeSensitive`: Delivered immediately, even during a Focus. Requires
+ *   the Time Sensitive Notifications capability.
+ */
+export type NotificationInterruptionLevel = 'passive' | 'active' | 'timeSensitive';
+
+/**
+ * An image, audio or video file shown with a notification.
+ *
+ * Remote files are downloaded when the notification is scheduled. The file
+ * type is taken from the URL's extension.
+ */
+export interface NotificationAttachment {
+  /** The file URL; relative URLs resolve against the page. */
+  url: string;
+  /** The attachment identifier. Defaults to a generated one. */
+  id?: string;
+}
+
 /**
  * Options for scheduling a local notification.
  */
@@ -88,6 +159,60 @@ export interface NotificationOptions {
   data?: Record<string, unknown>;
   /** When to trigger the notification. */
   trigger: NotificationTrigger;
+  /** The identifier of a category registered with `setCategories()`. */
+  categoryId?: string;
+  /** Groups the notification with others of the same thread. */
+  threadId?: string;
+  /** How urgently the notification is delivered. */
+  interruptionLevel?: NotificationInterruptionLevel;
+  /** Images, audio or video to show with the notification. */
+  attachments?: NotificationAttachment[];
+}
+
+/**
+ * Changes to a pending notification. Fields left out keep their value.
+ */
+export type NotificationPatch = Partial<Omit<NotificationOptions, 'id'>>;
+
+// =============================================================================
+// Recurring Notifications
+// =============================================================================
+
+/**
+ * Options for scheduling a series of notifications from a recurrence rule.
+ */
+export interface RecurringNotificationOptions extends Omit<NotificationOptions, 'trigger'> {
+  /**
+   * An RFC 5545 recurrence rule (e.g., 'FREQ=WEEKLY;BYDAY=MO,WE;BYHOUR=9;BYMINUTE=0').
+   * Supports FREQ (DAILY, WEEKLY, MONTHLY or YEARLY), INTERVAL, COUNT, UNTIL,
+   * BYMONTH, BYMONTHDAY, BYDAY, BYHOUR, BYMINUTE, BYSECOND and WKST.
+   */
+  rrule: string;
+  /**
+   * When the series starts (default: now). Times and days the rule leaves
+   * out are taken from it, as with DTSTART.
+   */
+  start?: Date | string;
+  /**
+   * How many upcoming occurrences to keep pending when the rule can't be
+   * expressed as repeating triggers (default: 16).
+   */
+  window?: number;
+}
+
+/**
+ * The notifications scheduled for a recurring series.
+ */
+export interface RecurringSchedule {
+  /** The series identifier. */
+  id: string;
+  /** The identifiers of the pending notifications in the series. */
+  notificationIds: string[];
+  /**
+   * Whether the series is kept as a rolling window of one-off notifications,
+   * topped up by `refreshRecurring()`, rather than as repeating triggers.
+   */
+  rolling: boolean;
 }
 
 // =============================================================================
@@ -110,25 +235,75 @@ export interface PendingNotification {
   repeats: boolean;
   /** The next trigger date (ISO 8601 string), if determinable. */
   nextTriggerDate?: string;
+  /** The notification's category identifier. */
+  categoryId?: string;
+  /** The notification's thread identifier. */
+  threadId?: string;
 }
 
 // =============================================================================
-// Internal Types
+// Delivered Notification Info
 // =============================================================================
 
-interface ScheduleResult {
-  success: boolean;
+/**
+ * Information about a notification shown in Notification Center.
+ */
+export interface DeliveredNotification {
+  /** The notification identifier. */
   id: string;
+  /** The notification title. */
+  title: string;
+  /** The notification body. */
+  body?: string;
+  /** The notification subtitle. */
+  subtitle?: string;
+  /** The notification's category identifier. */
+  categoryId?: string;
+  /** The notification's thread identifier. */
+  threadId?: string;
+  /** Custom data included with the notification. */
+  data?: Record<string, unknown>;
+  /** When the notification was delivered (ISO 8601 string). */
+  date: string;
 }
 
-interface SuccessResult {
-  success: boolean;
-}
+// =============================================================================
+// Validation Errors
+// =============================================================================
 
-interface PendingResult {
-  notifications: PendingNotification[];
+/**
+ * Error thrown when a notification trigger would be rejected by iOS, or would
+ * never fire.
+ *
+ * Thrown by `schedule()` and `updatePending()` before the call reaches native,
+ * and by `validateTrigger()`.
+ */
+export class NotificationValidationError extends InvalidPayloadError {
+  /** The path of the invalid option (e.g., 'trigger.hour') */
+  public readonly field: string;
+  /** The invalid value */
+  public readonly value: unknown;
+
+  constructor(message: string, field: string, value: unknown) {
+    super(message);
+    this.name = 'NotificationValidationError';
+    this.field = field;
+    this.value = value;
+  }
 }
 
+// =============================================================================
+// Internal Types
+// =============================================================================
+
+/**
+ * A trigger as sent to the native bridge, with dates as ISO 8601 strings.
+ */
+type SerializedTrigger =
+  | TimeIntervalTrigger
+  | CalendarTrigger
+  | { type: 'date'; date: string };
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -136,7 +311,7 @@ interface PendingResult {
 /**
  * Converts a trigger to the format expected by the native bridge.
  */
-function serializeTrigger(trigger: NotificationTrigger): Record<string, unknown> {
+function serializeTrigger(trigger: NotificationTrigger): SerializedTrigger {
   if (trigger.type === 'date') {
     const date = trigger.date instanceof Date
       ? trigger.date.toISOString()
@@ -147,6 +322,735 @@ function serializeTrigger(trigger: NotificationTrigger): Record<string, unknown>
   return { ...trigger };
 }
 
+/** Calendar trigger components, from the largest unit to the smallest */
+const CALENDAR_FIELDS = ['year', 'month', 'day', 'weekday', 'hour', 'minute', 'second'] as const;
+
+/** Allowed ranges of calendar trigger components, with their description */
+const CALENDAR_RANGES: Record<(typeof CALENDAR_FIELDS)[number], [number, number, string]> = {
+  year: [1, 9999, 'Year must be between 1 and 9999'],
+  month: [1, 12, 'Month must be between 1 and 12'],
+  day: [1, 31, 'Day must be between 1 and 31'],
+  weekday: [1, 7, 'Weekday must be between 1 (Sunday) and 7 (Saturday)'],
+  hour: [0, 23, 'Hour must be between 0 and 23'],
+  minute: [0, 59, 'Minute must be between 0 and 59'],
+  second: [0, 59, 'Second must be between 0 and 59'],
+};
+
+/**
+ * Days searched for a calendar match. Weekdays and leap days line up again
+ * after 28 years.
+ */
+const CALENDAR_SEARCH_DAYS = 28 * 366;
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/**
+ * The number of days in a month, or in any year's month when the year is unset.
+ */
+function daysInMonth(month: number, year: number | undefined): number {
+  if (month === 2) {
+    return year === undefined || isLeapYear(year) ? 29 : 28;
+  }
+  return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+/**
+ * The hours, minutes and seconds a calendar trigger can fire at, in order.
+ *
+ * Like `Calendar.nextDate(after:matching:)`, unset components smaller than
+ * the largest set time component are zero and larger ones match any value.
+ * A trigger without time components fires at midnight.
+ */
+function calendarTimes(trigger: CalendarTrigger): number[][] {
+  const values = [trigger.hour, trigger.minute, trigger.second];
+  const largest = values.findIndex((value) => value !== undefined);
+  const counts = [24, 60, 60];
+
+  return values.map((value, index) => {
+    if (value !== undefined) {
+      return [value];
+    }
+    return index < largest ? Array.from({ length: counts[index] }, (_, i) => i) : [0];
+  });
+}
+
+/**
+ * Finds the first local time after `from` matching a calendar trigger.
+ *
+ * A trigger with a year is only searched within that year, however far ahead.
+ */
+function nextCalendarDate(trigger: CalendarTrigger, from: Date): Date | null {
+  const [hours, minutes, seconds] = calendarTimes(trigger);
+  let first = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  let searchDays = CALENDAR_SEARCH_DAYS;
+
+  if (trigger.year !== undefined) {
+    if (trigger.year < from.getFullYear()) {
+      return null;
+    }
+    if (trigger.year > from.getFullYear()) {
+      first = new Date(trigger.year, 0, 1);
+    }
+    searchDays = 366;
+  }
+
+  for (let offset = 0; offset <= searchDays; offset++) {
+    const day = new Date(first.getFullYear(), first.getMonth(), first.getDate() + offset);
+    if (trigger.year !== undefined && day.getFullYear() > trigger.year) {
+      return null;
+    }
+    if (
+      (trigger.year !== undefined && day.getFullYear() !== trigger.year) ||
+      (trigger.month !== undefined && day.getMonth() + 1 !== trigger.month) ||
+      (trigger.day !== undefined && day.getDate() !== trigger.day) ||
+      (trigger.weekday !== undefined && day.getDay() + 1 !== trigger.weekday)
+    ) {
+      continue;
+    }
+
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        for (const second of seconds) {
+          const date = new Date(day);
+          date.setHours(hour, minute, second);
+          if (date > from) {
+            return date;
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Computes when a trigger next fires after `from`, or null if it never does.
+ */
+function computeNextTriggerDate(trigger: NotificationTrigger, from: Date): Date | null {
+  switch (trigger.type) {
+    case 'timeInterval':
+      return trigger.seconds > 0 ? new Date(from.getTime() + trigger.seconds * 1000) : null;
+    case 'date': {
+      const date = new Date(trigger.date);
+      return date > from ? date : null;
+    }
+    case 'calendar':
+      return nextCalendarDate(trigger, from);
+  }
+}
+
+/**
+ * Throws a NotificationValidationError for a trigger that iOS would reject or
+ * that would never fire after `now`.
+ */
+function assertValidTrigger(trigger: NotificationTrigger, now: Date): void {
+  switch (trigger.type) {
+    case 'timeInterval':
+      if (!Number.isFinite(trigger.seconds) || trigger.seconds <= 0) {
+        throw new NotificationValidationError(
+          'Time interval must be positive',
+          'trigger.seconds',
+          trigger.seconds
+        );
+      }
+      if (trigger.repeats && trigger.seconds < 60) {
+        throw new NotificationValidationError(
+          'Repeating time interval must be at least 60 seconds',
+          'trigger.seconds',
+          trigger.seconds
+        );
+      }
+      return;
+
+    case 'date': {
+      const date = new Date(trigger.date);
+      if (Number.isNaN(date.getTime())) {
+        throw new NotificationValidationError('Invalid date', 'trigger.date', trigger.date);
+      }
+      if (date <= now) {
+        throw new NotificationValidationError(
+          'Notification date must be in the future',
+          'trigger.date',
+          trigger.date
+        );
+      }
+      return;
+    }
+
+    case 'calendar': {
+      for (const field of CALENDAR_FIELDS) {
+        const value = trigger[field];
+        const [min, max, message] = CALENDAR_RANGES[field];
+        if (value !== undefined && (!Number.isInteger(value) || value < min || value > max)) {
+          throw new NotificationValidationError(message, `trigger.${field}`, value);
+        }
+      }
+      if (CALENDAR_FIELDS.every((field) => trigger[field] === undefined)) {
+        throw new NotificationValidationError(
+          'Calendar trigger needs at least one date or time component',
+          'trigger',
+          trigger
+        );
+      }
+      if (
+        trigger.day !== undefined &&
+        trigger.month !== undefined &&
+        trigger.day > daysInMonth(trigger.month, trigger.year)
+      ) {
+        throw new NotificationValidationError(
+          `Day ${trigger.day} does not exist in month ${trigger.month}`,
+          'trigger.day',
+          trigger.day
+        );
+      }
+      if (!nextCalendarDate(trigger, now)) {
+        throw new NotificationValidationError(
+          'Calendar trigger never fires',
+          'trigger',
+          trigger
+        );
+      }
+      return;
+    }
+
+    default:
+      throw new NotificationValidationError(
+        'Unknown trigger type',
+        'trigger.type',
+        (trigger as { type: unknown }).type
+      );
+  }
+}
+
+/**
+ * Resolves attachment URLs against the page, as native needs absolute URLs.
+ */
+function serializeAttachments(
+  attachments: NotificationAttachment[] | undefined
+): NotificationAttachment[] | undefined {
+  if (!attachments) {
+    return undefined;
+  }
+  const base = typeof location !== 'undefined' ? location.href : undefined;
+  return attachments.map((attachment) => ({
+    ...attachment,
+    url: new URL(attachment.url, base).href,
+  }));
+}
+
+// =============================================================================
+// Recurrence Rules
+// =============================================================================
+
+/** iOS keeps at most this many pending notifications per app */
+const MAX_PENDING_NOTIFICATIONS = 64;
+
+/** Default number of pending occurrences for a rolling series */
+const DEFAULT_RECURRENCE_WINDOW = 16;
+
+/** localStorage key of rolling series, so they can be topped up later */
+const RECURRING_STORAGE_KEY = 'pwa-kit:notifications:recurring';
+
+/** RFC 5545 weekday codes, indexed by `Date.getDay()` */
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/** Periods searched for occurrences: the 28 years after which the calendar repeats */
+const RECURRENCE_SEARCH_PERIODS: Record<RecurrenceFrequency, number> = {
+  DAILY: CALENDAR_SEARCH_DAYS,
+  WEEKLY: 28 * 53,
+  MONTHLY: 28 * 12,
+  YEARLY: 28,
+};
+
+/**
+ * A parsed recurrence rule, with the parts it leaves out taken from the start.
+ */
+interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  weekStart: number;
+  byMonth?: number[];
+  byMonthDay?: number[];
+  /** Weekdays as `Date.getDay()` values, with an optional ordinal (e.g., 1MO) */
+  byDay?: { weekday: number; ordinal?: number }[];
+  byHour: number[];
+  byMinute: number[];
+  bySecond: number[];
+}
+
+/** A series as stored for `refreshRecurring()`, with its start resolved */
+type StoredSeries = RecurringNotificationOptions & { start: string };
+
+/**
+ * Parses a comma-separated list of integers within a range.
+ */
+function parseRuleNumbers(
+  part: string,
+  value: string,
+  min: number,
+  max: number,
+  allowNegative = false
+): number[] {
+  const numbers = value.split(',').map((item) => {
+    const number = /^[+-]?\d+$/.test(item) ? Number(item) : NaN;
+    const magnitude = allowNegative ? Math.abs(number) : number;
+    if (Number.isNaN(number) || magnitude < min || magnitude > max) {
+      throw new NotificationValidationError(
+        `${part} must be between ${allowNegative ? `-${max}` : min} and ${max}`,
+        `rrule.${part}`,
+        value
+      );
+    }
+    return number;
+  });
+  return [...new Set(numbers)].sort((a, b) => a - b);
+}
+
+/**
+ * Parses an UNTIL value, either a date or a local or UTC date-time.
+ */
+function parseRuleUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) {
+    throw new NotificationValidationError(
+      'UNTIL must be a date or date-time',
+      'rrule.UNTIL',
+      value
+    );
+  }
+  const [year, month, day] = [match[1], match[2], match[3]].map(Number);
+  if (match[4] === undefined) {
+    // A date-only UNTIL includes the whole day
+    return new Date(year, month - 1, day, 23, 59, 59);
+  }
+  const [hour, minute, second] = [match[4], match[5], match[6]].map(Number);
+  return match[7]
+    ? new Date(Date.UTC(year, month - 1, day, hour, minute, second))
+    : new Date(year, month - 1, day, hour, minute, second);
+}
+
+/**
+ * Parses an RFC 5545 recurrence rule, throwing a NotificationValidationError
+ * for parts that are invalid or unsupported.
+ */
+function parseRecurrenceRule(rrule: string, start: Date): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const item of rrule.trim().replace(/^RRULE:/i, '').split(';')) {
+    const [key, value] = item.split('=');
+    if (!key || value === undefined) {
+      throw new NotificationValidationError(
+        `Invalid recurrence rule part '${item}'`,
+        'rrule',
+        rrule
+      );
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq === undefined) {
+    throw new NotificationValidationError('Recurrence rule needs a FREQ', 'rrule.FREQ', freq);
+  }
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    throw new NotificationValidationError(
+      'FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY',
+      'rrule.FREQ',
+      freq
+    );
+  }
+
+  const rule: RecurrenceRule = {
+    freq: freq as RecurrenceFrequency,
+    interval: 1,
+    weekStart: 1,
+    byHour: [start.getHours()],
+    byMinute: [start.getMinutes()],
+    bySecond: [start.getSeconds()],
+  };
+
+  for (const [part, value] of parts) {
+    switch (part) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        [rule.interval] = parseRuleNumbers(part, value, 1, 9999);
+        break;
+      case 'COUNT':
+        [rule.count] = parseRuleNumbers(part, value, 1, 9999);
+        break;
+      case 'UNTIL':
+        rule.until = parseRuleUntil(value);
+        break;
+      case 'WKST':
+        rule.weekStart = WEEKDAY_CODES.indexOf(value);
+        if (rule.weekStart < 0) {
+          throw new NotificationValidationError('Invalid WKST weekday', 'rrule.WKST', value);
+        }
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseRuleNumbers(part, value, 1, 12);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseRuleNumbers(part, value, 1, 31, true);
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseRuleNumbers(part, value, 0, 23);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseRuleNumbers(part, value, 0, 59);
+        break;
+      case 'BYSECOND':
+        rule.bySecond = parseRuleNumbers(part, value, 0, 59);
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map((item) => {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+          const ordinal = match?.[1] === undefined ? undefined : Number(match[1]);
+          const maxOrdinal = rule.freq === 'YEARLY' ? 53 : 5;
+          if (
+            !match ||
+            (ordinal !== undefined &&
+              (ordinal === 0 || Math.abs(ordinal) > maxOrdinal ||
+                (rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY')))
+          ) {
+            throw new NotificationValidationError(
+              `Invalid BYDAY value '${item}'`,
+              'rrule.BYDAY',
+              value
+            );
+          }
+          return { weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal };
+        });
+        break;
+      default:
+        throw new NotificationValidationError(
+          `Unsupported recurrence rule part '${part}'`,
+          `rrule.${part}`,
+          value
+        );
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new NotificationValidationError(
+      'Recurrence rule cannot have both COUNT and UNTIL',
+      'rrule',
+      rrule
+    );
+  }
+
+  // Without day parts, the rule repeats on the start's weekday or date
+  if (!rule.byDay && !rule.byMonthDay) {
+    if (rule.freq === 'WEEKLY') {
+      rule.byDay = [{ weekday: start.getDay() }];
+    } else if (rule.freq === 'MONTHLY' || rule.freq === 'YEARLY') {
+      rule.byMonthDay = [start.getDate()];
+      if (rule.freq === 'YEARLY' && !rule.byMonth) {
+        rule.byMonth = [start.getMonth() + 1];
+      }
+    }
+  }
+
+  return rule;
+}
+
+/**
+ * The whole days from one local midnight to another.
+ */
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / 86_400_000);
+}
+
+/**
+ * The first day (at local midnight) of the rule's period `index` periods
+ * after the one holding `startDay`.
+ */
+function periodStart(rule: RecurrenceRule, startDay: Date, index: number): Date {
+  const [year, month, date] = [startDay.getFullYear(), startDay.getMonth(), startDay.getDate()];
+  switch (rule.freq) {
+    case 'DAILY':
+      return new Date(year, month, date + index);
+    case 'WEEKLY':
+      return new Date(year, month, date - weekOffset(rule, startDay) + index * 7);
+    case 'MONTHLY':
+      return new Date(year, month + index, 1);
+    case 'YEARLY':
+      return new Date(year + index, 0, 1);
+  }
+}
+
+/**
+ * The days from the rule's week start back to a day.
+ */
+function weekOffset(rule: RecurrenceRule, day: Date): number {
+  return (day.getDay() - rule.weekStart + 7) % 7;
+}
+
+/**
+ * The number of the rule's periods from the one holding `startDay` to the one
+ * holding `day`.
+ */
+function periodIndex(rule: RecurrenceRule, startDay: Date, day: Date): number {
+  switch (rule.freq) {
+    case 'DAILY':
+      return daysBetween(startDay, day);
+    case 'WEEKLY':
+      return (daysBetween(startDay, day) + weekOffset(rule, startDay) - weekOffset(rule, day)) / 7;
+    case 'MONTHLY':
+      return (
+        (day.getFullYear() - startDay.getFullYear()) * 12 + day.getMonth() - startDay.getMonth()
+      );
+    case 'YEARLY':
+      return day.getFullYear() - startDay.getFullYear();
+  }
+}
+
+/**
+ * Checks whether a day (at local midnight) matches the rule's day parts.
+ */
+function matchesRecurrenceDay(rule: RecurrenceRule, day: Date): boolean {
+  const month = day.getMonth() + 1;
+  const date = day.getDate();
+  const monthDays = daysInMonth(month, day.getFullYear());
+
+  if (rule.byMonth && !rule.byMonth.includes(month)) {
+    return false;
+  }
+  if (
+    rule.byMonthDay &&
+    !rule.byMonthDay.some((value) => value === date || value === date - monthDays - 1)
+  ) {
+    return false;
+  }
+  if (rule.byDay) {
+    // Ordinals count within the month, or within the year for a YEARLY rule without BYMONTH
+    const inYear = rule.freq === 'YEARLY' && !rule.byMonth;
+    const index = inYear ? daysBetween(new Date(day.getFullYear(), 0, 1), day) : date - 1;
+    const length = inYear ? (isLeapYear(day.getFullYear()) ? 366 : 365) : monthDays;
+    const nth = Math.floor(index / 7) + 1;
+    const nthFromEnd = -(Math.floor((length - 1 - index) / 7) + 1);
+    return rule.byDay.some(
+      ({ weekday, ordinal }) =>
+        weekday === day.getDay() &&
+        (ordinal === undefined || ordinal === nth || ordinal === nthFromEnd)
+    );
+  }
+  return true;
+}
+
+/**
+ * Lists up to `limit` occurrences of a rule after `after`.
+ *
+ * Steps through the rule's own periods, `INTERVAL` at a time, so the work
+ * doesn't grow with the interval. Periods are searched for 28 years' worth
+ * of matches, and the series ends after year 9999.
+ */
+function recurrenceDates(rule: RecurrenceRule, start: Date, after: Date, limit: number): Date[] {
+  const dates: Date[] = [];
+  const startDay = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  // COUNT includes past occurrences, so those have to be counted from the start
+  const from = rule.count === undefined && after > start ? after : start;
+  const fromDay = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const first = Math.ceil(periodIndex(rule, startDay, fromDay) / rule.interval) * rule.interval;
+  let count = 0;
+
+  for (let step = 0; step <= RECURRENCE_SEARCH_PERIODS[rule.freq]; step++) {
+    const index = first + step * rule.interval;
+    const end = periodStart(rule, startDay, index + 1);
+
+    for (
+      let day = periodStart(rule, startDay, index);
+      day < end;
+      day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)
+    ) {
+      if (day.getFullYear() > CALENDAR_RANGES.year[1]) {
+        return dates;
+      }
+      if (day < fromDay || !matchesRecurrenceDay(rule, day)) {
+        continue;
+      }
+
+      for (const hour of rule.byHour) {
+        for (const minute of rule.byMinute) {
+          for (const second of rule.bySecond) {
+            const date = new Date(day);
+            date.setHours(hour, minute, second);
+            if (date < start) {
+              continue;
+            }
+            if ((rule.until && date > rule.until) || (rule.count && ++count > rule.count)) {
+              return dates;
+            }
+            if (date > after) {
+              dates.push(date);
+              if (dates.length >= limit) {
+                return dates;
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Expresses a rule as repeating calendar triggers, or returns null if iOS
+ * can't repeat it on its own: intervals, counts, end dates, ordinal or
+ * negative days, and series that haven't started.
+ */
+function recurrenceTriggers(
+  rule: RecurrenceRule,
+  start: Date,
+  now: Date
+): CalendarTrigger[] | null {
+  if (
+    rule.interval !== 1 ||
+    rule.count !== undefined ||
+    rule.until !== undefined ||
+    start > now ||
+    rule.byDay?.some(({ ordinal }) => ordinal !== undefined) ||
+    rule.byMonthDay?.some((value) => value < 0)
+  ) {
+    return null;
+  }
+
+  const months = rule.byMonth ?? [undefined];
+  const days = rule.byMonthDay ?? [undefined];
+  // A trigger for every day of the week is the same as one without a weekday
+  const byWeekday = [...new Set(rule.byDay?.map(({ weekday }) => weekday + 1))];
+  const weekdays = byWeekday.length > 0 && byWeekday.length < 7 ? byWeekday : [undefined];
+  const triggers: CalendarTrigger[] = [];
+
+  for (const month of months) {
+    for (const day of days) {
+      if (month !== undefined && day !== undefined && day > daysInMonth(month, undefined)) {
+        continue;
+      }
+      for (const weekday of weekdays) {
+        for (const hour of rule.byHour) {
+          for (const minute of rule.byMinute) {
+            for (const second of rule.bySecond) {
+              triggers.push({
+                type: 'calendar',
+                ...(month !== undefined && { month }),
+                ...(day !== undefined && { day }),
+                ...(weekday !== undefined && { weekday }),
+                hour,
+                minute,
+                ...(second !== 0 && { second }),
+                repeats: true,
+              });
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return triggers;
+}
+
+/**
+ * The identifier of a one-off occurrence, from its local date and time.
+ */
+function occurrenceId(seriesId: string, date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${seriesId}#${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+function isInSeries(notificationId: string, seriesId: string): boolean {
+  return notificationId.startsWith(`${seriesId}#`);
+}
+
+function loadStoredSeries(): Record<string, StoredSeries> {
+  try {
+    const stored = typeof localStorage !== 'undefined'
+      ? localStorage.getItem(RECURRING_STORAGE_KEY)
+      : null;
+    return stored ? (JSON.parse(stored) as Record<string, StoredSeries>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveStoredSeries(series: Record<string, StoredSeries>): void {
+  if (typeof localStorage === 'undefined') {
+    return;
+  }
+  if (Object.keys(series).length === 0) {
+    localStorage.removeItem(RECURRING_STORAGE_KEY);
+  } else {
+    localStorage.setItem(RECURRING_STORAGE_KEY, JSON.stringify(series));
+  }
+}
+
+/**
+ * Brings a series' pending notifications in line with its rule: repeating
+ * triggers when they fit in the pending limit, otherwise the next occurrences
+ * up to the window. A rolling series has ended once no occurrences are left.
+ */
+async function syncSeries(
+  series: StoredSeries,
+  pendingIds: string[],
+  callOptions: BridgeCallOptions | undefined
+): Promise<{ notificationIds: string[]; rolling: boolean; ended: boolean }> {
+  const { rrule, start: startString, window, ...options } = series;
+  const now = new Date();
+  const start = new Date(startString);
+  const rule = parseRecurrenceRule(rrule, start);
+
+  const seriesIds = pendingIds.filter((id) => isInSeries(id, series.id));
+  const available = MAX_PENDING_NOTIFICATIONS - (pendingIds.length - seriesIds.length);
+
+  let planned = new Map<string, CalendarTrigger>();
+  const triggers = recurrenceTriggers(rule, start, now);
+  const rolling = !triggers || triggers.length === 0 || triggers.length > available;
+  const limit = Math.min(window ?? DEFAULT_RECURRENCE_WINDOW, available);
+  if (rolling) {
+    for (const date of limit > 0 ? recurrenceDates(rule, start, now, limit) : []) {
+      planned.set(occurrenceId(series.id, date), {
+        type: 'calendar',
+        year: date.getFullYear(),
+        month: date.getMonth() + 1,
+        day: date.getDate(),
+        hour: date.getHours(),
+        minute: date.getMinutes(),
+        second: date.getSeconds(),
+      });
+    }
+  } else {
+    planned = new Map(triggers.map((trigger, index) => [`${series.id}#${index}`, trigger]));
+  }
+
+  await Promise.all(
+    seriesIds
+      .filter((id) => !planned.has(id))
+      .map((id) => notifications.cancel(id, callOptions))
+  );
+  await Promise.all(
+    [...planned]
+      .filter(([id]) => !seriesIds.includes(id))
+      .map(([id, trigger]) => notifications.schedule({ ...options, id, trigger }, callOptions))
+  );
+
+  return {
+    notificationIds: [...planned.keys()],
+    rolling,
+    ended: rolling && limit > 0 && planned.size === 0,
+  };
+}
+
 // =============================================================================
 // Notifications Module
 // =============================================================================
@@ -189,6 +1093,27 @@ function serializeTrigger(trigger: NotificationTrigger): Record<string, unknown>
  * // Get all pending notifications
  * const pending = await notifications.getPending();
  * console.log(pending);
+ *
+ * // Snooze and Done buttons on reminders
+ * await notifications.setCategories([
+ *   {
+ *     id: 'reminder',
+ *     actions: [
+ *       { id: 'snooze', title: 'Snooze' },
+ *       { id: 'done', title: 'Done', destructive: true },
+ *     ],
+ *   },
+ * ]);
+ * bridge.on('notificationAction', ({ actionId, notificationId }) => {
+ *   if (actionId === 'snooze') {
+ *     notifications.schedule({
+ *       id: `${notificationId}-snoozed`,
+ *       title: 'Reminder',
+ *       categoryId: 'reminder',
+ *       trigger: { type: 'timeInterval', seconds: 600 },
+ *     });
+ *   }
+ * });
  * ```
  */
 export const notifications = {
@@ -196,7 +1121,9 @@ export const notifications = {
    * Schedules a local notification.
    *
    * @param options - The notification options including trigger.
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns The scheduled notification ID.
+   * @throws NotificationValidationError if the trigger is invalid or never fires.
    * @throws Error if scheduling fails.
    *
    * @example
@@ -217,7 +1144,12 @@ export const notifications = {
    * });
    * ```
    */
-  async schedule(options: NotificationOptions): Promise<string> {
+  async schedule(
+    options: NotificationOptions,
+    callOptions?: BridgeCallOptions
+  ): Promise<string> {
+    assertValidTrigger(options.trigger, new Date());
+
     const payload = {
       id: options.id,
       title: options.title,
@@ -227,13 +1159,13 @@ export const notifications = {
       sound: options.sound,
       data: options.data,
       trigger: serializeTrigger(options.trigger),
+      categoryId: options.categoryId,
+      threadId: options.threadId,
+      interruptionLevel: options.interruptionLevel,
+      attachments: serializeAttachments(options.attachments),
     };
 
-    const result = await bridge.call<ScheduleResult>(
-      'notifications',
-      'schedule',
-      payload
-    );
+    const result = await bridge.call('notifications', 'schedule', payload, callOptions);
 
     if (!result.success) {
       throw new Error('Failed to schedule notification');
@@ -246,31 +1178,35 @@ export const notifications = {
    * Cancels a scheduled notification by ID.
    *
    * @param id - The notification identifier to cancel.
+   * @param callOptions - Optional call options (timeout, abort signal)
    *
    * @example
    * ```typescript
    * await notifications.cancel('reminder-123');
    * ```
    */
-  async cancel(id: string): Promise<void> {
-    await bridge.call<SuccessResult>('notifications', 'cancel', { id });
+  async cancel(id: string, callOptions?: BridgeCallOptions): Promise<void> {
+    await bridge.call('notifications', 'cancel', { id }, callOptions);
   },
 
   /**
    * Cancels all scheduled notifications.
    *
+   * @param callOptions - Optional call options (timeout, abort signal)
+   *
    * @example
    * ```typescript
    * await notifications.cancelAll();
    * ```
    */
-  async cancelAll(): Promise<void> {
-    await bridge.call<SuccessResult>('notifications', 'cancelAll');
+  async cancelAll(callOptions?: BridgeCallOptions): Promise<void> {
+    await bridge.call('notifications', 'cancelAll', undefined, callOptions);
   },
 
   /**
    * Gets all pending scheduled notifications.
    *
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Array of pending notification information.
    *
    * @example
@@ -284,11 +1220,303 @@ export const notifications = {
    * }
    * ```
    */
-  async getPending(): Promise<PendingNotification[]> {
-    const result = await bridge.call<PendingResult>(
-      'notifications',
-      'getPending'
-    );
+  async getPending(callOptions?: BridgeCallOptions): Promise<PendingNotification[]> {
+    const result = await bridge.call('notifications', 'getPending', undefined, callOptions);
     return result.notifications;
   },
+
+  /**
+   * Changes a pending notification, keeping its identifier.
+   *
+   * Fields left out of the patch keep their value, including the trigger.
+   * Once a repeating notification has been delivered, the change applies to
+   * later deliveries only.
+   *
+   * @param id - The identifier of the pending notification.
+   * @param patch - The fields to change.
+   * @param callOptions - Optional call options (timeout, abort signal)
+   * @throws NotificationValidationError if the patched trigger is invalid or never fires.
+   * @throws BridgeError with code `E_INVALID_PAYLOAD` if no pending notification
+   *   has the identifier.
+   *
+   * @example
+   * ```typescript
+   * // Move a reminder that hasn't fired yet to ten minutes from now
+   * await notifications.updatePending('water', {
+   *   trigger: { type: 'timeInterval', seconds: 600 },
+   * });
+   * ```
+   */
+  async updatePending(
+    id: string,
+    patch: NotificationPatch,
+    callOptions?: BridgeCallOptions
+  ): Promise<void> {
+    if (patch.trigger) {
+      assertValidTrigger(patch.trigger, new Date());
+    }
+
+    const payload = {
+      id,
+      patch: {
+        ...patch,
+        trigger: patch.trigger && serializeTrigger(patch.trigger),
+        attachments: serializeAttachments(patch.attachments),
+      },
+    };
+
+    const result = await bridge.call('notifications', 'updatePending', payload, callOptions);
+
+    if (!result.success) {
+      throw new Error('Failed to update notification');
+    }
+  },
+
+  /**
+   * Registers notification categories, replacing any registered before.
+   *
+   * Categories are not kept between launches, so register them each time
+   * the app starts. Choosing an action dispatches a `notificationAction`
+   * event; the default tap still dispatches a `push` event.
+   *
+   * @param categories - The categories to register.
+   * @param callOptions - Optional call options (timeout, abort signal)
+   *
+   * @example
+   * ```typescript
+   * await notifications.setCategories([
+   *   {
+   *     id: 'message',
+   *     actions: [
+   *       { id: 'reply', title: 'Reply', textInput: { placeholder: 'Message' } },
+   *       { id: 'mute', title: 'Mute', destructive: true },
+   *     ],
+   *   },
+   * ]);
+   *
+   * bridge.on('notificationAction', ({ actionId, userText }) => {
+   *   if (actionId === 'reply') sendReply(userText);
+   * });
+   * ```
+   */
+  async setCategories(
+    categories: NotificationCategory[],
+    callOptions?: BridgeCallOptions
+  ): Promise<void> {
+    await bridge.call('notifications', 'setCategories', { categories }, callOptions);
+  },
+
+  /**
+   * Gets the notifications shown in Notification Center, most recent first.
+   *
+   * @param callOptions - Optional call options (timeout, abort signal)
+   * @returns Array of delivered notification information.
+   */
+  async getDelivered(callOptions?: BridgeCallOptions): Promise<DeliveredNotification[]> {
+    const result = await bridge.call('notifications', 'getDelivered', undefined, callOptions);
+    return result.notifications;
+  },
+
+  /**
+   * Removes notifications from Notification Center.
+   *
+   * @param ids - The identifiers of the delivered notifications to remove.
+   * @param callOptions - Optional call options (timeout, abort signal)
+   *
+   * @example
+   * ```typescript
+   * // Clear a conversation's notifications once it has been read
+   * const delivered = await notifications.getDelivered();
+   * await notifications.removeDelivered(
+   *   delivered.filter((n) => n.threadId === conversationId).map((n) => n.id)
+   * );
+   * ```
+   */
+  async removeDelivered(ids: string[], callOptions?: BridgeCallOptions): Promise<void> {
+    await bridge.call('notifications', 'removeDelivered', { ids }, callOptions);
+  },
+
+  /**
+   * Schedules a series of notifications from an RFC 5545 recurrence rule,
+   * replacing any earlier series with the same identifier.
+   *
+   * Rules iOS can repeat on its own become the fewest repeating calendar
+   * triggers, such as one per weekday. Others (intervals, COUNT, UNTIL,
+   * ordinal days like 1MO, or a later start) are scheduled as the next few
+   * occurrences, which `refreshRecurring()` tops up. Either way the series
+   * stays within iOS's limit of 64 pending notifications.
+   *
+   * Notifications in the series have identifiers starting with `<id>#`.
+   *
+   * @param options - The notification options and recurrence rule.
+   * @param callOptions - Optional call options (timeout, abort signal)
+   * @returns The notifications scheduled for the series.
+   * @throws NotificationValidationError if the rule is invalid, unsupported
+   *   or never fires.
+   * @throws Error if 64 notifications are already pending.
+   *
+   * @example
+   * ```typescript
+   * // Weekdays at 8:30, as five repeating triggers
+   * await notifications.scheduleRecurring({
+   *   id: 'standup',
+   *   title: 'Standup',
+   *   rrule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=8;BYMINUTE=30',
+   * });
+   *
+   * // Every other Friday, as a rolling window of one-off notifications
+   * await notifications.scheduleRecurring({
+   *   id: 'payday',
+   *   title: 'Payday',
+   *   rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;BYHOUR=9;BYMINUTE=0',
+   *   start: '2024-06-07T00:00:00',
+   * });
+   * ```
+   */
+  async scheduleRecurring(
+    options: RecurringNotificationOptions,
+    callOptions?: BridgeCallOptions
+  ): Promise<RecurringSchedule> {
+    const now = new Date();
+    const start = options.start === undefined ? now : new Date(options.start);
+    if (Number.isNaN(start.getTime())) {
+      throw new NotificationValidationError('Invalid start date', 'start', options.start);
+    }
+    if (options.window !== undefined && (!Number.isInteger(options.window) || options.window < 1)) {
+      throw new NotificationValidationError(
+        'Window must be a positive integer',
+        'window',
+        options.window
+      );
+    }
+    const rule = parseRecurrenceRule(options.rrule, start);
+    if (recurrenceDates(rule, start, now, 1).length === 0) {
+      throw new NotificationValidationError('Recurrence rule never fires', 'rrule', options.rrule);
+    }
+
+    const pending = await notifications.getPending(callOptions);
+    const previousIds = pending.map(({ id }) => id).filter((id) => isInSeries(id, options.id));
+    const otherIds = pending.map(({ id }) => id).filter((id) => !isInSeries(id, options.id));
+    if (otherIds.length >= MAX_PENDING_NOTIFICATIONS) {
+      throw new Error(`Cannot schedule more than ${MAX_PENDING_NOTIFICATIONS} notifications`);
+    }
+    await Promise.all(previousIds.map((id) => notifications.cancel(id, callOptions)));
+
+    const series: StoredSeries = { ...options, start: start.toISOString() };
+    const { notificationIds, rolling } = await syncSeries(series, otherIds, callOptions);
+
+    const stored = loadStoredSeries();
+    if (rolling) {
+      stored[options.id] = series;
+    } else {
+      delete stored[options.id];
+    }
+    saveStoredSeries(stored);
+
+    return { id: options.id, notificationIds, rolling };
+  },
+
+  /**
+   * Tops up rolling recurring series with their next occurrences, and
+   * switches a series to repeating triggers once its start has passed.
+   *
+   * Call this when the app starts and when it returns to the foreground.
+   * A rolling series only fires as often as its window allows while the app
+   * isn't opened.
+   *
+   * @param callOptions - Optional call options (timeout, abort signal)
+   *
+   * @example
+   * ```typescript
+   * await notifications.refreshRecurring();
+   * document.addEventListener('visibilitychange', () => {
+   *   if (document.visibilityState === 'visible') notifications.refreshRecurring();
+   * });
+   * ```
+   */
+  async refreshRecurring(callOptions?: BridgeCallOptions): Promise<void> {
+    const stored = loadStoredSeries();
+    if (Object.keys(stored).length === 0) {
+      return;
+    }
+
+    let pendingIds = (await notifications.getPending(callOptions)).map(({ id }) => id);
+    for (const series of Object.values(stored)) {
+      const { notificationIds, rolling, ended } = await syncSeries(series, pendingIds, callOptions);
+      pendingIds = [...pendingIds.filter((id) => !isInSeries(id, series.id)), ...notificationIds];
+      if (!rolling || ended) {
+        delete stored[series.id];
+      }
+    }
+    saveStoredSeries(stored);
+  },
+
+  /**
+   * Cancels every pending notification in a recurring series.
+   *
+   * @param id - The series identifier given to `scheduleRecurring()`.
+   * @param callOptions - Optional call options (timeout, abort signal)
+   *
+   * @example
+   * ```typescript
+   * await notifications.cancelRecurring('standup');
+   * ```
+   */
+  async cancelRecurring(id: string, callOptions?: BridgeCallOptions): Promise<void> {
+    const stored = loadStoredSeries();
+    delete stored[id];
+    saveStoredSeries(stored);
+
+    const pending = await notifications.getPending(callOptions);
+    await Promise.all(
+      pending
+        .filter((notification) => isInSeries(notification.id, id))
+        .map((notification) => notifications.cancel(notification.id, callOptions))
+    );
+  },
+
+  /**
+   * Checks a trigger without scheduling anything, applying the same rules as
+   * iOS. Also rejects triggers that would never fire, such as a date in the
+   * past or a calendar trigger for the 31st of April.
+   *
+   * @param trigger - The trigger to check.
+   * @param now - The time to check against (default: now).
+   * @throws NotificationValidationError naming the invalid `field`.
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   notifications.validateTrigger({ type: 'calendar', hour: 25 });
+   * } catch (error) {
+   *   if (error instanceof NotificationValidationError) {
+   *     console.log(error.field, error.message); // 'trigger.hour', 'Hour must be between 0 and 23'
+   *   }
+   * }
+   * ```
+   */
+  validateTrigger(trigger: NotificationTrigger, now: Date = new Date()): void {
+    assertValidTrigger(trigger, now);
+  },
+
+  /**
+   * Computes when a trigger next fires, without a device.
+   *
+   * Calendar triggers are matched in the local time zone, like iOS does, so
+   * the result agrees with `PendingNotification.nextTriggerDate` once
+   * scheduled.
+   *
+   * @param trigger - The trigger.
+   * @param from - The time to compute from (default: now).
+   * @returns The next fire date, or null if the trigger never fires.
+   *
+   * @example
+   * ```typescript
+   * const next = notifications.nextTriggerDate({ type: 'calendar', weekday: 2, hour: 9 });
+   * console.log(`Fires next Monday at ${next?.toLocaleString()}`);
+   * ```
+   */
+  nextTriggerDate(trigger: NotificationTrigger, from: Date = new Date()): Date | null {
+    return computeNextTriggerDate(trigger, from);
+  },
 };
@@ -1,12 +1,17 @@
 /**
  * Secure Storage Module API
  *
- * Provides secure key-value storage using iOS Keychain.
+ * Provides secure key-value storage using iOS Keychain, optionally scoped
+ * to a namespace or shared through a Keychain access group. Values can
+ * require Face ID or Touch ID, checked by the Keychain itself, to be read.
  *
  * @module ios/secureStorage
  */
 
 import { bridge } from '../bridge';
+import type { BridgeCallOptions } from '../types';
+import { BiometricAuthenticationError } from './biometrics';
+import type { BiometricErrorCode } from './biometrics';
 
 /**
  * Result from storage get operation.
@@ -17,68 +22,346 @@ export interface GetResult {
 }
 
 /**
- * Secure Storage module for Keychain-based storage.
- *
- * Values are stored securely in the iOS Keychain and persist
- * across app reinstalls (unless explicitly deleted).
- *
- * @example
- * ```typescript
- * import { ios } from '@pwa-kit/sdk';
+ * When a Keychain value can be read.
  *
- * // Store a value
- * await ios.secureStorage.set('auth_token', 'secret123');
- *
- * // Retrieve a value
- * const token = await ios.secureStorage.get('auth_token');
- * console.log('Token:', token);
- *
- * // Delete a value
- * await ios.secureStorage.delete('auth_token');
+ * The `ThisDeviceOnly` variants are excluded from backups, so they never
+ * migrate to another device.
  *
- * // Check if a key exists
- * const exists = await ios.secureStorage.has('auth_token');
- * ```
+ * - `whenUnlocked`: While the device is unlocked (the Keychain default)
+ * - `whenUnlockedThisDeviceOnly`: While unlocked, on this device only
+ * - `afterFirstUnlock`: After the first unlock since restart, including in the background
+ * - `afterFirstUnlockThisDeviceOnly`: After the first unlock, on this device only
+ * - `whenPasscodeSetThisDeviceOnly`: While unlocked and a passcode is set, on this device only
+ */
+export type KeychainAccessibility =
+  | 'whenUnlocked'
+  | 'whenUnlockedThisDeviceOnly'
+  | 'afterFirstUnlock'
+  | 'afterFirstUnlockThisDeviceOnly'
+  | 'whenPasscodeSetThisDeviceOnly';
+
+/**
+ * Options scoping secure storage.
+ */
+export interface SecureStorageOptions {
+  /**
+   * Keeps values apart from other namespaces, such as those of other
+   * micro-frontends. `keys()` and `clear()` only see their own namespace.
+   */
+  namespace?: string;
+  /** Keychain access group for sharing values with other apps from the same team */
+  accessGroup?: string;
+  /** When values stored through this scope can be read (default: `whenUnlocked`) */
+  accessibility?: KeychainAccessibility;
+}
+
+/**
+ * Options for storing a value.
+ */
+export interface SecureStorageSetOptions {
+  /**
+   * Whether reading the value requires Face ID or Touch ID.
+   *
+   * The Keychain only releases the value after the system prompt succeeds,
+   * so it can't be read by skipping a separate `biometrics.authenticate()`
+   * call. The value stays on this device, and enrolling or removing a face
+   * or fingerprint invalidates it (`errorCode: 'biometryChanged'`).
+   */
+  requireBiometrics?: boolean;
+  /** Default reason shown in the prompt when the value is read */
+  reason?: string;
+}
+
+/**
+ * Options for retrieving a value.
+ */
+export interface SecureStorageGetOptions {
+  /** Reason shown in the prompt if the value requires biometrics */
+  reason?: string;
+}
+
+/**
+ * Keychain storage, optionally scoped with {@link SecureStorageOptions}.
  */
-export const secureStorage = {
+export interface SecureStorage {
   /**
    * Stores a value in the Keychain.
    *
    * @param key - Storage key
    * @param value - Value to store
+   * @param options - Optional biometric protection
+   * @param callOptions - Optional call options (timeout, abort signal)
+   * @throws {BiometricAuthenticationError} If `requireBiometrics` is set but
+   *   biometrics are unavailable or not enrolled
    */
-  async set(key: string, value: string): Promise<void> {
-    await bridge.call('secureStorage', 'set', { key, value });
-  },
+  set(
+    key: string,
+    value: string,
+    options?: SecureStorageSetOptions,
+    callOptions?: BridgeCallOptions
+  ): Promise<void>;
 
   /**
    * Retrieves a value from the Keychain.
    *
+   * Values stored with `requireBiometrics` show the Face ID or Touch ID
+   * prompt first.
+   *
    * @param key - Storage key
+   * @param options - Optional prompt reason
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns The stored value, or null if not found
+   * @throws {BiometricAuthenticationError} If authentication for a value
+   *   requiring biometrics failed (`code: 'E_CANCELLED'` when dismissed)
    */
-  async get(key: string): Promise<string | null> {
-    const result = await bridge.call<GetResult>('secureStorage', 'get', { key });
-    return result.value;
-  },
+  get(
+    key: string,
+    options?: SecureStorageGetOptions,
+    callOptions?: BridgeCallOptions
+  ): Promise<string | null>;
 
   /**
    * Deletes a value from the Keychain.
    *
    * @param key - Storage key to delete
+   * @param callOptions - Optional call options (timeout, abort signal)
    */
-  async delete(key: string): Promise<void> {
-    await bridge.call('secureStorage', 'delete', { key });
-  },
+  delete(key: string, callOptions?: BridgeCallOptions): Promise<void>;
 
   /**
    * Checks if a key exists in the Keychain.
    *
+   * Never shows a biometric prompt.
+   *
    * @param key - Storage key to check
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Whether the key exists
    */
-  async has(key: string): Promise<boolean> {
-    const value = await this.get(key);
-    return value !== null;
-  },
-};
+  has(key: string, callOptions?: BridgeCallOptions): Promise<boolean>;
+
+  /**
+   * Lists the stored keys.
+   *
+   * @param callOptions - Optional call options (timeout, abort signal)
+   * @returns The keys in this scope's namespace, sorted
+   */
+  keys(callOptions?: BridgeCallOptions): Promise<string[]>;
+
+  /**
+   * Deletes every value in this scope's namespace.
+   *
+   * @param callOptions - Optional call options (timeout, abort signal)
+   */
+  clear(callOptions?: BridgeCallOptions): Promise<void>;
+
+  /**
+   * Retrieves several values in one call.
+   *
+   * Values requiring biometrics show a prompt each, with their default reason.
+   *
+   * @param keys - Storage keys
+   * @param callOptions - Optional call options (timeout, abort signal)
+   * @returns Each key's value, or null if not found
+   */
+  getMany(keys: string[], callOptions?: BridgeCallOptions): Promise<Record<string, string | null>>;
+
+  /**
+   * Stores several values in one call.
+   *
+   * Values are stored in key order; a failure leaves the earlier ones stored.
+   *
+   * @param entries - Values to store, keyed by storage key
+   * @param callOptions - Optional call options (timeout, abort signal)
+   */
+  setMany(entries: Record<string, string>, callOptions?: BridgeCallOptions): Promise<void>;
+
+  /**
+   * Stores a value as JSON.
+   *
+   * @param key - Storage key
+   * @param value - Value to serialize with `JSON.stringify`
+   * @param options - Optional biometric protection
+   * @param callOptions - Optional call options (timeout, abort signal)
+   */
+  setJSON<T>(
+    key: string,
+    value: T,
+    options?: SecureStorageSetOptions,
+    callOptions?: BridgeCallOptions
+  ): Promise<void>;
+
+  /**
+   * Retrieves a value stored as JSON.
+   *
+   * The parsed value is not validated against `T`.
+   *
+   * @typeParam T - The expected value type
+   * @param key - Storage key
+   * @param options - Optional prompt reason
+   * @param callOptions - Optional call options (timeout, abort signal)
+   * @returns The parsed value, or null if not found
+   * @throws {SyntaxError} If the stored value is not valid JSON
+   */
+  getJSON<T>(
+    key: string,
+    options?: SecureStorageGetOptions,
+    callOptions?: BridgeCallOptions
+  ): Promise<T | null>;
+
+  /**
+   * Returns storage scoped to a namespace, access group or accessibility.
+   *
+   * Options override this scope's options.
+   *
+   * @param options - Scope options
+   * @returns The scoped storage
+   */
+  scope(options: SecureStorageOptions): SecureStorage;
+}
+
+/**
+ * Throws the failure reported in a result when biometric authentication
+ * guarding it failed.
+ */
+function throwIfAuthenticationFailed(result: { error?: string; errorCode?: string }): void {
+  if (result.errorCode !== undefined) {
+    throw new BiometricAuthenticationError(
+      result.error ?? 'Biometric authentication failed',
+      result.errorCode as BiometricErrorCode
+    );
+  }
+}
+
+/**
+ * Leaves out unset options, so plain payloads keep their shape.
+ */
+function definedOptions<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+/**
+ * Creates storage whose calls carry the given scope options.
+ */
+function createSecureStorage(options: SecureStorageOptions): SecureStorage {
+  // Unset options are left out, so unscoped payloads stay `{ key }`
+  const scope = definedOptions(options);
+
+  const storage: SecureStorage = {
+    async set(key, value, { requireBiometrics, reason } = {}, callOptions) {
+      const result = await bridge.call(
+        'secureStorage',
+        'set',
+        { key, value, ...definedOptions({ requireBiometrics, reason }), ...scope },
+        callOptions
+      );
+      throwIfAuthenticationFailed(result);
+    },
+
+    async get(key, { reason } = {}, callOptions) {
+      const result = await bridge.call(
+        'secureStorage',
+        'get',
+        { key, ...definedOptions({ reason }), ...scope },
+        callOptions
+      );
+      throwIfAuthenticationFailed(result);
+      return result.value;
+    },
+
+    async delete(key, callOptions) {
+      await bridge.call('secureStorage', 'delete', { key, ...scope }, callOptions);
+    },
+
+    async has(key, callOptions) {
+      const result = await bridge.call('secureStorage', 'has', { key, ...scope }, callOptions);
+      return result.exists;
+    },
+
+    async keys(callOptions) {
+      const result = await bridge.call('secureStorage', 'keys', { ...scope }, callOptions);
+      return result.keys;
+    },
+
+    async clear(callOptions) {
+      await bridge.call('secureStorage', 'clear', { ...scope }, callOptions);
+    },
+
+    async getMany(keys, callOptions) {
+      const result = await bridge.call('secureStorage', 'getMany', { keys, ...scope }, callOptions);
+      return result.values;
+    },
+
+    async setMany(entries, callOptions) {
+      await bridge.call('secureStorage', 'setMany', { entries, ...scope }, callOptions);
+    },
+
+    async setJSON(key, value, options, callOptions) {
+      await storage.set(key, JSON.stringify(value), options, callOptions);
+    },
+
+    async getJSON<T>(
+      key: string,
+      options?: SecureStorageGetOptions,
+      callOptions?: BridgeCallOptions
+    ): Promise<T | null> {
+      const value = await storage.get(key, options, callOptions);
+      return value === null ? null : (JSON.parse(value) as T);
+    },
+
+    scope(overrides) {
+      return createSecureStorage({ ...options, ...overrides });
+    },
+  };
+
+  return storage;
+}
+
+/**
+ * Secure Storage module for Keychain-based storage.
+ *
+ * Values are stored securely in the iOS Keychain and persist
+ * across app reinstalls (unless explicitly deleted).
+ *
+ * @example
+ * ```typescript
+ * import { ios } from '@pwa-kit/sdk';
+ *
+ * // Store a value
+ * await ios.secureStorage.set('auth_token', 'secret123');
+ *
+ * // Retrieve a value
+ * const token = await ios.secureStorage.get('auth_token');
+ * console.log('Token:', token);
+ *
+ * // Delete a value
+ * await ios.secureStorage.delete('auth_token');
+ *
+ * // Check if a key exists
+ * const exists = await ios.secureStorage.has('auth_token');
+ *
+ * // Store typed JSON in a namespace readable in the background
+ * const checkout = ios.secureStorage.scope({
+ *   namespace: 'checkout',
+ *   accessibility: 'afterFirstUnlockThisDeviceOnly',
+ * });
+ * await checkout.setJSON('session', { id: 'abc', expires: 1767225600 });
+ * const session = await checkout.getJSON<{ id: string; expires: number }>('session');
+ * console.log(await checkout.keys()); // ['session']
+ *
+ * // Require Face ID / Touch ID to read a value
+ * await ios.secureStorage.set('refresh_token', token, {
+ *   requireBiometrics: true,
+ *   reason: 'Sign in to your account',
+ * });
+ * try {
+ *   const refreshToken = await ios.secureStorage.get('refresh_token');
+ * } catch (error) {
+ *   if (error instanceof BiometricAuthenticationError && error.errorCode === 'biometryChanged') {
+ *     // The value was deleted; sign in again
+ *   }
+ * }
+ * ```
+ */
+export const secureStorage: SecureStorage = createSecureStorage({});
@@ -1,12 +1,14 @@
 /**
  * StoreKit Module API
  *
- * Provides StoreKit 2 integration for in-app purchases.
+ * Provides StoreKit 2 integration for in-app purchases and subscriptions.
  *
  * @module ios/storeKit
  */
 
 import { bridge } from '../bridge';
+import type { TransactionEventData } from '../events';
+import type { BridgeCallOptions, BridgeErrorCode } from '../types';
 
 /**
  * Product types matching StoreKit Product.ProductType.
@@ -17,6 +19,50 @@ export type ProductType =
   | 'autoRenewable'
   | 'nonRenewable';
 
+/**
+ * The length of a subscription or offer period.
+ */
+export interface SubscriptionPeriod {
+  /** The unit */
+  unit: 'day' | 'week' | 'month' | 'year';
+  /** The number of units */
+  value: number;
+}
+
+/**
+ * An introductory or promotional subscription offer.
+ */
+export interface SubscriptionOffer {
+  /** The offer identifier, for promotional offers */
+  id?: string;
+  /** The offer type */
+  type: 'introductory' | 'promotional';
+  /** Localized price of each period (e.g., '$0.00') */
+  displayPrice: string;
+  /** How the user pays during the offer */
+  paymentMode: 'freeTrial' | 'payAsYouGo' | 'payUpFront';
+  /** The length of each period */
+  period: SubscriptionPeriod;
+  /** The number of periods the offer lasts */
+  periodCount: number;
+}
+
+/**
+ * Subscription details of an auto-renewable subscription product.
+ */
+export interface ProductSubscriptionInfo {
+  /** The identifier of the subscription group */
+  groupId: string;
+  /** The renewal period */
+  period: SubscriptionPeriod;
+  /** The introductory offer, if one is configured */
+  introductoryOffer?: SubscriptionOffer;
+  /** Promotional offers configured in App Store Connect */
+  promotionalOffers: SubscriptionOffer[];
+  /** Whether the user can still redeem the introductory offer */
+  isEligibleForIntroOffer: boolean;
+}
+
 /**
  * Product information.
  */
@@ -35,8 +81,19 @@ export interface ProductInfo {
   currencyCode: string;
   /** Product type */
   type: ProductType;
+  /** Subscription details, for auto-renewable subscriptions */
+  subscription?: ProductSubscriptionInfo;
 }
 
+/**
+ * A StoreKit transaction.
+ *
+ * Dates are seconds since 1970. `jwsRepresentation` is the signed
+ * transaction to send to your server, which can verify it with Apple's
+ * App Store Server Library.
+ */
+export type TransactionInfo = TransactionEventData;
+
 /**
  * Purchase result.
  */
@@ -47,10 +104,102 @@ export interface PurchaseResult {
   transactionId?: string;
   /** Error message if failed */
   error?: string;
+  /** Stable error code if failed (`E_CANCELLED` when the user cancelled) */
+  code?: BridgeErrorCode;
   /** Whether the purchase is pending (e.g., parental approval) */
   pending?: boolean;
   /** Whether the user cancelled the purchase */
   cancelled?: boolean;
+  /**
+   * The purchase transaction if successful. Consumables are unfinished
+   * until passed to `finish()`.
+   */
+  transaction?: TransactionInfo;
+}
+
+/**
+ * A promotional offer signed by your server.
+ *
+ * See Apple's guide to generating a signature for promotional offers.
+ */
+export interface PromotionalOffer {
+  /** The offer identifier from App Store Connect */
+  offerId: string;
+  /** The identifier of the subscription key used to sign */
+  keyId: string;
+  /** The UUID nonce included in the signature */
+  nonce: string;
+  /** The base64-encoded signature */
+  signature: string;
+  /** The signature timestamp, in milliseconds since 1970 */
+  timestamp: number;
+}
+
+/**
+ * Options for `storeKit.purchase()`.
+ */
+export interface PurchaseOptions {
+  /**
+   * A UUID identifying the user's account in your system. It is stored on
+   * the transaction and in App Store Server Notifications.
+   */
+  appAccountToken?: string;
+  /** A signed promotional offer to apply to a subscription */
+  promotionalOffer?: PromotionalOffer;
+}
+
+/**
+ * The renewal state of a subscription.
+ *
+ * - `subscribed`: Active
+ * - `expired`: Expired (see `expirationReason`)
+ * - `inBillingRetryPeriod`: Renewal payment failed; no access while the
+ *   App Store retries
+ * - `inGracePeriod`: Renewal payment failed; access continues until
+ *   `gracePeriodExpirationDate`
+ * - `revoked`: Refunded or removed from Family Sharing
+ */
+export type SubscriptionRenewalState =
+  | 'subscribed'
+  | 'expired'
+  | 'inBillingRetryPeriod'
+  | 'inGracePeriod'
+  | 'revoked';
+
+/**
+ * Why a subscription expired.
+ */
+export type SubscriptionExpirationReason =
+  | 'autoRenewDisabled'
+  | 'billingError'
+  | 'didNotConsentToPriceIncrease'
+  | 'productUnavailable'
+  | 'unknown';
+
+/**
+ * The status of a subscription in a subscription group.
+ */
+export interface SubscriptionStatus {
+  /** The product identifier of the latest transaction */
+  productId: string;
+  /** The renewal state */
+  state: SubscriptionRenewalState;
+  /** Whether the subscription renews at the end of the period */
+  willAutoRenew: boolean;
+  /** The product the subscription renews to, if it renews */
+  autoRenewProductId?: string;
+  /** When the current period ends, in seconds since 1970 */
+  expirationDate?: number;
+  /** When the billing grace period ends, in seconds since 1970 */
+  gracePeriodExpirationDate?: number;
+  /** Whether the App Store is retrying a failed renewal payment */
+  isInBillingRetry: boolean;
+  /** Why the subscription expired */
+  expirationReason?: SubscriptionExpirationReason;
+  /** The latest transaction */
+  transaction: TransactionInfo;
+  /** The signed renewal info (JWS) for validation on a server */
+  renewalInfoJWS?: string;
 }
 
 /**
@@ -66,7 +215,7 @@ export interface EntitlementInfo {
  *
  * @example
  * ```typescript
- * import { ios } from '@pwa-kit/sdk';
+ * import { bridge, ios } from '@pwa-kit/sdk';
  *
  * // Get available products
  * const products = await ios.storeKit.getProducts(['premium', 'coins_100']);
@@ -78,6 +227,8 @@ export interface EntitlementInfo {
  * const result = await ios.storeKit.purchase('premium');
  * if (result.success) {
  *   console.log('Purchase successful:', result.transactionId);
+ * } else if (result.code !== 'E_CANCELLED') {
+ *   showError(result.error);
  * }
  *
  * // Restore purchases
@@ -86,6 +237,18 @@ export interface EntitlementInfo {
  * // Check entitlements
  * const entitlements = await ios.storeKit.getEntitlements();
  * const hasPremium = entitlements.ownedProductIds.includes('premium');
+ *
+ * // Credit consumables, including ones bought outside the purchase flow
+ * bridge.on('transaction', async (transaction) => {
+ *   if (transaction.finished === false) {
+ *     await creditCoins(transaction.jwsRepresentation);
+ *     await ios.storeKit.finish(transaction.transactionId);
+ *   }
+ * });
+ *
+ * // Check a subscription
+ * const [status] = await ios.storeKit.getSubscriptionStatus('pro_monthly');
+ * const active = status?.state === 'subscribed' || status?.state === 'inGracePeriod';
  * ```
  */
 export const storeKit = {
@@ -93,13 +256,18 @@ export const storeKit = {
    * Fetches product information from the App Store.
    *
    * @param productIds - Array of product identifiers to fetch
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Array of product information
    */
-  async getProducts(productIds: string[]): Promise<ProductInfo[]> {
-    const result = await bridge.call<{ products: ProductInfo[] }>(
+  async getProducts(
+    productIds: string[],
+    callOptions?: BridgeCallOptions
+  ): Promise<ProductInfo[]> {
+    const result = await bridge.call(
       'iap',
       'getProducts',
-      { productIds }
+      { productIds },
+      callOptions
     );
     return result.products;
   },
@@ -107,11 +275,42 @@ export const storeKit = {
   /**
    * Initiates a purchase for the given product.
    *
+   * A failed purchase resolves with `success: false` and a `code`;
+   * cancelling the payment sheet sets `code: 'E_CANCELLED'` and
+   * `cancelled: true`.
+   *
+   * A consumable's transaction stays unfinished, and is delivered again on
+   * every launch, until it is passed to `finish()`.
+   *
+   * Aborting the call only rejects it on the JavaScript side: StoreKit's
+   * payment sheet can't be dismissed by the app, so a purchase the user
+   * completes still goes through and shows up in `getEntitlements()` (or,
+   * for consumables, `getUnfinishedTransactions()`).
+   *
    * @param productId - Product identifier to purchase
+   * @param options - Optional app account token and promotional offer
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Purchase result
    */
-  async purchase(productId: string): Promise<PurchaseResult> {
-    return bridge.call<PurchaseResult>('iap', 'purchase', { productId });
+  async purchase(
+    productId: string,
+    options: PurchaseOptions = {},
+    callOptions?: BridgeCallOptions
+  ): Promise<PurchaseResult> {
+    const { appAccountToken, promotionalOffer } = options;
+    const payload = {
+      productId,
+      ...(appAccountToken !== undefined && { appAccountToken }),
+      ...(promotionalOffer !== undefined && { promotionalOffer }),
+    };
+    const result = await bridge.call('iap', 'purchase', payload, callOptions);
+    if (result.success) {
+      return result;
+    }
+
+    // Older shells report cancellation with only the `cancelled` flag
+    const code = result.code ?? (result.cancelled ? 'E_CANCELLED' : 'E_UNKNOWN');
+    return { ...result, code, cancelled: code === 'E_CANCELLED' };
   },
 
   /**
@@ -119,28 +318,94 @@ export const storeKit = {
    *
    * This syncs the user's purchase history with the App Store and
    * updates local entitlements.
+   *
+   * @param callOptions - Optional call options (timeout, abort signal)
    */
-  async restore(): Promise<void> {
-    await bridge.call('iap', 'restore');
+  async restore(callOptions?: BridgeCallOptions): Promise<void> {
+    await bridge.call('iap', 'restore', undefined, callOptions);
   },
 
   /**
    * Gets the current entitlements (owned products).
    *
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Entitlement information with owned product IDs
    */
-  async getEntitlements(): Promise<EntitlementInfo> {
-    return bridge.call<EntitlementInfo>('iap', 'getEntitlements');
+  async getEntitlements(callOptions?: BridgeCallOptions): Promise<EntitlementInfo> {
+    return bridge.call('iap', 'getEntitlements', undefined, callOptions);
   },
 
   /**
    * Checks if a specific product is owned.
    *
    * @param productId - Product identifier to check
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Whether the product is owned
    */
-  async isOwned(productId: string): Promise<boolean> {
-    const entitlements = await this.getEntitlements();
+  async isOwned(productId: string, callOptions?: BridgeCallOptions): Promise<boolean> {
+    const entitlements = await this.getEntitlements(callOptions);
     return entitlements.ownedProductIds.includes(productId);
   },
+
+  /**
+   * Gets the statuses of the subscription group a product belongs to.
+   *
+   * A group has one status per subscription the user holds in it, usually
+   * one. Treat `subscribed` and `inGracePeriod` as active.
+   *
+   * @param productId - Identifier of any subscription in the group
+   * @param callOptions - Optional call options (timeout, abort signal)
+   * @returns The statuses, empty if the user never subscribed or the
+   *   product is not a subscription
+   */
+  async getSubscriptionStatus(
+    productId: string,
+    callOptions?: BridgeCallOptions
+  ): Promise<SubscriptionStatus[]> {
+    const result = await bridge.call(
+      'iap',
+      'getSubscriptionStatus',
+      { productId },
+      callOptions
+    );
+    return result.statuses;
+  },
+
+  /**
+   * Gets the transactions that have not been finished.
+   *
+   * Call on launch to credit consumables bought before the app last quit.
+   *
+   * @param callOptions - Optional call options (timeout, abort signal)
+   * @returns The unfinished transactions
+   */
+  async getUnfinishedTransactions(callOptions?: BridgeCallOptions): Promise<TransactionInfo[]> {
+    const result = await bridge.call('iap', 'getUnfinishedTransactions', undefined, callOptions);
+    return result.transactions;
+  },
+
+  /**
+   * Finishes a transaction once its content has been delivered.
+   *
+   * StoreKit stops delivering the transaction, and a consumable can be
+   * bought again. Finishing an already finished transaction does nothing.
+   *
+   * @param transactionId - The transaction identifier
+   * @param callOptions - Optional call options (timeout, abort signal)
+   */
+  async finish(transactionId: string, callOptions?: BridgeCallOptions): Promise<void> {
+    await bridge.call('iap', 'finish', { transactionId }, callOptions);
+  },
+
+  /**
+   * Shows the App Store sheet for redeeming subscription offer codes.
+   *
+   * Resolves once the sheet is shown. Redeemed codes arrive as
+   * `transaction` events with `offerType: 'code'`.
+   *
+   * @param callOptions - Optional call options (timeout, abort signal)
+   */
+  async presentOfferCodeRedeemSheet(callOptions?: BridgeCallOptions): Promise<void> {
+    await bridge.call('iap', 'presentOfferCodeRedeemSheet', undefined, callOptions);
+  },
 };
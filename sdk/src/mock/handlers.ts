@@ -0,0 +1,679 @@
+/**
+ * Mock Module Handlers
+ *
+ * Default in-memory implementations of every native module action used by
+ * the SDK. Each handler receives the message payload and the mock state and
+ * returns the same response data shape the Swift module would.
+ *
+ * @module mock/handlers
+ */
+
+import { createBridgeError, InvalidPayloadError, ios } from '@pwa-kit/sdk';
+import type {
+  BridgeMessage,
+  NotificationAttachment,
+  NotificationCategory,
+  NotificationInterruptionLevel,
+  NotificationTrigger,
+  WorkoutActivityType,
+} from '@pwa-kit/sdk';
+import type { MockState } from './state';
+
+/**
+ * Context passed to mock handlers.
+ */
+export interface MockHandlerContext {
+  /** The mutable mock device state */
+  state: MockState;
+  /** The message being handled */
+  message: BridgeMessage;
+  /** Emits a native event (e.g., 'push') to the bridge */
+  emit: (type: string, data?: unknown) => void;
+  /** Sends a `progress` response for the message (streaming requests only) */
+  progress: (data?: unknown) => void;
+  /** Sends a `chunk` response for the message (streaming requests only) */
+  chunk: (data?: unknown) => void;
+  /** Aborted when the bridge cancels the request */
+  signal: AbortSignal;
+  /** Resolves file data (base64 or an upload reference), claiming the upload like native */
+  binary: (value: unknown) => Uint8Array | null;
+}
+
+/**
+ * A mock implementation of a single module action.
+ *
+ * Return the response data, or throw to produce an error response.
+ */
+export type MockHandler = (
+  payload: Record<string, unknown>,
+  context: MockHandlerContext
+) => unknown | Promise<unknown>;
+
+/**
+ * Mock handlers indexed by module name, then action name.
+ */
+export type MockHandlerMap = Record<string, Record<string, MockHandler>>;
+
+/**
+ * Returns true when a sample overlaps the queried date range.
+ */
+function inRange(
+  sample: { startDate: string; endDate: string },
+  payload: Record<string, unknown>
+): boolean {
+  const start = Date.parse(String(payload.startDate ?? ''));
+  const end = Date.parse(String(payload.endDate ?? ''));
+  const sampleStart = Date.parse(sample.startDate);
+  const sampleEnd = Date.parse(sample.endDate);
+
+  return (
+    (Number.isNaN(start) || sampleEnd > start) &&
+    (Number.isNaN(end) || sampleStart < end)
+  );
+}
+
+/**
+ * Applies the optional `limit` payload field to a result list.
+ */
+function limited<T>(items: T[], payload: Record<string, unknown>): T[] {
+  return typeof payload.limit === 'number' ? items.slice(0, payload.limit) : items;
+}
+
+/**
+ * Generates a fake 64-character hex APNs token.
+ */
+function generateToken(): string {
+  let token = '';
+  for (let i = 0; i < 64; i++) {
+    token += ((Math.random() * 16) | 0).toString(16);
+  }
+  return token;
+}
+
+/**
+ * Computes the next trigger date like native's `nextTriggerDate()`.
+ */
+function nextTriggerDate(trigger: unknown): string | undefined {
+  return ios.notifications.nextTriggerDate(trigger as NotificationTrigger)?.toISOString();
+}
+
+/** Interruption levels native accepts */
+const INTERRUPTION_LEVELS = ['passive', 'active', 'timeSensitive'];
+
+/**
+ * Throws like native for an unknown interruption level.
+ */
+function validateInterruptionLevel(level: unknown): void {
+  if (level !== undefined && !INTERRUPTION_LEVELS.includes(level as string)) {
+    throw new InvalidPayloadError("Invalid 'interruptionLevel' field");
+  }
+}
+
+/**
+ * Permission module handlers shared by camera and microphone.
+ */
+function mediaPermission(name: 'camera' | 'microphone'): Record<string, MockHandler> {
+  return {
+    checkPermission: (_, { state }) => ({ state: state.permissions[name] }),
+    requestPermission: (_, { state }) => {
+      if (state.permissions[name] === 'notDetermined') {
+        state.permissions[name] = 'granted';
+      }
+      return { state: state.permissions[name] };
+    },
+  };
+}
+
+/** Separates the scope from the key of namespaced mock Keychain entries */
+const KEYCHAIN_SCOPE_SEPARATOR = '\u001f';
+
+/**
+ * The mock Keychain prefix for a secure storage payload's scope.
+ */
+function keychainScope(payload: Record<string, unknown>): string {
+  if (payload.namespace === undefined && payload.accessGroup === undefined) {
+    return '';
+  }
+  return [payload.accessGroup ?? '', payload.namespace ?? '', ''].join(KEYCHAIN_SCOPE_SEPARATOR);
+}
+
+/**
+ * Checks biometrics before reading a mock Keychain entry that requires them,
+ * as the Keychain would.
+ *
+ * @returns The failure to report, or null if the entry can be read
+ */
+function keychainAuthenticationFailure(
+  state: MockState,
+  entry: string
+): { error: string; errorCode: string } | null {
+  const enrollment = state.keychainBiometry.get(entry);
+  if (enrollment === undefined || !state.keychain.has(entry)) {
+    return null;
+  }
+  if (!state.biometrics.available) {
+    return { error: 'Biometry is not available on this device', errorCode: 'biometryNotAvailable' };
+  }
+  if (enrollment !== state.biometrics.enrollment) {
+    state.keychain.delete(entry);
+    state.keychainBiometry.delete(entry);
+    return {
+      error: 'Enrolled biometry changed since the item was saved',
+      errorCode: 'biometryChanged',
+    };
+  }
+  if (!state.biometrics.succeeds) {
+    return { error: 'Authentication failed', errorCode: 'authenticationFailed' };
+  }
+  return null;
+}
+
+/**
+ * Lists the storage keys in a mock Keychain scope.
+ */
+function keychainKeys(state: MockState, scope: string): string[] {
+  return [...state.keychain.keys()]
+    .filter((entry) =>
+      scope === ''
+        ? !entry.includes(KEYCHAIN_SCOPE_SEPARATOR)
+        : entry.startsWith(scope) && !entry.slice(scope.length).includes(KEYCHAIN_SCOPE_SEPARATOR)
+    )
+    .map((entry) => entry.slice(scope.length))
+    .sort();
+}
+
+/** Counter used for mock StoreKit transaction IDs */
+let transactionCounter = 0;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** A month in seconds, the renewal period of mock subscriptions */
+const MONTH_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Builds an unsigned stand-in for the JWS StoreKit signs transactions with.
+ */
+function mockJWS(payload: object): string {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(payload)}.`;
+}
+
+/**
+ * Creates the default mock handlers for every built-in module.
+ *
+ * @returns A fresh handler map
+ */
+export function createDefaultHandlers(): MockHandlerMap {
+  return {
+    platform: {
+      getInfo: (_, { state }) => ({ ...state.platform }),
+    },
+
+    app: {
+      getVersion: (_, { state }) => ({
+        version: state.platform.appVersion,
+        build: state.platform.buildNumber,
+        pwaKitVersion: state.platform.pwaKitVersion,
+      }),
+      requestReview: () => ({ presented: true }),
+      openSettings: () => ({ opened: true }),
+    },
+
+    haptics: {
+      impact: () => ({ triggered: true }),
+      notification: () => ({ triggered: true }),
+      selection: () => ({ triggered: true }),
+    },
+
+    clipboard: {
+      write: (payload, { state }) => {
+        state.clipboard = String(payload.text ?? '');
+        return { copied: true };
+      },
+      read: (_, { state }) => ({ text: state.clipboard }),
+    },
+
+    share: {
+      share: (payload, { binary }) => {
+        const files = (payload.files ?? []) as { data?: unknown }[];
+        // Like native, files whose data cannot be resolved are skipped
+        const resolved = files.filter((file) => binary(file.data) !== null);
+        if (!payload.text && !payload.url && resolved.length === 0) {
+          throw new InvalidPayloadError(
+            'No content to share. Provide at least one of: text, url, or files.'
+          );
+        }
+        return {
+          completed: true,
+          activityType: 'com.apple.UIKit.activity.CopyToPasteboard',
+        };
+      },
+      canShare: () => ({ available: true }),
+    },
+
+    print: {
+      print: (payload, { binary }) => {
+        if (payload.data !== undefined && binary(payload.data) === null) {
+          throw new InvalidPayloadError('Print data is not valid base64 or a completed upload');
+        }
+        return { success: true };
+      },
+    },
+
+    cameraPermission: mediaPermission('camera'),
+    microphonePermission: mediaPermission('microphone'),
+    locationPermission: {
+      checkPermission: (_, { state }) => ({ state: state.permissions.location }),
+      requestPermission: (_, { state }) => {
+        if (state.permissions.location === 'notDetermined') {
+          state.permissions.location = 'authorizedWhenInUse';
+        }
+        return { state: state.permissions.location };
+      },
+    },
+
+    notifications: {
+      subscribe: (_, { state }) => {
+        if (state.notifications.permission === 'denied') {
+          return {
+            success: false,
+            error: 'Notification permission denied',
+            code: 'E_PERMISSION_DENIED',
+          };
+        }
+        state.notifications.permission = 'granted';
+        state.notifications.token ??= generateToken();
+        return {
+          success: true,
+          token: state.notifications.token,
+          ...state.notifications.registration,
+        };
+      },
+      requestPermission: (_, { state }) => {
+        if (state.notifications.permission === 'not_determined') {
+          state.notifications.permission = 'granted';
+        }
+        return {
+          granted: state.notifications.permission === 'granted',
+          state: state.notifications.permission,
+        };
+      },
+      getToken: (_, { state }) =>
+        state.notifications.token === null
+          ? { token: null }
+          : { token: state.notifications.token, ...state.notifications.registration },
+      getPermissionState: (_, { state }) => ({
+        state: state.notifications.permission,
+      }),
+      setBadge: (payload, { state }) => {
+        state.badge = typeof payload.count === 'number' ? payload.count : 0;
+        return { success: true };
+      },
+      schedule: (payload, { state }) => {
+        const id = String(payload.id ?? '');
+        if (!id || !payload.trigger) {
+          throw new InvalidPayloadError("Invalid payload: Missing required 'id' or 'trigger' field");
+        }
+        validateInterruptionLevel(payload.interruptionLevel);
+        const trigger = payload.trigger as Record<string, unknown>;
+        ios.notifications.validateTrigger(payload.trigger as NotificationTrigger);
+        const interruptionLevel = payload.interruptionLevel as NotificationInterruptionLevel;
+        state.notifications.scheduled = state.notifications.scheduled.filter(
+          (notification) => notification.id !== id
+        );
+        state.notifications.scheduled.push({
+          id,
+          title: String(payload.title ?? ''),
+          body: payload.body as string | undefined,
+          subtitle: payload.subtitle as string | undefined,
+          data: payload.data as Record<string, unknown> | undefined,
+          repeats: trigger.repeats === true,
+          nextTriggerDate: nextTriggerDate(trigger),
+          trigger,
+          categoryId: payload.categoryId as string | undefined,
+          threadId: payload.threadId as string | undefined,
+          interruptionLevel,
+          attachments: payload.attachments as NotificationAttachment[] | undefined,
+        });
+        return { success: true, id };
+      },
+      updatePending: (payload, { state }) => {
+        const notification = state.notifications.scheduled.find(({ id }) => id === payload.id);
+        if (!notification) {
+          throw new InvalidPayloadError(`No pending notification with id '${payload.id}'`);
+        }
+        const patch = (payload.patch ?? {}) as Record<string, unknown>;
+        validateInterruptionLevel(patch.interruptionLevel);
+        if (patch.trigger) {
+          ios.notifications.validateTrigger(patch.trigger as NotificationTrigger);
+        }
+        const fields = Object.entries(patch).filter(([, value]) => value !== undefined);
+        Object.assign(notification, Object.fromEntries(fields));
+        if (patch.trigger) {
+          const trigger = patch.trigger as Record<string, unknown>;
+          notification.repeats = trigger.repeats === true;
+          notification.nextTriggerDate = nextTriggerDate(trigger);
+        }
+        return { success: true, id: notification.id };
+      },
+      setCategories: (payload, { state }) => {
+        state.notifications.categories = structuredClone(
+          payload.categories as NotificationCategory[]
+        );
+        return { success: true };
+      },
+      getDelivered: (_, { state }) => ({
+        notifications: [...state.notifications.delivered]
+          .sort((a, b) => b.date.localeCompare(a.date))
+          .map((notification) => structuredClone(notification)),
+      }),
+      removeDelivered: (payload, { state }) => {
+        if (!Array.isArray(payload.ids)) {
+          throw new InvalidPayloadError("Missing 'ids' field");
+        }
+        const ids = payload.ids as string[];
+        state.notifications.delivered = state.notifications.delivered.filter(
+          (notification) => !ids.includes(notification.id)
+        );
+        return { success: true };
+      },
+      cancel: (payload, { state }) => {
+        state.notifications.scheduled = state.notifications.scheduled.filter(
+          (notification) => notification.id !== payload.id
+        );
+        return { success: true };
+      },
+      cancelAll: (_, { state }) => {
+        state.notifications.scheduled = [];
+        return { success: true };
+      },
+      getPending: (_, { state }) => ({
+        notifications: state.notifications.scheduled.map(
+          ({ id, title, body, subtitle, repeats, nextTriggerDate, categoryId, threadId }) => ({
+            id,
+            title,
+            body,
+            subtitle,
+            repeats,
+            nextTriggerDate,
+            categoryId,
+            threadId,
+          })
+        ),
+      }),
+    },
+
+    biometrics: {
+      isAvailable: (_, { state }) => ({
+        available: state.biometrics.available,
+        biometryType: state.biometrics.available
+          ? state.biometrics.biometryType
+          : 'none',
+        ...(state.biometrics.available
+          ? {}
+          : { error: 'Biometry is not available on this device' }),
+      }),
+      getEnrollmentState: (_, { state }) => ({
+        state: state.biometrics.available ? state.biometrics.enrollment : null,
+        biometryType: state.biometrics.available ? state.biometrics.biometryType : 'none',
+      }),
+      authenticate: (payload, { state }) => {
+        // The user enters the passcode instead
+        if (payload.allowPasscode === true) {
+          return { success: true };
+        }
+        if (!state.biometrics.available) {
+          return {
+            success: false,
+            error: 'Biometry is not available on this device',
+            errorCode: 'biometryNotAvailable',
+          };
+        }
+        return state.biometrics.succeeds
+          ? { success: true }
+          : { success: false, error: 'Authentication failed', errorCode: 'authenticationFailed' };
+      },
+    },
+
+    secureStorage: {
+      set: (payload, { state }) => {
+        const entry = keychainScope(payload) + String(payload.key);
+        if (payload.requireBiometrics === true) {
+          if (!state.biometrics.available) {
+            return {
+              success: false,
+              error: 'Biometry is not available on this device',
+              errorCode: 'biometryNotAvailable',
+            };
+          }
+          state.keychainBiometry.set(entry, state.biometrics.enrollment);
+        } else {
+          state.keychainBiometry.delete(entry);
+        }
+        state.keychain.set(entry, String(payload.value));
+        return { success: true };
+      },
+      get: (payload, { state }) => {
+        const entry = keychainScope(payload) + String(payload.key);
+        const failure = keychainAuthenticationFailure(state, entry);
+        return failure ? { value: null, ...failure } : { value: state.keychain.get(entry) ?? null };
+      },
+      delete: (payload, { state }) => {
+        const entry = keychainScope(payload) + String(payload.key);
+        state.keychain.delete(entry);
+        state.keychainBiometry.delete(entry);
+        return { success: true };
+      },
+      has: (payload, { state }) => ({
+        exists: state.keychain.has(keychainScope(payload) + String(payload.key)),
+      }),
+      keys: (payload, { state }) => ({ keys: keychainKeys(state, keychainScope(payload)) }),
+      clear: (payload, { state }) => {
+        const scope = keychainScope(payload);
+        for (const key of keychainKeys(state, scope)) {
+          state.keychain.delete(scope + key);
+          state.keychainBiometry.delete(scope + key);
+        }
+        return { success: true };
+      },
+      getMany: (payload, { state }) => {
+        if (!Array.isArray(payload.keys)) {
+          throw new InvalidPayloadError("Missing 'keys' parameter");
+        }
+        const scope = keychainScope(payload);
+        return {
+          values: Object.fromEntries(
+            payload.keys.map((key) => {
+              const failure = keychainAuthenticationFailure(state, scope + String(key));
+              if (failure) {
+                throw createBridgeError(failure.error);
+              }
+              return [key, state.keychain.get(scope + String(key)) ?? null];
+            })
+          ),
+        };
+      },
+      setMany: (payload, { state }) => {
+        if (typeof payload.entries !== 'object' || payload.entries === null) {
+          throw new InvalidPayloadError("Missing 'entries' parameter");
+        }
+        const scope = keychainScope(payload);
+        for (const [key, value] of Object.entries(payload.entries)) {
+          state.keychain.set(scope + key, String(value));
+          state.keychainBiometry.delete(scope + key);
+        }
+        return { success: true };
+      },
+    },
+
+    healthkit: {
+      isAvailable: (_, { state }) => ({ available: state.health.available }),
+      requestAuthorization: (_, { state }) => {
+        if (!state.health.available) {
+          return { success: false, error: 'HealthKit is not available on this device' };
+        }
+        state.health.authorized = true;
+        return { success: true };
+      },
+      querySteps: (payload, { state }) => ({
+        samples: limited(
+          (state.health.samples.stepCount ?? []).filter((s) => inRange(s, payload)),
+          payload
+        ),
+      }),
+      queryStepCount: (payload, { state }) => ({
+        totalSteps: (state.health.samples.stepCount ?? [])
+          .filter((s) => inRange(s, payload))
+          .reduce((total, s) => total + s.value, 0),
+      }),
+      queryHeartRate: (payload, { state }) => ({
+        samples: limited(
+          (state.health.samples.heartRate ?? []).filter((s) => inRange(s, payload)),
+          payload
+        ),
+      }),
+      queryWorkouts: (payload, { state }) => ({
+        workouts: limited(
+          state.health.workouts.filter(
+            (w) => inRange(w, payload) && (!payload.type || w.type === payload.type)
+          ),
+          payload
+        ),
+      }),
+      querySleep: (payload, { state }) => ({
+        samples: limited(
+          state.health.sleep.filter((s) => inRange(s, payload)),
+          payload
+        ),
+      }),
+      saveWorkout: (payload, { state }) => {
+        const startDate = String(payload.startDate);
+        const endDate = String(payload.endDate);
+        state.health.workouts.push({
+          type: payload.workoutType as WorkoutActivityType,
+          duration: (Date.parse(endDate) - Date.parse(startDate)) / 1000,
+          calories: payload.calories as number | undefined,
+          distance: payload.distance as number | undefined,
+          startDate,
+          endDate,
+        });
+        return { success: true };
+      },
+    },
+
+    iap: {
+      getProducts: (payload, { state }) => {
+        const ids = (payload.productIds as string[] | undefined) ?? [];
+        return {
+          products: structuredClone(state.storeKit.products.filter((p) => ids.includes(p.id))),
+        };
+      },
+      purchase: (payload, { state }) => {
+        const { appAccountToken, promotionalOffer } = payload as {
+          appAccountToken?: string;
+          promotionalOffer?: { offerId?: string };
+        };
+        if (appAccountToken !== undefined && !UUID_PATTERN.test(appAccountToken)) {
+          throw new InvalidPayloadError("'appAccountToken' must be a UUID string");
+        }
+
+        const product = state.storeKit.products.find((p) => p.id === payload.productId);
+        if (!product) {
+          return {
+            success: false,
+            error: `Product not found: ${String(payload.productId)}`,
+            code: 'E_UNKNOWN',
+          };
+        }
+        if (product.type !== 'consumable' && !state.storeKit.ownedProductIds.includes(product.id)) {
+          state.storeKit.ownedProductIds.push(product.id);
+        }
+
+        transactionCounter += 1;
+        const transactionId = `mock-${transactionCounter}`;
+        const purchaseDate = Math.floor(Date.now() / 1000);
+        const subscription = product.subscription;
+        const offer = promotionalOffer
+          ? { offerType: 'promotional' as const, offerId: promotionalOffer.offerId }
+          : subscription?.isEligibleForIntroOffer && subscription.introductoryOffer
+            ? { offerType: 'introductory' as const }
+            : {};
+        const claims = {
+          transactionId,
+          originalTransactionId: transactionId,
+          productId: product.id,
+          purchaseDate,
+          ...(product.type === 'autoRenewable' && { expirationDate: purchaseDate + MONTH_SECONDS }),
+          isUpgraded: false,
+          ...(appAccountToken !== undefined && { appAccountToken }),
+          ...offer,
+        };
+        const transaction = {
+          ...claims,
+          jwsRepresentation: mockJWS(claims),
+          finished: product.type !== 'consumable',
+        };
+        state.storeKit.transactions.push(transaction);
+
+        if (subscription) {
+          subscription.isEligibleForIntroOffer = false;
+          const inGroup = (productId: string) =>
+            state.storeKit.products.find((p) => p.id === productId)?.subscription?.groupId ===
+            subscription.groupId;
+          state.storeKit.subscriptionStatuses = [
+            ...state.storeKit.subscriptionStatuses.filter((s) => !inGroup(s.productId)),
+            {
+              productId: product.id,
+              state: 'subscribed',
+              willAutoRenew: true,
+              autoRenewProductId: product.id,
+              expirationDate: transaction.expirationDate,
+              isInBillingRetry: false,
+              transaction: { ...transaction },
+              renewalInfoJWS: mockJWS({ autoRenewProductId: product.id, willAutoRenew: true }),
+            },
+          ];
+        }
+
+        return {
+          success: true,
+          transactionId,
+          productId: product.id,
+          transaction: { ...transaction },
+        };
+      },
+      restore: () => ({ success: true }),
+      getEntitlements: (_, { state }) => ({
+        ownedProductIds: [...state.storeKit.ownedProductIds],
+      }),
+      getSubscriptionStatus: (payload, { state }) => {
+        const groupOf = (productId: unknown) =>
+          state.storeKit.products.find((p) => p.id === productId)?.subscription?.groupId;
+        const groupId = groupOf(payload.productId);
+        return {
+          statuses: groupId
+            ? structuredClone(
+                state.storeKit.subscriptionStatuses.filter((s) => groupOf(s.productId) === groupId)
+              )
+            : [],
+        };
+      },
+      getUnfinishedTransactions: (_, { state }) => ({
+        transactions: state.storeKit.transactions
+          .filter((t) => t.finished === false)
+          .map((t) => ({ ...t })),
+      }),
+      finish: (payload, { state }) => {
+        const transaction = state.storeKit.transactions.find(
+          (t) => t.transactionId === payload.transactionId
+        );
+        if (transaction) {
+          transaction.finished = true;
+        }
+        return { success: true };
+      },
+      presentOfferCodeRedeemSheet: () => ({ success: true }),
+    },
+  };
+}
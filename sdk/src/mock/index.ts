@@ -0,0 +1,39 @@
+/**
+ * Mock Transport
+ *
+ * In-memory simulation of the PWAKit native shell for development in a
+ * regular browser and for unit tests. Published as the `@pwa-kit/sdk/mock`
+ * subpath so it stays out of production bundles.
+ *
+ * @module mock
+ *
+ * @example
+ * ```typescript
+ * import { bridge } from '@pwa-kit/sdk';
+ * import { MockTransport } from '@pwa-kit/sdk/mock';
+ *
+ * if (!bridge.isAvailable()) {
+ *   bridge.setTransport(new MockTransport());
+ * }
+ * ```
+ */
+
+export { MockTransport } from './transport';
+export type { MockTransportOptions } from './transport';
+
+export { createMockState } from './state';
+export type {
+  MockState,
+  MockStateOverrides,
+  MockScheduledNotification,
+  MockMediaPermissionState,
+  MockLocationPermissionState,
+  MockNotificationPermissionState,
+} from './state';
+
+export { createDefaultHandlers } from './handlers';
+export type {
+  MockHandler,
+  MockHandlerContext,
+  MockHandlerMap,
+} from './handlers';
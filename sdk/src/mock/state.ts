@@ -0,0 +1,327 @@
+/**
+ * Mock Transport State
+ *
+ * The in-memory "device" backing the MockTransport: a fake keychain,
+ * HealthKit store, StoreKit catalog, notification center and so on.
+ * Every field is public and mutable so tests can arrange and assert on it.
+ *
+ * @module mock/state
+ */
+
+import type {
+  BiometryType,
+  DeliveredNotification,
+  EnabledFeatures,
+  HealthSample,
+  NotificationAttachment,
+  NotificationCategory,
+  NotificationInterruptionLevel,
+  PendingNotification,
+  PlatformInfo,
+  ProductInfo,
+  QuantityType,
+  SleepSample,
+  SubscriptionStatus,
+  TransactionInfo,
+  WorkoutData,
+} from '@pwa-kit/sdk';
+
+/**
+ * Native camera/microphone permission states.
+ */
+export type MockMediaPermissionState =
+  | 'notDetermined'
+  | 'granted'
+  | 'denied'
+  | 'restricted';
+
+/**
+ * Native location permission states.
+ */
+export type MockLocationPermissionState =
+  | 'notDetermined'
+  | 'authorizedWhenInUse'
+  | 'authorizedAlways'
+  | 'denied'
+  | 'restricted';
+
+/**
+ * Native notification permission states (NotificationPermissionState raw values).
+ */
+export type MockNotificationPermissionState =
+  | 'not_determined'
+  | 'granted'
+  | 'denied';
+
+/**
+ * A scheduled local notification held by the mock notification center.
+ */
+export interface MockScheduledNotification extends PendingNotification {
+  /** Custom data supplied when scheduling */
+  data?: Record<string, unknown>;
+  /** The serialized trigger supplied when scheduling */
+  trigger: Record<string, unknown>;
+  /** The interruption level supplied when scheduling */
+  interruptionLevel?: NotificationInterruptionLevel;
+  /** The attachments supplied when scheduling */
+  attachments?: NotificationAttachment[];
+}
+
+/**
+ * The complete state of the mock device.
+ */
+export interface MockState {
+  /** Feature flags reported by the handshake; disabled modules fail with E_FEATURE_DISABLED */
+  features: EnabledFeatures;
+  /** Values returned by platform.getInfo and app.getVersion */
+  platform: PlatformInfo;
+  /** Current app icon badge count */
+  badge: number;
+  /** Current clipboard text */
+  clipboard: string | null;
+  /** Camera, microphone and location permission states */
+  permissions: {
+    camera: MockMediaPermissionState;
+    microphone: MockMediaPermissionState;
+    location: MockLocationPermissionState;
+  };
+  /** Biometric hardware and the outcome of authenticate() */
+  biometrics: {
+    available: boolean;
+    biometryType: BiometryType;
+    /** Whether authenticate() succeeds */
+    succeeds: boolean;
+    /**
+     * Opaque token for the enrolled faces or fingerprints, reported by
+     * getEnrollmentState(). Change it to simulate enrolling a new one, which
+     * also invalidates Keychain values requiring biometrics.
+     */
+    enrollment: string;
+  };
+  /**
+   * Keychain contents keyed by storage key.
+   *
+   * Values stored with a namespace or access group are keyed by
+   * `[accessGroup, namespace, key].join('\u001f')`, with unset parts empty.
+   */
+  keychain: Map<string, string>;
+  /**
+   * The biometric enrollment each Keychain value requiring biometrics was
+   * stored with, keyed like `keychain`.
+   */
+  keychainBiometry: Map<string, string>;
+  /** Push and local notification state */
+  notifications: {
+    permission: MockNotificationPermissionState;
+    /** APNs token, assigned on subscribe */
+    token: string | null;
+    /** Details reported with the token */
+    registration: {
+      environment: 'sandbox' | 'production';
+      bundleId: string;
+      deviceId: string;
+      installationId: string;
+    };
+    /** Scheduled (pending) local notifications */
+    scheduled: MockScheduledNotification[];
+    /** Registered notification categories */
+    categories: NotificationCategory[];
+    /** Notifications shown in Notification Center */
+    delivered: DeliveredNotification[];
+  };
+  /** HealthKit store */
+  health: {
+    available: boolean;
+    authorized: boolean;
+    samples: Partial<Record<QuantityType, HealthSample[]>>;
+    workouts: WorkoutData[];
+    sleep: SleepSample[];
+  };
+  /** StoreKit catalog and entitlements */
+  storeKit: {
+    products: ProductInfo[];
+    ownedProductIds: string[];
+    /** Every transaction, in purchase order; consumables start unfinished */
+    transactions: TransactionInfo[];
+    /** Subscription statuses, looked up by the product's subscription group */
+    subscriptionStatuses: SubscriptionStatus[];
+  };
+}
+
+/**
+ * Partial state accepted by createMockState and the MockTransport.
+ *
+ * Top-level sections are shallow-merged with the defaults.
+ */
+export type MockStateOverrides = {
+  [K in keyof MockState]?: MockState[K] extends Map<string, string>
+    ? MockState[K]
+    : Partial<MockState[K]> | MockState[K];
+};
+
+/** Default StoreKit catalog */
+const DEFAULT_PRODUCTS: ProductInfo[] = [
+  {
+    id: 'premium',
+    displayName: 'Premium',
+    description: 'Unlock all premium features',
+    displayPrice: '$4.99',
+    price: 4.99,
+    currencyCode: 'USD',
+    type: 'nonConsumable',
+  },
+  {
+    id: 'coins_100',
+    displayName: '100 Coins',
+    description: 'A pack of 100 coins',
+    displayPrice: '$0.99',
+    price: 0.99,
+    currencyCode: 'USD',
+    type: 'consumable',
+  },
+  {
+    id: 'pro_monthly',
+    displayName: 'Pro Monthly',
+    description: 'Monthly Pro subscription',
+    displayPrice: '$2.99',
+    price: 2.99,
+    currencyCode: 'USD',
+    type: 'autoRenewable',
+    subscription: {
+      groupId: 'pro',
+      period: { unit: 'month', value: 1 },
+      introductoryOffer: {
+        type: 'introductory',
+        displayPrice: '$0.00',
+        paymentMode: 'freeTrial',
+        period: { unit: 'week', value: 1 },
+        periodCount: 1,
+      },
+      promotionalOffers: [
+        {
+          id: 'pro_winback',
+          type: 'promotional',
+          displayPrice: '$1.49',
+          paymentMode: 'payAsYouGo',
+          period: { unit: 'month', value: 1 },
+          periodCount: 3,
+        },
+      ],
+      isEligibleForIntroOffer: true,
+    },
+  },
+];
+
+/**
+ * Builds one sample per day for the previous week.
+ */
+function dailySamples(unit: string, value: (day: number) => number): HealthSample[] {
+  const DAY = 24 * 60 * 60 * 1000;
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+
+  return Array.from({ length: 7 }, (_, i) => {
+    const start = new Date(today.getTime() - (7 - i) * DAY);
+    return {
+      value: value(i),
+      unit,
+      startDate: start.toISOString(),
+      endDate: new Date(start.getTime() + DAY).toISOString(),
+      sourceName: 'PWAKit Mock',
+    };
+  });
+}
+
+/**
+ * Creates a fresh mock device state, optionally merged with overrides.
+ *
+ * @param overrides - Sections to replace or partially override
+ * @returns A new MockState
+ *
+ * @example
+ * ```typescript
+ * const state = createMockState({
+ *   biometrics: { biometryType: 'touchId' },
+ *   storeKit: { ownedProductIds: ['premium'] },
+ *   features: { healthkit: false },
+ * });
+ * ```
+ */
+export function createMockState(overrides: MockStateOverrides = {}): MockState {
+  return {
+    features: {
+      notifications: true,
+      haptics: true,
+      biometrics: true,
+      secureStorage: true,
+      healthkit: true,
+      iap: true,
+      share: true,
+      print: true,
+      clipboard: true,
+      cameraPermission: true,
+      microphonePermission: true,
+      locationPermission: true,
+      ...overrides.features,
+    },
+    platform: {
+      platform: 'ios',
+      version: '18.0',
+      isNative: true,
+      appVersion: '1.0.0',
+      buildNumber: '1',
+      deviceModel: 'iPhone17,1',
+      pwaKitVersion: '0.1.0',
+      ...overrides.platform,
+    },
+    badge: overrides.badge ?? 0,
+    clipboard: overrides.clipboard ?? null,
+    permissions: {
+      camera: 'notDetermined',
+      microphone: 'notDetermined',
+      location: 'notDetermined',
+      ...overrides.permissions,
+    },
+    biometrics: {
+      available: true,
+      biometryType: 'faceId',
+      succeeds: true,
+      enrollment: 'enrollment-1',
+      ...overrides.biometrics,
+    },
+    keychain: new Map(overrides.keychain ?? []),
+    keychainBiometry: new Map(overrides.keychainBiometry ?? []),
+    notifications: {
+      permission: 'not_determined',
+      token: null,
+      registration: {
+        environment: 'sandbox',
+        bundleId: 'com.example.app',
+        deviceId: '2B6F0CC9-04D4-4E0B-9A35-1F8A0B3C2D10',
+        installationId: '6F1C2B9E-8A3D-4C5B-9E7F-0A1B2C3D4E5F',
+      },
+      scheduled: [],
+      categories: [],
+      delivered: [],
+      ...overrides.notifications,
+    },
+    health: {
+      available: true,
+      authorized: false,
+      samples: {
+        stepCount: dailySamples('count', (i) => 6000 + i * 750),
+        heartRate: dailySamples('count/min', (i) => 62 + (i % 3) * 4),
+      },
+      workouts: [],
+      sleep: [],
+      ...overrides.health,
+    },
+    storeKit: {
+      products: DEFAULT_PRODUCTS.map((product) => structuredClone(product)),
+      ownedProductIds: [],
+      transactions: [],
+      subscriptionStatuses: [],
+      ...overrides.storeKit,
+    },
+  };
+}
@@ -0,0 +1,490 @@
+/**
+ * PWAKit Mock Transport
+ *
+ * An in-memory BridgeTransport that implements every built-in native module
+ * against a fake device state. Use it to run the SDK's native code paths in
+ * a regular browser during development, or in unit tests.
+ *
+ * @module mock/transport
+ */
+
+import type {
+  BinaryChunk,
+  BridgeErrorCode,
+  BridgeEvent,
+  BridgeHandshake,
+  BridgeHandshakeRequest,
+  BridgeMessage,
+  BridgeReceiver,
+  BridgeResponse,
+  BridgeTransport,
+  FeatureName,
+} from '@pwa-kit/sdk';
+import { BridgeError, PROTOCOL_VERSION, createBridgeError } from '@pwa-kit/sdk';
+import { decodeBase64 } from '../binary';
+import {
+  createDefaultHandlers,
+  type MockHandler,
+  type MockHandlerMap,
+} from './handlers';
+import { createMockState, type MockState, type MockStateOverrides } from './state';
+
+/**
+ * Options for creating a MockTransport.
+ */
+export interface MockTransportOptions {
+  /** Initial device state, merged with the defaults */
+  state?: MockStateOverrides;
+  /** Simulated round-trip latency in milliseconds (default: 0) */
+  latency?: number;
+}
+
+/**
+ * In-memory transport that simulates the native PWAKit shell.
+ *
+ * Every request is recorded in `calls`, answered by a handler operating on
+ * `state`, and delivered back to the bridge asynchronously. Handlers can be
+ * replaced per action to script responses, and native events can be emitted
+ * on demand.
+ *
+ * @example
+ * ```typescript
+ * import { bridge, MockTransport, ios, push } from '@pwa-kit/sdk';
+ *
+ * const mock = new MockTransport({
+ *   state: { biometrics: { biometryType: 'touchId' } },
+ * });
+ * bridge.setTransport(mock);
+ *
+ * // Modules now talk to the mock
+ * await ios.secureStorage.set('token', 'abc');
+ * mock.state.keychain.get('token'); // 'abc'
+ *
+ * // Script a response
+ * mock.respond('iap', 'purchase', { success: false, cancelled: true });
+ *
+ * // Script a failure
+ * mock.fail('biometrics', 'authenticate', 'Biometry is locked out');
+ *
+ * // Emit a native event
+ * mock.emit('push', { title: 'Hello' });
+ *
+ * // Stream progress before the final response
+ * mock.handle('downloads', 'start', async (payload, { progress }) => {
+ *   progress({ received: 50, total: 100 });
+ *   return { path: '/tmp/file' };
+ * });
+ * ```
+ */
+export class MockTransport implements BridgeTransport {
+  /** The mutable mock device state */
+  public readonly state: MockState;
+
+  /** Every message received, in order (including those in batches) */
+  public readonly calls: BridgeMessage[] = [];
+
+  /** Every batch received, in order */
+  public readonly batches: BridgeMessage[][] = [];
+
+  /** Number of posts from the bridge (a batch counts once), excluding cancellations */
+  public postCount = 0;
+
+  /** IDs of every request cancelled by the bridge, in order */
+  public readonly cancelled: string[] = [];
+
+  /** Every handshake received, in order */
+  public readonly handshakes: BridgeHandshakeRequest[] = [];
+
+  /** Bridge protocol version reported in the handshake */
+  public protocolVersion: number = PROTOCOL_VERSION;
+
+  /** Every binary upload chunk received, in order */
+  public readonly binaryChunks: BinaryChunk[] = [];
+
+  /** Completed uploads not yet claimed by a handler, indexed by upload ID */
+  public readonly uploads: Map<string, Uint8Array> = new Map();
+
+  /** Whether the handshake reports binary upload support (false simulates older shells) */
+  public supportsBinaryTransfer = true;
+
+  /** Custom scheme reported in the handshake; when set, uploads arrive through `uploadBinary` */
+  public binaryScheme: string | null = null;
+
+  /** Simulated round-trip latency in milliseconds */
+  public latency: number;
+
+  /** Active handlers indexed by module and action */
+  private handlers: MockHandlerMap;
+
+  /** Receiver installed by the bridge */
+  private receiver: BridgeReceiver | null = null;
+
+  /** Abort controllers for requests still being handled */
+  private inFlight: Map<string, AbortController> = new Map();
+
+  /** Uploads still receiving chunks, indexed by upload ID */
+  private partialUploads: Map<string, Uint8Array[]> = new Map();
+
+  /**
+   * Creates a new MockTransport.
+   *
+   * @param options - Optional initial state and latency
+   */
+  constructor(options: MockTransportOptions = {}) {
+    this.state = createMockState(options.state);
+    this.latency = options.latency ?? 0;
+    this.handlers = createDefaultHandlers();
+  }
+
+  /**
+   * The mock transport is always available.
+   *
+   * @returns true
+   */
+  public isAvailable(): boolean {
+    return true;
+  }
+
+  /**
+   * Stores the receiver used to deliver responses and events.
+   *
+   * @param receiver - Receiver installed by the bridge
+   */
+  public connect(receiver: BridgeReceiver): void {
+    this.receiver = receiver;
+  }
+
+  /**
+   * Records the message and answers it asynchronously.
+   *
+   * @param message - The message sent by the bridge
+   */
+  public send(message: BridgeMessage): void {
+    this.calls.push(message);
+    this.postCount += 1;
+    void this.deliver([message]);
+  }
+
+  /**
+   * Records the batch and answers every message together, like native.
+   *
+   * @param messages - The messages sent by the bridge
+   */
+  public sendBatch(messages: BridgeMessage[]): void {
+    this.calls.push(...messages);
+    this.batches.push(messages);
+    this.postCount += 1;
+    void this.deliver(messages);
+  }
+
+  /**
+   * Records the cancellation and aborts the handler's signal.
+   *
+   * No final response is delivered for a cancelled request.
+   *
+   * @param id - The request ID to cancel
+   */
+  public cancel(id: string): void {
+    this.cancelled.push(id);
+    this.inFlight.get(id)?.abort();
+    this.inFlight.delete(id);
+    this.partialUploads.delete(id);
+    this.uploads.delete(id);
+  }
+
+  /**
+   * Records the chunk and reassembles the upload, like native's
+   * BinaryTransferStore. An out-of-order chunk discards the upload.
+   *
+   * @param chunk - The chunk sent by the bridge
+   */
+  public sendBinaryChunk(chunk: BinaryChunk): void {
+    this.binaryChunks.push(chunk);
+
+    const parts = chunk.index === 0 ? [] : this.partialUploads.get(chunk.id);
+    if (!parts || parts.length !== chunk.index) {
+      this.partialUploads.delete(chunk.id);
+      return;
+    }
+
+    parts.push(decodeBase64(chunk.data));
+    if (!chunk.final) {
+      this.partialUploads.set(chunk.id, parts);
+      return;
+    }
+
+    this.partialUploads.delete(chunk.id);
+    const data = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      data.set(part, offset);
+      offset += part.length;
+    }
+    this.uploads.set(chunk.id, data);
+  }
+
+  /**
+   * Stores an upload posted to the custom scheme.
+   *
+   * Rejects when `binaryScheme` is not set, like a shell without the
+   * scheme handler.
+   *
+   * @param url - The upload URL
+   * @param data - The uploaded bytes
+   */
+  public async uploadBinary(url: string, data: Uint8Array): Promise<void> {
+    const prefix = `${this.binaryScheme}://upload/`;
+    if (!this.binaryScheme || !url.startsWith(prefix)) {
+      throw new Error(`Unsupported upload URL: ${url}`);
+    }
+    this.uploads.set(url.slice(prefix.length), data);
+  }
+
+  /**
+   * Records the handshake and answers it with the feature flags in
+   * `state.features`, the versions in `state.platform` and the actions of
+   * every handler.
+   *
+   * @param request - The handshake sent by the bridge
+   */
+  public handshake(request: BridgeHandshakeRequest): void {
+    this.handshakes.push(request);
+    void this.answerHandshake(request.id);
+  }
+
+  /**
+   * Replaces the handler for a module action.
+   *
+   * The handler may also be used to add modules that don't exist in the
+   * SDK, such as custom native modules.
+   *
+   * @param module - Module name (e.g., 'healthkit')
+   * @param action - Action name (e.g., 'querySteps')
+   * @param handler - Handler returning response data, or throwing to fail
+   * @returns This transport, for chaining
+   */
+  public handle(module: string, action: string, handler: MockHandler): this {
+    this.handlers[module] = { ...this.handlers[module], [action]: handler };
+    return this;
+  }
+
+  /**
+   * Makes a module action respond with fixed data.
+   *
+   * @param module - Module name
+   * @param action - Action name
+   * @param data - Response data returned to the caller
+   * @returns This transport, for chaining
+   */
+  public respond(module: string, action: string, data: unknown): this {
+    return this.handle(module, action, () => data);
+  }
+
+  /**
+   * Makes a module action fail with an error response.
+   *
+   * @param module - Module name
+   * @param action - Action name
+   * @param error - Error message returned to the caller
+   * @param code - Error code returned to the caller (default: 'E_UNKNOWN')
+   * @returns This transport, for chaining
+   */
+  public fail(module: string, action: string, error: string, code?: BridgeErrorCode): this {
+    return this.handle(module, action, () => {
+      throw createBridgeError(error, code);
+    });
+  }
+
+  /**
+   * Restores the default handlers, discarding any scripted responses.
+   */
+  public reset(): void {
+    this.handlers = createDefaultHandlers();
+    this.calls.length = 0;
+    this.batches.length = 0;
+    this.cancelled.length = 0;
+    this.handshakes.length = 0;
+    this.binaryChunks.length = 0;
+    this.uploads.clear();
+    this.partialUploads.clear();
+    this.postCount = 0;
+  }
+
+  /**
+   * Emits a native event to the bridge.
+   *
+   * The bridge dispatches it exactly as it would an event from Swift,
+   * so `bridge.on(type, ...)` listeners fire.
+   *
+   * @param type - Event type (e.g., 'push')
+   * @param data - Event payload
+   */
+  public emit(type: string, data?: unknown): void {
+    const event: BridgeEvent = { type, data };
+    this.receiver?.handleEvent(event);
+  }
+
+  /**
+   * Returns the recorded calls to a module (and optionally an action).
+   *
+   * @param module - Module name
+   * @param action - Optional action name
+   * @returns Matching recorded messages
+   */
+  public callsTo(module: string, action?: string): BridgeMessage[] {
+    return this.calls.filter(
+      (call) => call.module === module && (action === undefined || call.action === action)
+    );
+  }
+
+  /**
+   * Delivers the handshake response after the simulated latency.
+   *
+   * @param id - The request ID for the handshake response
+   */
+  private async answerHandshake(id: string): Promise<void> {
+    await Promise.resolve();
+    if (this.latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latency));
+    }
+
+    // Like native, modules disabled by a feature flag are not registered
+    const modules = Object.fromEntries(
+      Object.entries(this.handlers)
+        .filter(([module]) => this.state.features[module as FeatureName] !== false)
+        .map(([module, actions]) => [module, Object.keys(actions)])
+    );
+    const handshake: BridgeHandshake = {
+      protocolVersion: this.protocolVersion,
+      shellVersion: this.state.platform.pwaKitVersion,
+      appVersion: this.state.platform.appVersion,
+      features: { ...this.state.features },
+      modules,
+    };
+    if (this.supportsBinaryTransfer) {
+      handshake.binaryTransfer = { scheme: this.binaryScheme };
+    }
+
+    this.receiver?.handleResponse({ id, success: true, data: handshake });
+  }
+
+  /**
+   * Resolves file data in a payload, claiming the upload it references.
+   *
+   * @param value - Base64 string or upload reference
+   * @returns The bytes, or null if the value is neither or the upload is unknown
+   */
+  private resolveBinary(value: unknown): Uint8Array | null {
+    if (typeof value === 'string') {
+      try {
+        return decodeBase64(value);
+      } catch {
+        return null;
+      }
+    }
+
+    const id = (value as { $binary?: unknown } | null)?.$binary;
+    if (typeof id !== 'string') {
+      return null;
+    }
+    const data = this.uploads.get(id) ?? null;
+    this.uploads.delete(id);
+    return data;
+  }
+
+  /**
+   * Answers messages posted together and delivers their responses at once.
+   *
+   * @param messages - The messages to answer
+   */
+  private async deliver(messages: BridgeMessage[]): Promise<void> {
+    const responses = await Promise.all(messages.map((message) => this.dispatch(message)));
+
+    if (this.latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latency));
+    }
+
+    for (const response of responses) {
+      if (response) {
+        this.receiver?.handleResponse(response);
+      }
+    }
+  }
+
+  /**
+   * Runs the handler for a message.
+   *
+   * Unknown modules and actions, and modules disabled in `state.features`,
+   * produce the same error messages and codes as the native
+   * BridgeDispatcher. Handlers can throw a BridgeError to choose the
+   * response code.
+   *
+   * @param message - The message to answer
+   * @returns The response, or null if the request was cancelled
+   */
+  private async dispatch(message: BridgeMessage): Promise<BridgeResponse | null> {
+    const actions = this.handlers[message.module];
+    const handler = actions?.[message.action];
+    let response: BridgeResponse;
+
+    if (this.state.features[message.module as FeatureName] === false) {
+      response = {
+        id: message.id,
+        success: false,
+        error: `Feature disabled: ${message.module}`,
+        code: 'E_FEATURE_DISABLED',
+      };
+    } else if (!actions) {
+      response = {
+        id: message.id,
+        success: false,
+        error: `Unknown module: ${message.module}`,
+        code: 'E_UNKNOWN_MODULE',
+      };
+    } else if (!handler) {
+      response = {
+        id: message.id,
+        success: false,
+        error: `Unknown action: ${message.action}`,
+        code: 'E_UNKNOWN_ACTION',
+      };
+    } else {
+      const controller = new AbortController();
+      this.inFlight.set(message.id, controller);
+
+      const partial = (kind: 'progress' | 'chunk') => (data?: unknown) => {
+        if (message.stream && !controller.signal.aborted) {
+          this.receiver?.handleResponse({ id: message.id, success: true, kind, data });
+        }
+      };
+
+      try {
+        const payload = (message.payload ?? {}) as Record<string, unknown>;
+        const data = await handler(payload, {
+          state: this.state,
+          message,
+          emit: (type, eventData) => this.emit(type, eventData),
+          progress: partial('progress'),
+          chunk: partial('chunk'),
+          signal: controller.signal,
+          binary: (value) => this.resolveBinary(value),
+        });
+        response = { id: message.id, success: true, data };
+      } catch (error) {
+        response = {
+          id: message.id,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          code: error instanceof BridgeError ? error.code : 'E_UNKNOWN',
+        };
+      }
+
+      this.inFlight.delete(message.id);
+      if (controller.signal.aborted) {
+        return null;
+      }
+    }
+
+    return response;
+  }
+}
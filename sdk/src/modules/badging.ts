@@ -10,11 +10,15 @@
  */
 
 import { bridge } from '../bridge';
+import type { BridgeCallOptions } from '../types';
+import { backendFor } from '../capabilities';
 
 /**
  * Badging module for app icon badge management.
  * Aligned with the Web Badging API (navigator.setAppBadge/clearAppBadge).
  *
+ * Outside the native app, calls fall back to the browser's Badging API.
+ *
  * @example
  * ```typescript
  * import { badging } from '@pwa-kit/sdk';
@@ -37,17 +41,30 @@ export const badging = {
    *
    * @param count - Badge count. If omitted or 0, shows a plain indicator.
    *                On iOS, 0 clears the badge.
+   * @param callOptions - Optional call options (timeout, abort signal)
    */
-  async setAppBadge(count?: number): Promise<void> {
-    await bridge.call('notifications', 'setBadge', { count: count ?? 0 });
+  async setAppBadge(count?: number, callOptions?: BridgeCallOptions): Promise<void> {
+    if (backendFor('badging') === 'web') {
+      await navigator.setAppBadge(count);
+      return;
+    }
+
+    await bridge.call('notifications', 'setBadge', { count: count ?? 0 }, callOptions);
   },
 
   /**
    * Clears the app icon badge.
    *
    * Aligned with navigator.clearAppBadge().
+   *
+   * @param callOptions - Optional call options (timeout, abort signal)
    */
-  async clearAppBadge(): Promise<void> {
-    await bridge.call('notifications', 'setBadge', { count: 0 });
+  async clearAppBadge(callOptions?: BridgeCallOptions): Promise<void> {
+    if (backendFor('badging') === 'web') {
+      await navigator.clearAppBadge();
+      return;
+    }
+
+    await bridge.call('notifications', 'setBadge', { count: 0 }, callOptions);
   },
 };
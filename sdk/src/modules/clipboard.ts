@@ -10,6 +10,8 @@
  */
 
 import { bridge } from '../bridge';
+import type { BridgeCallOptions } from '../types';
+import { backendFor } from '../capabilities';
 
 /**
  * Result from clipboard read operation.
@@ -25,6 +27,8 @@ export interface ClipboardReadResult {
  *
  * Note: On iOS 16+, reading the clipboard may show a paste permission prompt.
  *
+ * Outside the native app, calls fall back to navigator.clipboard.
+ *
  * @example
  * ```typescript
  * import { clipboard } from '@pwa-kit/sdk';
@@ -44,9 +48,15 @@ export const clipboard = {
    * Aligned with navigator.clipboard.writeText().
    *
    * @param text - Text to copy to clipboard
+   * @param callOptions - Optional call options (timeout, abort signal)
    */
-  async writeText(text: string): Promise<void> {
-    await bridge.call('clipboard', 'write', { text });
+  async writeText(text: string, callOptions?: BridgeCallOptions): Promise<void> {
+    if (backendFor('clipboard', 'writeText') === 'web') {
+      await navigator.clipboard.writeText(text);
+      return;
+    }
+
+    await bridge.call('clipboard', 'write', { text }, callOptions);
   },
 
   /**
@@ -56,10 +66,16 @@ export const clipboard = {
    *
    * Note: On iOS 16+, this may trigger a paste permission prompt.
    *
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns The clipboard text, or null if empty
    */
-  async readText(): Promise<string | null> {
-    const result = await bridge.call<ClipboardReadResult>('clipboard', 'read');
+  async readText(callOptions?: BridgeCallOptions): Promise<string | null> {
+    if (backendFor('clipboard', 'readText') === 'web') {
+      const text = await navigator.clipboard.readText();
+      return text === '' ? null : text;
+    }
+
+    const result = await bridge.call('clipboard', 'read', undefined, callOptions);
     return result.text;
   },
 };
@@ -5,6 +5,7 @@
  */
 
 import { bridge } from '../bridge';
+import type { BridgeCallOptions } from '../types';
 
 /**
  * Impact feedback styles matching UIImpactFeedbackGenerator.FeedbackStyle.
@@ -40,9 +41,13 @@ export const haptics = {
    * Use for button taps, toggles, and physical interactions.
    *
    * @param style - The impact style (default: 'medium')
+   * @param callOptions - Optional call options (timeout, abort signal)
    */
-  async impact(style: ImpactStyle = 'medium'): Promise<void> {
-    await bridge.call('haptics', 'impact', { style });
+  async impact(
+    style: ImpactStyle = 'medium',
+    callOptions?: BridgeCallOptions
+  ): Promise<void> {
+    await bridge.call('haptics', 'impact', { style }, callOptions);
   },
 
   /**
@@ -51,17 +56,23 @@ export const haptics = {
    * Use for success/warning/error outcomes.
    *
    * @param type - The notification type (default: 'success')
+   * @param callOptions - Optional call options (timeout, abort signal)
    */
-  async notification(type: NotificationType = 'success'): Promise<void> {
-    await bridge.call('haptics', 'notification', { type });
+  async notification(
+    type: NotificationType = 'success',
+    callOptions?: BridgeCallOptions
+  ): Promise<void> {
+    await bridge.call('haptics', 'notification', { type }, callOptions);
   },
 
   /**
    * Triggers selection haptic feedback.
    *
    * Use for selection changes in pickers, sliders, etc.
+   *
+   * @param callOptions - Optional call options (timeout, abort signal)
    */
-  async selection(): Promise<void> {
-    await bridge.call('haptics', 'selection');
+  async selection(callOptions?: BridgeCallOptions): Promise<void> {
+    await bridge.call('haptics', 'selection', undefined, callOptions);
   },
 };
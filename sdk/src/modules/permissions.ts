@@ -10,6 +10,8 @@
  */
 
 import { bridge } from '../bridge';
+import type { BridgeCallOptions } from '../types';
+import { backendFor } from '../capabilities';
 
 /**
  * Permission names supported by the native bridge.
@@ -105,6 +107,50 @@ function getModuleName(name: PermissionName): string {
   }
 }
 
+/**
+ * Queries a permission via navigator.permissions.
+ *
+ * Browsers that can't query a permission (Firefox rejects camera and
+ * microphone with a TypeError) report it as 'prompt', the state in which
+ * using the capability asks the user.
+ */
+async function webQuery(name: PermissionName): Promise<PermissionStatus> {
+  try {
+    const status = await navigator.permissions.query({ name });
+    return { name, state: status.state };
+  } catch {
+    return { name, state: 'prompt' };
+  }
+}
+
+/**
+ * Triggers the browser's permission prompt by briefly using the capability.
+ *
+ * The Web Permissions API has no request method, so the prompt is shown by
+ * calling getUserMedia or getCurrentPosition. Failures are ignored since
+ * the resulting state is read back with a query.
+ */
+async function webPrompt(name: PermissionName): Promise<void> {
+  try {
+    if (name === 'geolocation') {
+      await new Promise<void>((resolve) => {
+        navigator.geolocation.getCurrentPosition(
+          () => resolve(),
+          () => resolve()
+        );
+      });
+      return;
+    }
+
+    const stream = await navigator.mediaDevices.getUserMedia(
+      name === 'camera' ? { video: true } : { audio: true }
+    );
+    stream.getTracks().forEach((track) => track.stop());
+  } catch {
+    // Denied or unsupported - the state query below reports the outcome
+  }
+}
+
 /**
  * Permissions module for querying and requesting device permissions.
  * Aligned with the Web Permissions API (navigator.permissions).
@@ -113,6 +159,8 @@ function getModuleName(name: PermissionName): string {
  * This module provides native permission management for pre-prompting and
  * checking status before using web APIs.
  *
+ * Outside the native app, calls fall back to navigator.permissions.
+ *
  * @example
  * ```typescript
  * import { permissions } from '@pwa-kit/sdk';
@@ -138,15 +186,25 @@ export const permissions = {
    * Aligned with navigator.permissions.query().
    *
    * @param descriptor - Permission descriptor with name
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Permission status with current state
    */
-  async query(descriptor: PermissionDescriptor): Promise<PermissionStatus> {
+  async query(
+    descriptor: PermissionDescriptor,
+    callOptions?: BridgeCallOptions
+  ): Promise<PermissionStatus> {
+    if (backendFor('permissions') === 'web') {
+      return webQuery(descriptor.name);
+    }
+
     const moduleName = getModuleName(descriptor.name);
 
     if (descriptor.name === 'geolocation') {
       const result = await bridge.call<NativeLocationResult>(
         moduleName,
-        'checkPermission'
+        'checkPermission',
+        undefined,
+        callOptions
       );
       return {
         name: descriptor.name,
@@ -156,7 +214,9 @@ export const permissions = {
 
     const result = await bridge.call<NativePermissionResult>(
       moduleName,
-      'checkPermission'
+      'checkPermission',
+      undefined,
+      callOptions
     );
     return {
       name: descriptor.name,
@@ -175,15 +235,30 @@ export const permissions = {
    * before calling web APIs.
    *
    * @param descriptor - Permission descriptor with name
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Permission status after request
    */
-  async request(descriptor: PermissionDescriptor): Promise<PermissionStatus> {
+  async request(
+    descriptor: PermissionDescriptor,
+    callOptions?: BridgeCallOptions
+  ): Promise<PermissionStatus> {
+    if (backendFor('permissions') === 'web') {
+      const current = await webQuery(descriptor.name);
+      if (current.state !== 'prompt') {
+        return current;
+      }
+      await webPrompt(descriptor.name);
+      return webQuery(descriptor.name);
+    }
+
     const moduleName = getModuleName(descriptor.name);
 
     if (descriptor.name === 'geolocation') {
       const result = await bridge.call<NativeLocationResult>(
         moduleName,
-        'requestPermission'
+        'requestPermission',
+        undefined,
+        callOptions
       );
       return {
         name: descriptor.name,
@@ -193,7 +268,9 @@ export const permissions = {
 
     const result = await bridge.call<NativePermissionResult>(
       moduleName,
-      'requestPermission'
+      'requestPermission',
+      undefined,
+      callOptions
     );
     return {
       name: descriptor.name,
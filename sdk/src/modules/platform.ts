@@ -5,6 +5,7 @@
  */
 
 import { bridge } from '../bridge';
+import type { BridgeCallOptions } from '../types';
 
 /**
  * Platform information returned by getInfo().
@@ -42,9 +43,10 @@ export const platform = {
   /**
    * Gets platform and device information.
    *
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Platform information including OS version, app version, and device model
    */
-  async getInfo(): Promise<PlatformInfo> {
-    return bridge.call<PlatformInfo>('platform', 'getInfo');
+  async getInfo(callOptions?: BridgeCallOptions): Promise<PlatformInfo> {
+    return bridge.call('platform', 'getInfo', undefined, callOptions);
   },
 };
@@ -5,6 +5,15 @@
  */
 
 import { bridge } from '../bridge';
+import type { BinaryData, BridgeCallOptions } from '../types';
+
+/**
+ * Options for printing a file.
+ */
+export interface PrintFileOptions {
+  /** Job name shown in the print queue */
+  jobName?: string;
+}
 
 /**
  * Result from print operation.
@@ -28,6 +37,10 @@ export interface PrintResult {
  * if (result.success) {
  *   console.log('Print job submitted');
  * }
+ *
+ * // Print a PDF
+ * const pdf = await fetch('/invoice.pdf').then((response) => response.blob());
+ * await print.printFile(pdf, { jobName: 'Invoice' });
  * ```
  */
 export const print = {
@@ -37,9 +50,30 @@ export const print = {
    * Opens the native print dialog, allowing the user to select
    * a printer and configure print options.
    *
+   * @param callOptions - Optional call options (timeout, abort signal)
+   * @returns Print result
+   */
+  async print(callOptions?: BridgeCallOptions): Promise<PrintResult> {
+    return bridge.call('print', 'print', undefined, callOptions);
+  },
+
+  /**
+   * Prints a PDF or image using AirPrint.
+   *
+   * The file is sent with `bridge.upload()` before the print request,
+   * rather than base64 encoded into it.
+   *
+   * @param data - The PDF or image to print (Blob, File or ArrayBuffer)
+   * @param options - Optional print options
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Print result
    */
-  async print(): Promise<PrintResult> {
-    return bridge.call<PrintResult>('print', 'print');
+  async printFile(
+    data: BinaryData,
+    options: PrintFileOptions = {},
+    callOptions?: BridgeCallOptions
+  ): Promise<PrintResult> {
+    const upload = await bridge.upload(data, callOptions);
+    return bridge.call('print', 'print', { ...options, data: upload }, callOptions);
   },
 };
@@ -10,16 +10,96 @@
  */
 
 import { bridge } from '../bridge';
+import type { BridgeCallOptions } from '../types';
+import { createBridgeError, PermissionDeniedError } from '../types';
+import { backendFor } from '../capabilities';
+import type { PushEventData, PushSubscriptionChangeEventData } from '../events';
+
+/**
+ * APNs environment a device token belongs to.
+ */
+export type APNsEnvironment = 'sandbox' | 'production';
 
 /**
  * Push subscription containing the device token.
  * Aligned with Web Push API's PushSubscription.
  */
 export interface PushSubscription {
-  /** The APNs device token (hex string) */
+  /** The APNs device token (hex string), or the push endpoint on the web backend */
   token: string;
   /** Endpoint URL (for compatibility, maps to token) */
   endpoint: string;
+  /** Web Push encryption keys (web backend only) */
+  keys?: {
+    p256dh: string;
+    auth: string;
+  };
+  /** The APNs environment to send to (native only) */
+  environment?: APNsEnvironment;
+  /** The app's bundle identifier, used as the APNs topic (native only) */
+  bundleId?: string;
+  /** The identifier for vendor, shared by the vendor's apps on the device (native only) */
+  deviceId?: string;
+  /**
+   * An identifier for this installation of the app, kept until it is deleted
+   * (or, on the web backend, until site data is cleared).
+   */
+  installationId?: string;
+}
+
+/**
+ * Options for `push.registerWith()`.
+ */
+export interface PushRegistrationOptions extends PushSubscribeOptions {
+  /** Headers to send with each request, such as an Authorization header */
+  headers?: Record<string, string>;
+  /** Maximum number of retries after the first attempt (default: 3) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled after each retry (default: 1000) */
+  baseDelay?: number;
+  /** Time limit for each attempt in milliseconds, after which it is retried (default: 10000) */
+  timeout?: number;
+  /** Called when re-posting a rotated token fails after all retries */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * A subscription registered with a server by `push.registerWith()`.
+ */
+export interface PushRegistration {
+  /** The subscription that was posted */
+  subscription: PushSubscription;
+  /**
+   * Stops re-posting the subscription when the token rotates, cancelling a
+   * re-post that is in flight or waiting to retry
+   */
+  stop: () => void;
+}
+
+/**
+ * Error thrown when a push subscription can't be posted to a server.
+ */
+export class PushRegistrationError extends Error {
+  /** The HTTP status of the last response, if the server responded */
+  public readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'PushRegistrationError';
+    this.status = status;
+  }
+}
+
+/**
+ * Options for subscribing to push notifications.
+ */
+export interface PushSubscribeOptions {
+  /**
+   * VAPID public key (base64url string or raw bytes).
+   *
+   * Required by the web backend; ignored by the native APNs backend.
+   */
+  applicationServerKey?: string | BufferSource;
 }
 
 /**
@@ -44,12 +124,72 @@ export interface PushNotificationData {
 }
 
 /**
- * Internal result from native subscribe call.
+ * An action button of a notification, as in the Notifications API.
+ */
+export interface PushNotificationAction {
+  /** The action identifier */
+  action: string;
+  /** The button title */
+  title: string;
+  /** Icon URL */
+  icon?: string;
+}
+
+/**
+ * Options for `showNotification()`, as sent in a Web Push message.
+ */
+export interface PushNotificationOptions {
+  body?: string;
+  icon?: string;
+  image?: string;
+  /** Monochrome image URL (not a count) */
+  badge?: string;
+  tag?: string;
+  data?: unknown;
+  actions?: PushNotificationAction[];
+  silent?: boolean;
+  requireInteraction?: boolean;
+  renotify?: boolean;
+  timestamp?: number;
+  lang?: string;
+  dir?: 'auto' | 'ltr' | 'rtl';
+  /** Declarative Web Push: the URL to open on click */
+  navigate?: string;
+}
+
+/**
+ * The body of a push message, read like a service worker's `PushMessageData`.
  */
-interface SubscribeResult {
-  success: boolean;
-  token?: string;
-  error?: string;
+export interface PushMessageData {
+  /** Parses the message as JSON (a new copy on each call) */
+  json<T = unknown>(): T;
+  /** The message as text */
+  text(): string;
+  /** The message as UTF-8 bytes */
+  arrayBuffer(): ArrayBuffer;
+  /** The message as UTF-8 bytes */
+  bytes(): Uint8Array;
+  /** The message as a JSON blob */
+  blob(): Blob;
+}
+
+/**
+ * A push notification in the shape of a service worker `push` event, so one
+ * handler serves both Web Push and APNs.
+ */
+export interface PushMessage {
+  /** Whether the notification was received in the foreground or tapped */
+  type: PushEventData['type'];
+  /**
+   * The message. For APNs payloads made by `pwa-kit push convert`, this is
+   * the original Web Push message; otherwise the custom data (excluding `aps`).
+   */
+  data: PushMessageData;
+  /** The title and options a service worker would pass to `showNotification()` */
+  notification: {
+    title: string;
+    options: PushNotificationOptions;
+  };
 }
 
 /**
@@ -81,10 +221,263 @@ function mapPermissionState(state: string): PushPermissionState {
   }
 }
 
+/**
+ * Encodes an ArrayBuffer as a base64url string.
+ */
+function toBase64Url(buffer: ArrayBuffer | null): string {
+  if (!buffer) {
+    return '';
+  }
+  let binary = '';
+  for (const byte of new Uint8Array(buffer)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes a base64url VAPID key into bytes.
+ */
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/** localStorage key of the web backend's installation identifier */
+const INSTALLATION_ID_KEY = 'pwa-kit:push:installationId';
+
+/**
+ * Gets the web backend's installation identifier, creating one on first use.
+ */
+function webInstallationId(): string | undefined {
+  try {
+    let installationId = localStorage.getItem(INSTALLATION_ID_KEY);
+    if (!installationId) {
+      installationId = crypto.randomUUID();
+      localStorage.setItem(INSTALLATION_ID_KEY, installationId);
+    }
+    return installationId;
+  } catch {
+    return undefined;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Wraps a message's JSON text in the PushMessageData interface.
+ */
+function createMessageData(text: string): PushMessageData {
+  const bytes = () => new TextEncoder().encode(text);
+  return {
+    json: <T>() => JSON.parse(text) as T,
+    text: () => text,
+    arrayBuffer: () => bytes().buffer as ArrayBuffer,
+    bytes,
+    blob: () => new Blob([text], { type: 'application/json' }),
+  };
+}
+
+/**
+ * Maps a native `push` event to the service worker `push` event shape.
+ *
+ * APNs payloads made by `pwa-kit push convert` carry the Web Push message
+ * under `webpush`, either a notification or a declarative Web Push message
+ * wrapping one in `notification`.
+ */
+function toPushMessage(event: PushEventData): PushMessage {
+  const userInfo = event.userInfo ?? {};
+  const webPush = userInfo.webpush;
+
+  if (isRecord(webPush)) {
+    const notification = isRecord(webPush.notification) ? webPush.notification : webPush;
+    const { title, ...options } = notification;
+    return {
+      type: event.type,
+      data: createMessageData(JSON.stringify(webPush)),
+      notification: {
+        title: typeof title === 'string' ? title : (event.title ?? ''),
+        options: options as PushNotificationOptions,
+      },
+    };
+  }
+
+  const options: PushNotificationOptions = { data: userInfo };
+  if (event.body !== undefined) {
+    options.body = event.body;
+  }
+  return {
+    type: event.type,
+    data: createMessageData(JSON.stringify(userInfo)),
+    notification: { title: event.title ?? '', options },
+  };
+}
+
+/**
+ * Maps a Web Push subscription to the SDK's PushSubscription shape.
+ */
+function fromWebSubscription(subscription: globalThis.PushSubscription): PushSubscription {
+  return {
+    token: subscription.endpoint,
+    endpoint: subscription.endpoint,
+    keys: {
+      p256dh: toBase64Url(subscription.getKey('p256dh')),
+      auth: toBase64Url(subscription.getKey('auth')),
+    },
+    installationId: webInstallationId(),
+  };
+}
+
+/**
+ * Native registration details sent alongside an APNs token.
+ */
+interface NativeRegistration {
+  environment?: APNsEnvironment;
+  bundleId?: string;
+  deviceId?: string;
+  installationId?: string;
+}
+
+/**
+ * Maps an APNs token and its registration details to a PushSubscription,
+ * leaving out details an older shell doesn't send.
+ */
+function fromNativeToken(token: string, registration: NativeRegistration): PushSubscription {
+  const subscription: PushSubscription = { token, endpoint: `apns://${token}` };
+  for (const key of ['environment', 'bundleId', 'deviceId', 'installationId'] as const) {
+    if (registration[key] !== undefined) {
+      Object.assign(subscription, { [key]: registration[key] });
+    }
+  }
+  return subscription;
+}
+
+/**
+ * Waits before a retry, rejecting as soon as `signal` aborts.
+ */
+function backoff(delay: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new PushRegistrationError('Push registration was stopped'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * POSTs a subscription as JSON, retrying network errors, timeouts, 429 and
+ * 5xx responses with exponential backoff. Aborting `signal` cancels the
+ * request in flight and any pending retry.
+ *
+ * @throws PushRegistrationError once retries run out, for other responses,
+ *   or when `signal` aborts
+ */
+async function postSubscription(
+  url: string,
+  body: PushSubscription & { oldToken?: string },
+  options: PushRegistrationOptions,
+  signal: AbortSignal
+): Promise<void> {
+  const retries = options.retries ?? 3;
+  const baseDelay = options.baseDelay ?? 1000;
+  const timeout = options.timeout ?? 10_000;
+
+  for (let attempt = 0; ; attempt++) {
+    let error: PushRegistrationError;
+    // Each attempt gets its own controller, aborted by the timeout or by `signal`
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    const timer = setTimeout(abort, timeout);
+    signal.addEventListener('abort', abort, { once: true });
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      if (response.ok) {
+        return;
+      }
+      error = new PushRegistrationError(
+        `Push registration failed with status ${response.status}`,
+        response.status
+      );
+      if (response.status !== 429 && response.status < 500) {
+        throw error;
+      }
+    } catch (cause) {
+      if (cause instanceof PushRegistrationError) {
+        throw cause;
+      }
+      if (signal.aborted) {
+        throw new PushRegistrationError('Push registration was stopped');
+      }
+      error = new PushRegistrationError(
+        controller.signal.aborted
+          ? `Push registration timed out after ${timeout}ms`
+          : `Push registration failed: ${cause instanceof Error ? cause.message : String(cause)}`
+      );
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', abort);
+    }
+
+    if (attempt >= retries) {
+      throw error;
+    }
+    await backoff(baseDelay * 2 ** attempt, signal);
+  }
+}
+
+/**
+ * Gets the service worker's PushManager.
+ *
+ * @throws Error if no service worker is registered for the page
+ */
+async function getPushManager(): Promise<PushManager> {
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) {
+    throw new Error('Web push requires a registered service worker');
+  }
+  return registration.pushManager;
+}
+
+/**
+ * Maps Notification.permission values to Web API permission states.
+ */
+function mapWebPermission(permission: NotificationPermission | PermissionState): PushPermissionState {
+  switch (permission) {
+    case 'granted':
+      return 'granted';
+    case 'denied':
+      return 'denied';
+    default:
+      return 'prompt';
+  }
+}
+
 /**
  * Push module for push notification registration.
  * Aligned with the Web Push API (PushManager).
  *
+ * Outside the native app, calls fall back to the service worker's
+ * PushManager. The web backend needs a registered service worker and a
+ * VAPID `applicationServerKey`.
+ *
  * @example
  * ```typescript
  * import { push } from '@pwa-kit/sdk';
@@ -116,23 +509,52 @@ export const push = {
    *
    * Aligned with PushManager.subscribe().
    *
+   * @param options - Subscribe options (VAPID key for the web backend)
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Push subscription with device token
-   * @throws Error if subscription fails
+   * @throws {PermissionDeniedError} If the user denied notification permission
+   * @throws {BridgeError} If subscription fails for another reason (see `code`)
    */
-  async subscribe(): Promise<PushSubscription> {
-    const result = await bridge.call<SubscribeResult>(
+  async subscribe(
+    options: PushSubscribeOptions = {},
+    callOptions?: BridgeCallOptions
+  ): Promise<PushSubscription> {
+    if (backendFor('push') === 'web') {
+      const key = options.applicationServerKey;
+      const pushManager = await getPushManager();
+      const subscription = await pushManager
+        .subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: typeof key === 'string' ? fromBase64Url(key) : key,
+        })
+        .catch((error: unknown) => {
+          if (error instanceof DOMException && error.name === 'NotAllowedError') {
+            throw new PermissionDeniedError(error.message, {
+              module: 'notifications',
+              action: 'subscribe',
+            });
+          }
+          throw error;
+        });
+      return fromWebSubscription(subscription);
+    }
+
+    const result = await bridge.call(
       'notifications',
-      'subscribe'
+      'subscribe',
+      undefined,
+      callOptions
     );
 
     if (!result.success || !result.token) {
-      throw new Error(result.error ?? 'Failed to subscribe to push notifications');
+      throw createBridgeError(
+        result.error ?? 'Failed to subscribe to push notifications',
+        result.code,
+        { module: 'notifications', action: 'subscribe' }
+      );
     }
 
-    return {
-      token: result.token,
-      endpoint: `apns://${result.token}`,
-    };
+    return fromNativeToken(result.token, result);
   },
 
   /**
@@ -140,22 +562,140 @@ export const push = {
    *
    * Aligned with PushManager.getSubscription().
    *
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns The current subscription, or null if not subscribed
    */
-  async getSubscription(): Promise<PushSubscription | null> {
-    const result = await bridge.call<{ token: string | null }>(
+  async getSubscription(callOptions?: BridgeCallOptions): Promise<PushSubscription | null> {
+    if (backendFor('push') === 'web') {
+      const registration = await navigator.serviceWorker.getRegistration();
+      const subscription = await registration?.pushManager.getSubscription();
+      return subscription ? fromWebSubscription(subscription) : null;
+    }
+
+    const result = await bridge.call(
       'notifications',
-      'getToken'
+      'getToken',
+      undefined,
+      callOptions
     );
 
     if (!result.token) {
       return null;
     }
 
-    return {
-      token: result.token,
-      endpoint: `apns://${result.token}`,
+    return fromNativeToken(result.token, result);
+  },
+
+  /**
+   * Posts the push subscription to a server, and posts it again whenever
+   * the device token changes.
+   *
+   * Subscribes first if there is no subscription yet. The body is the
+   * `PushSubscription` as JSON; after a token rotation it also carries the
+   * `oldToken` it replaces. Network errors, attempts that time out, 429 and
+   * 5xx responses are retried with exponential backoff.
+   *
+   * Token changes arrive as `pushsubscriptionchange` events from the native
+   * app. On the web backend, handle `pushsubscriptionchange` in the service
+   * worker instead.
+   *
+   * @param url - The endpoint to POST the subscription to
+   * @param options - Request headers, retry limits, timeout and subscribe options
+   * @returns The posted subscription and a function that stops re-posting
+   * @throws {PushRegistrationError} If the server rejects the subscription or retries run out
+   * @throws {PermissionDeniedError} If the user denied notification permission
+   *
+   * @example
+   * ```typescript
+   * const { subscription, stop } = await push.registerWith('/api/push/devices', {
+   *   headers: { Authorization: `Bearer ${accessToken}` },
+   *   onError: (error) => console.warn('Push re-registration failed', error),
+   * });
+   *
+   * // On sign-out
+   * stop();
+   * ```
+   */
+  async registerWith(
+    url: string,
+    options: PushRegistrationOptions = {}
+  ): Promise<PushRegistration> {
+    // Listen before subscribing so a token arriving meanwhile isn't missed
+    let posted: { token: string; request: Promise<void> } | undefined;
+    let registered = false;
+    const controller = new AbortController();
+    const post = (subscription: PushSubscription & { oldToken?: string }) => {
+      const request = postSubscription(url, subscription, options, controller.signal);
+      posted = { token: subscription.token, request };
+      return request;
     };
+    const unsubscribe = bridge.on(
+      'pushsubscriptionchange',
+      ({ oldToken, ...data }: PushSubscriptionChangeEventData) => {
+        if (data.token === posted?.token) {
+          return;
+        }
+        // Failures before registration completes reject registerWith instead
+        post({ ...fromNativeToken(data.token, data), oldToken }).catch((error: Error) => {
+          if (registered && !controller.signal.aborted) {
+            options.onError?.(error);
+          }
+        });
+      }
+    );
+    const stop = () => {
+      unsubscribe();
+      controller.abort();
+    };
+
+    try {
+      const subscription = (await push.getSubscription()) ?? (await push.subscribe(options));
+      // A token that arrived as an event while subscribing is already being posted
+      await (posted?.token === subscription.token ? posted.request : post(subscription));
+      registered = true;
+      return { subscription, stop };
+    } catch (error) {
+      stop();
+      throw error;
+    }
+  },
+
+  /**
+   * Converts a `push` event into the shape of a service worker `push` event.
+   *
+   * @param event - The `push` event data
+   * @returns The message, with `data.json()` and the notification options
+   *
+   * @example
+   * ```typescript
+   * bridge.on('push', (event) => {
+   *   const { data, notification } = push.toMessage(event);
+   *   console.log(notification.title, notification.options.actions, data.json());
+   * });
+   * ```
+   */
+  toMessage(event: PushEventData): PushMessage {
+    return toPushMessage(event);
+  },
+
+  /**
+   * Listens for push notifications in the shape of a service worker `push`
+   * event, so the page and the service worker can share a handler.
+   *
+   * @param listener - Called for each notification received in the
+   *   foreground or tapped
+   * @returns A function that stops listening
+   *
+   * @example
+   * ```typescript
+   * // sw.js: self.addEventListener('push', (event) => openMessage(event.data.json()));
+   * push.onMessage(({ type, data }) => {
+   *   if (type === 'tapped') openMessage(data.json());
+   * });
+   * ```
+   */
+  onMessage(listener: (message: PushMessage) => void): () => void {
+    return bridge.on('push', (event) => listener(toPushMessage(event)));
   },
 
   /**
@@ -164,12 +704,22 @@ export const push = {
    * Use this when you only need local notifications and don't need
    * an APNs device token. Aligned with Notification.requestPermission().
    *
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Permission state after the request: 'granted', 'denied', or 'prompt'
    */
-  async requestPermission(): Promise<PushPermissionState> {
-    const result = await bridge.call<{ granted: boolean; state: string }>(
+  async requestPermission(callOptions?: BridgeCallOptions): Promise<PushPermissionState> {
+    if (backendFor('push') === 'web') {
+      if (typeof Notification === 'undefined') {
+        return this.permissionState(callOptions);
+      }
+      return mapWebPermission(await Notification.requestPermission());
+    }
+
+    const result = await bridge.call(
       'notifications',
-      'requestPermission'
+      'requestPermission',
+      undefined,
+      callOptions
     );
 
     return mapPermissionState(result.state as PermissionStateResult['state']);
@@ -180,12 +730,27 @@ export const push = {
    *
    * Aligned with PushManager.permissionState().
    *
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Permission state: 'granted', 'denied', or 'prompt'
    */
-  async permissionState(): Promise<PushPermissionState> {
-    const result = await bridge.call<PermissionStateResult>(
+  async permissionState(callOptions?: BridgeCallOptions): Promise<PushPermissionState> {
+    if (backendFor('push') === 'web') {
+      const registration = await navigator.serviceWorker.getRegistration();
+      if (registration) {
+        return mapWebPermission(
+          await registration.pushManager.permissionState({ userVisibleOnly: true })
+        );
+      }
+      return typeof Notification === 'undefined'
+        ? 'prompt'
+        : mapWebPermission(Notification.permission);
+    }
+
+    const result = await bridge.call(
       'notifications',
-      'getPermissionState'
+      'getPermissionState',
+      undefined,
+      callOptions
     );
 
     return mapPermissionState(result.state);
@@ -5,6 +5,9 @@
  */
 
 import { bridge } from '../bridge';
+import type { BinaryData, BinaryPayload, BridgeCallOptions } from '../types';
+import { backendFor } from '../capabilities';
+import { decodeBase64 } from '../binary';
 
 /**
  * File data for sharing.
@@ -14,8 +17,8 @@ export interface ShareFile {
   name: string;
   /** MIME type (e.g., 'image/png') */
   type: string;
-  /** Base64 encoded file data */
-  data: string;
+  /** File data: a Blob or ArrayBuffer, or a base64 encoded string */
+  data: BinaryData | string;
 }
 
 /**
@@ -28,8 +31,8 @@ export interface ShareOptions {
   text?: string;
   /** URL to share */
   url?: string;
-  /** Files to share (base64 encoded) */
-  files?: ShareFile[];
+  /** Files to share, as File objects or ShareFile descriptions */
+  files?: (File | ShareFile)[];
 }
 
 /**
@@ -42,9 +45,70 @@ export interface ShareResult {
   activityType?: string;
 }
 
+/**
+ * Converts a file to share into a File for the Web Share API.
+ */
+function toFile(file: File | ShareFile): File {
+  if (file instanceof File) {
+    return file;
+  }
+  const data = typeof file.data === 'string' ? decodeBase64(file.data) : file.data;
+  return new File([data as BlobPart], file.name, { type: file.type });
+}
+
+/**
+ * A file as sent to native: base64 data or an upload reference.
+ */
+interface NativeShareFile {
+  name: string;
+  type: string;
+  data: BinaryPayload;
+}
+
+/**
+ * Uploads a file to share, returning its description for the native payload.
+ */
+async function toNativeFile(
+  file: File | ShareFile,
+  callOptions?: BridgeCallOptions
+): Promise<NativeShareFile> {
+  const { name, type } = file;
+  const data = file instanceof File ? file : file.data;
+  if (typeof data === 'string') {
+    return { name, type, data };
+  }
+  return { name, type, data: await bridge.upload(data, callOptions) };
+}
+
+/**
+ * Shares content via navigator.share, mapping the outcome to a ShareResult.
+ */
+async function webShare(options: ShareOptions): Promise<ShareResult> {
+  const data: ShareData = {
+    title: options.title,
+    text: options.text,
+    url: options.url,
+    files: options.files?.map(toFile),
+  };
+
+  try {
+    await navigator.share(data);
+    return { completed: true };
+  } catch (error) {
+    // The user dismissed the share sheet
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return { completed: false };
+    }
+    throw error;
+  }
+}
+
 /**
  * Share module for native share sheet functionality.
  *
+ * Outside the native app, calls fall back to the Web Share API
+ * (navigator.share) with the same result shape.
+ *
  * @example
  * ```typescript
  * import { share } from '@pwa-kit/sdk';
@@ -61,12 +125,15 @@ export interface ShareResult {
  *   url: 'https://example.com/article'
  * });
  *
- * // Share a file
+ * // Share a file picked by the user
+ * await share.share({ files: [input.files[0]] });
+ *
+ * // Share generated data
  * await share.share({
  *   files: [{
- *     name: 'image.png',
- *     type: 'image/png',
- *     data: 'base64encodeddata...'
+ *     name: 'report.csv',
+ *     type: 'text/csv',
+ *     data: new Blob([csv], { type: 'text/csv' })
  *   }]
  * });
  *
@@ -78,11 +145,32 @@ export const share = {
   /**
    * Presents the native share sheet with the given content.
    *
+   * Binary file data is sent with `bridge.upload()` before the share
+   * request, rather than base64 encoded into it.
+   *
    * @param options - Content to share
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Result indicating if the share was completed
    */
-  async share(options: ShareOptions): Promise<ShareResult> {
-    return bridge.call<ShareResult>('share', 'share', options);
+  async share(
+    options: ShareOptions,
+    callOptions?: BridgeCallOptions
+  ): Promise<ShareResult> {
+    if (backendFor('share') === 'web') {
+      return webShare(options);
+    }
+
+    const { files: sharedFiles, ...content } = options;
+    let files: NativeShareFile[] | undefined;
+    if (sharedFiles) {
+      // Upload one file at a time to keep memory use down
+      files = [];
+      for (const file of sharedFiles) {
+        files.push(await toNativeFile(file, callOptions));
+      }
+    }
+
+    return bridge.call('share', 'share', { ...content, files }, callOptions);
   },
 
   /**
@@ -91,12 +179,21 @@ export const share = {
    * Always returns true on iOS native, but useful for graceful degradation
    * when running in regular browsers.
    *
+   * @param callOptions - Optional call options (timeout, abort signal)
    * @returns Whether the share API is available
    */
-  async canShare(): Promise<boolean> {
-    const result = await bridge.call<{ available: boolean }>(
+  async canShare(callOptions?: BridgeCallOptions): Promise<boolean> {
+    const backend = backendFor('share');
+
+    if (backend !== 'native') {
+      return backend === 'web';
+    }
+
+    const result = await bridge.call(
       'share',
-      'canShare'
+      'canShare',
+      undefined,
+      callOptions
     );
     return result.available;
   },
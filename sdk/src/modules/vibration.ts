@@ -13,13 +13,15 @@
  */
 
 import { bridge } from '../bridge';
+import { backendFor } from '../capabilities';
 
 /**
  * Vibration module for simple haptic feedback.
  * Aligned with the Web Vibration API (navigator.vibrate).
  *
  * Note: The Web Vibration API is not supported on iOS Safari.
- * This module provides a native polyfill using iOS haptics.
+ * This module provides a native polyfill using iOS haptics, and falls
+ * back to navigator.vibrate in browsers that support it (e.g., Android Chrome).
  *
  * @example
  * ```typescript
@@ -50,6 +52,16 @@ export const vibration = {
    * @returns true if vibration was triggered, false otherwise
    */
   vibrate(pattern?: number | number[]): boolean {
+    const backend = backendFor('vibration');
+
+    if (backend === 'web') {
+      return navigator.vibrate(pattern ?? 200);
+    }
+
+    if (backend === 'none') {
+      return false;
+    }
+
     // Handle stop vibration
     if (pattern === 0 || (Array.isArray(pattern) && pattern.length === 0)) {
       return true; // Nothing to stop on iOS
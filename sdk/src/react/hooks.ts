@@ -0,0 +1,445 @@
+/**
+ * PWAKit React Hooks
+ *
+ * Hooks wrapping the SDK modules and bridge events for React components.
+ *
+ * Hooks that load a value follow the SDK's shared `stores`, so components
+ * using the same hook share one load and one set of bridge listeners.
+ *
+ * Nothing touches `window` or the bridge while rendering, so the hooks are
+ * safe to render on the server: they start out loading, and detection and
+ * bridge calls run in effects on the client. Outside the native app, hooks
+ * for modules with a Web API fallback use it, and the rest report
+ * `supported: false` without calling the bridge.
+ *
+ * @module react/hooks
+ */
+
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { bridge, getPlatformInfo, ios, permissions, push, stores } from '@pwa-kit/sdk';
+import type {
+  AuthenticationResult,
+  BiometricAuthenticateOptions,
+  BiometricAvailability,
+  BridgeEventMap,
+  BridgeReadyInfo,
+  EntitlementInfo,
+  PermissionName,
+  PermissionState,
+  Platform,
+  PushSubscribeOptions,
+  PushSubscription,
+  ResourceState,
+  ResourceStore,
+  SecureStorageStoreOptions,
+} from '@pwa-kit/sdk';
+
+/**
+ * State shared by the hooks that load a value from a module.
+ */
+export interface HookStatus {
+  /** Whether the value is being loaded */
+  loading: boolean;
+  /** The error from the last load or action, or null */
+  error: Error | null;
+  /**
+   * Whether the module can be used here, through native or a Web API
+   * fallback. False until the first load on the client.
+   */
+  supported: boolean;
+  /** Reloads the value */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Result of `usePWAKit()`.
+ */
+export interface PWAKitState {
+  /** Whether the app is running inside the native PWAKit shell */
+  isNative: boolean;
+  /** The detected platform (`'unknown'` until detection runs on the client) */
+  platform: Platform;
+  /** Whether detection and, in the native app, the bridge handshake have finished */
+  ready: boolean;
+  /** The handshake result in the native app, otherwise null */
+  info: BridgeReadyInfo | null;
+  /** The handshake error, if the bridge handshake failed */
+  error: Error | null;
+}
+
+/**
+ * Result of `usePermission()`.
+ */
+export interface PermissionHookResult extends HookStatus {
+  /** The current permission state, or null until loaded */
+  state: PermissionState | null;
+  /** Requests the permission, prompting the user if undetermined */
+  request: () => Promise<PermissionState>;
+}
+
+/**
+ * Result of `usePushSubscription()`.
+ */
+export interface PushSubscriptionHookResult extends HookStatus {
+  /** The current push subscription, or null if not subscribed */
+  subscription: PushSubscription | null;
+  /** Subscribes to push notifications, requesting permission if needed */
+  subscribe: (options?: PushSubscribeOptions) => Promise<PushSubscription>;
+}
+
+/**
+ * Result of `useBiometrics()`.
+ */
+export interface BiometricsHookResult extends HookStatus {
+  /** Biometric availability (unavailable outside the native app) */
+  availability: BiometricAvailability;
+  /** Prompts for Face ID / Touch ID */
+  authenticate: (
+    reason: string,
+    options?: BiometricAuthenticateOptions
+  ) => Promise<AuthenticationResult>;
+}
+
+/**
+ * Result of `useEntitlements()`.
+ */
+export interface EntitlementsHookResult extends HookStatus {
+  /** The owned products, or null until loaded or outside the native app */
+  entitlements: EntitlementInfo | null;
+  /** Whether a product is among the loaded entitlements */
+  isOwned: (productId: string) => boolean;
+}
+
+/**
+ * Result of `useSecureStorage()`.
+ */
+export interface SecureStorageHookResult extends HookStatus {
+  /** The stored value, or null if the key is not set */
+  value: string | null;
+  /** Stores a value under the key */
+  set: (value: string) => Promise<void>;
+  /** Deletes the key */
+  remove: () => Promise<void>;
+}
+
+/** A store's state, with helpers for actions that change its value */
+interface Resource<T> extends HookStatus {
+  value: T;
+  perform: <R>(action: () => Promise<R>, reload?: boolean) => Promise<R>;
+}
+
+/** State before detection has run (the server render and the first client render) */
+const SERVER_STATE: PWAKitState = {
+  isNative: false,
+  platform: 'unknown',
+  ready: false,
+  info: null,
+  error: null,
+};
+
+/** Availability reported outside the native app */
+const UNAVAILABLE_BIOMETRICS: BiometricAvailability = {
+  available: false,
+  biometryType: 'none',
+};
+
+/** Resource state rendered on the server, before any store has loaded */
+const SERVER_RESOURCE: ResourceState<null> = {
+  value: null,
+  loading: true,
+  error: null,
+  supported: false,
+};
+
+/** Biometrics state rendered on the server */
+const SERVER_BIOMETRICS: ResourceState<BiometricAvailability> = {
+  ...SERVER_RESOURCE,
+  value: UNAVAILABLE_BIOMETRICS,
+};
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Follows one of the SDK's shared stores.
+ *
+ * The store loads with its first subscriber and reloads on its own events.
+ * Errors from actions run through `perform` are reported alongside load
+ * errors until the next successful action, `refresh()` or change of store.
+ * Actions passing `reload` refresh the store once they succeed.
+ */
+function useResource<T>(store: ResourceStore<T>, serverState: ResourceState<T>): Resource<T> {
+  const state = useSyncExternalStore(store.subscribe, store.get, () => serverState);
+  const [actionError, setActionError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    setActionError(null);
+  }, [store]);
+
+  const refresh = useCallback(() => {
+    setActionError(null);
+    return store.refresh();
+  }, [store]);
+
+  const perform = useCallback(
+    async <R>(action: () => Promise<R>, reload = false): Promise<R> => {
+      try {
+        const result = await action();
+        setActionError(null);
+        if (reload) {
+          await store.refresh();
+        }
+        return result;
+      } catch (error) {
+        setActionError(toError(error));
+        throw error;
+      }
+    },
+    [store]
+  );
+
+  return {
+    value: state.value,
+    loading: state.loading,
+    error: actionError ?? state.error,
+    supported: state.supported,
+    refresh,
+    perform,
+  };
+}
+
+/**
+ * Detects the environment and waits for the bridge handshake.
+ *
+ * @returns Whether the app is native, the platform and the handshake result
+ *
+ * @example
+ * ```tsx
+ * function Badge() {
+ *   const { isNative, ready, info } = usePWAKit();
+ *   if (!ready) return null;
+ *   return <span>{isNative ? `Shell ${info?.shellVersion}` : 'Browser'}</span>;
+ * }
+ * ```
+ */
+export function usePWAKit(): PWAKitState {
+  const [state, setState] = useState<PWAKitState>(SERVER_STATE);
+
+  useEffect(() => {
+    const detected = getPlatformInfo();
+
+    if (!bridge.isAvailable()) {
+      setState({ ...SERVER_STATE, isNative: detected.isNative, platform: detected.platform, ready: true });
+      return;
+    }
+
+    let active = true;
+    bridge.ready.then(
+      (info) => {
+        if (active) {
+          setState({ isNative: true, platform: detected.platform, ready: true, info, error: null });
+        }
+      },
+      (error: unknown) => {
+        if (active) {
+          setState({
+            isNative: true,
+            platform: detected.platform,
+            ready: true,
+            info: null,
+            error: toError(error),
+          });
+        }
+      }
+    );
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return state;
+}
+
+/**
+ * Tracks a permission's state, using the Permissions API outside the native app.
+ *
+ * @param name - The permission name
+ * @returns The permission state and a `request()` action
+ *
+ * @example
+ * ```tsx
+ * const camera = usePermission('camera');
+ * if (camera.state === 'prompt') {
+ *   return <button onClick={() => camera.request()}>Allow camera</button>;
+ * }
+ * ```
+ */
+export function usePermission(name: PermissionName): PermissionHookResult {
+  const { value, perform, ...status } = useResource(stores.permission(name), SERVER_RESOURCE);
+
+  const request = useCallback(
+    () => perform(async () => (await permissions.request({ name })).state, true),
+    [name, perform]
+  );
+
+  return { ...status, state: value, request };
+}
+
+/**
+ * Tracks the push subscription, using the Push API outside the native app.
+ *
+ * @returns The current subscription and a `subscribe()` action
+ *
+ * @example
+ * ```tsx
+ * const { subscription, subscribe } = usePushSubscription();
+ * useEffect(() => {
+ *   if (subscription) registerDevice(subscription.token);
+ * }, [subscription]);
+ * ```
+ */
+export function usePushSubscription(): PushSubscriptionHookResult {
+  const { value, perform, ...status } = useResource(
+    stores.pushSubscription(),
+    SERVER_RESOURCE
+  );
+
+  const subscribe = useCallback(
+    (options?: PushSubscribeOptions) => perform(() => push.subscribe(options), true),
+    [perform]
+  );
+
+  return { ...status, subscription: value, subscribe };
+}
+
+/**
+ * Checks Face ID / Touch ID availability.
+ *
+ * Reports biometrics as unavailable outside the native app.
+ *
+ * @returns The availability and an `authenticate()` action
+ *
+ * @example
+ * ```tsx
+ * const { availability, authenticate } = useBiometrics();
+ * if (availability.available) {
+ *   await authenticate('Unlock your notes');
+ * }
+ * ```
+ */
+export function useBiometrics(): BiometricsHookResult {
+  const { value, perform, ...status } = useResource(stores.biometrics(), SERVER_BIOMETRICS);
+
+  const authenticate = useCallback(
+    (reason: string, options?: BiometricAuthenticateOptions) =>
+      perform(() => ios.biometrics.authenticate(reason, options)),
+    [perform]
+  );
+
+  return { ...status, availability: value, authenticate };
+}
+
+/**
+ * Tracks the user's StoreKit entitlements.
+ *
+ * Reloads whenever native reports a `transaction` event, such as a renewal
+ * or refund. Entitlements stay null outside the native app.
+ *
+ * @returns The entitlements and an `isOwned()` helper
+ *
+ * @example
+ * ```tsx
+ * const { isOwned } = useEntitlements();
+ * return isOwned('com.example.pro') ? <ProFeatures /> : <Upsell />;
+ * ```
+ */
+export function useEntitlements(): EntitlementsHookResult {
+  const { value, perform: _perform, ...status } = useResource(
+    stores.entitlements(),
+    SERVER_RESOURCE
+  );
+
+  const isOwned = useCallback(
+    (productId: string) => value?.ownedProductIds.includes(productId) ?? false,
+    [value]
+  );
+
+  return { ...status, entitlements: value, isOwned };
+}
+
+/**
+ * Listens for a native event while the component is mounted.
+ *
+ * The listener may change between renders without resubscribing; only a
+ * change of `type` does.
+ *
+ * @param type - The event type (without 'pwa:' prefix)
+ * @param listener - The event listener callback
+ *
+ * @example
+ * ```tsx
+ * useBridgeEvent('push', (data) => {
+ *   toast(data.title);
+ * });
+ * ```
+ */
+export function useBridgeEvent<K extends keyof BridgeEventMap>(
+  type: K,
+  listener: (data: BridgeEventMap[K]) => void
+): void;
+
+/**
+ * Listens for a native event not in `BridgeEventMap` while the component is mounted.
+ *
+ * @param type - The event type (without 'pwa:' prefix)
+ * @param listener - The event listener callback
+ */
+export function useBridgeEvent<T = unknown>(type: string, listener: (data: T) => void): void;
+
+export function useBridgeEvent(type: string, listener: (data: unknown) => void): void {
+  const latest = useRef(listener);
+
+  useEffect(() => {
+    latest.current = listener;
+  });
+
+  useEffect(() => bridge.on(type, (data: unknown) => latest.current(data)), [type]);
+}
+
+/**
+ * Reads and writes a Keychain value.
+ *
+ * The value stays null outside the native app, where `set()` and `remove()`
+ * reject with BridgeUnavailableError. For a value stored with
+ * `requireBiometrics`, pass a prompt `reason`, or `lazy` to read it only on
+ * `refresh()` rather than when the component mounts. `set()` and `remove()`
+ * never read the value back.
+ *
+ * @param key - Storage key
+ * @param options - Optional prompt reason and lazy loading
+ * @returns The stored value with `set()` and `remove()` actions
+ *
+ * @example
+ * ```tsx
+ * const token = useSecureStorage('auth_token');
+ * await token.set('secret123');
+ *
+ * const pin = useSecureStorage('pin', { lazy: true });
+ * await pin.refresh();
+ * ```
+ */
+export function useSecureStorage(
+  key: string,
+  options: SecureStorageStoreOptions = {}
+): SecureStorageHookResult {
+  const store = stores.secureStorage(key, options);
+  const { value, perform, ...status } = useResource(store, SERVER_RESOURCE);
+
+  const set = useCallback((next: string) => perform(() => store.set(next)), [store, perform]);
+
+  const remove = useCallback(() => perform(() => store.remove()), [store, perform]);
+
+  return { ...status, value, set, remove };
+}
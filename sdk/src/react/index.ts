@@ -0,0 +1,46 @@
+/**
+ * PWAKit React Bindings
+ *
+ * React hooks for the PWAKit SDK, published as `@pwa-kit/sdk/react`.
+ *
+ * The hooks import the SDK from `@pwa-kit/sdk`, so they share its bridge
+ * and any transport or interceptors configured on it.
+ *
+ * @example
+ * ```tsx
+ * import { usePWAKit, usePermission, useBridgeEvent } from '@pwa-kit/sdk/react';
+ *
+ * function Scanner() {
+ *   const { isNative } = usePWAKit();
+ *   const camera = usePermission('camera');
+ *
+ *   useBridgeEvent('push', (data) => console.log('Push:', data.title));
+ *
+ *   if (camera.state !== 'granted') {
+ *     return <button onClick={() => camera.request()}>Allow camera</button>;
+ *   }
+ *   return <Camera native={isNative} />;
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+export {
+  usePWAKit,
+  usePermission,
+  usePushSubscription,
+  useBiometrics,
+  useEntitlements,
+  useBridgeEvent,
+  useSecureStorage,
+} from './hooks';
+export type {
+  HookStatus,
+  PWAKitState,
+  PermissionHookResult,
+  PushSubscriptionHookResult,
+  BiometricsHookResult,
+  EntitlementsHookResult,
+  SecureStorageHookResult,
+} from './hooks';
@@ -0,0 +1,499 @@
+/**
+ * PWAKit Stores
+ *
+ * Framework-neutral observable stores for SDK state that changes over time:
+ * permissions, the push subscription, StoreKit entitlements, biometric
+ * availability, the app lifecycle and network connectivity.
+ *
+ * Stores follow the Svelte store contract: `subscribe()` calls the listener
+ * with the current value straight away, then on every change, and returns
+ * an unsubscribe function. A store starts loading and listening for bridge
+ * events when it gains its first subscriber and stops when it loses its last.
+ * Stores listen with `replay: false`, so events buffered before the app
+ * attached its own listeners stay buffered for them. Nothing starts on the
+ * server, where stores keep their initial value.
+ *
+ * @module stores
+ */
+
+import { bridge } from './bridge';
+import type { BridgeListenerOptions, LifecycleEventData, NetworkEventData } from './bridge';
+import { capabilities } from './capabilities';
+import { permissions } from './modules/permissions';
+import type { PermissionName, PermissionState } from './modules/permissions';
+import { push } from './modules/push';
+import type { PushSubscription } from './modules/push';
+import { biometrics } from './ios/biometrics';
+import type { BiometricAvailability } from './ios/biometrics';
+import { secureStorage } from './ios/secureStorage';
+import type { SecureStorageSetOptions } from './ios/secureStorage';
+import { storeKit } from './ios/storeKit';
+import type { EntitlementInfo } from './ios/storeKit';
+
+/**
+ * An observable value.
+ *
+ * Compatible with Svelte's `$store` syntax.
+ */
+export interface ReadableStore<T> {
+  /**
+   * Calls `run` with the current value, then whenever it changes.
+   *
+   * @param run - The listener
+   * @returns A function to remove the listener
+   */
+  subscribe(run: (value: T) => void): () => void;
+  /** Returns the current value without subscribing */
+  get(): T;
+}
+
+/**
+ * The state of a value loaded from a module.
+ */
+export interface ResourceState<T> {
+  /** The loaded value, or the store's initial value until loaded */
+  value: T;
+  /** Whether the value is being loaded */
+  loading: boolean;
+  /** The error from the last load, or null */
+  error: Error | null;
+  /**
+   * Whether the module can be used here, through native or a Web API
+   * fallback. False until the first load.
+   */
+  supported: boolean;
+}
+
+/**
+ * A store of a value loaded from a module.
+ */
+export interface ResourceStore<T> extends ReadableStore<ResourceState<T>> {
+  /** Loads the value again, such as after changing it through the module */
+  refresh(): Promise<void>;
+}
+
+/**
+ * Options for `stores.secureStorage()`.
+ */
+export interface SecureStorageStoreOptions {
+  /** Reason shown in the Face ID / Touch ID prompt when the value is read */
+  reason?: string;
+  /**
+   * Waits for `refresh()` before reading the value, so subscribing never
+   * shows a Face ID / Touch ID prompt (default: false)
+   */
+  lazy?: boolean;
+}
+
+/**
+ * A store of a Keychain value.
+ */
+export interface SecureStorageStore extends ResourceStore<string | null> {
+  /**
+   * Stores a value under the key, then reports it without reading it back.
+   *
+   * @param value - The value to store
+   * @param options - Optional biometric protection
+   */
+  set(value: string, options?: SecureStorageSetOptions): Promise<void>;
+  /** Deletes the key, then reports null */
+  remove(): Promise<void>;
+}
+
+/** A resource store whose value can be replaced without loading it */
+interface WritableResourceStore<T> extends ResourceStore<T> {
+  update(value: T): void;
+}
+
+/**
+ * The app's lifecycle state.
+ */
+export type AppLifecycleState = LifecycleEventData['state'];
+
+/**
+ * Network connectivity.
+ *
+ * Outside the native app only `online` is tracked, from the browser's
+ * `online` and `offline` events.
+ */
+export interface NetworkState {
+  /** Whether a network connection is available */
+  online: boolean;
+  /** The connection type, `'unknown'` until native reports it */
+  connectionType: NetworkEventData['connectionType'] | 'unknown';
+  /** Whether the connection is expensive (e.g., cellular or hotspot) */
+  expensive: boolean;
+  /** Whether Low Data Mode is enabled */
+  constrained: boolean;
+}
+
+/** Availability reported outside the native app */
+const UNAVAILABLE_BIOMETRICS: BiometricAvailability = {
+  available: false,
+  biometryType: 'none',
+};
+
+/** Stores only follow new events, leaving buffered ones to the app's listeners */
+const NO_REPLAY: BridgeListenerOptions = { replay: false };
+
+/** Stores created so far, so every caller shares one per key */
+const cache = new Map<string, unknown>();
+
+/** Keychain stores by storage key, so a write updates every store of the key */
+const keychainStores = new Map<string, WritableResourceStore<string | null>[]>();
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+function isBrowser(): boolean {
+  return typeof window !== 'undefined';
+}
+
+function cached<S>(key: string, create: () => S): S {
+  if (!cache.has(key)) {
+    cache.set(key, create());
+  }
+  return cache.get(key) as S;
+}
+
+/**
+ * Creates a store whose `start` runs when it gains its first subscriber,
+ * and whose returned cleanup runs when it loses its last.
+ */
+function createStore<T>(
+  initial: T,
+  start: (set: (value: T) => void) => () => void
+): ReadableStore<T> & { set(value: T): void } {
+  let value = initial;
+  let stop: (() => void) | null = null;
+  const listeners = new Set<(value: T) => void>();
+
+  const set = (next: T): void => {
+    if (Object.is(value, next)) {
+      return;
+    }
+    value = next;
+    for (const listener of [...listeners]) {
+      listener(value);
+    }
+  };
+
+  return {
+    get: () => value,
+    set,
+    subscribe(run) {
+      // Wrap so the same function can subscribe twice
+      const listener = (next: T) => run(next);
+      if (listeners.size === 0 && isBrowser()) {
+        stop = start(set);
+      }
+      listeners.add(listener);
+      listener(value);
+
+      return () => {
+        if (!listeners.delete(listener) || listeners.size > 0) {
+          return;
+        }
+        stop?.();
+        stop = null;
+      };
+    },
+  };
+}
+
+/**
+ * Creates a store that loads its value on start and whenever `watch` calls
+ * `reload`. A new load aborts the previous one, and stopping aborts both.
+ * A lazy store only loads on `refresh()`.
+ */
+function createResourceStore<T>(
+  initial: T,
+  isSupported: () => boolean,
+  load: (signal: AbortSignal) => Promise<T>,
+  watch: (reload: () => void) => () => void,
+  lazy = false
+): WritableResourceStore<T> {
+  let controller: AbortController | null = null;
+
+  const refresh = async (): Promise<void> => {
+    controller?.abort();
+    controller = null;
+
+    if (!isSupported()) {
+      store.set({ value: initial, loading: false, error: null, supported: false });
+      return;
+    }
+
+    const current = new AbortController();
+    controller = current;
+    store.set({ ...store.get(), loading: true, error: null, supported: true });
+
+    try {
+      const value = await load(current.signal);
+      if (!current.signal.aborted) {
+        store.set({ value, loading: false, error: null, supported: true });
+      }
+    } catch (error) {
+      if (!current.signal.aborted) {
+        store.set({ ...store.get(), loading: false, error: toError(error) });
+      }
+    }
+  };
+
+  const update = (value: T): void => {
+    controller?.abort();
+    controller = null;
+    store.set({ value, loading: false, error: null, supported: true });
+  };
+
+  const store = createStore<ResourceState<T>>(
+    { value: initial, loading: !lazy, error: null, supported: false },
+    () => {
+      if (lazy) {
+        store.set({ ...store.get(), supported: isSupported() });
+      } else {
+        void refresh();
+      }
+      const unwatch = watch(() => void refresh());
+      return () => {
+        unwatch();
+        controller?.abort();
+        controller = null;
+      };
+    }
+  );
+
+  return { subscribe: store.subscribe, get: store.get, refresh, update };
+}
+
+/**
+ * Reloads when the app returns to the foreground, where the user may have
+ * changed a setting.
+ */
+function onForeground(reload: () => void): () => void {
+  return bridge.on(
+    'lifecycle',
+    ({ state }) => {
+      if (state === 'foreground') {
+        reload();
+      }
+    },
+    NO_REPLAY
+  );
+}
+
+/**
+ * Observable stores for SDK state.
+ *
+ * Each store is created once and shared by every caller.
+ *
+ * @example
+ * ```typescript
+ * import { stores } from '@pwa-kit/sdk';
+ *
+ * const unsubscribe = stores.network().subscribe(({ online }) => {
+ *   banner.hidden = online;
+ * });
+ *
+ * const camera = stores.permission('camera');
+ * camera.subscribe(({ value }) => console.log('Camera:', value));
+ * await permissions.request({ name: 'camera' });
+ * await camera.refresh();
+ * ```
+ */
+export const stores = {
+  /**
+   * A permission's state, reloaded when the app returns to the foreground.
+   *
+   * Uses the Permissions API outside the native app.
+   *
+   * @param name - The permission name
+   * @returns The permission state store
+   */
+  permission(name: PermissionName): ResourceStore<PermissionState | null> {
+    return cached(`permission:${name}`, () =>
+      createResourceStore<PermissionState | null>(
+        null,
+        () => capabilities().permissions !== 'none',
+        async (signal) => (await permissions.query({ name }, { signal })).state,
+        onForeground
+      )
+    );
+  },
+
+  /**
+   * The push subscription, reloaded on `pushsubscriptionchange` events and
+   * when the app returns to the foreground.
+   *
+   * Uses the Push API outside the native app.
+   *
+   * @returns The push subscription store
+   */
+  pushSubscription(): ResourceStore<PushSubscription | null> {
+    return cached('pushSubscription', () =>
+      createResourceStore<PushSubscription | null>(
+        null,
+        () => capabilities().push !== 'none',
+        (signal) => push.getSubscription({ signal }),
+        (reload) => {
+          const offChange = bridge.on('pushsubscriptionchange', () => reload(), NO_REPLAY);
+          const offForeground = onForeground(reload);
+          return () => {
+            offChange();
+            offForeground();
+          };
+        }
+      )
+    );
+  },
+
+  /**
+   * The user's StoreKit entitlements, reloaded on `transaction` events and
+   * when the app returns to the foreground. Null outside the native app.
+   *
+   * @returns The entitlements store
+   */
+  entitlements(): ResourceStore<EntitlementInfo | null> {
+    return cached('entitlements', () =>
+      createResourceStore<EntitlementInfo | null>(
+        null,
+        () => bridge.isAvailable(),
+        (signal) => storeKit.getEntitlements({ signal }),
+        (reload) => {
+          const offTransaction = bridge.on('transaction', () => reload(), NO_REPLAY);
+          const offForeground = onForeground(reload);
+          return () => {
+            offTransaction();
+            offForeground();
+          };
+        }
+      )
+    );
+  },
+
+  /**
+   * Face ID / Touch ID availability, reloaded when the app returns to the
+   * foreground. Unavailable outside the native app.
+   *
+   * @returns The biometric availability store
+   */
+  biometrics(): ResourceStore<BiometricAvailability> {
+    return cached('biometrics', () =>
+      createResourceStore<BiometricAvailability>(
+        UNAVAILABLE_BIOMETRICS,
+        () => bridge.isAvailable(),
+        (signal) => biometrics.isAvailable({ signal }),
+        onForeground
+      )
+    );
+  },
+
+  /**
+   * A Keychain value, or null if the key is not set. Null outside the
+   * native app.
+   *
+   * Reading a value stored with `requireBiometrics` shows a Face ID /
+   * Touch ID prompt. Pass a `reason` for it, or `lazy` to read only on
+   * `refresh()`. Change the value through the store's `set()` and
+   * `remove()`, which report the new value without reading it back. After
+   * changing it through `ios.secureStorage`, call `refresh()`.
+   *
+   * @param key - Storage key
+   * @param options - Optional prompt reason and lazy loading
+   * @returns The Keychain value store
+   */
+  secureStorage(key: string, options: SecureStorageStoreOptions = {}): SecureStorageStore {
+    const { reason, lazy = false } = options;
+    return cached(`secureStorage:${JSON.stringify([key, reason ?? null, lazy])}`, () => {
+      const store = createResourceStore<string | null>(
+        null,
+        () => bridge.isAvailable(),
+        (signal) => secureStorage.get(key, { reason }, { signal }),
+        () => () => {},
+        lazy
+      );
+      keychainStores.set(key, [...(keychainStores.get(key) ?? []), store]);
+      const report = (value: string | null) => {
+        keychainStores.get(key)!.forEach((variant) => variant.update(value));
+      };
+
+      return {
+        subscribe: store.subscribe,
+        get: store.get,
+        refresh: store.refresh,
+        async set(value, setOptions) {
+          await secureStorage.set(key, value, setOptions);
+          report(value);
+        },
+        async remove() {
+          await secureStorage.delete(key);
+          report(null);
+        },
+      };
+    });
+  },
+
+  /**
+   * Whether the app is in the foreground or background.
+   *
+   * Follows `lifecycle` events in the native app and page visibility in
+   * the browser.
+   *
+   * @returns The lifecycle state store
+   */
+  lifecycle(): ReadableStore<AppLifecycleState> {
+    return cached('lifecycle', () => {
+      const visibleState = (): AppLifecycleState =>
+        typeof document !== 'undefined' && document.visibilityState === 'hidden'
+          ? 'background'
+          : 'foreground';
+
+      return createStore<AppLifecycleState>('foreground', (set) => {
+        const onVisibilityChange = () => set(visibleState());
+        set(visibleState());
+        document.addEventListener('visibilitychange', onVisibilityChange);
+        const off = bridge.on('lifecycle', ({ state }) => set(state), NO_REPLAY);
+
+        return () => {
+          off();
+          document.removeEventListener('visibilitychange', onVisibilityChange);
+        };
+      });
+    });
+  },
+
+  /**
+   * Network connectivity.
+   *
+   * Follows `network` events in the native app and the browser's `online`
+   * and `offline` events everywhere.
+   *
+   * @returns The network state store
+   */
+  network(): ReadableStore<NetworkState> {
+    return cached('network', () => {
+      const store = createStore<NetworkState>(
+        { online: true, connectionType: 'unknown', expensive: false, constrained: false },
+        (set) => {
+          const onOnlineChange = () => {
+            if (navigator.onLine !== store.get().online) {
+              set({ ...store.get(), online: navigator.onLine });
+            }
+          };
+          onOnlineChange();
+          window.addEventListener('online', onOnlineChange);
+          window.addEventListener('offline', onOnlineChange);
+          const off = bridge.on('network', (data) => set({ ...data }), NO_REPLAY);
+
+          return () => {
+            off();
+            window.removeEventListener('online', onOnlineChange);
+            window.removeEventListener('offline', onOnlineChange);
+          };
+        }
+      );
+      return { subscribe: store.subscribe, get: store.get };
+    });
+  },
+};
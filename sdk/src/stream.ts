@@ -0,0 +1,220 @@
+/**
+ * PWAKit Bridge Streams
+ *
+ * Async iteration over the partial and final responses of a single
+ * streaming bridge request.
+ *
+ * @module stream
+ */
+
+import { BridgeError } from './types';
+
+/**
+ * A single update from a streaming bridge request.
+ *
+ * `progress` and `chunk` updates may arrive any number of times; the
+ * `final` update is always last and carries the action result.
+ */
+export type BridgeStreamUpdate<T = unknown, P = unknown> =
+  | { kind: 'progress'; data: P }
+  | { kind: 'chunk'; data: P }
+  | { kind: 'final'; data: T };
+
+/**
+ * Async iterator over the updates of a streaming bridge request.
+ *
+ * Returned by `bridge.stream()`. Breaking out of a `for await` loop, or
+ * calling `cancel()`, stops the stream and tells native to stop working
+ * on the request.
+ *
+ * @typeParam T - The final result data type
+ * @typeParam P - The progress/chunk data type
+ *
+ * @example
+ * ```typescript
+ * const stream = bridge.stream<SamplesResult, { fraction: number }>(
+ *   'healthkit',
+ *   'querySamples',
+ *   { quantityType: 'stepCount', startDate, endDate }
+ * );
+ *
+ * for await (const update of stream) {
+ *   if (update.kind === 'progress') {
+ *     progressBar.value = update.data.fraction;
+ *   } else if (update.kind === 'final') {
+ *     render(update.data.samples);
+ *   }
+ * }
+ * ```
+ */
+export class BridgeStream<T = unknown, P = unknown>
+  implements AsyncIterableIterator<BridgeStreamUpdate<T, P>>
+{
+  /** The request ID shared by every response in this stream */
+  public readonly id: string;
+
+  /** Updates received but not yet consumed */
+  private queue: BridgeStreamUpdate<T, P>[] = [];
+
+  /** Pending `next()` calls waiting for an update */
+  private waiters: {
+    resolve: (result: IteratorResult<BridgeStreamUpdate<T, P>>) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+
+  /** Error that ended the stream, delivered once the queue drains */
+  private error: Error | null = null;
+
+  /** Whether the final update, an error or a cancellation has been seen */
+  private closed = false;
+
+  /** Called when the consumer cancels before the stream completes */
+  private onCancel: () => void;
+
+  /**
+   * Creates a new stream.
+   *
+   * @param id - The request ID
+   * @param onCancel - Called when the consumer cancels an open stream
+   * @internal
+   */
+  constructor(id: string, onCancel: () => void) {
+    this.id = id;
+    this.onCancel = onCancel;
+  }
+
+  /**
+   * Whether the stream has completed, failed or been cancelled.
+   */
+  public get done(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Delivers an update to the consumer.
+   *
+   * A `final` update closes the stream.
+   *
+   * @param update - The update to deliver
+   * @internal
+   */
+  public push(update: BridgeStreamUpdate<T, P>): void {
+    if (this.closed) {
+      return;
+    }
+    if (update.kind === 'final') {
+      this.closed = true;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value: update, done: false });
+    } else {
+      this.queue.push(update);
+    }
+
+    if (this.closed) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Ends the stream with an error, thrown from the next `next()` call
+   * once any queued updates have been consumed.
+   *
+   * @param error - The error that ended the stream
+   * @internal
+   */
+  public fail(error: Error): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.error = error;
+    this.flush();
+  }
+
+  /**
+   * Stops the stream and notifies native.
+   *
+   * Has no effect once the stream has completed or failed.
+   */
+  public cancel(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.queue = [];
+    this.flush();
+    this.onCancel();
+  }
+
+  /**
+   * Consumes the stream and resolves with the final result, ignoring
+   * partial updates.
+   *
+   * @returns The final result data
+   * @throws {BridgeError} If the request fails or the stream is cancelled
+   */
+  public async result(): Promise<T> {
+    for await (const update of this) {
+      if (update.kind === 'final') {
+        return update.data;
+      }
+    }
+    throw new BridgeError('Stream was cancelled before completing', { requestId: this.id });
+  }
+
+  /**
+   * Resolves with the next update.
+   */
+  public next(): Promise<IteratorResult<BridgeStreamUpdate<T, P>>> {
+    const update = this.queue.shift();
+    if (update) {
+      return Promise.resolve({ value: update, done: false });
+    }
+    if (this.error) {
+      // Deliver the error once, then report completion
+      const error = this.error;
+      this.error = null;
+      return Promise.reject(error);
+    }
+    if (this.closed) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Cancels the stream when the consumer stops iterating early.
+   */
+  public return(): Promise<IteratorResult<BridgeStreamUpdate<T, P>>> {
+    this.cancel();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  public [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  /**
+   * Settles every waiting `next()` call once the stream has closed.
+   */
+  private flush(): void {
+    const waiters = this.waiters.splice(0);
+    const error = this.error;
+    if (error && waiters.length > 0) {
+      this.error = null;
+    }
+
+    for (const waiter of waiters) {
+      if (error) {
+        waiter.reject(error);
+      } else {
+        waiter.resolve({ value: undefined, done: true });
+      }
+    }
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * PWAKit Svelte Bindings
+ *
+ * Svelte stores for the PWAKit SDK, published as `@pwa-kit/sdk/svelte`.
+ *
+ * The SDK's `stores` already follow the Svelte store contract; these are
+ * the same shared instances, ready for `$store` syntax. Svelte subscribes
+ * and unsubscribes during server rendering, which leaves them untouched.
+ *
+ * @example
+ * ```svelte
+ * <script lang="ts">
+ *   import { network, permission } from '@pwa-kit/sdk/svelte';
+ *
+ *   const camera = permission('camera');
+ * </script>
+ *
+ * {#if !$network.online}
+ *   <OfflineBanner />
+ * {/if}
+ * {#if $camera.value === 'granted'}
+ *   <Scanner />
+ * {/if}
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { stores } from '@pwa-kit/sdk';
+import type {
+  AppLifecycleState,
+  BiometricAvailability,
+  EntitlementInfo,
+  NetworkState,
+  PermissionName,
+  PermissionState,
+  PushSubscription,
+  ReadableStore,
+  ResourceStore,
+} from '@pwa-kit/sdk';
+
+export type { ReadableStore, ResourceState, ResourceStore } from '@pwa-kit/sdk';
+
+/**
+ * A permission's state.
+ *
+ * @param name - The permission name
+ * @returns The shared store for the permission
+ */
+export function permission(name: PermissionName): ResourceStore<PermissionState | null> {
+  return stores.permission(name);
+}
+
+/** The push subscription */
+export const pushSubscription: ResourceStore<PushSubscription | null> = stores.pushSubscription();
+
+/** The user's StoreKit entitlements */
+export const entitlements: ResourceStore<EntitlementInfo | null> = stores.entitlements();
+
+/** Face ID / Touch ID availability */
+export const biometrics: ResourceStore<BiometricAvailability> = stores.biometrics();
+
+/** Whether the app is in the foreground or background */
+export const lifecycle: ReadableStore<AppLifecycleState> = stores.lifecycle();
+
+/** Network connectivity */
+export const network: ReadableStore<NetworkState> = stores.network();
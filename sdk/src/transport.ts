@@ -0,0 +1,139 @@
+/**
+ * PWAKit WebKit Transport
+ *
+ * The default transport used by PWABridge inside the native iOS wrapper.
+ * Messages are posted to `window.webkit.messageHandlers.pwakit` and native
+ * replies by calling `window.pwakit._handleResponse` / `_handleEvent`.
+ */
+
+import type {
+  BinaryChunk,
+  BridgeHandshakeRequest,
+  BridgeMessage,
+  BridgeReceiver,
+  BridgeTransport,
+} from './types';
+
+/**
+ * Transport backed by the WKWebView script message handler.
+ *
+ * @example
+ * ```typescript
+ * import { PWABridge, WebKitTransport } from '@pwa-kit/sdk';
+ *
+ * const bridge = new PWABridge({ transport: new WebKitTransport() });
+ * ```
+ */
+export class WebKitTransport implements BridgeTransport {
+  /**
+   * Checks if `window.webkit.messageHandlers.pwakit` is available.
+   *
+   * @returns true when running inside the PWAKit native app wrapper
+   */
+  public isAvailable(): boolean {
+    return (
+      typeof window !== 'undefined' &&
+      typeof window.webkit?.messageHandlers?.pwakit?.postMessage === 'function'
+    );
+  }
+
+  /**
+   * Installs the `window.pwakit` response and event handlers.
+   *
+   * @param receiver - Receiver for responses and events from native
+   */
+  public connect(receiver: BridgeReceiver): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    // Create or extend the global pwakit object
+    window.pwakit = window.pwakit ?? {
+      postMessage: (message: string) => {
+        window.webkit?.messageHandlers?.pwakit?.postMessage(message);
+      },
+      _callbacks: {},
+      _handleResponse: () => {},
+      _handleEvent: () => {},
+    };
+
+    window.pwakit._handleResponse = (response) => {
+      receiver.handleResponse(response);
+    };
+
+    window.pwakit._handleEvent = (event) => {
+      receiver.handleEvent(event);
+    };
+  }
+
+  /**
+   * Posts a JSON-encoded message to the native message handler.
+   *
+   * @param message - The message to send
+   */
+  public send(message: BridgeMessage): void {
+    window.webkit?.messageHandlers?.pwakit?.postMessage(JSON.stringify(message));
+  }
+
+  /**
+   * Posts a `batch` message carrying several requests.
+   *
+   * Native dispatches them concurrently and answers them together.
+   *
+   * @param messages - The messages to send
+   */
+  public sendBatch(messages: BridgeMessage[]): void {
+    window.webkit?.messageHandlers?.pwakit?.postMessage(
+      JSON.stringify({ type: 'batch', messages })
+    );
+  }
+
+  /**
+   * Posts a `cancel` control message for an in-flight request.
+   *
+   * @param id - The request ID to cancel
+   */
+  public cancel(id: string): void {
+    window.webkit?.messageHandlers?.pwakit?.postMessage(
+      JSON.stringify({ type: 'cancel', id })
+    );
+  }
+
+  /**
+   * Posts a `handshake` control message carrying the SDK's versions.
+   *
+   * Native answers with a response carrying the same ID.
+   *
+   * @param request - The handshake to send
+   */
+  public handshake(request: BridgeHandshakeRequest): void {
+    window.webkit?.messageHandlers?.pwakit?.postMessage(
+      JSON.stringify({ type: 'handshake', ...request })
+    );
+  }
+
+  /**
+   * Posts a `binary` message carrying one chunk of an upload.
+   *
+   * @param chunk - The chunk to send
+   */
+  public sendBinaryChunk(chunk: BinaryChunk): void {
+    window.webkit?.messageHandlers?.pwakit?.postMessage(
+      JSON.stringify({ type: 'binary', ...chunk })
+    );
+  }
+
+  /**
+   * Posts a whole upload to the shell's custom scheme handler.
+   *
+   * @param url - The upload URL (`pwakit-binary://upload/<id>`)
+   * @param data - The bytes to upload
+   * @param signal - Aborts the upload
+   */
+  public async uploadBinary(url: string, data: Uint8Array, signal?: AbortSignal): Promise<void> {
+    const response = await fetch(url, { method: 'POST', body: data as BodyInit, signal });
+    if (!response.ok) {
+      throw new Error(`Upload to ${url} failed with status ${response.status}`);
+    }
+  }
+}
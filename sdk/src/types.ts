@@ -4,6 +4,8 @@
  * Type definitions for the JavaScript-to-Swift bridge communication protocol.
  */
 
+import type { BridgeInterceptor } from './interceptors';
+
 /**
  * A message from JavaScript to the native bridge.
  *
@@ -32,8 +34,18 @@ export interface BridgeMessage {
   action: string;
   /** Optional payload with action-specific data */
   payload?: unknown;
+  /** Whether the caller accepts partial (progress/chunk) responses */
+  stream?: boolean;
 }
 
+/**
+ * Kind of a bridge response.
+ *
+ * Streaming requests may receive any number of `progress` and `chunk`
+ * responses before the `final` one. A response without a kind is final.
+ */
+export type BridgeResponseKind = 'progress' | 'chunk' | 'final';
+
 /**
  * A response from the native bridge to JavaScript.
  *
@@ -56,7 +68,8 @@ export interface BridgeMessage {
  * const errorResponse: BridgeResponse = {
  *   id: '550e8400-e29b-41d4-a716-446655440000',
  *   success: false,
- *   error: 'Unknown action: invalid'
+ *   error: 'Unknown action: invalid',
+ *   code: 'E_UNKNOWN_ACTION'
  * };
  * ```
  */
@@ -69,6 +82,10 @@ export interface BridgeResponse<T = unknown> {
   data?: T;
   /** Error message on failure */
   error?: string;
+  /** Stable error code on failure (default: 'E_UNKNOWN') */
+  code?: BridgeErrorCode;
+  /** Response kind for streaming requests (default: 'final') */
+  kind?: BridgeResponseKind;
 }
 
 /**
@@ -102,6 +119,36 @@ export interface BridgeEvent<T = unknown> {
 export interface BridgeCallOptions {
   /** Timeout in milliseconds (default: 30000) */
   timeout?: number;
+  /** Aborts the call and tells native to stop working on it */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for `bridge.on()`.
+ */
+export interface BridgeListenerOptions {
+  /**
+   * Whether the listener receives events buffered before any listener for
+   * their type was attached, taking them out of the buffer (default: true).
+   *
+   * Listeners with `replay: false` only see new events, and events keep
+   * being buffered for the app's own listeners while they are the only ones.
+   */
+  replay?: boolean;
+}
+
+/**
+ * A single request in a `bridge.batch()` call.
+ */
+export interface BatchRequest {
+  /** The target module name */
+  module: string;
+  /** The action to perform */
+  action: string;
+  /** Action-specific payload data */
+  payload?: unknown;
+  /** Call options for this request (timeout, abort signal) */
+  options?: BridgeCallOptions;
 }
 
 /**
@@ -114,8 +161,176 @@ export interface PendingCallback<T = unknown> {
   reject: (error: Error) => void;
   /** Timeout handle for cleanup */
   timeoutId?: ReturnType<typeof setTimeout>;
+  /** Handler for partial responses (streaming requests only) */
+  onPartial?: (response: BridgeResponse) => void;
+}
+
+/**
+ * Receiver for messages delivered by a transport.
+ *
+ * The PWABridge hands a receiver to its transport when it initializes,
+ * and the transport forwards every response and event from native to it.
+ */
+export interface BridgeReceiver {
+  /** Handle a response correlated with an earlier BridgeMessage */
+  handleResponse: (response: BridgeResponse) => void;
+  /** Handle an unsolicited event from native */
+  handleEvent: (event: BridgeEvent) => void;
+}
+
+/**
+ * Transport used by the PWABridge to exchange messages with native.
+ *
+ * The default transport talks to `window.webkit.messageHandlers.pwakit`.
+ * Alternative transports (such as the in-memory MockTransport) allow the
+ * SDK to run in a regular browser or in unit tests.
+ */
+export interface BridgeTransport {
+  /** Whether the transport can currently deliver messages */
+  isAvailable(): boolean;
+  /** Installs the receiver for responses and events */
+  connect(receiver: BridgeReceiver): void;
+  /** Delivers a message to native */
+  send(message: BridgeMessage): void;
+  /** Tells native to stop work on an in-flight request (optional) */
+  cancel?(id: string): void;
+  /** Delivers several messages to native in a single post (optional) */
+  sendBatch?(messages: BridgeMessage[]): void;
+  /** Asks native for its handshake, answered with a response carrying `request.id` (optional) */
+  handshake?(request: BridgeHandshakeRequest): void;
+  /** Delivers one chunk of a `bridge.upload()` to native (optional) */
+  sendBinaryChunk?(chunk: BinaryChunk): void;
+  /** Posts a whole upload to the shell's custom scheme URL, rejecting on failure (optional) */
+  uploadBinary?(url: string, data: Uint8Array, signal?: AbortSignal): Promise<void>;
+}
+
+/**
+ * Binary data accepted by `bridge.upload()` and file-taking module methods.
+ */
+export type BinaryData = Blob | ArrayBuffer | ArrayBufferView;
+
+/**
+ * Reference to data uploaded with `bridge.upload()`.
+ *
+ * Sent in a payload in place of base64 data; native resolves it to the
+ * uploaded bytes.
+ */
+export interface BinaryReference {
+  /** The upload ID */
+  $binary: string;
+  /** Size in bytes */
+  size: number;
+  /** MIME type, if known */
+  type: string;
+}
+
+/**
+ * Binary data as sent in a payload: an upload reference, or base64 for
+ * shells that predate binary uploads.
+ */
+export type BinaryPayload = BinaryReference | string;
+
+/**
+ * One chunk of a chunked `bridge.upload()`.
+ */
+export interface BinaryChunk {
+  /** The upload ID */
+  id: string;
+  /** The chunk's position in the upload, starting at zero */
+  index: number;
+  /** The chunk's bytes, base64 encoded */
+  data: string;
+  /** Whether this is the last chunk */
+  final: boolean;
+}
+
+/**
+ * Feature flags from the `features` map in `pwa-config.json`.
+ *
+ * Each flag enables the native module of the same name.
+ */
+export type FeatureName =
+  | 'notifications'
+  | 'haptics'
+  | 'biometrics'
+  | 'secureStorage'
+  | 'healthkit'
+  | 'iap'
+  | 'share'
+  | 'print'
+  | 'clipboard'
+  | 'cameraPermission'
+  | 'microphonePermission'
+  | 'locationPermission';
+
+/**
+ * Which features are enabled in the running app.
+ */
+export type EnabledFeatures = Record<FeatureName, boolean>;
+
+/**
+ * Handshake sent to native when the bridge initializes.
+ */
+export interface BridgeHandshakeRequest {
+  /** ID of the response native answers with */
+  id: string;
+  /** The SDK's version */
+  sdkVersion: string;
+  /** The bridge protocol version spoken by the SDK */
+  protocolVersion: number;
 }
 
+/**
+ * Data native returns for the handshake made when the bridge initializes.
+ */
+export interface BridgeHandshake {
+  /** The bridge protocol version spoken by the shell */
+  protocolVersion: number;
+  /** The PWAKit version the shell was built with */
+  shellVersion: string;
+  /** The app's version */
+  appVersion: string;
+  /** The app's feature flags */
+  features: EnabledFeatures;
+  /** The supported actions of every registered module, keyed by module name */
+  modules: Record<string, string[]>;
+  /** How the shell accepts binary uploads (absent on shells without them) */
+  binaryTransfer?: {
+    /** Custom URL scheme uploads can be posted to, if registered */
+    scheme?: string | null;
+  };
+}
+
+/**
+ * What the SDK and the native shell agreed on during the handshake.
+ *
+ * Shells that predate the handshake leave the shell fields null.
+ */
+export interface BridgeReadyInfo {
+  /** The SDK's version */
+  sdkVersion: string;
+  /** The bridge protocol version spoken by the SDK */
+  protocolVersion: number;
+  /** The PWAKit version the shell was built with */
+  shellVersion: string | null;
+  /** The bridge protocol version spoken by the shell */
+  shellProtocolVersion: number | null;
+  /** The app's version */
+  appVersion: string | null;
+  /** The app's feature flags */
+  features: EnabledFeatures;
+  /** The supported actions of every registered module, keyed by module name */
+  modules: Record<string, string[]> | null;
+}
+
+/**
+ * How the bridge reacts when the installed native shell cannot serve a call.
+ *
+ * - `warn`: log a console warning once and send the call anyway
+ * - `error`: reject with BridgeIncompatibleError without sending it
+ */
+export type BridgeCompatibilityMode = 'warn' | 'error';
+
 /**
  * Configuration options for the PWABridge.
  */
@@ -124,6 +339,18 @@ export interface BridgeConfig {
   defaultTimeout?: number;
   /** Enable debug logging (default: false) */
   debug?: boolean;
+  /** Transport used to reach native (default: WebKitTransport) */
+  transport?: BridgeTransport;
+  /** Coalesce calls made in the same microtask into one batch message (default: false) */
+  coalesce?: boolean;
+  /** Interceptors run around every call and event, in order (default: none) */
+  interceptors?: BridgeInterceptor[];
+  /** Reaction to calls or protocol versions the native shell does not support (default: 'warn') */
+  compatibility?: BridgeCompatibilityMode;
+  /** Hold calls made while the bridge is unavailable until it becomes available (default: false) */
+  queueUntilAvailable?: boolean;
+  /** How long queued calls wait for the bridge in milliseconds (default: 10000) */
+  maxQueueWait?: number;
 }
 
 /**
@@ -159,8 +386,68 @@ declare global {
   }
 }
 
+/**
+ * Stable error codes carried by bridge errors.
+ *
+ * Codes starting with `E_` are sent by native in `BridgeResponse.code`
+ * (or returned by the SDK for failures detected in JavaScript) and never
+ * change between releases, unlike error messages.
+ *
+ * - `E_CANCELLED`: The user or the system cancelled the operation
+ * - `E_PERMISSION_DENIED`: The user denied (or has not granted) the required permission
+ * - `E_FEATURE_DISABLED`: The feature is disabled in the app's configuration
+ * - `E_UNKNOWN_MODULE`: No module is registered with the requested name
+ * - `E_UNKNOWN_ACTION`: The module does not support the requested action
+ * - `E_INVALID_PAYLOAD`: The payload is missing fields or has the wrong shape
+ * - `E_TIMEOUT`: The call timed out
+ * - `E_ABORTED`: The call was aborted via its AbortSignal
+ * - `E_UNAVAILABLE`: The native bridge is not available
+ * - `E_INCOMPATIBLE`: The installed native shell does not support the action or protocol
+ * - `E_UNKNOWN`: Any other failure
+ */
+export type BridgeErrorCode =
+  | 'E_CANCELLED'
+  | 'E_PERMISSION_DENIED'
+  | 'E_FEATURE_DISABLED'
+  | 'E_UNKNOWN_MODULE'
+  | 'E_UNKNOWN_ACTION'
+  | 'E_INVALID_PAYLOAD'
+  | 'E_TIMEOUT'
+  | 'E_ABORTED'
+  | 'E_UNAVAILABLE'
+  | 'E_INCOMPATIBLE'
+  | 'E_UNKNOWN';
+
+/**
+ * Request details attached to a bridge error.
+ */
+export interface BridgeErrorOptions {
+  /** The request ID the error relates to */
+  requestId?: string;
+  /** The module that caused the error */
+  module?: string;
+  /** The action that caused the error */
+  action?: string;
+  /** The stable error code (default: 'E_UNKNOWN') */
+  code?: BridgeErrorCode;
+}
+
 /**
  * Bridge error class for typed error handling.
+ *
+ * Check `code` (or use `instanceof` with a subclass) instead of matching
+ * on `message`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await push.subscribe();
+ * } catch (error) {
+ *   if (error instanceof PermissionDeniedError) {
+ *     showNotificationSettingsHint();
+ *   }
+ * }
+ * ```
  */
 export class BridgeError extends Error {
   /** The request ID this error relates to */
@@ -169,20 +456,16 @@ export class BridgeError extends Error {
   public readonly module?: string;
   /** The action that caused the error */
   public readonly action?: string;
+  /** The stable error code */
+  public readonly code: BridgeErrorCode;
 
-  constructor(
-    message: string,
-    options?: {
-      requestId?: string;
-      module?: string;
-      action?: string;
-    }
-  ) {
+  constructor(message: string, options?: BridgeErrorOptions) {
     super(message);
     this.name = 'BridgeError';
     this.requestId = options?.requestId;
     this.module = options?.module;
     this.action = options?.action;
+    this.code = options?.code ?? 'E_UNKNOWN';
   }
 }
 
@@ -196,24 +479,135 @@ export class BridgeTimeoutError extends BridgeError {
   constructor(
     message: string,
     timeout: number,
-    options?: {
-      requestId?: string;
-      module?: string;
-      action?: string;
-    }
+    options?: Omit<BridgeErrorOptions, 'code'>
   ) {
-    super(message, options);
+    super(message, { ...options, code: 'E_TIMEOUT' });
     this.name = 'BridgeTimeoutError';
     this.timeout = timeout;
   }
 }
 
+/**
+ * Error thrown when a bridge call is aborted via its AbortSignal.
+ */
+export class BridgeAbortError extends BridgeError {
+  /** The signal's abort reason, if any */
+  public readonly reason?: unknown;
+
+  constructor(
+    message: string,
+    reason?: unknown,
+    options?: Omit<BridgeErrorOptions, 'code'>
+  ) {
+    super(message, { ...options, code: 'E_ABORTED' });
+    this.name = 'BridgeAbortError';
+    this.reason = reason;
+  }
+}
+
 /**
  * Error thrown when the bridge is not available.
  */
 export class BridgeUnavailableError extends BridgeError {
   constructor(message: string = 'PWAKit bridge is not available') {
-    super(message);
+    super(message, { code: 'E_UNAVAILABLE' });
     this.name = 'BridgeUnavailableError';
   }
 }
+
+/**
+ * Error thrown when the installed native shell cannot serve a call: it
+ * speaks a different bridge protocol version or does not support the
+ * action. Only thrown with `compatibility: 'error'`; the default is to warn.
+ */
+export class BridgeIncompatibleError extends BridgeError {
+  constructor(message: string, options?: Omit<BridgeErrorOptions, 'code'>) {
+    super(message, { ...options, code: 'E_INCOMPATIBLE' });
+    this.name = 'BridgeIncompatibleError';
+  }
+}
+
+/**
+ * Error thrown when the user or the system cancelled a native operation
+ * (for example, dismissing a Face ID prompt or a purchase sheet).
+ */
+export class CancelledError extends BridgeError {
+  constructor(message: string, options?: Omit<BridgeErrorOptions, 'code'>) {
+    super(message, { ...options, code: 'E_CANCELLED' });
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Error thrown when a permission the action needs was denied.
+ */
+export class PermissionDeniedError extends BridgeError {
+  constructor(message: string, options?: Omit<BridgeErrorOptions, 'code'>) {
+    super(message, { ...options, code: 'E_PERMISSION_DENIED' });
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * Error thrown when the feature an action belongs to is disabled in the
+ * app's configuration.
+ */
+export class FeatureDisabledError extends BridgeError {
+  constructor(message: string, options?: Omit<BridgeErrorOptions, 'code'>) {
+    super(message, { ...options, code: 'E_FEATURE_DISABLED' });
+    this.name = 'FeatureDisabledError';
+  }
+}
+
+/**
+ * Error thrown when a module does not support the requested action.
+ */
+export class UnknownActionError extends BridgeError {
+  constructor(message: string, options?: Omit<BridgeErrorOptions, 'code'>) {
+    super(message, { ...options, code: 'E_UNKNOWN_ACTION' });
+    this.name = 'UnknownActionError';
+  }
+}
+
+/**
+ * Error thrown when native rejects an action's payload.
+ */
+export class InvalidPayloadError extends BridgeError {
+  constructor(message: string, options?: Omit<BridgeErrorOptions, 'code'>) {
+    super(message, { ...options, code: 'E_INVALID_PAYLOAD' });
+    this.name = 'InvalidPayloadError';
+  }
+}
+
+/**
+ * Creates the error subclass matching a code.
+ *
+ * Used to turn failed responses (and failure results returned by module
+ * wrappers) into typed errors. Codes without a dedicated subclass produce
+ * a plain BridgeError carrying the code.
+ *
+ * @param message - The error message
+ * @param code - The error code (default: 'E_UNKNOWN')
+ * @param options - Request details for the error
+ * @returns The error
+ */
+export function createBridgeError(
+  message: string,
+  code: BridgeErrorCode = 'E_UNKNOWN',
+  options?: Omit<BridgeErrorOptions, 'code'>
+): BridgeError {
+  switch (code) {
+    case 'E_CANCELLED':
+      return new CancelledError(message, options);
+    case 'E_PERMISSION_DENIED':
+      return new PermissionDeniedError(message, options);
+    case 'E_FEATURE_DISABLED':
+      return new FeatureDisabledError(message, options);
+    case 'E_UNKNOWN_ACTION':
+      return new UnknownActionError(message, options);
+    case 'E_INVALID_PAYLOAD':
+      return new InvalidPayloadError(message, options);
+    default:
+      return new BridgeError(message, { ...options, code });
+  }
+}
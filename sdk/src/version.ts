@@ -0,0 +1,17 @@
+/**
+ * PWAKit SDK Version
+ *
+ * Versions exchanged with the native shell during the bridge handshake.
+ */
+
+/** The SDK's version (kept in sync with package.json) */
+export const SDK_VERSION = '0.1.0';
+
+/**
+ * The bridge protocol version spoken by this SDK.
+ *
+ * Matches `BridgeHandshake.currentProtocolVersion` in the native shell.
+ * Incremented when the message, response or event formats change in a way
+ * the other side cannot handle.
+ */
+export const PROTOCOL_VERSION = 1;
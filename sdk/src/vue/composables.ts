@@ -0,0 +1,195 @@
+/**
+ * PWAKit Vue Composables
+ *
+ * Composables exposing the SDK's observable stores as Vue refs.
+ *
+ * Each composable subscribes for the lifetime of the calling component (or
+ * effect scope) and unsubscribes when it is disposed. During server
+ * rendering they return the stores' initial values without subscribing.
+ *
+ * @module vue/composables
+ */
+
+import { computed, getCurrentScope, onScopeDispose, shallowRef } from 'vue';
+import type { ComputedRef } from 'vue';
+import { stores } from '@pwa-kit/sdk';
+import type {
+  AppLifecycleState,
+  BiometricAvailability,
+  EntitlementInfo,
+  NetworkState,
+  PermissionName,
+  PermissionState,
+  PushSubscription,
+  ReadableStore,
+  ResourceState,
+  ResourceStore,
+} from '@pwa-kit/sdk';
+
+/**
+ * Refs shared by the composables that load a value from a module.
+ */
+export interface ResourceRefs {
+  /** Whether the value is being loaded */
+  loading: ComputedRef<boolean>;
+  /** The error from the last load, or null */
+  error: ComputedRef<Error | null>;
+  /** Whether the module can be used here, through native or a Web API fallback */
+  supported: ComputedRef<boolean>;
+  /** Loads the value again */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Result of `usePermission()`.
+ */
+export interface PermissionRefs extends ResourceRefs {
+  /** The current permission state, or null until loaded */
+  state: ComputedRef<PermissionState | null>;
+}
+
+/**
+ * Result of `usePushSubscription()`.
+ */
+export interface PushSubscriptionRefs extends ResourceRefs {
+  /** The current push subscription, or null if not subscribed */
+  subscription: ComputedRef<PushSubscription | null>;
+}
+
+/**
+ * Result of `useEntitlements()`.
+ */
+export interface EntitlementsRefs extends ResourceRefs {
+  /** The owned products, or null until loaded or outside the native app */
+  entitlements: ComputedRef<EntitlementInfo | null>;
+  /** Whether a product is among the loaded entitlements (reactive in templates) */
+  isOwned: (productId: string) => boolean;
+}
+
+/**
+ * Result of `useBiometrics()`.
+ */
+export interface BiometricsRefs extends ResourceRefs {
+  /** Biometric availability (unavailable outside the native app) */
+  availability: ComputedRef<BiometricAvailability>;
+}
+
+/**
+ * Exposes any SDK store as a read-only ref.
+ *
+ * @param store - The store to follow
+ * @returns A ref holding the store's current value
+ *
+ * @example
+ * ```typescript
+ * const network = useStore(stores.network());
+ * watch(() => network.value.online, (online) => online && sync());
+ * ```
+ */
+export function useStore<T>(store: ReadableStore<T>): ComputedRef<T> {
+  const current = shallowRef(store.get());
+
+  if (typeof window !== 'undefined') {
+    const unsubscribe = store.subscribe((value) => {
+      current.value = value;
+    });
+    if (getCurrentScope()) {
+      onScopeDispose(unsubscribe);
+    }
+  }
+
+  return computed(() => current.value);
+}
+
+function useResource<T>(store: ResourceStore<T>): ResourceRefs & { value: ComputedRef<T> } {
+  const state = useStore<ResourceState<T>>(store);
+
+  return {
+    value: computed(() => state.value.value),
+    loading: computed(() => state.value.loading),
+    error: computed(() => state.value.error),
+    supported: computed(() => state.value.supported),
+    refresh: () => store.refresh(),
+  };
+}
+
+/**
+ * Follows a permission's state.
+ *
+ * @param name - The permission name
+ * @returns The permission state ref
+ *
+ * @example
+ * ```typescript
+ * const { state, refresh } = usePermission('camera');
+ * await permissions.request({ name: 'camera' });
+ * await refresh();
+ * ```
+ */
+export function usePermission(name: PermissionName): PermissionRefs {
+  const { value, ...refs } = useResource(stores.permission(name));
+  return { ...refs, state: value };
+}
+
+/**
+ * Follows the push subscription.
+ *
+ * @returns The push subscription ref
+ */
+export function usePushSubscription(): PushSubscriptionRefs {
+  const { value, ...refs } = useResource(stores.pushSubscription());
+  return { ...refs, subscription: value };
+}
+
+/**
+ * Follows the user's StoreKit entitlements.
+ *
+ * @returns The entitlements ref and an `isOwned()` helper
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * const { isOwned } = useEntitlements();
+ * </script>
+ *
+ * <template>
+ *   <ProFeatures v-if="isOwned('com.example.pro')" />
+ * </template>
+ * ```
+ */
+export function useEntitlements(): EntitlementsRefs {
+  const { value, ...refs } = useResource(stores.entitlements());
+  return {
+    ...refs,
+    entitlements: value,
+    isOwned: (productId) => value.value?.ownedProductIds.includes(productId) ?? false,
+  };
+}
+
+/**
+ * Follows Face ID / Touch ID availability.
+ *
+ * @returns The biometric availability ref
+ */
+export function useBiometrics(): BiometricsRefs {
+  const { value, ...refs } = useResource(stores.biometrics());
+  return { ...refs, availability: value };
+}
+
+/**
+ * Follows whether the app is in the foreground or background.
+ *
+ * @returns The lifecycle state ref
+ */
+export function useLifecycle(): ComputedRef<AppLifecycleState> {
+  return useStore(stores.lifecycle());
+}
+
+/**
+ * Follows network connectivity.
+ *
+ * @returns The network state ref
+ */
+export function useNetwork(): ComputedRef<NetworkState> {
+  return useStore(stores.network());
+}
@@ -0,0 +1,42 @@
+/**
+ * PWAKit Vue Bindings
+ *
+ * Vue 3 composables for the PWAKit SDK, published as `@pwa-kit/sdk/vue`.
+ *
+ * The composables are built on the SDK's `stores` and import the SDK from
+ * `@pwa-kit/sdk`, so they share its bridge.
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * import { useNetwork, usePermission } from '@pwa-kit/sdk/vue';
+ *
+ * const network = useNetwork();
+ * const { state: camera } = usePermission('camera');
+ * </script>
+ *
+ * <template>
+ *   <OfflineBanner v-if="!network.online" />
+ *   <Scanner v-if="camera === 'granted'" />
+ * </template>
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+export {
+  useStore,
+  usePermission,
+  usePushSubscription,
+  useEntitlements,
+  useBiometrics,
+  useLifecycle,
+  useNetwork,
+} from './composables';
+export type {
+  ResourceRefs,
+  PermissionRefs,
+  PushSubscriptionRefs,
+  EntitlementsRefs,
+  BiometricsRefs,
+} from './composables';
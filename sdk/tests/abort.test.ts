@@ -0,0 +1,90 @@
+/**
+ * Tests for bridge call cancellation via AbortSignal
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { bridge, BridgeAbortError, BridgeTimeoutError } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import { WebKitTransport } from '../src/transport';
+import { biometrics } from '../src/ios/biometrics';
+import { healthKit } from '../src/ios/healthKit';
+import { share } from '../src/modules/share';
+
+describe('AbortSignal support', () => {
+  let mock: MockTransport;
+
+  /** Handler that never completes until its request is cancelled */
+  const hang = () => new Promise(() => {});
+
+  beforeEach(() => {
+    mock = new MockTransport();
+    bridge.setTransport(mock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    bridge.setTransport(new WebKitTransport());
+  });
+
+  it('rejects with BridgeAbortError and cancels native work', async () => {
+    mock.handle('biometrics', 'authenticate', hang);
+    const controller = new AbortController();
+
+    const result = biometrics.authenticate('Unlock', {}, { signal: controller.signal });
+    controller.abort('navigated away');
+
+    const error = await result.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(BridgeAbortError);
+    expect((error as BridgeAbortError).reason).toBe('navigated away');
+    expect((error as BridgeAbortError).module).toBe('biometrics');
+    expect(mock.cancelled).toEqual([mock.calls[0].id]);
+  });
+
+  it('does not send calls whose signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      share.share({ title: 'Hi' }, { signal: controller.signal })
+    ).rejects.toThrow(BridgeAbortError);
+    expect(mock.calls).toHaveLength(0);
+    expect(mock.cancelled).toHaveLength(0);
+  });
+
+  it('ignores aborts after the call has settled', async () => {
+    const controller = new AbortController();
+
+    await expect(
+      healthKit.isAvailable({ signal: controller.signal })
+    ).resolves.toMatchObject({ available: true });
+    controller.abort();
+
+    expect(mock.cancelled).toHaveLength(0);
+  });
+
+  it('tells native to stop when a call times out', async () => {
+    vi.useFakeTimers();
+    mock.handle('healthkit', 'querySteps', hang);
+
+    const result = healthKit.querySteps(
+      { startDate: '2024-01-01T00:00:00Z', endDate: '2024-12-31T00:00:00Z' },
+      { timeout: 1000 }
+    );
+    const assertion = expect(result).rejects.toThrow(BridgeTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+    expect(mock.cancelled).toEqual([mock.calls[0].id]);
+  });
+
+  it('fails streams with BridgeAbortError', async () => {
+    mock.handle('downloads', 'start', hang);
+    const controller = new AbortController();
+
+    const stream = bridge.stream('downloads', 'start', undefined, { signal: controller.signal });
+    controller.abort();
+
+    await expect(stream.result()).rejects.toThrow(BridgeAbortError);
+    expect(mock.cancelled).toEqual([stream.id]);
+  });
+});
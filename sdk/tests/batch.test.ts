@@ -0,0 +1,219 @@
+/**
+ * Tests for batched and coalesced bridge calls
+ */
+
+import { describe, it, expect, beforeEach, afterEach, expectTypeOf } from 'vitest';
+import {
+  bridge,
+  PWABridge,
+  BridgeAbortError,
+  BridgeError,
+  BridgeUnavailableError,
+} from '../src/bridge';
+import type { BridgeMessage, BridgeTransport } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import { WebKitTransport } from '../src/transport';
+import type { ActionResult } from '../src/contract';
+
+/** The calls a typical app makes at startup */
+const startupRequests = [
+  { module: 'platform', action: 'getInfo' },
+  { module: 'notifications', action: 'getPermissionState' },
+  { module: 'cameraPermission', action: 'checkPermission' },
+  { module: 'microphonePermission', action: 'checkPermission' },
+  { module: 'locationPermission', action: 'checkPermission' },
+  { module: 'biometrics', action: 'isAvailable' },
+  { module: 'iap', action: 'getEntitlements' },
+] as const;
+
+describe('bridge.batch', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+    bridge.setTransport(mock);
+  });
+
+  afterEach(() => {
+    bridge.setCoalescing(false);
+    bridge.setTransport(new WebKitTransport());
+  });
+
+  it('sends startup calls in one message instead of one each', async () => {
+    for (const { module, action } of startupRequests) {
+      await bridge.call<unknown>(module, action);
+    }
+    const individual = mock.postCount;
+
+    mock.reset();
+    await Promise.all(bridge.batch(startupRequests));
+
+    expect(individual).toBe(startupRequests.length);
+    expect(mock.postCount).toBe(1);
+    expect(mock.batches).toHaveLength(1);
+    expect(mock.batches[0].map((message) => message.action)).toEqual(
+      startupRequests.map((request) => request.action)
+    );
+  });
+
+  it('resolves each request with its own result', async () => {
+    mock.respond('helloWorld', 'greet', { message: 'Hello!' });
+
+    const [info, greeting, entitlements] = bridge.batch([
+      { module: 'platform', action: 'getInfo' },
+      { module: 'helloWorld', action: 'greet', payload: { name: 'Dev' } },
+      { module: 'iap', action: 'getEntitlements' },
+    ]);
+
+    expectTypeOf(info).toEqualTypeOf<Promise<ActionResult<'platform', 'getInfo'>>>();
+    expectTypeOf(greeting).toEqualTypeOf<Promise<unknown>>();
+    expectTypeOf(entitlements).toEqualTypeOf<Promise<ActionResult<'iap', 'getEntitlements'>>>();
+
+    expect((await info).platform).toBe('ios');
+    expect(await greeting).toEqual({ message: 'Hello!' });
+    expect((await entitlements).ownedProductIds).toEqual([]);
+    expect(mock.callsTo('helloWorld', 'greet')[0].payload).toEqual({ name: 'Dev' });
+  });
+
+  it('rejects only the failing request', async () => {
+    mock.fail('biometrics', 'isAvailable', 'Biometry unavailable');
+
+    const [info, biometrics] = bridge.batch([
+      { module: 'platform', action: 'getInfo' },
+      { module: 'biometrics', action: 'isAvailable' },
+    ]);
+
+    await expect(info).resolves.toMatchObject({ platform: 'ios' });
+    await expect(biometrics).rejects.toThrow('Biometry unavailable');
+  });
+
+  it('applies abort signals per request', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const [info, aborted] = bridge.batch([
+      { module: 'platform', action: 'getInfo' },
+      { module: 'iap', action: 'getEntitlements', options: { signal: controller.signal } },
+    ]);
+
+    await expect(aborted).rejects.toBeInstanceOf(BridgeAbortError);
+    await expect(info).resolves.toMatchObject({ platform: 'ios' });
+
+    // A single remaining request is sent on its own
+    expect(mock.batches).toHaveLength(0);
+    expect(mock.postCount).toBe(1);
+  });
+
+  it('rejects every request when the bridge is unavailable', async () => {
+    bridge.setTransport(new WebKitTransport());
+
+    const results = bridge.batch([
+      { module: 'platform', action: 'getInfo' },
+      { module: 'app', action: 'getVersion' },
+    ]);
+
+    for (const result of results) {
+      await expect(result).rejects.toBeInstanceOf(BridgeUnavailableError);
+    }
+  });
+
+  it('sends messages individually when the transport cannot batch', async () => {
+    const sent: BridgeMessage[] = [];
+    const transport: BridgeTransport = {
+      isAvailable: () => true,
+      connect: (receiver) => {
+        transport.send = (message) => {
+          sent.push(message);
+          queueMicrotask(() => receiver.handleResponse({ id: message.id, success: true, data: message.action }));
+        };
+      },
+      send: () => {},
+    };
+    const local = new PWABridge({ transport });
+
+    const results = await Promise.all(
+      local.batch([
+        { module: 'platform', action: 'getInfo' },
+        { module: 'app', action: 'getVersion' },
+      ])
+    );
+
+    expect(sent).toHaveLength(2);
+    expect(results).toEqual(['getInfo', 'getVersion']);
+  });
+
+  it('rejects requests when the batch cannot be sent', async () => {
+    mock.sendBatch = () => {
+      throw new Error('Handler missing');
+    };
+
+    const results = bridge.batch([
+      { module: 'platform', action: 'getInfo' },
+      { module: 'app', action: 'getVersion' },
+    ]);
+
+    for (const result of results) {
+      await expect(result).rejects.toThrow(BridgeError);
+      await expect(result).rejects.toThrow('Failed to send message: Handler missing');
+    }
+  });
+});
+
+describe('call coalescing', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+  });
+
+  afterEach(() => {
+    bridge.setCoalescing(false);
+    bridge.setTransport(new WebKitTransport());
+  });
+
+  it('is off by default', async () => {
+    bridge.setTransport(mock);
+
+    await Promise.all([bridge.call('platform', 'getInfo'), bridge.call('app', 'getVersion')]);
+
+    expect(mock.postCount).toBe(2);
+    expect(mock.batches).toHaveLength(0);
+  });
+
+  it('coalesces calls made in the same microtask', async () => {
+    const local = new PWABridge({ transport: mock, coalesce: true });
+
+    const results = await Promise.all(
+      startupRequests.map(({ module, action }) => local.call<unknown>(module, action))
+    );
+
+    expect(results).toHaveLength(startupRequests.length);
+    expect(mock.postCount).toBe(1);
+    expect(mock.batches[0]).toHaveLength(startupRequests.length);
+  });
+
+  it('sends calls from different microtasks separately', async () => {
+    bridge.setTransport(mock);
+    bridge.setCoalescing(true);
+
+    await bridge.call('platform', 'getInfo');
+    await bridge.call('app', 'getVersion');
+
+    expect(mock.postCount).toBe(2);
+    expect(mock.batches).toHaveLength(0);
+  });
+
+  it('drops calls aborted before the flush', async () => {
+    bridge.setTransport(mock);
+    bridge.setCoalescing(true);
+    const controller = new AbortController();
+
+    const info = bridge.call('platform', 'getInfo');
+    const version = bridge.call('app', 'getVersion', undefined, { signal: controller.signal });
+    controller.abort();
+
+    await expect(version).rejects.toBeInstanceOf(BridgeAbortError);
+    await expect(info).resolves.toMatchObject({ platform: 'ios' });
+    expect(mock.callsTo('app')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for binary uploads
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { bridge, BridgeAbortError, InvalidPayloadError } from '../src/bridge';
+import type { BinaryReference } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import { WebKitTransport } from '../src/transport';
+import { BINARY_CHUNK_SIZE, decodeBase64 } from '../src/binary';
+import { share } from '../src/modules/share';
+import { print } from '../src/modules/print';
+
+/** Bytes counting up from zero */
+function bytes(length: number): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from({ length }, (_, i) => i % 256);
+}
+
+/** Compares bytes without a slow element-by-element diff */
+function sameBytes(actual: Uint8Array | undefined, expected: Uint8Array): boolean {
+  return actual?.length === expected.length && actual.every((value, i) => value === expected[i]);
+}
+
+describe('bridge.upload', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+    bridge.setTransport(mock);
+  });
+
+  afterEach(() => {
+    bridge.setTransport(new WebKitTransport());
+  });
+
+  it('sends large data in ordered chunks', async () => {
+    const data = bytes(BINARY_CHUNK_SIZE * 2 + 10);
+
+    const reference = (await bridge.upload(
+      new Blob([data], { type: 'application/pdf' })
+    )) as BinaryReference;
+
+    expect(reference).toEqual({
+      $binary: expect.any(String),
+      size: data.length,
+      type: 'application/pdf',
+    });
+    expect(mock.binaryChunks.map(({ index, final }) => ({ index, final }))).toEqual([
+      { index: 0, final: false },
+      { index: 1, final: false },
+      { index: 2, final: true },
+    ]);
+    expect(sameBytes(mock.uploads.get(reference.$binary), data)).toBe(true);
+    expect(mock.calls).toHaveLength(0);
+  });
+
+  it('sends empty data as a single final chunk', async () => {
+    const reference = (await bridge.upload(new ArrayBuffer(0))) as BinaryReference;
+
+    expect(mock.binaryChunks).toEqual([{ id: reference.$binary, index: 0, data: '', final: true }]);
+    expect(mock.uploads.get(reference.$binary)).toEqual(new Uint8Array(0));
+  });
+
+  it('posts to the custom scheme when the shell reports one', async () => {
+    mock.binaryScheme = 'pwakit-binary';
+    bridge.setTransport(mock);
+    const data = bytes(1000);
+
+    const reference = (await bridge.upload(data)) as BinaryReference;
+
+    expect(mock.binaryChunks).toHaveLength(0);
+    expect(mock.uploads.get(reference.$binary)).toEqual(data);
+  });
+
+  it('falls back to chunks when the custom scheme upload fails', async () => {
+    mock.binaryScheme = 'pwakit-binary';
+    bridge.setTransport(mock);
+    vi.spyOn(mock, 'uploadBinary').mockRejectedValue(new TypeError('Load failed'));
+
+    const reference = (await bridge.upload(bytes(10))) as BinaryReference;
+
+    expect(mock.binaryChunks).toHaveLength(1);
+    expect(mock.uploads.get(reference.$binary)).toEqual(bytes(10));
+  });
+
+  it('sends base64 to shells without binary uploads', async () => {
+    mock.supportsBinaryTransfer = false;
+    bridge.setTransport(mock);
+
+    const payload = await bridge.upload(bytes(3));
+
+    expect(payload).toBe('AAEC');
+    expect(mock.binaryChunks).toHaveLength(0);
+  });
+
+  it('rejects aborted uploads without sending chunks', async () => {
+    const controller = new AbortController();
+    controller.abort('navigated away');
+
+    const error = await bridge
+      .upload(bytes(10), { signal: controller.signal })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(BridgeAbortError);
+    expect((error as BridgeAbortError).reason).toBe('navigated away');
+    expect(mock.binaryChunks).toHaveLength(0);
+  });
+});
+
+describe('binary module payloads', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+    bridge.setTransport(mock);
+  });
+
+  afterEach(() => {
+    bridge.setTransport(new WebKitTransport());
+  });
+
+  it('uploads shared files before the share request', async () => {
+    const file = new File([bytes(5)], 'photo.jpg', { type: 'image/jpeg' });
+
+    await expect(share.share({ files: [file] })).resolves.toMatchObject({ completed: true });
+
+    const [call] = mock.callsTo('share', 'share');
+    expect(call.payload).toEqual({
+      files: [
+        {
+          name: 'photo.jpg',
+          type: 'image/jpeg',
+          data: { $binary: mock.binaryChunks[0].id, size: 5, type: 'image/jpeg' },
+        },
+      ],
+    });
+    // The share handler claimed the upload
+    expect(mock.uploads.size).toBe(0);
+  });
+
+  it('keeps base64 file data as it is', async () => {
+    await share.share({ files: [{ name: 'a.txt', type: 'text/plain', data: 'aGk=' }] });
+
+    expect(mock.binaryChunks).toHaveLength(0);
+    expect(mock.callsTo('share', 'share')[0].payload).toMatchObject({
+      files: [{ name: 'a.txt', type: 'text/plain', data: 'aGk=' }],
+    });
+  });
+
+  it('prints uploaded files', async () => {
+    const pdf = new Blob([bytes(8)], { type: 'application/pdf' });
+
+    await expect(print.printFile(pdf, { jobName: 'Invoice' })).resolves.toEqual({ success: true });
+
+    const [call] = mock.callsTo('print', 'print');
+    expect(call.payload).toMatchObject({ jobName: 'Invoice', data: { size: 8 } });
+  });
+
+  it('rejects print data that was never uploaded', async () => {
+    await expect(
+      bridge.call('print', 'print', { data: { $binary: 'missing', size: 1, type: '' } })
+    ).rejects.toBeInstanceOf(InvalidPayloadError);
+  });
+});
+
+describe('base64 helpers', () => {
+  it('decodes what the upload encodes', async () => {
+    const mock = new MockTransport();
+    mock.supportsBinaryTransfer = false;
+    bridge.setTransport(mock);
+
+    const data = bytes(70000);
+    const payload = await bridge.upload(data);
+
+    expect(sameBytes(decodeBase64(payload as string), data)).toBe(true);
+    bridge.setTransport(new WebKitTransport());
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for biometric enrollment change detection and authentication options
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { bridge } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import { biometrics } from '../src/ios/biometrics';
+
+describe('biometrics', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+    bridge.setTransport(mock);
+  });
+
+  it('reports the enrollment state', async () => {
+    expect(await biometrics.getEnrollmentState()).toEqual({
+      state: 'enrollment-1',
+      biometryType: 'faceId',
+    });
+
+    mock.state.biometrics.available = false;
+
+    expect(await biometrics.getEnrollmentState()).toEqual({ state: null, biometryType: 'none' });
+  });
+
+  it('detects a changed enrollment', async () => {
+    const { state } = await biometrics.getEnrollmentState();
+
+    expect(await biometrics.hasEnrollmentChanged(state!)).toBe(false);
+
+    mock.state.biometrics.enrollment = 'enrollment-2';
+
+    expect(await biometrics.hasEnrollmentChanged(state!)).toBe(true);
+  });
+
+  it('treats losing biometrics as a change', async () => {
+    mock.state.biometrics.available = false;
+
+    expect(await biometrics.hasEnrollmentChanged('enrollment-1')).toBe(true);
+  });
+
+  it('compares a null state with null', async () => {
+    mock.state.biometrics.available = false;
+
+    expect(await biometrics.hasEnrollmentChanged(null)).toBe(false);
+
+    mock.state.biometrics.available = true;
+
+    expect(await biometrics.hasEnrollmentChanged(null)).toBe(true);
+  });
+
+  it('sends passcode fallback options with the prompt', async () => {
+    mock.state.biometrics.succeeds = false;
+
+    const result = await biometrics.authenticate('Confirm payment', {
+      allowPasscode: true,
+      fallbackTitle: 'Use Passcode',
+      cancelTitle: 'Not Now',
+    });
+
+    expect(result).toEqual({ success: true });
+    expect(mock.callsTo('biometrics', 'authenticate')[0].payload).toEqual({
+      reason: 'Confirm payment',
+      allowPasscode: true,
+      fallbackTitle: 'Use Passcode',
+      cancelTitle: 'Not Now',
+    });
+  });
+
+  it('keeps call options apart from the payload', async () => {
+    await biometrics.authenticate('Unlock', { allowPasscode: true }, { timeout: 1000 });
+
+    expect(JSON.stringify(mock.callsTo('biometrics', 'authenticate')[0].payload)).toBe(
+      '{"reason":"Unlock","allowPasscode":true}'
+    );
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for bridge error codes
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  bridge,
+  BridgeError,
+  BridgeTimeoutError,
+  CancelledError,
+  FeatureDisabledError,
+  InvalidPayloadError,
+  PermissionDeniedError,
+  UnknownActionError,
+  createBridgeError,
+} from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import { push } from '../src/modules/push';
+import { storeKit } from '../src/ios/storeKit';
+import { biometrics } from '../src/ios/biometrics';
+
+describe('createBridgeError', () => {
+  it('maps codes to typed errors', () => {
+    expect(createBridgeError('x', 'E_CANCELLED')).toBeInstanceOf(CancelledError);
+    expect(createBridgeError('x', 'E_PERMISSION_DENIED')).toBeInstanceOf(PermissionDeniedError);
+    expect(createBridgeError('x', 'E_FEATURE_DISABLED')).toBeInstanceOf(FeatureDisabledError);
+    expect(createBridgeError('x', 'E_UNKNOWN_ACTION')).toBeInstanceOf(UnknownActionError);
+    expect(createBridgeError('x', 'E_INVALID_PAYLOAD')).toBeInstanceOf(InvalidPayloadError);
+  });
+
+  it('keeps other codes on a plain BridgeError', () => {
+    const error = createBridgeError('Unknown module: widgets', 'E_UNKNOWN_MODULE', {
+      requestId: 'abc',
+    });
+
+    expect(error.constructor).toBe(BridgeError);
+    expect(error.code).toBe('E_UNKNOWN_MODULE');
+    expect(error.requestId).toBe('abc');
+    expect(createBridgeError('x').code).toBe('E_UNKNOWN');
+  });
+
+  it('gives client-side errors fixed codes', () => {
+    expect(new BridgeTimeoutError('Timed out', 10).code).toBe('E_TIMEOUT');
+    expect(new CancelledError('Cancelled').code).toBe('E_CANCELLED');
+  });
+});
+
+describe('error codes over the bridge', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+    bridge.setTransport(mock);
+  });
+
+  it('rejects with the typed error for the response code', async () => {
+    mock.fail('helloWorld', 'greet', 'Feature disabled: helloWorld', 'E_FEATURE_DISABLED');
+
+    const error = await bridge.call('helloWorld', 'greet').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(FeatureDisabledError);
+    expect(error).toMatchObject({ code: 'E_FEATURE_DISABLED' });
+  });
+
+  it('reports unknown actions with a code', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const error = await bridge
+      .call<unknown, string>('platform' as string, 'missing')
+      .catch((e: unknown) => e);
+    warn.mockRestore();
+
+    expect(error).toBeInstanceOf(UnknownActionError);
+    expect(error).toMatchObject({ message: 'Unknown action: missing' });
+  });
+
+  it('throws PermissionDeniedError when push permission is denied', async () => {
+    mock.state.notifications.permission = 'denied';
+
+    await expect(push.subscribe()).rejects.toBeInstanceOf(PermissionDeniedError);
+  });
+
+  it('resolves purchases with the failure code', async () => {
+    mock.respond('iap', 'purchase', { success: false, code: 'E_CANCELLED' });
+    expect(await storeKit.purchase('premium')).toMatchObject({
+      code: 'E_CANCELLED',
+      cancelled: true,
+    });
+
+    mock.respond('iap', 'purchase', { success: false, error: 'Failed' });
+    expect(await storeKit.purchase('premium')).toMatchObject({
+      code: 'E_UNKNOWN',
+      cancelled: false,
+    });
+  });
+
+  it('maps biometric failures to bridge codes', async () => {
+    mock.respond('biometrics', 'authenticate', {
+      success: false,
+      error: 'Cancelled',
+      errorCode: 'userCancel',
+    });
+    expect(await biometrics.authenticate('Unlock')).toEqual({
+      success: false,
+      error: 'Cancelled',
+      code: 'E_CANCELLED',
+      errorCode: 'userCancel',
+    });
+
+    mock.reset();
+    mock.state.biometrics.succeeds = false;
+    expect(await biometrics.authenticate('Unlock')).toMatchObject({
+      code: 'E_UNKNOWN',
+      errorCode: 'authenticationFailed',
+    });
+  });
+});
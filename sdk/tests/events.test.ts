@@ -0,0 +1,183 @@
+/**
+ * Tests for typed bridge events and replay of buffered events
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, expectTypeOf } from 'vitest';
+import { bridge } from '../src/bridge';
+import type { DeepLinkEventData, PushEventData } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import { WebKitTransport } from '../src/transport';
+
+describe('bridge events', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+    bridge.setTransport(mock);
+  });
+
+  afterEach(() => {
+    bridge.setTransport(new WebKitTransport());
+  });
+
+  it('types payloads of known events', () => {
+    const unsubscribePush = bridge.on('push', (data) => {
+      expectTypeOf(data).toEqualTypeOf<PushEventData>();
+    });
+    const unsubscribeDeepLink = bridge.on('deeplink', (data) => {
+      expectTypeOf(data).toEqualTypeOf<DeepLinkEventData>();
+    });
+    unsubscribePush();
+    unsubscribeDeepLink();
+  });
+
+  it('still accepts custom event types', () => {
+    const listener = vi.fn();
+    const unsubscribe = bridge.on<{ fileId: string }>('upload', listener);
+
+    mock.emit('upload', { fileId: 'a' });
+
+    expect(listener).toHaveBeenCalledWith({ fileId: 'a' });
+    unsubscribe();
+  });
+
+  it('replays events emitted before a listener is attached', async () => {
+    mock.emit('push', { type: 'tapped', title: 'Launch', timestamp: 1 });
+    mock.emit('lifecycle', { state: 'foreground' });
+
+    const listener = vi.fn();
+    const unsubscribe = bridge.on('push', listener);
+
+    // Replay is asynchronous
+    expect(listener).not.toHaveBeenCalled();
+    await Promise.resolve();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'tapped', title: 'Launch', timestamp: 1 });
+    unsubscribe();
+  });
+
+  it('replays buffered events only once', async () => {
+    mock.emit('deeplink', { url: 'https://app.example.com/a', source: 'universalLink' });
+
+    const first = vi.fn();
+    const second = vi.fn();
+    const unsubscribeFirst = bridge.on('deeplink', first);
+    const unsubscribeSecond = bridge.on('deeplink', second);
+    await Promise.resolve();
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).not.toHaveBeenCalled();
+    unsubscribeFirst();
+    unsubscribeSecond();
+  });
+
+  it('does not buffer events while a listener is attached', async () => {
+    const listener = vi.fn();
+    const unsubscribe = bridge.on('network', listener);
+    mock.emit('network', { online: false, connectionType: 'none', expensive: false, constrained: false });
+    unsubscribe();
+
+    const later = vi.fn();
+    const unsubscribeLater = bridge.on('network', later);
+    await Promise.resolve();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(later).not.toHaveBeenCalled();
+    unsubscribeLater();
+  });
+
+  it('buffers again once every listener is removed', async () => {
+    bridge.on('lifecycle', vi.fn())();
+    mock.emit('lifecycle', { state: 'background' });
+
+    const listener = vi.fn();
+    const unsubscribe = bridge.on('lifecycle', listener);
+    await Promise.resolve();
+
+    expect(listener).toHaveBeenCalledWith({ state: 'background' });
+    unsubscribe();
+  });
+
+  it('leaves buffered events for other listeners with replay: false', async () => {
+    mock.emit('deeplink', { url: 'https://app.example.com/a', source: 'universalLink' });
+
+    const observer = vi.fn();
+    const unsubscribeObserver = bridge.on('deeplink', observer, { replay: false });
+    await Promise.resolve();
+    mock.emit('deeplink', { url: 'https://app.example.com/b', source: 'universalLink' });
+
+    const listener = vi.fn();
+    const unsubscribe = bridge.on('deeplink', listener);
+    await Promise.resolve();
+
+    expect(observer).toHaveBeenCalledTimes(1);
+    expect(observer).toHaveBeenCalledWith({
+      url: 'https://app.example.com/b',
+      source: 'universalLink',
+    });
+    expect(listener.mock.calls.map(([data]) => data.url)).toEqual([
+      'https://app.example.com/a',
+      'https://app.example.com/b',
+    ]);
+    unsubscribeObserver();
+    unsubscribe();
+  });
+
+  it('delivers a buffered event to a once listener', async () => {
+    mock.emit('shortcut', { type: 'com.example.compose', title: 'Compose' });
+    mock.emit('shortcut', { type: 'com.example.search', title: 'Search' });
+
+    const listener = vi.fn();
+    bridge.once('shortcut', listener);
+    await Promise.resolve();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'com.example.compose', title: 'Compose' });
+  });
+
+  it('keeps the buffered events a once listener did not take', async () => {
+    mock.emit('shortcut', { type: 'com.example.compose', title: 'Compose' });
+    mock.emit('shortcut', { type: 'com.example.search', title: 'Search' });
+
+    bridge.once('shortcut', vi.fn());
+    await Promise.resolve();
+    const listener = vi.fn();
+    const unsubscribe = bridge.on('shortcut', listener);
+    await Promise.resolve();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'com.example.search', title: 'Search' });
+    unsubscribe();
+  });
+
+  it('keeps buffered events for a listener removed before replay', async () => {
+    mock.emit('deeplink', { url: 'https://app.example.com/a', source: 'universalLink' });
+
+    // A React StrictMode effect subscribes, cleans up and subscribes again
+    const removed = vi.fn();
+    bridge.on('deeplink', removed)();
+    const listener = vi.fn();
+    const unsubscribe = bridge.on('deeplink', listener);
+    await Promise.resolve();
+
+    expect(removed).not.toHaveBeenCalled();
+    expect(listener).toHaveBeenCalledWith({
+      url: 'https://app.example.com/a',
+      source: 'universalLink',
+    });
+    unsubscribe();
+  });
+
+  it('discards buffered events when the transport changes', async () => {
+    mock.emit('transaction', { transactionId: '1', productId: 'pro' });
+    bridge.setTransport(new MockTransport());
+
+    const listener = vi.fn();
+    const unsubscribe = bridge.on('transaction', listener);
+    await Promise.resolve();
+
+    expect(listener).not.toHaveBeenCalled();
+    unsubscribe();
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Tests for Web API fallbacks
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { bridge, BridgeUnavailableError } from '../src/bridge';
+import { WebKitTransport } from '../src/transport';
+import { MockTransport } from '../src/mock';
+import { capabilities } from '../src/capabilities';
+import { clipboard } from '../src/modules/clipboard';
+import { share } from '../src/modules/share';
+import { vibration } from '../src/modules/vibration';
+import { badging } from '../src/modules/badging';
+import { permissions } from '../src/modules/permissions';
+
+describe('Web API fallbacks', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    bridge.setTransport(new WebKitTransport());
+  });
+
+  describe('capabilities', () => {
+    it('reports none when neither backend exists', () => {
+      vi.stubGlobal('navigator', {});
+
+      expect(capabilities()).toEqual({
+        clipboard: 'none',
+        share: 'none',
+        vibration: 'none',
+        badging: 'none',
+        permissions: 'none',
+        push: 'none',
+      });
+    });
+
+    it('reports web for available browser APIs', () => {
+      vi.stubGlobal('navigator', {
+        clipboard: { writeText: vi.fn(), readText: vi.fn() },
+        share: vi.fn(),
+        vibrate: vi.fn(),
+      });
+
+      expect(capabilities()).toMatchObject({
+        clipboard: 'web',
+        share: 'web',
+        vibration: 'web',
+        badging: 'none',
+      });
+    });
+
+    it('prefers the native bridge', () => {
+      vi.stubGlobal('navigator', { share: vi.fn() });
+      bridge.setTransport(new MockTransport());
+
+      expect(capabilities().share).toBe('native');
+    });
+  });
+
+  describe('clipboard', () => {
+    it('falls back to navigator.clipboard', async () => {
+      const writeText = vi.fn().mockResolvedValue(undefined);
+      const readText = vi.fn().mockResolvedValue('');
+      vi.stubGlobal('navigator', { clipboard: { writeText, readText } });
+
+      await clipboard.writeText('Hello');
+
+      expect(writeText).toHaveBeenCalledWith('Hello');
+      expect(await clipboard.readText()).toBeNull();
+    });
+
+    it('checks each method, since some browsers can only write', async () => {
+      const writeText = vi.fn().mockResolvedValue(undefined);
+      vi.stubGlobal('navigator', { clipboard: { writeText } });
+
+      await clipboard.writeText('Hello');
+
+      expect(writeText).toHaveBeenCalledWith('Hello');
+      await expect(clipboard.readText()).rejects.toBeInstanceOf(BridgeUnavailableError);
+    });
+  });
+
+  describe('share', () => {
+    it('falls back to navigator.share', async () => {
+      const shareFn = vi.fn().mockResolvedValue(undefined);
+      vi.stubGlobal('navigator', { share: shareFn });
+
+      const result = await share.share({ title: 'Title', url: 'https://example.com' });
+
+      expect(result).toEqual({ completed: true });
+      expect(shareFn).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Title', url: 'https://example.com' })
+      );
+      expect(await share.canShare()).toBe(true);
+    });
+
+    it('converts base64 files to File objects', async () => {
+      const shareFn = vi.fn().mockResolvedValue(undefined);
+      vi.stubGlobal('navigator', { share: shareFn });
+
+      await share.share({
+        files: [{ name: 'hello.txt', type: 'text/plain', data: btoa('hello') }],
+      });
+
+      const file = shareFn.mock.calls[0][0].files[0] as File;
+      expect(file.name).toBe('hello.txt');
+      expect(file.type).toBe('text/plain');
+      expect(file.size).toBe(5);
+    });
+
+    it('maps a dismissed share sheet to completed: false', async () => {
+      vi.stubGlobal('navigator', {
+        share: vi.fn().mockRejectedValue(new DOMException('Cancelled', 'AbortError')),
+      });
+
+      expect(await share.share({ text: 'Hi' })).toEqual({ completed: false });
+    });
+
+    it('reports canShare false without any backend', async () => {
+      vi.stubGlobal('navigator', {});
+
+      expect(await share.canShare()).toBe(false);
+    });
+  });
+
+  describe('vibration', () => {
+    it('falls back to navigator.vibrate', () => {
+      const vibrate = vi.fn().mockReturnValue(true);
+      vi.stubGlobal('navigator', { vibrate });
+
+      expect(vibration.vibrate([100, 50, 100])).toBe(true);
+      expect(vibrate).toHaveBeenCalledWith([100, 50, 100]);
+    });
+
+    it('returns false without any backend', () => {
+      vi.stubGlobal('navigator', {});
+
+      expect(vibration.vibrate(200)).toBe(false);
+    });
+  });
+
+  describe('badging', () => {
+    it('falls back to navigator.setAppBadge', async () => {
+      const setAppBadge = vi.fn().mockResolvedValue(undefined);
+      const clearAppBadge = vi.fn().mockResolvedValue(undefined);
+      vi.stubGlobal('navigator', { setAppBadge, clearAppBadge });
+
+      await badging.setAppBadge(3);
+      await badging.clearAppBadge();
+
+      expect(setAppBadge).toHaveBeenCalledWith(3);
+      expect(clearAppBadge).toHaveBeenCalled();
+    });
+  });
+
+  describe('permissions', () => {
+    it('falls back to navigator.permissions.query', async () => {
+      const query = vi.fn().mockResolvedValue({ state: 'granted' });
+      vi.stubGlobal('navigator', { permissions: { query } });
+
+      const status = await permissions.query({ name: 'camera' });
+
+      expect(status).toEqual({ name: 'camera', state: 'granted' });
+      expect(query).toHaveBeenCalledWith({ name: 'camera' });
+    });
+
+    it('reports prompt for permissions the browser cannot query', async () => {
+      // Firefox rejects camera and microphone queries
+      const query = vi.fn().mockRejectedValue(new TypeError("'camera' is not a valid value"));
+      vi.stubGlobal('navigator', { permissions: { query } });
+
+      const status = await permissions.query({ name: 'camera' });
+
+      expect(status).toEqual({ name: 'camera', state: 'prompt' });
+    });
+
+    it('prompts via getUserMedia when requesting', async () => {
+      const stop = vi.fn();
+      const query = vi
+        .fn()
+        .mockResolvedValueOnce({ state: 'prompt' })
+        .mockResolvedValueOnce({ state: 'granted' });
+      const getUserMedia = vi.fn().mockResolvedValue({ getTracks: () => [{ stop }] });
+      vi.stubGlobal('navigator', { permissions: { query }, mediaDevices: { getUserMedia } });
+
+      const status = await permissions.request({ name: 'microphone' });
+
+      expect(status.state).toBe('granted');
+      expect(getUserMedia).toHaveBeenCalledWith({ audio: true });
+      expect(stop).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for feature flag awareness
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { bridge, PWABridge, FeatureDisabledError } from '../src/bridge';
+import type { BridgeTransport } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import { features } from '../src/features';
+import { healthKit } from '../src/ios/healthKit';
+
+describe('feature flags', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport({ state: { features: { healthkit: false, iap: false } } });
+    bridge.setTransport(mock);
+  });
+
+  it('reports the features from the handshake', async () => {
+    const enabled = await bridge.getEnabledFeatures();
+
+    expect(enabled).toMatchObject({ healthkit: false, iap: false, haptics: true });
+    expect(await features.isEnabled('iap')).toBe(false);
+    expect(await features.isEnabled('biometrics')).toBe(true);
+    expect(mock.calls).toHaveLength(0);
+  });
+
+  it('rejects calls to disabled modules without sending them', async () => {
+    await features.getEnabled();
+
+    await expect(
+      healthKit.querySteps({ startDate: '2026-01-01T00:00:00Z', endDate: '2026-01-02T00:00:00Z' })
+    ).rejects.toBeInstanceOf(FeatureDisabledError);
+    expect(mock.callsTo('healthkit')).toHaveLength(0);
+  });
+
+  it('holds calls made before the handshake completes, then fails them early', async () => {
+    mock = new MockTransport({ state: { features: { iap: false } } });
+    bridge.setTransport(mock);
+
+    const [entitlements, info] = bridge.batch([
+      { module: 'iap', action: 'getEntitlements' },
+      { module: 'platform', action: 'getInfo' },
+    ]);
+    const stream = bridge.stream('iap', 'getEntitlements');
+
+    await expect(entitlements).rejects.toBeInstanceOf(FeatureDisabledError);
+    await expect(stream.result()).rejects.toBeInstanceOf(FeatureDisabledError);
+    await expect(info).resolves.toMatchObject({ isNative: true });
+    expect(mock.callsTo('iap')).toHaveLength(0);
+  });
+
+  it('fails streams to disabled modules', async () => {
+    await features.getEnabled();
+
+    await expect(bridge.stream('healthkit', 'querySteps').result()).rejects.toBeInstanceOf(
+      FeatureDisabledError
+    );
+  });
+
+  it('leaves modules without a feature flag alone', async () => {
+    await features.getEnabled();
+
+    await expect(bridge.call('platform', 'getInfo')).resolves.toMatchObject({ isNative: true });
+  });
+});
+
+describe('feature flags without a handshake', () => {
+  it('reports every feature as disabled outside the native app', async () => {
+    const unavailable: BridgeTransport = {
+      isAvailable: () => false,
+      connect: () => {},
+      send: () => {},
+    };
+    const enabled = await new PWABridge({ transport: unavailable }).getEnabledFeatures();
+
+    expect(Object.values(enabled).every((value) => value === false)).toBe(true);
+  });
+
+  it('assumes every feature is enabled when the transport has no handshake', async () => {
+    const mock = new MockTransport();
+    const legacy: BridgeTransport = {
+      isAvailable: () => true,
+      connect: (receiver) => mock.connect(receiver),
+      send: (message) => mock.send(message),
+    };
+    const enabled = await new PWABridge({ transport: legacy }).getEnabledFeatures();
+
+    expect(Object.values(enabled).every((value) => value === true)).toBe(true);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tests for the version handshake
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { MockInstance } from 'vitest';
+import {
+  PWABridge,
+  BridgeIncompatibleError,
+  BridgeUnavailableError,
+  PROTOCOL_VERSION,
+  SDK_VERSION,
+} from '../src/bridge';
+import type { BridgeReceiver, BridgeTransport } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import pkg from '../package.json';
+
+/** A built-in module, widened so unsupported actions type-check */
+const CLIPBOARD: string = 'clipboard';
+
+describe('bridge.ready', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+  });
+
+  it('exchanges versions with native', async () => {
+    const bridge = new PWABridge({ transport: mock });
+
+    const info = await bridge.ready;
+
+    expect(mock.handshakes).toEqual([
+      { id: expect.any(String), sdkVersion: SDK_VERSION, protocolVersion: PROTOCOL_VERSION },
+    ]);
+    expect(info).toMatchObject({
+      sdkVersion: SDK_VERSION,
+      protocolVersion: PROTOCOL_VERSION,
+      shellVersion: mock.state.platform.pwaKitVersion,
+      shellProtocolVersion: PROTOCOL_VERSION,
+      appVersion: mock.state.platform.appVersion,
+    });
+    expect(info.modules?.platform).toEqual(['getInfo']);
+    expect(info.features.haptics).toBe(true);
+  });
+
+  it('keeps the SDK version in sync with package.json', () => {
+    expect(SDK_VERSION).toBe(pkg.version);
+  });
+
+  it('leaves disabled modules out of the supported actions', async () => {
+    mock = new MockTransport({ state: { features: { iap: false } } });
+
+    const { modules } = await new PWABridge({ transport: mock }).ready;
+
+    expect(modules).not.toHaveProperty('iap');
+  });
+
+  it('rejects outside the native app', async () => {
+    const unavailable: BridgeTransport = {
+      isAvailable: () => false,
+      connect: () => {},
+      send: () => {},
+    };
+
+    await expect(new PWABridge({ transport: unavailable }).ready).rejects.toBeInstanceOf(
+      BridgeUnavailableError
+    );
+  });
+
+  it('resolves without shell details when native has no handshake', async () => {
+    const legacy: BridgeTransport = {
+      isAvailable: () => true,
+      connect: (receiver) => mock.connect(receiver),
+      send: (message) => mock.send(message),
+    };
+
+    const info = await new PWABridge({ transport: legacy }).ready;
+
+    expect(info).toMatchObject({ shellVersion: null, shellProtocolVersion: null, modules: null });
+  });
+
+  describe('with a shell that does not answer the handshake', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('resolves as soon as native fails to parse the handshake', async () => {
+      let receiver: BridgeReceiver | null = null;
+      const legacy: BridgeTransport = {
+        isAvailable: () => true,
+        connect: (next) => {
+          receiver = next;
+        },
+        send: () => {},
+        handshake: () => {
+          receiver!.handleResponse({
+            id: 'parse-error',
+            success: false,
+            error: 'Invalid message format: missing module',
+            code: 'E_INVALID_PAYLOAD',
+          });
+        },
+      };
+
+      const ready = vi.fn();
+      void new PWABridge({ transport: legacy }).ready.then(ready);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(ready).toHaveBeenCalledWith(
+        expect.objectContaining({ shellVersion: null, modules: null })
+      );
+    });
+
+    it('sends calls to modules without a feature flag straight away', async () => {
+      const silent: BridgeTransport = {
+        isAvailable: () => true,
+        connect: (receiver) => mock.connect(receiver),
+        send: (message) => mock.send(message),
+        handshake: () => {},
+      };
+      const bridge = new PWABridge({ transport: silent });
+
+      const info = vi.fn();
+      void bridge.call('platform', 'getInfo').then(info);
+      void bridge.call('haptics', 'impact', { style: 'light' }).catch(() => {});
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(info).toHaveBeenCalled();
+      expect(mock.callsTo('haptics')).toHaveLength(0);
+
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(mock.callsTo('haptics')).toHaveLength(1);
+    });
+  });
+});
+
+describe('compatibility checks', () => {
+  let mock: MockTransport;
+  let warn: MockInstance<typeof console.warn>;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  it('warns once about unsupported actions and sends them anyway', async () => {
+    const bridge = new PWABridge({ transport: mock });
+    await bridge.ready;
+
+    await bridge.call(CLIPBOARD, 'paste').catch(() => {});
+    await bridge.call(CLIPBOARD, 'paste').catch(() => {});
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      '[PWABridge]',
+      'clipboard.paste is not supported by the installed PWAKit shell (0.1.0)'
+    );
+    expect(mock.callsTo('clipboard', 'paste')).toHaveLength(2);
+  });
+
+  it('rejects unsupported actions in error mode', async () => {
+    const bridge = new PWABridge({ transport: mock, compatibility: 'error' });
+    await bridge.ready;
+
+    await expect(bridge.call(CLIPBOARD, 'paste')).rejects.toBeInstanceOf(
+      BridgeIncompatibleError
+    );
+    await expect(bridge.call(CLIPBOARD, 'paste')).rejects.toMatchObject({
+      code: 'E_INCOMPATIBLE',
+    });
+    expect(mock.calls).toHaveLength(0);
+  });
+
+  it('leaves custom modules to native', async () => {
+    const bridge = new PWABridge({ transport: mock, compatibility: 'error' });
+    await bridge.ready;
+    mock.respond('helloWorld', 'greet', { message: 'Hello!' });
+
+    await expect(bridge.call('helloWorld', 'greet')).resolves.toEqual({ message: 'Hello!' });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('warns about a protocol version mismatch', async () => {
+    mock.protocolVersion = PROTOCOL_VERSION + 1;
+
+    await new PWABridge({ transport: mock }).ready;
+
+    expect(warn).toHaveBeenCalledWith(
+      '[PWABridge]',
+      expect.stringContaining(`speaks bridge protocol v${PROTOCOL_VERSION + 1}`)
+    );
+  });
+
+  it('rejects ready on a protocol version mismatch in error mode', async () => {
+    mock.protocolVersion = PROTOCOL_VERSION + 1;
+
+    await expect(
+      new PWABridge({ transport: mock, compatibility: 'error' }).ready
+    ).rejects.toBeInstanceOf(BridgeIncompatibleError);
+  });
+});
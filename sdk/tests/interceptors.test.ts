@@ -0,0 +1,315 @@
+/**
+ * Tests for bridge interceptors
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  PWABridge,
+  BridgeAbortError,
+  BridgeError,
+  BridgeTimeoutError,
+  createRetryInterceptor,
+  createTimingInterceptor,
+  createRedactionInterceptor,
+} from '../src/bridge';
+import type { BridgeCallContext, BridgeInterceptor } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+
+/**
+ * Makes a module action hang for the first `failures` calls, then respond.
+ */
+function hangThenRespond(mock: MockTransport, failures: number, data: unknown): void {
+  let calls = 0;
+  mock.handle('helloWorld', 'greet', () => {
+    calls += 1;
+    return calls > failures ? data : new Promise(() => {});
+  });
+}
+
+describe('bridge interceptors', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+  });
+
+  it('runs hooks in order around a call', async () => {
+    const hooks: string[] = [];
+    const interceptor = (name: string): BridgeInterceptor => ({
+      beforeSend: () => hooks.push(`${name}:beforeSend`),
+      afterResponse: () => hooks.push(`${name}:afterResponse`),
+    });
+    const bridge = new PWABridge({
+      transport: mock,
+      interceptors: [interceptor('first'), interceptor('second')],
+    });
+
+    await bridge.call('platform', 'getInfo');
+
+    expect(hooks).toEqual([
+      'first:beforeSend',
+      'second:beforeSend',
+      'first:afterResponse',
+      'second:afterResponse',
+    ]);
+  });
+
+  it('lets beforeSend rewrite the payload', async () => {
+    const bridge = new PWABridge({ transport: mock });
+    bridge.use({
+      beforeSend(context) {
+        context.payload = { ...(context.payload as object), traceId: 'abc' };
+      },
+    });
+
+    await bridge.call('haptics', 'impact', { style: 'light' });
+
+    expect(mock.callsTo('haptics', 'impact')[0].payload).toEqual({
+      style: 'light',
+      traceId: 'abc',
+    });
+  });
+
+  it('rejects without sending when beforeSend throws', async () => {
+    const bridge = new PWABridge({ transport: mock });
+    bridge.use({
+      beforeSend() {
+        throw new BridgeError('Blocked');
+      },
+    });
+
+    await expect(bridge.call('haptics', 'impact', { style: 'light' })).rejects.toThrow('Blocked');
+    expect(mock.calls).toHaveLength(0);
+  });
+
+  it('passes errors to onError and rejects with them', async () => {
+    mock.fail('helloWorld', 'greet', 'Native failure');
+    const errors: Error[] = [];
+    const bridge = new PWABridge({ transport: mock });
+    bridge.use({ onError: (_context, error) => void errors.push(error) });
+
+    await expect(bridge.call('helloWorld', 'greet')).rejects.toThrow('Native failure');
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(BridgeError);
+  });
+
+  it('passes native events to onEvent', () => {
+    const onEvent = vi.fn();
+    const bridge = new PWABridge({ transport: mock });
+    bridge.use({ onEvent });
+    bridge.use({
+      onEvent() {
+        throw new Error('Broken interceptor');
+      },
+    });
+
+    mock.emit('lifecycle', { state: 'background' });
+
+    expect(onEvent).toHaveBeenCalledWith({ type: 'lifecycle', data: { state: 'background' } });
+  });
+
+  it('stops running an interceptor once removed', async () => {
+    const beforeSend = vi.fn();
+    const bridge = new PWABridge({ transport: mock });
+    const remove = bridge.use({ beforeSend });
+
+    await bridge.call('platform', 'getInfo');
+    remove();
+    await bridge.call('platform', 'getInfo');
+
+    expect(beforeSend).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps batched calls in one message', async () => {
+    const bridge = new PWABridge({ transport: mock, interceptors: [{ beforeSend: () => {} }] });
+
+    await Promise.all(
+      bridge.batch([
+        { module: 'platform', action: 'getInfo' },
+        { module: 'iap', action: 'getEntitlements' },
+      ])
+    );
+
+    expect(mock.postCount).toBe(1);
+  });
+});
+
+describe('createRetryInterceptor', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+  });
+
+  it('retries timed out calls until they succeed', async () => {
+    hangThenRespond(mock, 2, { message: 'Hello!' });
+    const attempts: number[] = [];
+    const bridge = new PWABridge({
+      transport: mock,
+      interceptors: [
+        { beforeSend: (context) => void attempts.push(context.attempt) },
+        createRetryInterceptor({ baseDelay: 1, jitter: false }),
+      ],
+    });
+
+    const result = await bridge.call('helloWorld', 'greet', undefined, { timeout: 10 });
+
+    expect(result).toEqual({ message: 'Hello!' });
+    expect(attempts).toEqual([1, 2, 3]);
+    expect(mock.cancelled).toHaveLength(2);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    hangThenRespond(mock, Infinity, null);
+    const bridge = new PWABridge({
+      transport: mock,
+      interceptors: [createRetryInterceptor({ retries: 1, baseDelay: 1 })],
+    });
+
+    await expect(
+      bridge.call('helloWorld', 'greet', undefined, { timeout: 10 })
+    ).rejects.toBeInstanceOf(BridgeTimeoutError);
+    expect(mock.callsTo('helloWorld', 'greet')).toHaveLength(2);
+  });
+
+  it('does not retry native errors by default', async () => {
+    mock.fail('helloWorld', 'greet', 'Native failure');
+    const bridge = new PWABridge({ transport: mock, interceptors: [createRetryInterceptor()] });
+
+    await expect(bridge.call('helloWorld', 'greet')).rejects.toThrow('Native failure');
+    expect(mock.callsTo('helloWorld', 'greet')).toHaveLength(1);
+  });
+
+  it('backs off exponentially up to the maximum delay', () => {
+    const retry = createRetryInterceptor({
+      retries: 5,
+      baseDelay: 100,
+      maxDelay: 300,
+      jitter: false,
+    });
+    const error = new BridgeTimeoutError('Timed out', 10);
+    const delays = [1, 2, 3, 4].map(
+      (attempt) =>
+        retry.onError?.({ module: 'm', action: 'a', attempt } as BridgeCallContext, error)
+          ?.retryAfter
+    );
+
+    expect(delays).toEqual([100, 200, 300, 300]);
+  });
+
+  it('rejects when aborted during backoff', async () => {
+    hangThenRespond(mock, Infinity, null);
+    const controller = new AbortController();
+    const bridge = new PWABridge({
+      transport: mock,
+      interceptors: [
+        createRetryInterceptor({ baseDelay: 10_000, jitter: false }),
+        { onError: () => controller.abort() },
+      ],
+    });
+
+    await expect(
+      bridge.call('helloWorld', 'greet', undefined, { timeout: 10, signal: controller.signal })
+    ).rejects.toBeInstanceOf(BridgeAbortError);
+    expect(mock.callsTo('helloWorld', 'greet')).toHaveLength(1);
+  });
+});
+
+describe('createTimingInterceptor', () => {
+  it('aggregates latency per module action', async () => {
+    const mock = new MockTransport({ latency: 5 });
+    mock.fail('helloWorld', 'greet', 'Native failure');
+    const onMeasure = vi.fn();
+    const timing = createTimingInterceptor({ onMeasure });
+    const bridge = new PWABridge({ transport: mock, interceptors: [timing] });
+
+    await bridge.call('platform', 'getInfo');
+    await bridge.call('platform', 'getInfo');
+    await bridge.call('helloWorld', 'greet').catch(() => {});
+
+    const stats = timing.stats();
+    expect(stats).toHaveLength(2);
+    expect(stats[0]).toMatchObject({ module: 'platform', action: 'getInfo', count: 2, errors: 0 });
+    expect(stats[0].min).toBeGreaterThan(0);
+    expect(stats[0].average).toBeGreaterThanOrEqual(stats[0].min);
+    expect(stats[0].max).toBeGreaterThanOrEqual(stats[0].average);
+    expect(stats[1]).toMatchObject({ module: 'helloWorld', action: 'greet', count: 1, errors: 1 });
+    expect(onMeasure).toHaveBeenCalledTimes(3);
+    expect(onMeasure).toHaveBeenLastCalledWith(
+      expect.objectContaining({ module: 'helloWorld', attempt: 1, success: false })
+    );
+
+    timing.reset();
+    expect(timing.stats()).toEqual([]);
+  });
+});
+
+describe('createRedactionInterceptor', () => {
+  it('redacts secure storage values from logs but not from native', async () => {
+    const mock = new MockTransport();
+    const logs: unknown[][] = [];
+    const log = vi.spyOn(console, 'log').mockImplementation((...args) => void logs.push(args));
+    const logged: unknown[] = [];
+    const bridge = new PWABridge({
+      transport: mock,
+      debug: true,
+      interceptors: [
+        createRedactionInterceptor(),
+        { beforeSend: (context) => void logged.push(context.logPayload) },
+      ],
+    });
+
+    try {
+      await bridge.call('secureStorage', 'set', { key: 'token', value: 'secret' });
+    } finally {
+      log.mockRestore();
+    }
+
+    expect(logged).toEqual([{ key: 'token', value: '[REDACTED]' }]);
+    expect(logs).toContainEqual([
+      '[PWABridge]',
+      'Sending: secureStorage.set',
+      { key: 'token', value: '[REDACTED]' },
+    ]);
+    expect(JSON.stringify(logs)).not.toContain('secret');
+    expect(mock.callsTo('secureStorage', 'set')[0].payload).toEqual({
+      key: 'token',
+      value: 'secret',
+    });
+  });
+
+  it('redacts every value written in a secure storage batch', async () => {
+    const mock = new MockTransport();
+    const logged: unknown[] = [];
+    const bridge = new PWABridge({
+      transport: mock,
+      interceptors: [
+        createRedactionInterceptor(),
+        { beforeSend: (context) => void logged.push(context.logPayload) },
+      ],
+    });
+
+    await bridge.call('secureStorage', 'setMany', { entries: { token: 'secret', pin: '1234' } });
+
+    expect(logged).toEqual([{ entries: '[REDACTED]' }]);
+    expect(mock.callsTo('secureStorage', 'setMany')[0].payload).toEqual({
+      entries: { token: 'secret', pin: '1234' },
+    });
+  });
+
+  it('redacts configured fields with a custom replacement', async () => {
+    const logged: unknown[] = [];
+    const bridge = new PWABridge({
+      transport: new MockTransport(),
+      interceptors: [
+        createRedactionInterceptor({ fields: { 'haptics.impact': ['style'] }, replacement: '***' }),
+        { beforeSend: (context) => void logged.push(context.logPayload) },
+      ],
+    });
+
+    await bridge.call('haptics', 'impact', { style: 'light' });
+    await bridge.call('platform', 'getInfo');
+
+    expect(logged).toEqual([{ style: '***' }, undefined]);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Tests for the mock transport
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { bridge, PWABridge, BridgeError } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import { clipboard } from '../src/modules/clipboard';
+import { push } from '../src/modules/push';
+import { permissions } from '../src/modules/permissions';
+import { secureStorage } from '../src/ios/secureStorage';
+import { storeKit } from '../src/ios/storeKit';
+import { notifications } from '../src/ios/notifications';
+import { healthKit } from '../src/ios/healthKit';
+import { biometrics } from '../src/ios/biometrics';
+
+describe('MockTransport', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+    bridge.setTransport(mock);
+  });
+
+  it('makes the bridge available', () => {
+    expect(bridge.isAvailable()).toBe(true);
+  });
+
+  it('records every call', async () => {
+    await clipboard.writeText('Hello');
+
+    expect(mock.calls).toHaveLength(1);
+    expect(mock.callsTo('clipboard', 'write')[0].payload).toEqual({ text: 'Hello' });
+  });
+
+  it('round-trips clipboard text', async () => {
+    await clipboard.writeText('Copied');
+
+    expect(await clipboard.readText()).toBe('Copied');
+  });
+
+  it('stores values in the fake keychain', async () => {
+    await secureStorage.set('token', 'secret');
+
+    expect(mock.state.keychain.get('token')).toBe('secret');
+    expect(await secureStorage.get('token')).toBe('secret');
+
+    await secureStorage.delete('token');
+    expect(await secureStorage.has('token')).toBe(false);
+  });
+
+  it('maps native permission states', async () => {
+    expect((await permissions.query({ name: 'camera' })).state).toBe('prompt');
+    expect((await permissions.request({ name: 'geolocation' })).state).toBe('granted');
+    expect(mock.state.permissions.location).toBe('authorizedWhenInUse');
+  });
+
+  it('subscribes to push with a fake token', async () => {
+    const subscription = await push.subscribe();
+
+    expect(subscription.token).toMatch(/^[0-9a-f]{64}$/);
+    expect(await push.permissionState()).toBe('granted');
+  });
+
+  it('purchases from the fake StoreKit catalog', async () => {
+    const products = await storeKit.getProducts(['premium', 'missing']);
+    expect(products.map((p) => p.id)).toEqual(['premium']);
+
+    const result = await storeKit.purchase('premium');
+    expect(result.success).toBe(true);
+    expect(await storeKit.isOwned('premium')).toBe(true);
+  });
+
+  it('tracks scheduled notifications', async () => {
+    await notifications.schedule({
+      id: 'reminder',
+      title: 'Reminder',
+      trigger: { type: 'timeInterval', seconds: 60 },
+    });
+
+    const pending = await notifications.getPending();
+    expect(pending).toHaveLength(1);
+    expect(pending[0].id).toBe('reminder');
+    expect(pending[0].nextTriggerDate).toBeDefined();
+
+    await notifications.cancel('reminder');
+    expect(await notifications.getPending()).toEqual([]);
+  });
+
+  it('updates pending notifications and removes delivered ones', async () => {
+    await notifications.schedule({
+      id: 'water',
+      title: 'Drink water',
+      trigger: { type: 'timeInterval', seconds: 3600 },
+    });
+    await notifications.updatePending('water', { categoryId: 'reminder' });
+    mock.state.notifications.delivered.push(
+      { id: 'walk', title: 'Go for a walk', date: '2024-01-01T09:00:00Z' },
+      { id: 'stretch', title: 'Stretch', date: '2024-01-01T10:00:00Z' }
+    );
+
+    const [pending] = await notifications.getPending();
+    expect(pending).toMatchObject({ id: 'water', title: 'Drink water', categoryId: 'reminder' });
+    await expect(notifications.updatePending('missing', { title: 'x' })).rejects.toMatchObject({
+      code: 'E_INVALID_PAYLOAD',
+    });
+
+    expect((await notifications.getDelivered()).map(({ id }) => id)).toEqual(['stretch', 'walk']);
+    await notifications.removeDelivered(['walk']);
+    expect((await notifications.getDelivered()).map(({ id }) => id)).toEqual(['stretch']);
+  });
+
+  it('filters HealthKit samples by date range', async () => {
+    mock.state.health.samples.stepCount = [
+      { value: 100, unit: 'count', startDate: '2024-01-01T00:00:00Z', endDate: '2024-01-01T01:00:00Z' },
+      { value: 200, unit: 'count', startDate: '2024-01-02T00:00:00Z', endDate: '2024-01-02T01:00:00Z' },
+    ];
+
+    const samples = await healthKit.querySteps({
+      startDate: '2024-01-01T00:00:00Z',
+      endDate: '2024-01-02T00:00:00Z',
+    });
+
+    expect(samples.map((s) => s.value)).toEqual([100]);
+  });
+
+  it('accepts initial state overrides', async () => {
+    mock = new MockTransport({ state: { biometrics: { biometryType: 'touchId' } } });
+    bridge.setTransport(mock);
+
+    const availability = await biometrics.isAvailable();
+    expect(availability).toEqual({ available: true, biometryType: 'touchId' });
+  });
+
+  it('scripts responses', async () => {
+    mock.respond('iap', 'purchase', { success: false, cancelled: true });
+
+    const result = await storeKit.purchase('premium');
+    expect(result.cancelled).toBe(true);
+  });
+
+  it('scripts failures', async () => {
+    mock.fail('biometrics', 'authenticate', 'Biometry is locked out');
+
+    await expect(biometrics.authenticate('Unlock')).rejects.toThrow(
+      'Biometry is locked out'
+    );
+  });
+
+  it('supports custom modules', async () => {
+    mock.handle('helloWorld', 'greet', (payload) => ({
+      message: `Hello, ${String(payload.name)}!`,
+    }));
+
+    const result = await bridge.call<{ message: string }>('helloWorld', 'greet', {
+      name: 'Developer',
+    });
+    expect(result.message).toBe('Hello, Developer!');
+  });
+
+  it('rejects unknown modules and actions like native', async () => {
+    await expect(bridge.call('widgets', 'list')).rejects.toThrow('Unknown module: widgets');
+    await expect(bridge.call('clipboard', 'paste')).rejects.toBeInstanceOf(BridgeError);
+  });
+
+  it('emits events to bridge listeners', () => {
+    const listener = vi.fn();
+    const unsubscribe = bridge.on('push', listener);
+
+    mock.emit('push', { title: 'Hello' });
+
+    expect(listener).toHaveBeenCalledWith({ title: 'Hello' });
+    unsubscribe();
+  });
+
+  it('simulates latency', async () => {
+    vi.useFakeTimers();
+    const local = new PWABridge({ transport: new MockTransport({ latency: 500 }) });
+    const resolved = vi.fn();
+
+    // Calls wait for the handshake, which takes the same latency
+    await vi.advanceTimersByTimeAsync(500);
+
+    local.call('platform', 'getInfo').then(resolved);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(resolved).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(resolved).toHaveBeenCalled();
+    vi.useRealTimers();
+  });
+});
@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
-import { notifications } from '../src/ios/notifications';
+import { notifications, NotificationValidationError } from '../src/ios/notifications';
+import { InvalidPayloadError } from '../src/types';
 import { bridge } from '../src/bridge';
 
 // Mock the bridge module
@@ -18,9 +19,12 @@ describe('notifications module', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    // Dates below are validated against this time
+    vi.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z'), toFake: ['Date'] });
   });
 
   afterEach(() => {
+    vi.useRealTimers();
     vi.restoreAllMocks();
   });
 
@@ -45,7 +49,7 @@ describe('notifications module', () => {
         sound: undefined,
         data: undefined,
         trigger: { type: 'timeInterval', seconds: 60 },
-      });
+      }, undefined);
     });
 
     it('schedules a repeating time interval notification', async () => {
@@ -67,7 +71,7 @@ describe('notifications module', () => {
         sound: undefined,
         data: undefined,
         trigger: { type: 'timeInterval', seconds: 3600, repeats: true },
-      });
+      }, undefined);
     });
 
     it('schedules a date notification with Date object', async () => {
@@ -90,7 +94,7 @@ describe('notifications module', () => {
         sound: undefined,
         data: undefined,
         trigger: { type: 'date', date: meetingDate.toISOString() },
-      });
+      }, undefined);
     });
 
     it('schedules a date notification with ISO string', async () => {
@@ -112,7 +116,7 @@ describe('notifications module', () => {
         sound: undefined,
         data: undefined,
         trigger: { type: 'date', date: '2024-12-25T10:00:00Z' },
-      });
+      }, undefined);
     });
 
     it('schedules a calendar notification', async () => {
@@ -134,7 +138,7 @@ describe('notifications module', () => {
         sound: undefined,
         data: undefined,
         trigger: { type: 'calendar', hour: 9, minute: 0, repeats: true },
-      });
+      }, undefined);
     });
 
     it('includes all optional fields', async () => {
@@ -160,6 +164,27 @@ describe('notifications module', () => {
         sound: 'default',
         data: { key: 'value' },
         trigger: { type: 'timeInterval', seconds: 60 },
+      }, undefined);
+    });
+
+    it('includes categories, threads, interruption levels and attachments', async () => {
+      mockCall.mockResolvedValueOnce({ success: true, id: 'water' });
+
+      await notifications.schedule({
+        id: 'water',
+        title: 'Drink water',
+        trigger: { type: 'timeInterval', seconds: 3600 },
+        categoryId: 'reminder',
+        threadId: 'health',
+        interruptionLevel: 'timeSensitive',
+        attachments: [{ id: 'glass', url: '/images/glass.png' }],
+      });
+
+      expect(mockCall.mock.calls[0][2]).toMatchObject({
+        categoryId: 'reminder',
+        threadId: 'health',
+        interruptionLevel: 'timeSensitive',
+        attachments: [{ id: 'glass', url: new URL('/images/glass.png', location.href).href }],
       });
     });
 
@@ -176,6 +201,436 @@ describe('notifications module', () => {
     });
   });
 
+  describe('updatePending', () => {
+    it('sends the patch with its trigger serialized', async () => {
+      mockCall.mockResolvedValueOnce({ success: true, id: 'meeting' });
+      const date = new Date('2024-12-25T10:10:00Z');
+
+      await notifications.updatePending('meeting', {
+        title: 'Meeting (snoozed)',
+        trigger: { type: 'date', date },
+      });
+
+      expect(mockCall).toHaveBeenCalledWith('notifications', 'updatePending', {
+        id: 'meeting',
+        patch: {
+          title: 'Meeting (snoozed)',
+          trigger: { type: 'date', date: date.toISOString() },
+        },
+      }, undefined);
+    });
+
+    it('throws error when updating fails', async () => {
+      mockCall.mockResolvedValueOnce({ success: false, id: 'meeting' });
+
+      await expect(
+        notifications.updatePending('meeting', { title: 'Meeting' })
+      ).rejects.toThrow('Failed to update notification');
+    });
+  });
+
+  describe('setCategories', () => {
+    it('registers categories with their actions', async () => {
+      mockCall.mockResolvedValueOnce({ success: true });
+      const categories = [
+        {
+          id: 'reminder',
+          actions: [
+            { id: 'snooze', title: 'Snooze' },
+            { id: 'done', title: 'Done', destructive: true },
+            { id: 'note', title: 'Add note', textInput: { placeholder: 'Note' } },
+          ],
+        },
+      ];
+
+      await notifications.setCategories(categories);
+
+      expect(mockCall).toHaveBeenCalledWith('notifications', 'setCategories', {
+        categories,
+      }, undefined);
+    });
+  });
+
+  describe('delivered notifications', () => {
+    it('returns delivered notifications', async () => {
+      const delivered = [
+        { id: 'water', title: 'Drink water', threadId: 'health', date: '2024-12-25T10:00:00Z' },
+      ];
+      mockCall.mockResolvedValueOnce({ notifications: delivered });
+
+      expect(await notifications.getDelivered()).toEqual(delivered);
+      expect(mockCall).toHaveBeenCalledWith('notifications', 'getDelivered', undefined, undefined);
+    });
+
+    it('removes delivered notifications by ID', async () => {
+      mockCall.mockResolvedValueOnce({ success: true });
+
+      await notifications.removeDelivered(['water', 'walk']);
+
+      expect(mockCall).toHaveBeenCalledWith('notifications', 'removeDelivered', {
+        ids: ['water', 'walk'],
+      }, undefined);
+    });
+  });
+
+  describe('validateTrigger', () => {
+    /** Saturday 1 June 2024, 12:00 local time */
+    const now = new Date(2024, 5, 1, 12);
+
+    function validationError(trigger: Parameters<typeof notifications.validateTrigger>[0]) {
+      try {
+        notifications.validateTrigger(trigger, now);
+      } catch (error) {
+        return error;
+      }
+      return undefined;
+    }
+
+    it('rejects repeating intervals under a minute before calling native', async () => {
+      const error = await notifications
+        .schedule({
+          id: 'often',
+          title: 'Often',
+          trigger: { type: 'timeInterval', seconds: 30, repeats: true },
+        })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(NotificationValidationError);
+      expect(error).toBeInstanceOf(InvalidPayloadError);
+      expect(error).toMatchObject({
+        code: 'E_INVALID_PAYLOAD',
+        field: 'trigger.seconds',
+        value: 30,
+        message: 'Repeating time interval must be at least 60 seconds',
+      });
+      expect(mockCall).not.toHaveBeenCalled();
+    });
+
+    it('rejects non-positive intervals', () => {
+      expect(validationError({ type: 'timeInterval', seconds: 0 })).toMatchObject({
+        field: 'trigger.seconds',
+      });
+    });
+
+    it('rejects calendar components out of range', () => {
+      expect(validationError({ type: 'calendar', hour: 25 })).toMatchObject({
+        field: 'trigger.hour',
+        message: 'Hour must be between 0 and 23',
+      });
+      expect(validationError({ type: 'calendar', weekday: 0 })).toMatchObject({
+        field: 'trigger.weekday',
+      });
+      expect(validationError({ type: 'calendar', minute: 1.5 })).toMatchObject({
+        field: 'trigger.minute',
+      });
+    });
+
+    it('rejects dates in the past and invalid dates', () => {
+      expect(validationError({ type: 'date', date: new Date(2024, 4, 1) })).toMatchObject({
+        field: 'trigger.date',
+        message: 'Notification date must be in the future',
+      });
+      expect(validationError({ type: 'date', date: 'tomorrow' })).toMatchObject({
+        field: 'trigger.date',
+        message: 'Invalid date',
+      });
+    });
+
+    it('rejects calendar triggers that never fire', () => {
+      expect(validationError({ type: 'calendar', day: 31, month: 4 })).toMatchObject({
+        field: 'trigger.day',
+        message: 'Day 31 does not exist in month 4',
+      });
+      expect(validationError({ type: 'calendar', day: 29, month: 2, year: 2025 })).toMatchObject({
+        field: 'trigger.day',
+      });
+      expect(validationError({ type: 'calendar', year: 2023, hour: 9 })).toMatchObject({
+        field: 'trigger',
+        message: 'Calendar trigger never fires',
+      });
+      expect(validationError({ type: 'calendar' })).toMatchObject({ field: 'trigger' });
+      expect(validationError({ type: 'calendar', day: 29, month: 2 })).toBeUndefined();
+    });
+
+    it('validates patched triggers before calling native', async () => {
+      await expect(
+        notifications.updatePending('daily', { trigger: { type: 'calendar', minute: 60 } })
+      ).rejects.toMatchObject({ name: 'NotificationValidationError', field: 'trigger.minute' });
+      expect(mockCall).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('nextTriggerDate', () => {
+    /** Saturday 1 June 2024, 12:00 local time */
+    const from = new Date(2024, 5, 1, 12);
+
+    it('adds time intervals to the start time', () => {
+      expect(notifications.nextTriggerDate({ type: 'timeInterval', seconds: 90 }, from)).toEqual(
+        new Date(2024, 5, 1, 12, 1, 30)
+      );
+    });
+
+    it('returns dates in the future and null for past ones', () => {
+      const date = new Date(2024, 11, 25, 10);
+
+      expect(notifications.nextTriggerDate({ type: 'date', date: date.toISOString() }, from))
+        .toEqual(date);
+      expect(notifications.nextTriggerDate({ type: 'date', date: new Date(2024, 0, 1) }, from))
+        .toBeNull();
+    });
+
+    it('matches calendar components in local time', () => {
+      const next = (trigger: Omit<Parameters<typeof notifications.nextTriggerDate>[0], 'type'>) =>
+        notifications.nextTriggerDate({ type: 'calendar', ...trigger }, from);
+
+      expect(next({ hour: 9 })).toEqual(new Date(2024, 5, 2, 9));
+      expect(next({ hour: 18, minute: 30 })).toEqual(new Date(2024, 5, 1, 18, 30));
+      expect(next({ minute: 30 })).toEqual(new Date(2024, 5, 1, 12, 30));
+      expect(next({ weekday: 2, hour: 9 })).toEqual(new Date(2024, 5, 3, 9));
+      expect(next({ day: 1 })).toEqual(new Date(2024, 6, 1));
+      expect(next({ day: 29, month: 2 })).toEqual(new Date(2028, 1, 29));
+      expect(next({ year: 2023 })).toBeNull();
+    });
+
+    it('jumps to the year of a year-specific trigger, however far ahead', () => {
+      const newYear = { type: 'calendar', year: 2060, month: 1, day: 1, hour: 9 } as const;
+
+      expect(notifications.nextTriggerDate(newYear, from)).toEqual(new Date(2060, 0, 1, 9));
+      expect(
+        notifications.nextTriggerDate({ type: 'calendar', year: 2100, month: 2, weekday: 2 }, from)
+      ).toEqual(new Date(2100, 1, 1));
+      expect(() => notifications.validateTrigger(newYear, from)).not.toThrow();
+    });
+  });
+
+  describe('recurring notifications', () => {
+    let pending: string[];
+
+    beforeEach(() => {
+      localStorage.clear();
+      vi.setSystemTime(new Date(2024, 5, 1, 12)); // Saturday
+      pending = [];
+      mockCall.mockImplementation(async (_module: string, action: string, payload) => {
+        switch (action) {
+          case 'getPending':
+            return { notifications: pending.map((id) => ({ id, title: id, repeats: false })) };
+          case 'schedule':
+            pending.push(payload.id);
+            return { success: true, id: payload.id };
+          case 'cancel':
+            pending = pending.filter((id) => id !== payload.id);
+            return { success: true };
+        }
+      });
+    });
+
+    const scheduledTriggers = () =>
+      mockCall.mock.calls
+        .filter(([, action]) => action === 'schedule')
+        .map(([, , payload]) => payload.trigger);
+
+    it('expands a weekly rule into a repeating trigger per weekday', async () => {
+      const schedule = await notifications.scheduleRecurring({
+        id: 'standup',
+        title: 'Standup',
+        rrule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=8;BYMINUTE=30',
+      });
+
+      expect(schedule).toEqual({
+        id: 'standup',
+        notificationIds: ['standup#0', 'standup#1', 'standup#2', 'standup#3', 'standup#4'],
+        rolling: false,
+      });
+      expect(scheduledTriggers()).toEqual([2, 3, 4, 5, 6].map((weekday) => ({
+        type: 'calendar',
+        weekday,
+        hour: 8,
+        minute: 30,
+        repeats: true,
+      })));
+      expect(mockCall).toHaveBeenCalledWith('notifications', 'schedule', expect.objectContaining({
+        id: 'standup#0',
+        title: 'Standup',
+      }), undefined);
+      expect(localStorage.getItem('pwa-kit:notifications:recurring')).toBeNull();
+    });
+
+    it('drops the weekday from a daily rule', async () => {
+      await notifications.scheduleRecurring({
+        id: 'water',
+        title: 'Drink water',
+        rrule: 'RRULE:FREQ=DAILY;BYHOUR=10,16;BYMINUTE=0',
+      });
+
+      expect(scheduledTriggers()).toEqual([
+        { type: 'calendar', hour: 10, minute: 0, repeats: true },
+        { type: 'calendar', hour: 16, minute: 0, repeats: true },
+      ]);
+    });
+
+    it('schedules one-off occurrences for rules iOS cannot repeat', async () => {
+      const schedule = await notifications.scheduleRecurring({
+        id: 'payday',
+        title: 'Payday',
+        rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;BYHOUR=9;BYMINUTE=0;COUNT=3',
+        start: new Date(2024, 5, 7),
+      });
+
+      expect(schedule.rolling).toBe(true);
+      expect(schedule.notificationIds).toEqual([
+        'payday#20240607T090000',
+        'payday#20240621T090000',
+        'payday#20240705T090000',
+      ]);
+      expect(scheduledTriggers()[0]).toEqual({
+        type: 'calendar',
+        year: 2024,
+        month: 6,
+        day: 7,
+        hour: 9,
+        minute: 0,
+        second: 0,
+      });
+    });
+
+    it('expands ordinal weekdays', async () => {
+      const schedule = await notifications.scheduleRecurring({
+        id: 'review',
+        title: 'Monthly review',
+        rrule: 'FREQ=MONTHLY;BYDAY=-1FR;BYHOUR=17;BYMINUTE=0',
+        window: 3,
+      });
+
+      expect(schedule.notificationIds).toEqual([
+        'review#20240628T170000',
+        'review#20240726T170000',
+        'review#20240830T170000',
+      ]);
+    });
+
+    it('stays within the pending notification limit', async () => {
+      pending = Array.from({ length: 60 }, (_, i) => `other-${i}`);
+
+      const schedule = await notifications.scheduleRecurring({
+        id: 'hourly',
+        title: 'Hourly',
+        rrule: 'FREQ=DAILY;BYHOUR=8,9,10,11,12,13,14,15,16,17;BYMINUTE=0',
+      });
+
+      expect(schedule.rolling).toBe(true);
+      expect(schedule.notificationIds).toEqual([
+        'hourly#20240601T130000',
+        'hourly#20240601T140000',
+        'hourly#20240601T150000',
+        'hourly#20240601T160000',
+      ]);
+      expect(pending).toHaveLength(64);
+    });
+
+    it('rejects invalid rules before calling native', async () => {
+      const fieldOf = (rrule: string) =>
+        notifications.scheduleRecurring({ id: 'x', title: 'X', rrule }).catch((error) => {
+          expect(error).toBeInstanceOf(NotificationValidationError);
+          return (error as NotificationValidationError).field;
+        });
+
+      expect(await fieldOf('BYHOUR=9')).toBe('rrule.FREQ');
+      expect(await fieldOf('FREQ=HOURLY')).toBe('rrule.FREQ');
+      expect(await fieldOf('FREQ=DAILY;BYHOUR=24')).toBe('rrule.BYHOUR');
+      expect(await fieldOf('FREQ=WEEKLY;BYDAY=1MO')).toBe('rrule.BYDAY');
+      expect(await fieldOf('FREQ=DAILY;BYSETPOS=1')).toBe('rrule.BYSETPOS');
+      expect(await fieldOf('FREQ=DAILY;COUNT=2;UNTIL=20250101')).toBe('rrule');
+      expect(await fieldOf('FREQ=DAILY;UNTIL=20240101')).toBe('rrule');
+      expect(mockCall).not.toHaveBeenCalled();
+    });
+
+    it('replaces an earlier series with the same id', async () => {
+      await notifications.scheduleRecurring({ id: 'gym', title: 'Gym', rrule: 'FREQ=DAILY' });
+      await notifications.scheduleRecurring({
+        id: 'gym',
+        title: 'Gym',
+        rrule: 'FREQ=WEEKLY;BYDAY=MO,TH;BYHOUR=7;BYMINUTE=0',
+      });
+
+      expect(pending).toEqual(['gym#0', 'gym#1']);
+    });
+
+    it('tops up a rolling series on refresh', async () => {
+      await notifications.scheduleRecurring({
+        id: 'pill',
+        title: 'Pill',
+        rrule: 'FREQ=DAILY;INTERVAL=2;BYHOUR=9;BYMINUTE=0;COUNT=4',
+        start: new Date(2024, 5, 2),
+        window: 2,
+      });
+      expect(pending).toEqual(['pill#20240602T090000', 'pill#20240604T090000']);
+
+      // The first occurrence is delivered
+      vi.setSystemTime(new Date(2024, 5, 3, 12));
+      pending = ['pill#20240604T090000'];
+      await notifications.refreshRecurring();
+      expect(pending).toEqual(['pill#20240604T090000', 'pill#20240606T090000']);
+
+      // Every occurrence is delivered, so the series is forgotten
+      vi.setSystemTime(new Date(2024, 5, 9));
+      pending = [];
+      await notifications.refreshRecurring();
+      expect(pending).toEqual([]);
+      expect(localStorage.getItem('pwa-kit:notifications:recurring')).toBeNull();
+    });
+
+    it('steps through whole periods for large intervals', async () => {
+      const schedule = await notifications.scheduleRecurring({
+        id: 'jubilee',
+        title: 'Jubilee',
+        rrule: 'FREQ=YEARLY;INTERVAL=50;BYHOUR=9;BYMINUTE=0',
+        window: 3,
+      });
+
+      expect(schedule.notificationIds).toEqual([
+        'jubilee#20740601T090000',
+        'jubilee#21240601T090000',
+        'jubilee#21740601T090000',
+      ]);
+
+      const sparse = await notifications.scheduleRecurring({
+        id: 'sparse',
+        title: 'Sparse',
+        rrule: 'FREQ=DAILY;INTERVAL=9999;BYHOUR=9;BYMINUTE=0',
+        start: new Date(2024, 5, 2),
+        window: 2,
+      });
+
+      expect(sparse.notificationIds).toEqual(['sparse#20240602T090000', 'sparse#20511018T090000']);
+    });
+
+    it('ends a series after year 9999', async () => {
+      const schedule = await notifications.scheduleRecurring({
+        id: 'millennium',
+        title: 'Millennium',
+        rrule: 'FREQ=YEARLY;INTERVAL=5000;BYHOUR=9;BYMINUTE=0',
+        window: 3,
+      });
+
+      expect(schedule.notificationIds).toEqual(['millennium#70240601T090000']);
+    });
+
+    it('cancels a whole series by id', async () => {
+      pending = ['other'];
+      await notifications.scheduleRecurring({
+        id: 'quarterly',
+        title: 'Quarterly report',
+        rrule: 'FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=1;BYHOUR=9;BYMINUTE=0',
+      });
+      expect(pending).toHaveLength(17);
+
+      await notifications.cancelRecurring('quarterly');
+
+      expect(pending).toEqual(['other']);
+      expect(localStorage.getItem('pwa-kit:notifications:recurring')).toBeNull();
+    });
+  });
+
   describe('cancel', () => {
     it('cancels a notification by ID', async () => {
       mockCall.mockResolvedValueOnce({ success: true });
@@ -184,7 +639,7 @@ describe('notifications module', () => {
 
       expect(mockCall).toHaveBeenCalledWith('notifications', 'cancel', {
         id: 'test-id',
-      });
+      }, undefined);
     });
   });
 
@@ -194,7 +649,19 @@ describe('notifications module', () => {
 
       await notifications.cancelAll();
 
-      expect(mockCall).toHaveBeenCalledWith('notifications', 'cancelAll');
+      expect(mockCall).toHaveBeenCalledWith('notifications', 'cancelAll', undefined, undefined);
+    });
+
+    it('forwards call options', async () => {
+      mockCall.mockResolvedValueOnce({ success: true });
+      const controller = new AbortController();
+
+      await notifications.cancelAll({ signal: controller.signal, timeout: 500 });
+
+      expect(mockCall).toHaveBeenCalledWith('notifications', 'cancelAll', undefined, {
+        signal: controller.signal,
+        timeout: 500,
+      });
     });
   });
 
@@ -205,7 +672,7 @@ describe('notifications module', () => {
       const pending = await notifications.getPending();
 
       expect(pending).toEqual([]);
-      expect(mockCall).toHaveBeenCalledWith('notifications', 'getPending');
+      expect(mockCall).toHaveBeenCalledWith('notifications', 'getPending', undefined, undefined);
     });
 
     it('returns pending notifications', async () => {
@@ -0,0 +1,291 @@
+/**
+ * Tests for push subscriptions, messages and server registration
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+import { bridge } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import { push, PushRegistrationError } from '../src/modules/push';
+
+/** Lets pending bridge responses and fetches run */
+function settle(ms = 0): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** A fetch that only settles by failing once its request is aborted */
+function hangingFetch(_url: string, init: RequestInit): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    init.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  });
+}
+
+describe('push', () => {
+  let mock: MockTransport;
+  let fetchMock: Mock;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+    bridge.setTransport(mock);
+    fetchMock = vi.fn(async () => new Response(null, { status: 201 }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /** The JSON bodies posted so far */
+  const postedBodies = () =>
+    fetchMock.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string));
+
+  describe('subscriptions', () => {
+    it('includes the details a server needs to send pushes', async () => {
+      const subscription = await push.subscribe();
+
+      expect(subscription).toEqual({
+        token: mock.state.notifications.token,
+        endpoint: `apns://${mock.state.notifications.token}`,
+        environment: 'sandbox',
+        bundleId: 'com.example.app',
+        deviceId: mock.state.notifications.registration.deviceId,
+        installationId: mock.state.notifications.registration.installationId,
+      });
+      expect(await push.getSubscription()).toEqual(subscription);
+    });
+
+    it('leaves out details an older shell does not send', async () => {
+      mock.respond('notifications', 'getToken', { token: 'abc123' });
+
+      expect(await push.getSubscription()).toEqual({ token: 'abc123', endpoint: 'apns://abc123' });
+    });
+  });
+
+  describe('messages', () => {
+    const message = {
+      title: 'New message',
+      body: 'Hi there',
+      tag: 'conversation-42',
+      actions: [{ action: 'reply', title: 'Reply' }],
+      data: { url: '/messages/42' },
+    };
+
+    it('delivers converted Web Push messages in the service worker shape', () => {
+      const listener = vi.fn();
+      const stop = push.onMessage(listener);
+
+      mock.emit('push', {
+        type: 'tapped',
+        title: 'New message',
+        body: 'Hi there',
+        userInfo: { webpush: message },
+        timestamp: 1_700_000_000,
+      });
+      stop();
+      mock.emit('push', { type: 'received', title: 'Ignored', timestamp: 1_700_000_001 });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      const [{ type, data, notification }] = listener.mock.calls[0];
+      expect(type).toBe('tapped');
+      expect(data.json()).toEqual(message);
+      expect(data.text()).toBe(JSON.stringify(message));
+      expect(new TextDecoder().decode(data.arrayBuffer())).toBe(JSON.stringify(message));
+      expect(notification).toEqual({
+        title: 'New message',
+        options: {
+          body: 'Hi there',
+          tag: 'conversation-42',
+          actions: [{ action: 'reply', title: 'Reply' }],
+          data: { url: '/messages/42' },
+        },
+      });
+    });
+
+    it('unwraps declarative Web Push messages', () => {
+      const declarative = {
+        web_push: 8030,
+        notification: { title: 'Sale', navigate: 'https://shop.example.com/sale' },
+      };
+
+      const { data, notification } = push.toMessage({
+        type: 'received',
+        title: 'Sale',
+        userInfo: { webpush: declarative },
+        timestamp: 1_700_000_000,
+      });
+
+      expect(data.json()).toEqual(declarative);
+      expect(notification).toEqual({
+        title: 'Sale',
+        options: { navigate: 'https://shop.example.com/sale' },
+      });
+    });
+
+    it('maps other APNs notifications from their alert and custom data', () => {
+      const { data, notification } = push.toMessage({
+        type: 'received',
+        title: 'Order shipped',
+        body: 'Arriving tomorrow',
+        userInfo: { orderId: 42 },
+        timestamp: 1_700_000_000,
+      });
+
+      expect(data.json()).toEqual({ orderId: 42 });
+      expect(notification).toEqual({
+        title: 'Order shipped',
+        options: { body: 'Arriving tomorrow', data: { orderId: 42 } },
+      });
+    });
+  });
+
+  describe('registerWith', () => {
+    it('posts the subscription with the given headers', async () => {
+      const { subscription, stop } = await push.registerWith('https://api.example.com/devices', {
+        headers: { Authorization: 'Bearer secret' },
+      });
+
+      expect(fetchMock).toHaveBeenCalledWith('https://api.example.com/devices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret' },
+        body: JSON.stringify(subscription),
+        signal: expect.any(AbortSignal),
+      });
+      expect(mock.callsTo('notifications', 'subscribe')).toHaveLength(1);
+      stop();
+    });
+
+    it('uses an existing subscription without subscribing again', async () => {
+      mock.state.notifications.token = 'existing-token';
+
+      const { subscription, stop } = await push.registerWith('/devices');
+
+      expect(subscription.token).toBe('existing-token');
+      expect(mock.callsTo('notifications', 'subscribe')).toHaveLength(0);
+      stop();
+    });
+
+    it('posts a token that arrives as an event while subscribing once', async () => {
+      const registration = mock.state.notifications.registration;
+      mock.handle('notifications', 'subscribe', () => {
+        mock.emit('pushsubscriptionchange', { token: 'first-token', ...registration });
+        return { success: true, token: 'first-token', ...registration };
+      });
+
+      const { subscription, stop } = await push.registerWith('/devices');
+
+      expect(subscription.token).toBe('first-token');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(postedBodies()[0]).toMatchObject({ token: 'first-token' });
+      stop();
+    });
+
+    it('retries network errors and server errors', async () => {
+      fetchMock
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(new Response(null, { status: 503 }));
+
+      const { stop } = await push.registerWith('/devices', { baseDelay: 0 });
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      stop();
+    });
+
+    it('retries attempts that time out', async () => {
+      fetchMock.mockImplementationOnce(hangingFetch);
+
+      const { stop } = await push.registerWith('/devices', { timeout: 10, baseDelay: 0 });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect((fetchMock.mock.calls[0][1] as RequestInit).signal!.aborted).toBe(true);
+      stop();
+
+      fetchMock.mockClear();
+      fetchMock.mockImplementation(hangingFetch);
+      await expect(
+        push.registerWith('/devices', { timeout: 10, retries: 1, baseDelay: 0 })
+      ).rejects.toThrow('Push registration timed out after 10ms');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('cancels a re-post in flight or waiting to retry when stopped', async () => {
+      const onError = vi.fn();
+      const { stop } = await push.registerWith('/devices', { onError, baseDelay: 20 });
+      const registration = mock.state.notifications.registration;
+
+      fetchMock.mockImplementationOnce(hangingFetch);
+      mock.emit('pushsubscriptionchange', { token: 'rotated-token', ...registration });
+      await settle();
+      const { signal } = fetchMock.mock.calls[1][1] as RequestInit;
+      fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+
+      stop();
+      await settle(50);
+
+      expect(signal!.aborted).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('cancels the backoff before a retry when stopped', async () => {
+      const onError = vi.fn();
+      const { stop } = await push.registerWith('/devices', { onError, baseDelay: 20 });
+      const registration = mock.state.notifications.registration;
+
+      fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+      mock.emit('pushsubscriptionchange', { token: 'rotated-token', ...registration });
+      await settle();
+      stop();
+      await settle(50);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('gives up when the server rejects the subscription or retries run out', async () => {
+      fetchMock.mockResolvedValueOnce(new Response(null, { status: 401 }));
+
+      const rejected = await push.registerWith('/devices').catch((error) => error);
+
+      expect(rejected).toBeInstanceOf(PushRegistrationError);
+      expect(rejected.status).toBe(401);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      fetchMock.mockClear();
+      fetchMock.mockResolvedValue(new Response(null, { status: 500 }));
+
+      await expect(push.registerWith('/devices', { retries: 2, baseDelay: 0 })).rejects.toThrow(
+        'Push registration failed with status 500'
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('posts again when the token rotates, until stopped', async () => {
+      const onError = vi.fn();
+      const { subscription, stop } = await push.registerWith('/devices', { onError });
+      const registration = mock.state.notifications.registration;
+
+      mock.emit('pushsubscriptionchange', {
+        token: 'rotated-token',
+        oldToken: subscription.token,
+        ...registration,
+      });
+      await settle();
+
+      expect(postedBodies()[1]).toEqual({
+        token: 'rotated-token',
+        endpoint: 'apns://rotated-token',
+        oldToken: subscription.token,
+        ...registration,
+      });
+
+      fetchMock.mockResolvedValueOnce(new Response(null, { status: 400 }));
+      mock.emit('pushsubscriptionchange', { token: 'next-token', ...registration });
+      await settle();
+      expect(onError).toHaveBeenCalledWith(expect.any(PushRegistrationError));
+
+      stop();
+      mock.emit('pushsubscriptionchange', { token: 'ignored-token', ...registration });
+      await settle();
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+  });
+});
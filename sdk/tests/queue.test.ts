@@ -0,0 +1,97 @@
+/**
+ * Tests for queueing calls until the bridge is available
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PWABridge, BridgeAbortError, BridgeUnavailableError } from '../src/bridge';
+import type { BridgeTransport } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+
+describe('queue mode', () => {
+  let mock: MockTransport;
+  let available: boolean;
+  let transport: BridgeTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+    available = false;
+    transport = {
+      isAvailable: () => available,
+      connect: (receiver) => mock.connect(receiver),
+      send: (message) => mock.send(message),
+    };
+  });
+
+  it('rejects immediately when queueing is off', async () => {
+    const bridge = new PWABridge({ transport });
+
+    await expect(bridge.call('platform', 'getInfo')).rejects.toBeInstanceOf(
+      BridgeUnavailableError
+    );
+  });
+
+  it('holds calls until the bridge becomes available', async () => {
+    const bridge = new PWABridge({ transport, queueUntilAvailable: true });
+
+    const info = bridge.call('platform', 'getInfo');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(mock.calls).toHaveLength(0);
+
+    available = true;
+
+    await expect(info).resolves.toMatchObject({ isNative: true });
+    expect(mock.callsTo('platform', 'getInfo')).toHaveLength(1);
+  });
+
+  it('sends queued calls as soon as a transport is set', async () => {
+    const bridge = new PWABridge({ transport });
+    bridge.setQueueing(true);
+
+    const info = bridge.call('platform', 'getInfo');
+    bridge.setTransport(mock);
+
+    await expect(info).resolves.toMatchObject({ isNative: true });
+  });
+
+  it('rejects queued calls after the max wait', async () => {
+    const bridge = new PWABridge({ transport, queueUntilAvailable: true, maxQueueWait: 30 });
+
+    await expect(bridge.call('platform', 'getInfo')).rejects.toThrow(
+      'PWAKit bridge did not become available within 30ms'
+    );
+    expect(mock.calls).toHaveLength(0);
+  });
+
+  it('rejects queued calls that are aborted', async () => {
+    const bridge = new PWABridge({ transport, queueUntilAvailable: true });
+    const controller = new AbortController();
+
+    const info = bridge.call('platform', 'getInfo', undefined, { signal: controller.signal });
+    controller.abort();
+
+    await expect(info).rejects.toBeInstanceOf(BridgeAbortError);
+    available = true;
+    await bridge.whenAvailable();
+    expect(mock.calls).toHaveLength(0);
+  });
+});
+
+describe('bridge.whenAvailable', () => {
+  it('resolves immediately inside the native app', async () => {
+    await expect(new PWABridge({ transport: new MockTransport() }).whenAvailable()).resolves.toBe(
+      undefined
+    );
+  });
+
+  it('rejects when the bridge does not appear in time', async () => {
+    const unavailable: BridgeTransport = {
+      isAvailable: () => false,
+      connect: () => {},
+      send: () => {},
+    };
+
+    await expect(
+      new PWABridge({ transport: unavailable }).whenAvailable({ timeout: 30 })
+    ).rejects.toBeInstanceOf(BridgeUnavailableError);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Tests for the React hooks
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { act, createElement } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import { bridge } from '../src/bridge';
+import type { BridgeTransport } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import {
+  usePWAKit,
+  usePermission,
+  usePushSubscription,
+  useBiometrics,
+  useEntitlements,
+  useBridgeEvent,
+  useSecureStorage,
+} from '../src/react';
+
+declare global {
+  var IS_REACT_ACT_ENVIRONMENT: boolean;
+}
+
+globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+
+const unavailable: BridgeTransport = {
+  isAvailable: () => false,
+  connect: () => {},
+  send: () => {},
+};
+
+let roots: Root[] = [];
+
+/**
+ * Renders a hook in a component and settles its effects and bridge calls.
+ */
+async function renderHook<T, P>(hook: (props: P) => T, props: NoInfer<P>) {
+  const result = { current: undefined as T };
+  function Probe(probeProps: { value: P }): null {
+    result.current = hook(probeProps.value);
+    return null;
+  }
+
+  const root = createRoot(document.createElement('div'));
+  roots.push(root);
+  await act(async () => root.render(createElement(Probe, { value: props })));
+  await settle();
+
+  return {
+    result,
+    rerender: async (next: P) => {
+      await act(async () => root.render(createElement(Probe, { value: next })));
+      await settle();
+    },
+    unmount: () => act(() => root.unmount()),
+  };
+}
+
+/** Lets pending bridge responses and the state updates they cause run */
+function settle(): Promise<void> {
+  return act(() => new Promise<void>((resolve) => setTimeout(resolve, 0)));
+}
+
+describe('React hooks', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport({
+      state: {
+        storeKit: { ownedProductIds: ['remove_ads'] },
+        keychain: new Map([['auth_token', 'secret123']]),
+      },
+    });
+    bridge.setTransport(mock);
+  });
+
+  afterEach(() => {
+    act(() => roots.forEach((root) => root.unmount()));
+    roots = [];
+  });
+
+  it('reports the handshake in the native app', async () => {
+    const { result } = await renderHook(usePWAKit, undefined);
+
+    expect(result.current).toMatchObject({ isNative: true, ready: true, error: null });
+    expect(result.current.info?.shellVersion).toBe(mock.state.platform.pwaKitVersion);
+  });
+
+  it('tracks and requests a permission', async () => {
+    const { result } = await renderHook(usePermission, 'camera');
+
+    expect(result.current).toMatchObject({ state: 'prompt', loading: false, supported: true });
+
+    let state: string | undefined;
+    await act(async () => {
+      state = await result.current.request();
+    });
+
+    expect(state).toBe('granted');
+    expect(result.current.state).toBe('granted');
+  });
+
+  it('subscribes to push notifications', async () => {
+    const { result } = await renderHook(usePushSubscription, undefined);
+    expect(result.current.subscription).toBeNull();
+
+    await act(async () => {
+      await result.current.subscribe();
+    });
+
+    expect(result.current.subscription?.token).toBe(mock.state.notifications.token);
+  });
+
+  it('reports biometric availability', async () => {
+    const { result } = await renderHook(useBiometrics, undefined);
+
+    expect(result.current.availability).toEqual({ available: true, biometryType: 'faceId' });
+    await act(async () => {
+      await expect(result.current.authenticate('Unlock')).resolves.toMatchObject({
+        success: true,
+      });
+    });
+  });
+
+  it('reloads entitlements on transaction events', async () => {
+    const { result } = await renderHook(useEntitlements, undefined);
+    expect(result.current.isOwned('remove_ads')).toBe(true);
+    expect(result.current.isOwned('premium')).toBe(false);
+
+    mock.state.storeKit.ownedProductIds.push('premium');
+    await act(async () => mock.emit('transaction', { productId: 'premium' }));
+    await settle();
+
+    expect(result.current.isOwned('premium')).toBe(true);
+    expect(mock.callsTo('iap', 'getEntitlements')).toHaveLength(2);
+  });
+
+  it('reads, writes and deletes a Keychain value', async () => {
+    const { result, rerender } = await renderHook(useSecureStorage, 'auth_token');
+    expect(result.current.value).toBe('secret123');
+
+    await act(() => result.current.set('rotated'));
+    expect(result.current.value).toBe('rotated');
+    expect(mock.state.keychain.get('auth_token')).toBe('rotated');
+
+    await act(() => result.current.remove());
+    expect(result.current.value).toBeNull();
+    expect(mock.state.keychain.has('auth_token')).toBe(false);
+    expect(mock.callsTo('secureStorage', 'get')).toHaveLength(1);
+
+    mock.state.keychain.set('refresh_token', 'r1');
+    await rerender('refresh_token');
+    expect(result.current.value).toBe('r1');
+  });
+
+  it('surfaces failed actions as errors', async () => {
+    mock.fail('secureStorage', 'set', 'Keychain locked');
+    const { result } = await renderHook(useSecureStorage, 'auth_token');
+
+    await act(async () => {
+      await expect(result.current.set('value')).rejects.toThrow('Keychain locked');
+    });
+
+    expect(result.current.error?.message).toBe('Keychain locked');
+    expect(result.current.value).toBe('secret123');
+  });
+
+  it('calls the latest event listener and unsubscribes on unmount', async () => {
+    const received: string[] = [];
+    const { rerender, unmount } = await renderHook(
+      (prefix: string) =>
+        useBridgeEvent('deeplink', ({ url }) => {
+          received.push(`${prefix}${url}`);
+        }),
+      'first:'
+    );
+
+    await rerender('second:');
+    act(() => mock.emit('deeplink', { url: 'app://a' }));
+    await unmount();
+    act(() => mock.emit('deeplink', { url: 'app://b' }));
+
+    expect(received).toEqual(['second:app://a']);
+  });
+
+  it('renders on the server without touching the bridge', () => {
+    function Screen(): string {
+      const { ready } = usePWAKit();
+      const camera = usePermission('camera');
+      const storage = useSecureStorage('auth_token');
+      return `${ready}/${camera.loading}/${storage.loading}`;
+    }
+
+    expect(renderToString(createElement(Screen))).toBe('false/true/true');
+    expect(mock.calls).toHaveLength(0);
+  });
+});
+
+describe('React hooks outside the native app', () => {
+  beforeEach(() => {
+    bridge.setTransport(unavailable);
+  });
+
+  afterEach(() => {
+    act(() => roots.forEach((root) => root.unmount()));
+    roots = [];
+  });
+
+  it('reports a browser environment', async () => {
+    const { result } = await renderHook(usePWAKit, undefined);
+
+    expect(result.current).toMatchObject({ isNative: false, ready: true, info: null });
+  });
+
+  it('reports native-only modules as unsupported', async () => {
+    const biometrics = await renderHook(useBiometrics, undefined);
+    const entitlements = await renderHook(useEntitlements, undefined);
+    const storage = await renderHook(useSecureStorage, 'auth_token');
+
+    expect(biometrics.result.current).toMatchObject({
+      availability: { available: false, biometryType: 'none' },
+      supported: false,
+      loading: false,
+      error: null,
+    });
+    expect(entitlements.result.current).toMatchObject({ entitlements: null, supported: false });
+    expect(storage.result.current).toMatchObject({ value: null, supported: false });
+  });
+
+  it('reports modules without a Web API as unsupported', async () => {
+    const { result } = await renderHook(usePermission, 'camera');
+
+    expect(result.current).toMatchObject({ state: null, supported: false, loading: false });
+  });
+});
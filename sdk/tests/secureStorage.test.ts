@@ -0,0 +1,167 @@
+/**
+ * Tests for secure storage scopes, listing, bulk operations, JSON values and
+ * values requiring biometrics
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { bridge } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import { secureStorage } from '../src/ios/secureStorage';
+import { BiometricAuthenticationError } from '../src/ios/biometrics';
+
+describe('secureStorage', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+    bridge.setTransport(mock);
+  });
+
+  it('lists and clears keys', async () => {
+    await secureStorage.setMany({ b: '2', a: '1' });
+
+    expect(await secureStorage.keys()).toEqual(['a', 'b']);
+
+    await secureStorage.clear();
+
+    expect(await secureStorage.keys()).toEqual([]);
+  });
+
+  it('gets and sets several values in one call each', async () => {
+    await secureStorage.setMany({ access: 'a1', refresh: 'r1' });
+
+    expect(await secureStorage.getMany(['access', 'refresh', 'missing'])).toEqual({
+      access: 'a1',
+      refresh: 'r1',
+      missing: null,
+    });
+    expect(mock.callsTo('secureStorage')).toHaveLength(2);
+  });
+
+  it('stores typed JSON values', async () => {
+    await secureStorage.setJSON('session', { id: 'abc', scopes: ['read'] });
+
+    const session = await secureStorage.getJSON<{ id: string; scopes: string[] }>('session');
+
+    expect(session).toEqual({ id: 'abc', scopes: ['read'] });
+    expect(await secureStorage.get('session')).toBe('{"id":"abc","scopes":["read"]}');
+    expect(await secureStorage.getJSON('missing')).toBeNull();
+  });
+
+  it('rejects stored values that are not JSON', async () => {
+    await secureStorage.set('token', 'not json');
+
+    await expect(secureStorage.getJSON('token')).rejects.toBeInstanceOf(SyntaxError);
+  });
+
+  it('keeps namespaces apart', async () => {
+    const checkout = secureStorage.scope({ namespace: 'checkout' });
+    const profile = secureStorage.scope({ namespace: 'profile' });
+
+    await secureStorage.set('token', 'root');
+    await checkout.set('token', 'checkout');
+    await profile.set('token', 'profile');
+
+    expect(await secureStorage.get('token')).toBe('root');
+    expect(await checkout.get('token')).toBe('checkout');
+    expect(await checkout.keys()).toEqual(['token']);
+
+    await checkout.clear();
+
+    expect(await checkout.has('token')).toBe(false);
+    expect(await profile.get('token')).toBe('profile');
+    expect(await secureStorage.keys()).toEqual(['token']);
+  });
+
+  it('sends scope options with every call', async () => {
+    const shared = secureStorage.scope({
+      accessGroup: 'TEAMID.com.example.shared',
+      accessibility: 'afterFirstUnlockThisDeviceOnly',
+    });
+
+    await shared.scope({ namespace: 'auth' }).set('token', 'secret');
+    await secureStorage.get('token');
+
+    expect(mock.callsTo('secureStorage').map((call) => call.payload)).toEqual([
+      {
+        key: 'token',
+        value: 'secret',
+        namespace: 'auth',
+        accessGroup: 'TEAMID.com.example.shared',
+        accessibility: 'afterFirstUnlockThisDeviceOnly',
+      },
+      { key: 'token' },
+    ]);
+  });
+
+  describe('requiring biometrics', () => {
+    it('sends the protection and prompt reason to native', async () => {
+      await secureStorage.set('refresh', 'r1', { requireBiometrics: true, reason: 'Sign in' });
+
+      expect(await secureStorage.get('refresh', { reason: 'Renew your session' })).toBe('r1');
+      expect(mock.callsTo('secureStorage').map((call) => call.payload)).toEqual([
+        { key: 'refresh', value: 'r1', requireBiometrics: true, reason: 'Sign in' },
+        { key: 'refresh', reason: 'Renew your session' },
+      ]);
+    });
+
+    it('throws when biometrics are not available to protect a value', async () => {
+      mock.state.biometrics.available = false;
+
+      const error = await secureStorage
+        .set('refresh', 'r1', { requireBiometrics: true })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(BiometricAuthenticationError);
+      expect(error).toMatchObject({ code: 'E_UNKNOWN', errorCode: 'biometryNotAvailable' });
+      expect(await secureStorage.has('refresh')).toBe(false);
+    });
+
+    it('surfaces a dismissed prompt as a cancellation', async () => {
+      mock.respond('secureStorage', 'get', {
+        value: null,
+        error: 'User cancelled authentication',
+        errorCode: 'userCancel',
+      });
+
+      await expect(secureStorage.getJSON('session')).rejects.toMatchObject({
+        name: 'BiometricAuthenticationError',
+        code: 'E_CANCELLED',
+        errorCode: 'userCancel',
+        message: 'User cancelled authentication',
+      });
+    });
+
+    it('deletes the value once the enrolled biometry changes', async () => {
+      await secureStorage.set('refresh', 'r1', { requireBiometrics: true });
+      mock.state.biometrics.enrollment = 'enrollment-2';
+
+      await expect(secureStorage.get('refresh')).rejects.toMatchObject({
+        errorCode: 'biometryChanged',
+      });
+      expect(await secureStorage.has('refresh')).toBe(false);
+    });
+
+    it('checks existence without reading the value', async () => {
+      await secureStorage.set('refresh', 'r1', { requireBiometrics: true });
+      mock.state.biometrics.succeeds = false;
+
+      expect(await secureStorage.has('refresh')).toBe(true);
+      await expect(secureStorage.get('refresh')).rejects.toMatchObject({
+        errorCode: 'authenticationFailed',
+      });
+      expect(mock.callsTo('secureStorage', 'has').map((call) => call.payload)).toEqual([
+        { key: 'refresh' },
+      ]);
+      expect(mock.callsTo('secureStorage', 'keys')).toHaveLength(0);
+    });
+
+    it('drops the protection when the value is replaced without it', async () => {
+      await secureStorage.set('refresh', 'r1', { requireBiometrics: true });
+      mock.state.biometrics.succeeds = false;
+      await secureStorage.set('refresh', 'r2');
+
+      expect(await secureStorage.get('refresh')).toBe('r2');
+    });
+  });
+});
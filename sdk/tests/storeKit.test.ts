@@ -0,0 +1,151 @@
+/**
+ * Tests for StoreKit subscriptions, offers, signed transactions and
+ * finishing consumables
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { bridge } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import { storeKit } from '../src/ios/storeKit';
+import type { TransactionInfo } from '../src/ios/storeKit';
+
+describe('storeKit', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+    bridge.setTransport(mock);
+  });
+
+  it('describes subscription periods and offers', async () => {
+    const [monthly] = await storeKit.getProducts(['pro_monthly']);
+
+    expect(monthly.subscription).toMatchObject({
+      groupId: 'pro',
+      period: { unit: 'month', value: 1 },
+      introductoryOffer: { paymentMode: 'freeTrial', period: { unit: 'week', value: 1 } },
+      promotionalOffers: [{ id: 'pro_winback', type: 'promotional' }],
+      isEligibleForIntroOffer: true,
+    });
+  });
+
+  it('returns the signed transaction of a purchase', async () => {
+    const result = await storeKit.purchase('pro_monthly', {
+      appAccountToken: '6f1c2a9e-4b3d-4e8f-9a1b-2c3d4e5f6a7b',
+    });
+
+    expect(result.transaction).toMatchObject({
+      transactionId: result.transactionId,
+      productId: 'pro_monthly',
+      appAccountToken: '6f1c2a9e-4b3d-4e8f-9a1b-2c3d4e5f6a7b',
+      offerType: 'introductory',
+      finished: true,
+    });
+    expect(result.transaction?.jwsRepresentation?.split('.')).toHaveLength(3);
+  });
+
+  it('sends purchase options to native and keeps call options local', async () => {
+    const controller = new AbortController();
+    const promotionalOffer = {
+      offerId: 'pro_winback',
+      keyId: 'KEY123',
+      nonce: '0b6d8e2c-1f3a-4c5b-8d7e-9f0a1b2c3d4e',
+      signature: 'c2lnbmF0dXJl',
+      timestamp: 1704067200000,
+    };
+
+    const result = await storeKit.purchase(
+      'pro_monthly',
+      { promotionalOffer },
+      { signal: controller.signal }
+    );
+
+    expect(mock.callsTo('iap', 'purchase')[0].payload).toEqual({
+      productId: 'pro_monthly',
+      promotionalOffer,
+    });
+    expect(result.transaction).toMatchObject({ offerType: 'promotional', offerId: 'pro_winback' });
+  });
+
+  it('reports the subscription status of the group', async () => {
+    expect(await storeKit.getSubscriptionStatus('pro_monthly')).toEqual([]);
+
+    await storeKit.purchase('pro_monthly');
+    const [status] = await storeKit.getSubscriptionStatus('pro_monthly');
+
+    expect(status).toMatchObject({
+      productId: 'pro_monthly',
+      state: 'subscribed',
+      willAutoRenew: true,
+      isInBillingRetry: false,
+    });
+    expect(status.expirationDate).toBeGreaterThan(status.transaction.purchaseDate);
+    expect(await storeKit.getSubscriptionStatus('premium')).toEqual([]);
+  });
+
+  it('reports a renewal in its grace period', async () => {
+    mock.respond('iap', 'getSubscriptionStatus', {
+      statuses: [
+        {
+          productId: 'pro_monthly',
+          state: 'inGracePeriod',
+          willAutoRenew: true,
+          gracePeriodExpirationDate: 1707350400,
+          isInBillingRetry: true,
+          transaction: {
+            transactionId: '2000',
+            originalTransactionId: '1000',
+            productId: 'pro_monthly',
+            purchaseDate: 1704067200,
+            isUpgraded: false,
+          },
+        },
+      ],
+    });
+
+    const [status] = await storeKit.getSubscriptionStatus('pro_monthly');
+
+    expect(status.state).toBe('inGracePeriod');
+    expect(status.gracePeriodExpirationDate).toBe(1707350400);
+  });
+
+  it('leaves consumables unfinished until they are finished', async () => {
+    const { transaction } = await storeKit.purchase('coins_100');
+    await storeKit.purchase('premium');
+
+    expect(transaction?.finished).toBe(false);
+    expect(await storeKit.getUnfinishedTransactions()).toEqual([transaction]);
+
+    await storeKit.finish(transaction!.transactionId);
+    await storeKit.finish(transaction!.transactionId);
+
+    expect(await storeKit.getUnfinishedTransactions()).toEqual([]);
+    expect(mock.callsTo('iap', 'finish')[0].payload).toEqual({
+      transactionId: transaction!.transactionId,
+    });
+  });
+
+  it('delivers transaction updates as bridge events', () => {
+    const received: TransactionInfo[] = [];
+    const off = bridge.on('transaction', (transaction) => received.push(transaction));
+
+    mock.emit('transaction', {
+      transactionId: '3000',
+      originalTransactionId: '3000',
+      productId: 'pro_monthly',
+      purchaseDate: 1704067200,
+      isUpgraded: false,
+      offerType: 'code',
+      finished: true,
+    });
+    off();
+
+    expect(received).toEqual([expect.objectContaining({ offerType: 'code' })]);
+  });
+
+  it('presents the offer code sheet', async () => {
+    await storeKit.presentOfferCodeRedeemSheet();
+
+    expect(mock.callsTo('iap', 'presentOfferCodeRedeemSheet')).toHaveLength(1);
+  });
+});
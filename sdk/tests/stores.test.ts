@@ -0,0 +1,285 @@
+/**
+ * Tests for the observable stores and their Vue and Svelte bindings
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { effectScope, nextTick } from 'vue';
+import { bridge } from '../src/bridge';
+import type { BridgeTransport } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import { secureStorage } from '../src/ios/secureStorage';
+import { permissions } from '../src/modules/permissions';
+import { stores } from '../src/stores';
+import type { ReadableStore } from '../src/stores';
+import { useEntitlements, useNetwork, usePermission } from '../src/vue';
+import * as svelte from '../src/svelte';
+
+const unavailable: BridgeTransport = {
+  isAvailable: () => false,
+  connect: () => {},
+  send: () => {},
+};
+
+let subscriptions: (() => void)[] = [];
+
+/**
+ * Subscribes to a store, recording every value it reports.
+ */
+function follow<T>(store: ReadableStore<T>): T[] {
+  const values: T[] = [];
+  subscriptions.push(store.subscribe((value) => values.push(value)));
+  return values;
+}
+
+/** Lets pending bridge responses run */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+afterEach(() => {
+  subscriptions.forEach((unsubscribe) => unsubscribe());
+  subscriptions = [];
+});
+
+describe('stores', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport({ state: { storeKit: { ownedProductIds: ['remove_ads'] } } });
+    bridge.setTransport(mock);
+  });
+
+  it('shares one store per key', () => {
+    expect(stores.permission('camera')).toBe(stores.permission('camera'));
+    expect(stores.permission('camera')).not.toBe(stores.permission('microphone'));
+    expect(stores.network()).toBe(stores.network());
+  });
+
+  it('loads on the first subscriber and reports the current value straight away', async () => {
+    const values = follow(stores.permission('microphone'));
+    expect(values).toEqual([{ value: null, loading: true, error: null, supported: true }]);
+
+    await settle();
+
+    expect(values[values.length - 1]).toEqual({
+      value: 'prompt',
+      loading: false,
+      error: null,
+      supported: true,
+    });
+    expect(mock.callsTo('microphonePermission', 'checkPermission')).toHaveLength(1);
+  });
+
+  it('reloads when the app returns to the foreground', async () => {
+    const camera = stores.permission('camera');
+    follow(camera);
+    await settle();
+
+    mock.state.permissions.camera = 'denied';
+    mock.emit('lifecycle', { state: 'background' });
+    await settle();
+    expect(camera.get().value).toBe('prompt');
+
+    mock.emit('lifecycle', { state: 'foreground' });
+    await settle();
+    expect(camera.get().value).toBe('denied');
+  });
+
+  it('picks up changes made through the module after a refresh', async () => {
+    const camera = stores.permission('camera');
+    follow(camera);
+    await settle();
+
+    await permissions.request({ name: 'camera' });
+    await camera.refresh();
+
+    expect(camera.get().value).toBe('granted');
+  });
+
+  it('reloads entitlements on transaction events', async () => {
+    const entitlements = stores.entitlements();
+    follow(entitlements);
+    await settle();
+    expect(entitlements.get().value?.ownedProductIds).toEqual(['remove_ads']);
+
+    mock.state.storeKit.ownedProductIds.push('premium');
+    mock.emit('transaction', { productId: 'premium' });
+    await settle();
+
+    expect(entitlements.get().value?.ownedProductIds).toEqual(['remove_ads', 'premium']);
+  });
+
+  it('stops listening once the last subscriber leaves', async () => {
+    const biometrics = stores.biometrics();
+    const first = biometrics.subscribe(() => {});
+    const second = biometrics.subscribe(() => {});
+    await settle();
+
+    first();
+    mock.emit('lifecycle', { state: 'foreground' });
+    await settle();
+    second();
+    mock.emit('lifecycle', { state: 'foreground' });
+    await settle();
+
+    expect(mock.callsTo('biometrics', 'isAvailable')).toHaveLength(2);
+  });
+
+  it('leaves events buffered before the app listens for its own listeners', async () => {
+    mock.emit('transaction', { productId: 'premium' });
+    follow(stores.entitlements());
+    await settle();
+
+    const received: unknown[] = [];
+    const unsubscribe = bridge.on('transaction', (data) => received.push(data));
+    await settle();
+    unsubscribe();
+
+    expect(received).toEqual([{ productId: 'premium' }]);
+  });
+
+  it('loads a Keychain value and picks up changes after a refresh', async () => {
+    mock.state.keychain.set('auth_token', 'secret123');
+    const token = stores.secureStorage('auth_token');
+    follow(token);
+    await settle();
+    expect(token.get().value).toBe('secret123');
+
+    await secureStorage.delete('auth_token');
+    await token.refresh();
+
+    expect(token.get().value).toBeNull();
+  });
+
+  it('reports written Keychain values without reading them back', async () => {
+    mock.state.keychain.set('session', 's1');
+    const session = stores.secureStorage('session');
+    const lazySession = stores.secureStorage('session', { lazy: true });
+    follow(session);
+    await settle();
+
+    await lazySession.set('s2');
+    expect(session.get().value).toBe('s2');
+    expect(lazySession.get().value).toBe('s2');
+
+    await session.remove();
+    expect(session.get().value).toBeNull();
+    expect(mock.state.keychain.has('session')).toBe(false);
+    expect(mock.callsTo('secureStorage', 'get')).toHaveLength(1);
+  });
+
+  it('reads a lazy Keychain value only on refresh, with the prompt reason', async () => {
+    mock.state.keychain.set('pin', '1234');
+    const pin = stores.secureStorage('pin', { lazy: true, reason: 'Unlock your notes' });
+    follow(pin);
+    await settle();
+
+    expect(pin.get()).toEqual({ value: null, loading: false, error: null, supported: true });
+    expect(mock.callsTo('secureStorage', 'get')).toHaveLength(0);
+
+    await pin.refresh();
+
+    expect(pin.get().value).toBe('1234');
+    expect(mock.callsTo('secureStorage', 'get')[0].payload).toMatchObject({
+      key: 'pin',
+      reason: 'Unlock your notes',
+    });
+  });
+
+  it('follows lifecycle and network events', () => {
+    const lifecycle = follow(stores.lifecycle());
+    const network = follow(stores.network());
+
+    mock.emit('lifecycle', { state: 'background' });
+    mock.emit('network', {
+      online: true,
+      connectionType: 'cellular',
+      expensive: true,
+      constrained: false,
+    });
+
+    expect(lifecycle).toEqual(['foreground', 'background']);
+    expect(network[network.length - 1]).toEqual({
+      online: true,
+      connectionType: 'cellular',
+      expensive: true,
+      constrained: false,
+    });
+  });
+
+  it('follows the browser online and offline events', () => {
+    const network = stores.network();
+    follow(network);
+    const onLine = Object.getOwnPropertyDescriptor(Navigator.prototype, 'onLine')!;
+
+    try {
+      Object.defineProperty(navigator, 'onLine', { configurable: true, get: () => false });
+      window.dispatchEvent(new Event('offline'));
+      expect(network.get().online).toBe(false);
+    } finally {
+      delete (navigator as { onLine?: boolean }).onLine;
+      Object.defineProperty(Navigator.prototype, 'onLine', onLine);
+      window.dispatchEvent(new Event('online'));
+    }
+
+    expect(network.get().online).toBe(true);
+  });
+});
+
+describe('stores outside the native app', () => {
+  beforeEach(() => {
+    bridge.setTransport(unavailable);
+  });
+
+  it('reports native-only modules as unsupported', async () => {
+    const biometrics = stores.biometrics();
+    follow(biometrics);
+    await settle();
+
+    expect(biometrics.get()).toEqual({
+      value: { available: false, biometryType: 'none' },
+      loading: false,
+      error: null,
+      supported: false,
+    });
+  });
+});
+
+describe('Vue composables', () => {
+  beforeEach(() => {
+    bridge.setTransport(
+      new MockTransport({ state: { storeKit: { ownedProductIds: ['remove_ads'] } } })
+    );
+  });
+
+  it('exposes stores as refs for the lifetime of the scope', async () => {
+    const scope = effectScope();
+    const { state, loading } = scope.run(() => usePermission('geolocation'))!;
+    const { isOwned } = scope.run(() => useEntitlements())!;
+    const network = scope.run(() => useNetwork())!;
+
+    expect(loading.value).toBe(true);
+    await settle();
+    await nextTick();
+
+    expect(state.value).toBe('prompt');
+    expect(loading.value).toBe(false);
+    expect(isOwned('remove_ads')).toBe(true);
+    expect(network.value.online).toBe(true);
+
+    scope.stop();
+    bridge.setTransport(unavailable);
+    await stores.permission('geolocation').refresh();
+
+    expect(stores.permission('geolocation').get().supported).toBe(false);
+    expect(state.value).toBe('prompt');
+  });
+});
+
+describe('Svelte stores', () => {
+  it('are the shared SDK stores', () => {
+    expect(svelte.network).toBe(stores.network());
+    expect(svelte.entitlements).toBe(stores.entitlements());
+    expect(svelte.permission('camera')).toBe(stores.permission('camera'));
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for streaming bridge responses
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { bridge, BridgeError, BridgeTimeoutError, BridgeUnavailableError } from '../src/bridge';
+import { MockTransport } from '../src/mock';
+import { WebKitTransport } from '../src/transport';
+import type { BridgeStreamUpdate } from '../src/stream';
+
+describe('bridge.stream', () => {
+  let mock: MockTransport;
+
+  beforeEach(() => {
+    mock = new MockTransport();
+    bridge.setTransport(mock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    bridge.setTransport(new WebKitTransport());
+  });
+
+  it('yields progress and chunk updates before the final result', async () => {
+    mock.handle('downloads', 'start', (_payload, { progress, chunk }) => {
+      progress({ fraction: 0.5 });
+      chunk('abc');
+      progress({ fraction: 1 });
+      return { path: '/tmp/file' };
+    });
+
+    const updates: BridgeStreamUpdate[] = [];
+    for await (const update of bridge.stream('downloads', 'start', { url: 'https://example.com' })) {
+      updates.push(update);
+    }
+
+    expect(updates).toEqual([
+      { kind: 'progress', data: { fraction: 0.5 } },
+      { kind: 'chunk', data: 'abc' },
+      { kind: 'progress', data: { fraction: 1 } },
+      { kind: 'final', data: { path: '/tmp/file' } },
+    ]);
+    expect(mock.calls[0].stream).toBe(true);
+  });
+
+  it('resolves result() with the final data', async () => {
+    mock.handle('downloads', 'start', (_payload, { progress }) => {
+      progress({ fraction: 0.5 });
+      return { path: '/tmp/file' };
+    });
+
+    await expect(bridge.stream('downloads', 'start').result()).resolves.toEqual({ path: '/tmp/file' });
+  });
+
+  it('throws a BridgeError when the request fails', async () => {
+    mock.fail('downloads', 'start', 'Disk full');
+
+    await expect(bridge.stream('downloads', 'start').result()).rejects.toThrow(BridgeError);
+  });
+
+  it('cancels native work when iteration stops early', async () => {
+    let aborted = false;
+    mock.handle('downloads', 'start', async (_payload, { progress, signal }) => {
+      progress({ fraction: 0.1 });
+      await new Promise((resolve) => signal.addEventListener('abort', resolve));
+      aborted = true;
+      return { path: '/tmp/file' };
+    });
+
+    const stream = bridge.stream('downloads', 'start');
+    for await (const update of stream) {
+      expect(update.kind).toBe('progress');
+      break;
+    }
+    await Promise.resolve();
+
+    expect(stream.done).toBe(true);
+    expect(mock.cancelled).toEqual([stream.id]);
+    expect(aborted).toBe(true);
+  });
+
+  it('ignores partial responses for plain calls', async () => {
+    mock.handle('downloads', 'start', (_payload, { progress }) => {
+      progress({ fraction: 0.5 });
+      return { path: '/tmp/file' };
+    });
+
+    await expect(bridge.call('downloads', 'start')).resolves.toEqual({ path: '/tmp/file' });
+    expect(mock.calls[0].stream).toBeUndefined();
+  });
+
+  it('restarts the timeout on every partial response', async () => {
+    vi.useFakeTimers();
+    mock.handle('downloads', 'start', async (_payload, { progress }) => {
+      for (let i = 0; i < 3; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 80));
+        progress({ step: i });
+      }
+      return new Promise(() => {});
+    });
+
+    const result = bridge.stream('downloads', 'start', undefined, { timeout: 100 }).result();
+    const assertion = expect(result).rejects.toThrow(BridgeTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(240);
+    expect(vi.getTimerCount()).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+  });
+
+  it('fails immediately when the bridge is unavailable', async () => {
+    vi.stubGlobal('webkit', undefined);
+    bridge.setTransport(new WebKitTransport());
+
+    await expect(bridge.stream('downloads', 'start').result()).rejects.toThrow(BridgeUnavailableError);
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('WebKitTransport.cancel', () => {
+  it('posts a cancel control message', () => {
+    const postMessage = vi.fn();
+    vi.stubGlobal('webkit', { messageHandlers: { pwakit: { postMessage } } });
+
+    new WebKitTransport().cancel('abc-123');
+
+    expect(JSON.parse(postMessage.mock.calls[0][0])).toEqual({ type: 'cancel', id: 'abc-123' });
+    vi.unstubAllGlobals();
+  });
+});
@@ -1,15 +1,37 @@
 import { defineConfig } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/index.ts'],
-  format: ['cjs', 'esm', 'iife'],
-  globalName: 'PWAKit',
-  dts: true,
-  splitting: false,
-  sourcemap: true,
-  clean: true,
-  treeshake: true,
-  minify: false,
-  target: 'es2020',
-  outDir: 'dist',
-});
+export default defineConfig([
+  {
+    entry: ['src/index.ts'],
+    format: ['cjs', 'esm', 'iife'],
+    globalName: 'PWAKit',
+    dts: true,
+    splitting: false,
+    sourcemap: true,
+    clean: true,
+    treeshake: true,
+    minify: false,
+    target: 'es2020',
+    outDir: 'dist',
+  },
+  {
+    // Framework bindings (`@pwa-kit/sdk/react`, `/vue`, `/svelte`) and the
+    // MockTransport (`/mock`), importing the SDK entry above so they share
+    // one bridge
+    entry: {
+      react: 'src/react/index.ts',
+      vue: 'src/vue/index.ts',
+      svelte: 'src/svelte/index.ts',
+      mock: 'src/mock/index.ts',
+    },
+    format: ['cjs', 'esm'],
+    external: ['react', 'vue', '@pwa-kit/sdk'],
+    dts: true,
+    splitting: false,
+    sourcemap: true,
+    treeshake: true,
+    minify: false,
+    target: 'es2020',
+    outDir: 'dist',
+  },
+]);
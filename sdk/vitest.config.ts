@@ -1,6 +1,13 @@
+import { fileURLToPath } from 'node:url';
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  resolve: {
+    // The React hooks import the SDK by package name, like an app would
+    alias: {
+      '@pwa-kit/sdk': fileURLToPath(new URL('./src/index.ts', import.meta.url)),
+    },
+  },
   test: {
     environment: 'jsdom',
     include: ['tests/**/*.test.ts'],